@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { BookingGroup, type IBookingGroup } from "@/models/booking-group"
+import {
+  declineBookingGroupInvite,
+  inviteToBookingGroup,
+  joinBookingGroup,
+  rollBackBookingGroup,
+  toBookingGroupView,
+} from "@/lib/booking-groups"
+import { refId } from "@/lib/utils"
+
+/**
+ * A group booking, for its members, admins, or whoever holds an invite (`?invite=<token>`)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid group ID" }, { status: 400 })
+    }
+
+    const token = new URL(req.url).searchParams.get("invite") || undefined
+
+    await connectToDatabase()
+
+    const group: IBookingGroup | null = await BookingGroup.findById(id)
+    if (!group) {
+      return NextResponse.json({ error: "Group booking not found" }, { status: 404 })
+    }
+
+    const view = await toBookingGroupView(group, session.user, token)
+    if (!view.me && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Group booking not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, group: view })
+  } catch (error) {
+    console.error("Error fetching group booking:", error)
+    return NextResponse.json({ error: "Failed to fetch group booking" }, { status: 500 })
+  }
+}
+
+/**
+ * Act on a group booking:
+ * - join / decline: { action, token? } - answer an invite (by emailed token or account email)
+ * - invite: { action, memberId, email } - organiser offers an open bed to someone
+ * - cancel: { action } - organiser (or an admin) cancels the group before it confirms
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid group ID" }, { status: 400 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    if (body.action === "join" || body.action === "decline") {
+      const result =
+        body.action === "join"
+          ? await joinBookingGroup(id, session.user, body.token)
+          : await declineBookingGroupInvite(id, session.user, body.token)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
+      return NextResponse.json({ success: true, group: await toBookingGroupView(result.group, session.user) })
+    }
+
+    const group: IBookingGroup | null = await BookingGroup.findById(id)
+    if (!group) {
+      return NextResponse.json({ error: "Group booking not found" }, { status: 404 })
+    }
+
+    if (body.action === "invite") {
+      const result = await inviteToBookingGroup(group, session.user, body.memberId, body.email)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
+      return NextResponse.json({ success: true, group: await toBookingGroupView(result.group, session.user) })
+    }
+
+    if (body.action === "cancel") {
+      if (refId(group.organiser) !== session.user.id && session.user.role !== "admin") {
+        return NextResponse.json({ error: "Only the organiser can cancel the group" }, { status: 403 })
+      }
+      const cancelled = await rollBackBookingGroup(group._id, "organiser")
+      if (!cancelled) {
+        return NextResponse.json({ error: "This group booking has already been confirmed or cancelled" }, { status: 409 })
+      }
+      return NextResponse.json({ success: true, group: await toBookingGroupView(cancelled, session.user) })
+    }
+
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+  } catch (error) {
+    console.error("Error updating group booking:", error)
+    return NextResponse.json({ error: "An error occurred while updating the group booking" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { expireBookingGroups } from "@/lib/booking-groups"
+
+/**
+ * Settle group bookings past their payment deadline (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await expireBookingGroups()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error expiring group bookings:", error)
+    return NextResponse.json({ error: "An error occurred while expiring group bookings" }, { status: 500 })
+  }
+}
+
+export const GET = POST
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { createBookingGroup, listBookingGroups, toBookingGroupView } from "@/lib/booking-groups"
+
+/**
+ * Group bookings the user organises, belongs to or is invited to
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const groups = await listBookingGroups(session.user)
+
+    return NextResponse.json({ success: true, groups })
+  } catch (error) {
+    console.error("Error fetching group bookings:", error)
+    return NextResponse.json({ error: "Failed to fetch group bookings" }, { status: 500 })
+  }
+}
+
+/**
+ * Start a group booking: reserves every bed and invites the friends by email.
+ * Body: { propertyId, checkIn, checkOut?, roomType, invites: [{ email, roomType }] }
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const result = await createBookingGroup(session.user, body)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(
+      { success: true, group: await toBookingGroupView(result.group, session.user) },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("Error creating group booking:", error)
+    return NextResponse.json({ error: "An error occurred while creating the group booking" }, { status: 500 })
+  }
+}
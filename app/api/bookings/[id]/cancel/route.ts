@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Booking } from "@/models/booking"
+import { Property } from "@/models/property"
+import { getBookingActor } from "@/lib/booking-state-machine"
+import { cancelBooking, getCancellationQuote } from "@/lib/booking-cancellation"
+import mongoose from "mongoose"
+
+async function loadBookingForActor(id: string, sessionUser: { id: string; role?: string }) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid booking ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const booking = await Booking.findById(id)
+  if (!booking) {
+    return { error: NextResponse.json({ error: "Booking not found" }, { status: 404 }) }
+  }
+
+  const property = await Property.findById(booking.property).select("owner")
+  const actor = getBookingActor(booking, property?.owner?.toString(), sessionUser)
+  if (!actor) {
+    return { error: NextResponse.json({ error: "You don't have permission to cancel this booking" }, { status: 403 }) }
+  }
+
+  return { booking, actor }
+}
+
+/**
+ * Preview the refund a cancellation would give right now
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const loaded = await loadBookingForActor(id, session.user)
+    if (loaded.error) return loaded.error
+
+    const { policy, refund } = await getCancellationQuote(loaded.booking, loaded.actor)
+
+    return NextResponse.json({
+      cancellable: loaded.booking.status === "pending" || loaded.booking.status === "confirmed",
+      policy,
+      refund,
+    })
+  } catch (error) {
+    console.error("Error fetching cancellation quote:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the cancellation quote" }, { status: 500 })
+  }
+}
+
+/**
+ * Cancel a booking, keeping the record and refunding per the property's policy
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await req.json().catch(() => ({}))
+    const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 500) || undefined : undefined
+
+    const loaded = await loadBookingForActor(id, session.user)
+    if (loaded.error) return loaded.error
+
+    const result = await cancelBooking(loaded.booking, loaded.actor, reason)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Booking cancelled successfully",
+      booking: result.booking,
+      refund: result.refund,
+    })
+  } catch (error) {
+    console.error("Error cancelling booking:", error)
+    return NextResponse.json({ error: "An error occurred while cancelling the booking" }, { status: 500 })
+  }
+}
@@ -0,0 +1,167 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Booking, type IBooking } from "@/models/booking"
+import { Property } from "@/models/property"
+import { getBookingActor, type TransitionActor } from "@/lib/booking-state-machine"
+import { findOpenPayments, startPayment, syncPayment } from "@/lib/payments"
+import {
+  acceptDepositDeductions,
+  disputeDepositDeductions,
+  getPayableDeposit,
+  recordDepositCollected,
+  refundDeposit,
+  resolveDepositDispute,
+  submitMoveOutInspection,
+  type DepositResult,
+} from "@/lib/deposits"
+import mongoose from "mongoose"
+
+async function loadBookingForActor(id: string, sessionUser: { id: string; role?: string }) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid booking ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const booking: IBooking | null = await Booking.findById(id)
+  if (!booking) {
+    return { error: NextResponse.json({ error: "Booking not found" }, { status: 404 }) }
+  }
+  if (!booking.deposit) {
+    return { error: NextResponse.json({ error: "This booking has no security deposit" }, { status: 400 }) }
+  }
+
+  const property = await Property.findById(booking.property).select("owner")
+  const actor = getBookingActor(booking, property?.owner?.toString(), sessionUser)
+  if (!actor) {
+    return { error: NextResponse.json({ error: "You don't have permission to manage this deposit" }, { status: 403 }) }
+  }
+
+  return { booking, actor }
+}
+
+/**
+ * Deposit status, settling an online payment the webhook hasn't reported yet
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const loaded = await loadBookingForActor(id, session.user)
+    if (loaded.error) return loaded.error
+
+    let booking = loaded.booking
+    if (booking.deposit?.status === "due") {
+      for (const payment of await findOpenPayments({ booking: id, purpose: "deposit" })) {
+        const result = await syncPayment(payment, {}, { reason: "Razorpay deposit payment found while polling" })
+        if (result.success && result.booking) booking = result.booking
+      }
+    }
+
+    return NextResponse.json({ success: true, deposit: booking.deposit, role: loaded.actor.role })
+  } catch (error) {
+    console.error("Error fetching deposit:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the deposit" }, { status: 500 })
+  }
+}
+
+const ACTION_ROLES: Record<string, TransitionActor["role"][]> = {
+  pay: ["tenant"],
+  collect: ["owner", "admin"],
+  inspect: ["owner", "admin"],
+  accept: ["tenant"],
+  dispute: ["tenant"],
+  resolve: ["admin"],
+  refund: ["owner", "admin"],
+}
+
+/**
+ * Move a deposit along: `action` is one of pay, collect, inspect, accept,
+ * dispute, resolve or refund
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await req.json().catch(() => ({}))
+    const action = typeof body?.action === "string" ? body.action : ""
+
+    const loaded = await loadBookingForActor(id, session.user)
+    if (loaded.error) return loaded.error
+    const { booking, actor } = loaded
+
+    if (!ACTION_ROLES[action]) {
+      return NextResponse.json({ error: "Unknown deposit action" }, { status: 400 })
+    }
+    if (!ACTION_ROLES[action].includes(actor.role)) {
+      return NextResponse.json({ error: "You can't do that with this deposit" }, { status: 403 })
+    }
+
+    const reference = typeof body.reference === "string" ? body.reference.trim() || undefined : undefined
+    const text = (value: unknown) => (typeof value === "string" ? value : "")
+
+    if (action === "pay") {
+      const payable = await getPayableDeposit(id, session.user.id)
+      if ("error" in payable) {
+        return NextResponse.json({ error: payable.error }, { status: payable.status })
+      }
+
+      const started = await startPayment(
+        "razorpay",
+        { purpose: "deposit", booking: payable.booking },
+        { userId: session.user.id, customer: session.user, flow: "payment_link" }
+      )
+      if (!started.success) {
+        return NextResponse.json({ error: started.error }, { status: started.status })
+      }
+
+      return NextResponse.json({ success: true, ...started.checkout.clientData })
+    }
+
+    let result: DepositResult
+    switch (action) {
+      case "collect":
+        result = await recordDepositCollected(booking, actor, reference)
+        break
+      case "inspect":
+        result = await submitMoveOutInspection(booking, actor, { deductions: body.deductions ?? [], notes: text(body.notes) || undefined })
+        break
+      case "accept":
+        result = await acceptDepositDeductions(booking, actor)
+        break
+      case "dispute":
+        result = await disputeDepositDeductions(booking, actor, text(body.reason))
+        break
+      case "resolve":
+        result = await resolveDepositDispute(booking, actor, { deductions: body.deductions ?? [], resolution: text(body.resolution) })
+        break
+      default:
+        // Owners hold cash deposits themselves, so they record the transfer they made
+        if (actor.role === "owner" && (booking.deposit?.heldBy !== "owner" || !reference)) {
+          return NextResponse.json({ error: "Enter the reference of the refund you sent" }, { status: 400 })
+        }
+        result = await refundDeposit(booking, { actor, reference })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, deposit: result.booking.deposit })
+  } catch (error) {
+    console.error("Error updating deposit:", error)
+    return NextResponse.json({ error: "An error occurred while updating the deposit" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Booking, type IBooking } from "@/models/booking"
+import { Property } from "@/models/property"
+import { getInvoiceFileName, issueBookingInvoice, renderTaxInvoicePdf } from "@/lib/tax-invoices"
+
+/**
+ * Download the tax invoice for a paid booking (tenant, property owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID format" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const booking: IBooking | null = await Booking.findById(id)
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 })
+    }
+
+    if (booking.user.toString() !== session.user.id && session.user.role !== "admin") {
+      const property = await Property.findById(booking.property).select("owner").lean<{ owner?: unknown }>()
+      if (String(property?.owner) !== session.user.id) {
+        return NextResponse.json({ error: "You don't have permission to view this invoice" }, { status: 403 })
+      }
+    }
+
+    // Refunded bookings were still paid for, so their invoice stays available
+    if (booking.paymentStatus === "pending") {
+      return NextResponse.json({ error: "This booking hasn't been paid yet" }, { status: 400 })
+    }
+
+    const invoice = await issueBookingInvoice(booking)
+
+    return new NextResponse(new Uint8Array(renderTaxInvoicePdf(invoice)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating booking invoice:", error)
+    return NextResponse.json({ error: "Failed to generate invoice" }, { status: 500 })
+  }
+}
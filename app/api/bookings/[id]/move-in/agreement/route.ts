@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { getMoveInForUser, renderAgreementPdf } from "@/lib/move-ins"
+
+/**
+ * Download the rental agreement PDF, marked as a draft until both sides have signed
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const loaded = await getMoveInForUser(id, session.user)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const signed = !!loaded.moveIn.agreement.signedAt
+    return new NextResponse(new Uint8Array(renderAgreementPdf(loaded.moveIn)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="rental-agreement-${id}${signed ? "" : "-draft"}.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating rental agreement:", error)
+    return NextResponse.json({ error: "Failed to generate the rental agreement" }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { getMoveInForUser, renderPoliceVerificationPdf } from "@/lib/move-ins"
+
+/**
+ * Download the pre-filled tenant police verification form
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const loaded = await getMoveInForUser(id, session.user)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const pdf = await renderPoliceVerificationPdf(loaded.booking)
+    if (!pdf) {
+      return NextResponse.json({ error: "Booking details are incomplete" }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="police-verification-${id}.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating police verification form:", error)
+    return NextResponse.json({ error: "Failed to generate the police verification form" }, { status: 500 })
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import {
+  getMoveInForUser,
+  MOVE_IN_CHECKLIST,
+  reviewChecklistItem,
+  signAgreement,
+  submitChecklistItem,
+  type MoveInResult,
+} from "@/lib/move-ins"
+
+function getClientIp(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for")
+  return forwarded?.split(",")[0]?.trim() || req.headers.get("x-real-ip") || undefined
+}
+
+/**
+ * A confirmed booking's move-in: the rental agreement and checklist
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const loaded = await getMoveInForUser(id, session.user)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    return NextResponse.json({
+      success: true,
+      moveIn: loaded.moveIn,
+      role: loaded.actor.role,
+      checklist: MOVE_IN_CHECKLIST,
+    })
+  } catch (error) {
+    console.error("Error fetching move-in:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the move-in" }, { status: 500 })
+  }
+}
+
+/**
+ * Move a move-in along: `action` is sign (tenant or owner, with `name` and the
+ * `contentHash` they were shown), submit (tenant, a checklist `key` and its
+ * `files`) or review (owner or admin, a `key`, `decision` and `note`)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await req.json().catch(() => ({}))
+
+    await connectToDatabase()
+
+    const loaded = await getMoveInForUser(id, session.user)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+    const { moveIn, actor } = loaded
+
+    let result: MoveInResult
+    switch (body?.action) {
+      case "sign":
+        result = await signAgreement(moveIn, actor, {
+          name: body.name,
+          contentHash: body.contentHash,
+          ip: getClientIp(req),
+          userAgent: req.headers.get("user-agent") || undefined,
+        })
+        break
+      case "submit":
+        result = await submitChecklistItem(moveIn, actor, body.key, body.files)
+        break
+      case "review":
+        result = await reviewChecklistItem(moveIn, actor, body.key, body.decision, body.note)
+        break
+      default:
+        return NextResponse.json({ error: "Unknown move-in action" }, { status: 400 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, moveIn: result.moveIn })
+  } catch (error) {
+    console.error("Error updating move-in:", error)
+    return NextResponse.json({ error: "An error occurred while updating the move-in" }, { status: 500 })
+  }
+}
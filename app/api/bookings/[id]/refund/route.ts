@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Booking } from "@/models/booking"
+import { processBookingRefund } from "@/lib/booking-cancellation"
+import mongoose from "mongoose"
+
+/**
+ * Settle the refund owed on a cancelled booking (admin only).
+ * Retries Razorpay refunds, or records a manual refund when `reference` is given.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const reference = typeof body?.reference === "string" ? body.reference.trim() || undefined : undefined
+
+    await connectToDatabase()
+
+    const booking = await Booking.findById(id)
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 })
+    }
+
+    const result = await processBookingRefund(booking, {
+      actor: { role: "admin", userId: session.user.id },
+      reference,
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, booking: result.booking })
+  } catch (error) {
+    console.error("Error processing refund:", error)
+    return NextResponse.json({ error: "An error occurred while processing the refund" }, { status: 500 })
+  }
+}
@@ -4,6 +4,9 @@ import { Booking } from "@/models/booking"
 import { Property } from "@/models/property"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
+import { getBookingActor, transitionBooking } from "@/lib/booking-state-machine"
+import { cancelBooking } from "@/lib/booking-cancellation"
+import { voidRentInvoices } from "@/lib/rent-ledger"
 import mongoose from "mongoose"
 
 export async function GET(req: Request, { params }: { params: { id: string } }) {
@@ -44,6 +47,9 @@ export async function GET(req: Request, { params }: { params: { id: string } })
   }
 }
 
+// Fields a PUT may touch; status fields go through the booking state machine
+const UPDATABLE_FIELDS = ["status", "paymentStatus", "reason", "checkInDate", "checkOutDate"]
+
 export async function PUT(req: Request, { params }: { params: { id: string } }) {
   try {
     const session = await getServerSession(authOptions)
@@ -55,36 +61,90 @@ export async function PUT(req: Request, { params }: { params: { id: string } })
     const id = params.id
     const body = await req.json()
 
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID" }, { status: 400 })
+    }
+
+    const unknownFields = Object.keys(body).filter((key) => !UPDATABLE_FIELDS.includes(key))
+    if (unknownFields.length > 0) {
+      return NextResponse.json({ error: `These fields cannot be updated: ${unknownFields.join(", ")}` }, { status: 400 })
+    }
+
     await connectToDatabase()
 
-    const booking = await Booking.findById(id)
+    let booking = await Booking.findById(id)
 
     if (!booking) {
       return NextResponse.json({ error: "Booking not found" }, { status: 404 })
     }
 
-    // Check permissions based on the update being made
-    const isPropertyOwner = await Property.findOne({
-      _id: booking.property,
-      owner: session.user.id,
-    })
+    const property = await Property.findById(booking.property).select("owner")
+    const actor = getBookingActor(booking, property?.owner?.toString(), session.user)
 
-    const isBookingOwner = booking.user.toString() === session.user.id
-    const isAdmin = session.user.role === "admin"
+    if (!actor) {
+      return NextResponse.json({ error: "You don't have permission to update this booking" }, { status: 403 })
+    }
 
-    // Only property owner or admin can change status
-    if (body.status && !isPropertyOwner && !isAdmin) {
-      return NextResponse.json({ error: "You don't have permission to update the booking status" }, { status: 403 })
+    // Only booking owner can change dates, and only before the stay is over.
+    // Once paid the check-in date decides the cancellation refund, so tenants
+    // can't move it any more; an admin can.
+    if (body.checkInDate || body.checkOutDate) {
+      if (actor.role !== "tenant" && actor.role !== "admin") {
+        return NextResponse.json({ error: "You don't have permission to update the booking dates" }, { status: 403 })
+      }
+      if (booking.status !== "pending" && booking.status !== "confirmed") {
+        return NextResponse.json({ error: `Dates can't be changed on a ${booking.status} booking` }, { status: 400 })
+      }
+      if (actor.role === "tenant" && (booking.status !== "pending" || booking.paymentStatus !== "pending")) {
+        return NextResponse.json(
+          { error: "The dates of a paid or confirmed booking can't be changed. Please contact support." },
+          { status: 400 },
+        )
+      }
+
+      const checkInDate = body.checkInDate ? new Date(body.checkInDate) : booking.checkInDate
+      const checkOutDate = body.checkOutDate ? new Date(body.checkOutDate) : booking.checkOutDate
+      if (Number.isNaN(checkInDate.getTime()) || (checkOutDate && Number.isNaN(checkOutDate.getTime()))) {
+        return NextResponse.json({ error: "Invalid booking dates" }, { status: 400 })
+      }
+      if (checkOutDate && checkOutDate <= checkInDate) {
+        return NextResponse.json({ error: "Check-out must be after check-in" }, { status: 400 })
+      }
+
+      booking.checkInDate = checkInDate
+      booking.checkOutDate = checkOutDate
+      booking.updatedAt = new Date()
+      await booking.save()
+
+      // A shorter stay no longer owes rent for the months after check-out
+      if (checkOutDate) await voidRentInvoices(booking._id, { from: checkOutDate })
     }
 
-    // Only booking owner can change dates
-    if ((body.checkInDate || body.checkOutDate) && !isBookingOwner && !isAdmin) {
-      return NextResponse.json({ error: "You don't have permission to update the booking dates" }, { status: 403 })
+    const reason = typeof body.reason === "string" ? body.reason.trim() || undefined : undefined
+
+    // Cancellations also settle the refund owed under the property's policy
+    if (body.status === "cancelled" && !body.paymentStatus) {
+      const result = await cancelBooking(booking, actor, reason)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
+      return NextResponse.json(result.booking)
     }
 
-    const updatedBooking = await Booking.findByIdAndUpdate(id, { ...body, updatedAt: new Date() }, { new: true })
+    if (body.status || body.paymentStatus) {
+      const result = await transitionBooking(
+        booking,
+        { status: body.status, paymentStatus: body.paymentStatus },
+        { actor, reason },
+      )
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
+      booking = result.booking
+    }
 
-    return NextResponse.json(updatedBooking)
+    return NextResponse.json(booking)
   } catch (error) {
     console.error("Error updating booking:", error)
     return NextResponse.json({ error: "An error occurred while updating the booking" }, { status: 500 })
@@ -110,22 +170,21 @@ export async function DELETE(req: Request, { params }: { params: { id: string }
     }
 
     // Only booking owner or admin can cancel/delete booking
-    if (booking.user.toString() !== session.user.id && session.user.role !== "admin") {
+    const actor = getBookingActor(booking, null, session.user)
+    if (!actor) {
       return NextResponse.json({ error: "You don't have permission to cancel this booking" }, { status: 403 })
     }
 
-    // If cancelling a confirmed booking, increase room availability
-    if (booking.status === "confirmed") {
-      await Property.findByIdAndUpdate(
-        booking.property,
-        { $inc: { "roomTypes.$[elem].available": 1 } },
-        { arrayFilters: [{ "elem.type": booking.roomType }] },
-      )
+    // The booking is kept as cancelled so refunds and history stay on record
+    const result = await cancelBooking(booking, actor, "Cancelled by user")
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
     }
 
-    await Booking.findByIdAndDelete(id)
-
-    return NextResponse.json({ message: "Booking cancelled successfully" }, { status: 200 })
+    return NextResponse.json(
+      { message: "Booking cancelled successfully", booking: result.booking, refund: result.refund },
+      { status: 200 },
+    )
   } catch (error) {
     console.error("Error cancelling booking:", error)
     return NextResponse.json({ error: "An error occurred while cancelling the booking" }, { status: 500 })
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { releaseExpiredHolds } from "@/lib/booking-reservations"
+
+/**
+ * Cancel unpaid bookings whose inventory hold has expired (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await releaseExpiredHolds()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error releasing expired booking holds:", error)
+    return NextResponse.json({ error: "An error occurred while releasing expired holds" }, { status: 500 })
+  }
+}
+
+export const GET = POST
@@ -4,6 +4,10 @@ import { Booking } from "@/models/booking"
 import { Property } from "@/models/property"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
+import { getHoldExpiry, releaseExpiredHolds, releaseRoom, reserveRoom } from "@/lib/booking-reservations"
+import { newBookingDeposit } from "@/lib/deposits"
+import { getBookableVisit, linkVisitBooking } from "@/lib/visits"
+import { claimWaitlistOffer, expireWaitlistOffers, linkWaitlistBooking, restoreWaitlistOffer } from "@/lib/waitlist"
 
 export async function GET(req: Request) {
   try {
@@ -58,6 +62,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Property not found" }, { status: 404 })
     }
 
+    // Booking straight from a visit links the two once the booking exists
+    let visit
+    if (body.visitId) {
+      const bookable = await getBookableVisit(body.visitId, session.user.id, String(property._id))
+      if (!bookable.success) {
+        return NextResponse.json({ error: bookable.error }, { status: bookable.status })
+      }
+      visit = bookable.visit
+    }
+
     let price = totalAmount || property.price || 0
     let roomTypeInfo = null
 
@@ -68,10 +82,6 @@ export async function POST(req: Request) {
         return NextResponse.json({ error: "Room type not found" }, { status: 404 })
       }
 
-      if (roomTypeInfo.available <= 0) {
-        return NextResponse.json({ error: "No rooms available for this type" }, { status: 400 })
-      }
-
       price = roomTypeInfo.price
     }
 
@@ -86,6 +96,24 @@ export async function POST(req: Request) {
       totalBookingAmount += settlingInKit.price
     }
 
+    // Reserve the bed up front; the conditional decrement fails if someone else got the last one.
+    // A student with an open waitlist offer books the bed already held for them.
+    let reservation
+    let waitlistOffer
+    if (roomType && roomTypeInfo) {
+      await releaseExpiredHolds(propertyId)
+      await expireWaitlistOffers({ propertyId })
+
+      waitlistOffer = await claimWaitlistOffer(session.user.id, propertyId, roomType)
+      const reserved = waitlistOffer || (await reserveRoom(propertyId, roomType))
+      if (!reserved) {
+        return NextResponse.json({ error: "No rooms available for this type", waitlist: true }, { status: 400 })
+      }
+
+      const heldAt = new Date()
+      reservation = { status: "held", heldAt, expiresAt: getHoldExpiry(heldAt) }
+    }
+
     // Create booking
     const newBooking = new Booking({
       user: session.user.id,
@@ -104,20 +132,24 @@ export async function POST(req: Request) {
       commissionAmount,
       // Business Model - Revenue Stream 4: Settling In Kits
       settlingInKit: settlingInKit || undefined,
+      // Paid separately, once the booking is paid or at move-in
+      deposit: newBookingDeposit(property.deposit),
+      reservation,
       createdAt: new Date(),
     })
 
-    await newBooking.save()
-
-    // Update room availability if roomType was specified
-    if (roomType && roomTypeInfo) {
-      await Property.findByIdAndUpdate(
-        propertyId,
-        { $inc: { "roomTypes.$[elem].available": -1 } },
-        { arrayFilters: [{ "elem.type": roomType }] },
-      )
+    try {
+      await newBooking.save()
+    } catch (saveError) {
+      if (waitlistOffer) await restoreWaitlistOffer(waitlistOffer)
+      else if (reservation) await releaseRoom(propertyId, roomType)
+      throw saveError
     }
 
+    if (waitlistOffer) await linkWaitlistBooking(waitlistOffer, newBooking._id)
+
+    if (visit) await linkVisitBooking(visit, newBooking._id)
+
     return NextResponse.json(newBooking, { status: 201 })
   } catch (error) {
     console.error("Error creating booking:", error)
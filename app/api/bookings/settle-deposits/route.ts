@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { settleUndisputedDeposits } from "@/lib/deposits"
+
+/**
+ * Settle deposits whose move-out dispute window has closed (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await settleUndisputedDeposits()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error settling deposits:", error)
+    return NextResponse.json({ error: "An error occurred while settling deposits" }, { status: 500 })
+  }
+}
+
+export const GET = POST
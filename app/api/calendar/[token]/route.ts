@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { buildCalendarFeed, findUserByCalendarFeedToken } from "@/lib/calendar-feed"
+
+/**
+ * A user's iCalendar feed. The secret token in the URL is the only
+ * credential, so calendar apps can subscribe without logging in.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token: rawToken } = await params
+    const token = rawToken.replace(/\.ics$/, "")
+    if (!/^[A-Za-z0-9_-]{20,64}$/.test(token)) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 })
+    }
+
+    await connectToDatabase()
+
+    const user = await findUserByCalendarFeedToken(token)
+    if (!user) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 })
+    }
+
+    const calendar = await buildCalendarFeed(user, new URL(req.url).origin)
+
+    return new Response(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="secondhome.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    })
+  } catch (error) {
+    console.error("Error building calendar feed:", error)
+    return NextResponse.json({ error: "An error occurred while building the calendar feed" }, { status: 500 })
+  }
+}
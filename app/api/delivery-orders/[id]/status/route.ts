@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { DeliveryOrder, type IDeliveryOrder } from "@/models/delivery-order"
+import { getDeliveryActor, updateDeliveryOrderStatus, type DeliveryOrderStatus } from "@/lib/delivery-orders"
+
+const STATUSES: DeliveryOrderStatus[] = ["preparing", "out_for_delivery", "delivered", "cancelled"]
+
+/**
+ * Move a delivery order along (mess owner or admin), or cancel it
+ * (subscriber, before the mess starts preparing it)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (!STATUSES.includes(body?.status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+    const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 500) || undefined : undefined
+
+    await connectToDatabase()
+
+    const order: IDeliveryOrder | null = await DeliveryOrder.findById(id)
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const actor = getDeliveryActor(order, session.user)
+    if (!actor) {
+      return NextResponse.json({ error: "You don't have permission to update this order" }, { status: 403 })
+    }
+
+    const result = await updateDeliveryOrderStatus(order, body.status, actor, reason)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, order: result.order })
+  } catch (error) {
+    console.error("Error updating delivery order:", error)
+    return NextResponse.json({ error: "An error occurred while updating the order" }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { DeliveryOrder } from "@/models/delivery-order"
+import { parseDayKey } from "@/lib/meal-attendance"
+import { placeDeliveryOrder } from "@/lib/delivery-orders"
+
+const STATUSES = ["placed", "preparing", "out_for_delivery", "delivered", "cancelled"]
+
+/**
+ * List the current user's delivery orders, or orders to their messes
+ * (`?scope=owner`, optionally `&status=` and `&date=YYYY-MM-DD`)
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const scope = searchParams.get("scope")
+    const status = searchParams.get("status")
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+    const dateParam = searchParams.get("date")
+    const date = dateParam ? parseDayKey(dateParam) : null
+    if (dateParam && !date) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    const query: Record<string, unknown> = {}
+    if (scope === "owner") {
+      if (session.user.role !== "owner" && session.user.role !== "admin") {
+        return NextResponse.json({ error: "Only mess owners can view delivery orders" }, { status: 403 })
+      }
+      if (session.user.role !== "admin") query.owner = session.user.id
+    } else {
+      query.user = session.user.id
+    }
+    if (status) query.status = status
+    if (date) query.date = date
+
+    await connectToDatabase()
+
+    const find = DeliveryOrder.find(query).populate("mess", "name location")
+    if (scope === "owner") find.populate("user", "name email")
+    const orders = await find.sort({ date: -1, createdAt: -1 }).limit(200).lean()
+
+    return NextResponse.json({ success: true, orders })
+  } catch (error) {
+    console.error("Error fetching delivery orders:", error)
+    return NextResponse.json({ error: "An error occurred while fetching delivery orders" }, { status: 500 })
+  }
+}
+
+/**
+ * Order a subscribed meal for home delivery
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { subscriptionId, date, meal, address, coordinates, phone, notes } = body ?? {}
+    if (
+      typeof subscriptionId !== "string" ||
+      typeof date !== "string" ||
+      typeof meal !== "string" ||
+      typeof address !== "string"
+    ) {
+      return NextResponse.json({ error: "subscriptionId, date, meal and address are required" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const result = await placeDeliveryOrder(session.user.id, {
+      subscriptionId,
+      date,
+      meal,
+      address,
+      coordinates,
+      phone: typeof phone === "string" ? phone : undefined,
+      notes: typeof notes === "string" ? notes.slice(0, 500) : undefined,
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, order: result.order }, { status: 201 })
+  } catch (error) {
+    console.error("Error placing delivery order:", error)
+    return NextResponse.json({ error: "An error occurred while placing the order" }, { status: 500 })
+  }
+}
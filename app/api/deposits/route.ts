@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Booking } from "@/models/booking"
+import { Property } from "@/models/property"
+
+const STATUSES = ["due", "held", "inspected", "disputed", "settled", "cancelled"]
+
+/**
+ * Security deposits on the current owner's properties (every property for
+ * admins), optionally filtered by `?status=`
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners can view deposits" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const status = searchParams.get("status")
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const query: Record<string, unknown> = {
+      "deposit.status": status || { $exists: true },
+      // Bookings that lapsed before paying never had a deposit to collect
+      $nor: [{ status: "cancelled", "deposit.status": "due" }],
+    }
+    if (session.user.role !== "admin") {
+      const properties = await Property.find({ owner: session.user.id }).select("_id").lean()
+      query.property = { $in: properties.map((property) => property._id) }
+    }
+
+    const bookings = await Booking.find(query)
+      .select("user property roomType checkInDate checkOutDate status deposit")
+      .populate("property", "title")
+      .populate("user", "name email phone")
+      .sort({ updatedAt: -1, createdAt: -1 })
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({ success: true, bookings })
+  } catch (error) {
+    console.error("Error fetching deposits:", error)
+    return NextResponse.json({ error: "Failed to fetch deposits" }, { status: 500 })
+  }
+}
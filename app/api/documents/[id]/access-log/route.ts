@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { getAccessContext, getAccessibleDocument, getDocumentAccessLog } from "@/lib/document-vault"
+
+/**
+ * Who opened or changed a document, for its owner and admins
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const loaded = await getAccessibleDocument(id, session.user, getAccessContext(req))
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+    if (loaded.actor.role === "owner") {
+      return NextResponse.json({ error: "Only the document's owner can see its access log" }, { status: 403 })
+    }
+
+    const entries = await getDocumentAccessLog(loaded.document)
+
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    console.error("Error fetching document access log:", error)
+    return NextResponse.json({ error: "Failed to fetch the access log" }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import {
+  getAccessContext,
+  getAccessibleDocument,
+  getDocumentFileUrl,
+  logDocumentAccess,
+} from "@/lib/document-vault"
+
+/**
+ * Open one of a document's files: logs the download, then redirects to a
+ * signed link that expires after a few minutes
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string; index: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id, index } = await params
+    const fileIndex = Number(index)
+    const context = getAccessContext(req)
+
+    await connectToDatabase()
+
+    const loaded = await getAccessibleDocument(id, session.user, context)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const url = Number.isInteger(fileIndex) ? getDocumentFileUrl(loaded.document, fileIndex) : null
+    if (!url) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    await logDocumentAccess(
+      loaded.document,
+      loaded.actor,
+      "downloaded",
+      { fileIndex, ...(loaded.share ? { booking: loaded.share.booking } : {}) },
+      context,
+    )
+
+    const response = NextResponse.redirect(url)
+    response.headers.set("Cache-Control", "no-store")
+    return response
+  } catch (error) {
+    console.error("Error opening document file:", error)
+    return NextResponse.json({ error: "An error occurred while opening the file" }, { status: 500 })
+  }
+}
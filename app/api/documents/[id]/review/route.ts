@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { getAccessContext, getAccessibleDocument, reviewDocument, toDocumentView } from "@/lib/document-vault"
+
+/**
+ * Verify or reject a pending document (admin only): `{ decision, reason? }`
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only admins can verify documents" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { decision, reason } = await req.json()
+    const context = getAccessContext(req)
+
+    await connectToDatabase()
+
+    const loaded = await getAccessibleDocument(id, session.user, context)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const result = await reviewDocument(loaded.document, session.user.id, decision, reason, context)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, document: toDocumentView(result.document, loaded.actor) })
+  } catch (error) {
+    console.error("Error reviewing document:", error)
+    return NextResponse.json({ error: "An error occurred while reviewing the document" }, { status: 500 })
+  }
+}
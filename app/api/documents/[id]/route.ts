@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import {
+  deleteDocument,
+  getAccessContext,
+  getAccessibleDocument,
+  logDocumentAccess,
+  toDocumentView,
+} from "@/lib/document-vault"
+
+/**
+ * A vault document, for its owner, an admin, or an owner it is shared with.
+ * Every view is logged.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const context = getAccessContext(req)
+
+    await connectToDatabase()
+
+    const loaded = await getAccessibleDocument(id, session.user, context)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    await logDocumentAccess(
+      loaded.document,
+      loaded.actor,
+      "viewed",
+      { ...(loaded.share ? { booking: loaded.share.booking } : {}) },
+      context,
+    )
+
+    return NextResponse.json({ success: true, document: toDocumentView(loaded.document, loaded.actor) })
+  } catch (error) {
+    console.error("Error fetching document:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the document" }, { status: 500 })
+  }
+}
+
+/**
+ * Delete a document and its files (the owner of the document only)
+ */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const context = getAccessContext(req)
+
+    await connectToDatabase()
+
+    const loaded = await getAccessibleDocument(id, session.user, context)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const result = await deleteDocument(loaded.document, session.user.id, context)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting document:", error)
+    return NextResponse.json({ error: "An error occurred while deleting the document" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import {
+  getAccessContext,
+  getAccessibleDocument,
+  revokeDocumentShare,
+  shareDocument,
+  toDocumentView,
+} from "@/lib/document-vault"
+
+/**
+ * Share a document with the owner of a booked property, or revoke that share:
+ * `{ action: "share" | "revoke", bookingId }`
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { action, bookingId } = await req.json()
+    const context = getAccessContext(req)
+
+    if (action !== "share" && action !== "revoke") {
+      return NextResponse.json({ error: "Action must be share or revoke" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const loaded = await getAccessibleDocument(id, session.user, context)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const result =
+      action === "share"
+        ? await shareDocument(loaded.document, session.user.id, bookingId, context)
+        : await revokeDocumentShare(loaded.document, session.user.id, bookingId, context)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await result.document.populate("shares.property", "title")
+    return NextResponse.json({ success: true, document: toDocumentView(result.document, loaded.actor) })
+  } catch (error) {
+    console.error("Error updating document sharing:", error)
+    return NextResponse.json({ error: "An error occurred while updating sharing" }, { status: 500 })
+  }
+}
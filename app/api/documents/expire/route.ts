@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { expireDocuments, revokeEndedShares } from "@/lib/document-vault"
+
+/**
+ * Expire vault documents past their expiry date and revoke shares whose
+ * booking has ended (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const documents = await expireDocuments()
+    const shares = await revokeEndedShares()
+
+    return NextResponse.json({ success: true, ...documents, ...shares })
+  } catch (error) {
+    console.error("Error expiring documents:", error)
+    return NextResponse.json({ error: "An error occurred while expiring documents" }, { status: 500 })
+  }
+}
+
+export const GET = POST
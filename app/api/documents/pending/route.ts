@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { UserDocument, type UserDocumentType } from "@/models/user-document"
+import { documentTypeLabel } from "@/lib/document-vault"
+
+/**
+ * Documents waiting for verification, oldest first (admin only)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only admins can review documents" }, { status: 403 })
+    }
+
+    await connectToDatabase()
+
+    const documents = await UserDocument.find({
+      status: "pending",
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+    })
+      .select("user type label numberLast4 expiresAt files.name createdAt")
+      .populate("user", "name email")
+      .sort({ createdAt: 1 })
+      .limit(100)
+      .lean<Array<{ type: UserDocumentType }>>()
+
+    return NextResponse.json({
+      success: true,
+      documents: documents.map((document) => ({ ...document, typeLabel: documentTypeLabel(document.type) })),
+    })
+  } catch (error) {
+    console.error("Error fetching pending documents:", error)
+    return NextResponse.json({ error: "Failed to fetch pending documents" }, { status: 500 })
+  }
+}
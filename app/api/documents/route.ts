@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { UserDocument, type IUserDocument } from "@/models/user-document"
+import { createDocument, DOCUMENT_TYPES, getAccessContext, toDocumentView } from "@/lib/document-vault"
+
+/**
+ * The current user's document vault
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const documents: IUserDocument[] = await UserDocument.find({ user: session.user.id })
+      .populate("shares.property", "title")
+      .sort({ createdAt: -1 })
+
+    const actor = { role: "self" as const, userId: session.user.id }
+    return NextResponse.json({
+      success: true,
+      documents: documents.map((document) => toDocumentView(document, actor)),
+      types: DOCUMENT_TYPES,
+    })
+  } catch (error) {
+    console.error("Error fetching documents:", error)
+    return NextResponse.json({ error: "Failed to fetch documents" }, { status: 500 })
+  }
+}
+
+/**
+ * Add a document (files uploaded beforehand through /api/upload with type "kyc")
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const result = await createDocument(session.user.id, body ?? {}, getAccessContext(req))
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(
+      { success: true, document: toDocumentView(result.document, { role: "self", userId: session.user.id }) },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("Error adding document:", error)
+    return NextResponse.json({ error: "An error occurred while adding the document" }, { status: 500 })
+  }
+}
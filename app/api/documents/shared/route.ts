@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { listDocumentsSharedWith } from "@/lib/document-vault"
+
+/**
+ * Documents tenants have shared with the current owner, by booking
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners can view shared documents" }, { status: 403 })
+    }
+
+    await connectToDatabase()
+
+    const bookings = await listDocumentsSharedWith(session.user.id)
+
+    return NextResponse.json({ success: true, bookings })
+  } catch (error) {
+    console.error("Error fetching shared documents:", error)
+    return NextResponse.json({ error: "Failed to fetch shared documents" }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { applyTicketAction, getTicketForUser } from "@/lib/maintenance-tickets"
+
+/**
+ * A maintenance ticket with its history
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const loaded = await getTicketForUser(id, session.user)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    await loaded.ticket.populate([
+      { path: "property", select: "title address" },
+      { path: "tenant", select: "name phone" },
+      { path: "events.actor", select: "name" },
+    ])
+
+    return NextResponse.json({ success: true, ticket: loaded.ticket, role: loaded.actor.role })
+  } catch (error) {
+    console.error("Error fetching maintenance ticket:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the ticket" }, { status: 500 })
+  }
+}
+
+/**
+ * Work a ticket: `{ action, ... }`
+ * - owner/admin: acknowledge, start, assign `{ name, phone? }`, resolve `{ note }`
+ * - resident: close `{ rating, comment? }`, reopen `{ note }`, cancel `{ note? }`
+ * - either side: comment `{ note }`
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const loaded = await getTicketForUser(id, session.user)
+    if (!loaded.success) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    const result = await applyTicketAction(loaded.ticket, loaded.actor, body ?? {})
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await result.ticket.populate([
+      { path: "property", select: "title address" },
+      { path: "tenant", select: "name phone" },
+      { path: "events.actor", select: "name" },
+    ])
+
+    return NextResponse.json({ success: true, ticket: result.ticket })
+  } catch (error) {
+    console.error("Error updating maintenance ticket:", error)
+    return NextResponse.json({ error: "An error occurred while updating the ticket" }, { status: 500 })
+  }
+}
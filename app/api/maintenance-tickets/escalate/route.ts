@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { escalateOverdueTickets } from "@/lib/maintenance-tickets"
+
+/**
+ * Escalate maintenance tickets past their SLA and auto-close stale resolved ones (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await escalateOverdueTickets()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error escalating maintenance tickets:", error)
+    return NextResponse.json({ error: "An error occurred while escalating tickets" }, { status: 500 })
+  }
+}
+
+export const GET = POST
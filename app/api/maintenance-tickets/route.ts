@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { MaintenanceTicket } from "@/models/maintenance-ticket"
+import { createTicket, MAINTENANCE_CATEGORIES, SLA_HOURS } from "@/lib/maintenance-tickets"
+
+const STATUSES = ["open", "acknowledged", "in_progress", "resolved", "closed", "cancelled"]
+
+/**
+ * Maintenance tickets: the resident's own (`?scope=mine`, the default), or
+ * those at the owner's properties (`?scope=properties`, every property for
+ * admins). `?status=` filters; `?escalated=true` keeps SLA breaches only.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const scope = searchParams.get("scope") || "mine"
+    const status = searchParams.get("status")
+    const escalated = searchParams.get("escalated") === "true"
+
+    if (scope !== "mine" && scope !== "properties") {
+      return NextResponse.json({ error: "Invalid scope" }, { status: 400 })
+    }
+    if (scope === "properties" && session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners can view property tickets" }, { status: 403 })
+    }
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const query: Record<string, unknown> = {}
+    if (scope === "mine") query.tenant = session.user.id
+    else if (session.user.role !== "admin") query.owner = session.user.id
+    if (status) query.status = status
+    if (escalated) query.escalatedAt = { $exists: true }
+
+    const tickets = await MaintenanceTicket.find(query)
+      .populate("property", "title")
+      .populate("tenant", "name phone")
+      .populate("booking", "roomType")
+      .sort(escalated ? { escalatedAt: -1 } : { createdAt: -1 })
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({ success: true, tickets, categories: MAINTENANCE_CATEGORIES, sla: SLA_HOURS })
+  } catch (error) {
+    console.error("Error fetching maintenance tickets:", error)
+    return NextResponse.json({ error: "Failed to fetch tickets" }, { status: 500 })
+  }
+}
+
+/**
+ * Raise a ticket on a confirmed booking
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const result = await createTicket(session.user.id, body ?? {})
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, ticket: result.ticket }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating maintenance ticket:", error)
+    return NextResponse.json({ error: "An error occurred while creating the ticket" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { MessPass, type IMessPass } from "@/models/mess-pass"
+import { getInvoiceFileName, issueMessPassInvoice, renderTaxInvoicePdf } from "@/lib/tax-invoices"
+
+/**
+ * Download the invoice for a paid mess pass (holder, mess owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid pass ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const pass: IMessPass | null = await MessPass.findById(id)
+    if (!pass) {
+      return NextResponse.json({ error: "Pass not found" }, { status: 404 })
+    }
+
+    const userId = session.user.id
+    if (pass.user.toString() !== userId && pass.owner.toString() !== userId && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't have permission to view this invoice" }, { status: 403 })
+    }
+
+    // Trials are free, so there is nothing to invoice
+    if (!pass.paidAt) {
+      return NextResponse.json({ error: "Invoices are available for paid passes" }, { status: 400 })
+    }
+
+    const invoice = await issueMessPassInvoice(pass)
+
+    return new NextResponse(new Uint8Array(renderTaxInvoicePdf(invoice)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating mess pass invoice:", error)
+    return NextResponse.json({ error: "Failed to generate invoice" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { expireMessPasses } from "@/lib/mess-passes"
+
+/**
+ * Expire mess passes whose validity has ended (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await expireMessPasses()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error expiring mess passes:", error)
+    return NextResponse.json({ error: "An error occurred while expiring passes" }, { status: 500 })
+  }
+}
+
+export const GET = POST
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { redeemMessPass } from "@/lib/mess-passes"
+
+/**
+ * Redeem a meal on a scanned or typed pass code (mess owner or admin)
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only mess owners can redeem passes" }, { status: 403 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (typeof body?.code !== "string" || !body.code.trim() || typeof body?.meal !== "string") {
+      return NextResponse.json({ error: "code and meal are required" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const result = await redeemMessPass(body.code, { userId: session.user.id, role: session.user.role }, body.meal)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, pass: result.pass })
+  } catch (error) {
+    console.error("Error redeeming mess pass:", error)
+    return NextResponse.json({ error: "An error occurred while redeeming the pass" }, { status: 500 })
+  }
+}
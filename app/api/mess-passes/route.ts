@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { MessPass } from "@/models/mess-pass"
+import { createMessPass, MESS_PASS_KINDS, type MessPassKind } from "@/lib/mess-passes"
+
+const STATUSES = ["pending", "active", "expired", "cancelled"]
+
+/**
+ * List the current user's mess passes, or passes sold by their messes (`?scope=owner`)
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const scope = searchParams.get("scope")
+    const status = searchParams.get("status")
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    const query: Record<string, unknown> = {}
+    if (scope === "owner") {
+      if (session.user.role !== "owner" && session.user.role !== "admin") {
+        return NextResponse.json({ error: "Only mess owners can view passes" }, { status: 403 })
+      }
+      if (session.user.role !== "admin") query.owner = session.user.id
+    } else {
+      query.user = session.user.id
+    }
+    if (status) query.status = status
+
+    await connectToDatabase()
+
+    const find = MessPass.find(query).populate("mess", "name location mealTypes")
+    if (scope === "owner") find.populate("user", "name email")
+    const passes = await find.sort({ startDate: -1, createdAt: -1 }).limit(200).lean()
+
+    return NextResponse.json({ success: true, passes })
+  } catch (error) {
+    console.error("Error fetching mess passes:", error)
+    return NextResponse.json({ error: "An error occurred while fetching passes" }, { status: 500 })
+  }
+}
+
+/**
+ * Get a trial, day or week pass for a mess
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (typeof body?.messId !== "string" || typeof body?.startDate !== "string") {
+      return NextResponse.json({ error: "messId and startDate are required" }, { status: 400 })
+    }
+    if (!MESS_PASS_KINDS.includes(body.kind)) {
+      return NextResponse.json({ error: "kind must be trial, day or week" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const result = await createMessPass(session.user.id, {
+      messId: body.messId,
+      kind: body.kind as MessPassKind,
+      startDate: body.startDate,
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, pass: result.pass }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating mess pass:", error)
+    return NextResponse.json({ error: "An error occurred while creating the pass" }, { status: 500 })
+  }
+}
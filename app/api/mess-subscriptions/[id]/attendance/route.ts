@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth-options";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Mess, type IMess } from "@/models/mess";
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription";
+import {
+  getAttendanceCalendar,
+  getAvailableMealCredit,
+  parseDayKey,
+  resolveMealSkipPolicy,
+  setMealSkip,
+  toDayKey,
+} from "@/lib/meal-attendance";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range one request can ask for
+const MAX_DAYS = 62;
+
+/**
+ * Meal-by-meal attendance for a subscription (subscriber, mess owner or
+ * admin). Defaults to the coming week; `?from=YYYY-MM-DD&to=YYYY-MM-DD`.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const from = parseDayKey(searchParams.get("from") ?? toDayKey(new Date()));
+    const to = searchParams.get("to") ? parseDayKey(searchParams.get("to")) : from && new Date(from.getTime() + 6 * DAY_MS);
+    if (!from || !to || to < from) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+    if (to.getTime() - from.getTime() > MAX_DAYS * DAY_MS) {
+      return NextResponse.json({ error: `Ask for at most ${MAX_DAYS} days at a time` }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const subscription: IMessSubscription | null = await MessSubscription.findById(id);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    const userId = session.user.id;
+    if (
+      subscription.user.toString() !== userId &&
+      subscription.owner.toString() !== userId &&
+      session.user.role !== "admin"
+    ) {
+      return NextResponse.json({ error: "You don't have permission to view this subscription" }, { status: 403 });
+    }
+
+    const mess: IMess | null = await Mess.findById(subscription.mess).select("mealTypes openingHours skipPolicy");
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 });
+    }
+
+    const calendar = await getAttendanceCalendar(subscription, mess, from, to);
+
+    return NextResponse.json({
+      success: true,
+      ...calendar,
+      policy: resolveMealSkipPolicy(mess),
+      availableCredit: await getAvailableMealCredit(subscription.user, subscription.mess),
+      mealRefund: subscription.mealRefund,
+    });
+  } catch (error) {
+    console.error("Error fetching meal attendance:", error);
+    return NextResponse.json({ error: "An error occurred while fetching attendance" }, { status: 500 });
+  }
+}
+
+/**
+ * Skip a meal or take the skip back before its cutoff (subscriber).
+ * Body: `{ date: "YYYY-MM-DD", meal: "lunch", skip: true }`
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const day = parseDayKey(body?.date);
+    const meal = typeof body?.meal === "string" ? body.meal.trim().toLowerCase() : "";
+    if (!day || !meal || typeof body?.skip !== "boolean") {
+      return NextResponse.json({ error: "date, meal and skip are required" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const subscription: IMessSubscription | null = await MessSubscription.findById(id);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+    if (subscription.user.toString() !== session.user.id) {
+      return NextResponse.json({ error: "You don't have permission to change this subscription" }, { status: 403 });
+    }
+
+    const mess: IMess | null = await Mess.findById(subscription.mess).select("mealTypes openingHours skipPolicy");
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 });
+    }
+
+    const result = await setMealSkip(subscription, mess, { day, meal, skip: body.skip });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, attendance: result.attendance });
+  } catch (error) {
+    console.error("Error updating meal attendance:", error);
+    return NextResponse.json({ error: "An error occurred while updating attendance" }, { status: 500 });
+  }
+}
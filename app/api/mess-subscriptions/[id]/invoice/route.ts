@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth-options";
+import { connectToDatabase } from "@/lib/mongodb";
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription";
+import { getInvoiceFileName, issueMessSubscriptionInvoice, renderTaxInvoicePdf } from "@/lib/tax-invoices";
+
+/**
+ * Download the invoice for an active mess subscription (subscriber, mess owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const subscription: IMessSubscription | null = await MessSubscription.findById(id);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    const userId = session.user.id;
+    if (
+      subscription.user.toString() !== userId &&
+      subscription.owner.toString() !== userId &&
+      session.user.role !== "admin"
+    ) {
+      return NextResponse.json({ error: "You don't have permission to view this invoice" }, { status: 403 });
+    }
+
+    if (subscription.status !== "active" && subscription.status !== "expired") {
+      return NextResponse.json({ error: "Invoices are available once the subscription is active" }, { status: 400 });
+    }
+
+    const invoice = await issueMessSubscriptionInvoice(subscription);
+
+    return new NextResponse(new Uint8Array(renderTaxInvoicePdf(invoice)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating mess subscription invoice:", error);
+    return NextResponse.json({ error: "Failed to generate invoice" }, { status: 500 });
+  }
+}
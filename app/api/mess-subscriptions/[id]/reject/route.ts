@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth-options";
+import { connectToDatabase } from "@/lib/mongodb";
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription";
+import { rejectMessSubscription } from "@/lib/mess-subscriptions";
+
+/**
+ * Reject a pending subscription request (mess owner or admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason : undefined;
+
+    await connectToDatabase();
+
+    const subscription: IMessSubscription | null = await MessSubscription.findById(id);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+    if (subscription.owner.toString() !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't have permission to manage this subscription" }, { status: 403 });
+    }
+
+    const result = await rejectMessSubscription(subscription, reason);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, subscription: result.subscription });
+  } catch (error) {
+    console.error("Error rejecting mess subscription:", error);
+    return NextResponse.json({ error: "An error occurred while rejecting the subscription" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import { authOptions } from "@/lib/auth-options";
+import { connectToDatabase } from "@/lib/mongodb";
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription";
+import { renewMessSubscription } from "@/lib/mess-subscriptions";
+
+/**
+ * Renew a subscription for another month (subscriber). The renewal is
+ * created pending and activates once paid.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const subscription: IMessSubscription | null = await MessSubscription.findById(id);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+    if (subscription.user.toString() !== session.user.id) {
+      return NextResponse.json({ error: "You don't have permission to renew this subscription" }, { status: 403 });
+    }
+
+    const result = await renewMessSubscription(subscription);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      { success: true, subscription: result.subscription },
+      { status: result.created ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error("Error renewing mess subscription:", error);
+    return NextResponse.json({ error: "An error occurred while renewing the subscription" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { isAuthorizedCronRequest } from "@/lib/cron-auth";
+import { expireMessSubscriptions } from "@/lib/mess-subscriptions";
+
+/**
+ * Expire mess subscriptions whose period has ended (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+
+    const result = await expireMessSubscriptions();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error expiring mess subscriptions:", error);
+    return NextResponse.json({ error: "An error occurred while expiring subscriptions" }, { status: 500 });
+  }
+}
+
+export const GET = POST;
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { isAuthorizedCronRequest } from "@/lib/cron-auth";
+import { sendMessRenewalReminders } from "@/lib/mess-subscriptions";
+
+/**
+ * Remind subscribers to renew mess subscriptions that end soon (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+
+    const result = await sendMessRenewalReminders();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error sending mess renewal reminders:", error);
+    return NextResponse.json({ error: "An error occurred while sending renewal reminders" }, { status: 500 });
+  }
+}
+
+export const GET = POST;
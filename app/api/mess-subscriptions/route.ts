@@ -1,11 +1,11 @@
 import { NextResponse } from "next/server";
-import nodemailer from "nodemailer";
 import { addMonths, isValid, parseISO } from "date-fns";
 import { connectToDatabase } from "@/lib/mongodb";
 import { Mess } from "@/models/mess";
 import { MessSubscription } from "@/models/mess-subscription";
 import { getUserModel } from "@/models/user";
 import { createNotification } from "@/lib/notification-helper";
+import { getEmailTransporter } from "@/lib/email";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth-options";
 import mongoose from "mongoose";
@@ -55,19 +55,54 @@ function normalizePhone(value: unknown) {
   return null;
 }
 
-function getEmailTransporter() {
-  const emailUser = process.env.EMAIL_USER || process.env.HOST_EMAIL;
-  const emailPassword =
-    process.env.EMAIL_PASSWORD || process.env.HOST_EMAIL_PASSWORD;
-  if (!emailUser || !emailPassword) return null;
-
-  return nodemailer.createTransport({
-    service: "gmail",
-    auth: {
-      user: emailUser,
-      pass: emailPassword.replace(/\s/g, ""),
-    },
-  });
+const STATUSES = ["pending", "active", "cancelled", "expired"];
+
+/**
+ * The current user's mess subscriptions, or with `?scope=owner` the
+ * subscribers of their messes (every mess for admins). Optionally filtered
+ * by `?status=`.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const scope = searchParams.get("scope");
+    const status = searchParams.get("status");
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const query: Record<string, unknown> = {};
+    if (scope === "owner") {
+      if (session.user.role !== "owner" && session.user.role !== "admin") {
+        return NextResponse.json({ error: "Only mess owners can view subscribers" }, { status: 403 });
+      }
+      if (session.user.role !== "admin") query.owner = session.user.id;
+    } else {
+      query.user = session.user.id;
+    }
+    if (status) query.status = status;
+
+    await connectToDatabase();
+
+    const subscriptions = await MessSubscription.find(query)
+      .populate("mess", "name location monthlyPrice mealTypes homeDeliveryAvailable")
+      .sort({ startDate: -1, createdAt: -1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({ success: true, subscriptions });
+  } catch (error) {
+    console.error("Error fetching mess subscriptions:", error);
+    return NextResponse.json(
+      { error: "An error occurred while fetching subscriptions" },
+      { status: 500 }
+    );
+  }
 }
 
 export async function POST(req: Request) {
@@ -211,7 +246,7 @@ export async function POST(req: Request) {
         } requested a monthly subscription for ${
           mess.name
         } (start: ${startDateRaw}).`,
-        link: `/messes/${String(mess._id)}`,
+        link: "/profile?tab=mess-subscribers",
         priority: "high",
         metadata: {
           subscriptionId: String(subscription._id),
@@ -250,7 +285,8 @@ export async function POST(req: Request) {
         `View mess: ${messLink}`,
         "",
         "Next steps:",
-        "- The mess owner/SecondHome team will contact you to confirm and activate your subscription.",
+        "- The mess owner will accept or decline your request.",
+        "- Once accepted, pay from My Bookings on SecondHome to activate your subscription.",
         "",
         "Thanks,",
         "SecondHome",
@@ -272,7 +308,7 @@ export async function POST(req: Request) {
         "",
         `Mess link: ${messLink}`,
         "",
-        "Please contact the user to confirm and activate the subscription.",
+        "Accept or decline the request from Mess Subscribers in your SecondHome dashboard.",
         "",
         "SecondHome",
       ].join("\n");
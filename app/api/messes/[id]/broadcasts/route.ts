@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess, type IMess } from "@/models/mess"
+import { MessBroadcast, type IMessBroadcast } from "@/models/mess-broadcast"
+import { getBroadcastDeliveryCounts, sendMessBroadcast } from "@/lib/mess-broadcasts"
+import mongoose from "mongoose"
+
+async function getOwnedMess(id: string) {
+  const session = await getServerSession(authOptions)
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid mess ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const mess: IMess | null = await Mess.findById(id).select("name owner")
+  if (!mess) {
+    return { error: NextResponse.json({ error: "Mess not found" }, { status: 404 }) }
+  }
+  if (mess.owner.toString() !== session.user.id && session.user.role !== "admin") {
+    return { error: NextResponse.json({ error: "You don't have permission to message this mess's subscribers" }, { status: 403 }) }
+  }
+  return { mess, userId: session.user.id }
+}
+
+/**
+ * Messages sent to a mess's subscribers, newest first, with delivery counts (owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const owned = await getOwnedMess(id)
+    if ("error" in owned) return owned.error
+
+    const broadcasts = await MessBroadcast.find({ mess: id })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .populate("sender", "name")
+      .lean<IMessBroadcast[]>()
+
+    return NextResponse.json({
+      broadcasts: broadcasts.map((broadcast) => ({
+        ...broadcast,
+        counts: getBroadcastDeliveryCounts(broadcast),
+      })),
+    })
+  } catch (error) {
+    console.error("Error fetching mess broadcasts:", error)
+    return NextResponse.json({ error: "An error occurred while fetching messages" }, { status: 500 })
+  }
+}
+
+/**
+ * Message every active subscriber of a mess (owner or admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const owned = await getOwnedMess(id)
+    if ("error" in owned) return owned.error
+
+    const body = await req.json().catch(() => ({}))
+    const result = await sendMessBroadcast(owned.mess, owned.userId, {
+      title: body?.title,
+      message: body?.message,
+      channels: body?.channels,
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json(
+      { broadcast: result.broadcast, counts: getBroadcastDeliveryCounts(result.broadcast) },
+      { status: 201 },
+    )
+  } catch (error) {
+    console.error("Error sending mess broadcast:", error)
+    return NextResponse.json({ error: "An error occurred while sending the message" }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import mongoose from "mongoose"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess, type IMess } from "@/models/mess"
+import { getDeliveryQuote } from "@/lib/delivery-orders"
+
+/**
+ * Whether a mess delivers to `?lat=&lng=` and what delivery would cost
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const lat = Number.parseFloat(searchParams.get("lat") || "")
+    const lng = Number.parseFloat(searchParams.get("lng") || "")
+
+    await connectToDatabase()
+
+    const mess: IMess | null = await Mess.findById(id)
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+
+    const quote = await getDeliveryQuote(mess, [lng, lat])
+    if (!quote.success) {
+      return NextResponse.json({ error: quote.error, deliverable: false }, { status: quote.status })
+    }
+
+    return NextResponse.json({ ...quote, deliverable: true })
+  } catch (error) {
+    console.error("Error quoting delivery:", error)
+    return NextResponse.json({ error: "An error occurred while checking delivery" }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess, type IMess } from "@/models/mess"
+import { getMealHeadcount, parseDayKey, toDayKey } from "@/lib/meal-attendance"
+
+/**
+ * Plates to prepare per meal on a day (`?date=YYYY-MM-DD`, default today):
+ * active subscribers minus skips. Mess owner or admin.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const date = searchParams.get("date") || toDayKey(new Date())
+    const day = parseDayKey(date)
+    if (!day) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const mess: IMess | null = await Mess.findById(id).select("name owner mealTypes")
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+    if (mess.owner.toString() !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't have permission to view this mess" }, { status: 403 })
+    }
+
+    const meals = await getMealHeadcount(mess._id, mess, day)
+
+    return NextResponse.json({ success: true, mess: { _id: mess._id, name: mess.name }, date, meals })
+  } catch (error) {
+    console.error("Error fetching mess headcount:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the headcount" }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess } from "@/models/mess"
+import { parseDayKey, toDayKey } from "@/lib/meal-attendance"
+import { parseMenuOverride } from "@/lib/mess-menus"
+import mongoose from "mongoose"
+
+async function getEditableMess(id: string) {
+  const session = await getServerSession(authOptions)
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid mess ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const mess = await Mess.findById(id).select("owner")
+  if (!mess) {
+    return { error: NextResponse.json({ error: "Mess not found" }, { status: 404 }) }
+  }
+  if (mess.owner.toString() !== session.user.id && session.user.role !== "admin") {
+    return { error: NextResponse.json({ error: "You don't have permission to update this mess" }, { status: 403 }) }
+  }
+  return { mess }
+}
+
+/**
+ * Set the menu for one date, replacing any override already there (owner or admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const parsed = parseMenuOverride(await req.json().catch(() => null))
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    if (toDayKey(parsed.override.date) < toDayKey(new Date())) {
+      return NextResponse.json({ error: "Overrides can't be set for past dates" }, { status: 400 })
+    }
+
+    const editable = await getEditableMess(id)
+    if ("error" in editable) return editable.error
+
+    const { override } = parsed
+    const now = new Date()
+    const replaced = await Mess.updateOne(
+      { _id: id, "menuOverrides.date": override.date },
+      { $set: { "menuOverrides.$": override, updatedAt: now } },
+    )
+    if (replaced.matchedCount === 0) {
+      await Mess.updateOne(
+        { _id: id, "menuOverrides.date": { $ne: override.date } },
+        { $push: { menuOverrides: override }, $set: { updatedAt: now } },
+      )
+    }
+
+    return NextResponse.json({ success: true, override: { ...override, date: toDayKey(override.date) } })
+  } catch (error) {
+    console.error("Error saving menu override:", error)
+    return NextResponse.json({ error: "An error occurred while saving the override" }, { status: 500 })
+  }
+}
+
+/**
+ * Remove the override for `?date=YYYY-MM-DD`, going back to the weekly menu (owner or admin)
+ */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const date = parseDayKey(new URL(req.url).searchParams.get("date"))
+    if (!date) {
+      return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 })
+    }
+
+    const editable = await getEditableMess(id)
+    if ("error" in editable) return editable.error
+
+    await Mess.updateOne({ _id: id }, { $pull: { menuOverrides: { date } }, $set: { updatedAt: new Date() } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error removing menu override:", error)
+    return NextResponse.json({ error: "An error occurred while removing the override" }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess, type IMess } from "@/models/mess"
+import { toDayKey } from "@/lib/meal-attendance"
+import { getWeeklyMenu, parseWeeklyMenu, summarizeWeeklyMenu } from "@/lib/mess-menus"
+import mongoose from "mongoose"
+
+/**
+ * A mess's weekly menu and its upcoming dated overrides
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const mess = await Mess.findById(id).select("menu weeklyMenu menuOverrides mealTypes").lean<IMess>()
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+
+    const today = toDayKey(new Date())
+    const overrides = (mess.menuOverrides || [])
+      .filter((override) => toDayKey(override.date) >= today)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map((override) => ({ ...override, date: toDayKey(override.date) }))
+
+    return NextResponse.json({
+      weeklyMenu: getWeeklyMenu(mess),
+      overrides,
+      mealTypes: mess.mealTypes,
+      isStructured: Boolean(mess.weeklyMenu?.length),
+    })
+  } catch (error) {
+    console.error("Error fetching mess menu:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the menu" }, { status: 500 })
+  }
+}
+
+/**
+ * Replace a mess's weekly menu (owner or admin)
+ */
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => null)
+    const parsed = parseWeeklyMenu(body?.weeklyMenu)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const mess = await Mess.findById(id).select("owner")
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+
+    if (mess.owner.toString() !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't have permission to update this mess" }, { status: 403 })
+    }
+
+    await Mess.updateOne(
+      { _id: id },
+      {
+        $set: {
+          weeklyMenu: parsed.weeklyMenu,
+          menu: summarizeWeeklyMenu(parsed.weeklyMenu),
+          updatedAt: new Date(),
+        },
+      },
+    )
+
+    return NextResponse.json({ success: true, weeklyMenu: parsed.weeklyMenu })
+  } catch (error) {
+    console.error("Error updating mess menu:", error)
+    return NextResponse.json({ error: "An error occurred while updating the menu" }, { status: 500 })
+  }
+}
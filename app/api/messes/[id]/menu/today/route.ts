@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess, type IMess } from "@/models/mess"
+import { parseDayKey, toDayKey } from "@/lib/meal-attendance"
+import { filterMenuDishes, getMenuForDay, MENU_ALLERGENS, MENU_DIET_TAGS } from "@/lib/mess-menus"
+import mongoose from "mongoose"
+
+/**
+ * What a mess serves today (or on `?date=`), overrides applied. `?diet=Vegan`
+ * and `?excludeAllergens=nuts,dairy` narrow the dishes.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const day = parseDayKey(searchParams.get("date") || toDayKey(new Date()))
+    if (!day) {
+      return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 })
+    }
+    const diet = searchParams.get("diet") || undefined
+    if (diet && !MENU_DIET_TAGS.includes(diet)) {
+      return NextResponse.json({ error: "Invalid diet" }, { status: 400 })
+    }
+    const excludeAllergens = (searchParams.get("excludeAllergens") || "")
+      .split(",")
+      .map((allergen) => allergen.trim().toLowerCase())
+      .filter(Boolean)
+    if (excludeAllergens.some((allergen) => !MENU_ALLERGENS.includes(allergen))) {
+      return NextResponse.json({ error: "Invalid allergen" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const mess = await Mess.findById(id).select("menu weeklyMenu menuOverrides").lean<IMess>()
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+
+    const menu = getMenuForDay(mess, day)
+
+    return NextResponse.json({ ...menu, meals: filterMenuDishes(menu.meals, { diet, excludeAllergens }) })
+  } catch (error) {
+    console.error("Error fetching today's menu:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the menu" }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Mess } from "@/models/mess"
+import { parseMealSkipPolicy, resolveMealSkipPolicy } from "@/lib/meal-attendance"
+import mongoose from "mongoose"
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const mess = await Mess.findById(id).select("skipPolicy").lean()
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+
+    const typedMess = mess as Parameters<typeof resolveMealSkipPolicy>[0]
+
+    return NextResponse.json({
+      policy: resolveMealSkipPolicy(typedMess),
+      isDefault: !typedMess?.skipPolicy?.compensation,
+    })
+  } catch (error) {
+    console.error("Error fetching meal skip policy:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the skip policy" }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid mess ID" }, { status: 400 })
+    }
+
+    const parsed = parseMealSkipPolicy(await req.json().catch(() => null))
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const mess = await Mess.findById(id).select("owner")
+    if (!mess) {
+      return NextResponse.json({ error: "Mess not found" }, { status: 404 })
+    }
+
+    if (mess.owner.toString() !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't have permission to update this mess" }, { status: 403 })
+    }
+
+    // Applies to skips made from now on; earlier skips keep what they earned
+    await Mess.updateOne({ _id: id }, { $set: { skipPolicy: parsed.policy, updatedAt: new Date() } })
+
+    return NextResponse.json({ success: true, policy: parsed.policy })
+  } catch (error) {
+    console.error("Error updating meal skip policy:", error)
+    return NextResponse.json({ error: "An error occurred while updating the skip policy" }, { status: 500 })
+  }
+}
@@ -3,11 +3,18 @@ import { connectToDatabase } from "@/lib/mongodb"
 import { Mess } from "@/models/mess"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
+import { MENU_DIET_TAGS } from "@/lib/mess-menus"
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
 
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url)
     const query = url.searchParams.get("query") || ""
+    const dish = url.searchParams.get("dish") || ""
+    const diet = url.searchParams.get("diet") || ""
     const minPrice = Number.parseInt(url.searchParams.get("minPrice") || "0")
     const maxPrice = Number.parseInt(url.searchParams.get("maxPrice") || "10000")
     const page = Number.parseInt(url.searchParams.get("page") || "1")
@@ -59,6 +66,29 @@ export async function GET(req: Request) {
       filter.$or = [{ name: { $regex: query, $options: "i" } }, { location: { $regex: query, $options: "i" } }]
     }
 
+    // Dish search covers structured menus and the flat menu strings of messes without one
+    if (dish) {
+      const dishPattern = { $regex: escapeRegExp(dish), $options: "i" }
+      filter.$and = [
+        {
+          $or: [
+            { "weeklyMenu.meals.dishes.name": dishPattern },
+            { "menu.breakfast": dishPattern },
+            { "menu.lunch": dishPattern },
+            { "menu.dinner": dishPattern },
+          ],
+        },
+      ]
+    }
+
+    // A diet matches a mess that declares it or has dishes tagged with it
+    if (MENU_DIET_TAGS.includes(diet)) {
+      filter.$and = [
+        ...(filter.$and || []),
+        { $or: [{ "weeklyMenu.meals.dishes.dietTags": diet }, { dietTypes: { $regex: escapeRegExp(diet), $options: "i" } }] },
+      ]
+    }
+
     try {
       // Get total count for pagination
       const total = await Mess.countDocuments(filter)
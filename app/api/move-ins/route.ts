@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { MoveIn } from "@/models/move-in"
+
+const STATUSES = ["in_progress", "complete", "cancelled"]
+
+/**
+ * Move-ins at the current owner's properties (every property for admins),
+ * optionally filtered by `?status=`
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners can view move-ins" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const status = searchParams.get("status")
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const query: Record<string, unknown> = {}
+    if (session.user.role !== "admin") query.owner = session.user.id
+    if (status) query.status = status
+
+    const moveIns = await MoveIn.find(query)
+      .select("booking property tenant status agreement.signedAt agreement.tenantSignature.signedAt agreement.ownerSignature.signedAt checklist.key checklist.status completedAt createdAt")
+      .populate("booking", "checkInDate roomType")
+      .populate("property", "title")
+      .populate("tenant", "name email phone")
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean()
+
+    return NextResponse.json({ success: true, moveIns })
+  } catch (error) {
+    console.error("Error fetching move-ins:", error)
+    return NextResponse.json({ error: "Failed to fetch move-ins" }, { status: 500 })
+  }
+}
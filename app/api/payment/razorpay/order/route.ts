@@ -3,9 +3,9 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Booking } from "@/models/booking"
+import { getPayableInvoice } from "@/lib/rent-ledger"
+import { startPayment } from "@/lib/payments"
 import mongoose from "mongoose"
-// Use require for Razorpay (CommonJS module)
-const Razorpay = require("razorpay")
 
 /**
  * Create Razorpay order for UPI payment
@@ -19,7 +19,12 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json()
-    const { bookingId, amount } = body
+    const { bookingId, amount, rentInvoiceId } = body
+
+    // Monthly rent invoices are paid through the same checkout as bookings
+    if (rentInvoiceId) {
+      return createRentInvoiceOrder(rentInvoiceId, amount, session.user)
+    }
 
     if (!bookingId) {
       return NextResponse.json({ error: "Booking ID is required" }, { status: 400 })
@@ -56,6 +61,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "This booking is already paid" }, { status: 400 })
     }
 
+    // Unpaid bookings lose their room once the hold expires
+    if (booking.status === "cancelled") {
+      return NextResponse.json({ error: "This booking has been cancelled or its reservation has expired" }, { status: 400 })
+    }
+
     // Verify amount matches
     if (Math.abs(booking.totalAmount - amount) > 0.01) {
       return NextResponse.json(
@@ -64,63 +74,21 @@ export async function POST(req: Request) {
       )
     }
 
-    // Check if Razorpay is configured
-    const keyId = process.env.RAZORPAY_KEY_ID
-    const keySecret = process.env.RAZORPAY_KEY_SECRET
-    
-    if (!keyId || !keySecret) {
-      console.error("Razorpay keys missing:", { 
-        keyId: keyId ? "Set" : "Missing", 
-        keySecret: keySecret ? "Set" : "Missing" 
-      })
-      return NextResponse.json(
-        { error: "Payment gateway is not configured. Please contact support." },
-        { status: 500 }
-      )
+    const started = await startPayment(
+      "razorpay",
+      { purpose: "booking", booking },
+      { userId: session.user.id, customer: session.user, flow: "order" }
+    )
+    if (!started.success) {
+      return NextResponse.json({ error: started.error }, { status: started.status })
     }
 
-    // Log key info (without exposing full secret)
-    console.log("Razorpay Key ID:", keyId)
-    console.log("Razorpay Key Secret:", keySecret ? `${keySecret.substring(0, 4)}...` : "Missing")
-
-    // Reinitialize Razorpay with fresh env vars (in case they changed)
-    const razorpayInstance = new Razorpay({
-      key_id: keyId,
-      key_secret: keySecret,
-    })
-
-    // Create Razorpay order
-    // Receipt must be max 40 characters, so we'll use a shorter format
-    const shortReceipt = `bk_${bookingId.toString().substring(0, 12)}_${Date.now().toString().slice(-8)}`
-    
-    const options = {
-      amount: Math.round(amount * 100), // Convert to paise
-      currency: "INR",
-      receipt: shortReceipt.length > 40 ? shortReceipt.substring(0, 40) : shortReceipt,
-      notes: {
-        bookingId: bookingId.toString(),
-        userId: session.user.id,
-        propertyId: booking.property.toString(),
-      },
-      payment_capture: 1, // Auto capture
-    }
-
-    console.log("Creating Razorpay order with amount:", options.amount, "paise (₹" + amount + ")")
-    
-    const order = await razorpayInstance.orders.create(options)
-    console.log("Razorpay order created successfully:", order.id)
-
-    // Store order ID in booking for reference
-    booking.paymentId = order.id
-    booking.updatedAt = new Date()
-    await booking.save()
+    const { checkout } = started
+    console.log("Razorpay order created successfully:", checkout.providerOrderId)
 
     return NextResponse.json({
       success: true,
-      orderId: order.id,
-      amount: order.amount,
-      currency: order.currency,
-      key: process.env.RAZORPAY_KEY_ID,
+      ...checkout.clientData,
       name: "SecondHome Official",
       description: `Payment for booking ${bookingId}`,
       prefill: {
@@ -154,3 +122,48 @@ export async function POST(req: Request) {
   }
 }
 
+
+/**
+ * Create a Razorpay order for (part of) the balance on a rent invoice
+ */
+async function createRentInvoiceOrder(
+  rentInvoiceId: string,
+  amount: number,
+  user: { id: string; email?: string | null; name?: string | null },
+) {
+  await connectToDatabase()
+
+  const payable = await getPayableInvoice(rentInvoiceId, user.id)
+  if ("error" in payable) {
+    return NextResponse.json({ error: payable.error }, { status: payable.status })
+  }
+
+  // Partial payments are allowed, overpaying is not
+  const payAmount = amount ?? payable.balance
+  if (!(payAmount > 0) || payAmount > payable.balance + 0.01) {
+    return NextResponse.json(
+      { error: `Amount must be between ₹1 and the outstanding ₹${payable.balance}` },
+      { status: 400 }
+    )
+  }
+
+  const started = await startPayment(
+    "razorpay",
+    { purpose: "rent", invoice: payable.invoice, amountInr: payAmount },
+    { userId: user.id, customer: user, flow: "order" }
+  )
+  if (!started.success) {
+    return NextResponse.json({ error: started.error }, { status: started.status })
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...started.checkout.clientData,
+    name: "SecondHome Official",
+    description: `Rent invoice ${payable.invoice.invoiceNumber}`,
+    prefill: {
+      email: user.email || "",
+      name: user.name || "",
+    },
+  })
+}
@@ -3,8 +3,10 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Booking } from "@/models/booking"
-// Use require for Razorpay (CommonJS module)
-const Razorpay = require("razorpay")
+import { getPayableInvoice } from "@/lib/rent-ledger"
+import { getPayableMessSubscription } from "@/lib/mess-subscriptions"
+import { getPayableMessPass } from "@/lib/mess-passes"
+import { startPayment } from "@/lib/payments"
 import mongoose from "mongoose"
 
 /**
@@ -19,7 +21,20 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json()
-    const { bookingId, amount } = body
+    const { bookingId, amount, rentInvoiceId, messSubscriptionId, messPassId } = body
+
+    // Monthly rent invoices are paid through the same checkout as bookings
+    if (rentInvoiceId) {
+      return createRentInvoicePaymentLink(rentInvoiceId, amount, session.user)
+    }
+
+    if (messSubscriptionId) {
+      return createMessSubscriptionPaymentLink(messSubscriptionId, session.user)
+    }
+
+    if (messPassId) {
+      return createMessPassPaymentLink(messPassId, session.user)
+    }
 
     if (!bookingId) {
       return NextResponse.json({ error: "Booking ID is required" }, { status: 400 })
@@ -56,87 +71,26 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "This booking is already paid" }, { status: 400 })
     }
 
-    // Check if Razorpay is configured
-    const keyId = process.env.RAZORPAY_KEY_ID
-    const keySecret = process.env.RAZORPAY_KEY_SECRET
-    
-    if (!keyId || !keySecret) {
-      return NextResponse.json(
-        { error: "Payment gateway is not configured. Please contact support." },
-        { status: 500 }
-      )
+    // Unpaid bookings lose their room once the hold expires
+    if (booking.status === "cancelled") {
+      return NextResponse.json({ error: "This booking has been cancelled or its reservation has expired" }, { status: 400 })
     }
 
-    // Initialize Razorpay
-    const razorpayInstance = new Razorpay({
-      key_id: keyId,
-      key_secret: keySecret,
-    })
-
-    // Create Razorpay Payment Link (this generates a QR code that Razorpay can track)
-    const paymentLinkOptions = {
-      amount: Math.round(amount * 100), // Convert to paise
-      currency: "INR",
-      description: `Payment for booking ${bookingId}`,
-      customer: {
-        name: session.user.name || "Customer",
-        email: session.user.email || "",
-      },
-      notify: {
-        sms: false,
-        email: false,
-      },
-      reminder_enable: false,
-      notes: {
-        bookingId: bookingId.toString(),
-        userId: session.user.id,
-        propertyId: booking.property.toString(),
-      },
-      callback_url: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/payment/callback`,
-      callback_method: "get",
+    // Payment links come with a QR code Razorpay can track
+    const started = await startPayment(
+      "razorpay",
+      { purpose: "booking", booking },
+      { userId: session.user.id, customer: session.user, flow: "payment_link" }
+    )
+    if (!started.success) {
+      return NextResponse.json({ error: started.error }, { status: started.status })
     }
 
-    console.log("Creating Razorpay Payment Link for amount:", paymentLinkOptions.amount, "paise")
-    
-    const paymentLink = await razorpayInstance.paymentLink.create(paymentLinkOptions)
-    console.log("Payment Link created:", paymentLink.id, "Short URL:", paymentLink.short_url)
-    console.log("Payment Link full response:", JSON.stringify(paymentLink, null, 2))
-
-    // Store payment link ID in booking
-    booking.paymentId = paymentLink.id
-    booking.updatedAt = new Date()
-    await booking.save()
-
-    // Razorpay payment link QR code might be in different fields or need to be generated
-    // Check multiple possible fields for QR code
-    const qrCodeUrl = paymentLink.qr_code || 
-                     paymentLink.qr_code_url || 
-                     paymentLink.qr_code_image || 
-                     (paymentLink.short_url ? `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(paymentLink.short_url)}` : null)
-
-    if (!qrCodeUrl) {
-      console.error("❌ No QR code found in payment link response. Available fields:", Object.keys(paymentLink))
-      // Generate QR code from short URL as fallback
-      const generatedQrCode = `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(paymentLink.short_url)}`
-      console.log("Generated QR code from short URL:", generatedQrCode)
-      
-      return NextResponse.json({
-        success: true,
-        paymentLinkId: paymentLink.id,
-        shortUrl: paymentLink.short_url,
-        qrCode: generatedQrCode, // Generate QR code from short URL
-        amount: paymentLink.amount,
-        currency: paymentLink.currency,
-      })
-    }
+    console.log("Payment Link created:", started.checkout.providerOrderId)
 
     return NextResponse.json({
       success: true,
-      paymentLinkId: paymentLink.id,
-      shortUrl: paymentLink.short_url,
-      qrCode: qrCodeUrl,
-      amount: paymentLink.amount,
-      currency: paymentLink.currency,
+      ...started.checkout.clientData,
     })
   } catch (error: any) {
     console.error("Razorpay Payment Link creation error:", error)
@@ -162,3 +116,100 @@ export async function POST(req: Request) {
   }
 }
 
+
+/**
+ * Create a Razorpay Payment Link for (part of) the balance on a rent invoice
+ */
+async function createRentInvoicePaymentLink(
+  rentInvoiceId: string,
+  amount: number,
+  user: { id: string; email?: string | null; name?: string | null },
+) {
+  await connectToDatabase()
+
+  const payable = await getPayableInvoice(rentInvoiceId, user.id)
+  if ("error" in payable) {
+    return NextResponse.json({ error: payable.error }, { status: payable.status })
+  }
+
+  // Partial payments are allowed, overpaying is not
+  const payAmount = amount ?? payable.balance
+  if (!(payAmount > 0) || payAmount > payable.balance + 0.01) {
+    return NextResponse.json(
+      { error: `Amount must be between ₹1 and the outstanding ₹${payable.balance}` },
+      { status: 400 }
+    )
+  }
+
+  const started = await startPayment(
+    "razorpay",
+    { purpose: "rent", invoice: payable.invoice, amountInr: payAmount },
+    { userId: user.id, customer: user, flow: "payment_link" }
+  )
+  if (!started.success) {
+    return NextResponse.json({ error: started.error }, { status: started.status })
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...started.checkout.clientData,
+  })
+}
+
+/**
+ * Create a Razorpay Payment Link for a mess subscription's fee
+ */
+async function createMessSubscriptionPaymentLink(
+  messSubscriptionId: string,
+  user: { id: string; email?: string | null; name?: string | null },
+) {
+  await connectToDatabase()
+
+  const payable = await getPayableMessSubscription(messSubscriptionId, user.id)
+  if ("error" in payable) {
+    return NextResponse.json({ error: payable.error }, { status: payable.status })
+  }
+
+  const started = await startPayment(
+    "razorpay",
+    { purpose: "mess_subscription", subscription: payable.subscription },
+    { userId: user.id, customer: user, flow: "payment_link" }
+  )
+  if (!started.success) {
+    return NextResponse.json({ error: started.error }, { status: started.status })
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...started.checkout.clientData,
+  })
+}
+
+/**
+ * Create a Razorpay Payment Link for a mess day or week pass
+ */
+async function createMessPassPaymentLink(
+  messPassId: string,
+  user: { id: string; email?: string | null; name?: string | null },
+) {
+  await connectToDatabase()
+
+  const payable = await getPayableMessPass(messPassId, user.id)
+  if ("error" in payable) {
+    return NextResponse.json({ error: payable.error }, { status: payable.status })
+  }
+
+  const started = await startPayment(
+    "razorpay",
+    { purpose: "mess_pass", pass: payable.pass },
+    { userId: user.id, customer: user, flow: "payment_link" }
+  )
+  if (!started.success) {
+    return NextResponse.json({ error: started.error }, { status: started.status })
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...started.checkout.clientData,
+  })
+}
@@ -3,18 +3,15 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Booking } from "@/models/booking"
-// Use require for Razorpay (CommonJS module)
-const Razorpay = require("razorpay")
-import crypto from "crypto"
+import { RentInvoice, type IRentInvoice } from "@/models/rent-invoice"
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription"
+import { MessPass, type IMessPass } from "@/models/mess-pass"
+import { findOpenPayments, findUserPayment, syncPayment } from "@/lib/payments"
+import { getInvoiceBalance } from "@/lib/rent-ledger"
 import mongoose from "mongoose"
 
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID || "",
-  key_secret: process.env.RAZORPAY_KEY_SECRET || "",
-})
-
 /**
- * Verify Razorpay payment
+ * Verify Razorpay payment (Checkout handler callback)
  */
 export async function POST(req: Request) {
   try {
@@ -25,77 +22,49 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json()
-    const { razorpay_order_id, razorpay_payment_id, razorpay_signature, bookingId } = body
+    const { razorpay_order_id, razorpay_payment_id, razorpay_signature, bookingId, rentInvoiceId } = body
 
     if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
       return NextResponse.json({ error: "Payment verification data is required" }, { status: 400 })
     }
 
-    if (!bookingId) {
+    if (!bookingId && !rentInvoiceId) {
       return NextResponse.json({ error: "Booking ID is required" }, { status: 400 })
     }
 
-    // Validate booking ID format
-    if (!mongoose.Types.ObjectId.isValid(bookingId)) {
-      return NextResponse.json({ error: "Invalid booking ID format" }, { status: 400 })
-    }
-
-    // Verify signature
-    const text = `${razorpay_order_id}|${razorpay_payment_id}`
-    const generatedSignature = crypto
-      .createHmac("sha256", process.env.RAZORPAY_KEY_SECRET || "")
-      .update(text)
-      .digest("hex")
-
-    if (generatedSignature !== razorpay_signature) {
-      return NextResponse.json({ error: "Invalid payment signature" }, { status: 400 })
-    }
-
     await connectToDatabase()
 
-    // Find the booking
-    const booking = await Booking.findById(bookingId)
-
-    if (!booking) {
-      return NextResponse.json({ error: "Booking not found" }, { status: 404 })
+    const payment = await findUserPayment("razorpay", razorpay_order_id, session.user.id)
+    const paysFor = rentInvoiceId ? payment?.rentInvoice : payment?.booking
+    if (!payment || paysFor?.toString() !== (rentInvoiceId || bookingId)) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 })
     }
 
-    // Check if user is the booking owner
-    if (booking.user.toString() !== session.user.id) {
-      return NextResponse.json(
-        { error: "You don't have permission to verify this payment" },
-        { status: 403 }
-      )
+    // Checks the signature, then settles the payment it names
+    const result = await syncPayment(
+      payment,
+      { providerPaymentId: razorpay_payment_id, signature: razorpay_signature },
+      { reason: "Razorpay payment verified" }
+    )
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
     }
-
-    // Verify payment with Razorpay
-    const payment = await razorpay.payments.fetch(razorpay_payment_id)
-
-    if (payment.status !== "captured" && payment.status !== "authorized") {
-      return NextResponse.json(
-        { error: "Payment not completed", paymentStatus: payment.status },
-        { status: 400 }
-      )
+    if (!result.captured) {
+      return NextResponse.json({ error: "Payment not completed" }, { status: 400 })
     }
 
-    // Update booking with payment information
-    booking.paymentStatus = "paid"
-    booking.status = "confirmed"
-    booking.paymentId = razorpay_payment_id
-    booking.paymentMethod = "upi"
-    booking.paymentDetails = {
-      razorpayOrderId: razorpay_order_id,
-      razorpayPaymentId: razorpay_payment_id,
-      paidAt: new Date(),
+    if (result.invoice) {
+      return NextResponse.json({
+        ...rentInvoiceStatus(result.invoice),
+        message: "Rent payment verified successfully",
+        paymentId: razorpay_payment_id,
+      })
     }
-    booking.updatedAt = new Date()
-
-    await booking.save()
 
     return NextResponse.json({
       success: true,
       message: "Payment verified and confirmed successfully",
-      booking,
+      booking: result.booking,
       paymentId: razorpay_payment_id,
     })
   } catch (error) {
@@ -111,7 +80,8 @@ export async function POST(req: Request) {
 }
 
 /**
- * Check payment status by order ID
+ * Check payment status by order or payment link ID (polled by the client
+ * until the payment shows up)
  */
 export async function GET(req: Request) {
   try {
@@ -124,6 +94,24 @@ export async function GET(req: Request) {
     const { searchParams } = new URL(req.url)
     const bookingId = searchParams.get("bookingId")
     const orderId = searchParams.get("orderId")
+    const rentInvoiceId = searchParams.get("rentInvoiceId")
+    const messSubscriptionId = searchParams.get("messSubscriptionId")
+    const messPassId = searchParams.get("messPassId")
+
+    if (rentInvoiceId) {
+      await connectToDatabase()
+      return checkRentInvoicePayments(rentInvoiceId, session.user.id)
+    }
+
+    if (messSubscriptionId) {
+      await connectToDatabase()
+      return checkMessSubscriptionPayments(messSubscriptionId, session.user.id)
+    }
+
+    if (messPassId) {
+      await connectToDatabase()
+      return checkMessPassPayments(messPassId, session.user.id)
+    }
 
     if (!bookingId) {
       return NextResponse.json({ error: "Booking ID is required" }, { status: 400 })
@@ -161,180 +149,21 @@ export async function GET(req: Request) {
       })
     }
 
-    // If order ID is provided, check payment status with Razorpay
-    if (orderId && process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET) {
-      try {
-        // Reinitialize Razorpay with fresh env vars
-        const razorpayInstance = new Razorpay({
-          key_id: process.env.RAZORPAY_KEY_ID,
-          key_secret: process.env.RAZORPAY_KEY_SECRET,
+    // Ask Razorpay about the order/payment link the client is waiting on
+    const payment = orderId ? await findUserPayment("razorpay", orderId, session.user.id) : null
+    if (payment && payment.booking?.toString() === bookingId) {
+      const result = await syncPayment(payment, {}, { reason: "Razorpay payment found while polling" })
+
+      if (result.success && result.booking) {
+        return NextResponse.json({
+          success: true,
+          isPaid: result.booking.paymentStatus === "paid",
+          paymentStatus: result.booking.paymentStatus,
+          status: result.booking.status,
         })
-
-        // Check if it's a payment link (starts with "plink_")
-        if (orderId.startsWith('plink_')) {
-          try {
-            const paymentLink = await razorpayInstance.paymentLink.fetch(orderId)
-            console.log("=== Payment Link Check ===")
-            console.log("Payment Link ID:", orderId)
-            console.log("Payment Link Status:", paymentLink.status)
-            console.log("Payment Link Amount:", paymentLink.amount)
-            console.log("Payment Link Amount Paid:", paymentLink.amount_paid)
-            console.log("Payment Link Payments Array:", JSON.stringify(paymentLink.payments, null, 2))
-            
-            // Check if payment link has payments array with actual payments
-            if (paymentLink.payments && Array.isArray(paymentLink.payments) && paymentLink.payments.length > 0) {
-              const payment = paymentLink.payments[0]
-              console.log("Found payment in payment link:", payment.id, "Status:", payment.status)
-              
-              // Check if payment is successful
-              if (payment.status === "captured" || payment.status === "authorized" || payment.status === "created") {
-                booking.paymentStatus = "paid"
-                booking.status = "confirmed"
-                booking.paymentId = payment.id || orderId
-                booking.paymentMethod = "upi"
-                booking.paymentDetails = {
-                  razorpayPaymentLinkId: orderId,
-                  razorpayPaymentId: payment.id,
-                  paidAt: new Date(payment.created_at * 1000),
-                }
-                booking.updatedAt = new Date()
-                await booking.save()
-
-                console.log("✅ Booking marked as paid via Payment Link payment:", payment.id)
-
-                return NextResponse.json({
-                  success: true,
-                  isPaid: true,
-                  paymentStatus: "paid",
-                  status: "confirmed",
-                })
-              }
-            }
-            
-            // Also check payment link status and amount_paid
-            if (paymentLink.status === "paid" || paymentLink.status === "partially_paid") {
-              console.log("Payment Link status indicates paid:", paymentLink.status)
-              booking.paymentStatus = "paid"
-              booking.status = "confirmed"
-              booking.paymentId = orderId
-              booking.paymentMethod = "upi"
-              booking.paymentDetails = {
-                razorpayPaymentLinkId: orderId,
-                paidAt: new Date(),
-              }
-              booking.updatedAt = new Date()
-              await booking.save()
-
-              return NextResponse.json({
-                success: true,
-                isPaid: true,
-                paymentStatus: "paid",
-                status: "confirmed",
-              })
-            }
-            
-            // Check if amount_paid > 0 (means payment was made)
-            if (paymentLink.amount_paid && paymentLink.amount_paid > 0) {
-              console.log("Payment Link has amount_paid:", paymentLink.amount_paid)
-              booking.paymentStatus = "paid"
-              booking.status = "confirmed"
-              booking.paymentId = orderId
-              booking.paymentMethod = "upi"
-              booking.paymentDetails = {
-                razorpayPaymentLinkId: orderId,
-                amountPaid: paymentLink.amount_paid,
-                paidAt: new Date(),
-              }
-              booking.updatedAt = new Date()
-              await booking.save()
-
-              return NextResponse.json({
-                success: true,
-                isPaid: true,
-                paymentStatus: "paid",
-                status: "confirmed",
-              })
-            }
-            
-            console.log("Payment Link not paid yet. Status:", paymentLink.status, "Amount Paid:", paymentLink.amount_paid)
-          } catch (linkError: any) {
-            console.error("Payment Link fetch error:", {
-              message: linkError.message,
-              statusCode: linkError.statusCode,
-              error: linkError.error,
-            })
-          }
-        }
-
-        // Try as order
-        try {
-          const order = await razorpayInstance.orders.fetch(orderId)
-          console.log("Razorpay order status:", order.status, "for order:", orderId)
-          
-          // Fetch payments for this order (check even if status isn't "paid" yet)
-          const payments = await razorpayInstance.orders.fetchPayments(orderId)
-          console.log("Payments found:", payments.items?.length || 0)
-          
-          if (payments.items && payments.items.length > 0) {
-            const payment = payments.items[0]
-            console.log("Payment status:", payment.status, "Payment ID:", payment.id)
-            
-            // Check if payment is successful
-            if (payment.status === "captured" || payment.status === "authorized" || payment.status === "created") {
-              booking.paymentStatus = "paid"
-              booking.status = "confirmed"
-              booking.paymentId = payment.id
-              booking.paymentMethod = "upi"
-              booking.paymentDetails = {
-                razorpayOrderId: orderId,
-                razorpayPaymentId: payment.id,
-                paidAt: new Date(payment.created_at * 1000),
-              }
-              booking.updatedAt = new Date()
-              await booking.save()
-
-              console.log("Booking marked as paid via Razorpay payment:", payment.id)
-
-              return NextResponse.json({
-                success: true,
-                isPaid: true,
-                paymentStatus: "paid",
-                status: "confirmed",
-              })
-            }
-          }
-          
-          // Also check order status directly
-          if (order.status === "paid" || order.status === "attempted") {
-            console.log("Order status indicates payment:", order.status)
-            booking.paymentStatus = "paid"
-            booking.status = "confirmed"
-            booking.paymentId = orderId
-            booking.paymentMethod = "upi"
-            booking.paymentDetails = {
-              razorpayOrderId: orderId,
-              paidAt: new Date(),
-            }
-            booking.updatedAt = new Date()
-            await booking.save()
-
-            return NextResponse.json({
-              success: true,
-              isPaid: true,
-              paymentStatus: "paid",
-              status: "confirmed",
-            })
-          }
-        } catch (orderError: any) {
-          console.log("Not an order or error fetching:", orderError.message)
-        }
-      } catch (razorpayError: any) {
-        console.error("Razorpay verification error:", {
-          message: razorpayError.message,
-          statusCode: razorpayError.statusCode,
-          error: razorpayError.error,
-        })
-        // Continue to return booking status
+      }
+      if (!result.success) {
+        console.error("Razorpay verification error:", result.error)
       }
     }
 
@@ -356,3 +185,101 @@ export async function GET(req: Request) {
   }
 }
 
+function rentInvoiceStatus(invoice: IRentInvoice) {
+  return {
+    success: true,
+    isPaid: invoice.status === "paid",
+    status: invoice.status,
+    amountPaid: invoice.amountPaid,
+    balance: getInvoiceBalance(invoice),
+  }
+}
+
+/**
+ * Settle any payments made on the invoice's open checkouts, for when the
+ * webhook hasn't arrived yet
+ */
+async function checkRentInvoicePayments(rentInvoiceId: string, userId: string) {
+  if (!mongoose.Types.ObjectId.isValid(rentInvoiceId)) {
+    return NextResponse.json({ error: "Invalid rent invoice ID" }, { status: 400 })
+  }
+
+  let invoice: IRentInvoice | null = await RentInvoice.findById(rentInvoiceId)
+  if (!invoice) {
+    return NextResponse.json({ error: "Rent invoice not found" }, { status: 404 })
+  }
+  if (invoice.tenant.toString() !== userId) {
+    return NextResponse.json({ error: "You don't have permission to check this invoice" }, { status: 403 })
+  }
+
+  if (invoice.status !== "paid") {
+    for (const payment of await findOpenPayments({ rentInvoice: rentInvoiceId })) {
+      const result = await syncPayment(payment, {}, { reason: "Razorpay rent payment found while polling" })
+      if (result.success && result.invoice) invoice = result.invoice
+    }
+  }
+
+  return NextResponse.json(rentInvoiceStatus(invoice))
+}
+
+/**
+ * Settle any payments made on a mess subscription's open checkouts
+ */
+async function checkMessSubscriptionPayments(messSubscriptionId: string, userId: string) {
+  if (!mongoose.Types.ObjectId.isValid(messSubscriptionId)) {
+    return NextResponse.json({ error: "Invalid subscription ID" }, { status: 400 })
+  }
+
+  let subscription: IMessSubscription | null = await MessSubscription.findById(messSubscriptionId)
+  if (!subscription) {
+    return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+  }
+  if (subscription.user.toString() !== userId) {
+    return NextResponse.json({ error: "You don't have permission to check this subscription" }, { status: 403 })
+  }
+
+  if (!subscription.paidAt) {
+    for (const payment of await findOpenPayments({ messSubscription: messSubscriptionId })) {
+      const result = await syncPayment(payment, {}, { reason: "Razorpay mess subscription payment found while polling" })
+      if (result.success && result.subscription) subscription = result.subscription
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    isPaid: !!subscription.paidAt,
+    status: subscription.status,
+    paidAt: subscription.paidAt,
+  })
+}
+
+/**
+ * Settle any payments made on a mess pass's open checkouts
+ */
+async function checkMessPassPayments(messPassId: string, userId: string) {
+  if (!mongoose.Types.ObjectId.isValid(messPassId)) {
+    return NextResponse.json({ error: "Invalid pass ID" }, { status: 400 })
+  }
+
+  let pass: IMessPass | null = await MessPass.findById(messPassId)
+  if (!pass) {
+    return NextResponse.json({ error: "Pass not found" }, { status: 404 })
+  }
+  if (pass.user.toString() !== userId) {
+    return NextResponse.json({ error: "You don't have permission to check this pass" }, { status: 403 })
+  }
+
+  if (!pass.paidAt) {
+    for (const payment of await findOpenPayments({ messPass: messPassId })) {
+      const result = await syncPayment(payment, {}, { reason: "Razorpay mess pass payment found while polling" })
+      if (result.success && result.pass) pass = result.pass
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    isPaid: !!pass.paidAt,
+    status: pass.status,
+    paidAt: pass.paidAt,
+  })
+}
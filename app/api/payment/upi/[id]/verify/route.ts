@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { confirmUpiPayment, getVerifiablePayment, rejectUpiPayment, type PaymentVerifier } from "@/lib/upi-verification"
+
+/**
+ * Confirm or reject a submitted UPI reference (property owner or admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners and admins can verify payments" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await req.json()
+    const { action, note } = body
+
+    if (action !== "confirm" && action !== "reject") {
+      return NextResponse.json({ error: "Action must be confirm or reject" }, { status: 400 })
+    }
+
+    if (action === "reject" && !String(note || "").trim()) {
+      return NextResponse.json({ error: "Please give a reason for rejecting the payment" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const verifier: PaymentVerifier = { userId: session.user.id, role: session.user.role }
+    const loaded = await getVerifiablePayment(id, verifier)
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status })
+    }
+
+    if (action === "reject") {
+      const rejected = await rejectUpiPayment(loaded.payment, verifier, String(note).trim())
+      if (!rejected.success) {
+        return NextResponse.json({ error: rejected.error }, { status: rejected.status })
+      }
+      return NextResponse.json({ success: true, message: "Payment rejected", payment: rejected.payment })
+    }
+
+    const confirmed = await confirmUpiPayment(loaded.payment, verifier, {
+      source: "manual",
+      note: note ? String(note).trim() : undefined,
+    })
+    if (!confirmed.success) {
+      return NextResponse.json({ error: confirmed.error }, { status: confirmed.status })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Payment verified and booking confirmed",
+      payment: confirmed.payment,
+      booking: confirmed.booking,
+    })
+  } catch (error) {
+    console.error("UPI payment verification error:", error)
+    return NextResponse.json(
+      {
+        error: "An error occurred while verifying the payment",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
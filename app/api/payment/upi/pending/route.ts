@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { listPendingUpiPayments } from "@/lib/upi-verification"
+
+/**
+ * UPI payments waiting for the current owner (or any, for admins) to verify
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners and admins can verify payments" }, { status: 403 })
+    }
+
+    await connectToDatabase()
+
+    const payments = await listPendingUpiPayments({ userId: session.user.id, role: session.user.role })
+
+    return NextResponse.json({ success: true, payments })
+  } catch (error) {
+    console.error("Error fetching pending UPI payments:", error)
+    return NextResponse.json({ error: "Failed to fetch pending payments" }, { status: 500 })
+  }
+}
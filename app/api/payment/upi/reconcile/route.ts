@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { reconcileUpiStatement } from "@/lib/upi-verification"
+
+// Statement exports are small; anything bigger is probably the wrong file
+const MAX_STATEMENT_BYTES = 2 * 1024 * 1024
+
+/**
+ * Import a bank statement CSV and confirm the pending UPI payments found on it
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners and admins can verify payments" }, { status: 403 })
+    }
+
+    const formData = await req.formData()
+    const file = formData.get("statement")
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "Statement CSV file is required" }, { status: 400 })
+    }
+
+    if (file.size > MAX_STATEMENT_BYTES) {
+      return NextResponse.json({ error: "Statement file is too large" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const result = await reconcileUpiStatement(await file.text(), { userId: session.user.id, role: session.user.role })
+
+    if (result.rows === 0) {
+      return NextResponse.json({ error: "No transactions found in the statement" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("UPI statement reconciliation error:", error)
+    return NextResponse.json(
+      {
+        error: "An error occurred while importing the statement",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
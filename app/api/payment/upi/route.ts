@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Booking } from "@/models/booking"
+import { Payment, type IPayment } from "@/models/payment"
+import { submitUpiReference } from "@/lib/upi-verification"
 import mongoose from "mongoose"
 
 /**
@@ -45,11 +47,22 @@ export async function GET(req: Request) {
       )
     }
 
+    const latest: IPayment | null = await Payment.findOne({ booking: booking._id, provider: "upi", utr: { $exists: true } })
+      .sort({ createdAt: -1 })
+
     return NextResponse.json({
       success: true,
       paymentStatus: booking.paymentStatus,
       status: booking.status,
       isPaid: booking.paymentStatus === "paid",
+      verification: latest
+        ? {
+            status: latest.status,
+            utr: latest.utr,
+            submittedAt: latest.utrSubmittedAt,
+            rejectedReason: latest.status === "failed" ? latest.failureReason : undefined,
+          }
+        : null,
     })
   } catch (error) {
     console.error("UPI payment status check error:", error)
@@ -64,7 +77,8 @@ export async function GET(req: Request) {
 }
 
 /**
- * Handle UPI payment confirmation
+ * Submit the UTR of a direct UPI transfer. The booking stays unpaid until the
+ * owner or an admin finds the transfer on their statement.
  */
 export async function POST(req: Request) {
   try {
@@ -75,7 +89,7 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json()
-    const { bookingId, amount, upiId, paymentMethod = "upi" } = body
+    const { bookingId, utr } = body
 
     if (!bookingId) {
       return NextResponse.json({ error: "Booking ID is required" }, { status: 400 })
@@ -89,7 +103,7 @@ export async function POST(req: Request) {
     await connectToDatabase()
 
     // Find the booking
-    const booking = await Booking.findById(bookingId).populate("property")
+    const booking = await Booking.findById(bookingId)
 
     if (!booking) {
       return NextResponse.json({ error: "Booking not found" }, { status: 404 })
@@ -108,32 +122,22 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "This booking is already paid" }, { status: 400 })
     }
 
-    // Verify amount matches
-    if (amount && Math.abs(booking.totalAmount - amount) > 0.01) {
-      return NextResponse.json(
-        { error: "Payment amount doesn't match booking amount" },
-        { status: 400 }
-      )
+    // Unpaid bookings lose their room once the hold expires
+    if (booking.status === "cancelled") {
+      return NextResponse.json({ error: "This booking has been cancelled or its reservation has expired" }, { status: 400 })
     }
 
-    // Update booking with payment information
-    booking.paymentStatus = "paid"
-    booking.status = "confirmed"
-    booking.paymentId = `upi_${Date.now()}_${bookingId}`
-    booking.paymentMethod = paymentMethod
-    booking.paymentDetails = {
-      upiId: upiId || "qr_scan",
-      paidAt: new Date(),
+    const submitted = await submitUpiReference(booking, session.user.id, utr)
+    if (!submitted.success) {
+      return NextResponse.json({ error: submitted.error }, { status: submitted.status })
     }
-    booking.updatedAt = new Date()
-
-    await booking.save()
 
     return NextResponse.json({
       success: true,
-      message: "UPI payment confirmed successfully",
-      booking,
-      paymentId: booking.paymentId,
+      message: "Payment reference submitted. Your booking will be confirmed once the payment is verified.",
+      paymentId: submitted.payment._id,
+      status: submitted.payment.status,
+      utr: submitted.payment.utr,
     })
   } catch (error) {
     console.error("UPI payment error:", error)
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { replayWebhookEvent } from "@/lib/payments"
+
+/**
+ * Process a stored webhook delivery again (admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const replayed = await replayWebhookEvent(id)
+    if (!replayed.success) {
+      return NextResponse.json({ error: replayed.error }, { status: replayed.status })
+    }
+
+    return NextResponse.json({
+      success: true,
+      handled: replayed.result.handled,
+      event: replayed.webhookEvent,
+    })
+  } catch (error) {
+    console.error("Error replaying webhook event:", error)
+    return NextResponse.json({ error: "Failed to replay webhook event" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { WebhookEvent } from "@/models/webhook-event"
+
+const STATUSES = ["processing", "processed", "ignored", "failed"]
+
+/**
+ * Stored payment webhook deliveries, latest first (admin). `?status=failed`
+ * lists the ones waiting to be replayed.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const status = searchParams.get("status")
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const events = await WebhookEvent.find(status ? { status } : {})
+      .select("-body -headers")
+      .sort({ receivedAt: -1 })
+      .limit(100)
+      .lean()
+
+    return NextResponse.json({ success: true, events })
+  } catch (error) {
+    console.error("Error fetching webhook events:", error)
+    return NextResponse.json({ error: "Failed to fetch webhook events" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { OwnerLedgerEntry } from "@/models/owner-ledger-entry"
+import { getOwnerEarningsSummary, getOwnerPayouts, syncOwnerLedger } from "@/lib/payouts"
+
+/**
+ * Owner earnings: ledger summary, recent entries and payout history.
+ * Admins can pass `?ownerId` to see any owner's earnings.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (session.user.role !== "owner" && session.user.role !== "admin") {
+      return NextResponse.json({ error: "Only property owners can view earnings" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const ownerId = (session.user.role === "admin" && searchParams.get("ownerId")) || session.user.id
+
+    if (!mongoose.Types.ObjectId.isValid(ownerId)) {
+      return NextResponse.json({ error: "Invalid owner ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    // Pick up payments made since the last sync
+    await syncOwnerLedger(ownerId)
+
+    const [summary, entries, payouts] = await Promise.all([
+      getOwnerEarningsSummary(ownerId),
+      OwnerLedgerEntry.find({ owner: ownerId })
+        .sort({ occurredAt: -1 })
+        .limit(100)
+        .populate("property", "title")
+        .lean(),
+      getOwnerPayouts(ownerId),
+    ])
+
+    return NextResponse.json({ success: true, summary, entries, payouts })
+  } catch (error) {
+    console.error("Error fetching owner earnings:", error)
+    return NextResponse.json({ error: "Failed to fetch earnings" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { PayoutRun, type IPayoutRun } from "@/models/payout-run"
+import { buildBankTransferFile, buildPayoutCsv, markPayoutRunExported } from "@/lib/payouts"
+
+/**
+ * Download a payout run: `?format=csv` (settlement report, default) or
+ * `?format=bank` (bulk transfer upload). Downloading the bank file moves a draft run to processing.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid payout run ID" }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const format = searchParams.get("format") || "csv"
+    if (format !== "csv" && format !== "bank") {
+      return NextResponse.json({ error: "Format must be csv or bank" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const run: IPayoutRun | null = await PayoutRun.findById(id)
+    if (!run) {
+      return NextResponse.json({ error: "Payout run not found" }, { status: 404 })
+    }
+    if (run.status === "cancelled") {
+      return NextResponse.json({ error: "This payout run has been cancelled" }, { status: 400 })
+    }
+
+    let file: string
+    if (format === "bank") {
+      const exported = await markPayoutRunExported(run)
+      file = buildBankTransferFile(exported)
+    } else {
+      file = buildPayoutCsv(run)
+    }
+
+    return new NextResponse(file, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${run.reference}${format === "bank" ? "-bank" : ""}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting payout run:", error)
+    return NextResponse.json({ error: "Failed to export payout run" }, { status: 500 })
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { PayoutRun } from "@/models/payout-run"
+import { cancelPayoutRun, settlePayoutItems, type PayoutItemUpdate } from "@/lib/payouts"
+
+/**
+ * Get a payout run (admin only)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid payout run ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const run = await PayoutRun.findById(id).populate("createdBy", "name email").lean()
+    if (!run) {
+      return NextResponse.json({ error: "Payout run not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    console.error("Error fetching payout run:", error)
+    return NextResponse.json({ error: "Failed to fetch payout run" }, { status: 500 })
+  }
+}
+
+/**
+ * Record bank outcomes (`action: "settle"` with `items`) or cancel the run
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid payout run ID" }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const { action, items } = body
+
+    await connectToDatabase()
+
+    if (action === "cancel") {
+      const result = await cancelPayoutRun(id)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
+      return NextResponse.json({ success: true, run: result.run })
+    }
+
+    if (action === "settle") {
+      if (!Array.isArray(items) || items.length === 0) {
+        return NextResponse.json({ error: "Items to settle are required" }, { status: 400 })
+      }
+
+      const updates: PayoutItemUpdate[] = []
+      for (const item of items) {
+        if (!item?.owner || (item.status !== "paid" && item.status !== "failed")) {
+          return NextResponse.json({ error: "Each item needs an owner and a status of paid or failed" }, { status: 400 })
+        }
+        updates.push({
+          owner: String(item.owner),
+          status: item.status,
+          reference: item.reference ? String(item.reference) : undefined,
+          failureReason: item.failureReason ? String(item.failureReason) : undefined,
+        })
+      }
+
+      const result = await settlePayoutItems(id, updates)
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
+      return NextResponse.json({ success: true, run: result.run, updated: result.updated })
+    }
+
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+  } catch (error) {
+    console.error("Error updating payout run:", error)
+    return NextResponse.json({ error: "Failed to update payout run" }, { status: 500 })
+  }
+}
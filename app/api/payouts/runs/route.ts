@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { PayoutRun } from "@/models/payout-run"
+import { createPayoutRun } from "@/lib/payouts"
+
+/**
+ * List payout runs (admin only)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const runs = await PayoutRun.find().sort({ createdAt: -1 }).limit(50).populate("createdBy", "name email").lean()
+
+    return NextResponse.json({ success: true, runs })
+  } catch (error) {
+    console.error("Error fetching payout runs:", error)
+    return NextResponse.json({ error: "Failed to fetch payout runs" }, { status: 500 })
+  }
+}
+
+/**
+ * Start a payout run for every owner balance up to `cutoff` (default: now)
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const cutoff = body.cutoff ? new Date(body.cutoff) : new Date()
+
+    if (Number.isNaN(cutoff.getTime()) || cutoff > new Date()) {
+      return NextResponse.json({ error: "Cutoff must be a date in the past" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const result = await createPayoutRun(session.user.id, cutoff)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, run: result.run, skipped: result.skipped }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating payout run:", error)
+    return NextResponse.json({ error: "Failed to create payout run" }, { status: 500 })
+  }
+}
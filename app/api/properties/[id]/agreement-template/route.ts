@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Property } from "@/models/property"
+import { AGREEMENT_PLACEHOLDERS, DEFAULT_AGREEMENT_TEMPLATE, parseAgreementTemplate } from "@/lib/move-ins"
+import mongoose from "mongoose"
+
+async function loadOwnedProperty(id: string, sessionUser: { id: string; role?: string }) {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid property ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const property = await Property.findById(id).select("owner agreementTemplate")
+  if (!property) {
+    return { error: NextResponse.json({ error: "Property not found" }, { status: 404 }) }
+  }
+  if (property.owner.toString() !== sessionUser.id && sessionUser.role !== "admin") {
+    return { error: NextResponse.json({ error: "You don't have permission to update this property" }, { status: 403 }) }
+  }
+
+  return { property }
+}
+
+/**
+ * The property's rental agreement template (owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const loaded = await loadOwnedProperty(id, session.user)
+    if (loaded.error) return loaded.error
+
+    return NextResponse.json({
+      template: loaded.property.agreementTemplate || DEFAULT_AGREEMENT_TEMPLATE,
+      isDefault: !loaded.property.agreementTemplate,
+      placeholders: AGREEMENT_PLACEHOLDERS,
+    })
+  } catch (error) {
+    console.error("Error fetching agreement template:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the agreement template" }, { status: 500 })
+  }
+}
+
+/**
+ * Replace the template; `{ "template": null }` goes back to the default.
+ * Agreements already signed by anyone keep their text.
+ */
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await req.json().catch(() => ({}))
+
+    const loaded = await loadOwnedProperty(id, session.user)
+    if (loaded.error) return loaded.error
+
+    if (body?.template === null) {
+      await Property.updateOne({ _id: id }, { $unset: { agreementTemplate: "" }, $set: { updatedAt: new Date() } })
+      return NextResponse.json({ success: true, template: DEFAULT_AGREEMENT_TEMPLATE, isDefault: true })
+    }
+
+    const parsed = parseAgreementTemplate(body?.template)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    await Property.updateOne({ _id: id }, { $set: { agreementTemplate: parsed.template, updatedAt: new Date() } })
+
+    return NextResponse.json({ success: true, template: parsed.template, isDefault: false })
+  } catch (error) {
+    console.error("Error updating agreement template:", error)
+    return NextResponse.json({ error: "An error occurred while updating the agreement template" }, { status: 500 })
+  }
+}
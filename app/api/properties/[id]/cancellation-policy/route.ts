@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Property } from "@/models/property"
+import { parseCancellationPolicy, resolveCancellationPolicy } from "@/lib/cancellation-policy"
+import mongoose from "mongoose"
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const property = await Property.findById(id).select("cancellationPolicy").lean()
+    if (!property) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 })
+    }
+
+    const typedProperty = property as Parameters<typeof resolveCancellationPolicy>[0]
+
+    return NextResponse.json({
+      policy: resolveCancellationPolicy(typedProperty),
+      isDefault: !typedProperty?.cancellationPolicy?.tiers?.length,
+    })
+  } catch (error) {
+    console.error("Error fetching cancellation policy:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the cancellation policy" }, { status: 500 })
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    const parsed = parseCancellationPolicy(await req.json().catch(() => null))
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const property = await Property.findById(id).select("owner")
+    if (!property) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 })
+    }
+
+    if (property.owner.toString() !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't have permission to update this property" }, { status: 403 })
+    }
+
+    await Property.updateOne({ _id: id }, { $set: { cancellationPolicy: parsed.policy, updatedAt: new Date() } })
+
+    return NextResponse.json({ success: true, policy: parsed.policy })
+  } catch (error) {
+    console.error("Error updating cancellation policy:", error)
+    return NextResponse.json({ error: "An error occurred while updating the cancellation policy" }, { status: 500 })
+  }
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Property } from "@/models/property"
+import { getWaitlistCounts, offerWaitlistedBeds } from "@/lib/waitlist"
+import mongoose from "mongoose"
+
+type RoomTypeRow = { type: string; price: number; available: number }
+
+async function getOwnedProperty(id: string, user: { id: string; role?: string }) {
+  const property = await Property.findById(id)
+    .select("owner roomTypes")
+    .lean<{ owner: mongoose.Types.ObjectId; roomTypes?: RoomTypeRow[] }>()
+  if (!property) {
+    return { error: "Property not found", status: 404 } as const
+  }
+  if (property.owner.toString() !== user.id && user.role !== "admin") {
+    return { error: "You don't have permission to update this property", status: 403 } as const
+  }
+  return { property }
+}
+
+/**
+ * Room types with free beds and how many students are waiting for each (owner view)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const owned = await getOwnedProperty(id, session.user)
+    if ("error" in owned) {
+      return NextResponse.json({ error: owned.error }, { status: owned.status })
+    }
+
+    return NextResponse.json({
+      roomTypes: owned.property.roomTypes || [],
+      waitlist: await getWaitlistCounts(id),
+    })
+  } catch (error) {
+    console.error("Error fetching room types:", error)
+    return NextResponse.json({ error: "An error occurred while fetching room types" }, { status: 500 })
+  }
+}
+
+/**
+ * Update prices and free beds: { roomTypes: [{ type, price?, available }] }.
+ * Beds added to a room type with a waitlist are offered to the students in line first.
+ */
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => null)
+    if (!body || !Array.isArray(body.roomTypes) || body.roomTypes.length === 0) {
+      return NextResponse.json({ error: "roomTypes is required" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const owned = await getOwnedProperty(id, session.user)
+    if ("error" in owned) {
+      return NextResponse.json({ error: owned.error }, { status: owned.status })
+    }
+
+    // Check every row before writing any of them
+    const changes: Array<{ current: RoomTypeRow; available: number; price: number }> = []
+    for (const input of body.roomTypes) {
+      const current = owned.property.roomTypes?.find((room) => room.type === input?.type)
+      if (!current) {
+        return NextResponse.json({ error: `Room type "${input?.type}" not found` }, { status: 404 })
+      }
+
+      const available = Number(input.available)
+      const price = input.price === undefined ? current.price : Number(input.price)
+      if (!Number.isInteger(available) || available < 0) {
+        return NextResponse.json({ error: "Available beds must be a whole number (0 or more)" }, { status: 400 })
+      }
+      if (!Number.isFinite(price) || price <= 0) {
+        return NextResponse.json({ error: "Price must be more than 0" }, { status: 400 })
+      }
+      if (available === current.available && price === current.price) continue
+      changes.push({ current, available, price })
+    }
+
+    const increased: string[] = []
+    let conflict: string | null = null
+    for (const { current, available, price } of changes) {
+      // Only applies if nobody booked or released a bed since the owner loaded the form
+      const updated = await Property.findOneAndUpdate(
+        { _id: id, roomTypes: { $elemMatch: { type: current.type, available: current.available } } },
+        { $set: { "roomTypes.$.available": available, "roomTypes.$.price": price, updatedAt: new Date() } },
+        { new: true },
+      )
+      if (!updated) {
+        conflict = current.type
+        break
+      }
+      if (available > current.available) increased.push(current.type)
+    }
+
+    // Beds already added go to the waitlist even if a later row conflicted
+    let offered = 0
+    for (const roomType of increased) {
+      offered += await offerWaitlistedBeds(id, roomType)
+    }
+
+    if (conflict) {
+      return NextResponse.json(
+        { error: `Availability of ${conflict} changed meanwhile, please reload and try again`, offered },
+        { status: 409 },
+      )
+    }
+
+    const after = await getOwnedProperty(id, session.user)
+    return NextResponse.json({
+      success: true,
+      roomTypes: "error" in after ? [] : after.property.roomTypes || [],
+      waitlist: await getWaitlistCounts(id),
+      offered,
+    })
+  } catch (error) {
+    console.error("Error updating room types:", error)
+    return NextResponse.json({ error: "An error occurred while updating room types" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Property, type IProperty } from "@/models/property"
+import { getInvoiceFileName, issueVerificationFeeInvoice, renderTaxInvoicePdf } from "@/lib/tax-invoices"
+
+/**
+ * Download the invoice for a property's verification fee (owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const property: IProperty | null = await Property.findById(id)
+    if (!property) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 })
+    }
+
+    if (property.owner.toString() !== session.user.id && session.user.role !== "admin") {
+      return NextResponse.json({ error: "You don't own this property" }, { status: 403 })
+    }
+
+    if (!property.verificationPaidAt) {
+      return NextResponse.json({ error: "No verification fee has been paid for this property" }, { status: 400 })
+    }
+
+    const invoice = await issueVerificationFeeInvoice(property)
+
+    return new NextResponse(new Uint8Array(renderTaxInvoicePdf(invoice)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating verification invoice:", error)
+    return NextResponse.json({ error: "Failed to generate invoice" }, { status: 500 })
+  }
+}
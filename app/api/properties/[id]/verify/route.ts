@@ -3,11 +3,15 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
 import { connectToDatabase } from "@/lib/mongodb"
 import { Property } from "@/models/property"
+import { findOpenPayments, startPayment, syncPayment } from "@/lib/payments"
+import { getPayableVerification, VERIFICATION_FEE } from "@/lib/property-verification"
 import mongoose from "mongoose"
 
-// Verification fee: ₹500 one-time (Business Model - Revenue Stream 1)
-const VERIFICATION_FEE = 500
-
+/**
+ * Start paying the verification fee. The property moves to "pending"
+ * (awaiting executive visit) once Razorpay reports the payment, through the
+ * webhook or the GET below.
+ */
 export async function POST(
   req: NextRequest,
   { params }: { params: { id: string } }
@@ -19,72 +23,26 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const { paymentId, paymentMethod } = await req.json()
-    const propertyId = params.id
-
-    if (!mongoose.Types.ObjectId.isValid(propertyId)) {
-      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
-    }
-
     await connectToDatabase()
 
-    // Find property and verify ownership
-    const property = await Property.findById(propertyId)
-
-    if (!property) {
-      return NextResponse.json({ error: "Property not found" }, { status: 404 })
+    const payable = await getPayableVerification(params.id, session.user.id)
+    if ("error" in payable) {
+      return NextResponse.json({ error: payable.error }, { status: payable.status })
     }
 
-    // Check if property belongs to the user
-    if (property.owner.toString() !== session.user.id) {
-      return NextResponse.json(
-        { error: "You don't own this property" },
-        { status: 403 }
-      )
-    }
-
-    // Check if already verified or pending
-    if (property.verificationStatus === "verified") {
-      return NextResponse.json(
-        { error: "Property is already verified", property },
-        { status: 400 }
-      )
-    }
-
-    if (property.verificationStatus === "pending") {
-      return NextResponse.json(
-        { error: "Verification is already pending. Executive visit scheduled.", property },
-        { status: 400 }
-      )
-    }
-
-    // Check if property is approved first
-    if (!property.isApproved) {
-      return NextResponse.json(
-        { error: "Property must be approved before verification" },
-        { status: 400 }
-      )
+    const started = await startPayment(
+      "razorpay",
+      { purpose: "verification_fee", property: payable.property, amountInr: VERIFICATION_FEE },
+      { userId: session.user.id, customer: session.user, flow: "payment_link" }
+    )
+    if (!started.success) {
+      return NextResponse.json({ error: started.error }, { status: started.status })
     }
 
-    // Update property: Payment done → Status = "pending" (awaiting executive visit)
-    property.verificationStatus = "pending"
-    property.verificationFee = VERIFICATION_FEE
-    property.verificationPaymentId = paymentId
-    property.verificationPaidAt = new Date()
-    property.updatedAt = new Date()
-
-    await property.save()
-
     return NextResponse.json({
       success: true,
-      message: "Payment successful! Our executive will visit your property soon for verification checks.",
-      verificationStatus: "pending",
-      property: {
-        _id: property._id,
-        title: property.title,
-        verificationStatus: property.verificationStatus,
-        verificationPaidAt: property.verificationPaidAt,
-      },
+      ...started.checkout.clientData,
+      verificationFee: VERIFICATION_FEE,
     })
   } catch (error: any) {
     console.error("Verification error:", error)
@@ -117,8 +75,8 @@ export async function GET(
 
     await connectToDatabase()
 
-    const property = await Property.findById(propertyId)
-      .select("title isVerified verificationFee owner isApproved")
+    let property = await Property.findById(propertyId)
+      .select("title isVerified verificationStatus verificationFee verificationPaidAt owner isApproved")
 
     if (!property) {
       return NextResponse.json({ error: "Property not found" }, { status: 404 })
@@ -131,11 +89,21 @@ export async function GET(
       )
     }
 
+    // Settle a fee paid on a checkout the webhook hasn't reported yet
+    if (!property.verificationPaidAt) {
+      const open = await findOpenPayments({ property: propertyId, purpose: "verification_fee" })
+      for (const payment of open) {
+        const result = await syncPayment(payment, {}, { reason: "Razorpay verification fee found while polling" })
+        if (result.success && result.property) property = result.property
+      }
+    }
+
     return NextResponse.json({
       verificationStatus: property.verificationStatus || null,
       isVerified: property.verificationStatus === "verified",
       verificationFee: VERIFICATION_FEE,
       canVerify: property.isApproved && !property.verificationStatus,
+      verificationPaidAt: property.verificationPaidAt,
       property: {
         _id: property._id,
         title: property.title,
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Property, type IProperty } from "@/models/property"
+import { VisitSlot } from "@/models/visit-slot"
+import { publishVisitSlots, removeVisitSlot } from "@/lib/visits"
+import mongoose from "mongoose"
+
+// How far ahead visitors can see slots
+const BOOKING_WINDOW_DAYS = 30
+
+async function getOwnedProperty(id: string) {
+  const session = await getServerSession(authOptions)
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid property ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const property: IProperty | null = await Property.findById(id).select("title owner")
+  if (!property) {
+    return { error: NextResponse.json({ error: "Property not found" }, { status: 404 }) }
+  }
+  if (property.owner.toString() !== session.user.id && session.user.role !== "admin") {
+    return { error: NextResponse.json({ error: "You don't have permission to manage this property's visits" }, { status: 403 }) }
+  }
+  return { property }
+}
+
+/**
+ * Open visit slots for the next month, or with `?scope=owner` every upcoming
+ * slot including booked ones (owner or admin)
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(req.url)
+    const now = new Date()
+
+    if (searchParams.get("scope") === "owner") {
+      const owned = await getOwnedProperty(id)
+      if ("error" in owned) return owned.error
+
+      const slots = await VisitSlot.find({ property: id, start: { $gt: now } })
+        .sort({ start: 1 })
+        .populate("visit", "visitorName status")
+        .lean()
+      return NextResponse.json({ slots })
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const slots = await VisitSlot.find({
+      property: id,
+      status: "open",
+      start: { $gt: now, $lte: new Date(now.getTime() + BOOKING_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+    })
+      .select("start durationMinutes")
+      .sort({ start: 1 })
+      .lean()
+
+    return NextResponse.json({ slots })
+  } catch (error) {
+    console.error("Error fetching visit slots:", error)
+    return NextResponse.json({ error: "An error occurred while fetching visit slots" }, { status: 500 })
+  }
+}
+
+/**
+ * Publish visit slots on a day: `{ date: "YYYY-MM-DD", times: ["10:00", ...], durationMinutes }`
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const owned = await getOwnedProperty(id)
+    if ("error" in owned) return owned.error
+
+    const body = await req.json().catch(() => ({}))
+    const result = await publishVisitSlots(owned.property, {
+      date: body?.date,
+      times: body?.times,
+      durationMinutes: body?.durationMinutes,
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, slots: result.slots }, { status: 201 })
+  } catch (error) {
+    console.error("Error publishing visit slots:", error)
+    return NextResponse.json({ error: "An error occurred while publishing visit slots" }, { status: 500 })
+  }
+}
+
+/**
+ * Withdraw an open slot (`?slotId=`)
+ */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+
+    const owned = await getOwnedProperty(id)
+    if ("error" in owned) return owned.error
+
+    const { searchParams } = new URL(req.url)
+    const result = await removeVisitSlot(id, searchParams.get("slotId") || "")
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error removing visit slot:", error)
+    return NextResponse.json({ error: "An error occurred while removing the visit slot" }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RentInvoice, type IRentInvoice } from "@/models/rent-invoice"
+import { getInvoiceBalance, recordRentPayment } from "@/lib/rent-ledger"
+
+const OFFLINE_METHODS = ["cash", "bank_transfer", "upi"] as const
+
+/**
+ * Record rent the owner collected outside the platform (cash, bank transfer, direct UPI)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid rent invoice ID" }, { status: 400 })
+    }
+
+    const body = await req.json()
+    const amount = Number(body.amount)
+    const method = body.method as (typeof OFFLINE_METHODS)[number]
+    const paidAt = body.paidAt ? new Date(body.paidAt) : undefined
+
+    if (!OFFLINE_METHODS.includes(method)) {
+      return NextResponse.json({ error: "Method must be cash, bank_transfer or upi" }, { status: 400 })
+    }
+    if (method !== "cash" && !body.reference) {
+      return NextResponse.json({ error: "A transaction reference is required" }, { status: 400 })
+    }
+    if (paidAt && Number.isNaN(paidAt.getTime())) {
+      return NextResponse.json({ error: "Invalid payment date" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const invoice: IRentInvoice | null = await RentInvoice.findById(id)
+    if (!invoice) {
+      return NextResponse.json({ error: "Rent invoice not found" }, { status: 404 })
+    }
+
+    if (session.user.role !== "admin" && invoice.owner.toString() !== session.user.id) {
+      return NextResponse.json({ error: "You don't have permission to record payments on this invoice" }, { status: 403 })
+    }
+
+    const balance = getInvoiceBalance(invoice)
+    if (!(amount > 0) || amount > balance + 0.01) {
+      return NextResponse.json({ error: `Amount must be between ₹1 and the outstanding ₹${balance}` }, { status: 400 })
+    }
+
+    const result = await recordRentPayment(id, {
+      amount,
+      method,
+      reference: body.reference ? String(body.reference).trim() : `cash_${Date.now()}`,
+      recordedBy: session.user.id,
+      paidAt,
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+    if (result.duplicate) {
+      return NextResponse.json({ error: "A payment with this reference is already recorded" }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      invoice: { ...result.invoice.toObject(), balance: getInvoiceBalance(result.invoice) },
+    })
+  } catch (error) {
+    console.error("Error recording rent payment:", error)
+    return NextResponse.json({ error: "An error occurred while recording the payment" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { applyLateFees, generateDueRentInvoices } from "@/lib/rent-ledger"
+
+/**
+ * Create upcoming rent invoices and add late fees to overdue ones (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const invoices = await generateDueRentInvoices()
+    const lateFees = await applyLateFees()
+
+    return NextResponse.json({ success: true, invoices, lateFees })
+  } catch (error) {
+    console.error("Error running rent invoicing:", error)
+    return NextResponse.json({ error: "An error occurred while generating rent invoices" }, { status: 500 })
+  }
+}
+
+export const GET = POST
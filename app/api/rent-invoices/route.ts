@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { Booking } from "@/models/booking"
+import { RentInvoice, type IRentInvoice } from "@/models/rent-invoice"
+import { generateInvoicesForBooking, getInvoiceBalance, isInvoiceOverdue } from "@/lib/rent-ledger"
+
+/**
+ * List rent invoices
+ *
+ * Tenants get their own statement (optionally for one booking). Owners pass
+ * `?as=owner` for invoices on their properties; admins see every invoice.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const asOwner = searchParams.get("as") === "owner"
+    const bookingId = searchParams.get("bookingId")
+    const status = searchParams.get("status")
+
+    if (bookingId && !mongoose.Types.ObjectId.isValid(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking ID format" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const query: Record<string, unknown> = {}
+    if (asOwner) {
+      if (session.user.role !== "owner" && session.user.role !== "admin") {
+        return NextResponse.json({ error: "Only property owners can view rent collection" }, { status: 403 })
+      }
+      if (session.user.role !== "admin") query.owner = session.user.id
+    } else {
+      query.tenant = session.user.id
+
+      // Catch up on invoices the scheduled job hasn't created yet
+      const activeBookings = await Booking.find({
+        user: session.user.id,
+        status: "confirmed",
+        paymentStatus: "paid",
+        ...(bookingId ? { _id: bookingId } : {}),
+      })
+      for (const booking of activeBookings) {
+        await generateInvoicesForBooking(booking)
+      }
+    }
+
+    if (bookingId) query.booking = bookingId
+    if (status) query.status = status
+
+    const invoices: IRentInvoice[] = await RentInvoice.find(query)
+      .populate("property", "title location")
+      .populate("tenant", "name email")
+      .sort({ dueDate: -1 })
+      .limit(500)
+
+    const now = new Date()
+    const rows = invoices.map((invoice) => ({
+      ...invoice.toObject(),
+      balance: getInvoiceBalance(invoice),
+      overdue: isInvoiceOverdue(invoice, now),
+    }))
+
+    const summary = rows.reduce(
+      (totals, row) => {
+        if (row.status === "void") return totals
+        totals.billed += row.rentAmount + (row.lateFee || 0)
+        totals.collected += row.amountPaid || 0
+        totals.outstanding += row.balance
+        if (row.overdue) totals.overdue += row.balance
+        return totals
+      },
+      { billed: 0, collected: 0, outstanding: 0, overdue: 0 },
+    )
+
+    return NextResponse.json({ invoices: rows, summary })
+  } catch (error) {
+    console.error("Error fetching rent invoices:", error)
+    return NextResponse.json({ error: "An error occurred while fetching rent invoices" }, { status: 500 })
+  }
+}
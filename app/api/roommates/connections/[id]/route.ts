@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RoommateConnection } from "@/models/roommate-connection"
+import { respondToConnection } from "@/lib/roommates"
+
+/**
+ * Answer a roommate request: { action: "accept" | "decline" | "withdraw" }
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid connection ID" }, { status: 400 })
+    }
+
+    const { action } = await req.json()
+
+    await connectToDatabase()
+
+    const connection = await RoommateConnection.findById(id)
+    if (!connection) {
+      return NextResponse.json({ error: "Connection not found" }, { status: 404 })
+    }
+
+    const result = await respondToConnection(connection, session.user.id, action)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, connection: result.connection })
+  } catch (error) {
+    console.error("Error updating roommate connection:", error)
+    return NextResponse.json({ error: "Failed to update connection" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { listConnections, requestConnection } from "@/lib/roommates"
+
+/**
+ * The user's pending and accepted roommate connections
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const connections = await listConnections(session.user.id)
+
+    return NextResponse.json({ success: true, connections })
+  } catch (error) {
+    console.error("Error fetching roommate connections:", error)
+    return NextResponse.json({ error: "Failed to fetch connections" }, { status: 500 })
+  }
+}
+
+/**
+ * Send a roommate request: { userId, propertyId?, message? }
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const result = await requestConnection(session.user.id, body)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, connection: result.connection })
+  } catch (error) {
+    console.error("Error requesting roommate connection:", error)
+    return NextResponse.json({ error: "Failed to send request" }, { status: 500 })
+  }
+}
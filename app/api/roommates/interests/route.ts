@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { addPropertyInterest, removePropertyInterest } from "@/lib/roommates"
+
+/**
+ * Follow a property with shared rooms to find roommates there
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { propertyId } = await req.json()
+
+    await connectToDatabase()
+
+    const result = await addPropertyInterest(session.user.id, propertyId)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, profile: result.profile })
+  } catch (error) {
+    console.error("Error adding roommate interest:", error)
+    return NextResponse.json({ error: "Failed to follow property" }, { status: 500 })
+  }
+}
+
+/**
+ * Stop following a property (`?propertyId=`)
+ */
+export async function DELETE(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const propertyId = new URL(req.url).searchParams.get("propertyId")
+    if (!propertyId) {
+      return NextResponse.json({ error: "Property ID is required" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const profile = await removePropertyInterest(session.user.id, propertyId)
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error("Error removing roommate interest:", error)
+    return NextResponse.json({ error: "Failed to unfollow property" }, { status: 500 })
+  }
+}
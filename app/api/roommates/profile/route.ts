@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { RoommateProfile } from "@/models/roommate-profile"
+import { ROOMMATE_OPTIONS, saveRoommateProfile } from "@/lib/roommates"
+
+/**
+ * The user's roommate profile (null until they opt in) and the answer options
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const profile = await RoommateProfile.findOne({ user: session.user.id }).populate("properties", "title location").lean()
+
+    return NextResponse.json({ success: true, profile, options: ROOMMATE_OPTIONS })
+  } catch (error) {
+    console.error("Error fetching roommate profile:", error)
+    return NextResponse.json({ error: "Failed to fetch roommate profile" }, { status: 500 })
+  }
+}
+
+/**
+ * Save the roommate profile; `active: false` opts out of matching
+ */
+export async function PUT(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const result = await saveRoommateProfile(session.user.id, body)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, profile: result.profile })
+  } catch (error) {
+    console.error("Error saving roommate profile:", error)
+    return NextResponse.json({ error: "Failed to save roommate profile" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { getRoommateSuggestions } from "@/lib/roommates"
+
+/**
+ * Compatible roommates for the user, optionally at one property (`?propertyId=`)
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const propertyId = new URL(req.url).searchParams.get("propertyId") || undefined
+
+    await connectToDatabase()
+
+    const result = await getRoommateSuggestions(session.user.id, { propertyId })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, suggestions: result.suggestions })
+  } catch (error) {
+    console.error("Error fetching roommate suggestions:", error)
+    return NextResponse.json({ error: "Failed to fetch suggestions" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { ScheduleVisit, type IScheduleVisit } from "@/models/schedule-visit"
+import { getVisitActor, recordVisitFollowUp } from "@/lib/visits"
+
+/**
+ * Save the owner's follow-up notes on a visit that has happened (owner or admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid visit ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const notes = typeof body?.notes === "string" ? body.notes.trim().slice(0, 2000) : ""
+    if (!notes) {
+      return NextResponse.json({ error: "Notes are required" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const visit: IScheduleVisit | null = await ScheduleVisit.findById(id)
+    if (!visit) {
+      return NextResponse.json({ error: "Visit not found" }, { status: 404 })
+    }
+
+    const actor = getVisitActor(visit, session.user)
+    if (!actor) {
+      return NextResponse.json({ error: "You don't have permission to update this visit" }, { status: 403 })
+    }
+
+    const result = await recordVisitFollowUp(visit, actor, notes)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, visit: result.visit })
+  } catch (error) {
+    console.error("Error saving visit follow-up:", error)
+    return NextResponse.json({ error: "An error occurred while saving the follow-up" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { ScheduleVisit, type IScheduleVisit } from "@/models/schedule-visit"
+import { getVisitActor, rescheduleVisit } from "@/lib/visits"
+
+/**
+ * Move a visit to another open slot of the property (owner or admin)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid visit ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+
+    await connectToDatabase()
+
+    const visit: IScheduleVisit | null = await ScheduleVisit.findById(id)
+    if (!visit) {
+      return NextResponse.json({ error: "Visit not found" }, { status: 404 })
+    }
+
+    const actor = getVisitActor(visit, session.user)
+    if (!actor) {
+      return NextResponse.json({ error: "You don't have permission to update this visit" }, { status: 403 })
+    }
+
+    const result = await rescheduleVisit(visit, body?.slotId, actor)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, visit: result.visit })
+  } catch (error) {
+    console.error("Error rescheduling visit:", error)
+    return NextResponse.json({ error: "An error occurred while rescheduling the visit" }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { ScheduleVisit, type IScheduleVisit } from "@/models/schedule-visit"
+import { getVisitActor, joinVirtualRoom } from "@/lib/visits"
+
+async function loadVisit(params: Promise<{ id: string }>) {
+  const session = await getServerSession(authOptions)
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  const { id } = await params
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: NextResponse.json({ error: "Invalid visit ID" }, { status: 400 }) }
+  }
+
+  await connectToDatabase()
+
+  const visit: IScheduleVisit | null = await ScheduleVisit.findById(id).populate("property", "title location")
+  if (!visit) {
+    return { error: NextResponse.json({ error: "Visit not found" }, { status: 404 }) }
+  }
+
+  const actor = getVisitActor(visit, session.user)
+  if (!actor) {
+    return { error: NextResponse.json({ error: "You don't have access to this visit" }, { status: 403 }) }
+  }
+
+  return { visit, actor }
+}
+
+// The room link itself is only handed out by POST, while the room is open
+function toRoomSummary(visit: IScheduleVisit) {
+  return {
+    _id: visit._id,
+    property: visit.property,
+    visitorName: visit.visitorName,
+    scheduledDate: visit.scheduledDate,
+    scheduledTime: visit.scheduledTime,
+    status: visit.status,
+    visitType: visit.visitType,
+    provider: visit.virtualRoom?.provider,
+    opensAt: visit.virtualRoom?.opensAt,
+    closesAt: visit.virtualRoom?.closesAt,
+    attendance: visit.attendance,
+  }
+}
+
+/**
+ * A virtual visit's room window and who has joined so far
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const loaded = await loadVisit(params)
+    if ("error" in loaded) return loaded.error
+
+    return NextResponse.json({ success: true, visit: toRoomSummary(loaded.visit), role: loaded.actor.role })
+  } catch (error) {
+    console.error("Error fetching visit room:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the visit room" }, { status: 500 })
+  }
+}
+
+/**
+ * Join a virtual visit's room, recording attendance, and get its link
+ */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const loaded = await loadVisit(params)
+    if ("error" in loaded) return loaded.error
+
+    const result = await joinVirtualRoom(loaded.visit, loaded.actor)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const room = result.visit.virtualRoom
+    return NextResponse.json({
+      success: true,
+      // The updated visit comes back unpopulated, so keep the loaded property
+      visit: { ...toRoomSummary(loaded.visit), attendance: result.visit.attendance },
+      room: { provider: room?.provider, roomName: room?.roomName, url: room?.url },
+    })
+  } catch (error) {
+    console.error("Error joining visit room:", error)
+    return NextResponse.json({ error: "An error occurred while joining the visit room" }, { status: 500 })
+  }
+}
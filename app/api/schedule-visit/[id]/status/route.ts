@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { ScheduleVisit, type IScheduleVisit } from "@/models/schedule-visit"
+import { getVisitActor, updateVisitStatus, type VisitStatus } from "@/lib/visits"
+
+const STATUSES: VisitStatus[] = ["confirmed", "completed", "cancelled"]
+
+/**
+ * Confirm or complete a visit (owner or admin, with `attended` on completion),
+ * or cancel it (either side)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid visit ID" }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (!STATUSES.includes(body?.status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+    const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 500) || undefined : undefined
+    const attended = typeof body?.attended === "boolean" ? body.attended : undefined
+
+    await connectToDatabase()
+
+    const visit: IScheduleVisit | null = await ScheduleVisit.findById(id)
+    if (!visit) {
+      return NextResponse.json({ error: "Visit not found" }, { status: 404 })
+    }
+
+    const actor = getVisitActor(visit, session.user)
+    if (!actor) {
+      return NextResponse.json({ error: "You don't have permission to update this visit" }, { status: 403 })
+    }
+
+    const result = await updateVisitStatus(visit, body.status, actor, { reason, attended })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, visit: result.visit })
+  } catch (error) {
+    console.error("Error updating visit:", error)
+    return NextResponse.json({ error: "An error occurred while updating the visit" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { sendVisitReminders } from "@/lib/visits"
+
+/**
+ * Remind visitors and owners of property visits in the next day (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await sendVisitReminders()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error sending visit reminders:", error)
+    return NextResponse.json({ error: "An error occurred while sending visit reminders" }, { status: 500 })
+  }
+}
+
+export const GET = POST
@@ -2,9 +2,16 @@ import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth-options"
 import { connectToDatabase } from "@/lib/mongodb"
-import { Property } from "@/models/property"
+import { ScheduleVisit } from "@/models/schedule-visit"
+import { bookVisit } from "@/lib/visits"
 
-export async function POST(req: Request) {
+const STATUSES = ["pending", "confirmed", "cancelled", "completed"]
+
+/**
+ * List the current user's visits, or visits to their properties
+ * (`?scope=owner`), optionally filtered by `?status=`
+ */
+export async function GET(req: Request) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -12,13 +19,53 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const body = await req.json()
-    const { propertyId, date, time, notes } = body
+    const { searchParams } = new URL(req.url)
+    const scope = searchParams.get("scope")
+    const status = searchParams.get("status")
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    const query: Record<string, unknown> = {}
+    if (scope === "owner") {
+      if (session.user.role !== "owner" && session.user.role !== "admin") {
+        return NextResponse.json({ error: "Only property owners can view visit requests" }, { status: 403 })
+      }
+      if (session.user.role !== "admin") query.owner = session.user.id
+    } else {
+      query.user = session.user.id
+    }
+    if (status) query.status = status
+
+    await connectToDatabase()
+
+    // Room links are handed out by the room endpoint only while the room is open
+    const find = ScheduleVisit.find(query)
+      .select("-virtualRoom.url -virtualRoom.roomName")
+      .populate("property", "title location images")
+    if (scope === "owner") find.populate("user", "name email")
+    const visits = await find.sort({ scheduledDate: -1 }).limit(200).lean()
+
+    return NextResponse.json({ success: true, visits })
+  } catch (error) {
+    console.error("Error fetching visits:", error)
+    return NextResponse.json({ error: "An error occurred while fetching visits" }, { status: 500 })
+  }
+}
+
+/**
+ * Book one of a property's open visit slots
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
 
-    if (!propertyId || !date || !time) {
-      return NextResponse.json({ error: "Property ID, date, and time are required" }, { status: 400 })
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    const body = await req.json().catch(() => ({}))
+
     // Skip DB connection if MONGODB_URI is not defined (during build)
     if (!process.env.MONGODB_URI) {
       return NextResponse.json({ error: "Database connection not available" }, { status: 503 })
@@ -26,28 +73,28 @@ export async function POST(req: Request) {
 
     await connectToDatabase()
 
-    // Find the property
-    const property = await Property.findById(propertyId)
-
-    if (!property) {
-      return NextResponse.json({ error: "Property not found" }, { status: 404 })
+    const result = await bookVisit(session.user.id, {
+      slotId: body?.slotId,
+      name: body?.name,
+      phone: body?.phone,
+      email: body?.email,
+      notes: body?.notes,
+      contactMethod: body?.contactMethod,
+      visitType: body?.visitType,
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
     }
 
-    // Create a visit request
-    // In a real application, you would have a Visit model
-    // For now, we'll just simulate success
-
-    return NextResponse.json({
-      success: true,
-      message: "Visit scheduled successfully",
-      visitId: `VISIT_${Math.random().toString(36).substring(2, 15)}`,
-      property: {
-        id: property._id,
-        title: property.title,
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Visit requested. The owner will confirm it shortly.",
+        visitId: result.visit._id,
+        visit: result.visit,
       },
-      date,
-      time,
-    })
+      { status: 201 },
+    )
   } catch (error) {
     console.error("Schedule visit error:", error)
     return NextResponse.json({ error: "An error occurred while scheduling the visit" }, { status: 500 })
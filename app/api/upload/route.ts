@@ -99,7 +99,7 @@ export async function POST(req: Request) {
     const singleFile = formData.get("file") as File | null
     const multipleFiles = formData.getAll("images") as File[]
     
-    // Check upload type (profile, property, mess)
+    // Check upload type (profile, property, mess, move-in, maintenance, kyc)
     const uploadType = (formData.get("type") as string | null) || "property"
     
     const files = singleFile ? [singleFile] : multipleFiles
@@ -109,6 +109,7 @@ export async function POST(req: Request) {
     }
 
     const uploadedUrls: string[] = []
+    const uploadedAssets: Array<{ publicId: string; format?: string; resourceType: string }> = []
 
     for (const file of files) {
       const bytes = await file.arrayBuffer()
@@ -123,8 +124,16 @@ export async function POST(req: Request) {
           ? "secondhome/profiles"
           : uploadType === "mess"
             ? "secondhome/messes"
-            : "secondhome/properties"
+            : uploadType === "move-in"
+              ? "secondhome/move-ins"
+              : uploadType === "maintenance"
+                ? "secondhome/maintenance"
+                : uploadType === "kyc"
+                  ? `secondhome/kyc/${session.user.id}`
+                  : "secondhome/properties"
       const publicId = `${folder}/${uniqueId}`
+      // KYC documents are private: only reachable through signed links from the document vault
+      const deliveryType = uploadType === "kyc" ? "authenticated" : "upload"
 
       // Try multiple upload methods to handle signature errors
       let result: any = null
@@ -137,6 +146,7 @@ export async function POST(req: Request) {
             {
               folder: folder,
               resource_type: "auto",
+              type: deliveryType,
               // Don't include public_id here - it causes signature issues
             },
             (error, result) => {
@@ -162,6 +172,7 @@ export async function POST(req: Request) {
           result = await cloudinary.uploader.upload(dataUri, {
             folder: folder,
             resource_type: "auto",
+            type: deliveryType,
             // Don't include public_id - it causes signature issues
           })
           console.log("✅ Upload successful (method 2 - base64):", result?.public_id)
@@ -176,6 +187,7 @@ export async function POST(req: Request) {
             result = await cloudinary.uploader.upload(dataUri, {
               folder: folder,
               resource_type: "auto",
+              type: deliveryType,
             })
             console.log("✅ Upload successful (method 3 - no public_id):", result?.public_id)
           } catch (error3: any) {
@@ -201,12 +213,15 @@ export async function POST(req: Request) {
 
       // Use the secure URL from Cloudinary
       uploadedUrls.push(result.secure_url)
+      uploadedAssets.push({ publicId: result.public_id, format: result.format, resourceType: result.resource_type })
     }
 
     // Return single URL for single file upload, or array for multiple
     if (singleFile) {
       return NextResponse.json({
         url: uploadedUrls[0],
+        // Private uploads are referenced by asset, their URL isn't publicly readable
+        ...(uploadType === "kyc" ? { asset: uploadedAssets[0] } : {}),
         message: "File uploaded successfully",
       })
     }
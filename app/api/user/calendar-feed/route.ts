@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { getCalendarFeedToken, rotateCalendarFeedToken } from "@/lib/calendar-feed"
+
+const feedPath = (token: string) => `/api/calendar/${token}.ics`
+
+/**
+ * GET - The current user's calendar feed path, creating the feed on first use
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const token = await getCalendarFeedToken(session.user.id)
+    if (!token) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ path: feedPath(token) })
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error)
+    return NextResponse.json({ error: "An error occurred while fetching the calendar feed" }, { status: 500 })
+  }
+}
+
+/**
+ * POST - Replace the feed link; apps subscribed to the old one stop updating
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const token = await rotateCalendarFeedToken(session.user.id)
+    if (!token) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ path: feedPath(token) })
+  } catch (error) {
+    console.error("Error resetting calendar feed:", error)
+    return NextResponse.json({ error: "An error occurred while resetting the calendar feed" }, { status: 500 })
+  }
+}
@@ -21,6 +21,7 @@ export async function GET(req: Request) {
       preferences: user?.preferences || {
         emailNotifications: false,
         smsNotifications: false,
+        whatsappNotifications: false,
         showProfile: true,
       }
     }, { status: 200 })
@@ -50,6 +51,7 @@ export async function PUT(req: Request) {
         preferences: {
           emailNotifications: body.emailNotifications ?? false,
           smsNotifications: body.smsNotifications ?? false,
+          whatsappNotifications: body.whatsappNotifications ?? false,
           showProfile: body.showProfile ?? true,
         },
         updatedAt: new Date()
@@ -19,6 +19,10 @@ const updateProfileSchema = z.object({
   city: z.string().optional(),
   state: z.string().optional(),
   pincode: z.string().optional(),
+  gstin: z
+    .string()
+    .regex(/^(\d{2}[A-Z]{5}\d{4}[A-Z][A-Z\d]Z[A-Z\d])?$/i, "Invalid GSTIN format")
+    .optional(),
   currentPassword: z.string().optional(),
   newPassword: z.string().min(6, "Password must be at least 6 characters").optional(),
 })
@@ -85,6 +89,7 @@ export async function PUT(req: Request) {
     if (body.city !== undefined) updateData.city = body.city
     if (body.state !== undefined) updateData.state = body.state
     if (body.pincode !== undefined) updateData.pincode = body.pincode
+    if (body.gstin !== undefined) updateData.gstin = body.gstin.toUpperCase()
 
     // Update password if both current and new passwords are provided
     if (body.currentPassword || body.newPassword) {
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { WaitlistEntry } from "@/models/waitlist-entry"
+import { leaveWaitlist } from "@/lib/waitlist"
+
+/**
+ * Leave a waitlist (or give up a held bed)
+ */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid waitlist entry ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const entry = await WaitlistEntry.findOne({ _id: id, user: session.user.id })
+    if (!entry) {
+      return NextResponse.json({ error: "Waitlist entry not found" }, { status: 404 })
+    }
+
+    const result = await leaveWaitlist(entry)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error leaving waitlist:", error)
+    return NextResponse.json({ error: "Failed to leave the waitlist" }, { status: 500 })
+  }
+}
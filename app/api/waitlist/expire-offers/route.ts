@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/mongodb"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { expireWaitlistOffers } from "@/lib/waitlist"
+
+/**
+ * Pass lapsed waitlist offers on to the next student in line (scheduled job)
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAuthorizedCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const result = await expireWaitlistOffers()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error expiring waitlist offers:", error)
+    return NextResponse.json({ error: "An error occurred while expiring waitlist offers" }, { status: 500 })
+  }
+}
+
+export const GET = POST
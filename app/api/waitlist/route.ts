@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import mongoose from "mongoose"
+import { authOptions } from "@/lib/auth-options"
+import { connectToDatabase } from "@/lib/mongodb"
+import { WAITLIST_OFFER_HOURS, joinWaitlist, listWaitlist } from "@/lib/waitlist"
+
+/**
+ * The user's waitlist places and held-bed offers, optionally for one property (`?propertyId=`)
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const propertyId = new URL(req.url).searchParams.get("propertyId") || undefined
+    if (propertyId && !mongoose.Types.ObjectId.isValid(propertyId)) {
+      return NextResponse.json({ error: "Invalid property ID" }, { status: 400 })
+    }
+
+    await connectToDatabase()
+
+    const entries = await listWaitlist(session.user.id, propertyId)
+
+    return NextResponse.json({ success: true, entries, offerHours: WAITLIST_OFFER_HOURS })
+  } catch (error) {
+    console.error("Error fetching waitlist:", error)
+    return NextResponse.json({ error: "Failed to fetch waitlist" }, { status: 500 })
+  }
+}
+
+/**
+ * Join the waitlist for a full room type: { propertyId, roomType }
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await req.json()
+
+    await connectToDatabase()
+
+    const result = await joinWaitlist(session.user.id, body)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, entry: result.entry }, { status: 201 })
+  } catch (error) {
+    console.error("Error joining waitlist:", error)
+    return NextResponse.json({ error: "Failed to join the waitlist" }, { status: 500 })
+  }
+}
@@ -27,14 +27,18 @@ import {
   Sparkles,
   Video,
   CheckCircle2,
+  Wrench,
+  UsersRound,
 } from "lucide-react"
 import { useEffect, useState } from "react"
-import { useParams, useRouter } from "next/navigation"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { useToast } from "@/components/ui/use-toast"
 import { useAuth } from "@/hooks/use-auth"
 import { motion } from "framer-motion"
 import { PaymentModal } from "@/components/payment-modal"
 import { ScheduleVisitModal } from "@/components/schedule-visit-modal"
+import { GroupBookingDialog } from "@/components/group-booking"
+import { PropertyWaitlist } from "@/components/waitlist"
 import { LikeButton } from "@/components/like-button"
 import { ShareModal } from "@/components/share-modal"
 import { ReviewForm } from "@/components/review-form"
@@ -43,6 +47,7 @@ import { WhatsAppChatButton } from "@/components/whatsapp-chat-button"
 import { SettlingInKits, type SettlingInKit } from "@/components/settling-in-kits"
 import { MessLocationMapReadonly } from "@/components/mess-location-map-readonly"
 import { useLanguage } from "@/providers/language-provider"
+import { isSharedRoomType } from "@/lib/room-types"
 
 interface Property {
   _id: string
@@ -52,6 +57,11 @@ interface Property {
   address: string
   rating: number
   reviews: number
+  maintenance?: {
+    score: number
+    resolvedTickets: number
+    slaMetRate: number
+  }
   price: number
   deposit: number
   images: string[]
@@ -116,6 +126,11 @@ const getDeliveryPromiseCopy = (t: (key: string) => string, checkInValue: string
 
 export default function ListingDetailPage() {
   const params = useParams()
+  const searchParams = useSearchParams()
+  // Set when the student books from one of their visits
+  const visitId = searchParams.get("visit")
+  // Set when the student comes from "Book together" on an accepted roommate connection
+  const bookWith = searchParams.get("bookWith")
   const router = useRouter()
   const { toast } = useToast()
   const { user } = useAuth()
@@ -127,13 +142,14 @@ export default function ListingDetailPage() {
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false)
   const [isScheduleVisitModalOpen, setIsScheduleVisitModalOpen] = useState(false)
   const [isShareModalOpen, setIsShareModalOpen] = useState(false)
+  const [isGroupBookingOpen, setIsGroupBookingOpen] = useState(false)
   const [currentBookingId, setCurrentBookingId] = useState<string | null>(null)
   const [isCreatingBooking, setIsCreatingBooking] = useState(false)
   const [selectedKit, setSelectedKit] = useState<SettlingInKit | null>(null)
   const [checkInDateTime, setCheckInDateTime] = useState<string>(getDefaultCheckInDateTime())
   const [bookingTotal, setBookingTotal] = useState<number | null>(null)
 
-  const handleBookNow = async () => {
+  const handleBookNow = async (roomType?: string) => {
     if (!user) {
       toast({
         title: t("common.loginRequired"),
@@ -181,6 +197,8 @@ export default function ListingDetailPage() {
           checkOut: checkOutDate.toISOString(),
           guests: 1,
           commissionRate,
+          roomType,
+          visitId: visitId || undefined,
           settlingInKit: selectedKit
             ? {
                 packageId: selectedKit.packageId,
@@ -213,6 +231,34 @@ export default function ListingDetailPage() {
     }
   }
 
+  const handleFindRoommates = async () => {
+    if (!user) {
+      router.push("/login")
+      return
+    }
+    if (!property) return
+
+    try {
+      // Follow this property so students looking here are suggested to each other
+      const response = await fetch("/api/roommates/interests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ propertyId: property._id }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to follow property")
+      }
+      router.push("/profile?tab=roommates")
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("listing.detail.findRoommatesHint"),
+        variant: "destructive",
+      })
+    }
+  }
+
   useEffect(() => {
     const fetchProperty = async () => {
       setIsLoading(true)
@@ -251,6 +297,10 @@ export default function ListingDetailPage() {
     }
   }, [params.id, router, toast, user?.id])
 
+  useEffect(() => {
+    if (bookWith && user?.id && property?.roomTypes?.length) setIsGroupBookingOpen(true)
+  }, [bookWith, user?.id, property?._id, property?.roomTypes?.length])
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center">
@@ -413,6 +463,17 @@ export default function ListingDetailPage() {
                       <span className="font-semibold text-gray-900">{property.rating || 0}</span>
                       <span className="text-gray-500 text-sm">({property.reviews || 0} {t("common.reviews")})</span>
                     </div>
+                    {property.maintenance && property.maintenance.resolvedTickets > 0 && (
+                      <div className="flex items-center gap-1 text-sm">
+                        <Wrench className="w-4 h-4 text-gray-600" />
+                        <span className="font-semibold text-gray-900">{property.maintenance.score}</span>
+                        <span className="text-gray-500">
+                          {t("listing.detail.maintenance")} · {property.maintenance.resolvedTickets}{" "}
+                          {t("listing.detail.maintenanceFixed")}, {Math.round(property.maintenance.slaMetRate * 100)}%{" "}
+                          {t("listing.detail.maintenanceOnTime")}
+                        </span>
+                      </div>
+                    )}
                     <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200">
                       {property.gender === "Male"
                         ? t("common.gender.male")
@@ -489,6 +550,21 @@ export default function ListingDetailPage() {
                     </div>
                   ))}
                       </div>
+                {property.roomTypes.some((room) => isSharedRoomType(room.type)) && (
+                  <div className="mt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-xl border border-dashed border-orange-200 p-4">
+                    <p className="text-sm text-gray-600">{t("listing.detail.findRoommatesHint")}</p>
+                    <Button variant="outline" onClick={handleFindRoommates}>
+                      <UsersRound className="w-4 h-4 mr-2" />
+                      {t("listing.detail.findRoommates")}
+                    </Button>
+                  </div>
+                )}
+                <PropertyWaitlist
+                  propertyId={property._id}
+                  roomTypes={property.roomTypes}
+                  isLoggedIn={!!user}
+                  onBook={handleBookNow}
+                />
               </motion.div>
             )}
 
@@ -602,7 +678,7 @@ export default function ListingDetailPage() {
                   <Button
                     size="lg"
                     className="w-full bg-gradient-to-r from-primary to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transition-all"
-                    onClick={handleBookNow}
+                    onClick={() => handleBookNow()}
                     disabled={isCreatingBooking}
                   >
                     {isCreatingBooking ? (
@@ -621,6 +697,18 @@ export default function ListingDetailPage() {
                       </>
                     )}
                   </Button>
+
+                  {property.roomTypes && property.roomTypes.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="lg"
+                      onClick={() => (user ? setIsGroupBookingOpen(true) : router.push("/login"))}
+                      className="w-full border-2"
+                    >
+                      <Users className="mr-2 h-5 w-5" />
+                      {t("listing.detail.bookWithFriends")}
+                    </Button>
+                  )}
                   
                   <Button
                     variant="outline"
@@ -808,6 +896,16 @@ export default function ListingDetailPage() {
             propertyId={property._id}
             propertyName={property.title}
           />
+          {property.roomTypes && property.roomTypes.length > 0 && (
+            <GroupBookingDialog
+              open={isGroupBookingOpen}
+              onOpenChange={setIsGroupBookingOpen}
+              propertyId={property._id}
+              roomTypes={property.roomTypes}
+              defaultCheckIn={checkInDateTime}
+              withConnection={bookWith}
+            />
+          )}
           <ShareModal
             isOpen={isShareModalOpen}
             onClose={() => setIsShareModalOpen(false)}
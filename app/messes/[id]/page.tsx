@@ -26,6 +26,7 @@ import { ShareModal } from "@/components/share-modal"
 import { ReviewForm } from "@/components/review-form"
 import { ReviewsList } from "@/components/reviews-list"
 import { MessLocationMapReadonly } from "@/components/mess-location-map-readonly"
+import { MessMenu, type MenuDay } from "@/components/mess-menu"
 import { useLanguage } from "@/providers/language-provider"
 
 interface Mess {
@@ -43,6 +44,7 @@ interface Mess {
   contactEmail?: string
   monthlyPrice: number
   dailyPrice: number
+  trialDays?: number
   packagingAvailable?: boolean
   packagingPrice?: number
   images: string[]
@@ -52,6 +54,8 @@ interface Mess {
     lunch: string
     dinner: string
   }[]
+  weeklyMenu?: MenuDay[]
+  mealTypes?: string[]
   openingHours: {
     breakfast: string
     lunch: string
@@ -94,6 +98,17 @@ export default function MessDetailPage() {
   const [subscriptionPhone, setSubscriptionPhone] = useState("")
   const [isCreatingSubscription, setIsCreatingSubscription] = useState(false)
 
+  const [isPassOpen, setIsPassOpen] = useState(false)
+  const [passKind, setPassKind] = useState<"trial" | "day" | "week">("day")
+  const [passStartDate, setPassStartDate] = useState<string>(() => {
+    const today = new Date()
+    const yyyy = today.getFullYear()
+    const mm = String(today.getMonth() + 1).padStart(2, "0")
+    const dd = String(today.getDate()).padStart(2, "0")
+    return `${yyyy}-${mm}-${dd}`
+  })
+  const [isCreatingPass, setIsCreatingPass] = useState(false)
+
   const imageCount = mess?.images?.length ?? 0
 
   useEffect(() => {
@@ -158,7 +173,12 @@ export default function MessDetailPage() {
         const data = await response.json()
         setMess(data)
 
-        const hasMenu = Array.isArray(data?.menu) && data.menu.some((day: any) => day && (day.breakfast || day.lunch || day.dinner))
+        const hasMenu =
+          Boolean(data?.weeklyMenu?.length) ||
+          (Array.isArray(data?.menu) &&
+            data.menu.some(
+              (day: Mess["menu"][number] | null) => day && (day.breakfast || day.lunch || day.dinner),
+            ))
         setActiveTab(hasMenu ? "menu" : "location")
       } catch (error) {
         console.error("Error fetching mess details:", error)
@@ -227,6 +247,8 @@ export default function MessDetailPage() {
 
   const hasMonthlyPrice = Number.isFinite(monthlyPrice) && monthlyPrice > 0
   const hasDailyPrice = Number.isFinite(dailyPrice) && dailyPrice > 0
+  const trialDays = Number(mess.trialDays)
+  const hasTrial = Number.isInteger(trialDays) && trialDays > 0
   const hasPackagingCharges = Boolean(mess.packagingAvailable) && Number.isFinite(packagingPrice) && packagingPrice > 0
 
   const mealTimings = [
@@ -236,7 +258,10 @@ export default function MessDetailPage() {
   ].filter((t) => Boolean((t.value || "").trim()))
   const hasMealTimings = mealTimings.length > 0
 
-  const hasMenu = Array.isArray(mess.menu) && mess.menu.some((day) => day && (day.breakfast || day.lunch || day.dinner))
+  const hasMenu =
+    Boolean(mess.weeklyMenu?.length) ||
+    (Array.isArray(mess.menu) && mess.menu.some((day) => day && (day.breakfast || day.lunch || day.dinner)))
+  const canEditMenu = Boolean(user && (user.id === mess.owner?._id || user.role === "admin"))
   const hasPhotos = Array.isArray(mess.images) && mess.images.length > 0
 
   const contactName = (mess.contactName || "").trim() || mess.owner?.name
@@ -266,6 +291,66 @@ export default function MessDetailPage() {
     setIsSubscribeOpen(true)
   }
 
+  const handleGetPass = (kind: "trial" | "day" | "week") => {
+    if (!user) {
+      toast({
+        title: t("common.loginRequired"),
+        description: t("mess.detail.toast.loginToBookMeal"),
+        variant: "destructive",
+      })
+      router.push(`/login?redirect=/messes/${encodeURIComponent(String(messId || ""))}`)
+      return
+    }
+
+    setPassKind(kind)
+    setIsPassOpen(true)
+  }
+
+  const confirmPass = async () => {
+    if (!mess?._id) return
+    if (!passStartDate) {
+      toast({
+        title: t("mess.detail.toast.startDateRequired.title"),
+        description: t("mess.detail.toast.startDateRequired.desc"),
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsCreatingPass(true)
+    try {
+      const res = await fetch("/api/mess-passes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messId: mess._id, kind: passKind, startDate: passStartDate }),
+      })
+
+      const data = await res.json().catch(() => null)
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to create pass")
+      }
+
+      toast({
+        title: t("mess.detail.toast.passCreated.title"),
+        description:
+          data?.pass?.status === "active"
+            ? t("mess.detail.toast.passCreated.desc")
+            : t("mess.detail.toast.passPayment.desc"),
+      })
+
+      setIsPassOpen(false)
+      router.push("/profile?tab=bookings")
+    } catch (e) {
+      toast({
+        title: t("mess.detail.toast.passFailed.title"),
+        description: e instanceof Error ? e.message : t("common.somethingWentWrong"),
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreatingPass(false)
+    }
+  }
+
   const confirmSubscription = async () => {
     if (!mess?._id) return
     if (!subscriptionStartDate) {
@@ -473,7 +558,7 @@ export default function MessDetailPage() {
             >
               <Tabs defaultValue={activeTab} onValueChange={setActiveTab}>
                 <TabsList className="w-full border-b rounded-none p-0">
-                  {hasMenu && (
+                  {(hasMenu || canEditMenu) && (
                     <TabsTrigger value="menu" className="flex-1 rounded-none py-3">
                       {t("mess.tabs.menu")}
                     </TabsTrigger>
@@ -491,46 +576,9 @@ export default function MessDetailPage() {
                     {t("mess.tabs.reviews")}
                   </TabsTrigger>
                 </TabsList>
-                {hasMenu && (
+                {(hasMenu || canEditMenu) && (
                   <TabsContent value="menu" className="p-6">
-                    <div className="space-y-6">
-                      {mess.menu.map((day, index) => (
-                        <Card key={index}>
-                          <CardContent className="p-4">
-                            <h3 className="font-bold text-lg mb-3">{day.day}</h3>
-                            <div className="grid gap-4 md:grid-cols-3">
-                              {day.breakfast && (
-                                <div>
-                                  <div className="flex items-center mb-2">
-                                    <Utensils className="w-4 h-4 mr-2 text-primary" />
-                                      <h4 className="font-medium">{t("common.meal.breakfast")}</h4>
-                                  </div>
-                                  <p className="text-sm text-muted-foreground">{day.breakfast}</p>
-                                </div>
-                              )}
-                              {day.lunch && (
-                                <div>
-                                  <div className="flex items-center mb-2">
-                                    <Utensils className="w-4 h-4 mr-2 text-primary" />
-                                      <h4 className="font-medium">{t("common.meal.lunch")}</h4>
-                                  </div>
-                                  <p className="text-sm text-muted-foreground">{day.lunch}</p>
-                                </div>
-                              )}
-                              {day.dinner && (
-                                <div>
-                                  <div className="flex items-center mb-2">
-                                    <Utensils className="w-4 h-4 mr-2 text-primary" />
-                                      <h4 className="font-medium">{t("common.meal.dinner")}</h4>
-                                  </div>
-                                  <p className="text-sm text-muted-foreground">{day.dinner}</p>
-                                </div>
-                              )}
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
+                    <MessMenu messId={mess._id} canEdit={canEditMenu} mealTypes={mess.mealTypes || []} />
                   </TabsContent>
                 )}
                 <TabsContent value="location" className="p-6">
@@ -672,27 +720,14 @@ export default function MessDetailPage() {
                 ) : null}
 
                 {hasDailyPrice ? (
-                  <Button
-                    variant="outline"
-                    className="w-full h-12"
-                    onClick={() => {
-                      if (!user) {
-                        toast({
-                          title: t("common.loginRequired"),
-                          description: t("mess.detail.toast.loginToBookMeal"),
-                          variant: "destructive",
-                        })
-                        router.push(`/login?redirect=/messes/${encodeURIComponent(String(messId || ""))}`)
-                        return
-                      }
-
-                      toast({
-                        title: t("mess.detail.toast.mealBooked.title"),
-                        description: t("mess.detail.toast.mealBooked.desc"),
-                      })
-                    }}
-                  >
-                    {t("mess.detail.action.bookDailyMeal")}
+                  <Button variant="outline" className="w-full h-12" onClick={() => handleGetPass("day")}>
+                    {t("mess.detail.action.buyPass")}
+                  </Button>
+                ) : null}
+
+                {hasTrial ? (
+                  <Button variant="ghost" className="w-full h-12" onClick={() => handleGetPass("trial")}>
+                    {t("mess.detail.action.startTrial")} · {trialDays} {t("mess.detail.passDialog.days")}
                   </Button>
                 ) : null}
               </div>
@@ -788,6 +823,78 @@ export default function MessDetailPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={isPassOpen} onOpenChange={setIsPassOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("mess.detail.passDialog.title")}</DialogTitle>
+            <DialogDescription>{t("mess.detail.passDialog.desc")}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t("mess.detail.passDialog.type")}</Label>
+              <div className="grid gap-2">
+                {hasTrial ? (
+                  <Button
+                    type="button"
+                    variant={passKind === "trial" ? "default" : "outline"}
+                    className="justify-between"
+                    onClick={() => setPassKind("trial")}
+                  >
+                    <span>{t("mess.detail.passDialog.trial")}</span>
+                    <span>
+                      {trialDays} {t("mess.detail.passDialog.days")} · ₹0
+                    </span>
+                  </Button>
+                ) : null}
+                {hasDailyPrice ? (
+                  <>
+                    <Button
+                      type="button"
+                      variant={passKind === "day" ? "default" : "outline"}
+                      className="justify-between"
+                      onClick={() => setPassKind("day")}
+                    >
+                      <span>{t("mess.detail.passDialog.day")}</span>
+                      <span>₹{dailyPrice}</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={passKind === "week" ? "default" : "outline"}
+                      className="justify-between"
+                      onClick={() => setPassKind("week")}
+                    >
+                      <span>{t("mess.detail.passDialog.week")}</span>
+                      <span>₹{dailyPrice * 7}</span>
+                    </Button>
+                  </>
+                ) : null}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="passStartDate">{t("mess.detail.passDialog.startDate")}</Label>
+              <input
+                id="passStartDate"
+                type="date"
+                value={passStartDate}
+                onChange={(e) => setPassStartDate(e.target.value)}
+                className="w-full rounded-md border px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPassOpen(false)} disabled={isCreatingPass}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={confirmPass} disabled={isCreatingPass}>
+              {isCreatingPass ? t("common.creating") : t("mess.detail.passDialog.confirm")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
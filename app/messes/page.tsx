@@ -19,6 +19,19 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { useLanguage } from "@/providers/language-provider"
 // Map view is shown on the single mess detail page.
 
+interface MenuSearchFields {
+  weeklyMenu?: Array<{ meals?: Array<{ dishes?: Array<{ name?: string }> }> }>
+  menu?: Array<{ breakfast?: string; lunch?: string; dinner?: string }>
+}
+
+// Structured dishes, or the flat menu strings of messes without them
+function messServesDish(mess: MenuSearchFields, query: string) {
+  const names = mess.weeklyMenu?.length
+    ? mess.weeklyMenu.flatMap((day) => (day.meals || []).flatMap((meal) => (meal.dishes || []).map((dish) => dish.name)))
+    : (mess.menu || []).flatMap((day) => [day.breakfast, day.lunch, day.dinner])
+  return names.some((name) => name?.toLowerCase().includes(query))
+}
+
 export default function MessesPage() {
   const { data: session } = useSession()
   const router = useRouter()
@@ -62,7 +75,8 @@ export default function MessesPage() {
       mess.name?.toLowerCase().includes(query) ||
       mess.location?.toLowerCase().includes(query) ||
       mess.city?.toLowerCase().includes(query) ||
-      mess.cuisineTypes?.some((c: string) => c.toLowerCase().includes(query))
+      mess.cuisineTypes?.some((c: string) => c.toLowerCase().includes(query)) ||
+      messServesDish(mess, query)
     )
   })
 
@@ -37,9 +37,43 @@ import {
   LayoutDashboard,
   ListChecks,
   Trash2,
+  Wallet,
+  BadgeCheck,
+  TrendingUp,
+  Landmark,
+  Download,
+  PiggyBank,
+  Utensils,
+  Truck,
+  CalendarClock,
+  ClipboardCheck,
+  FileLock,
+  ShieldCheck,
+  Wrench,
+  UsersRound,
+  UserPlus,
 } from "lucide-react"
 import { LikeButton } from "@/components/like-button"
 import { PhoneVerification } from "@/components/phone-verification"
+import { RentStatement } from "@/components/rent-statement"
+import { OwnerRentLedger } from "@/components/owner-rent-ledger"
+import { UpiVerificationQueue } from "@/components/upi-verification-queue"
+import { OwnerEarnings } from "@/components/owner-earnings"
+import { OwnerDeposits } from "@/components/owner-deposits"
+import { BookingDeposit } from "@/components/booking-deposit"
+import { MoveInPanel, OwnerMoveIns } from "@/components/move-in"
+import { DocumentReviewQueue, DocumentVault, SharedTenantDocuments } from "@/components/document-vault"
+import { OwnerTickets, ResidentTickets } from "@/components/maintenance-tickets"
+import { RoommateFinder } from "@/components/roommates"
+import { GroupBookings } from "@/components/group-booking"
+import { MyWaitlist, RoomAvailabilityEditor } from "@/components/waitlist"
+import { MessSubscriptionStatement } from "@/components/mess-subscriptions"
+import { MessPassStatement } from "@/components/mess-passes"
+import { OwnerDeliveryOrders } from "@/components/delivery-orders"
+import { OwnerVisits, VisitStatement } from "@/components/property-visits"
+import { OwnerMessSubscribers } from "@/components/owner-mess-subscribers"
+import { PayoutRunsPanel } from "@/components/payout-runs-panel"
+import { CalendarFeedSettings } from "@/components/calendar-feed-settings"
 
 export default function ProfilePage() {
   const router = useRouter()
@@ -70,6 +104,7 @@ export default function ProfilePage() {
     city: "",
     state: "",
     pincode: "",
+    gstin: "",
     image: "",
   })
   const [profileImage, setProfileImage] = useState<string | null>(null)
@@ -90,6 +125,9 @@ export default function ProfilePage() {
   const [userProperties, setUserProperties] = useState<any[]>([])
   const [isLoadingData, setIsLoadingData] = useState(false)
   const [removingId, setRemovingId] = useState<string | null>(null)
+  const [cancellingBookingId, setCancellingBookingId] = useState<string | null>(null)
+  const [moveInBookingId, setMoveInBookingId] = useState<string | null>(null)
+  const [roomsPropertyId, setRoomsPropertyId] = useState<string | null>(null)
   
   // Counts for overview tab
   const [savedCount, setSavedCount] = useState(0)
@@ -99,6 +137,7 @@ export default function ProfilePage() {
   const [settings, setSettings] = useState({
     emailNotifications: false,
     smsNotifications: false,
+    whatsappNotifications: false,
     showProfile: true,
   })
   const [isSavingSettings, setIsSavingSettings] = useState(false)
@@ -144,6 +183,7 @@ export default function ProfilePage() {
           city: userData.city || "",
           state: userData.state || "",
           pincode: userData.pincode || "",
+          gstin: userData.gstin || "",
           image: userData.image || "",
         })
         // Set profile image from user data or session
@@ -245,6 +285,7 @@ export default function ProfilePage() {
             setSettings(data.preferences || {
               emailNotifications: false,
               smsNotifications: false,
+              whatsappNotifications: false,
               showProfile: true,
             })
           }
@@ -600,14 +641,74 @@ export default function ProfilePage() {
     }
   }
 
+  const handleCancelBooking = async (bookingId: string) => {
+    setCancellingBookingId(bookingId)
+    try {
+      const quoteRes = await fetch(`/api/bookings/${bookingId}/cancel`)
+      const quote = await quoteRes.json()
+      if (!quoteRes.ok) {
+        throw new Error(quote.error || "Failed to load cancellation details")
+      }
+
+      const refundTotal = quote.refund?.total || 0
+      const confirmed = window.confirm(
+        refundTotal > 0
+          ? `Cancel this booking? You will be refunded ₹${refundTotal.toLocaleString("en-IN")}.`
+          : "Cancel this booking? No refund applies under this property's cancellation policy."
+      )
+      if (!confirmed) return
+
+      const res = await fetch(`/api/bookings/${bookingId}/cancel`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to cancel booking")
+      }
+
+      setBookings(prev => prev.map(b => (b._id === bookingId ? { ...b, ...data.booking, property: b.property } : b)))
+      toast({
+        title: "Booking cancelled",
+        description: refundTotal > 0 ? "Your refund has been initiated" : "Your booking has been cancelled",
+      })
+    } catch (error: unknown) {
+      console.error("❌ Error cancelling booking:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel booking",
+        variant: "destructive",
+      })
+    } finally {
+      setCancellingBookingId(null)
+    }
+  }
+
   const sidebarLinks = [
     { id: "overview", label: "Overview", icon: LayoutDashboard },
     { id: "bookings", label: "My Bookings", icon: Calendar },
+    { id: "group-bookings", label: "Group Bookings", icon: UserPlus },
     { id: "liked", label: "Saved Properties", icon: Heart },
+    { id: "documents", label: "Documents", icon: FileLock },
+    { id: "maintenance", label: "Maintenance", icon: Wrench },
+    { id: "roommates", label: "Roommates", icon: UsersRound },
     ...(user?.role === "owner" || user?.role === "admin"
-      ? [{ id: "properties", label: "My Properties", icon: Building2 }]
+      ? [
+          { id: "properties", label: "My Properties", icon: Building2 },
+          { id: "visits", label: "Property Visits", icon: CalendarClock },
+          { id: "rent", label: "Rent Collection", icon: Wallet },
+          { id: "payments", label: "Payment Verification", icon: BadgeCheck },
+          { id: "earnings", label: "Earnings", icon: TrendingUp },
+          { id: "deposits", label: "Deposits", icon: PiggyBank },
+          { id: "move-ins", label: "Move-ins", icon: ClipboardCheck },
+          { id: "mess-subscribers", label: "Mess Subscribers", icon: Utensils },
+          { id: "mess-deliveries", label: "Mess Deliveries", icon: Truck },
+        ]
+      : []),
+    ...(user?.role === "admin"
+      ? [
+          { id: "payouts", label: "Owner Payouts", icon: Landmark },
+          { id: "kyc", label: "KYC Reviews", icon: ShieldCheck },
+          { id: "admin", label: "Admin Panel", icon: Shield },
+        ]
       : []),
-    ...(user?.role === "admin" ? [{ id: "admin", label: "Admin Panel", icon: Shield }] : []),
     { id: "settings", label: "Settings", icon: SettingsIcon },
     { id: "profile", label: "My Profile", icon: User },
   ]
@@ -873,6 +974,14 @@ export default function ProfilePage() {
                                   >
                                     {booking.status || "pending"}
                                   </Badge>
+                                  {booking.status === "pending" &&
+                                    booking.paymentStatus === "pending" &&
+                                    booking.reservation?.status === "held" &&
+                                    booking.reservation.expiresAt && (
+                                      <p className="text-xs text-orange-600 mt-1">
+                                        Room held until {new Date(booking.reservation.expiresAt).toLocaleString()}
+                                      </p>
+                                    )}
                                 </div>
                                 <div>
                                   <p className="text-gray-600 mb-1">Amount</p>
@@ -881,6 +990,61 @@ export default function ProfilePage() {
                                   </p>
                                 </div>
                               </div>
+                              {booking.status === "cancelled" && booking.cancellation?.refund?.total > 0 && (
+                                <p className="text-sm text-gray-600 mt-4">
+                                  Refund ₹{booking.cancellation.refund.total.toLocaleString('en-IN')} ·{" "}
+                                  <span className="font-semibold">
+                                    {booking.cancellation.refundStatus === "processed" ? "refunded" : "processing"}
+                                  </span>
+                                </p>
+                              )}
+                              {booking.deposit && (
+                                <BookingDeposit
+                                  bookingId={booking._id}
+                                  deposit={booking.deposit}
+                                  canPay={booking.paymentStatus === "paid" && booking.status !== "cancelled"}
+                                />
+                              )}
+                              {((booking.paymentStatus && booking.paymentStatus !== "pending") ||
+                                booking.status === "pending" ||
+                                booking.status === "confirmed") && (
+                                <div className="mt-4 flex justify-end gap-2">
+                                  {booking.paymentStatus && booking.paymentStatus !== "pending" && (
+                                    <Button variant="outline" size="sm" asChild>
+                                      <a href={`/api/bookings/${booking._id}/invoice`}>
+                                        <Download className="w-4 h-4 mr-2" />
+                                        Invoice
+                                      </a>
+                                    </Button>
+                                  )}
+                                  {booking.status === "confirmed" && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => setMoveInBookingId(moveInBookingId === booking._id ? null : booking._id)}
+                                    >
+                                      <ClipboardCheck className="w-4 h-4 mr-2" />
+                                      {moveInBookingId === booking._id ? "Hide move-in" : "Move-in"}
+                                    </Button>
+                                  )}
+                                  {(booking.status === "pending" || booking.status === "confirmed") && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => handleCancelBooking(booking._id)}
+                                      disabled={cancellingBookingId === booking._id}
+                                    >
+                                      {cancellingBookingId === booking._id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                                      Cancel Booking
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                              {moveInBookingId === booking._id && booking.status === "confirmed" && (
+                                <div className="mt-4 border-t pt-4">
+                                  <MoveInPanel bookingId={booking._id} />
+                                </div>
+                              )}
                             </CardContent>
                           </Card>
                         ))}
@@ -888,6 +1052,32 @@ export default function ProfilePage() {
                     )}
                   </CardContent>
                 </Card>
+                <MyWaitlist />
+                <RentStatement />
+                <MessSubscriptionStatement />
+                <MessPassStatement />
+                <VisitStatement />
+              </TabsContent>
+
+              {/* Documents Tab */}
+              <TabsContent value="documents">
+                <DocumentVault bookings={bookings} />
+              </TabsContent>
+
+              {/* Maintenance Tab */}
+              <TabsContent value="maintenance" className="space-y-6">
+                <ResidentTickets bookings={bookings} hideWhenEmpty={user.role === "owner" || user.role === "admin"} />
+                {(user.role === "owner" || user.role === "admin") && <OwnerTickets isAdmin={user.role === "admin"} />}
+              </TabsContent>
+
+              {/* Group Bookings Tab */}
+              <TabsContent value="group-bookings" className="space-y-6">
+                <GroupBookings />
+              </TabsContent>
+
+              {/* Roommates Tab */}
+              <TabsContent value="roommates" className="space-y-6">
+                <RoommateFinder />
               </TabsContent>
 
               {/* Saved Properties Tab */}
@@ -1031,11 +1221,25 @@ export default function ProfilePage() {
                                       : "Pending"}
                                   </Badge>
                                 </div>
+                                {roomsPropertyId === property._id && (
+                                  <div className="mt-4 border-t pt-4">
+                                    <RoomAvailabilityEditor propertyId={property._id} />
+                                  </div>
+                                )}
                               </CardContent>
                               <CardFooter className="gap-2">
                                 <Button asChild variant="outline" className="flex-1">
                                   <Link href={`/listings/${property._id}`}>View</Link>
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  className="flex-1"
+                                  onClick={() =>
+                                    setRoomsPropertyId(roomsPropertyId === property._id ? null : property._id)
+                                  }
+                                >
+                                  Rooms
+                                </Button>
                                 <Button asChild className="flex-1">
                                   <Link href={`/list-property?id=${property._id}`}>Edit</Link>
                                 </Button>
@@ -1049,6 +1253,77 @@ export default function ProfilePage() {
                 </TabsContent>
               )}
 
+              {/* Rent Collection Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="rent">
+                  <OwnerRentLedger />
+                </TabsContent>
+              )}
+
+              {/* Payment Verification Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="payments">
+                  <UpiVerificationQueue />
+                </TabsContent>
+              )}
+
+              {/* Earnings Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="earnings">
+                  <OwnerEarnings />
+                </TabsContent>
+              )}
+
+              {/* Deposits Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="deposits">
+                  <OwnerDeposits isAdmin={user.role === "admin"} />
+                </TabsContent>
+              )}
+
+              {/* Move-ins Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="move-ins">
+                  <OwnerMoveIns />
+                  <SharedTenantDocuments />
+                </TabsContent>
+              )}
+
+              {/* Property Visits Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="visits">
+                  <OwnerVisits />
+                </TabsContent>
+              )}
+
+              {/* Mess Subscribers Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="mess-subscribers">
+                  <OwnerMessSubscribers />
+                </TabsContent>
+              )}
+
+              {/* Mess Deliveries Tab */}
+              {(user.role === "owner" || user.role === "admin") && (
+                <TabsContent value="mess-deliveries">
+                  <OwnerDeliveryOrders />
+                </TabsContent>
+              )}
+
+              {/* Owner Payouts Tab */}
+              {user.role === "admin" && (
+                <TabsContent value="payouts">
+                  <PayoutRunsPanel />
+                </TabsContent>
+              )}
+
+              {/* KYC Reviews Tab */}
+              {user.role === "admin" && (
+                <TabsContent value="kyc">
+                  <DocumentReviewQueue />
+                </TabsContent>
+              )}
+
               {/* Admin Panel Tab */}
               {user.role === "admin" && (
                 <TabsContent value="admin">
@@ -1123,6 +1398,18 @@ export default function ProfilePage() {
                               SMS notifications for bookings
                             </Label>
                           </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="whatsapp-notifications"
+                              checked={settings.whatsappNotifications}
+                              onCheckedChange={(checked) =>
+                                setSettings({ ...settings, whatsappNotifications: checked === true })
+                              }
+                            />
+                            <Label htmlFor="whatsapp-notifications" className="text-sm cursor-pointer">
+                              WhatsApp messages from my messes
+                            </Label>
+                          </div>
                           <div className="flex items-center space-x-2">
                             <Checkbox
                               id="show-profile"
@@ -1137,6 +1424,7 @@ export default function ProfilePage() {
                           </div>
                         </div>
                       </div>
+                      <CalendarFeedSettings isOwner={user.role === "owner" || user.role === "admin"} />
                     </div>
                   </CardContent>
                   <CardFooter>
@@ -1478,6 +1766,23 @@ export default function ProfilePage() {
                             autoComplete="postal-code"
                           />
                         </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="gstin">GSTIN (optional)</Label>
+                          <Input
+                            id="gstin"
+                            type="text"
+                            value={profileData.gstin ?? ""}
+                            onChange={(e) => {
+                              setProfileData((prev) => ({
+                                ...prev,
+                                gstin: e.target.value.toUpperCase(),
+                              }))
+                            }}
+                            placeholder="Shown on your tax invoices"
+                            disabled={!isEditing}
+                            className="bg-white text-gray-900"
+                          />
+                        </div>
                       </div>
                     </div>
 
@@ -0,0 +1,185 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+import { formatSlotDay, formatSlotTime } from "@/components/property-visits"
+import { ArrowLeft, ExternalLink, Loader2, Video } from "lucide-react"
+
+interface RoomVisit {
+  _id: string
+  property?: { _id: string; title?: string; location?: string }
+  visitorName?: string
+  scheduledDate: string
+  scheduledTime: string
+  status: "pending" | "confirmed" | "cancelled" | "completed"
+  visitType: "in_person" | "virtual"
+  provider?: "self_hosted" | "local"
+  opensAt?: string
+  closesAt?: string
+  attendance?: { visitorJoinedAt?: string; ownerJoinedAt?: string }
+}
+
+interface JoinedRoom {
+  provider: "self_hosted" | "local"
+  roomName: string
+  url: string
+}
+
+/**
+ * Waiting room for a virtual visit. Joining records attendance; on a video
+ * server the link opens there, otherwise this page stands in for the room.
+ */
+export default function VisitRoomPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user, loading } = useAuth()
+  const [visit, setVisit] = useState<RoomVisit | null>(null)
+  const [role, setRole] = useState<"visitor" | "owner" | "admin" | null>(null)
+  const [room, setRoom] = useState<JoinedRoom | null>(null)
+  const [error, setError] = useState("")
+  const [isJoining, setIsJoining] = useState(false)
+
+  useEffect(() => {
+    if (loading) return
+    if (!user) {
+      router.push("/login")
+      return
+    }
+    fetchRoom()
+  }, [user, loading])
+
+  const fetchRoom = async () => {
+    try {
+      const res = await fetch(`/api/schedule-visit/${params.id}/room`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load the visit")
+      setVisit(data.visit)
+      setRole(data.role)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load the visit")
+    }
+  }
+
+  const handleJoin = async () => {
+    setIsJoining(true)
+    try {
+      const res = await fetch(`/api/schedule-visit/${params.id}/room`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to join the room")
+      setVisit(data.visit)
+      setRoom(data.room)
+      if (data.room.provider === "self_hosted") window.open(data.room.url, "_blank", "noopener")
+    } catch (error) {
+      toast({
+        title: "Can't join yet",
+        description: error instanceof Error ? error.message : "Failed to join the room",
+        variant: "destructive",
+      })
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <p className="text-gray-600 mb-4">{error}</p>
+        <Button variant="outline" asChild>
+          <Link href="/profile">Back to profile</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!visit) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  const joinedAt = (value?: string) => (value ? `joined at ${formatSlotTime(value)}` : "not joined yet")
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-2xl">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href={role === "visitor" ? "/profile?tab=bookings" : "/profile?tab=properties"}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Link>
+      </Button>
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Video className="h-6 w-6" />
+            Virtual tour · {visit.property?.title || "Property"}
+          </CardTitle>
+          <CardDescription className="text-gray-600">
+            {formatSlotDay(visit.scheduledDate)}, {visit.scheduledTime}
+            {visit.opensAt && visit.closesAt && (
+              <>
+                {" "}
+                · room open {formatSlotTime(visit.opensAt)} – {formatSlotTime(visit.closesAt)}
+              </>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {visit.visitType !== "virtual" ? (
+            <p className="text-gray-600">This is an in-person visit, so there&apos;s no video room.</p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <p>
+                  <span className="font-medium">{visit.visitorName || "Visitor"}</span>:{" "}
+                  {joinedAt(visit.attendance?.visitorJoinedAt)}
+                </p>
+                <p>
+                  <span className="font-medium">Owner</span>: {joinedAt(visit.attendance?.ownerJoinedAt)}
+                </p>
+              </div>
+
+              {room?.provider === "local" ? (
+                <div className="rounded-lg border border-dashed p-6 text-center space-y-2">
+                  <Badge variant="secondary">Room {room.roomName}</Badge>
+                  <p className="text-gray-600">
+                    Video calling isn&apos;t set up on this server yet. You&apos;re checked in. Use the contact
+                    details from the visit to call each other while the room is open.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={fetchRoom}>
+                    Refresh
+                  </Button>
+                </div>
+              ) : room ? (
+                <Button asChild>
+                  <a href={room.url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    Open video room
+                  </a>
+                </Button>
+              ) : (
+                <Button onClick={handleJoin} disabled={isJoining || visit.status !== "confirmed"}>
+                  {isJoining ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Video className="mr-2 h-4 w-4" />}
+                  Join room
+                </Button>
+              )}
+              {visit.status !== "confirmed" && (
+                <p className="text-gray-600">
+                  {visit.status === "pending" ? "The owner hasn't confirmed this tour yet." : `This tour is ${visit.status}.`}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
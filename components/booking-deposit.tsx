@@ -0,0 +1,251 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+export interface DepositDeduction {
+  reason: string
+  amount: number
+}
+
+export interface DepositRow {
+  amount: number
+  status: "due" | "held" | "inspected" | "disputed" | "settled" | "cancelled"
+  heldBy?: "platform" | "owner"
+  collectedAt?: string
+  inspection?: { inspectedAt: string; notes?: string; deductions: DepositDeduction[] }
+  disputeWindowEndsAt?: string
+  dispute?: { raisedAt: string; reason: string; resolvedAt?: string; resolution?: string }
+  deductions: DepositDeduction[]
+  settledAt?: string
+  refund?: { amount: number; status: "none" | "pending" | "processed" | "failed"; reference?: string; error?: string }
+}
+
+const STATUS_LABELS: Record<DepositRow["status"], string> = {
+  due: "due",
+  held: "held",
+  inspected: "inspection filed",
+  disputed: "disputed",
+  settled: "settled",
+  cancelled: "cancelled",
+}
+
+export function DepositStatusBadge({ deposit }: { deposit: DepositRow }) {
+  const variant =
+    deposit.status === "disputed" ? "destructive" : deposit.status === "settled" || deposit.status === "held" ? "default" : "secondary"
+  return <Badge variant={variant}>{STATUS_LABELS[deposit.status]}</Badge>
+}
+
+/**
+ * POST a deposit action for a booking, returning the updated deposit
+ */
+export async function postDepositAction(bookingId: string, body: Record<string, unknown>) {
+  const res = await fetch(`/api/bookings/${bookingId}/deposit`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || "Failed to update deposit")
+  return data
+}
+
+export function DeductionList({ deductions }: { deductions: DepositDeduction[] }) {
+  if (deductions.length === 0) return <p className="text-gray-600">No deductions</p>
+  return (
+    <ul className="text-gray-600 list-disc pl-5">
+      {deductions.map((deduction, index) => (
+        <li key={index}>
+          {deduction.reason}: {formatRupees(deduction.amount)}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Editable list of itemized deductions (move-out inspection, dispute resolution)
+ */
+export function DeductionsEditor({
+  value,
+  onChange,
+}: {
+  value: Array<{ reason: string; amount: string }>
+  onChange: (value: Array<{ reason: string; amount: string }>) => void
+}) {
+  return (
+    <div className="space-y-2">
+      {value.map((row, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            placeholder="What for (e.g. broken chair)"
+            value={row.reason}
+            onChange={(e) => onChange(value.map((item, i) => (i === index ? { ...item, reason: e.target.value } : item)))}
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Amount"
+            className="w-32"
+            value={row.amount}
+            onChange={(e) => onChange(value.map((item, i) => (i === index ? { ...item, amount: e.target.value } : item)))}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onChange(value.filter((_, i) => i !== index))} title="Remove">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...value, { reason: "", amount: "" }])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add deduction
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Tenant's view of a booking's security deposit: pay it, then accept or dispute the move-out inspection
+ */
+export function BookingDeposit({
+  bookingId,
+  deposit: initialDeposit,
+  canPay,
+}: {
+  bookingId: string
+  deposit: DepositRow
+  canPay: boolean
+}) {
+  const [deposit, setDeposit] = useState(initialDeposit)
+  const [isBusy, setIsBusy] = useState(false)
+  const [isDisputing, setIsDisputing] = useState(false)
+  const [disputeReason, setDisputeReason] = useState("")
+  const { toast } = useToast()
+
+  const run = async (body: Record<string, unknown>, success: string) => {
+    setIsBusy(true)
+    try {
+      const data = await postDepositAction(bookingId, body)
+      if (data.deposit) setDeposit(data.deposit)
+      if (data.shortUrl) window.open(data.shortUrl, "_blank")
+      toast({ title: success })
+      setIsDisputing(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update deposit",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCheckPayment = async () => {
+    setIsBusy(true)
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/deposit`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to check payment")
+      setDeposit(data.deposit)
+      if (data.deposit.status === "due") {
+        toast({ title: "No payment yet", description: "It can take a minute for payments to show up." })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check payment",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  if (deposit.status === "cancelled") return null
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 p-3 text-sm space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-gray-900">
+          Security deposit <span className="font-semibold">{formatRupees(deposit.amount)}</span>
+          {deposit.heldBy && <span className="text-gray-600"> · held by {deposit.heldBy === "platform" ? "SecondHome" : "your owner"}</span>}
+        </p>
+        <DepositStatusBadge deposit={deposit} />
+      </div>
+
+      {deposit.status === "due" && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-gray-600">Pay online now, or hand it to your owner at move-in.</p>
+          {canPay && (
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={handleCheckPayment} disabled={isBusy} title="Check payment">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button size="sm" onClick={() => run({ action: "pay" }, "Complete your payment in the new tab")} disabled={isBusy}>
+                {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Pay deposit
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {(deposit.status === "inspected" || deposit.status === "disputed" || deposit.status === "settled") && (
+        <>
+          <DeductionList deductions={deposit.status === "settled" ? deposit.deductions : deposit.inspection?.deductions ?? []} />
+          {deposit.inspection?.notes && <p className="text-gray-600">Inspection notes: {deposit.inspection.notes}</p>}
+        </>
+      )}
+
+      {deposit.status === "inspected" && !isDisputing && (
+        <div className="flex items-center justify-between gap-2">
+          {deposit.disputeWindowEndsAt && (
+            <p className="text-gray-600">Accept or dispute by {new Date(deposit.disputeWindowEndsAt).toLocaleDateString()}</p>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setIsDisputing(true)} disabled={isBusy}>
+              Dispute
+            </Button>
+            <Button size="sm" onClick={() => run({ action: "accept" }, "Deductions accepted")} disabled={isBusy}>
+              Accept
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isDisputing && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="What do you disagree with?"
+            value={disputeReason}
+            onChange={(e) => setDisputeReason(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setIsDisputing(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => run({ action: "dispute", reason: disputeReason }, "Dispute raised")} disabled={isBusy}>
+              Raise dispute
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {deposit.status === "disputed" && <p className="text-gray-600">Under review by SecondHome: {deposit.dispute?.reason}</p>}
+
+      {deposit.status === "settled" && deposit.refund && deposit.refund.amount > 0 && (
+        <p className="text-gray-600">
+          Refund {formatRupees(deposit.refund.amount)} ·{" "}
+          <span className="font-semibold">{deposit.refund.status === "processed" ? "refunded" : "processing"}</span>
+          {deposit.dispute?.resolution && <> · {deposit.dispute.resolution}</>}
+        </p>
+      )}
+    </div>
+  )
+}
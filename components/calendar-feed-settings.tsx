@@ -0,0 +1,99 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/ui/use-toast"
+import { CalendarDays, Copy, Loader2, RefreshCw } from "lucide-react"
+
+/**
+ * The user's private calendar feed link, to subscribe to from Google
+ * Calendar, Apple Calendar or Outlook, with a reset if it leaks
+ */
+export function CalendarFeedSettings({ isOwner }: { isOwner: boolean }) {
+  const [feedUrl, setFeedUrl] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isResetting, setIsResetting] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchFeed()
+  }, [])
+
+  const toUrl = (path: string) => `${window.location.origin}${path}`
+
+  const fetchFeed = async () => {
+    try {
+      const res = await fetch("/api/user/calendar-feed")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load calendar feed")
+      setFeedUrl(toUrl(data.path))
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(feedUrl).then(
+      () => toast({ title: "Link copied", description: "Add it to your calendar app as a subscription (from URL)." }),
+      () => toast({ title: "Error", description: "Couldn't copy the link", variant: "destructive" }),
+    )
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm("Reset your calendar link? Calendars using the old link will stop updating.")) return
+    setIsResetting(true)
+    try {
+      const res = await fetch("/api/user/calendar-feed", { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to reset calendar feed")
+      setFeedUrl(toUrl(data.path))
+      toast({ title: "Calendar link reset" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset calendar feed",
+        variant: "destructive",
+      })
+    } finally {
+      setIsResetting(false)
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <CalendarDays className="h-5 w-5" />
+        Calendar Feed
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        {isOwner
+          ? "Your visits, check-ins and mess renewals, plus every visit and move-in at your properties."
+          : "Your property visits, check-in and check-out days, and mess subscription renewals."}{" "}
+        Changes and cancellations show up in your calendar app automatically. Keep this link private.
+      </p>
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin" />
+      ) : feedUrl ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+          <Button type="button" variant="outline" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button type="button" variant="outline" asChild>
+            <a href={feedUrl.replace(/^https?:/, "webcal:")}>Subscribe</a>
+          </Button>
+          <Button type="button" variant="ghost" onClick={handleReset} disabled={isResetting}>
+            {isResetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Reset
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Couldn&apos;t load your calendar link.</p>
+      )}
+    </div>
+  )
+}
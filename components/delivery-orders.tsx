@@ -0,0 +1,398 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, MapPin, Truck } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+export interface DeliveryOrderRow {
+  _id: string
+  mess?: { _id: string; name?: string }
+  user?: { _id: string; name?: string; email?: string }
+  subscription: string
+  date: string
+  meal: string
+  address: string
+  phone?: string
+  notes?: string
+  distanceKm: number
+  deliveryCharge: number
+  packagingCharge: number
+  total: number
+  status: "placed" | "preparing" | "out_for_delivery" | "delivered" | "cancelled"
+  cancellationReason?: string
+}
+
+const MEAL_ORDER = ["breakfast", "lunch", "snacks", "dinner"]
+
+const STATUS_LABELS: Record<DeliveryOrderRow["status"], string> = {
+  placed: "placed",
+  preparing: "preparing",
+  out_for_delivery: "out for delivery",
+  delivered: "delivered",
+  cancelled: "cancelled",
+}
+
+// What the owner does next with an order in each status
+const NEXT_STEP: Partial<Record<DeliveryOrderRow["status"], { status: DeliveryOrderRow["status"]; label: string }>> = {
+  placed: { status: "preparing", label: "Start preparing" },
+  preparing: { status: "out_for_delivery", label: "Out for delivery" },
+  out_for_delivery: { status: "delivered", label: "Delivered" },
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+const todayKey = () => new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10)
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" })
+
+function DeliveryStatusBadge({ order }: { order: DeliveryOrderRow }) {
+  if (order.status === "delivered") return <Badge>delivered</Badge>
+  if (order.status === "cancelled") return <Badge variant="destructive">cancelled</Badge>
+  return <Badge variant="secondary">{STATUS_LABELS[order.status]}</Badge>
+}
+
+async function postOrderStatus(orderId: string, status: DeliveryOrderRow["status"], reason?: string) {
+  const res = await fetch(`/api/delivery-orders/${orderId}/status`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status, reason }),
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || "Failed to update order")
+  return data.order as DeliveryOrderRow
+}
+
+/**
+ * Subscriber's home delivery for one subscription: order a meal to an address
+ * within the mess's delivery radius and follow its orders
+ */
+export function MealDelivery({
+  subscriptionId,
+  messId,
+  mealTypes,
+}: {
+  subscriptionId: string
+  messId: string
+  mealTypes?: string[]
+}) {
+  const meals = MEAL_ORDER.filter((meal) => (mealTypes || []).some((type) => type.trim().toLowerCase() === meal))
+  const [orders, setOrders] = useState<DeliveryOrderRow[]>([])
+  const [date, setDate] = useState(todayKey)
+  const [meal, setMeal] = useState(meals[0] || "")
+  const [address, setAddress] = useState("")
+  const [coordinates, setCoordinates] = useState<[number, number] | null>(null)
+  const [quote, setQuote] = useState<{ distanceKm: number; deliveryCharge: number; packagingCharge: number; total: number } | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchOrders()
+  }, [subscriptionId])
+
+  const fetchOrders = async () => {
+    try {
+      const res = await fetch("/api/delivery-orders")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load orders")
+      setOrders((data.orders || []).filter((order: DeliveryOrderRow) => order.subscription === subscriptionId))
+    } catch (error) {
+      console.error("Error fetching delivery orders:", error)
+    }
+  }
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({ title: "Error", description: error instanceof Error ? error.message : fallback, variant: "destructive" })
+
+  const checkDelivery = async (point: [number, number]) => {
+    const res = await fetch(`/api/messes/${messId}/delivery-quote?lat=${point[1]}&lng=${point[0]}`)
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || "This mess can't deliver here")
+    setCoordinates(point)
+    setQuote(data)
+  }
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location unavailable", description: "Type your address instead.", variant: "destructive" })
+      return
+    }
+    setIsBusy(true)
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          const point: [number, number] = [position.coords.longitude, position.coords.latitude]
+          await checkDelivery(point)
+          if (!address.trim()) {
+            const res = await fetch(`/api/geocode?lat=${point[1]}&lng=${point[0]}`)
+            const data = await res.json()
+            if (res.ok && data.address) setAddress(data.address)
+          }
+        } catch (error) {
+          setQuote(null)
+          showError(error, "This mess can't deliver here")
+        } finally {
+          setIsBusy(false)
+        }
+      },
+      () => {
+        setIsBusy(false)
+        toast({ title: "Location unavailable", description: "Type your address instead.", variant: "destructive" })
+      },
+    )
+  }
+
+  // A typed address is located through the geocoder before it is checked
+  const handleCheckAddress = async () => {
+    setIsBusy(true)
+    try {
+      const res = await fetch(`/api/geocode?address=${encodeURIComponent(address)}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Address not found")
+      await checkDelivery([Number(data.lng), Number(data.lat)])
+    } catch (error) {
+      setQuote(null)
+      showError(error, "Address not found")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleOrder = async () => {
+    if (!coordinates) return
+    setIsBusy(true)
+    try {
+      const res = await fetch("/api/delivery-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId, date, meal, address, coordinates }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to place order")
+
+      toast({ title: "Delivery ordered", description: `${capitalize(meal)} on ${formatDay(data.order.date)}` })
+      await fetchOrders()
+    } catch (error) {
+      showError(error, "Failed to place order")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCancel = async (order: DeliveryOrderRow) => {
+    setIsBusy(true)
+    try {
+      await postOrderStatus(order._id, "cancelled")
+      await fetchOrders()
+    } catch (error) {
+      showError(error, "Failed to cancel order")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid gap-2 md:grid-cols-[10rem_10rem_1fr]">
+        <Input type="date" value={date} min={todayKey()} onChange={(e) => e.target.value && setDate(e.target.value)} />
+        <Select value={meal} onValueChange={setMeal}>
+          <SelectTrigger>
+            <SelectValue placeholder="Meal" />
+          </SelectTrigger>
+          <SelectContent>
+            {meals.map((option) => (
+              <SelectItem key={option} value={option}>
+                {capitalize(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={address}
+          placeholder="Delivery address"
+          onChange={(e) => {
+            setAddress(e.target.value)
+            setCoordinates(null)
+            setQuote(null)
+          }}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleUseMyLocation} disabled={isBusy}>
+          <MapPin className="w-4 h-4 mr-2" />
+          Use my location
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleCheckAddress} disabled={isBusy || !address.trim()}>
+          Check address
+        </Button>
+        {quote && (
+          <>
+            <span className="text-gray-600">
+              {quote.distanceKm} km · delivery {formatRupees(quote.deliveryCharge)}
+              {quote.packagingCharge > 0 && <> · packaging {formatRupees(quote.packagingCharge)}</>} · pay{" "}
+              {formatRupees(quote.total)} on delivery
+            </span>
+            <Button size="sm" onClick={handleOrder} disabled={isBusy || !meal || !address.trim()}>
+              {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Order delivery
+            </Button>
+          </>
+        )}
+      </div>
+
+      {orders.length > 0 && (
+        <div className="space-y-2">
+          {orders.map((order) => (
+            <div key={order._id} className="flex items-center justify-between gap-3 border-t border-gray-100 pt-2">
+              <p className="text-gray-700">
+                {capitalize(order.meal)} · {formatDay(order.date)} · {formatRupees(order.total)}
+                {order.cancellationReason && <span className="text-gray-500"> · {order.cancellationReason}</span>}
+              </p>
+              <div className="flex items-center gap-2">
+                <DeliveryStatusBadge order={order} />
+                {order.status === "placed" && (
+                  <Button variant="ghost" size="sm" onClick={() => handleCancel(order)} disabled={isBusy}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Mess owner's delivery orders for a day, moved along from placed to delivered
+ */
+export function OwnerDeliveryOrders() {
+  const [orders, setOrders] = useState<DeliveryOrderRow[]>([])
+  const [date, setDate] = useState(todayKey)
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchOrders()
+  }, [date])
+
+  const fetchOrders = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/delivery-orders?scope=owner&date=${date}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load orders")
+      setOrders(data.orders || [])
+    } catch (error) {
+      console.error("Error fetching delivery orders:", error)
+      toast({ title: "Error", description: "Failed to load delivery orders", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleUpdate = async (order: DeliveryOrderRow, status: DeliveryOrderRow["status"]) => {
+    let reason: string | undefined
+    if (status === "cancelled") {
+      const input = window.prompt("Reason for cancelling (shown to the subscriber)", "")
+      if (input === null) return
+      reason = input
+    }
+
+    setBusyId(order._id)
+    try {
+      const updated = await postOrderStatus(order._id, status, reason)
+      setOrders((current) => current.map((row) => (row._id === updated._id ? { ...row, ...updated, mess: row.mess, user: row.user } : row)))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update order",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const mealRank = (meal: string) => MEAL_ORDER.indexOf(meal)
+  const sorted = [...orders].sort((a, b) => mealRank(a.meal) - mealRank(b.meal))
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Deliveries</CardTitle>
+            <CardDescription className="text-gray-600">
+              Subscribers&apos; meals to deliver. Charges are collected on delivery.
+            </CardDescription>
+          </div>
+          <Input type="date" className="w-44" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : sorted.length === 0 ? (
+          <div className="text-center py-8">
+            <Truck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No deliveries for this day</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sorted.map((order) => {
+              const isBusy = busyId === order._id
+              const next = NEXT_STEP[order.status]
+              const canCancel = order.status === "placed" || order.status === "preparing"
+              return (
+                <div
+                  key={order._id}
+                  className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3 justify-between"
+                >
+                  <div className="text-sm">
+                    <p className="font-semibold text-gray-900">
+                      {capitalize(order.meal)} · {order.user?.name || order.user?.email || "Subscriber"} ·{" "}
+                      {order.mess?.name || "Mess"}
+                    </p>
+                    <p className="text-gray-600">
+                      {order.address} · {order.distanceKm} km
+                    </p>
+                    <p className="text-gray-600">
+                      {[order.phone, `collect ${formatRupees(order.total)}`].filter(Boolean).join(" · ")}
+                    </p>
+                    {order.notes && <p className="text-gray-600">Note: {order.notes}</p>}
+                    {order.cancellationReason && <p className="text-gray-600">Reason: {order.cancellationReason}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <DeliveryStatusBadge order={order} />
+                    {canCancel && (
+                      <Button variant="outline" size="sm" onClick={() => handleUpdate(order, "cancelled")} disabled={isBusy}>
+                        Cancel
+                      </Button>
+                    )}
+                    {next && (
+                      <Button size="sm" onClick={() => handleUpdate(order, next.status)} disabled={isBusy}>
+                        {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        {next.label}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
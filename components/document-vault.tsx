@@ -0,0 +1,797 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { FileLock, History, Loader2, Share2, ShieldCheck, Trash2, Upload } from "lucide-react"
+
+type DocumentStatus = "pending" | "verified" | "rejected" | "expired"
+
+interface DocumentTypeDefinition {
+  type: string
+  label: string
+  hasFiles: boolean
+  hasNumber: boolean
+}
+
+interface VaultDocument {
+  _id: string
+  type: string
+  typeLabel: string
+  label?: string
+  numberLast4?: string
+  guardian?: { name: string; relation?: string; phone: string; email?: string }
+  files: Array<{ index: number; name?: string }>
+  expiresAt?: string
+  status: DocumentStatus
+  rejectionReason?: string
+  createdAt: string
+  shares?: Array<{
+    _id: string
+    booking: string
+    property?: { title?: string } | string
+    grantedAt: string
+    revokedAt?: string
+    revokedReason?: "tenant" | "booking_ended" | "document_expired"
+  }>
+}
+
+interface AccessLogEntry {
+  _id: string
+  action: string
+  actorRole: string
+  actor?: { name?: string }
+  ip?: string
+  createdAt: string
+}
+
+// Bookings the tenant can share documents for (from the profile page)
+interface ShareableBooking {
+  _id: string
+  status: string
+  checkOutDate?: string
+  property?: { title?: string }
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+
+function DocumentStatusBadge({ status }: { status: DocumentStatus }) {
+  if (status === "verified") return <Badge>verified</Badge>
+  if (status === "rejected") return <Badge variant="destructive">rejected</Badge>
+  if (status === "expired") return <Badge variant="outline">expired</Badge>
+  return <Badge variant="secondary">pending verification</Badge>
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  self: "You",
+  owner: "Property owner",
+  admin: "SecondHome admin",
+  system: "SecondHome",
+  other: "Someone else",
+}
+
+function describeShareEnd(reason?: string) {
+  if (reason === "booking_ended") return "booking ended"
+  if (reason === "document_expired") return "document expired"
+  return "revoked"
+}
+
+async function uploadVaultFile(file: File) {
+  const formData = new FormData()
+  formData.append("file", file)
+  formData.append("type", "kyc")
+  const res = await fetch("/api/upload", { method: "POST", body: formData })
+  const data = await res.json()
+  if (!res.ok || !data.asset) throw new Error(data.error || `Failed to upload ${file.name}`)
+  return { ...data.asset, name: file.name }
+}
+
+/**
+ * Tenant's document vault: upload ID documents and a guardian contact, share
+ * them with the owner of a booked property, see who opened them
+ */
+export function DocumentVault({ bookings }: { bookings: ShareableBooking[] }) {
+  const [documents, setDocuments] = useState<VaultDocument[]>([])
+  const [types, setTypes] = useState<DocumentTypeDefinition[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAdding, setIsAdding] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [form, setForm] = useState({
+    type: "college_id",
+    label: "",
+    number: "",
+    expiresAt: "",
+    guardianName: "",
+    guardianRelation: "",
+    guardianPhone: "",
+  })
+  const [files, setFiles] = useState<File[]>([])
+  const [actingId, setActingId] = useState<string | null>(null)
+  const [shareTarget, setShareTarget] = useState<Record<string, string>>({})
+  const [logFor, setLogFor] = useState<string | null>(null)
+  const [logEntries, setLogEntries] = useState<AccessLogEntry[]>([])
+  const { toast } = useToast()
+
+  const now = Date.now()
+  const shareableBookings = bookings.filter(
+    (booking) =>
+      (booking.status === "pending" || booking.status === "confirmed") &&
+      (!booking.checkOutDate || new Date(booking.checkOutDate).getTime() > now),
+  )
+  const definition = types.find((entry) => entry.type === form.type)
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [])
+
+  const fetchDocuments = async () => {
+    try {
+      const res = await fetch("/api/documents")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load documents")
+      setDocuments(data.documents || [])
+      setTypes(data.types || [])
+    } catch (error) {
+      console.error("Error fetching documents:", error)
+      toast({ title: "Error", description: "Failed to load your documents", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const replaceDocument = (document: VaultDocument) =>
+    setDocuments((prev) => prev.map((entry) => (entry._id === document._id ? document : entry)))
+
+  const handleAdd = async () => {
+    setIsSaving(true)
+    try {
+      const uploaded = []
+      if (definition?.hasFiles) {
+        for (const file of files) uploaded.push(await uploadVaultFile(file))
+      }
+      const res = await fetch("/api/documents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: form.type,
+          label: form.label,
+          number: form.number,
+          expiresAt: form.expiresAt || undefined,
+          files: uploaded,
+          guardian: definition?.hasFiles
+            ? undefined
+            : { name: form.guardianName, relation: form.guardianRelation, phone: form.guardianPhone },
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to add document")
+      setDocuments((prev) => [data.document, ...prev])
+      setIsAdding(false)
+      setFiles([])
+      setForm({ ...form, label: "", number: "", expiresAt: "", guardianName: "", guardianRelation: "", guardianPhone: "" })
+      toast({ title: "Document added", description: "It will be verified shortly." })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add document",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateSharing = async (documentId: string, action: "share" | "revoke", bookingId: string) => {
+    setActingId(documentId)
+    try {
+      const res = await fetch(`/api/documents/${documentId}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, bookingId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update sharing")
+      replaceDocument(data.document)
+      toast({ title: action === "share" ? "Shared with the owner" : "Access revoked" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update sharing",
+        variant: "destructive",
+      })
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  const handleDelete = async (documentId: string) => {
+    if (!window.confirm("Delete this document? Anyone it is shared with loses access.")) return
+    setActingId(documentId)
+    try {
+      const res = await fetch(`/api/documents/${documentId}`, { method: "DELETE" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to delete document")
+      setDocuments((prev) => prev.filter((entry) => entry._id !== documentId))
+      toast({ title: "Document deleted" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete document",
+        variant: "destructive",
+      })
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  const toggleLog = async (documentId: string) => {
+    if (logFor === documentId) {
+      setLogFor(null)
+      return
+    }
+    try {
+      const res = await fetch(`/api/documents/${documentId}/access-log`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load access log")
+      setLogEntries(data.entries || [])
+      setLogFor(documentId)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load access log",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const propertyTitle = (property?: { title?: string } | string) =>
+    typeof property === "object" && property?.title ? property.title : "a property"
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Documents</CardTitle>
+            <CardDescription className="text-gray-600">
+              Keep your ID and guardian contact here and share them only with owners of properties you&apos;ve
+              booked. Access ends with the booking, and every view is logged.
+            </CardDescription>
+          </div>
+          {!isAdding && (
+            <Button size="sm" onClick={() => setIsAdding(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Add document
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdding && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="vault-type">Type</Label>
+                <select
+                  id="vault-type"
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  {types.map((entry) => (
+                    <option key={entry.type} value={entry.type}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="vault-label">Label (optional)</Label>
+                <Input
+                  id="vault-label"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  placeholder="e.g. Front and back"
+                />
+              </div>
+              {definition?.hasNumber && (
+                <div className="space-y-1">
+                  <Label htmlFor="vault-number">Document number (only the last 4 are kept)</Label>
+                  <Input id="vault-number" value={form.number} onChange={(e) => setForm({ ...form, number: e.target.value })} />
+                </div>
+              )}
+              {definition?.hasFiles && (
+                <div className="space-y-1">
+                  <Label htmlFor="vault-expiry">Valid until (optional)</Label>
+                  <Input
+                    id="vault-expiry"
+                    type="date"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            {definition?.hasFiles ? (
+              <div className="space-y-1">
+                <Label htmlFor="vault-files">Files (up to 4 images or PDFs)</Label>
+                <Input
+                  id="vault-files"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  multiple
+                  onChange={(e) => setFiles(Array.from(e.target.files || []).slice(0, 4))}
+                />
+              </div>
+            ) : (
+              <div className="grid gap-3 md:grid-cols-3">
+                <div className="space-y-1">
+                  <Label htmlFor="guardian-name">Guardian name</Label>
+                  <Input
+                    id="guardian-name"
+                    value={form.guardianName}
+                    onChange={(e) => setForm({ ...form, guardianName: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guardian-relation">Relation</Label>
+                  <Input
+                    id="guardian-relation"
+                    value={form.guardianRelation}
+                    onChange={(e) => setForm({ ...form, guardianRelation: e.target.value })}
+                    placeholder="e.g. Father"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="guardian-phone">Phone</Label>
+                  <Input
+                    id="guardian-phone"
+                    value={form.guardianPhone}
+                    onChange={(e) => setForm({ ...form, guardianPhone: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsAdding(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleAdd} disabled={isSaving || (!!definition?.hasFiles && files.length === 0)}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="text-center py-8">
+            <FileLock className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No documents yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((document) => {
+              const active = (document.shares || []).filter((share) => !share.revokedAt)
+              const ended = (document.shares || []).filter((share) => share.revokedAt)
+              const available = shareableBookings.filter(
+                (booking) => !active.some((share) => share.booking === booking._id),
+              )
+              const canShare = document.status === "pending" || document.status === "verified"
+              return (
+                <div key={document._id} className="border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+                  <div className="flex flex-col md:flex-row md:items-start gap-3 justify-between">
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {document.typeLabel}
+                        {document.label && <span className="font-normal text-gray-600"> · {document.label}</span>}
+                      </p>
+                      {document.numberLast4 && <p className="text-gray-600">Ending {document.numberLast4}</p>}
+                      {document.guardian && (
+                        <p className="text-gray-600">
+                          {document.guardian.name}
+                          {document.guardian.relation && ` (${document.guardian.relation})`} · {document.guardian.phone}
+                        </p>
+                      )}
+                      {document.expiresAt && <p className="text-gray-600">Valid until {formatDate(document.expiresAt)}</p>}
+                      {document.status === "rejected" && document.rejectionReason && (
+                        <p className="text-red-600">{document.rejectionReason}</p>
+                      )}
+                      {document.files.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {document.files.map((file) => (
+                            <a
+                              key={file.index}
+                              href={`/api/documents/${document._id}/files/${file.index}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline text-gray-700"
+                            >
+                              {file.name || `File ${file.index + 1}`}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <DocumentStatusBadge status={document.status} />
+                      <Button variant="ghost" size="sm" onClick={() => toggleLog(document._id)} title="Access log">
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(document._id)}
+                        disabled={actingId === document._id}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {active.length > 0 && (
+                    <div className="space-y-1">
+                      {active.map((share) => (
+                        <div key={share._id} className="flex items-center justify-between gap-2">
+                          <p className="text-gray-600">
+                            Shared with the owner of {propertyTitle(share.property)} since {formatDate(share.grantedAt)}
+                          </p>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={actingId === document._id}
+                            onClick={() => updateSharing(document._id, "revoke", share.booking)}
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {ended.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Previously shared:{" "}
+                      {ended
+                        .map(
+                          (share) =>
+                            `${propertyTitle(share.property)} (${describeShareEnd(share.revokedReason)} ${formatDate(share.revokedAt as string)})`,
+                        )
+                        .join(", ")}
+                    </p>
+                  )}
+
+                  {canShare && available.length > 0 && (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <select
+                        value={shareTarget[document._id] || ""}
+                        onChange={(e) => setShareTarget({ ...shareTarget, [document._id]: e.target.value })}
+                        className="flex h-9 flex-1 rounded-md border border-input bg-background px-3 text-sm"
+                      >
+                        <option value="">Share with the owner of…</option>
+                        {available.map((booking) => (
+                          <option key={booking._id} value={booking._id}>
+                            {booking.property?.title || "Booking"}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!shareTarget[document._id] || actingId === document._id}
+                        onClick={() => updateSharing(document._id, "share", shareTarget[document._id])}
+                      >
+                        <Share2 className="w-4 h-4 mr-2" />
+                        Share
+                      </Button>
+                    </div>
+                  )}
+
+                  {logFor === document._id && (
+                    <div className="rounded-md bg-gray-50 p-3 max-h-60 overflow-y-auto space-y-1">
+                      {logEntries.length === 0 ? (
+                        <p className="text-gray-500">No activity yet</p>
+                      ) : (
+                        logEntries.map((entry) => (
+                          <p key={entry._id} className="text-xs text-gray-700">
+                            {formatDateTime(entry.createdAt)} · {entry.actor?.name || ACTOR_LABELS[entry.actorRole]}{" "}
+                            {entry.action}
+                            {entry.ip && <span className="text-gray-500"> · {entry.ip}</span>}
+                          </p>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface SharedBookingGroup {
+  booking: { _id: string; roomType?: string; checkInDate?: string; property?: { title?: string } }
+  tenant?: { name?: string; email?: string }
+  documents: Array<{ _id: string; typeLabel: string; label?: string; status: DocumentStatus }>
+}
+
+/**
+ * Owner's view of documents tenants have shared with them. Opening one is
+ * logged and visible to the tenant.
+ */
+export function SharedTenantDocuments() {
+  const [groups, setGroups] = useState<SharedBookingGroup[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [opened, setOpened] = useState<Record<string, VaultDocument>>({})
+  const [openingId, setOpeningId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchShared()
+  }, [])
+
+  const fetchShared = async () => {
+    try {
+      const res = await fetch("/api/documents/shared")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load shared documents")
+      setGroups(data.bookings || [])
+    } catch (error) {
+      console.error("Error fetching shared documents:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openDocument = async (documentId: string) => {
+    setOpeningId(documentId)
+    try {
+      const res = await fetch(`/api/documents/${documentId}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to open document")
+      setOpened((prev) => ({ ...prev, [documentId]: data.document }))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open document",
+        variant: "destructive",
+      })
+      fetchShared()
+    } finally {
+      setOpeningId(null)
+    }
+  }
+
+  if (isLoading || groups.length === 0) return null
+
+  return (
+    <Card className="bg-white mt-6">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-gray-900">Tenant Documents</CardTitle>
+        <CardDescription className="text-gray-600">
+          Shared by your tenants for their bookings. Access ends with the booking and each view is shown to the tenant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {groups.map((group) => (
+          <div key={group.booking._id} className="border border-gray-200 rounded-lg p-4 space-y-2 text-sm">
+            <p className="font-semibold text-gray-900">
+              {group.tenant?.name || "Tenant"} · {group.booking.property?.title || "Property"}
+            </p>
+            {group.booking.checkInDate && (
+              <p className="text-gray-600">
+                {group.booking.roomType} · check-in {formatDate(group.booking.checkInDate)}
+              </p>
+            )}
+            {group.documents.map((document) => {
+              const detail = opened[document._id]
+              return (
+                <div key={document._id} className="rounded-md bg-gray-50 p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-gray-900">
+                      {document.typeLabel}
+                      {document.label && <span className="text-gray-600"> · {document.label}</span>}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <DocumentStatusBadge status={document.status} />
+                      {!detail && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDocument(document._id)}
+                          disabled={openingId === document._id}
+                        >
+                          {openingId === document._id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Open
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {detail?.numberLast4 && <p className="text-gray-600">Ending {detail.numberLast4}</p>}
+                  {detail?.guardian && (
+                    <p className="text-gray-600">
+                      {detail.guardian.name}
+                      {detail.guardian.relation && ` (${detail.guardian.relation})`} · {detail.guardian.phone}
+                      {detail.guardian.email && ` · ${detail.guardian.email}`}
+                    </p>
+                  )}
+                  {detail && detail.files.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {detail.files.map((file) => (
+                        <a
+                          key={file.index}
+                          href={`/api/documents/${document._id}/files/${file.index}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline text-gray-700"
+                        >
+                          {file.name || `File ${file.index + 1}`}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface PendingDocument {
+  _id: string
+  typeLabel: string
+  label?: string
+  numberLast4?: string
+  expiresAt?: string
+  files: Array<{ name?: string }>
+  user?: { name?: string; email?: string }
+  createdAt: string
+}
+
+/**
+ * Admin queue of documents waiting for verification
+ */
+export function DocumentReviewQueue() {
+  const [documents, setDocuments] = useState<PendingDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [actingId, setActingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchPending()
+  }, [])
+
+  const fetchPending = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch("/api/documents/pending")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load documents")
+      setDocuments(data.documents || [])
+    } catch (error) {
+      console.error("Error fetching pending documents:", error)
+      toast({ title: "Error", description: "Failed to load documents to review", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const review = async (documentId: string, decision: "verified" | "rejected") => {
+    let reason = ""
+    if (decision === "rejected") {
+      reason = window.prompt("Why is this document rejected?", "") || ""
+      if (!reason.trim()) return
+    }
+    setActingId(documentId)
+    try {
+      const res = await fetch(`/api/documents/${documentId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, reason }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to review document")
+      setDocuments((prev) => prev.filter((entry) => entry._id !== documentId))
+      toast({ title: decision === "verified" ? "Document verified" : "Document rejected" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review document",
+        variant: "destructive",
+      })
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900">KYC Reviews</CardTitle>
+        <CardDescription className="text-gray-600">
+          Tenant documents waiting for verification. Opening a file is logged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="text-center py-8">
+            <ShieldCheck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">Nothing to review</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((document) => (
+              <div
+                key={document._id}
+                className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3 justify-between text-sm"
+              >
+                <div>
+                  <p className="font-semibold text-gray-900">
+                    {document.typeLabel}
+                    {document.label && <span className="font-normal text-gray-600"> · {document.label}</span>}
+                  </p>
+                  <p className="text-gray-600">
+                    {document.user?.name || "User"} {document.user?.email && `(${document.user.email})`} · uploaded{" "}
+                    {formatDate(document.createdAt)}
+                  </p>
+                  {document.numberLast4 && <p className="text-gray-600">Ending {document.numberLast4}</p>}
+                  {document.expiresAt && <p className="text-gray-600">Valid until {formatDate(document.expiresAt)}</p>}
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {document.files.map((file, index) => (
+                      <a
+                        key={index}
+                        href={`/api/documents/${document._id}/files/${index}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline text-gray-700"
+                      >
+                        {file.name || `File ${index + 1}`}
+                      </a>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => review(document._id, "verified")} disabled={actingId === document._id}>
+                    Verify
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => review(document._id, "rejected")}
+                    disabled={actingId === document._id}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,500 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/components/ui/use-toast"
+import { PaymentModal } from "@/components/payment-modal"
+import { Check, Clock, Loader2, Plus, Trash2, Users } from "lucide-react"
+
+interface GroupMember {
+  _id: string
+  name?: string
+  email?: string
+  roomType: string
+  price: number
+  isOrganiser: boolean
+  isMe: boolean
+  status: "invited" | "joined" | "declined"
+  paid: boolean
+}
+
+interface GroupView {
+  _id: string
+  groupNumber: string
+  status: "forming" | "confirmed" | "cancelled"
+  deadline: string
+  checkInDate: string
+  cancelReason?: "expired" | "organiser" | "member_cancelled"
+  property: { _id: string; title?: string; location?: string; owner?: string } | null
+  isOrganiser: boolean
+  members: GroupMember[]
+  me: {
+    memberId: string
+    status: GroupMember["status"]
+    booking: { _id: string; status: string; paymentStatus: string; totalAmount: number } | null
+  } | null
+}
+
+const CANCEL_REASONS: Record<NonNullable<GroupView["cancelReason"]>, string> = {
+  expired: "Not everyone paid before the deadline.",
+  organiser: "The organiser cancelled it.",
+  member_cancelled: "A member cancelled their booking.",
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+
+/**
+ * Listing page dialog: reserve beds for a group of friends and invite them.
+ * `withConnection` (an accepted roommate connection) starts the invite list
+ * with that roommate.
+ */
+export function GroupBookingDialog({
+  open,
+  onOpenChange,
+  propertyId,
+  roomTypes,
+  defaultCheckIn,
+  withConnection,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  propertyId: string
+  roomTypes: Array<{ type: string; price: number; available: number }>
+  defaultCheckIn: string
+  withConnection?: string | null
+}) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const firstType = roomTypes.find((room) => room.available > 0)?.type || roomTypes[0]?.type || ""
+  const [checkIn, setCheckIn] = useState(defaultCheckIn)
+  const [roomType, setRoomType] = useState(firstType)
+  const [invites, setInvites] = useState([{ email: "", roomType: firstType }])
+  const [roommates, setRoommates] = useState<Array<{ name?: string; email: string }>>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    // Accepted roommate connections can be added in one click
+    fetch("/api/roommates/connections")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const accepted: Array<{ _id: string; student: { name?: string; email: string } }> = (
+          data?.connections || []
+        ).filter(
+          (connection: { status: string; student: { email?: string } }) =>
+            connection.status === "accepted" && connection.student.email,
+        )
+        setRoommates(accepted.map((connection) => connection.student))
+
+        const roommate = accepted.find((connection) => connection._id === withConnection)?.student
+        if (roommate) {
+          setInvites((current) =>
+            current.some((invite) => invite.email === roommate.email)
+              ? current
+              : [{ ...current[0], email: roommate.email }, ...current.slice(1)],
+          )
+        }
+      })
+      .catch((error) => console.error("Error fetching roommate connections:", error))
+  }, [open, withConnection])
+
+  const addInvite = (email = "") => {
+    if (invites.length >= 7) return
+    const blank = invites.findIndex((invite) => !invite.email)
+    if (email && blank >= 0) {
+      setInvites(invites.map((invite, index) => (index === blank ? { ...invite, email } : invite)))
+    } else {
+      setInvites([...invites, { email, roomType }])
+    }
+  }
+
+  const total = [roomType, ...invites.map((invite) => invite.roomType)].reduce(
+    (sum, type) => sum + (roomTypes.find((room) => room.type === type)?.price || 0),
+    0,
+  )
+
+  const handleSubmit = async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch("/api/booking-groups", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          propertyId,
+          checkIn: new Date(checkIn).toISOString(),
+          roomType,
+          invites: invites.filter((invite) => invite.email.trim()),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to start the group booking")
+      toast({
+        title: "Beds reserved",
+        description: `Your friends have been invited. Everyone needs to pay by ${formatDateTime(data.group.deadline)}.`,
+      })
+      onOpenChange(false)
+      router.push(`/profile?tab=group-bookings&group=${data.group._id}`)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the group booking",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Book with friends</DialogTitle>
+          <DialogDescription>
+            We hold a bed for each of you. Everyone pays their own share, and the booking only goes through once all
+            shares are paid; otherwise every payment is refunded.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="group-check-in">Check-in</Label>
+              <Input
+                id="group-check-in"
+                type="datetime-local"
+                value={checkIn}
+                onChange={(e) => setCheckIn(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="group-room-type">Your bed</Label>
+              <select
+                id="group-room-type"
+                value={roomType}
+                onChange={(e) => setRoomType(e.target.value)}
+                className={selectClassName}
+              >
+                {roomTypes.map((room) => (
+                  <option key={room.type} value={room.type}>
+                    {room.type} · ₹{room.price}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Friends</Label>
+            {invites.map((invite, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) =>
+                    setInvites(invites.map((entry, i) => (i === index ? { ...entry, email: e.target.value } : entry)))
+                  }
+                  placeholder="friend@example.com"
+                />
+                <select
+                  value={invite.roomType}
+                  onChange={(e) =>
+                    setInvites(invites.map((entry, i) => (i === index ? { ...entry, roomType: e.target.value } : entry)))
+                  }
+                  className={`${selectClassName} max-w-[160px]`}
+                  aria-label="Room type"
+                >
+                  {roomTypes.map((room) => (
+                    <option key={room.type} value={room.type}>
+                      {room.type}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setInvites(invites.filter((_, i) => i !== index))}
+                  disabled={invites.length === 1}
+                  aria-label="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => addInvite()} disabled={invites.length >= 7}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add a friend
+            </Button>
+            {roommates.filter((roommate) => !invites.some((invite) => invite.email === roommate.email)).length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-500">Your roommates:</span>
+                {roommates
+                  .filter((roommate) => !invites.some((invite) => invite.email === roommate.email))
+                  .map((roommate) => (
+                    <Button key={roommate.email} variant="secondary" size="sm" onClick={() => addInvite(roommate.email)}>
+                      <Plus className="w-3 h-3 mr-1" />
+                      {roommate.name || roommate.email}
+                    </Button>
+                  ))}
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-gray-600">
+            {invites.length + 1} beds · ₹{total.toLocaleString("en-IN")}/month in total, plus each person&apos;s
+            booking fee
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || !roomType || !invites.some((invite) => invite.email.trim())}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Reserve beds
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function GroupCard({ group, token, onChange }: { group: GroupView; token?: string; onChange: () => void }) {
+  const { toast } = useToast()
+  const [busy, setBusy] = useState<string | null>(null)
+  const [inviteEmails, setInviteEmails] = useState<Record<string, string>>({})
+  const [isPaying, setIsPaying] = useState(false)
+
+  const act = async (action: string, extra: Record<string, unknown> = {}) => {
+    if (action === "cancel" && !confirm("Cancel the group booking? Every bed is released and paid shares are refunded.")) {
+      return
+    }
+    setBusy(action + (extra.memberId || ""))
+    try {
+      const res = await fetch(`/api/booking-groups/${group._id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, token, ...extra }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update the group booking")
+      if (action === "join") toast({ title: "You're in", description: "Pay your share to lock in your bed." })
+      if (action === "invite") toast({ title: "Invite sent" })
+      onChange()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the group booking",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const paidCount = group.members.filter((member) => member.paid).length
+  const myBooking = group.me?.booking
+  const canPay =
+    group.status === "forming" && myBooking?.status === "pending" && myBooking.paymentStatus === "pending"
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-semibold text-gray-900">{group.property?.title || "Property"}</p>
+          <p className="text-sm text-gray-500">
+            {group.groupNumber} · check-in {new Date(group.checkInDate).toLocaleDateString()}
+          </p>
+        </div>
+        {group.status === "confirmed" ? (
+          <Badge>confirmed</Badge>
+        ) : group.status === "cancelled" ? (
+          <Badge variant="destructive">cancelled</Badge>
+        ) : (
+          <Badge variant="secondary">
+            {paidCount}/{group.members.length} paid
+          </Badge>
+        )}
+      </div>
+
+      {group.status === "forming" && (
+        <p className="text-sm text-orange-600 flex items-center gap-1">
+          <Clock className="w-4 h-4" />
+          Everyone must pay by {formatDateTime(group.deadline)}
+        </p>
+      )}
+      {group.status === "cancelled" && group.cancelReason && (
+        <p className="text-sm text-gray-600">{CANCEL_REASONS[group.cancelReason]} Any payments have been refunded.</p>
+      )}
+
+      <div className="space-y-2">
+        {group.members.map((member) => (
+          <div key={member._id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div>
+              <span className="font-medium">
+                {member.isMe ? "You" : member.name || member.email || "Invited friend"}
+              </span>
+              {member.isOrganiser && <span className="text-gray-500"> (organiser)</span>}
+              <span className="text-gray-500">
+                {" "}
+                · {member.roomType} · ₹{member.price.toLocaleString("en-IN")}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {member.paid ? (
+                <Badge variant="outline" className="text-green-700 border-green-200">
+                  <Check className="w-3 h-3 mr-1" />
+                  paid
+                </Badge>
+              ) : (
+                <Badge variant="outline">{member.status === "joined" ? "not paid" : member.status}</Badge>
+              )}
+              {group.isOrganiser && group.status === "forming" && member.status !== "joined" && (
+                <>
+                  <Input
+                    type="email"
+                    className="h-8 w-48"
+                    value={inviteEmails[member._id] ?? member.email ?? ""}
+                    onChange={(e) => setInviteEmails({ ...inviteEmails, [member._id]: e.target.value })}
+                    aria-label="Invite email"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      act("invite", { memberId: member._id, email: inviteEmails[member._id] ?? member.email })
+                    }
+                    disabled={busy === "invite" + member._id}
+                  >
+                    {member.status === "declined" || (inviteEmails[member._id] ?? member.email) !== member.email
+                      ? "Invite"
+                      : "Resend"}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {group.status === "forming" && group.me?.status === "invited" && (
+          <>
+            <Button size="sm" onClick={() => act("join")} disabled={!!busy}>
+              {busy === "join" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Join the group
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => act("decline")} disabled={!!busy}>
+              Decline
+            </Button>
+          </>
+        )}
+        {canPay && myBooking && (
+          <Button size="sm" onClick={() => setIsPaying(true)}>
+            Pay my share · ₹{myBooking.totalAmount.toLocaleString("en-IN")}
+          </Button>
+        )}
+        {group.isOrganiser && group.status === "forming" && (
+          <Button size="sm" variant="outline" onClick={() => act("cancel")} disabled={!!busy}>
+            Cancel group
+          </Button>
+        )}
+      </div>
+
+      {canPay && myBooking && (
+        <PaymentModal
+          isOpen={isPaying}
+          onClose={() => {
+            setIsPaying(false)
+            onChange()
+          }}
+          bookingId={myBooking._id}
+          amount={myBooking.totalAmount}
+          propertyName={group.property?.title || "Property"}
+          propertyOwnerId={group.property?.owner}
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Profile tab: the user's group bookings and invites, including one opened
+ * from an emailed invite link (`?group=<id>&invite=<token>`)
+ */
+export function GroupBookings() {
+  const searchParams = useSearchParams()
+  const linkedGroupId = searchParams.get("group")
+  const token = searchParams.get("invite") || undefined
+  const [groups, setGroups] = useState<GroupView[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    fetchGroups()
+  }, [linkedGroupId, token])
+
+  const fetchGroups = async () => {
+    try {
+      const res = await fetch("/api/booking-groups")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load group bookings")
+      let list: GroupView[] = data.groups || []
+
+      // An invite sent to a different email than the account's only shows up through its link
+      if (linkedGroupId && token && !list.some((group) => group._id === linkedGroupId)) {
+        const linked = await fetch(`/api/booking-groups/${linkedGroupId}?invite=${token}`)
+        if (linked.ok) list = [(await linked.json()).group, ...list]
+      }
+      setGroups(list)
+    } catch (error) {
+      console.error("Error fetching group bookings:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900">Group bookings</CardTitle>
+        <CardDescription className="text-gray-600">
+          Beds booked together with friends. Use &ldquo;Book with friends&rdquo; on a listing to start one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No group bookings or invites yet.</p>
+          </div>
+        ) : (
+          groups.map((group) => (
+            <GroupCard
+              key={group._id}
+              group={group}
+              token={group._id === linkedGroupId ? token : undefined}
+              onChange={fetchGroups}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
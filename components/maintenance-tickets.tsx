@@ -0,0 +1,602 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { AlertTriangle, Loader2, Star, Wrench } from "lucide-react"
+
+type TicketStatus = "open" | "acknowledged" | "in_progress" | "resolved" | "closed" | "cancelled"
+type TicketPriority = "low" | "medium" | "high" | "urgent"
+
+interface TicketRow {
+  _id: string
+  ticketNumber: string
+  category: string
+  title: string
+  description: string
+  photos: Array<{ url: string }>
+  priority: TicketPriority
+  status: TicketStatus
+  assignee?: { name: string; phone?: string }
+  sla: {
+    responseDueAt: string
+    resolutionDueAt: string
+    respondedAt?: string
+    responseBreachedAt?: string
+    resolutionBreachedAt?: string
+  }
+  escalatedAt?: string
+  resolutionNote?: string
+  satisfaction?: { rating: number; comment?: string }
+  autoClosed?: boolean
+  events: Array<{ action: string; actorRole: string; note?: string; at: string }>
+  property?: { title?: string }
+  tenant?: { name?: string; phone?: string }
+  booking?: { roomType?: string }
+  createdAt: string
+}
+
+// Bookings a resident can raise tickets on (from the profile page)
+interface ResidentBooking {
+  _id: string
+  status: string
+  roomType?: string
+  property?: { title?: string }
+}
+
+const STATUS_LABELS: Record<TicketStatus, string> = {
+  open: "open",
+  acknowledged: "acknowledged",
+  in_progress: "in progress",
+  resolved: "resolved",
+  closed: "closed",
+  cancelled: "withdrawn",
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  tenant: "Resident",
+  owner: "Owner",
+  admin: "SecondHome",
+  system: "SecondHome",
+}
+
+const PRIORITIES: TicketPriority[] = ["low", "medium", "high", "urgent"]
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+
+function TicketStatusBadge({ status }: { status: TicketStatus }) {
+  if (status === "closed") return <Badge variant="outline">{STATUS_LABELS[status]}</Badge>
+  if (status === "resolved") return <Badge>{STATUS_LABELS[status]}</Badge>
+  if (status === "cancelled") return <Badge variant="outline">{STATUS_LABELS[status]}</Badge>
+  return <Badge variant="secondary">{STATUS_LABELS[status]}</Badge>
+}
+
+/**
+ * One ticket with its history and the actions open to the viewer
+ */
+function TicketCard({
+  ticket,
+  role,
+  onChange,
+}: {
+  ticket: TicketRow
+  role: "tenant" | "owner"
+  onChange: (ticket: TicketRow) => void
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [assigneeName, setAssigneeName] = useState(ticket.assignee?.name || "")
+  const [assigneePhone, setAssigneePhone] = useState(ticket.assignee?.phone || "")
+  const [rating, setRating] = useState(0)
+  const { toast } = useToast()
+
+  const isActive = ticket.status === "open" || ticket.status === "acknowledged" || ticket.status === "in_progress"
+
+  const runAction = async (action: string, body: Record<string, unknown> = {}, done = "Ticket updated") => {
+    setBusyAction(action)
+    try {
+      const res = await fetch(`/api/maintenance-tickets/${ticket._id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...body }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update ticket")
+      onChange({ ...data.ticket, booking: ticket.booking })
+      setNote("")
+      toast({ title: done })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update ticket",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const busy = busyAction !== null
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+      <div className="flex flex-col md:flex-row md:items-start gap-3 justify-between">
+        <div>
+          <p className="font-semibold text-gray-900">
+            {ticket.title}
+            <span className="font-normal text-gray-500"> · {ticket.ticketNumber}</span>
+          </p>
+          <p className="text-gray-600">
+            {ticket.property?.title || "Property"}
+            {role === "owner" && ticket.tenant?.name && ` · ${ticket.tenant.name}`} · {ticket.priority} priority
+          </p>
+          {isActive && (
+            <p className="text-gray-600">
+              {ticket.sla.respondedAt
+                ? `Fix due by ${formatDateTime(ticket.sla.resolutionDueAt)}`
+                : `Response due by ${formatDateTime(ticket.sla.responseDueAt)}`}
+            </p>
+          )}
+          {ticket.assignee && (
+            <p className="text-gray-600">
+              Handled by {ticket.assignee.name}
+              {ticket.assignee.phone && ` (${ticket.assignee.phone})`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {ticket.escalatedAt && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              SLA missed
+            </Badge>
+          )}
+          <TicketStatusBadge status={ticket.status} />
+          <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+            {isOpen ? "Hide" : "Details"}
+          </Button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-3 border-t pt-3">
+          <p className="whitespace-pre-line text-gray-700">{ticket.description}</p>
+          {ticket.photos.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {ticket.photos.map((photo) => (
+                <a
+                  key={photo.url}
+                  href={photo.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="relative block h-20 w-20 overflow-hidden rounded"
+                >
+                  <Image src={photo.url} alt="Ticket photo" fill sizes="80px" className="object-cover" />
+                </a>
+              ))}
+            </div>
+          )}
+          {ticket.resolutionNote && (
+            <p className="text-gray-700">
+              <span className="font-medium">Fix:</span> {ticket.resolutionNote}
+            </p>
+          )}
+          {ticket.satisfaction && (
+            <p className="text-gray-700 flex items-center gap-1">
+              <Star className="w-4 h-4 fill-amber-400 text-amber-400" />
+              {ticket.satisfaction.rating}/5{ticket.satisfaction.comment && ` · ${ticket.satisfaction.comment}`}
+            </p>
+          )}
+
+          <div className="rounded-md bg-gray-50 p-3 space-y-1 max-h-60 overflow-y-auto">
+            {ticket.events.map((entry, index) => (
+              <p key={index} className="text-xs text-gray-700">
+                {formatDateTime(entry.at)} · {ROLE_LABELS[entry.actorRole] || entry.actorRole} {entry.action}
+                {entry.note && <span className="text-gray-600">: {entry.note}</span>}
+              </p>
+            ))}
+          </div>
+
+          {role === "owner" && isActive && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {ticket.status === "open" && (
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => runAction("acknowledge", {}, "Acknowledged")}>
+                    Acknowledge
+                  </Button>
+                )}
+                {ticket.status !== "in_progress" && (
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => runAction("start", {}, "Marked in progress")}>
+                    Start work
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="Caretaker or technician"
+                  value={assigneeName}
+                  onChange={(e) => setAssigneeName(e.target.value)}
+                />
+                <Input placeholder="Phone (optional)" value={assigneePhone} onChange={(e) => setAssigneePhone(e.target.value)} />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy || assigneeName.trim().length < 2}
+                  onClick={() => runAction("assign", { name: assigneeName, phone: assigneePhone }, "Assigned")}
+                >
+                  Assign
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {role === "tenant" && ticket.status === "resolved" && (
+            <div className="space-y-2">
+              <p className="text-gray-700">Is it fixed? Rate the fix to close the ticket, or reopen it.</p>
+              <div className="flex items-center gap-1">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button key={value} type="button" onClick={() => setRating(value)} aria-label={`${value} stars`}>
+                    <Star className={`w-5 h-5 ${value <= rating ? "fill-amber-400 text-amber-400" : "text-gray-300"}`} />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(isActive || ticket.status === "resolved") && (
+            <div className="space-y-2">
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                placeholder={
+                  role === "owner" && isActive
+                    ? "What was done, or a comment for the resident"
+                    : ticket.status === "resolved"
+                      ? "Comment, or what is still wrong"
+                      : "Add a comment"
+                }
+              />
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button size="sm" variant="outline" disabled={busy || !note.trim()} onClick={() => runAction("comment", { note }, "Comment added")}>
+                  Comment
+                </Button>
+                {role === "owner" && isActive && (
+                  <Button size="sm" disabled={busy || !note.trim()} onClick={() => runAction("resolve", { note }, "Marked resolved")}>
+                    {busyAction === "resolve" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Mark resolved
+                  </Button>
+                )}
+                {role === "tenant" && (ticket.status === "open" || ticket.status === "acknowledged") && (
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => runAction("cancel", { note }, "Ticket withdrawn")}>
+                    Withdraw
+                  </Button>
+                )}
+                {role === "tenant" && ticket.status === "resolved" && (
+                  <>
+                    <Button size="sm" variant="outline" disabled={busy || !note.trim()} onClick={() => runAction("reopen", { note }, "Ticket reopened")}>
+                      Reopen
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={busy || rating === 0}
+                      onClick={() => runAction("close", { rating, comment: note }, "Thanks for the feedback")}
+                    >
+                      Close ticket
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Resident's maintenance tickets and the form to report a new issue
+ */
+export function ResidentTickets({ bookings, hideWhenEmpty }: { bookings: ResidentBooking[]; hideWhenEmpty?: boolean }) {
+  const [tickets, setTickets] = useState<TicketRow[]>([])
+  const [categories, setCategories] = useState<Array<{ category: string; label: string }>>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReporting, setIsReporting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [form, setForm] = useState({ bookingId: "", category: "", priority: "medium", title: "", description: "" })
+  const [photos, setPhotos] = useState<File[]>([])
+  const { toast } = useToast()
+
+  const confirmed = bookings.filter((booking) => booking.status === "confirmed")
+
+  useEffect(() => {
+    fetchTickets()
+  }, [])
+
+  const fetchTickets = async () => {
+    try {
+      const res = await fetch("/api/maintenance-tickets?scope=mine")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load tickets")
+      setTickets(data.tickets || [])
+      setCategories(data.categories || [])
+    } catch (error) {
+      console.error("Error fetching maintenance tickets:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleReport = async () => {
+    setIsSaving(true)
+    try {
+      const photoUrls: string[] = []
+      for (const photo of photos) {
+        const formData = new FormData()
+        formData.append("file", photo)
+        formData.append("type", "maintenance")
+        const res = await fetch("/api/upload", { method: "POST", body: formData })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || `Failed to upload ${photo.name}`)
+        photoUrls.push(data.url)
+      }
+
+      const res = await fetch("/api/maintenance-tickets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, bookingId: form.bookingId || confirmed[0]?._id, photos: photoUrls }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to report the issue")
+      await fetchTickets()
+      setIsReporting(false)
+      setPhotos([])
+      setForm({ bookingId: "", category: "", priority: "medium", title: "", description: "" })
+      toast({ title: "Issue reported", description: `Ticket ${data.ticket.ticketNumber} sent to the owner.` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to report the issue",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (hideWhenEmpty && !isLoading && tickets.length === 0 && confirmed.length === 0) return null
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Maintenance</CardTitle>
+            <CardDescription className="text-gray-600">
+              Report a broken geyser, a WiFi outage or anything else at your PG, and track it until it&apos;s fixed.
+            </CardDescription>
+          </div>
+          {confirmed.length > 0 && !isReporting && (
+            <Button size="sm" onClick={() => setIsReporting(true)}>
+              <Wrench className="w-4 h-4 mr-2" />
+              Report an issue
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isReporting && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-3">
+              {confirmed.length > 1 && (
+                <div className="space-y-1">
+                  <Label htmlFor="ticket-booking">Booking</Label>
+                  <select
+                    id="ticket-booking"
+                    value={form.bookingId}
+                    onChange={(e) => setForm({ ...form, bookingId: e.target.value })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    {confirmed.map((booking) => (
+                      <option key={booking._id} value={booking._id}>
+                        {booking.property?.title || "Booking"} {booking.roomType && `(${booking.roomType})`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="ticket-category">Category</Label>
+                <select
+                  id="ticket-category"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">Choose…</option>
+                  {categories.map((entry) => (
+                    <option key={entry.category} value={entry.category}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ticket-priority">Priority</Label>
+                <select
+                  id="ticket-priority"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  {PRIORITIES.map((priority) => (
+                    <option key={priority} value={priority}>
+                      {priority}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ticket-title">What&apos;s wrong?</Label>
+              <Input
+                id="ticket-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="e.g. Geyser not heating in room 204"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ticket-description">Details</Label>
+              <Textarea
+                id="ticket-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ticket-photos">Photos (optional, up to 6)</Label>
+              <Input
+                id="ticket-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 6))}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsReporting(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleReport} disabled={isSaving || !form.category || !form.title.trim()}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Submit
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : tickets.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">
+            {confirmed.length > 0 ? "No issues reported" : "Once a booking is confirmed you can report issues here"}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {tickets.map((ticket) => (
+              <TicketCard
+                key={ticket._id}
+                ticket={ticket}
+                role="tenant"
+                onChange={(updated) => setTickets((prev) => prev.map((entry) => (entry._id === updated._id ? updated : entry)))}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const OWNER_FILTERS = [
+  { value: "active", label: "Active" },
+  { value: "resolved", label: "Resolved" },
+  { value: "closed", label: "Closed" },
+  { value: "escalated", label: "Escalated" },
+]
+
+/**
+ * Owner (and admin) queue of tickets at their properties; escalations are SLA breaches
+ */
+export function OwnerTickets({ isAdmin }: { isAdmin?: boolean }) {
+  const [tickets, setTickets] = useState<TicketRow[]>([])
+  const [filter, setFilter] = useState(isAdmin ? "escalated" : "active")
+  const [isLoading, setIsLoading] = useState(true)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchTickets()
+  }, [filter])
+
+  const fetchTickets = async () => {
+    setIsLoading(true)
+    try {
+      const query =
+        filter === "escalated" ? "escalated=true" : filter === "active" ? "" : `status=${filter}`
+      const res = await fetch(`/api/maintenance-tickets?scope=properties&${query}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load tickets")
+      const rows: TicketRow[] = data.tickets || []
+      setTickets(
+        filter === "active"
+          ? rows.filter((ticket) => ["open", "acknowledged", "in_progress"].includes(ticket.status))
+          : rows,
+      )
+    } catch (error) {
+      console.error("Error fetching property tickets:", error)
+      toast({ title: "Error", description: "Failed to load maintenance tickets", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900">Maintenance Tickets</CardTitle>
+        <CardDescription className="text-gray-600">
+          {isAdmin
+            ? "Tickets across all properties. Escalated tickets missed their response or fix deadline."
+            : "Issues reported by your residents. Respond and fix within the deadline to keep your maintenance score up."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={filter} onValueChange={setFilter} className="mb-4">
+          <TabsList>
+            {OWNER_FILTERS.map((entry) => (
+              <TabsTrigger key={entry.value} value={entry.value}>
+                {entry.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="text-center py-8">
+            <Wrench className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No tickets here</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {tickets.map((ticket) => (
+              <TicketCard
+                key={ticket._id}
+                ticket={ticket}
+                role="owner"
+                onChange={(updated) => setTickets((prev) => prev.map((entry) => (entry._id === updated._id ? updated : entry)))}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2 } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+interface AttendanceMeal {
+  meal: string
+  status: "skipped" | "attending"
+  compensation: number
+  cutoff: string
+  canChange: boolean
+}
+
+interface AttendanceDay {
+  date: string
+  meals: AttendanceMeal[]
+}
+
+interface AttendanceResponse {
+  meals: string[]
+  days: AttendanceDay[]
+  policy: { compensation: "none" | "credit" | "refund"; compensationPercent: number; cutoffHours: number; maxCompensatedSkips: number }
+  availableCredit: number
+  mealRefund?: { amount: number; status: string }
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+const todayKey = () => new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10)
+
+/**
+ * Subscriber's coming week of meals, with skip/undo before each meal's cutoff
+ */
+export function MealAttendance({ subscriptionId }: { subscriptionId: string }) {
+  const [data, setData] = useState<AttendanceResponse | null>(null)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchAttendance()
+  }, [subscriptionId])
+
+  const fetchAttendance = async () => {
+    try {
+      const res = await fetch(`/api/mess-subscriptions/${subscriptionId}/attendance`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || "Failed to load meals")
+      setData(body)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load meals",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleToggle = async (date: string, meal: AttendanceMeal) => {
+    setBusyKey(`${date}:${meal.meal}`)
+    try {
+      const res = await fetch(`/api/mess-subscriptions/${subscriptionId}/attendance`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, meal: meal.meal, skip: meal.status !== "skipped" }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || "Failed to update meal")
+      await fetchAttendance()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update meal",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    )
+  }
+
+  const { policy } = data
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-gray-600">
+        Skip a meal up to {policy.cutoffHours}h before it starts.{" "}
+        {policy.compensation === "credit" && <>Skipped meals earn credit towards your next renewal.</>}
+        {policy.compensation === "refund" && <>Skipped meals are refunded when this month ends.</>}
+        {policy.compensation === "none" && <>This mess doesn&apos;t compensate skipped meals.</>}
+        {data.availableCredit > 0 && (
+          <span className="font-semibold text-gray-900"> Credit available: {formatRupees(data.availableCredit)}</span>
+        )}
+      </p>
+      {data.mealRefund && (
+        <p className="text-gray-600">
+          Skipped meals refund {formatRupees(data.mealRefund.amount)} · {data.mealRefund.status}
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-gray-600">
+              <th className="py-1 pr-3 font-medium">Day</th>
+              {data.meals.map((meal) => (
+                <th key={meal} className="py-1 pr-3 font-medium">
+                  {capitalize(meal)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.days.map((day) => (
+              <tr key={day.date} className="border-t border-gray-100">
+                <td className="py-1 pr-3 text-gray-900">
+                  {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}
+                </td>
+                {day.meals.map((meal) => (
+                  <td key={meal.meal} className="py-1 pr-3">
+                    <Button
+                      size="sm"
+                      variant={meal.status === "skipped" ? "outline" : "secondary"}
+                      disabled={!meal.canChange || busyKey === `${day.date}:${meal.meal}`}
+                      onClick={() => handleToggle(day.date, meal)}
+                      title={`Changes close ${new Date(meal.cutoff).toLocaleString()}`}
+                    >
+                      {meal.status === "skipped" ? "Skipped" : "Eating"}
+                    </Button>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Mess owner's plates-to-prepare for a day across their messes
+ */
+export function MessHeadcount() {
+  const [messes, setMesses] = useState<Array<{ _id: string; name?: string }>>([])
+  const [date, setDate] = useState(todayKey)
+  const [counts, setCounts] = useState<Record<string, Array<{ meal: string; subscribers: number; passes: number; skipped: number; expected: number }>>>({})
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    fetchMesses()
+  }, [])
+
+  useEffect(() => {
+    if (messes.length > 0) fetchHeadcounts()
+  }, [messes, date])
+
+  // Messes with active subscribers or pass holders are the ones cooking for them
+  const fetchMesses = async () => {
+    try {
+      const [subscriptionsRes, passesRes] = await Promise.all([
+        fetch("/api/mess-subscriptions?scope=owner&status=active"),
+        fetch("/api/mess-passes?scope=owner&status=active"),
+      ])
+      const subscriptionsData = await subscriptionsRes.json()
+      const passesData = await passesRes.json()
+      if (!subscriptionsRes.ok) throw new Error(subscriptionsData.error || "Failed to load messes")
+      const byId = new Map<string, { _id: string; name?: string }>()
+      for (const entry of [...(subscriptionsData.subscriptions || []), ...(passesRes.ok ? passesData.passes || [] : [])]) {
+        if (entry.mess?._id) byId.set(entry.mess._id, entry.mess)
+      }
+      setMesses([...byId.values()])
+    } catch (error) {
+      console.error("Error fetching messes for headcount:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchHeadcounts = async () => {
+    const entries = await Promise.all(
+      messes.map(async (mess) => {
+        const res = await fetch(`/api/messes/${mess._id}/headcount?date=${date}`)
+        const data = await res.json()
+        return [mess._id, res.ok ? data.meals : []] as const
+      })
+    )
+    setCounts(Object.fromEntries(entries))
+  }
+
+  if (isLoading || messes.length === 0) return null
+
+  return (
+    <Card className="bg-white mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold text-gray-900">Headcount</CardTitle>
+            <CardDescription className="text-gray-600">Plates to prepare after subscribers&apos; skips</CardDescription>
+          </div>
+          <Input type="date" className="w-44" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {messes.map((mess) => (
+          <div key={mess._id} className="text-sm">
+            <p className="font-semibold text-gray-900 mb-1">{mess.name || "Mess"}</p>
+            <div className="flex flex-wrap gap-3">
+              {(counts[mess._id] || []).map((count) => (
+                <div key={count.meal} className="border border-gray-200 rounded-lg px-3 py-2">
+                  <p className="text-gray-600">{capitalize(count.meal)}</p>
+                  <p className="text-lg font-semibold text-gray-900">{count.expected}</p>
+                  <p className="text-xs text-gray-500">
+                    {count.subscribers} subscribed · {count.skipped} skipped
+                    {count.passes > 0 && <> · {count.passes} on passes</>}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Megaphone } from "lucide-react"
+
+type Channel = "in_app" | "email" | "whatsapp"
+type DeliveryStatus = "pending" | "sent" | "failed" | "skipped"
+type ChannelCounts = Record<DeliveryStatus, number>
+
+interface BroadcastRow {
+  _id: string
+  title: string
+  message: string
+  channels: Channel[]
+  status: "sending" | "sent"
+  sender?: { name?: string }
+  recipients: Array<{
+    user: string
+    name?: string
+    inApp: DeliveryStatus
+    email: DeliveryStatus
+    whatsapp: DeliveryStatus
+    error?: string
+  }>
+  counts: { recipients: number; inApp: ChannelCounts; email: ChannelCounts; whatsapp: ChannelCounts }
+  createdAt: string
+}
+
+const CHANNELS: Array<{ value: Channel; label: string; countKey: "inApp" | "email" | "whatsapp" }> = [
+  { value: "in_app", label: "In-app", countKey: "inApp" },
+  { value: "email", label: "Email", countKey: "email" },
+  { value: "whatsapp", label: "WhatsApp", countKey: "whatsapp" },
+]
+
+const STATUS_VARIANTS: Record<DeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  sent: "default",
+  pending: "secondary",
+  failed: "destructive",
+  skipped: "outline",
+}
+
+/**
+ * Mess owner's messages to active subscribers, with per-channel delivery for each
+ */
+export function MessBroadcasts() {
+  const [messes, setMesses] = useState<Array<{ _id: string; name?: string }>>([])
+  const [messId, setMessId] = useState("")
+  const [broadcasts, setBroadcasts] = useState<BroadcastRow[]>([])
+  const [title, setTitle] = useState("")
+  const [message, setMessage] = useState("")
+  const [channels, setChannels] = useState<Channel[]>(["in_app", "email", "whatsapp"])
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSending, setIsSending] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchMesses()
+  }, [])
+
+  useEffect(() => {
+    if (messId) fetchBroadcasts()
+  }, [messId])
+
+  // Only messes with active subscribers have anyone to message
+  const fetchMesses = async () => {
+    try {
+      const res = await fetch("/api/mess-subscriptions?scope=owner&status=active")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load messes")
+      const byId = new Map<string, { _id: string; name?: string }>()
+      for (const subscription of data.subscriptions || []) {
+        if (subscription.mess?._id) byId.set(subscription.mess._id, subscription.mess)
+      }
+      const list = [...byId.values()]
+      setMesses(list)
+      if (list.length > 0) setMessId(list[0]._id)
+    } catch (error) {
+      console.error("Error fetching messes for broadcasts:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchBroadcasts = async () => {
+    try {
+      const res = await fetch(`/api/messes/${messId}/broadcasts`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load messages")
+      setBroadcasts(data.broadcasts || [])
+    } catch (error) {
+      console.error("Error fetching mess broadcasts:", error)
+    }
+  }
+
+  const handleSend = async () => {
+    setIsSending(true)
+    try {
+      const res = await fetch(`/api/messes/${messId}/broadcasts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, message, channels }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to send message")
+
+      toast({
+        title: "Message sent",
+        description: `Delivered to ${data.counts.recipients} subscriber${data.counts.recipients === 1 ? "" : "s"}`,
+      })
+      setTitle("")
+      setMessage("")
+      await fetchBroadcasts()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  if (isLoading || messes.length === 0) return null
+
+  return (
+    <Card className="bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Message subscribers
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          Tell active subscribers about delays, closures or menu changes. Email and WhatsApp reach those who opted in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messes.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {messes.map((mess) => (
+              <Button
+                key={mess._id}
+                size="sm"
+                variant={messId === mess._id ? "default" : "outline"}
+                onClick={() => setMessId(mess._id)}
+              >
+                {mess.name || "Mess"}
+              </Button>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2">
+          <Input placeholder="Title (optional)" maxLength={100} value={title} onChange={(e) => setTitle(e.target.value)} />
+          <Textarea
+            placeholder="e.g. Dinner is delayed by 30 minutes today"
+            maxLength={1000}
+            rows={3}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            {CHANNELS.map((channel) => (
+              <div key={channel.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`broadcast-${channel.value}`}
+                  checked={channels.includes(channel.value)}
+                  onCheckedChange={(checked) =>
+                    setChannels(
+                      checked === true
+                        ? [...channels, channel.value]
+                        : channels.filter((entry) => entry !== channel.value)
+                    )
+                  }
+                />
+                <Label htmlFor={`broadcast-${channel.value}`} className="text-sm cursor-pointer">
+                  {channel.label}
+                </Label>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              className="ml-auto"
+              onClick={handleSend}
+              disabled={isSending || !message.trim() || channels.length === 0}
+            >
+              {isSending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send
+            </Button>
+          </div>
+        </div>
+
+        {broadcasts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-gray-900">Sent messages</h4>
+            {broadcasts.map((broadcast) => (
+              <div key={broadcast._id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <button
+                  type="button"
+                  className="w-full text-left"
+                  onClick={() => setOpenId(openId === broadcast._id ? null : broadcast._id)}
+                >
+                  <p className="font-semibold text-gray-900">
+                    {broadcast.title}
+                    <span className="font-normal text-gray-500"> · {new Date(broadcast.createdAt).toLocaleString()}</span>
+                  </p>
+                  <p className="text-gray-600 whitespace-pre-line">{broadcast.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {broadcast.counts.recipients} subscribers ·{" "}
+                    {CHANNELS.filter((channel) => broadcast.channels.includes(channel.value))
+                      .map((channel) => {
+                        const counts = broadcast.counts[channel.countKey]
+                        return `${channel.label} ${counts.sent} sent${counts.failed ? `, ${counts.failed} failed` : ""}`
+                      })
+                      .join(" · ")}
+                  </p>
+                </button>
+                {openId === broadcast._id && (
+                  <div className="mt-2 space-y-1">
+                    {broadcast.recipients.map((recipient) => (
+                      <div key={recipient.user} className="flex flex-wrap items-center gap-1">
+                        <span className="mr-1">{recipient.name || "Subscriber"}</span>
+                        {CHANNELS.map((channel) => (
+                          <Badge key={channel.value} variant={STATUS_VARIANTS[recipient[channel.countKey]]} className="text-[10px]">
+                            {channel.label}: {recipient[channel.countKey]}
+                          </Badge>
+                        ))}
+                        {recipient.error && <span className="text-xs text-red-600">{recipient.error}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,376 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Plus, Trash2, X } from "lucide-react"
+import {
+  MENU_ALLERGENS,
+  MENU_DAYS,
+  MENU_DIET_TAGS,
+  capitalize,
+  type MenuDay,
+  type MenuDish,
+  type MenuMeal,
+  type MenuOverride,
+} from "@/components/mess-menu"
+
+const MEAL_ORDER = ["breakfast", "lunch", "snacks", "dinner"]
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value]
+
+// Every served meal present, in order, so each gets an editor
+function withAllMeals(meals: MenuMeal[], mealNames: string[]): MenuMeal[] {
+  return mealNames.map((meal) => ({
+    meal,
+    dishes: meals.find((entry) => entry.meal === meal)?.dishes.map((dish) => ({ ...dish })) || [],
+  }))
+}
+
+// Drop blank dishes and meals before saving
+function cleanMeals(meals: MenuMeal[]): MenuMeal[] {
+  return meals
+    .map((meal) => ({ meal: meal.meal, dishes: meal.dishes.filter((dish) => dish.name.trim()) }))
+    .filter((meal) => meal.dishes.length > 0)
+}
+
+function MealDishesEditor({ meals, onChange }: { meals: MenuMeal[]; onChange: (meals: MenuMeal[]) => void }) {
+  const updateDish = (mealIndex: number, dishIndex: number, dish: Partial<MenuDish>) =>
+    onChange(
+      meals.map((meal, i) =>
+        i === mealIndex
+          ? { ...meal, dishes: meal.dishes.map((entry, j) => (j === dishIndex ? { ...entry, ...dish } : entry)) }
+          : meal
+      )
+    )
+
+  const addDish = (mealIndex: number) =>
+    onChange(
+      meals.map((meal, i) =>
+        i === mealIndex ? { ...meal, dishes: [...meal.dishes, { name: "", dietTags: [], allergens: [] }] } : meal
+      )
+    )
+
+  const removeDish = (mealIndex: number, dishIndex: number) =>
+    onChange(
+      meals.map((meal, i) => (i === mealIndex ? { ...meal, dishes: meal.dishes.filter((_, j) => j !== dishIndex) } : meal))
+    )
+
+  return (
+    <div className="space-y-4">
+      {meals.map((meal, mealIndex) => (
+        <div key={meal.meal} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">{capitalize(meal.meal)}</h4>
+            <Button type="button" variant="ghost" size="sm" onClick={() => addDish(mealIndex)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Dish
+            </Button>
+          </div>
+          {meal.dishes.length === 0 && <p className="text-sm text-muted-foreground">No dishes</p>}
+          {meal.dishes.map((dish, dishIndex) => (
+            <div key={dishIndex} className="border rounded-md p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={dish.name}
+                  placeholder="Dish name"
+                  maxLength={80}
+                  onChange={(e) => updateDish(mealIndex, dishIndex, { name: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeDish(mealIndex, dishIndex)}
+                  title="Remove dish"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {MENU_DIET_TAGS.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant={dish.dietTags.includes(tag) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => updateDish(mealIndex, dishIndex, { dietTags: toggleValue(dish.dietTags, tag) })}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {MENU_ALLERGENS.map((allergen) => (
+                  <Badge
+                    key={allergen}
+                    variant={dish.allergens.includes(allergen) ? "destructive" : "outline"}
+                    className="cursor-pointer text-[10px]"
+                    onClick={() =>
+                      updateDish(mealIndex, dishIndex, { allergens: toggleValue(dish.allergens, allergen) })
+                    }
+                  >
+                    {allergen}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Owner's menu editor: the weekly template and menus for specific dates
+ */
+export function MessMenuEditor({
+  messId,
+  mealTypes,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  messId: string
+  mealTypes: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}) {
+  const mealNames = MEAL_ORDER.filter((meal) => mealTypes.some((type) => type.toLowerCase() === meal))
+  const [weeklyMenu, setWeeklyMenu] = useState<MenuDay[]>([])
+  const [overrides, setOverrides] = useState<MenuOverride[]>([])
+  const [selectedDay, setSelectedDay] = useState(MENU_DAYS[0])
+  const [overrideDate, setOverrideDate] = useState("")
+  const [overrideNote, setOverrideNote] = useState("")
+  const [overrideMeals, setOverrideMeals] = useState<MenuMeal[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (open) fetchMenu()
+  }, [open, messId])
+
+  const fetchMenu = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/messes/${messId}/menu`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load menu")
+      setWeeklyMenu(
+        MENU_DAYS.map((day) => ({
+          day,
+          meals: withAllMeals(data.weeklyMenu.find((entry: MenuDay) => entry.day === day)?.meals || [], mealNames),
+        }))
+      )
+      setOverrides(data.overrides || [])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load menu",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selectOverrideDate = (date: string) => {
+    setOverrideDate(date)
+    if (!date) return
+    // Start from an existing override for the date, else from that weekday's template
+    const existing = overrides.find((override) => override.date === date)
+    const weekday = MENU_DAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7]
+    const template = weeklyMenu.find((entry) => entry.day === weekday)?.meals || []
+    setOverrideNote(existing?.note || "")
+    setOverrideMeals(withAllMeals(existing?.meals || template, mealNames))
+  }
+
+  const saveWeeklyMenu = async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/messes/${messId}/menu`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          weeklyMenu: weeklyMenu.map((day) => ({ day: day.day, meals: cleanMeals(day.meals) })),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save menu")
+
+      toast({ title: "Menu saved" })
+      onSaved()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save menu",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const saveOverride = async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/messes/${messId}/menu/overrides`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: overrideDate, note: overrideNote, meals: cleanMeals(overrideMeals) }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save the special menu")
+
+      toast({ title: "Special menu saved", description: format(new Date(`${overrideDate}T00:00:00`), "EEEE, d MMM") })
+      setOverrideDate("")
+      await fetchMenu()
+      onSaved()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the special menu",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deleteOverride = async (date: string) => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/messes/${messId}/menu/overrides?date=${date}`, { method: "DELETE" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to remove the special menu")
+
+      await fetchMenu()
+      onSaved()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove the special menu",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const selectedMenu = weeklyMenu.find((entry) => entry.day === selectedDay)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit menu</DialogTitle>
+          <DialogDescription>Tag dishes with the diets they suit and the allergens they contain.</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Tabs defaultValue="weekly">
+            <TabsList>
+              <TabsTrigger value="weekly">Weekly menu</TabsTrigger>
+              <TabsTrigger value="overrides">Special dates</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="weekly" className="space-y-4">
+              <div className="flex flex-wrap gap-1">
+                {MENU_DAYS.map((day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={selectedDay === day ? "default" : "outline"}
+                    onClick={() => setSelectedDay(day)}
+                  >
+                    {day.slice(0, 3)}
+                  </Button>
+                ))}
+              </div>
+              {selectedMenu && (
+                <MealDishesEditor
+                  meals={selectedMenu.meals}
+                  onChange={(meals) =>
+                    setWeeklyMenu(weeklyMenu.map((entry) => (entry.day === selectedDay ? { ...entry, meals } : entry)))
+                  }
+                />
+              )}
+              <Button onClick={saveWeeklyMenu} disabled={isSaving} className="w-full">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save weekly menu
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="overrides" className="space-y-4">
+              {overrides.length > 0 && (
+                <div className="space-y-2">
+                  {overrides.map((override) => (
+                    <div key={override.date} className="flex items-center justify-between border rounded-md p-2 text-sm">
+                      <button type="button" className="text-left hover:underline" onClick={() => selectOverrideDate(override.date)}>
+                        {format(new Date(`${override.date}T00:00:00`), "EEE, d MMM")}
+                        {override.note && <span className="text-muted-foreground"> · {override.note}</span>}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteOverride(override.date)}
+                        disabled={isSaving}
+                        title="Remove special menu"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="menu-override-date">Date</Label>
+                  <Input
+                    id="menu-override-date"
+                    type="date"
+                    min={format(new Date(), "yyyy-MM-dd")}
+                    value={overrideDate}
+                    onChange={(e) => selectOverrideDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="menu-override-note">Occasion</Label>
+                  <Input
+                    id="menu-override-note"
+                    placeholder="e.g. Diwali special"
+                    maxLength={120}
+                    value={overrideNote}
+                    onChange={(e) => setOverrideNote(e.target.value)}
+                  />
+                </div>
+              </div>
+              {overrideDate && (
+                <>
+                  <MealDishesEditor meals={overrideMeals} onChange={setOverrideMeals} />
+                  <Button onClick={saveOverride} disabled={isSaving} className="w-full">
+                    {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save special menu
+                  </Button>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
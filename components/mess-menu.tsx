@@ -0,0 +1,211 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import { Loader2, Pencil, Utensils } from "lucide-react"
+import { MessMenuEditor } from "@/components/mess-menu-editor"
+
+export interface MenuDish {
+  name: string
+  dietTags: string[]
+  allergens: string[]
+}
+
+export interface MenuMeal {
+  meal: string
+  dishes: MenuDish[]
+}
+
+export interface MenuDay {
+  day: string
+  meals: MenuMeal[]
+}
+
+export interface MenuOverride {
+  date: string
+  note?: string
+  meals: MenuMeal[]
+}
+
+// Same names as lib/mess-menus.ts
+export const MENU_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
+export const MENU_DIET_TAGS = ["Veg", "Non-Veg", "Jain", "Vegan"]
+export const MENU_ALLERGENS = ["gluten", "dairy", "nuts", "peanuts", "soy", "egg", "fish", "shellfish", "sesame", "mustard"]
+
+export const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+interface TodayMenu {
+  date: string
+  day: string
+  meals: MenuMeal[]
+  override: { note?: string } | null
+}
+
+function DishList({ dishes }: { dishes: MenuDish[] }) {
+  if (dishes.length === 0) return <p className="text-sm text-muted-foreground">—</p>
+  return (
+    <ul className="space-y-1">
+      {dishes.map((dish, index) => (
+        <li key={`${dish.name}-${index}`} className="text-sm">
+          <span>{dish.name}</span>
+          {dish.dietTags.map((tag) => (
+            <Badge key={tag} variant="outline" className="ml-1 text-[10px] px-1 py-0">
+              {tag}
+            </Badge>
+          ))}
+          {dish.allergens.length > 0 && (
+            <span className="ml-1 text-xs text-muted-foreground">contains {dish.allergens.join(", ")}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function MealGrid({ meals }: { meals: MenuMeal[] }) {
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      {meals.map((meal) => (
+        <div key={meal.meal}>
+          <div className="flex items-center mb-2">
+            <Utensils className="w-4 h-4 mr-2 text-primary" />
+            <h4 className="font-medium">{capitalize(meal.meal)}</h4>
+          </div>
+          <DishList dishes={meal.dishes} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * A mess's menu: today's (with date overrides applied) and the weekly template,
+ * filterable by diet and allergens. Owners get the editor.
+ */
+export function MessMenu({ messId, canEdit, mealTypes }: { messId: string; canEdit: boolean; mealTypes: string[] }) {
+  const [weeklyMenu, setWeeklyMenu] = useState<MenuDay[] | null>(null)
+  const [today, setToday] = useState<TodayMenu | null>(null)
+  const [diet, setDiet] = useState<string | null>(null)
+  const [excludeAllergens, setExcludeAllergens] = useState<string[]>([])
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+
+  useEffect(() => {
+    fetchWeeklyMenu()
+  }, [messId])
+
+  useEffect(() => {
+    fetchToday()
+  }, [messId, diet, excludeAllergens])
+
+  const fetchWeeklyMenu = async () => {
+    try {
+      const res = await fetch(`/api/messes/${messId}/menu`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load menu")
+      setWeeklyMenu(data.weeklyMenu || [])
+    } catch (error) {
+      console.error("Error fetching mess menu:", error)
+      setWeeklyMenu([])
+    }
+  }
+
+  const fetchToday = async () => {
+    const params = new URLSearchParams()
+    if (diet) params.set("diet", diet)
+    if (excludeAllergens.length > 0) params.set("excludeAllergens", excludeAllergens.join(","))
+    try {
+      const res = await fetch(`/api/messes/${messId}/menu/today?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load today's menu")
+      setToday(data)
+    } catch (error) {
+      console.error("Error fetching today's menu:", error)
+    }
+  }
+
+  const keepDish = (dish: MenuDish) =>
+    (!diet || dish.dietTags.includes(diet)) && !excludeAllergens.some((allergen) => dish.allergens.includes(allergen))
+
+  const toggleAllergen = (allergen: string) =>
+    setExcludeAllergens((current) =>
+      current.includes(allergen) ? current.filter((entry) => entry !== allergen) : [...current, allergen]
+    )
+
+  if (!weeklyMenu) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={diet === null ? "default" : "outline"} onClick={() => setDiet(null)}>
+          All
+        </Button>
+        {MENU_DIET_TAGS.map((tag) => (
+          <Button key={tag} size="sm" variant={diet === tag ? "default" : "outline"} onClick={() => setDiet(tag)}>
+            {tag}
+          </Button>
+        ))}
+        {canEdit && (
+          <Button size="sm" variant="ghost" className="ml-auto" onClick={() => setIsEditorOpen(true)}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit menu
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        <span className="text-muted-foreground mr-1">Without:</span>
+        {MENU_ALLERGENS.map((allergen) => (
+          <Badge
+            key={allergen}
+            variant={excludeAllergens.includes(allergen) ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => toggleAllergen(allergen)}
+          >
+            {allergen}
+          </Badge>
+        ))}
+      </div>
+
+      {today && today.meals.length > 0 && (
+        <Card className="border-primary/40">
+          <CardContent className="p-4">
+            <h3 className="font-bold text-lg mb-3">
+              Today · {today.day}
+              {today.override && <Badge className="ml-2">{today.override.note || "Special menu"}</Badge>}
+            </h3>
+            <MealGrid meals={today.meals} />
+          </CardContent>
+        </Card>
+      )}
+
+      {weeklyMenu.map((day) => (
+        <Card key={day.day}>
+          <CardContent className="p-4">
+            <h3 className="font-bold text-lg mb-3">{day.day}</h3>
+            <MealGrid meals={day.meals.map((meal) => ({ meal: meal.meal, dishes: meal.dishes.filter(keepDish) }))} />
+          </CardContent>
+        </Card>
+      ))}
+
+      {canEdit && (
+        <MessMenuEditor
+          messId={messId}
+          mealTypes={mealTypes}
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          onSaved={() => {
+            fetchWeeklyMenu()
+            fetchToday()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { QRCodeSVG } from "qrcode.react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Download, Loader2, QrCode, RefreshCw, Ticket } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+export interface MessPassRow {
+  _id: string
+  mess?: { _id: string; name?: string; location?: string; mealTypes?: string[] }
+  user?: { _id: string; name?: string; email?: string }
+  kind: "trial" | "day" | "week"
+  startDate: string
+  endDate: string
+  price: number
+  code: string
+  status: "pending" | "active" | "expired" | "cancelled"
+  paidAt?: string
+  redemptions: Array<{ date: string; meal: string; redeemedAt: string }>
+}
+
+const MEAL_ORDER = ["breakfast", "lunch", "snacks", "dinner"]
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+const KIND_LABELS: Record<MessPassRow["kind"], string> = { trial: "Trial", day: "Day pass", week: "Week pass" }
+
+// endDate is exclusive, so the last valid day is the one before it
+export const formatPassValidity = (pass: MessPassRow) => {
+  const lastDay = new Date(new Date(pass.endDate).getTime() - 24 * 60 * 60 * 1000)
+  return pass.kind === "day"
+    ? new Date(pass.startDate).toLocaleDateString()
+    : `${new Date(pass.startDate).toLocaleDateString()} – ${lastDay.toLocaleDateString()}`
+}
+
+function MessPassStatusBadge({ pass }: { pass: MessPassRow }) {
+  if (pass.status === "active") return <Badge>active</Badge>
+  if (pass.status === "cancelled") return <Badge variant="destructive">cancelled</Badge>
+  if (pass.status === "expired") return <Badge variant="outline">expired</Badge>
+  return <Badge variant="secondary">awaiting payment</Badge>
+}
+
+/**
+ * Student's mess passes: pay for day/week passes and show the QR code at each meal
+ */
+export function MessPassStatement() {
+  const [passes, setPasses] = useState<MessPassRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [qrOpenId, setQrOpenId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchPasses()
+  }, [])
+
+  const fetchPasses = async () => {
+    try {
+      const res = await fetch("/api/mess-passes")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load passes")
+      setPasses(data.passes || [])
+    } catch (error) {
+      console.error("Error fetching mess passes:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePay = async (pass: MessPassRow) => {
+    setBusyId(pass._id)
+    try {
+      const res = await fetch("/api/payment/razorpay/payment-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messPassId: pass._id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to start payment")
+
+      window.open(data.shortUrl, "_blank")
+      toast({
+        title: "Complete your payment",
+        description: "Once paid, use \"Check payment\" to activate your pass.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start payment",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCheckPayment = async (pass: MessPassRow) => {
+    setBusyId(pass._id)
+    try {
+      const res = await fetch(`/api/payment/razorpay/verify?messPassId=${pass._id}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to check payment")
+
+      if (data.isPaid) {
+        toast({ title: "Payment received", description: "Your pass is active" })
+        await fetchPasses()
+      } else {
+        toast({ title: "No payment yet", description: "It can take a minute for payments to show up." })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check payment",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isLoading || passes.length === 0) {
+    return null
+  }
+
+  const origin = typeof window !== "undefined" ? window.location.origin : ""
+
+  return (
+    <Card className="bg-white mt-6">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Ticket className="h-6 w-6" />
+          Mess Passes
+        </CardTitle>
+        <CardDescription className="text-gray-600">Trials and day or week passes. Show the code at each meal.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {passes.map((pass) => {
+            const isBusy = busyId === pass._id
+            return (
+              <div key={pass._id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                  <div className="text-sm">
+                    <p className="font-semibold text-gray-900">
+                      {pass.mess ? (
+                        <Link href={`/messes/${pass.mess._id}`} className="hover:underline">
+                          {pass.mess.name || "Mess"}
+                        </Link>
+                      ) : (
+                        "Mess"
+                      )}{" "}
+                      · {KIND_LABELS[pass.kind]}
+                    </p>
+                    <p className="text-gray-600">
+                      {formatPassValidity(pass)} · {pass.price > 0 ? formatRupees(pass.price) : "Free"}
+                      {pass.redemptions.length > 0 && <> · {pass.redemptions.length} meals eaten</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MessPassStatusBadge pass={pass} />
+                    {pass.status === "pending" && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCheckPayment(pass)}
+                          disabled={isBusy}
+                          title="Check payment"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" onClick={() => handlePay(pass)} disabled={isBusy}>
+                          {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Pay {formatRupees(pass.price)}
+                        </Button>
+                      </>
+                    )}
+                    {pass.status === "active" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setQrOpenId(qrOpenId === pass._id ? null : pass._id)}
+                      >
+                        <QrCode className="w-4 h-4 mr-2" />
+                        Code
+                      </Button>
+                    )}
+                    {pass.paidAt && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/mess-passes/${pass._id}/invoice`}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Invoice
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {qrOpenId === pass._id && pass.status === "active" && (
+                  <div className="flex flex-col items-center gap-2 py-2">
+                    <QRCodeSVG value={`${origin}/profile?tab=mess-subscribers&redeem=${pass.code}`} size={180} />
+                    <p className="font-mono text-lg tracking-widest text-gray-900">{pass.code}</p>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Mess owner's pass scanner: redeem a meal on a scanned or typed pass code
+ */
+export function MessPassRedeem() {
+  const searchParams = useSearchParams()
+  const [code, setCode] = useState(() => searchParams.get("redeem") || "")
+  const [passes, setPasses] = useState<MessPassRow[]>([])
+  const [isRedeeming, setIsRedeeming] = useState(false)
+  const [lastRedeemed, setLastRedeemed] = useState<MessPassRow | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchPasses()
+  }, [])
+
+  const fetchPasses = async () => {
+    try {
+      const res = await fetch("/api/mess-passes?scope=owner&status=active")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load passes")
+      setPasses(data.passes || [])
+    } catch (error) {
+      console.error("Error fetching mess passes:", error)
+    }
+  }
+
+  // Offer the meals any of the owner's messes serve
+  const servedMeals = new Set(
+    passes.flatMap((pass) => (pass.mess?.mealTypes || []).map((meal) => meal.trim().toLowerCase()))
+  )
+  const meals = MEAL_ORDER.filter((meal) => servedMeals.has(meal))
+
+  const handleRedeem = async (meal: string) => {
+    setIsRedeeming(true)
+    try {
+      const res = await fetch("/api/mess-passes/redeem", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code, meal }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to redeem pass")
+
+      setLastRedeemed(data.pass)
+      setCode("")
+      toast({ title: `${capitalize(meal)} redeemed`, description: `Pass ${data.pass.code}` })
+    } catch (error) {
+      setLastRedeemed(null)
+      toast({
+        title: "Can't redeem",
+        description: error instanceof Error ? error.message : "Failed to redeem pass",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRedeeming(false)
+    }
+  }
+
+  if (passes.length === 0 && !code) return null
+
+  return (
+    <Card className="bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-gray-900">Redeem a pass</CardTitle>
+        <CardDescription className="text-gray-600">
+          Scan the student&apos;s pass QR or type its code, then pick the meal. {passes.length} active passes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Pass code"
+          className="font-mono tracking-widest max-w-xs"
+        />
+        <div className="flex flex-wrap gap-2">
+          {(meals.length > 0 ? meals : MEAL_ORDER).map((meal) => (
+            <Button key={meal} size="sm" onClick={() => handleRedeem(meal)} disabled={isRedeeming || !code.trim()}>
+              {capitalize(meal)}
+            </Button>
+          ))}
+        </div>
+        {lastRedeemed && (
+          <p className="text-sm text-gray-600">
+            Last redeemed: {lastRedeemed.code} · {KIND_LABELS[lastRedeemed.kind]} · {formatPassValidity(lastRedeemed)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Download, Loader2, RefreshCw, Utensils } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+import { MealAttendance } from "@/components/meal-attendance"
+import { MealDelivery } from "@/components/delivery-orders"
+
+export interface MessSubscriptionRow {
+  _id: string
+  mess?: {
+    _id: string
+    name?: string
+    location?: string
+    mealTypes?: string[]
+    homeDeliveryAvailable?: boolean
+  }
+  subscriberName?: string
+  subscriberEmail?: string
+  subscriberPhone?: string
+  startDate: string
+  endDate: string
+  monthlyPrice: number
+  status: "pending" | "active" | "cancelled" | "expired"
+  acceptedAt?: string
+  rejectedAt?: string
+  rejectionReason?: string
+  paidAt?: string
+  renewalOf?: string
+  creditApplied?: number
+  createdAt: string
+}
+
+export const formatSubscriptionPeriod = (subscription: MessSubscriptionRow) =>
+  `${new Date(subscription.startDate).toLocaleDateString()} – ${new Date(subscription.endDate).toLocaleDateString()}`
+
+export function MessSubscriptionStatusBadge({ subscription }: { subscription: MessSubscriptionRow }) {
+  if (subscription.status === "active") return <Badge>active</Badge>
+  if (subscription.status === "cancelled") return <Badge variant="destructive">{subscription.rejectedAt ? "declined" : "cancelled"}</Badge>
+  if (subscription.status === "expired") return <Badge variant="outline">expired</Badge>
+  return <Badge variant="secondary">{subscription.acceptedAt ? "awaiting payment" : "awaiting owner"}</Badge>
+}
+
+/**
+ * Subscriber's mess subscriptions: pay once accepted, download invoices, renew
+ */
+export function MessSubscriptionStatement() {
+  const [subscriptions, setSubscriptions] = useState<MessSubscriptionRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [mealsOpenId, setMealsOpenId] = useState<string | null>(null)
+  const [deliveryOpenId, setDeliveryOpenId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchSubscriptions()
+  }, [])
+
+  const fetchSubscriptions = async () => {
+    try {
+      const res = await fetch("/api/mess-subscriptions")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load subscriptions")
+      setSubscriptions(data.subscriptions || [])
+    } catch (error) {
+      console.error("Error fetching mess subscriptions:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startPayment = async (subscriptionId: string) => {
+    const res = await fetch("/api/payment/razorpay/payment-link", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messSubscriptionId: subscriptionId }),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || "Failed to start payment")
+
+    window.open(data.shortUrl, "_blank")
+    toast({
+      title: "Complete your payment",
+      description: "Once paid, use \"Check payment\" to activate your subscription.",
+    })
+  }
+
+  const handlePay = async (subscription: MessSubscriptionRow) => {
+    setBusyId(subscription._id)
+    try {
+      await startPayment(subscription._id)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start payment",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCheckPayment = async (subscription: MessSubscriptionRow) => {
+    setBusyId(subscription._id)
+    try {
+      const res = await fetch(`/api/payment/razorpay/verify?messSubscriptionId=${subscription._id}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to check payment")
+
+      if (data.isPaid) {
+        toast({ title: "Payment received", description: data.status === "active" ? "Your subscription is active" : undefined })
+        await fetchSubscriptions()
+      } else {
+        toast({ title: "No payment yet", description: "It can take a minute for payments to show up." })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check payment",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRenew = async (subscription: MessSubscriptionRow) => {
+    setBusyId(subscription._id)
+    try {
+      const res = await fetch(`/api/mess-subscriptions/${subscription._id}/renew`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to renew subscription")
+
+      await fetchSubscriptions()
+      if (!data.subscription.paidAt) await startPayment(data.subscription._id)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to renew subscription",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  if (subscriptions.length === 0) {
+    return null
+  }
+
+  // Only the latest period of each subscription offers renewal
+  const renewedIds = new Set(
+    subscriptions.filter((s) => s.renewalOf && s.status !== "cancelled").map((s) => s.renewalOf)
+  )
+
+  return (
+    <Card className="bg-white mt-6">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Utensils className="h-6 w-6" />
+          Mess Subscriptions
+        </CardTitle>
+        <CardDescription className="text-gray-600">Your monthly mess plans</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {subscriptions.map((subscription) => {
+            const isBusy = busyId === subscription._id
+            const canRenew =
+              (subscription.status === "active" || subscription.status === "expired") && !renewedIds.has(subscription._id)
+            return (
+              <div key={subscription._id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                  <div className="text-sm">
+                    <p className="font-semibold text-gray-900">
+                      {subscription.mess ? (
+                        <Link href={`/messes/${subscription.mess._id}`} className="hover:underline">
+                          {subscription.mess.name || "Mess"}
+                        </Link>
+                      ) : (
+                        "Mess"
+                      )}{" "}
+                      · {formatSubscriptionPeriod(subscription)}
+                    </p>
+                    <p className="text-gray-600">
+                      {formatRupees(subscription.monthlyPrice)}/month
+                      {subscription.creditApplied ? <> · {formatRupees(subscription.creditApplied)} meal credit applied</> : null}
+                      {subscription.renewalOf && <> · renewal</>}
+                    </p>
+                    {subscription.status === "pending" && !subscription.acceptedAt && (
+                      <p className="text-gray-600">Waiting for the mess owner to accept your request</p>
+                    )}
+                    {subscription.rejectionReason && <p className="text-gray-600">Reason: {subscription.rejectionReason}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MessSubscriptionStatusBadge subscription={subscription} />
+                    {subscription.status === "pending" && subscription.acceptedAt && !subscription.paidAt && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCheckPayment(subscription)}
+                          disabled={isBusy}
+                          title="Check payment"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" onClick={() => handlePay(subscription)} disabled={isBusy}>
+                          {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Pay {formatRupees(subscription.monthlyPrice - (subscription.creditApplied ?? 0))}
+                        </Button>
+                      </>
+                    )}
+                    {subscription.status === "active" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setMealsOpenId(mealsOpenId === subscription._id ? null : subscription._id)}
+                      >
+                        Meals
+                      </Button>
+                    )}
+                    {subscription.status === "active" && subscription.mess?.homeDeliveryAvailable && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDeliveryOpenId(deliveryOpenId === subscription._id ? null : subscription._id)}
+                      >
+                        Delivery
+                      </Button>
+                    )}
+                    {(subscription.status === "active" || subscription.status === "expired") && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/api/mess-subscriptions/${subscription._id}/invoice`}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Invoice
+                        </a>
+                      </Button>
+                    )}
+                    {canRenew && (
+                      <Button size="sm" onClick={() => handleRenew(subscription)} disabled={isBusy}>
+                        {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Renew
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {mealsOpenId === subscription._id && subscription.status === "active" && (
+                  <MealAttendance subscriptionId={subscription._id} />
+                )}
+                {deliveryOpenId === subscription._id && subscription.status === "active" && subscription.mess && (
+                  <MealDelivery
+                    subscriptionId={subscription._id}
+                    messId={subscription.mess._id}
+                    mealTypes={subscription.mess.mealTypes}
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
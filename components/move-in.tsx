@@ -0,0 +1,578 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+import { ClipboardCheck, Download, FileSignature, Loader2, Upload } from "lucide-react"
+
+type ChecklistKey = "id_document" | "police_verification" | "room_photos"
+type ChecklistStatus = "pending" | "submitted" | "approved" | "rejected"
+
+interface Signature {
+  name: string
+  signedAt: string
+  ip?: string
+}
+
+interface ChecklistItem {
+  key: ChecklistKey
+  status: ChecklistStatus
+  files: Array<{ url: string; name?: string }>
+  reviewNote?: string
+}
+
+interface MoveInRow {
+  _id: string
+  status: "in_progress" | "complete" | "cancelled"
+  agreement: {
+    title: string
+    clauses: string[]
+    contentHash: string
+    tenantSignature?: Signature
+    ownerSignature?: Signature
+    signedAt?: string
+  }
+  checklist: ChecklistItem[]
+}
+
+interface ChecklistDefinition {
+  key: ChecklistKey
+  label: string
+  maxFiles: number
+}
+
+const formatSignedAt = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+
+function ChecklistStatusBadge({ status }: { status: ChecklistStatus }) {
+  if (status === "approved") return <Badge>approved</Badge>
+  if (status === "submitted") return <Badge variant="secondary">in review</Badge>
+  if (status === "rejected") return <Badge variant="destructive">needs changes</Badge>
+  return <Badge variant="outline">to do</Badge>
+}
+
+function MoveInStatusBadge({ status }: { status: MoveInRow["status"] }) {
+  if (status === "complete") return <Badge>complete</Badge>
+  if (status === "cancelled") return <Badge variant="destructive">cancelled</Badge>
+  return <Badge variant="secondary">in progress</Badge>
+}
+
+async function uploadMoveInFile(file: File) {
+  const formData = new FormData()
+  formData.append("file", file)
+  formData.append("type", "move-in")
+  const res = await fetch("/api/upload", { method: "POST", body: formData })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || `Failed to upload ${file.name}`)
+  return { url: data.url as string, name: file.name }
+}
+
+/**
+ * A booking's move-in: read and sign the rental agreement, then the checklist
+ * (the tenant uploads, the owner approves or sends back)
+ */
+export function MoveInPanel({ bookingId }: { bookingId: string }) {
+  const [moveIn, setMoveIn] = useState<MoveInRow | null>(null)
+  const [role, setRole] = useState<"tenant" | "owner" | "admin" | null>(null)
+  const [definitions, setDefinitions] = useState<ChecklistDefinition[]>([])
+  const [error, setError] = useState("")
+  const [showAgreement, setShowAgreement] = useState(false)
+  const [signName, setSignName] = useState("")
+  const [agreed, setAgreed] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const { user } = useAuth()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchMoveIn()
+  }, [bookingId])
+
+  useEffect(() => {
+    if (user?.name) setSignName(user.name)
+  }, [user])
+
+  const fetchMoveIn = async () => {
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/move-in`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load move-in")
+      setMoveIn(data.moveIn)
+      setRole(data.role)
+      setDefinitions(data.checklist || [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load move-in")
+    }
+  }
+
+  const runAction = async (key: string, body: Record<string, unknown>, done: string) => {
+    setBusyKey(key)
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/move-in`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        // The agreement changed under us; show the new text before signing
+        if (res.status === 409) await fetchMoveIn()
+        throw new Error(data.error || "Failed to update move-in")
+      }
+      setMoveIn(data.moveIn)
+      toast({ title: done })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update move-in",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleUpload = async (key: ChecklistKey, fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return
+    setBusyKey(key)
+    try {
+      const files = []
+      for (const file of Array.from(fileList)) files.push(await uploadMoveInFile(file))
+      setBusyKey(null)
+      await runAction(key, { action: "submit", key, files }, "Sent to the owner for review")
+    } catch (error) {
+      setBusyKey(null)
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload files",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleReject = (key: ChecklistKey) => {
+    const note = window.prompt("What should the tenant fix?", "")
+    if (!note?.trim()) return
+    runAction(key, { action: "review", key, decision: "rejected", note }, "Sent back to the tenant")
+  }
+
+  if (error) return <p className="text-sm text-gray-600">{error}</p>
+  if (!moveIn) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    )
+  }
+
+  const { agreement } = moveIn
+  const mySignature = role === "tenant" ? agreement.tenantSignature : role === "owner" ? agreement.ownerSignature : undefined
+  const canSign = (role === "tenant" || role === "owner") && !mySignature && moveIn.status !== "cancelled"
+  const isOpen = moveIn.status === "in_progress"
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold text-gray-900 flex items-center gap-2">
+          <FileSignature className="h-4 w-4" />
+          Rental agreement
+        </p>
+        <MoveInStatusBadge status={moveIn.status} />
+      </div>
+
+      <div className="space-y-1 text-gray-600">
+        {(
+          [
+            ["Owner", agreement.ownerSignature],
+            ["Tenant", agreement.tenantSignature],
+          ] as const
+        ).map(([label, signature]) => (
+          <p key={label}>
+            {label}:{" "}
+            {signature ? (
+              <>
+                signed by <span className="font-medium text-gray-900">{signature.name}</span> on{" "}
+                {formatSignedAt(signature.signedAt)}
+              </>
+            ) : (
+              "not signed yet"
+            )}
+          </p>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => setShowAgreement(!showAgreement)}>
+          {showAgreement ? "Hide agreement" : "Read agreement"}
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/bookings/${bookingId}/move-in/agreement`}>
+            <Download className="w-4 h-4 mr-2" />
+            {agreement.signedAt ? "Signed PDF" : "Draft PDF"}
+          </a>
+        </Button>
+      </div>
+
+      {showAgreement && (
+        <div className="max-h-72 overflow-y-auto rounded-md border p-3 space-y-2 bg-gray-50">
+          <p className="font-semibold text-gray-900">{agreement.title}</p>
+          {agreement.clauses.map((clause, index) => (
+            <p key={index} className="whitespace-pre-line text-gray-700">
+              {clause}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {canSign && (
+        <div className="rounded-md border p-3 space-y-2">
+          <Label htmlFor={`sign-${bookingId}`}>Type your full name to sign</Label>
+          <Input id={`sign-${bookingId}`} value={signName} onChange={(e) => setSignName(e.target.value)} />
+          <div className="flex items-center space-x-2">
+            <Checkbox id={`agree-${bookingId}`} checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+            <Label htmlFor={`agree-${bookingId}`} className="text-sm cursor-pointer">
+              I have read the agreement and sign it electronically
+            </Label>
+          </div>
+          <Button
+            size="sm"
+            disabled={!agreed || signName.trim().length < 2 || busyKey === "sign"}
+            onClick={() =>
+              runAction("sign", { action: "sign", name: signName, contentHash: agreement.contentHash }, "Agreement signed")
+            }
+          >
+            {busyKey === "sign" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Sign agreement
+          </Button>
+        </div>
+      )}
+
+      <p className="font-semibold text-gray-900 flex items-center gap-2 pt-2">
+        <ClipboardCheck className="h-4 w-4" />
+        Move-in checklist
+      </p>
+      <div className="space-y-3">
+        {definitions.map((definition) => {
+          const item = moveIn.checklist.find((entry) => entry.key === definition.key)
+          if (!item) return null
+          const isBusy = busyKey === definition.key
+          return (
+            <div key={definition.key} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium text-gray-900">{definition.label}</p>
+                <ChecklistStatusBadge status={item.status} />
+              </div>
+              {definition.key === "police_verification" && role === "tenant" && item.status !== "approved" && (
+                <p className="text-gray-600">
+                  Download the{" "}
+                  <a href={`/api/bookings/${bookingId}/move-in/police-form`} className="underline">
+                    pre-filled form
+                  </a>
+                  , complete and sign it, then upload a scan or photo.
+                </p>
+              )}
+              {item.reviewNote && item.status === "rejected" && <p className="text-red-600">{item.reviewNote}</p>}
+              {item.files.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {item.files.map((file, index) => (
+                    <a key={file.url} href={file.url} target="_blank" rel="noopener noreferrer" className="underline text-gray-700">
+                      {file.name || `File ${index + 1}`}
+                    </a>
+                  ))}
+                </div>
+              )}
+              {role === "tenant" && isOpen && item.status !== "approved" && (
+                <Label className="inline-flex items-center gap-2 cursor-pointer text-sm font-normal">
+                  {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  {item.files.length > 0 ? "Replace files" : "Upload"}
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept="image/*,application/pdf"
+                    multiple={definition.maxFiles > 1}
+                    disabled={isBusy}
+                    onChange={(e) => {
+                      handleUpload(definition.key, e.target.files)
+                      e.target.value = ""
+                    }}
+                  />
+                </Label>
+              )}
+              {(role === "owner" || role === "admin") && isOpen && item.status === "submitted" && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() =>
+                      runAction(definition.key, { action: "review", key: definition.key, decision: "approved" }, "Approved")
+                    }
+                  >
+                    Approve
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={isBusy} onClick={() => handleReject(definition.key)}>
+                    Send back
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Owner's editor for a property's rental agreement template
+ */
+function AgreementTemplateEditor() {
+  const { user } = useAuth()
+  const [properties, setProperties] = useState<Array<{ _id: string; title: string }>>([])
+  const [propertyId, setPropertyId] = useState("")
+  const [template, setTemplate] = useState("")
+  const [placeholders, setPlaceholders] = useState<string[]>([])
+  const [isDefault, setIsDefault] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (user) fetchProperties()
+  }, [user])
+
+  useEffect(() => {
+    if (propertyId) fetchTemplate()
+  }, [propertyId])
+
+  const fetchProperties = async () => {
+    try {
+      const res = await fetch("/api/properties")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load properties")
+      const mine = (data.properties || []).filter(
+        (property: { owner?: { _id?: string } | string }) =>
+          user?.role === "admin" ||
+          (typeof property.owner === "string" ? property.owner : property.owner?._id) === user?.id
+      )
+      setProperties(mine)
+      if (mine.length > 0) setPropertyId(mine[0]._id)
+    } catch (error) {
+      console.error("Error fetching properties for agreement templates:", error)
+    }
+  }
+
+  const fetchTemplate = async () => {
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/agreement-template`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load template")
+      setTemplate(data.template)
+      setIsDefault(data.isDefault)
+      setPlaceholders(data.placeholders || [])
+    } catch (error) {
+      console.error("Error fetching agreement template:", error)
+    }
+  }
+
+  const save = async (value: string | null) => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/agreement-template`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template: value }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save template")
+      setTemplate(data.template)
+      setIsDefault(data.isDefault)
+      toast({ title: value === null ? "Template reset to default" : "Template saved" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save template",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (properties.length === 0) return null
+
+  return (
+    <Card className="bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-gray-900">Agreement Template</CardTitle>
+        <CardDescription className="text-gray-600">
+          The rental agreement new tenants sign. Separate clauses with a blank line. Agreements someone has already signed
+          don&apos;t change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {properties.length > 1 && (
+          <select
+            value={propertyId}
+            onChange={(e) => setPropertyId(e.target.value)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {properties.map((property) => (
+              <option key={property._id} value={property._id}>
+                {property.title}
+              </option>
+            ))}
+          </select>
+        )}
+        <Textarea value={template} onChange={(e) => setTemplate(e.target.value)} rows={12} className="font-mono text-xs" />
+        <p className="text-xs text-gray-500">
+          Placeholders: {placeholders.map((name) => `{{${name}}}`).join(" ")}
+        </p>
+        <div className="flex justify-end gap-2">
+          {!isDefault && (
+            <Button variant="outline" size="sm" onClick={() => save(null)} disabled={isSaving}>
+              Reset to default
+            </Button>
+          )}
+          <Button size="sm" onClick={() => save(template)} disabled={isSaving || !template.trim()}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save template
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface OwnerMoveInRow {
+  _id: string
+  status: MoveInRow["status"]
+  booking?: { _id: string; checkInDate: string; roomType?: string }
+  property?: { title?: string }
+  tenant?: { name?: string; email?: string; phone?: string }
+  agreement: { signedAt?: string; tenantSignature?: { signedAt: string }; ownerSignature?: { signedAt: string } }
+  checklist: Array<{ key: ChecklistKey; status: ChecklistStatus }>
+}
+
+const STATUS_TABS: Array<{ value: MoveInRow["status"]; label: string }> = [
+  { value: "in_progress", label: "In progress" },
+  { value: "complete", label: "Complete" },
+  { value: "cancelled", label: "Cancelled" },
+]
+
+/**
+ * Owner (and admin) view of tenants moving in: agreements to sign and documents to review
+ */
+export function OwnerMoveIns() {
+  const [moveIns, setMoveIns] = useState<OwnerMoveInRow[]>([])
+  const [statusFilter, setStatusFilter] = useState<MoveInRow["status"]>("in_progress")
+  const [isLoading, setIsLoading] = useState(true)
+  const [openId, setOpenId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchMoveIns()
+  }, [statusFilter])
+
+  const fetchMoveIns = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/move-ins?status=${statusFilter}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load move-ins")
+      setMoveIns(data.moveIns || [])
+    } catch (error) {
+      console.error("Error fetching move-ins:", error)
+      toast({ title: "Error", description: "Failed to load move-ins", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <>
+      <AgreementTemplateEditor />
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900">Move-ins</CardTitle>
+          <CardDescription className="text-gray-600">
+            Rental agreements and move-in checklists for confirmed bookings
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as MoveInRow["status"])}
+            className="mb-4"
+          >
+            <TabsList>
+              {STATUS_TABS.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  {tab.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : moveIns.length === 0 ? (
+            <div className="text-center py-8">
+              <ClipboardCheck className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">No move-ins here</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {moveIns.map((moveIn) => {
+                const approved = moveIn.checklist.filter((item) => item.status === "approved").length
+                const toReview = moveIn.checklist.filter((item) => item.status === "submitted").length
+                const bookingId = moveIn.booking?._id
+                return (
+                  <div key={moveIn._id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                      <div className="text-sm">
+                        <p className="font-semibold text-gray-900">
+                          {moveIn.tenant?.name || "Tenant"} · {moveIn.property?.title || "Property"}
+                        </p>
+                        <p className="text-gray-600">
+                          {moveIn.booking?.roomType} · check-in{" "}
+                          {moveIn.booking ? new Date(moveIn.booking.checkInDate).toLocaleDateString() : "-"}
+                        </p>
+                        <p className="text-gray-600">
+                          Agreement{" "}
+                          {moveIn.agreement.signedAt
+                            ? "signed"
+                            : moveIn.agreement.ownerSignature
+                              ? "awaiting the tenant"
+                              : "awaiting your signature"}{" "}
+                          · checklist {approved}/{moveIn.checklist.length} approved
+                          {toReview > 0 && <> · {toReview} to review</>}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <MoveInStatusBadge status={moveIn.status} />
+                        {bookingId && (
+                          <Button variant="outline" size="sm" onClick={() => setOpenId(openId === moveIn._id ? null : moveIn._id)}>
+                            {openId === moveIn._id ? "Close" : "Open"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {openId === moveIn._id && bookingId && <MoveInPanel bookingId={bookingId} />}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,246 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, PiggyBank } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+import {
+  DeductionList,
+  DeductionsEditor,
+  DepositStatusBadge,
+  postDepositAction,
+  type DepositRow,
+} from "@/components/booking-deposit"
+
+interface DepositBookingRow {
+  _id: string
+  roomType: string
+  checkInDate: string
+  status: string
+  property?: { title?: string }
+  user?: { name?: string; email?: string; phone?: string }
+  deposit: DepositRow
+}
+
+type StatusFilter = "all" | DepositRow["status"]
+
+type Editing = { bookingId: string; mode: "collect" | "inspect" | "resolve" | "refund" }
+
+/**
+ * Owner (and admin) view of security deposits: record collection, file move-out inspections, refund
+ */
+export function OwnerDeposits({ isAdmin }: { isAdmin: boolean }) {
+  const [bookings, setBookings] = useState<DepositBookingRow[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const [isLoading, setIsLoading] = useState(true)
+  const [editing, setEditing] = useState<Editing | null>(null)
+  const [deductions, setDeductions] = useState<Array<{ reason: string; amount: string }>>([])
+  const [note, setNote] = useState("")
+  const [reference, setReference] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchDeposits()
+  }, [statusFilter])
+
+  const fetchDeposits = async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (statusFilter !== "all") params.set("status", statusFilter)
+      const res = await fetch(`/api/deposits?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load deposits")
+      setBookings(data.bookings || [])
+    } catch (error) {
+      console.error("Error fetching deposits:", error)
+      toast({ title: "Error", description: "Failed to load deposits", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startEditing = (booking: DepositBookingRow, mode: Editing["mode"]) => {
+    setEditing({ bookingId: booking._id, mode })
+    const current = booking.deposit.inspection?.deductions ?? []
+    setDeductions(mode === "resolve" ? current.map((d) => ({ reason: d.reason, amount: String(d.amount) })) : [])
+    setNote("")
+    setReference("")
+  }
+
+  const handleSave = async (booking: DepositBookingRow) => {
+    if (!editing) return
+    const items = deductions.map((d) => ({ reason: d.reason, amount: Number(d.amount) }))
+    const bodies: Record<Editing["mode"], Record<string, unknown>> = {
+      collect: { action: "collect", reference: reference || undefined },
+      inspect: { action: "inspect", deductions: items, notes: note || undefined },
+      resolve: { action: "resolve", deductions: items, resolution: note },
+      refund: { action: "refund", reference: reference || undefined },
+    }
+
+    setIsSaving(true)
+    try {
+      await postDepositAction(booking._id, bodies[editing.mode])
+      toast({ title: "Deposit updated" })
+      setEditing(null)
+      await fetchDeposits()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update deposit",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const actionsFor = (booking: DepositBookingRow) => {
+    const { deposit } = booking
+    const actions: Array<{ mode: Editing["mode"]; label: string }> = []
+    if (deposit.status === "due" && booking.status !== "cancelled") actions.push({ mode: "collect", label: "Record received" })
+    if (deposit.status === "held") actions.push({ mode: "inspect", label: "Move-out inspection" })
+    if (deposit.status === "disputed" && isAdmin) actions.push({ mode: "resolve", label: "Resolve dispute" })
+    if (
+      deposit.status === "settled" &&
+      (deposit.refund?.status === "pending" || deposit.refund?.status === "failed") &&
+      (isAdmin || deposit.heldBy === "owner")
+    ) {
+      actions.push({ mode: "refund", label: "Record refund" })
+    }
+    return actions
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Security Deposits</CardTitle>
+            <CardDescription className="text-gray-600">
+              Deposits on your properties, from collection to move-out refund
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="due">Due</SelectItem>
+              <SelectItem value="held">Held</SelectItem>
+              <SelectItem value="inspected">Inspection filed</SelectItem>
+              <SelectItem value="disputed">Disputed</SelectItem>
+              <SelectItem value="settled">Settled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : bookings.length === 0 ? (
+          <div className="text-center py-8">
+            <PiggyBank className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No deposits yet. Set a deposit on your property to collect one with each booking.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {bookings.map((booking) => {
+              const { deposit } = booking
+              const isEditing = editing?.bookingId === booking._id
+              return (
+                <div key={booking._id} className="border border-gray-200 rounded-lg p-4 text-sm space-y-2">
+                  <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {booking.user?.name || booking.user?.email || "Tenant"} · {booking.property?.title || "Property"}
+                      </p>
+                      <p className="text-gray-600">
+                        {formatRupees(deposit.amount)} · {booking.roomType} · check-in{" "}
+                        {new Date(booking.checkInDate).toLocaleDateString()}
+                        {deposit.heldBy && <> · held by {deposit.heldBy === "platform" ? "SecondHome" : "you"}</>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <DepositStatusBadge deposit={deposit} />
+                      {!isEditing &&
+                        actionsFor(booking).map((action) => (
+                          <Button key={action.mode} size="sm" variant="outline" onClick={() => startEditing(booking, action.mode)}>
+                            {action.label}
+                          </Button>
+                        ))}
+                    </div>
+                  </div>
+
+                  {deposit.status !== "due" && deposit.status !== "held" && deposit.status !== "cancelled" && (
+                    <DeductionList deductions={deposit.status === "settled" ? deposit.deductions : deposit.inspection?.deductions ?? []} />
+                  )}
+                  {deposit.status === "inspected" && deposit.disputeWindowEndsAt && (
+                    <p className="text-gray-600">
+                      Tenant can dispute until {new Date(deposit.disputeWindowEndsAt).toLocaleDateString()}
+                    </p>
+                  )}
+                  {deposit.dispute && <p className="text-amber-700">Dispute: {deposit.dispute.reason}</p>}
+                  {deposit.dispute?.resolution && <p className="text-gray-600">Resolution: {deposit.dispute.resolution}</p>}
+                  {deposit.status === "settled" && deposit.refund && deposit.refund.amount > 0 && (
+                    <p className="text-gray-600">
+                      Refund {formatRupees(deposit.refund.amount)} · {deposit.refund.status}
+                      {deposit.refund.reference && <> · {deposit.refund.reference}</>}
+                      {deposit.refund.error && <span className="text-red-600"> · {deposit.refund.error}</span>}
+                    </p>
+                  )}
+
+                  {isEditing && editing && (
+                    <div className="space-y-2 border-t border-gray-100 pt-3">
+                      {(editing.mode === "inspect" || editing.mode === "resolve") && (
+                        <>
+                          <DeductionsEditor value={deductions} onChange={setDeductions} />
+                          <Textarea
+                            placeholder={editing.mode === "resolve" ? "Resolution (shown to tenant and owner)" : "Inspection notes"}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                          />
+                        </>
+                      )}
+                      {(editing.mode === "collect" || editing.mode === "refund") && (
+                        <Input
+                          placeholder={
+                            editing.mode === "collect"
+                              ? "Receipt or transfer reference (optional)"
+                              : isAdmin && deposit.heldBy === "platform"
+                                ? "Leave empty to refund through the gateway"
+                                : "UTR of the refund you sent"
+                          }
+                          value={reference}
+                          onChange={(e) => setReference(e.target.value)}
+                        />
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => handleSave(booking)} disabled={isSaving}>
+                          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,190 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { IndianRupee, Loader2 } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+interface EarningsSummary {
+  gross: number
+  commission: number
+  settlingInKit: number
+  net: number
+  paidOut: number
+  inPayout: number
+  available: number
+}
+
+interface LedgerEntryRow {
+  _id: string
+  type: "booking" | "rent" | "refund" | "deposit"
+  collectedBy: "platform" | "owner"
+  gross: number
+  commission: number
+  settlingInKit: number
+  net: number
+  description: string
+  occurredAt: string
+  payoutRun?: string
+  property?: { title?: string }
+}
+
+interface OwnerPayoutRow {
+  runId: string
+  reference: string
+  amount: number
+  status: "pending" | "paid" | "failed"
+  bankReference?: string
+  failureReason?: string
+  paidAt?: string
+  createdAt: string
+  accountNumber?: string
+}
+
+/**
+ * Owner earnings page: what we collected for them, what we kept, and what has been paid out
+ */
+export function OwnerEarnings() {
+  const [summary, setSummary] = useState<EarningsSummary | null>(null)
+  const [entries, setEntries] = useState<LedgerEntryRow[]>([])
+  const [payouts, setPayouts] = useState<OwnerPayoutRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchEarnings()
+  }, [])
+
+  const fetchEarnings = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch("/api/payouts/earnings")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load earnings")
+      setSummary(data.summary)
+      setEntries(data.entries || [])
+      setPayouts(data.payouts || [])
+    } catch (error) {
+      console.error("Error fetching earnings:", error)
+      toast({ title: "Error", description: "Failed to load earnings", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900">Earnings</CardTitle>
+          <CardDescription className="text-gray-600">
+            Bookings and rent collected for your properties, less platform commission and settling-in kits
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {summary && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Gross collected", value: summary.gross },
+                { label: "Commission", value: summary.commission },
+                { label: "Settling-in kits", value: summary.settlingInKit },
+                { label: "Net earnings", value: summary.net },
+                { label: "Paid out", value: summary.paidOut },
+                { label: "Payout in progress", value: summary.inPayout },
+                { label: "Next payout", value: summary.available },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg border border-gray-200 p-4">
+                  <p className="text-sm text-gray-600">{stat.label}</p>
+                  <p className="text-xl font-bold text-gray-900">{formatRupees(stat.value)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {summary && summary.available < 0 && (
+            <p className="mt-4 text-sm text-amber-700">
+              You collected some payments directly, so {formatRupees(-summary.available)} of platform fees will be
+              deducted from your next payout.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold text-gray-900">Payouts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {payouts.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No payouts yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {payouts.map((payout) => (
+                <div key={payout.runId} className="flex items-center justify-between border border-gray-200 rounded-lg p-4 text-sm">
+                  <div>
+                    <p className="font-semibold text-gray-900">{formatRupees(payout.amount)}</p>
+                    <p className="text-gray-600">
+                      {payout.reference}
+                      {payout.accountNumber && <> · to {payout.accountNumber}</>}
+                      {payout.bankReference && <> · UTR {payout.bankReference}</>}
+                    </p>
+                    {payout.failureReason && <p className="text-red-600">{payout.failureReason}</p>}
+                  </div>
+                  <div className="text-right">
+                    <Badge variant={payout.status === "paid" ? "default" : payout.status === "failed" ? "destructive" : "secondary"}>
+                      {payout.status === "pending" ? "processing" : payout.status}
+                    </Badge>
+                    <p className="text-gray-500 mt-1">{new Date(payout.paidAt || payout.createdAt).toLocaleDateString()}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold text-gray-900">Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="text-center py-8">
+              <IndianRupee className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">No earnings yet. Paid bookings and rent show up here.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <div key={entry._id} className="flex items-center justify-between border-b border-gray-100 py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{entry.description}</p>
+                    <p className="text-gray-600">
+                      {new Date(entry.occurredAt).toLocaleDateString()} · {formatRupees(entry.gross)} collected
+                      {entry.collectedBy === "owner" ? " by you" : ""}
+                      {entry.commission !== 0 && <> · {formatRupees(entry.commission)} commission</>}
+                      {entry.settlingInKit !== 0 && <> · {formatRupees(entry.settlingInKit)} kit</>}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-semibold ${entry.net < 0 ? "text-red-600" : "text-gray-900"}`}>{formatRupees(entry.net)}</p>
+                    <p className="text-xs text-gray-500">{entry.payoutRun ? "in payout" : "unsettled"}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
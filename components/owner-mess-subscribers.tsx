@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Users } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+import { MessHeadcount } from "@/components/meal-attendance"
+import { MessPassRedeem } from "@/components/mess-passes"
+import { MessBroadcasts } from "@/components/mess-broadcasts"
+import {
+  MessSubscriptionStatusBadge,
+  formatSubscriptionPeriod,
+  type MessSubscriptionRow,
+} from "@/components/mess-subscriptions"
+
+type StatusFilter = MessSubscriptionRow["status"]
+
+const STATUS_TABS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "pending", label: "Pending" },
+  { value: "active", label: "Active" },
+  { value: "expired", label: "Expired" },
+  { value: "cancelled", label: "Declined" },
+]
+
+/**
+ * Mess owner's daily headcount, pass redemption, messages to subscribers and
+ * subscribers by status, with accept/decline for new requests
+ */
+export function OwnerMessSubscribers() {
+  const [subscriptions, setSubscriptions] = useState<MessSubscriptionRow[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending")
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchSubscriptions()
+  }, [statusFilter])
+
+  const fetchSubscriptions = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/mess-subscriptions?scope=owner&status=${statusFilter}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load subscribers")
+      setSubscriptions(data.subscriptions || [])
+    } catch (error) {
+      console.error("Error fetching mess subscribers:", error)
+      toast({ title: "Error", description: "Failed to load subscribers", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDecision = async (subscription: MessSubscriptionRow, decision: "accept" | "reject") => {
+    let reason: string | null = null
+    if (decision === "reject") {
+      reason = window.prompt("Reason for declining (shown to the subscriber)", "")
+      if (reason === null) return
+    }
+
+    setBusyId(subscription._id)
+    try {
+      const res = await fetch(`/api/mess-subscriptions/${subscription._id}/${decision}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(reason ? { reason } : {}),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update subscription")
+
+      toast({
+        title: decision === "accept" ? "Subscription accepted" : "Subscription declined",
+        description:
+          decision === "accept" && data.subscription.status !== "active"
+            ? "It activates once the subscriber pays."
+            : undefined,
+      })
+      await fetchSubscriptions()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update subscription",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <>
+      <MessPassRedeem />
+      <MessHeadcount />
+      <MessBroadcasts />
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900">Mess Subscribers</CardTitle>
+          <CardDescription className="text-gray-600">
+            Accept new subscription requests and see who is subscribed to your messes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)} className="mb-4">
+            <TabsList>
+              {STATUS_TABS.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  {tab.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : subscriptions.length === 0 ? (
+            <div className="text-center py-8">
+              <Users className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">No {STATUS_TABS.find((tab) => tab.value === statusFilter)?.label.toLowerCase()} subscriptions</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {subscriptions.map((subscription) => {
+                const isBusy = busyId === subscription._id
+                return (
+                  <div
+                    key={subscription._id}
+                    className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3 justify-between"
+                  >
+                    <div className="text-sm">
+                      <p className="font-semibold text-gray-900">
+                        {subscription.subscriberName || subscription.subscriberEmail || "Subscriber"} ·{" "}
+                        {subscription.mess?.name || "Mess"}
+                      </p>
+                      <p className="text-gray-600">
+                        {formatSubscriptionPeriod(subscription)} · {formatRupees(subscription.monthlyPrice)}/month
+                        {subscription.renewalOf && <> · renewal</>}
+                      </p>
+                      <p className="text-gray-600">
+                        {[subscription.subscriberPhone, subscription.subscriberEmail].filter(Boolean).join(" · ")}
+                      </p>
+                      {subscription.rejectionReason && (
+                        <p className="text-gray-600">Reason: {subscription.rejectionReason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <MessSubscriptionStatusBadge subscription={subscription} />
+                      {subscription.status === "pending" && !subscription.acceptedAt && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDecision(subscription, "reject")}
+                            disabled={isBusy}
+                          >
+                            Decline
+                          </Button>
+                          <Button size="sm" onClick={() => handleDecision(subscription, "accept")} disabled={isBusy}>
+                            {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Accept
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,217 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Wallet } from "lucide-react"
+import {
+  RentStatusBadge,
+  formatRentPeriod,
+  formatRupees,
+  type RentInvoiceRow,
+  type RentSummary,
+} from "@/components/rent-statement"
+
+type StatusFilter = "all" | "open" | "partially_paid" | "paid"
+
+/**
+ * Owner view of rent invoices across their properties, with offline payment recording
+ */
+export function OwnerRentLedger() {
+  const [invoices, setInvoices] = useState<RentInvoiceRow[]>([])
+  const [summary, setSummary] = useState<RentSummary | null>(null)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const [isLoading, setIsLoading] = useState(true)
+  const [recordingId, setRecordingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [payment, setPayment] = useState({ amount: "", method: "cash", reference: "" })
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [statusFilter])
+
+  const fetchInvoices = async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ as: "owner" })
+      if (statusFilter !== "all") params.set("status", statusFilter)
+      const res = await fetch(`/api/rent-invoices?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load rent invoices")
+      setInvoices(data.invoices || [])
+      setSummary(data.summary || null)
+    } catch (error) {
+      console.error("Error fetching rent invoices:", error)
+      toast({ title: "Error", description: "Failed to load rent invoices", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startRecording = (invoice: RentInvoiceRow) => {
+    setRecordingId(invoice._id)
+    setPayment({ amount: String(invoice.balance), method: "cash", reference: "" })
+  }
+
+  const handleRecordPayment = async (invoice: RentInvoiceRow) => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/rent-invoices/${invoice._id}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: Number(payment.amount),
+          method: payment.method,
+          reference: payment.reference || undefined,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to record payment")
+
+      toast({ title: "Payment recorded", description: `${formatRupees(Number(payment.amount))} added to ${invoice.invoiceNumber}` })
+      setRecordingId(null)
+      await fetchInvoices()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Rent Collection</CardTitle>
+            <CardDescription className="text-gray-600">Monthly rent invoices for your tenants</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All invoices</SelectItem>
+              <SelectItem value="open">Due</SelectItem>
+              <SelectItem value="partially_paid">Partially paid</SelectItem>
+              <SelectItem value="paid">Paid</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: "Billed", value: summary.billed },
+              { label: "Collected", value: summary.collected },
+              { label: "Outstanding", value: summary.outstanding },
+              { label: "Overdue", value: summary.overdue },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600">{stat.label}</p>
+                <p className="text-xl font-bold text-gray-900">{formatRupees(stat.value)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : invoices.length === 0 ? (
+          <div className="text-center py-8">
+            <Wallet className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No rent invoices yet. They are created monthly for confirmed bookings.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {invoices.map((invoice) => (
+              <div key={invoice._id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                  <div className="text-sm">
+                    <p className="font-semibold text-gray-900">
+                      {invoice.tenant?.name || invoice.tenant?.email || "Tenant"} · {invoice.property?.title || "Property"}
+                    </p>
+                    <p className="text-gray-600">
+                      {invoice.invoiceNumber} · {formatRentPeriod(invoice)} · Due {new Date(invoice.dueDate).toLocaleDateString()}
+                    </p>
+                    <p className="text-gray-600">
+                      {formatRupees(invoice.rentAmount + invoice.lateFee)} billed · {formatRupees(invoice.amountPaid)} paid
+                      {invoice.balance > 0 && <> · {formatRupees(invoice.balance)} outstanding</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RentStatusBadge invoice={invoice} />
+                    {invoice.balance > 0 && invoice.status !== "void" && recordingId !== invoice._id && (
+                      <Button size="sm" variant="outline" onClick={() => startRecording(invoice)}>
+                        Record payment
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {recordingId === invoice._id && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                    <div>
+                      <Label htmlFor={`amount-${invoice._id}`}>Amount</Label>
+                      <Input
+                        id={`amount-${invoice._id}`}
+                        type="number"
+                        min={1}
+                        max={invoice.balance}
+                        value={payment.amount}
+                        onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label>Method</Label>
+                      <Select value={payment.method} onValueChange={(method) => setPayment({ ...payment, method })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="cash">Cash</SelectItem>
+                          <SelectItem value="bank_transfer">Bank transfer</SelectItem>
+                          <SelectItem value="upi">UPI</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor={`reference-${invoice._id}`}>Reference</Label>
+                      <Input
+                        id={`reference-${invoice._id}`}
+                        placeholder={payment.method === "cash" ? "Optional" : "UTR / transaction ID"}
+                        value={payment.reference}
+                        onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleRecordPayment(invoice)} disabled={isSaving}>
+                        {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Save
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRecordingId(null)} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
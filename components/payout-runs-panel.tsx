@@ -0,0 +1,254 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Download, Landmark, Loader2 } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+interface PayoutItemRow {
+  owner: string
+  amount: number
+  entryCount: number
+  beneficiary: { name: string; accountNumber?: string; ifscCode?: string }
+  status: "pending" | "paid" | "failed"
+  reference?: string
+  failureReason?: string
+}
+
+interface PayoutRunRow {
+  _id: string
+  reference: string
+  cutoff: string
+  status: "draft" | "processing" | "completed" | "cancelled"
+  totalAmount: number
+  items: PayoutItemRow[]
+  createdAt: string
+}
+
+/**
+ * Admin view of payout runs: create a run, download its files, record what the bank paid
+ */
+export function PayoutRunsPanel() {
+  const [runs, setRuns] = useState<PayoutRunRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null)
+  const [references, setReferences] = useState<Record<string, string>>({})
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchRuns()
+  }, [])
+
+  const fetchRuns = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch("/api/payouts/runs")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load payout runs")
+      setRuns(data.runs || [])
+    } catch (error) {
+      console.error("Error fetching payout runs:", error)
+      toast({ title: "Error", description: "Failed to load payout runs", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCreateRun = async () => {
+    setIsCreating(true)
+    try {
+      const res = await fetch("/api/payouts/runs", { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to create payout run")
+
+      const skipped = data.skipped?.length ? ` ${data.skipped.length} owner(s) skipped for missing bank details.` : ""
+      toast({
+        title: "Payout run created",
+        description: `${data.run.reference}: ${formatRupees(data.run.totalAmount)} to ${data.run.items.length} owner(s).${skipped}`,
+      })
+      setExpandedRunId(data.run._id)
+      await fetchRuns()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create payout run",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const updateRun = async (run: PayoutRunRow, body: Record<string, unknown>, key: string) => {
+    setBusyKey(key)
+    try {
+      const res = await fetch(`/api/payouts/runs/${run._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update payout run")
+      await fetchRuns()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update payout run",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const settleItem = (run: PayoutRunRow, item: PayoutItemRow, status: "paid" | "failed") => {
+    const value = references[`${run._id}:${item.owner}`]?.trim()
+    if (!value) {
+      toast({
+        title: status === "paid" ? "Bank reference required" : "Reason required",
+        description: status === "paid" ? "Enter the UTR the bank returned for this transfer" : "Enter why the transfer failed",
+        variant: "destructive",
+      })
+      return
+    }
+    updateRun(
+      run,
+      { action: "settle", items: [{ owner: item.owner, status, ...(status === "paid" ? { reference: value } : { failureReason: value }) }] },
+      `${run._id}:${item.owner}`,
+    )
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Owner Payouts</CardTitle>
+            <CardDescription className="text-gray-600">Settle what the platform owes each owner</CardDescription>
+          </div>
+          <Button onClick={handleCreateRun} disabled={isCreating}>
+            {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Landmark className="h-4 w-4 mr-2" />}
+            New payout run
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No payout runs yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map((run) => (
+              <div key={run._id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                  <button
+                    type="button"
+                    className="text-left text-sm"
+                    onClick={() => setExpandedRunId(expandedRunId === run._id ? null : run._id)}
+                  >
+                    <p className="font-semibold text-gray-900">
+                      {run.reference} · {formatRupees(run.totalAmount)}
+                    </p>
+                    <p className="text-gray-600">
+                      {run.items.length} owner(s) · up to {new Date(run.cutoff).toLocaleDateString()}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={run.status === "completed" ? "default" : run.status === "cancelled" ? "outline" : "secondary"}>
+                      {run.status}
+                    </Badge>
+                    {run.status !== "cancelled" && (
+                      <>
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={`/api/payouts/runs/${run._id}/export?format=csv`}>
+                            <Download className="h-4 w-4 mr-1" />
+                            CSV
+                          </a>
+                        </Button>
+                        {run.status !== "completed" && (
+                          <Button size="sm" variant="outline" asChild>
+                            <a href={`/api/payouts/runs/${run._id}/export?format=bank`} onClick={() => setTimeout(fetchRuns, 1500)}>
+                              <Download className="h-4 w-4 mr-1" />
+                              Bank file
+                            </a>
+                          </Button>
+                        )}
+                      </>
+                    )}
+                    {(run.status === "draft" || run.status === "processing") && !run.items.some((item) => item.status === "paid") && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busyKey === run._id}
+                        onClick={() => updateRun(run, { action: "cancel" }, run._id)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {expandedRunId === run._id && (
+                  <div className="mt-4 space-y-2">
+                    {run.items.map((item) => {
+                      const key = `${run._id}:${item.owner}`
+                      return (
+                        <div key={item.owner} className="flex flex-col md:flex-row md:items-center gap-2 justify-between border-t border-gray-100 pt-2 text-sm">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {item.beneficiary.name} · {formatRupees(item.amount)}
+                            </p>
+                            <p className="text-gray-600">
+                              {item.beneficiary.accountNumber} · {item.beneficiary.ifscCode} · {item.entryCount} entries
+                              {item.reference && <> · UTR {item.reference}</>}
+                              {item.failureReason && <> · {item.failureReason}</>}
+                            </p>
+                          </div>
+                          {item.status === "pending" && run.status !== "cancelled" ? (
+                            <div className="flex items-end gap-2">
+                              <div>
+                                <Label htmlFor={`ref-${key}`} className="sr-only">
+                                  Bank reference or failure reason
+                                </Label>
+                                <Input
+                                  id={`ref-${key}`}
+                                  placeholder="UTR / failure reason"
+                                  value={references[key] || ""}
+                                  onChange={(e) => setReferences({ ...references, [key]: e.target.value })}
+                                />
+                              </div>
+                              <Button size="sm" disabled={busyKey === key} onClick={() => settleItem(run, item, "paid")}>
+                                Paid
+                              </Button>
+                              <Button size="sm" variant="outline" disabled={busyKey === key} onClick={() => settleItem(run, item, "failed")}>
+                                Failed
+                              </Button>
+                            </div>
+                          ) : (
+                            <Badge variant={item.status === "paid" ? "default" : item.status === "failed" ? "destructive" : "secondary"}>
+                              {item.status}
+                            </Badge>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,673 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import { CalendarClock, Loader2, Plus, Video, X } from "lucide-react"
+import { useAuth } from "@/hooks/use-auth"
+
+type VisitStatus = "pending" | "confirmed" | "cancelled" | "completed"
+
+interface VisitRow {
+  _id: string
+  property?: { _id: string; title?: string; location?: string }
+  user?: { _id: string; name?: string; email?: string }
+  scheduledDate: string
+  scheduledTime: string
+  status: VisitStatus
+  notes?: string
+  contactMethod: "whatsapp" | "email" | "phone"
+  visitType?: "in_person" | "virtual"
+  virtualRoom?: { provider: "self_hosted" | "local"; opensAt: string; closesAt: string }
+  attendance?: { visitorJoinedAt?: string; ownerJoinedAt?: string }
+  attended?: boolean
+  followUpNotes?: string
+  booking?: string
+  visitorName?: string
+  visitorPhone?: string
+  visitorEmail?: string
+  rescheduledAt?: string
+  cancelledBy?: "visitor" | "owner" | "admin"
+  cancellationReason?: string
+}
+
+export interface VisitSlotRow {
+  _id: string
+  start: string
+  durationMinutes: number
+  status?: "open" | "booked"
+  visit?: { _id: string; visitorName?: string; status: VisitStatus }
+}
+
+const IST_TIME_ZONE = "Asia/Kolkata"
+
+export const formatSlotDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { timeZone: IST_TIME_ZONE, weekday: "short", day: "numeric", month: "short" })
+
+export const formatSlotTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-IN", { timeZone: IST_TIME_ZONE, hour: "2-digit", minute: "2-digit", hour12: true })
+
+/**
+ * Slots grouped under their (India) day, in order
+ */
+export function groupSlotsByDay<T extends { start: string }>(slots: T[]) {
+  const days = new Map<string, T[]>()
+  for (const slot of slots) {
+    const day = formatSlotDay(slot.start)
+    days.set(day, [...(days.get(day) || []), slot])
+  }
+  return [...days.entries()]
+}
+
+const todayKey = () => new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10)
+
+const DEFAULT_TIMES = ["10:00", "11:00", "12:00", "16:00", "17:00", "18:00"]
+
+function VisitStatusBadge({ visit }: { visit: VisitRow }) {
+  if (visit.status === "confirmed") return <Badge>confirmed</Badge>
+  if (visit.status === "completed") return <Badge variant="outline">completed</Badge>
+  if (visit.status === "cancelled") return <Badge variant="destructive">cancelled</Badge>
+  return <Badge variant="secondary">awaiting owner</Badge>
+}
+
+// Room links are only handed out while the room is open, so the page fetches them on join
+function isRoomOpen(visit: VisitRow, now: number) {
+  return (
+    visit.visitType === "virtual" &&
+    visit.status === "confirmed" &&
+    !!visit.virtualRoom &&
+    new Date(visit.virtualRoom.opensAt).getTime() <= now &&
+    now <= new Date(visit.virtualRoom.closesAt).getTime()
+  )
+}
+
+function JoinRoomButton({ visit }: { visit: VisitRow }) {
+  return (
+    <Button size="sm" asChild>
+      <Link href={`/visits/${visit._id}/room`}>
+        <Video className="w-4 h-4 mr-2" />
+        Join room
+      </Link>
+    </Button>
+  )
+}
+
+async function postVisitAction(visitId: string, action: "status" | "reschedule" | "follow-up", body: Record<string, unknown>) {
+  const res = await fetch(`/api/schedule-visit/${visitId}/${action}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || "Failed to update visit")
+  return data
+}
+
+/**
+ * Student's property visits: cancel upcoming ones, join virtual tours, and
+ * book the property once the visit has happened
+ */
+export function VisitStatement() {
+  const [visits, setVisits] = useState<VisitRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchVisits()
+  }, [])
+
+  const fetchVisits = async () => {
+    try {
+      const res = await fetch("/api/schedule-visit")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load visits")
+      setVisits(data.visits || [])
+    } catch (error) {
+      console.error("Error fetching visits:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancel = async (visit: VisitRow) => {
+    if (!window.confirm("Cancel this visit?")) return
+    setBusyId(visit._id)
+    try {
+      await postVisitAction(visit._id, "status", { status: "cancelled" })
+      toast({ title: "Visit cancelled" })
+      await fetchVisits()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel visit",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  if (visits.length === 0) {
+    return null
+  }
+
+  const now = Date.now()
+
+  return (
+    <Card className="bg-white mt-6">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <CalendarClock className="h-6 w-6" />
+          Property Visits
+        </CardTitle>
+        <CardDescription className="text-gray-600">Visits you&apos;ve booked with property owners</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {visits.map((visit) => {
+            const isUpcoming = new Date(visit.scheduledDate).getTime() > now
+            return (
+              <div
+                key={visit._id}
+                className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3 justify-between"
+              >
+                <div className="text-sm">
+                  <p className="font-semibold text-gray-900">
+                    {visit.property ? (
+                      <Link href={`/listings/${visit.property._id}`} className="hover:underline">
+                        {visit.property.title || "Property"}
+                      </Link>
+                    ) : (
+                      "Property"
+                    )}{" "}
+                    · {formatSlotDay(visit.scheduledDate)}, {visit.scheduledTime}
+                    {visit.visitType === "virtual" && <> · virtual tour</>}
+                  </p>
+                  {visit.property?.location && <p className="text-gray-600">{visit.property.location}</p>}
+                  {visit.visitType === "virtual" && visit.virtualRoom && isUpcoming && visit.status === "confirmed" && (
+                    <p className="text-gray-600">The video room opens at {formatSlotTime(visit.virtualRoom.opensAt)}</p>
+                  )}
+                  {visit.followUpNotes && <p className="text-gray-600">From the owner: {visit.followUpNotes}</p>}
+                  {visit.rescheduledAt && visit.status === "confirmed" && (
+                    <p className="text-gray-600">Rescheduled by the owner</p>
+                  )}
+                  {visit.cancellationReason && <p className="text-gray-600">Reason: {visit.cancellationReason}</p>}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <VisitStatusBadge visit={visit} />
+                  {isRoomOpen(visit, now) && <JoinRoomButton visit={visit} />}
+                  {visit.booking ? (
+                    <Badge variant="outline">booked</Badge>
+                  ) : (
+                    visit.property &&
+                    !isUpcoming &&
+                    (visit.status === "confirmed" || visit.status === "completed") && (
+                      <Button size="sm" asChild>
+                        <Link href={`/listings/${visit.property._id}?visit=${visit._id}`}>Book this property</Link>
+                      </Button>
+                    )
+                  )}
+                  {isUpcoming && (visit.status === "pending" || visit.status === "confirmed") && (
+                    <Button variant="outline" size="sm" onClick={() => handleCancel(visit)} disabled={busyId === visit._id}>
+                      {busyId === visit._id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Owner's availability for one of their properties: publish times on a day, withdraw open ones
+ */
+function VisitSlotManager() {
+  const { user } = useAuth()
+  const [properties, setProperties] = useState<Array<{ _id: string; title: string }>>([])
+  const [propertyId, setPropertyId] = useState("")
+  const [slots, setSlots] = useState<VisitSlotRow[]>([])
+  const [date, setDate] = useState(todayKey)
+  const [times, setTimes] = useState<string[]>(DEFAULT_TIMES)
+  const [newTime, setNewTime] = useState("")
+  const [durationMinutes, setDurationMinutes] = useState(30)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (user) fetchProperties()
+  }, [user])
+
+  useEffect(() => {
+    if (propertyId) fetchSlots()
+  }, [propertyId])
+
+  const fetchProperties = async () => {
+    try {
+      const res = await fetch("/api/properties")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load properties")
+      const mine = (data.properties || []).filter(
+        (property: { owner?: { _id?: string } | string }) =>
+          user?.role === "admin" ||
+          (typeof property.owner === "string" ? property.owner : property.owner?._id) === user?.id
+      )
+      setProperties(mine)
+      if (mine.length > 0) setPropertyId(mine[0]._id)
+    } catch (error) {
+      console.error("Error fetching properties for visit slots:", error)
+    }
+  }
+
+  const fetchSlots = async () => {
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/visit-slots?scope=owner`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load slots")
+      setSlots(data.slots || [])
+    } catch (error) {
+      console.error("Error fetching visit slots:", error)
+    }
+  }
+
+  const handlePublish = async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/visit-slots`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, times, durationMinutes }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to publish slots")
+
+      toast({
+        title: "Slots published",
+        description: data.slots.length === 0 ? "Those times were already published." : `${data.slots.length} new slot(s)`,
+      })
+      await fetchSlots()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to publish slots",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (slot: VisitSlotRow) => {
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/visit-slots?slotId=${slot._id}`, { method: "DELETE" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to remove slot")
+      await fetchSlots()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove slot",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (properties.length === 0) return null
+
+  return (
+    <Card className="bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-gray-900">Visit Availability</CardTitle>
+        <CardDescription className="text-gray-600">Publish the times students can book to see your property</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {properties.length > 1 && (
+          <select
+            value={propertyId}
+            onChange={(e) => setPropertyId(e.target.value)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {properties.map((property) => (
+              <option key={property._id} value={property._id}>
+                {property.title}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <Input type="date" className="w-44" min={todayKey()} value={date} onChange={(e) => e.target.value && setDate(e.target.value)} />
+          <select
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {[15, 30, 45, 60].map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} min
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          {times.map((time) => (
+            <Badge key={time} variant="secondary" className="gap-1">
+              {time}
+              <button type="button" onClick={() => setTimes(times.filter((entry) => entry !== time))} title="Remove time">
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          <Input type="time" className="w-32 h-8" value={newTime} onChange={(e) => setNewTime(e.target.value)} />
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            disabled={!newTime || times.includes(newTime)}
+            onClick={() => {
+              setTimes([...times, newTime].sort())
+              setNewTime("")
+            }}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button size="sm" className="ml-auto" onClick={handlePublish} disabled={isSaving || times.length === 0}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Publish
+          </Button>
+        </div>
+
+        {slots.length > 0 && (
+          <div className="space-y-2 text-sm">
+            {groupSlotsByDay(slots).map(([day, daySlots]) => (
+              <div key={day}>
+                <p className="font-medium text-gray-900 mb-1">{day}</p>
+                <div className="flex flex-wrap gap-1">
+                  {daySlots.map((slot) =>
+                    slot.status === "booked" ? (
+                      <Badge key={slot._id} title={slot.visit?.visitorName}>
+                        {formatSlotTime(slot.start)} · {slot.visit?.visitorName || "booked"}
+                      </Badge>
+                    ) : (
+                      <Badge key={slot._id} variant="outline" className="gap-1">
+                        {formatSlotTime(slot.start)}
+                        <button type="button" onClick={() => handleRemove(slot)} title="Withdraw slot">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    )
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const STATUS_TABS: Array<{ value: VisitStatus; label: string }> = [
+  { value: "pending", label: "Requests" },
+  { value: "confirmed", label: "Confirmed" },
+  { value: "completed", label: "Completed" },
+  { value: "cancelled", label: "Cancelled" },
+]
+
+/**
+ * Owner's visit requests: confirm, reschedule onto another slot, cancel, join
+ * virtual tours, mark done or no-show and leave follow-up notes, plus the
+ * availability they publish
+ */
+export function OwnerVisits() {
+  const [visits, setVisits] = useState<VisitRow[]>([])
+  const [statusFilter, setStatusFilter] = useState<VisitStatus>("pending")
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [rescheduleId, setRescheduleId] = useState<string | null>(null)
+  const [openSlots, setOpenSlots] = useState<VisitSlotRow[]>([])
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchVisits()
+  }, [statusFilter])
+
+  const fetchVisits = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/schedule-visit?scope=owner&status=${statusFilter}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load visits")
+      setVisits(data.visits || [])
+    } catch (error) {
+      console.error("Error fetching visit requests:", error)
+      toast({ title: "Error", description: "Failed to load visits", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const runAction = async (visit: VisitRow, action: "status" | "reschedule" | "follow-up", body: Record<string, unknown>, done: string) => {
+    setBusyId(visit._id)
+    try {
+      await postVisitAction(visit._id, action, body)
+      toast({ title: done })
+      setRescheduleId(null)
+      await fetchVisits()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update visit",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCancel = (visit: VisitRow) => {
+    const reason = window.prompt("Reason for cancelling (shown to the visitor)", "")
+    if (reason === null) return
+    runAction(visit, "status", { status: "cancelled", reason }, "Visit cancelled")
+  }
+
+  const handleFollowUp = (visit: VisitRow) => {
+    const notes = window.prompt("Follow-up notes (shared with the visitor)", visit.followUpNotes || "")
+    if (!notes?.trim()) return
+    runAction(visit, "follow-up", { notes }, "Follow-up saved")
+  }
+
+  const openReschedule = async (visit: VisitRow) => {
+    if (rescheduleId === visit._id) {
+      setRescheduleId(null)
+      return
+    }
+    setRescheduleId(visit._id)
+    setOpenSlots([])
+    try {
+      const res = await fetch(`/api/properties/${visit.property?._id}/visit-slots`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load slots")
+      setOpenSlots(data.slots || [])
+    } catch (error) {
+      console.error("Error fetching open slots:", error)
+    }
+  }
+
+  const now = Date.now()
+
+  return (
+    <>
+      <VisitSlotManager />
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900">Property Visits</CardTitle>
+          <CardDescription className="text-gray-600">Visits students have booked at your properties</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as VisitStatus)} className="mb-4">
+            <TabsList>
+              {STATUS_TABS.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  {tab.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visits.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarClock className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">No {STATUS_TABS.find((tab) => tab.value === statusFilter)?.label.toLowerCase()}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {visits.map((visit) => {
+                const isBusy = busyId === visit._id
+                const isActive = visit.status === "pending" || visit.status === "confirmed"
+                const hasStarted = new Date(visit.scheduledDate).getTime() <= now
+                return (
+                  <div key={visit._id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                      <div className="text-sm">
+                        <p className="font-semibold text-gray-900">
+                          {visit.visitorName || visit.user?.name || "Visitor"} · {visit.property?.title || "Property"}
+                        </p>
+                        <p className="text-gray-600">
+                          {formatSlotDay(visit.scheduledDate)}, {visit.scheduledTime}
+                          {visit.visitType === "virtual" && <> · virtual tour</>}
+                          {visit.rescheduledAt && <> · rescheduled</>}
+                        </p>
+                        <p className="text-gray-600">
+                          {[visit.visitorPhone, visit.visitorEmail || visit.user?.email].filter(Boolean).join(" · ")} ·
+                          prefers {visit.contactMethod}
+                        </p>
+                        {visit.notes && <p className="text-gray-600">Notes: {visit.notes}</p>}
+                        {visit.cancellationReason && <p className="text-gray-600">Reason: {visit.cancellationReason}</p>}
+                        {visit.visitType === "virtual" && (visit.attendance?.visitorJoinedAt || visit.attendance?.ownerJoinedAt) && (
+                          <p className="text-gray-600">
+                            Joined:{" "}
+                            {[
+                              visit.attendance?.visitorJoinedAt && `visitor at ${formatSlotTime(visit.attendance.visitorJoinedAt)}`,
+                              visit.attendance?.ownerJoinedAt && `you at ${formatSlotTime(visit.attendance.ownerJoinedAt)}`,
+                            ]
+                              .filter(Boolean)
+                              .join(", ")}
+                          </p>
+                        )}
+                        {visit.status === "completed" && visit.attended !== undefined && (
+                          <p className="text-gray-600">{visit.attended ? "Visitor attended" : "Visitor didn't turn up"}</p>
+                        )}
+                        {visit.followUpNotes && <p className="text-gray-600">Follow-up: {visit.followUpNotes}</p>}
+                        {visit.booking && <p className="text-gray-600">Booked after this visit</p>}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <VisitStatusBadge visit={visit} />
+                        {isRoomOpen(visit, now) && <JoinRoomButton visit={visit} />}
+                        {isActive && !hasStarted && (
+                          <Button variant="outline" size="sm" onClick={() => openReschedule(visit)} disabled={isBusy}>
+                            Reschedule
+                          </Button>
+                        )}
+                        {isActive && (
+                          <Button variant="outline" size="sm" onClick={() => handleCancel(visit)} disabled={isBusy}>
+                            Cancel
+                          </Button>
+                        )}
+                        {visit.status === "pending" && !hasStarted && (
+                          <Button
+                            size="sm"
+                            onClick={() => runAction(visit, "status", { status: "confirmed" }, "Visit confirmed")}
+                            disabled={isBusy}
+                          >
+                            {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Confirm
+                          </Button>
+                        )}
+                        {visit.status === "confirmed" && hasStarted && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                runAction(visit, "status", { status: "completed", attended: false }, "Marked as no-show")
+                              }
+                              disabled={isBusy}
+                            >
+                              No-show
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() =>
+                                runAction(visit, "status", { status: "completed", attended: true }, "Visit marked done")
+                              }
+                              disabled={isBusy}
+                            >
+                              Mark done
+                            </Button>
+                          </>
+                        )}
+                        {(visit.status === "completed" || (visit.status === "confirmed" && hasStarted)) && (
+                          <Button variant="outline" size="sm" onClick={() => handleFollowUp(visit)} disabled={isBusy}>
+                            {visit.followUpNotes ? "Edit follow-up" : "Add follow-up"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {rescheduleId === visit._id && (
+                      <div className="text-sm space-y-2">
+                        {openSlots.length === 0 ? (
+                          <p className="text-gray-600">No open slots. Publish more times above first.</p>
+                        ) : (
+                          groupSlotsByDay(openSlots).map(([day, daySlots]) => (
+                            <div key={day}>
+                              <p className="font-medium text-gray-900 mb-1">{day}</p>
+                              <div className="flex flex-wrap gap-1">
+                                {daySlots.map((slot) => (
+                                  <Button
+                                    key={slot._id}
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={isBusy}
+                                    onClick={() => runAction(visit, "reschedule", { slotId: slot._id }, "Visit rescheduled")}
+                                  >
+                                    {formatSlotTime(slot.start)}
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Receipt, RefreshCw } from "lucide-react"
+
+export interface RentInvoiceRow {
+  _id: string
+  invoiceNumber: string
+  property?: { _id: string; title?: string; location?: string }
+  tenant?: { _id: string; name?: string; email?: string }
+  periodStart: string
+  periodEnd: string
+  dueDate: string
+  rentAmount: number
+  lateFee: number
+  amountPaid: number
+  balance: number
+  overdue: boolean
+  status: "open" | "partially_paid" | "paid" | "void"
+}
+
+export interface RentSummary {
+  billed: number
+  collected: number
+  outstanding: number
+  overdue: number
+}
+
+export const formatRupees = (amount: number) => `₹${(amount || 0).toLocaleString("en-IN")}`
+
+export const formatRentPeriod = (invoice: RentInvoiceRow) =>
+  `${new Date(invoice.periodStart).toLocaleDateString()} – ${new Date(invoice.periodEnd).toLocaleDateString()}`
+
+export function RentStatusBadge({ invoice }: { invoice: RentInvoiceRow }) {
+  if (invoice.status === "paid") return <Badge>paid</Badge>
+  if (invoice.status === "void") return <Badge variant="outline">void</Badge>
+  if (invoice.overdue) return <Badge variant="destructive">overdue</Badge>
+  return <Badge variant="secondary">{invoice.status === "partially_paid" ? "partially paid" : "due"}</Badge>
+}
+
+/**
+ * Tenant's monthly rent statement, with Razorpay payment for open invoices
+ */
+export function RentStatement() {
+  const [invoices, setInvoices] = useState<RentInvoiceRow[]>([])
+  const [summary, setSummary] = useState<RentSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyInvoiceId, setBusyInvoiceId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [])
+
+  const fetchInvoices = async () => {
+    try {
+      const res = await fetch("/api/rent-invoices")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load rent statement")
+      setInvoices(data.invoices || [])
+      setSummary(data.summary || null)
+    } catch (error) {
+      console.error("Error fetching rent invoices:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePay = async (invoice: RentInvoiceRow) => {
+    const input = window.prompt(
+      `Amount to pay for ${invoice.invoiceNumber} (outstanding ${formatRupees(invoice.balance)})`,
+      String(invoice.balance)
+    )
+    if (input === null) return
+
+    const amount = Number(input)
+    if (!(amount > 0) || amount > invoice.balance) {
+      toast({ title: "Invalid amount", description: `Enter up to ${formatRupees(invoice.balance)}`, variant: "destructive" })
+      return
+    }
+
+    setBusyInvoiceId(invoice._id)
+    try {
+      const res = await fetch("/api/payment/razorpay/payment-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rentInvoiceId: invoice._id, amount }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to start payment")
+
+      window.open(data.shortUrl, "_blank")
+      toast({
+        title: "Complete your payment",
+        description: "Once paid, use \"Check payment\" to update your statement.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start payment",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyInvoiceId(null)
+    }
+  }
+
+  const handleCheckPayment = async (invoice: RentInvoiceRow) => {
+    setBusyInvoiceId(invoice._id)
+    try {
+      const res = await fetch(`/api/payment/razorpay/verify?rentInvoiceId=${invoice._id}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to check payment")
+
+      if (data.amountPaid > invoice.amountPaid) {
+        toast({ title: "Payment received", description: data.isPaid ? "This invoice is fully paid" : `${formatRupees(data.balance)} remaining` })
+        await fetchInvoices()
+      } else {
+        toast({ title: "No new payment yet", description: "It can take a minute for payments to show up." })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check payment",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyInvoiceId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  if (invoices.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="bg-white mt-6">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Receipt className="h-6 w-6" />
+          Rent Statement
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          Monthly rent after your first month
+          {summary && summary.outstanding > 0 && (
+            <>
+              {" "}· <span className="font-semibold text-gray-900">{formatRupees(summary.outstanding)} outstanding</span>
+              {summary.overdue > 0 && <span className="text-red-600"> ({formatRupees(summary.overdue)} overdue)</span>}
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {invoices.map((invoice) => (
+            <div key={invoice._id} className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-3 justify-between">
+              <div className="text-sm">
+                <p className="font-semibold text-gray-900">
+                  {invoice.property?.title || "Property"} · {formatRentPeriod(invoice)}
+                </p>
+                <p className="text-gray-600">
+                  {invoice.invoiceNumber} · Due {new Date(invoice.dueDate).toLocaleDateString()}
+                </p>
+                <p className="text-gray-600">
+                  Rent {formatRupees(invoice.rentAmount)}
+                  {invoice.lateFee > 0 && <> + late fee {formatRupees(invoice.lateFee)}</>}
+                  {invoice.amountPaid > 0 && <> · Paid {formatRupees(invoice.amountPaid)}</>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <RentStatusBadge invoice={invoice} />
+                {(invoice.status === "open" || invoice.status === "partially_paid") && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCheckPayment(invoice)}
+                      disabled={busyInvoiceId === invoice._id}
+                      title="Check payment"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" onClick={() => handlePay(invoice)} disabled={busyInvoiceId === invoice._id}>
+                      {busyInvoiceId === invoice._id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Pay {formatRupees(invoice.balance)}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,512 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Loader2, Mail, Phone, UserPlus, Users, X } from "lucide-react"
+
+type Option = { value: string; label: string }
+
+interface RoommateOptions {
+  sleepSchedule: Option[]
+  diet: Option[]
+  studyHabits: Option[]
+  smoking: Option[]
+}
+
+interface ProfileForm {
+  active: boolean
+  sleepSchedule: string
+  diet: string
+  studyHabits: string
+  smoking: string
+  bio: string
+  moveInMonth: string
+  areas: string
+}
+
+interface Suggestion {
+  userId: string
+  name: string
+  college?: string
+  sleepSchedule: string
+  diet: string
+  studyHabits: string
+  smoking: string
+  bio?: string
+  moveInMonth?: string
+  score: number
+  matches: string[]
+  conflicts: string[]
+  sharedProperties: Array<{ _id: string; title?: string }>
+  sharedAreas: string[]
+  bookedHere: boolean
+  connection: { _id: string; status: string; direction: "incoming" | "outgoing" } | null
+}
+
+interface Connection {
+  _id: string
+  status: "pending" | "accepted"
+  direction: "incoming" | "outgoing"
+  message?: string
+  score?: number
+  property?: { _id: string; title?: string }
+  student: { userId: string; name?: string; college?: string; email?: string; phone?: string }
+}
+
+const EMPTY_FORM: ProfileForm = {
+  active: true,
+  sleepSchedule: "flexible",
+  diet: "veg",
+  studyHabits: "flexible",
+  smoking: "never",
+  bio: "",
+  moveInMonth: "",
+  areas: "",
+}
+
+const QUESTIONS: Array<{ key: keyof RoommateOptions; label: string }> = [
+  { key: "sleepSchedule", label: "Sleep schedule" },
+  { key: "diet", label: "Diet" },
+  { key: "studyHabits", label: "Study habits" },
+  { key: "smoking", label: "Smoking" },
+]
+
+function optionLabel(options: RoommateOptions | null, key: keyof RoommateOptions, value: string) {
+  return options?.[key].find((option) => option.value === value)?.label || value
+}
+
+/**
+ * Roommate matching on the profile page: the opt-in questionnaire, followed
+ * properties, suggestions and connection requests
+ */
+export function RoommateFinder() {
+  const [options, setOptions] = useState<RoommateOptions | null>(null)
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM)
+  const [hasProfile, setHasProfile] = useState(false)
+  const [properties, setProperties] = useState<Array<{ _id: string; title?: string; location?: string }>>([])
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [connections, setConnections] = useState<Connection[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchAll()
+  }, [])
+
+  const fetchAll = async () => {
+    try {
+      const res = await fetch("/api/roommates/profile")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load roommate profile")
+      setOptions(data.options)
+      if (data.profile) {
+        setHasProfile(true)
+        setProperties(data.profile.properties || [])
+        setForm({
+          active: data.profile.active,
+          sleepSchedule: data.profile.sleepSchedule,
+          diet: data.profile.diet,
+          studyHabits: data.profile.studyHabits,
+          smoking: data.profile.smoking,
+          bio: data.profile.bio || "",
+          moveInMonth: data.profile.moveInMonth || "",
+          areas: (data.profile.areas || []).join(", "),
+        })
+        if (data.profile.active) await fetchMatches()
+      }
+    } catch (error) {
+      console.error("Error fetching roommate profile:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchMatches = async () => {
+    try {
+      const [suggestionsRes, connectionsRes] = await Promise.all([
+        fetch("/api/roommates/suggestions"),
+        fetch("/api/roommates/connections"),
+      ])
+      const suggestionsData = await suggestionsRes.json()
+      const connectionsData = await connectionsRes.json()
+      if (suggestionsRes.ok) setSuggestions(suggestionsData.suggestions || [])
+      if (connectionsRes.ok) setConnections(connectionsData.connections || [])
+    } catch (error) {
+      console.error("Error fetching roommate matches:", error)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch("/api/roommates/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          areas: form.areas
+            .split(",")
+            .map((area) => area.trim())
+            .filter(Boolean),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save your answers")
+      setHasProfile(true)
+      toast({ title: form.active ? "Roommate matching is on" : "Roommate matching is off" })
+      if (form.active) await fetchMatches()
+      else setSuggestions([])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save your answers",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUnfollow = async (propertyId: string) => {
+    try {
+      const res = await fetch(`/api/roommates/interests?propertyId=${propertyId}`, { method: "DELETE" })
+      if (!res.ok) throw new Error("Failed to unfollow")
+      setProperties(properties.filter((property) => property._id !== propertyId))
+      if (form.active) await fetchMatches()
+    } catch (error) {
+      console.error("Error removing roommate interest:", error)
+    }
+  }
+
+  const handleConnect = async (suggestion: Suggestion) => {
+    setBusyId(suggestion.userId)
+    try {
+      const res = await fetch("/api/roommates/connections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: suggestion.userId, propertyId: suggestion.sharedProperties[0]?._id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to send request")
+      toast({
+        title: data.connection.status === "accepted" ? "You're connected" : "Request sent",
+        description:
+          data.connection.status === "accepted"
+            ? `You can now see ${suggestion.name}'s contact details.`
+            : `${suggestion.name} will see your request.`,
+      })
+      await fetchMatches()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send request",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRespond = async (connectionId: string, action: "accept" | "decline" | "withdraw") => {
+    setBusyId(connectionId)
+    try {
+      const res = await fetch(`/api/roommates/connections/${connectionId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update request")
+      await fetchMatches()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update request",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  const incoming = connections.filter((connection) => connection.status === "pending" && connection.direction === "incoming")
+  const outgoing = connections.filter((connection) => connection.status === "pending" && connection.direction === "outgoing")
+  const accepted = connections.filter((connection) => connection.status === "accepted")
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900">Find a roommate</CardTitle>
+          <CardDescription className="text-gray-600">
+            Answer a few questions to be matched with students looking at the same PGs or areas. Others only see your
+            first name, college and these answers until you both accept a request.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="roommate-active"
+              checked={form.active}
+              onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+            />
+            <Label htmlFor="roommate-active">I&apos;m looking for a roommate</Label>
+          </div>
+          <div className="grid gap-3 md:grid-cols-2">
+            {QUESTIONS.map((question) => (
+              <div key={question.key} className="space-y-1">
+                <Label htmlFor={`roommate-${question.key}`}>{question.label}</Label>
+                <select
+                  id={`roommate-${question.key}`}
+                  value={form[question.key]}
+                  onChange={(e) => setForm({ ...form, [question.key]: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  {options?.[question.key].map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="roommate-move-in">Moving in (month)</Label>
+              <Input
+                id="roommate-move-in"
+                type="month"
+                value={form.moveInMonth}
+                onChange={(e) => setForm({ ...form, moveInMonth: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="roommate-areas">Areas (comma separated)</Label>
+              <Input
+                id="roommate-areas"
+                value={form.areas}
+                onChange={(e) => setForm({ ...form, areas: e.target.value })}
+                placeholder="e.g. Koramangala, HSR Layout"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="roommate-bio">About you (optional)</Label>
+            <Textarea
+              id="roommate-bio"
+              value={form.bio}
+              onChange={(e) => setForm({ ...form, bio: e.target.value })}
+              rows={2}
+              maxLength={300}
+              placeholder="Course, hobbies, what you're like to live with"
+            />
+          </div>
+          {properties.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Properties you&apos;re following</p>
+              <div className="flex flex-wrap gap-2">
+                {properties.map((property) => (
+                  <Badge key={property._id} variant="secondary" className="gap-1">
+                    <Link href={`/listings/${property._id}`}>{property.title || "Property"}</Link>
+                    <button type="button" onClick={() => handleUnfollow(property._id)} aria-label="Unfollow">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {hasProfile ? "Save" : "Start matching"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {hasProfile && form.active && (
+        <>
+          {(incoming.length > 0 || accepted.length > 0 || outgoing.length > 0) && (
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold text-gray-900">Your roommate requests</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {incoming.map((connection) => (
+                  <div key={connection._id} className="rounded-lg border p-3 flex items-start justify-between gap-4">
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        {connection.student.name}
+                        {connection.student.college && ` · ${connection.student.college}`}
+                        {connection.score !== undefined && ` · ${connection.score}% match`}
+                      </p>
+                      {connection.property?.title && <p className="text-gray-500">For {connection.property.title}</p>}
+                      {connection.message && <p className="text-gray-600 mt-1">&ldquo;{connection.message}&rdquo;</p>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleRespond(connection._id, "accept")}
+                        disabled={busyId === connection._id}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRespond(connection._id, "decline")}
+                        disabled={busyId === connection._id}
+                      >
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {accepted.map((connection) => (
+                  <div key={connection._id} className="rounded-lg border p-3 text-sm">
+                    <p className="font-medium">
+                      {connection.student.name}
+                      {connection.student.college && ` · ${connection.student.college}`}
+                      <Badge className="ml-2">connected</Badge>
+                    </p>
+                    <div className="flex flex-wrap gap-4 mt-1 text-gray-600">
+                      {connection.student.phone && (
+                        <a href={`tel:${connection.student.phone}`} className="flex items-center gap-1">
+                          <Phone className="w-3 h-3" />
+                          {connection.student.phone}
+                        </a>
+                      )}
+                      {connection.student.email && (
+                        <a href={`mailto:${connection.student.email}`} className="flex items-center gap-1">
+                          <Mail className="w-3 h-3" />
+                          {connection.student.email}
+                        </a>
+                      )}
+                    </div>
+                    {connection.property && (
+                      <Button size="sm" variant="outline" className="mt-2" asChild>
+                        <Link href={`/listings/${connection.property._id}?bookWith=${connection._id}`}>
+                          <Users className="w-4 h-4 mr-2" />
+                          Book {connection.property.title || "this property"} together
+                        </Link>
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {outgoing.map((connection) => (
+                  <div key={connection._id} className="rounded-lg border p-3 flex items-center justify-between gap-4">
+                    <p className="text-sm">
+                      Waiting for {connection.student.name}
+                      {connection.student.college && ` (${connection.student.college})`}
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRespond(connection._id, "withdraw")}
+                      disabled={busyId === connection._id}
+                    >
+                      Withdraw
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle className="text-xl font-semibold text-gray-900">Suggested roommates</CardTitle>
+              <CardDescription className="text-gray-600">
+                Students following the same properties or areas, best matches first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No matches yet. Follow a PG with shared rooms from its listing page, or add the areas you&apos;re
+                  looking at.
+                </p>
+              ) : (
+                suggestions.map((suggestion) => (
+                  <div key={suggestion.userId} className="rounded-lg border p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">
+                          {suggestion.name}
+                          {suggestion.college && <span className="text-gray-500"> · {suggestion.college}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {suggestion.bookedHere && "Has booked a shared room · "}
+                          {[
+                            ...suggestion.sharedProperties.map((property) => property.title),
+                            ...suggestion.sharedAreas,
+                          ]
+                            .filter(Boolean)
+                            .join(", ")}
+                        </p>
+                      </div>
+                      <Badge variant={suggestion.score >= 75 ? "default" : "secondary"}>{suggestion.score}% match</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {QUESTIONS.map((question) => optionLabel(options, question.key, suggestion[question.key])).join(
+                        " · ",
+                      )}
+                      {suggestion.moveInMonth && ` · moving in ${suggestion.moveInMonth}`}
+                    </p>
+                    {suggestion.bio && <p className="text-sm text-gray-600">{suggestion.bio}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {suggestion.matches.map((match) => (
+                        <Badge key={match} variant="outline" className="text-green-700 border-green-200">
+                          {match}
+                        </Badge>
+                      ))}
+                      {suggestion.conflicts.map((conflict) => (
+                        <Badge key={conflict} variant="outline" className="text-amber-700 border-amber-200">
+                          {conflict}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex justify-end">
+                      {suggestion.connection?.status === "accepted" ? (
+                        <Badge>connected</Badge>
+                      ) : suggestion.connection?.status === "pending" && suggestion.connection.direction === "outgoing" ? (
+                        <Badge variant="secondary">request sent</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() => handleConnect(suggestion)}
+                          disabled={busyId === suggestion.userId}
+                        >
+                          <UserPlus className="w-4 h-4 mr-2" />
+                          {suggestion.connection?.status === "pending" ? "Accept request" : "Connect"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
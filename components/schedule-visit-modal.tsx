@@ -15,12 +15,10 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/components/ui/use-toast"
-import { Loader2, Calendar, Clock, User, Phone, Mail } from "lucide-react"
+import { Loader2, Calendar, Clock, User, Phone, Mail, MapPin, Video } from "lucide-react"
 import { motion } from "framer-motion"
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
-import { Calendar as CalendarComponent } from "@/components/ui/calendar"
-import { format } from "date-fns"
 import { useAuth } from "@/hooks/use-auth"
+import { formatSlotTime, groupSlotsByDay, type VisitSlotRow } from "@/components/property-visits"
 
 interface ScheduleVisitModalProps {
   isOpen: boolean
@@ -36,8 +34,11 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
   const [name, setName] = useState("")
   const [phone, setPhone] = useState("")
   const [email, setEmail] = useState("")
-  const [date, setDate] = useState<Date | undefined>(undefined)
-  const [time, setTime] = useState("")
+  const [slots, setSlots] = useState<VisitSlotRow[]>([])
+  const [slotId, setSlotId] = useState("")
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false)
+  const [visitType, setVisitType] = useState<"in_person" | "virtual">("in_person")
+  const [contactMethod, setContactMethod] = useState<"whatsapp" | "phone" | "email">("whatsapp")
   const [notes, setNotes] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
@@ -51,7 +52,38 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
     }
   }, [user])
 
+  useEffect(() => {
+    if (isOpen) fetchSlots()
+  }, [isOpen, propertyId])
+
+  const fetchSlots = async () => {
+    setIsLoadingSlots(true)
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/visit-slots`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load visit times")
+      setSlots(data.slots || [])
+    } catch (error) {
+      console.error("Error fetching visit slots:", error)
+      setSlots([])
+    } finally {
+      setIsLoadingSlots(false)
+    }
+  }
+
+  // Without published slots, fall back to asking our team on WhatsApp
+  const handleAskOnWhatsApp = () => {
+    const businessNumber = "917384662005"
+    const message = `Hi! I'd like to visit "${propertyName}" (ID ${propertyId}) on SecondHome. When can I come?`
+    window.open(`https://wa.me/${businessNumber}?text=${encodeURIComponent(message)}`, "_blank")
+  }
+
   const handleSchedule = async () => {
+    if (!user) {
+      router.push("/login")
+      return
+    }
+
     // Validate required fields
     if (!name.trim()) {
       toast({
@@ -62,15 +94,6 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
       return
     }
 
-    if (!phone.trim()) {
-      toast({
-        title: "Phone required",
-        description: "Please enter your phone number",
-        variant: "destructive",
-      })
-      return
-    }
-
     // Validate phone format
     const phoneRegex = /^[6-9]\d{9}$/
     const cleanPhone = phone.replace(/\D/g, "")
@@ -83,18 +106,9 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
       return
     }
 
-    if (!email.trim()) {
-      toast({
-        title: "Email required",
-        description: "Please enter your email address",
-        variant: "destructive",
-      })
-      return
-    }
-
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(email)) {
+    if (email.trim() && !emailRegex.test(email)) {
       toast({
         title: "Invalid email",
         description: "Please enter a valid email address",
@@ -103,10 +117,10 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
       return
     }
 
-    if (!date || !time) {
+    if (!slotId) {
       toast({
-        title: "Date and time required",
-        description: "Please select both date and time for your visit",
+        title: "Time required",
+        description: "Please pick one of the available visit times",
         variant: "destructive",
       })
       return
@@ -115,101 +129,44 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
     setIsProcessing(true)
 
     try {
-      // Format the WhatsApp message
-      const formattedDate = format(date, "EEEE, MMMM dd, yyyy")
-      const visitMessage = `Property Visit Request - SecondHome
-
-    Property Details:
-    Property: ${propertyName}
-    Property ID: ${propertyId}
-
-    Visitor Information:
-    Name: ${name}
-    Phone: ${phone}
-    Email: ${email}
-
-    Visit Schedule:
-    Date: ${formattedDate}
-    Time: ${time}
-
-    ${notes ? `Additional Notes:\n${notes}\n\n` : ""}---
-    This is an automated message from SecondHome platform.
-    Please confirm the visit schedule with the visitor.`
-
-      // Send to business number 7384662005 (917384662005 in international format)
-      const businessNumber = "917384662005"
-      
-      // Try to send via WhatsApp API first
-      try {
-        const response = await fetch("/api/whatsapp/send", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            phoneNumber: businessNumber,
-            message: visitMessage,
-            propertyId: propertyId,
-          }),
-        })
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}))
-          console.warn("WhatsApp API failed, using direct link:", errorData)
-          // Fall through to direct WhatsApp link
-        } else {
-          const result = await response.json()
-          if (result.success) {
-            // API succeeded, continue
-          } else {
-            throw new Error(result.error || "API returned failure")
-          }
+      const response = await fetch("/api/schedule-visit", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          slotId,
+          name,
+          phone: cleanPhone,
+          email,
+          notes,
+          contactMethod,
+          visitType,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        // Someone else took the slot; show what's left
+        if (response.status === 409) {
+          setSlotId("")
+          fetchSlots()
         }
-      } catch (apiError) {
-        console.warn("WhatsApp API error, using direct link:", apiError)
-        // Fall through to direct WhatsApp link
-      }
-
-      // Always open WhatsApp with the message (fallback or primary method)
-      const whatsappUrl = `https://wa.me/${businessNumber}?text=${encodeURIComponent(visitMessage)}`
-      window.open(whatsappUrl, "_blank")
-
-      // Also save to database
-      try {
-        await fetch("/api/schedule-visit", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            propertyId,
-            name,
-            phone,
-            email,
-            date: format(date, "yyyy-MM-dd"),
-            time,
-            notes,
-          }),
-        })
-      } catch (dbError) {
-        console.error("Failed to save to database:", dbError)
-        // Don't fail the whole process if DB save fails
+        throw new Error(data.error || "Failed to book the visit")
       }
 
       setIsSuccess(true)
 
       toast({
-        title: "Visit request sent! ✅",
-        description: "Your visit request has been sent to our team. We'll contact you shortly to confirm.",
+        title: visitType === "virtual" ? "Virtual tour requested! ✅" : "Visit requested! ✅",
+        description:
+          visitType === "virtual"
+            ? "Once the owner confirms, join the video room from My Bookings."
+            : "The owner will confirm your visit. You can track it under My Bookings.",
       })
 
       // Reset form and close modal after 3 seconds
       setTimeout(() => {
-        setName("")
-        setPhone("")
-        setEmail("")
-        setDate(undefined)
-        setTime("")
+        setSlotId("")
         setNotes("")
         setIsSuccess(false)
         onClose()
@@ -217,8 +174,8 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
     } catch (error) {
       console.error("Schedule visit error:", error)
       toast({
-        title: "Failed to send visit request",
-        description: error instanceof Error ? error.message : "There was an error sending your visit request. Please try again.",
+        title: "Failed to book visit",
+        description: error instanceof Error ? error.message : "There was an error booking your visit. Please try again.",
         variant: "destructive",
       })
     } finally {
@@ -231,7 +188,7 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Schedule a Visit</DialogTitle>
-          <DialogDescription>Choose a date and time to visit {propertyName}</DialogDescription>
+          <DialogDescription>Pick a time the owner is available to show {propertyName}</DialogDescription>
         </DialogHeader>
 
         {isSuccess ? (
@@ -252,9 +209,9 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
             </div>
-            <h3 className="text-xl font-bold mb-2">Visit Scheduled!</h3>
+            <h3 className="text-xl font-bold mb-2">Visit Requested!</h3>
             <p className="text-muted-foreground mb-6">
-              A property representative will contact you shortly to confirm your visit.
+              The owner will confirm your visit. We&apos;ll remind you the day before.
             </p>
             <div className="animate-pulse">
               <Loader2 className="mx-auto h-6 w-6 text-primary animate-spin" />
@@ -301,9 +258,7 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="email">
-                  Email Address <span className="text-red-500">*</span>
-                </Label>
+                <Label htmlFor="email">Email Address</Label>
                 <div className="relative">
                   <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -313,75 +268,93 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
                     value={email}
                     onChange={(e) => setEmail(e.target.value)}
                     className="pl-10"
-                    required
                   />
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="date">
-                  Preferred Date <span className="text-red-500">*</span>
-                </Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button 
-                      variant="outline" 
-                      className="w-full justify-start text-left font-normal"
-                      type="button"
-                    >
-                      <Calendar className="mr-2 h-4 w-4" />
-                      {date ? format(date, "PPP") : <span className="text-muted-foreground">Select a date</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start" side="bottom" sideOffset={5}>
-                    <CalendarComponent
-                      mode="single"
-                      selected={date}
-                      onSelect={(selectedDate) => {
-                        setDate(selectedDate)
-                      }}
-                      disabled={(date) => {
-                        const today = new Date()
-                        today.setHours(0, 0, 0, 0)
-                        return date < today
-                      }}
-                      initialFocus
-                    />
-                  </PopoverContent>
-                </Popover>
+                <Label>Visit Type</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant={visitType === "in_person" ? "default" : "outline"}
+                    onClick={() => setVisitType("in_person")}
+                  >
+                    <MapPin className="mr-2 h-4 w-4" />
+                    In person
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={visitType === "virtual" ? "default" : "outline"}
+                    onClick={() => setVisitType("virtual")}
+                  >
+                    <Video className="mr-2 h-4 w-4" />
+                    Virtual tour
+                  </Button>
+                </div>
+                {visitType === "virtual" && (
+                  <p className="text-xs text-muted-foreground">
+                    The owner shows you around over video. The room opens a few minutes before your time.
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="time">
-                  Preferred Time <span className="text-red-500">*</span>
+                <Label>
+                  Visit Time <span className="text-red-500">*</span>
                 </Label>
-                <div className="relative">
-                  <Clock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none z-10" />
-                  <select
-                    id="time"
-                    value={time}
-                    onChange={(e) => setTime(e.target.value)}
-                    className="flex h-10 w-full rounded-md border border-input bg-background pl-10 pr-8 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 appearance-none cursor-pointer hover:bg-accent"
-                    required
-                  >
-                    <option value="">Select a time</option>
-                    <option value="09:00 AM">09:00 AM</option>
-                    <option value="10:00 AM">10:00 AM</option>
-                    <option value="11:00 AM">11:00 AM</option>
-                    <option value="12:00 PM">12:00 PM</option>
-                    <option value="01:00 PM">01:00 PM</option>
-                    <option value="02:00 PM">02:00 PM</option>
-                    <option value="03:00 PM">03:00 PM</option>
-                    <option value="04:00 PM">04:00 PM</option>
-                    <option value="05:00 PM">05:00 PM</option>
-                    <option value="06:00 PM">06:00 PM</option>
-                  </select>
-                  <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none">
-                    <svg className="h-4 w-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                    </svg>
+                {isLoadingSlots ? (
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin" />
                   </div>
-                </div>
+                ) : slots.length === 0 ? (
+                  <div className="rounded-md border p-3 text-sm text-muted-foreground space-y-2">
+                    <p>The owner hasn&apos;t published visit times yet.</p>
+                    <Button type="button" variant="outline" size="sm" onClick={handleAskOnWhatsApp}>
+                      <Phone className="mr-2 h-4 w-4" />
+                      Ask on WhatsApp
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2 max-h-56 overflow-y-auto">
+                    {groupSlotsByDay(slots).map(([day, daySlots]) => (
+                      <div key={day}>
+                        <p className="text-sm font-medium mb-1 flex items-center">
+                          <Calendar className="mr-2 h-4 w-4" />
+                          {day}
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {daySlots.map((slot) => (
+                            <Button
+                              key={slot._id}
+                              type="button"
+                              size="sm"
+                              variant={slotId === slot._id ? "default" : "outline"}
+                              onClick={() => setSlotId(slot._id)}
+                            >
+                              <Clock className="mr-1 h-3 w-3" />
+                              {formatSlotTime(slot.start)}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contact-method">Preferred Contact</Label>
+                <select
+                  id="contact-method"
+                  value={contactMethod}
+                  onChange={(e) => setContactMethod(e.target.value as "whatsapp" | "phone" | "email")}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="whatsapp">WhatsApp</option>
+                  <option value="phone">Phone call</option>
+                  <option value="email">Email</option>
+                </select>
               </div>
 
               <div className="space-y-2">
@@ -400,16 +373,20 @@ export function ScheduleVisitModal({ isOpen, onClose, propertyId, propertyName }
               <Button variant="outline" onClick={onClose} disabled={isProcessing}>
                 Cancel
               </Button>
-              <Button onClick={handleSchedule} disabled={isProcessing} className="bg-green-600 hover:bg-green-700">
+              <Button
+                onClick={handleSchedule}
+                disabled={isProcessing || !slotId}
+                className="bg-green-600 hover:bg-green-700"
+              >
                 {isProcessing ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Sending...
+                    Booking...
                   </>
                 ) : (
                   <>
-                    <Phone className="mr-2 h-4 w-4" />
-                    Send via WhatsApp
+                    <Calendar className="mr-2 h-4 w-4" />
+                    Book Visit
                   </>
                 )}
               </Button>
@@ -81,6 +81,9 @@ export function UPIQRPayment({
   const [paymentMode, setPaymentMode] = useState<"qr" | "upi">("qr")
   const [paymentStatus, setPaymentStatus] = useState<"pending" | "processing" | "success">("pending")
   const [isPolling, setIsPolling] = useState(false)
+  const [utr, setUtr] = useState("")
+  const [isSubmittingUtr, setIsSubmittingUtr] = useState(false)
+  const [utrSubmitted, setUtrSubmitted] = useState(false)
   const { toast } = useToast()
   
   // Override merchant name to "SecondHome Official"
@@ -234,6 +237,36 @@ export function UPIQRPayment({
     }
   }, [bookingId, amount, paymentMode, paymentStatus, isProcessing, userUPIId])
 
+  // Direct UPI transfers can't be detected, so the payer hands us the UTR to check
+  const handleSubmitUtr = async () => {
+    if (!bookingId) return
+
+    setIsSubmittingUtr(true)
+    try {
+      const response = await fetch("/api/payment/upi", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bookingId, utr }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to submit transaction reference")
+
+      setUtrSubmitted(true)
+      toast({
+        title: "Reference submitted",
+        description: "We'll confirm your booking as soon as the payment is verified.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit transaction reference",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmittingUtr(false)
+    }
+  }
+
   // Automatic payment status polling - IMPROVED
   useEffect(() => {
     if (!bookingId || !isPolling || paymentStatus === "success") {
@@ -569,6 +602,36 @@ export function UPIQRPayment({
                 </div>
               </div>
             )}
+
+            {/* UTR submission for direct UPI transfers */}
+            {paymentStatus === "processing" && bookingId && (
+              <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg space-y-3">
+                {utrSubmitted ? (
+                  <p className="text-sm text-orange-900 text-center">
+                    Transaction reference <span className="font-mono font-semibold">{utr.trim().toUpperCase()}</span> submitted.
+                    Your booking will be confirmed once the owner verifies the payment.
+                  </p>
+                ) : (
+                  <>
+                    <Label htmlFor="upiUtr" className="text-sm font-semibold text-gray-900">
+                      Paid already? Enter the UTR / transaction reference from your UPI app
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="upiUtr"
+                        placeholder="12-digit UTR, e.g. 312345678901"
+                        value={utr}
+                        onChange={(e) => setUtr(e.target.value)}
+                        className="font-mono"
+                      />
+                      <Button onClick={handleSubmitUtr} disabled={isSubmittingUtr || !utr.trim()}>
+                        {isSubmittingUtr ? <Loader2 className="w-4 h-4 animate-spin" /> : "Submit"}
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       ) : (
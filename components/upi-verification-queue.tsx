@@ -0,0 +1,232 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { CheckCircle2, FileUp, Loader2, XCircle } from "lucide-react"
+import { formatRupees } from "@/components/rent-statement"
+
+interface PendingUpiPayment {
+  _id: string
+  amountInr: number
+  utr: string
+  utrSubmittedAt: string
+  user?: { name?: string; email?: string }
+  booking?: {
+    _id: string
+    roomType?: string
+    checkInDate?: string
+    property?: { title?: string }
+  }
+}
+
+interface ReconcileResult {
+  rows: number
+  matched: Array<{ utr: string }>
+  mismatched: Array<{ utr: string; expected: number; found: number | null; line: number }>
+  stillPending: number
+}
+
+/**
+ * Owner/admin queue of direct UPI payments whose UTR still has to be found on a statement
+ */
+export function UpiVerificationQueue() {
+  const [payments, setPayments] = useState<PendingUpiPayment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [actingId, setActingId] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState("")
+  const [isImporting, setIsImporting] = useState(false)
+  const [lastImport, setLastImport] = useState<ReconcileResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchPayments()
+  }, [])
+
+  const fetchPayments = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch("/api/payment/upi/pending")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load pending payments")
+      setPayments(data.payments || [])
+    } catch (error) {
+      console.error("Error fetching pending UPI payments:", error)
+      toast({ title: "Error", description: "Failed to load pending payments", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleVerify = async (payment: PendingUpiPayment, action: "confirm" | "reject") => {
+    setActingId(payment._id)
+    try {
+      const res = await fetch(`/api/payment/upi/${payment._id}/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, note: action === "reject" ? rejectReason : undefined }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update payment")
+
+      toast({
+        title: action === "confirm" ? "Payment confirmed" : "Payment rejected",
+        description: action === "confirm" ? `UTR ${payment.utr} verified and the booking is confirmed` : `UTR ${payment.utr} was rejected`,
+      })
+      setRejectingId(null)
+      setRejectReason("")
+      await fetchPayments()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update payment",
+        variant: "destructive",
+      })
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append("statement", file)
+      const res = await fetch("/api/payment/upi/reconcile", { method: "POST", body: formData })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to import statement")
+
+      setLastImport(data)
+      toast({
+        title: "Statement imported",
+        description: `${data.matched.length} payment${data.matched.length === 1 ? "" : "s"} confirmed from ${data.rows} transactions`,
+      })
+      await fetchPayments()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import statement",
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-bold text-gray-900">Payment Verification</CardTitle>
+            <CardDescription className="text-gray-600">
+              Check tenants&apos; UPI transaction references against your bank statement
+            </CardDescription>
+          </div>
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImport(file)
+              }}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+              {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+              Import statement CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {lastImport && (
+          <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-900">
+            <p>
+              {lastImport.rows} transactions read · {lastImport.matched.length} confirmed · {lastImport.stillPending} still pending
+            </p>
+            {lastImport.mismatched.map((row) => (
+              <p key={row.utr} className="text-amber-700">
+                UTR {row.utr} (line {row.line}): expected {formatRupees(row.expected)}, statement shows{" "}
+                {row.found === null ? "no amount" : formatRupees(row.found)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : payments.length === 0 ? (
+          <div className="text-center py-8">
+            <CheckCircle2 className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">No UPI payments waiting for verification.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {payments.map((payment) => (
+              <div key={payment._id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
+                  <div className="text-sm">
+                    <p className="font-semibold text-gray-900">
+                      {payment.user?.name || payment.user?.email || "Tenant"} · {payment.booking?.property?.title || "Property"}
+                    </p>
+                    <p className="text-gray-600">
+                      UTR <span className="font-mono font-semibold">{payment.utr}</span> · {formatRupees(payment.amountInr)}
+                    </p>
+                    <p className="text-gray-600">Submitted {new Date(payment.utrSubmittedAt).toLocaleString()}</p>
+                  </div>
+                  {rejectingId !== payment._id && (
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" onClick={() => handleVerify(payment, "confirm")} disabled={actingId === payment._id}>
+                        {actingId === payment._id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <CheckCircle2 className="h-4 w-4 mr-1" />
+                        )}
+                        Confirm received
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setRejectingId(payment._id)}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {rejectingId === payment._id && (
+                  <div className="mt-4 flex flex-col md:flex-row gap-2">
+                    <Input
+                      placeholder="Reason, e.g. not on statement"
+                      value={rejectReason}
+                      onChange={(e) => setRejectReason(e.target.value)}
+                    />
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleVerify(payment, "reject")}
+                      disabled={!rejectReason.trim() || actingId === payment._id}
+                    >
+                      Reject payment
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRejectingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -35,6 +35,7 @@ export function VerifyPropertyButton({
   const isPending = verificationStatus === "pending"
   const [loading, setLoading] = useState(false)
   const [open, setOpen] = useState(false)
+  const [awaitingPayment, setAwaitingPayment] = useState(false)
   const { toast } = useToast()
   const { data: session } = useSession()
 
@@ -59,42 +60,62 @@ export function VerifyPropertyButton({
 
     setLoading(true)
     try {
-      // In a real implementation, you would initiate payment here
-      // For now, we'll show the payment flow
-      toast({
-        title: "Payment Required",
-        description: `Please pay ₹${VERIFICATION_FEE} to verify your property`,
-      })
-
-      // After payment is processed, call the verify API
+      // Opens a Razorpay payment link; the fee is confirmed once Razorpay reports it
       const response = await fetch(`/api/properties/${propertyId}/verify`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          paymentId: `payment_${Date.now()}`, // This would come from payment gateway
-          paymentMethod: "upi", // or card, etc.
-        }),
       })
 
+      const data = await response.json()
       if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.error || "Verification failed")
+        throw new Error(data.error || "Verification failed")
       }
 
+      window.open(data.shortUrl, "_blank")
+      setAwaitingPayment(true)
+      toast({
+        title: "Complete your payment",
+        description: `Pay ₹${VERIFICATION_FEE} in the new tab, then use "Check payment" here.`,
+      })
+    } catch (error: unknown) {
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Could not verify property. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCheckPayment = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/verify`)
       const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check payment")
+      }
+
+      if (!data.verificationPaidAt) {
+        toast({ title: "No payment yet", description: "It can take a minute for payments to show up." })
+        return
+      }
+
       toast({
         title: "Payment Successful! ✅",
         description: "Our executive will visit your property soon for verification checks (WiFi test, video check, etc.)",
       })
 
+      setAwaitingPayment(false)
       setOpen(false)
       if (onVerified) {
         onVerified()
       }
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: "Verification Failed",
-        description: error.message || "Could not verify property. Please try again.",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check payment",
         variant: "destructive",
       })
     } finally {
@@ -193,12 +214,17 @@ export function VerifyPropertyButton({
           <Button variant="outline" onClick={() => setOpen(false)} disabled={loading}>
             Cancel
           </Button>
-          <Button onClick={handleVerify} disabled={loading}>
+          <Button onClick={awaitingPayment ? handleCheckPayment : handleVerify} disabled={loading}>
             {loading ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 Processing...
               </>
+            ) : awaitingPayment ? (
+              <>
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Check payment
+              </>
             ) : (
               <>
                 <IndianRupee className="h-4 w-4 mr-1" />
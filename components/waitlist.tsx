@@ -0,0 +1,376 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { BellRing, Clock, Loader2 } from "lucide-react"
+
+interface WaitlistRow {
+  _id: string
+  property: { _id: string; title?: string; location?: string } | string
+  roomType: string
+  status: "waiting" | "offered"
+  offer?: { offeredAt: string; expiresAt: string }
+  position: number
+}
+
+interface RoomTypeRow {
+  type: string
+  price: number
+  available: number
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+
+async function leave(entryId: string) {
+  const res = await fetch(`/api/waitlist/${entryId}`, { method: "DELETE" })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || "Failed to leave the waitlist")
+}
+
+/**
+ * Listing page: join the waitlist for full room types, and book a bed held
+ * for the user when their turn comes
+ */
+export function PropertyWaitlist({
+  propertyId,
+  roomTypes,
+  isLoggedIn,
+  onBook,
+}: {
+  propertyId: string
+  roomTypes: RoomTypeRow[]
+  isLoggedIn: boolean
+  onBook: (roomType: string) => void
+}) {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<WaitlistRow[]>([])
+  const [offerHours, setOfferHours] = useState(12)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isLoggedIn) fetchEntries()
+  }, [isLoggedIn, propertyId])
+
+  const fetchEntries = async () => {
+    try {
+      const res = await fetch(`/api/waitlist?propertyId=${propertyId}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load waitlist")
+      setEntries(data.entries || [])
+      setOfferHours(data.offerHours || 12)
+    } catch (error) {
+      console.error("Error fetching waitlist:", error)
+    }
+  }
+
+  const handleJoin = async (roomType: string) => {
+    if (!isLoggedIn) {
+      toast({ title: "Log in to join the waitlist", variant: "destructive" })
+      return
+    }
+    setBusy(roomType)
+    try {
+      const res = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ propertyId, roomType }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to join the waitlist")
+      toast({
+        title: "You're on the waitlist",
+        description: `When a ${roomType} bed frees up we'll hold it for you for ${offerHours} hours.`,
+      })
+      await fetchEntries()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to join the waitlist",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleLeave = async (entry: WaitlistRow) => {
+    setBusy(entry.roomType)
+    try {
+      await leave(entry._id)
+      await fetchEntries()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to leave the waitlist",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const rows = roomTypes.filter(
+    (room) => room.available <= 0 || entries.some((entry) => entry.roomType === room.type),
+  )
+  if (rows.length === 0) return null
+
+  return (
+    <div className="mt-6 space-y-3">
+      {rows.map((room) => {
+        const entry = entries.find((candidate) => candidate.roomType === room.type)
+        return (
+          <div
+            key={room.type}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-xl border border-dashed border-orange-200 p-4"
+          >
+            {entry?.status === "offered" && entry.offer ? (
+              <>
+                <p className="text-sm text-gray-700 flex items-center gap-2">
+                  <BellRing className="w-4 h-4 text-primary" />
+                  A {room.type} bed is held for you until {formatDateTime(entry.offer.expiresAt)}
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => onBook(room.type)}>
+                    Book it now
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleLeave(entry)} disabled={busy === room.type}>
+                    Pass
+                  </Button>
+                </div>
+              </>
+            ) : entry ? (
+              <>
+                <p className="text-sm text-gray-600 flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  {room.type}: you&apos;re #{entry.position} on the waitlist
+                </p>
+                <Button size="sm" variant="ghost" onClick={() => handleLeave(entry)} disabled={busy === room.type}>
+                  Leave waitlist
+                </Button>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  {room.type} is full. Join the waitlist and we&apos;ll hold the next free bed for you for{" "}
+                  {offerHours} hours.
+                </p>
+                <Button size="sm" variant="outline" onClick={() => handleJoin(room.type)} disabled={busy === room.type}>
+                  {busy === room.type && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Join waitlist
+                </Button>
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Profile bookings tab: the user's waitlist places and held beds
+ */
+export function MyWaitlist() {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<WaitlistRow[]>([])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [])
+
+  const fetchEntries = async () => {
+    try {
+      const res = await fetch("/api/waitlist")
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load waitlist")
+      setEntries(data.entries || [])
+    } catch (error) {
+      console.error("Error fetching waitlist:", error)
+    }
+  }
+
+  const handleLeave = async (entry: WaitlistRow) => {
+    try {
+      await leave(entry._id)
+      await fetchEntries()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to leave the waitlist",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (entries.length === 0) return null
+
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-gray-900">Waitlists</CardTitle>
+        <CardDescription className="text-gray-600">
+          Full rooms you&apos;re waiting for. When a bed frees up it&apos;s held for you for a few hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map((entry) => {
+          const property = typeof entry.property === "string" ? { _id: entry.property } : entry.property
+          return (
+            <div key={entry._id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3">
+              <div className="text-sm">
+                <Link href={`/listings/${property._id}`} className="font-medium hover:underline">
+                  {"title" in property && property.title ? property.title : "Property"}
+                </Link>
+                <span className="text-gray-500"> · {entry.roomType}</span>
+                {entry.status === "offered" && entry.offer ? (
+                  <p className="text-orange-600">Bed held for you until {formatDateTime(entry.offer.expiresAt)}</p>
+                ) : (
+                  <p className="text-gray-500">#{entry.position} in line</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {entry.status === "offered" && (
+                  <Button size="sm" asChild>
+                    <Link href={`/listings/${property._id}`}>Book now</Link>
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" onClick={() => handleLeave(entry)}>
+                  Leave
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Owner's properties tab: free beds and prices per room type, with waitlist sizes
+ */
+export function RoomAvailabilityEditor({ propertyId }: { propertyId: string }) {
+  const { toast } = useToast()
+  const [roomTypes, setRoomTypes] = useState<RoomTypeRow[]>([])
+  const [waitlist, setWaitlist] = useState<Record<string, { waiting: number; offered: number }>>({})
+  const [draft, setDraft] = useState<Record<string, { available: string; price: string }>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchRooms()
+  }, [propertyId])
+
+  const load = (data: { roomTypes: RoomTypeRow[]; waitlist: Record<string, { waiting: number; offered: number }> }) => {
+    setRoomTypes(data.roomTypes || [])
+    setWaitlist(data.waitlist || {})
+    setDraft(
+      Object.fromEntries(
+        (data.roomTypes || []).map((room) => [room.type, { available: String(room.available), price: String(room.price) }]),
+      ),
+    )
+  }
+
+  const fetchRooms = async () => {
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/room-types`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load rooms")
+      load(data)
+    } catch (error) {
+      console.error("Error fetching room types:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/properties/${propertyId}/room-types`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          roomTypes: roomTypes.map((room) => ({
+            type: room.type,
+            available: Number(draft[room.type]?.available),
+            price: Number(draft[room.type]?.price),
+          })),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update rooms")
+      load(data)
+      toast({
+        title: "Rooms updated",
+        description: data.offered > 0 ? `${data.offered} bed(s) offered to students on the waitlist.` : undefined,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update rooms",
+        variant: "destructive",
+      })
+      await fetchRooms()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  if (roomTypes.length === 0) {
+    return <p className="text-sm text-gray-500">This property has no room types.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {roomTypes.map((room) => (
+        <div key={room.type} className="grid grid-cols-[1fr_80px_100px] items-center gap-2 text-sm">
+          <div>
+            <p className="font-medium">{room.type}</p>
+            {waitlist[room.type] && (
+              <Badge variant="secondary" className="mt-1">
+                {waitlist[room.type].waiting} waiting
+                {waitlist[room.type].offered > 0 && ` · ${waitlist[room.type].offered} held`}
+              </Badge>
+            )}
+          </div>
+          <Input
+            type="number"
+            min={0}
+            value={draft[room.type]?.available ?? ""}
+            onChange={(e) => setDraft({ ...draft, [room.type]: { ...draft[room.type], available: e.target.value } })}
+            aria-label={`Free ${room.type} beds`}
+          />
+          <Input
+            type="number"
+            min={1}
+            value={draft[room.type]?.price ?? ""}
+            onChange={(e) => setDraft({ ...draft, [room.type]: { ...draft[room.type], price: e.target.value } })}
+            aria-label={`${room.type} price`}
+          />
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">Free beds · monthly price. New beds go to the waitlist first.</p>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save rooms
+        </Button>
+      </div>
+    </div>
+  )
+}
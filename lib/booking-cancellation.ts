@@ -0,0 +1,202 @@
+import { Booking, type IBooking } from "@/models/booking"
+import type { IPayment } from "@/models/payment"
+import { Property } from "@/models/property"
+import {
+  computeRefund,
+  DEFAULT_CANCELLATION_POLICY,
+  resolveCancellationPolicy,
+  type RefundBreakdown,
+} from "@/lib/cancellation-policy"
+import { SYSTEM_ACTOR, transitionBooking, type TransitionActor } from "@/lib/booking-state-machine"
+import { findRefundablePayment, refundPayment } from "@/lib/payments"
+import { releaseDepositOnCancellation } from "@/lib/deposits"
+
+/**
+ * Booking cancellation: cancels through the state machine (which releases the
+ * room), records the refund owed under the property's policy on the booking,
+ * and refunds gateway payments (Razorpay, PayPal) straight away. Direct UPI
+ * payments are left with refundStatus "pending" for an admin to settle by hand.
+ * A deposit already paid is settled with no deductions and refunded separately.
+ * Payments captured after the booking was already cancelled are refunded in
+ * full the same way (refundLateBookingPayment).
+ */
+
+export type CancellationResult =
+  | { success: true; booking: IBooking; refund: RefundBreakdown }
+  | { success: false; error: string; status: number }
+
+export async function getCancellationQuote(booking: IBooking, actor: TransitionActor, options: { fullRefund?: boolean } = {}) {
+  const property = await Property.findById(booking.property).select("cancellationPolicy").lean()
+  const policy = resolveCancellationPolicy(property as Parameters<typeof resolveCancellationPolicy>[0])
+
+  return { policy, refund: computeRefund(booking, policy, { cancelledBy: actor.role, fullRefund: options.fullRefund }) }
+}
+
+export async function cancelBooking(
+  booking: IBooking,
+  actor: TransitionActor,
+  reason?: string,
+  options: { fullRefund?: boolean } = {},
+): Promise<CancellationResult> {
+  const { refund } = await getCancellationQuote(booking, actor, options)
+  const now = new Date()
+
+  const cancelled = await transitionBooking(
+    booking,
+    { status: "cancelled" },
+    {
+      actor,
+      reason,
+      set: {
+        cancellation: {
+          cancelledAt: now,
+          cancelledBy: actor.userId,
+          actorRole: actor.role,
+          reason,
+          daysBeforeCheckIn: refund.daysBeforeCheckIn,
+          refund: {
+            rent: refund.rent,
+            commission: refund.commission,
+            settlingInKit: refund.settlingInKit,
+            total: refund.total,
+            rentPercent: refund.rentPercent,
+          },
+          refundStatus: refund.total > 0 ? "pending" : "none",
+        },
+      },
+    },
+  )
+
+  if (!cancelled.success) return cancelled
+
+  const released = await releaseDepositOnCancellation(cancelled.booking, actor)
+  if (released && !released.success) {
+    console.error(`Could not release the deposit on cancelled booking ${booking._id}:`, released.error)
+  }
+
+  if (refund.total > 0 && (await findRefundablePayment(booking._id))) {
+    const refunded = await processBookingRefund(cancelled.booking)
+    return { success: true, booking: refunded.success ? refunded.booking : cancelled.booking, refund }
+  }
+
+  return { success: true, booking: cancelled.booking, refund }
+}
+
+/**
+ * Pay out the refund recorded on a cancelled booking.
+ *
+ * Gateway payments are refunded through their provider; anything else needs
+ * a `reference` for the refund an admin made outside the platform.
+ */
+export async function processBookingRefund(
+  booking: IBooking,
+  options: { actor?: TransitionActor; reference?: string } = {},
+): Promise<{ success: true; booking: IBooking } | { success: false; error: string; status: number }> {
+  const cancellation = booking.cancellation
+  if (booking.status !== "cancelled" || !cancellation) {
+    return { success: false, error: "Only cancelled bookings can be refunded", status: 400 }
+  }
+  if (cancellation.refundStatus === "processed" || cancellation.refundStatus === "none") {
+    return { success: false, error: "There is no outstanding refund on this booking", status: 400 }
+  }
+
+  const amount = cancellation.refund.total
+  let refundId = options.reference
+
+  if (!refundId) {
+    const payment = await findRefundablePayment(booking._id)
+    if (!payment) {
+      return { success: false, error: "A refund reference is required for payments made outside a gateway", status: 400 }
+    }
+
+    const refunded = await refundPayment(payment, amount, { bookingId: booking._id.toString() })
+    if (!refunded.success) {
+      await Booking.updateOne(
+        { _id: booking._id },
+        { $set: { "cancellation.refundStatus": "failed", "cancellation.refundError": refunded.error, updatedAt: new Date() } },
+      )
+      return refunded
+    }
+    refundId = refunded.refundId
+  }
+
+  const result = await transitionBooking(
+    booking,
+    { paymentStatus: amount >= booking.totalAmount ? "refunded" : "partially_refunded" },
+    {
+      actor: options.actor ?? SYSTEM_ACTOR,
+      reason: `Cancellation refund of ₹${amount}`,
+      set: {
+        "cancellation.refundStatus": "processed",
+        "cancellation.refundId": refundId,
+        "cancellation.refundedAt": new Date(),
+      },
+    },
+  )
+
+  return result
+}
+
+/**
+ * Give back a payment captured after its booking was cancelled (an expired
+ * hold, a group that fell through). The tenant has no bed, so all of it is
+ * owed whatever the policy says. Replays of the same capture are no-ops.
+ */
+export async function refundLateBookingPayment(
+  booking: IBooking,
+  payment: IPayment,
+): Promise<{ success: true; booking: IBooking } | { success: false; error: string; status: number }> {
+  if (booking.status !== "cancelled") {
+    return { success: false, error: "Only cancelled bookings can be refunded", status: 400 }
+  }
+
+  const now = new Date()
+  const plain = booking.toObject<IBooking>()
+  const refund = computeRefund({ ...plain, paymentStatus: "paid" }, DEFAULT_CANCELLATION_POLICY, {
+    cancelledBy: "system",
+    fullRefund: true,
+  })
+  // Expired holds are cancelled without a cancellation record
+  const cancellation = plain.cancellation ?? {
+    cancelledAt: booking.reservation?.releasedAt ?? now,
+    actorRole: "system" as const,
+    reason: booking.reservation?.releaseReason === "expired" ? "Payment window expired" : undefined,
+    daysBeforeCheckIn: refund.daysBeforeCheckIn,
+  }
+
+  const recorded: IBooking | null = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: "cancelled", paymentStatus: "pending", payment: { $ne: payment._id } },
+    {
+      $set: {
+        payment: payment._id,
+        paymentId: payment.providerPaymentId,
+        cancellation: {
+          ...cancellation,
+          refund: {
+            rent: refund.rent,
+            commission: refund.commission,
+            settlingInKit: refund.settlingInKit,
+            total: refund.total,
+            rentPercent: refund.rentPercent,
+          },
+          refundStatus: "pending",
+          refundError: undefined,
+        },
+        updatedAt: now,
+      },
+    },
+    { new: true },
+  )
+  if (!recorded) {
+    const current: IBooking | null = await Booking.findById(booking._id)
+    return current ? { success: true, booking: current } : { success: false, error: "Booking not found", status: 404 }
+  }
+
+  // Direct UPI stays pending for an admin, as with any other cancellation
+  if (payment.provider !== "upi") {
+    const refunded = await processBookingRefund(recorded)
+    if (refunded.success) return refunded
+  }
+
+  return { success: true, booking: recorded }
+}
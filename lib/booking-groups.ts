@@ -0,0 +1,630 @@
+import { randomBytes } from "crypto"
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import { BookingGroup, type IBookingGroup, type IBookingGroupMember } from "@/models/booking-group"
+import { Property } from "@/models/property"
+import { getUserModel } from "@/models/user"
+import { nextSequence } from "@/models/counter"
+import { releaseExpiredHolds, releaseRooms, reserveRooms } from "@/lib/booking-reservations"
+import { SYSTEM_ACTOR, transitionBooking } from "@/lib/booking-state-machine"
+import { cancelBooking } from "@/lib/booking-cancellation"
+import { newBookingDeposit } from "@/lib/deposits"
+import { createNotification } from "@/lib/notification-helper"
+import { getEmailTransporter, normalizeEmail } from "@/lib/email"
+import { offerWaitlistedBeds } from "@/lib/waitlist"
+import { refId } from "@/lib/utils"
+
+/**
+ * Group bookings: friends booking beds together
+ *
+ * The organiser picks a bed for themselves and one for each friend (by email,
+ * across any of the property's room types). Every bed is taken off inventory
+ * in a single conditional update, so the group gets all of them or none.
+ * Each member then has their own pending booking - the organiser's straight
+ * away, the others' once they accept the emailed invite - and pays their own
+ * share through the normal payment routes.
+ *
+ * Paying doesn't confirm a group booking on its own: the group confirms, and
+ * every booking in it with it, once the last share is paid. If the deadline
+ * passes first, the organiser cancels, or a member cancels their booking, the
+ * whole group rolls back: beds go back into inventory and paid shares are
+ * refunded in full. An invitee who declines leaves their bed with the group
+ * for the organiser to offer someone else.
+ */
+
+type GroupFailure = { success: false; error: string; status: number }
+
+export const GROUP_PAYMENT_HOURS = Number(process.env.GROUP_BOOKING_HOURS) || 48
+export const MAX_GROUP_SIZE = 8
+
+// Same default as single bookings (see POST /api/bookings)
+const COMMISSION_RATE = 7.5
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const ROLLBACK_REASONS: Record<NonNullable<IBookingGroup["cancelReason"]>, string> = {
+  expired: "Not every member of the group paid their share before the deadline, so the group booking was cancelled.",
+  organiser: "The organiser cancelled the group booking.",
+  member_cancelled: "A member of the group cancelled their booking, so the group booking was cancelled.",
+}
+
+function newInviteToken() {
+  return randomBytes(24).toString("hex")
+}
+
+function countBeds(members: Array<{ roomType: string }>) {
+  const counts: Record<string, number> = {}
+  for (const member of members) counts[member.roomType] = (counts[member.roomType] || 0) + 1
+  return counts
+}
+
+function memberBooking(
+  group: IBookingGroup,
+  member: IBookingGroupMember,
+  userId: string,
+  depositAmount: number | undefined,
+  now: Date,
+) {
+  const commissionAmount = Math.round((member.price * COMMISSION_RATE) / 100)
+
+  // The bed was taken off inventory with the group; the booking holds it until the group deadline
+  return new Booking({
+    user: userId,
+    property: group.property,
+    roomType: member.roomType,
+    price: member.price,
+    totalAmount: member.price + commissionAmount,
+    checkInDate: group.checkInDate,
+    checkOutDate: group.checkOutDate,
+    guests: 1,
+    status: "pending",
+    paymentStatus: "pending",
+    firstMonthRent: member.price,
+    commissionRate: COMMISSION_RATE,
+    commissionAmount,
+    deposit: newBookingDeposit(depositAmount),
+    reservation: { status: "held", heldAt: now, expiresAt: group.deadline },
+    group: group._id,
+    createdAt: now,
+  })
+}
+
+/**
+ * Email an invite (and notify them in-app if they already have an account)
+ */
+async function sendInvite(group: IBookingGroup, member: IBookingGroupMember, organiserName: string, propertyTitle: string) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  const link = `/profile?tab=group-bookings&group=${group._id}&invite=${member.inviteToken}`
+  const deadline = group.deadline.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+
+  const User = await getUserModel()
+  const existing = await User.findOne({ email: member.email }).select("_id").lean<{ _id: mongoose.Types.ObjectId }>()
+  if (existing) {
+    await createNotification({
+      userId: existing._id.toString(),
+      type: "booking",
+      title: "Group booking invite",
+      message: `${organiserName} saved you a ${member.roomType} bed at ${propertyTitle} for ₹${member.price.toLocaleString("en-IN")}/month. Accept and pay your share by ${deadline}.`,
+      link,
+      priority: "high",
+      metadata: { groupId: group._id.toString(), propertyId: refId(group.property) },
+    })
+  }
+
+  const transporter = getEmailTransporter()
+  if (!transporter) return false
+
+  try {
+    await transporter.sendMail({
+      from: `"SecondHome" <${process.env.EMAIL_USER || process.env.HOST_EMAIL}>`,
+      to: member.email,
+      subject: `${organiserName} invited you to book ${propertyTitle} together`,
+      html: `<p>Hi,</p>
+<p>${organiserName} is booking beds at <strong>${propertyTitle}</strong> for a group of friends and saved a <strong>${member.roomType}</strong> bed for you at ₹${member.price.toLocaleString("en-IN")}/month.</p>
+<p>The beds are held until <strong>${deadline}</strong>. The booking only goes through once everyone has paid their own share; if anyone doesn't, every payment is refunded.</p>
+<p><a href="${appUrl}${link}">Accept the invite</a> (log in or sign up with this email address).</p>`,
+    })
+    return true
+  } catch (error) {
+    console.error(`Error emailing group booking invite for ${group.groupNumber}:`, error)
+    return false
+  }
+}
+
+/**
+ * Reserve a group's beds and create the organiser's booking.
+ *
+ * `input`: { propertyId, checkIn, checkOut?, roomType (the organiser's bed),
+ * invites: [{ email, roomType }] }
+ */
+export async function createBookingGroup(
+  organiser: { id: string; email?: string | null; name?: string | null },
+  input: Record<string, unknown>,
+  now = new Date(),
+): Promise<{ success: true; group: IBookingGroup } | GroupFailure> {
+  const propertyId = input.propertyId
+  if (typeof propertyId !== "string" || !mongoose.Types.ObjectId.isValid(propertyId)) {
+    return { success: false, error: "Invalid property ID", status: 400 }
+  }
+
+  const checkInDate = new Date(String(input.checkIn))
+  if (Number.isNaN(checkInDate.getTime()) || checkInDate <= now) {
+    return { success: false, error: "Choose a check-in date in the future", status: 400 }
+  }
+  const checkOutDate = input.checkOut ? new Date(String(input.checkOut)) : undefined
+  if (checkOutDate && (Number.isNaN(checkOutDate.getTime()) || checkOutDate <= checkInDate)) {
+    return { success: false, error: "Check-out must be after check-in", status: 400 }
+  }
+
+  const property = await Property.findById(propertyId)
+    .select("title roomTypes deposit")
+    .lean<{ title?: string; roomTypes?: Array<{ type: string; price: number }>; deposit?: number }>()
+  if (!property) {
+    return { success: false, error: "Property not found", status: 404 }
+  }
+  const priceOf = (roomType: unknown) =>
+    typeof roomType === "string" ? property.roomTypes?.find((room) => room.type === roomType)?.price : undefined
+
+  const organiserEmail = normalizeEmail(organiser.email || "")
+  if (!organiserEmail) {
+    return { success: false, error: "Add an email address to your account first", status: 400 }
+  }
+  const organiserPrice = priceOf(input.roomType)
+  if (organiserPrice === undefined) {
+    return { success: false, error: "Choose a room type for your own bed", status: 400 }
+  }
+
+  const invites = Array.isArray(input.invites) ? input.invites : []
+  if (invites.length === 0) {
+    return { success: false, error: "Invite at least one friend", status: 400 }
+  }
+  if (invites.length + 1 > MAX_GROUP_SIZE) {
+    return { success: false, error: `A group can book up to ${MAX_GROUP_SIZE} beds`, status: 400 }
+  }
+
+  const members: Array<Omit<IBookingGroupMember, "_id">> = [
+    {
+      email: organiserEmail,
+      user: new mongoose.Types.ObjectId(organiser.id),
+      roomType: String(input.roomType),
+      price: organiserPrice,
+      isOrganiser: true,
+      status: "joined",
+      invitedAt: now,
+      respondedAt: now,
+    },
+  ]
+  for (const invite of invites) {
+    const email = normalizeEmail(String(invite?.email || ""))
+    if (!EMAIL_PATTERN.test(email)) {
+      return { success: false, error: `"${invite?.email || ""}" isn't a valid email address`, status: 400 }
+    }
+    if (members.some((member) => member.email === email)) {
+      return { success: false, error: `${email} is in the group twice`, status: 400 }
+    }
+    const price = priceOf(invite?.roomType)
+    if (price === undefined) {
+      return { success: false, error: `Choose a room type for ${email}`, status: 400 }
+    }
+    members.push({
+      email,
+      roomType: invite.roomType,
+      price,
+      isOrganiser: false,
+      status: "invited",
+      inviteToken: newInviteToken(),
+      invitedAt: now,
+    })
+  }
+
+  // Members need time to pay, but the group has to settle before anyone moves in
+  const deadline = new Date(Math.min(now.getTime() + GROUP_PAYMENT_HOURS * 60 * 60 * 1000, checkInDate.getTime()))
+  if (deadline.getTime() - now.getTime() < 60 * 60 * 1000) {
+    return { success: false, error: "Check-in is too soon for a group booking", status: 400 }
+  }
+
+  // Lapsed holds and groups at this property give their beds back first
+  await releaseExpiredHolds(propertyId)
+  await expireBookingGroups({ propertyId }, now)
+
+  const counts = countBeds(members)
+  const reserved = await reserveRooms(propertyId, counts)
+  if (!reserved) {
+    return { success: false, error: "There aren't enough beds available for the whole group", status: 400 }
+  }
+
+  let group: IBookingGroup
+  try {
+    const seq = await nextSequence("booking-group")
+    group = await BookingGroup.create({
+      groupNumber: `GB-${String(seq).padStart(6, "0")}`,
+      organiser: organiser.id,
+      property: propertyId,
+      checkInDate,
+      checkOutDate,
+      status: "forming",
+      deadline,
+      members,
+      createdAt: now,
+    })
+
+    const booking = memberBooking(group, group.members[0], organiser.id, property.deposit, now)
+    await booking.save()
+    group.members[0].booking = booking._id
+    await BookingGroup.updateOne(
+      { _id: group._id, "members._id": group.members[0]._id },
+      { $set: { "members.$.booking": booking._id } },
+    )
+  } catch (error) {
+    await releaseRooms(propertyId, counts)
+    throw error
+  }
+
+  const propertyTitle = property.title || "the property"
+  const organiserName = organiser.name || "A friend"
+  for (const member of group.members) {
+    if (member.status === "invited") await sendInvite(group, member, organiserName, propertyTitle)
+  }
+
+  return { success: true, group }
+}
+
+/**
+ * The group's member that a user is acting as: by invite token, by account
+ * email for a pending invite, or as someone who already joined
+ */
+function findMember(group: IBookingGroup, user: { id: string; email?: string | null }, token?: unknown) {
+  if (typeof token === "string" && token) {
+    return group.members.find((member) => member.inviteToken === token)
+  }
+  const joined = group.members.find((member) => member.user && refId(member.user) === user.id)
+  if (joined) return joined
+  const email = user.email ? normalizeEmail(user.email) : null
+  return email ? group.members.find((member) => member.email === email && member.status === "invited") : undefined
+}
+
+/**
+ * Accept an invite: the member gets their own pending booking for the bed
+ */
+export async function joinBookingGroup(
+  groupId: string,
+  user: { id: string; email?: string | null; name?: string | null },
+  token?: unknown,
+  now = new Date(),
+): Promise<{ success: true; group: IBookingGroup; booking: IBooking } | GroupFailure> {
+  const group: IBookingGroup | null = await BookingGroup.findById(groupId)
+  if (!group) {
+    return { success: false, error: "Group booking not found", status: 404 }
+  }
+  if (group.status !== "forming" || group.deadline <= now) {
+    return { success: false, error: "This group booking is no longer open", status: 400 }
+  }
+
+  const member = findMember(group, user, token)
+  if (!member || member.status === "declined") {
+    return { success: false, error: "This invite isn't valid any more", status: 404 }
+  }
+  if (member.status === "joined" || group.members.some((entry) => entry.user && refId(entry.user) === user.id)) {
+    return { success: false, error: "You're already in this group", status: 409 }
+  }
+
+  const property = await Property.findById(group.property).select("title deposit").lean<{ title?: string; deposit?: number }>()
+  const booking = memberBooking(group, member, user.id, property?.deposit, now)
+  await booking.save()
+
+  // Claim the bed; if the group settled or someone else used the invite meanwhile, undo the booking
+  const claimed: IBookingGroup | null = await BookingGroup.findOneAndUpdate(
+    { _id: group._id, status: "forming", members: { $elemMatch: { _id: member._id, status: "invited" } } },
+    {
+      $set: {
+        "members.$.status": "joined",
+        "members.$.user": user.id,
+        "members.$.booking": booking._id,
+        "members.$.respondedAt": now,
+        updatedAt: now,
+      },
+      $unset: { "members.$.inviteToken": 1 },
+    },
+    { new: true },
+  )
+  if (!claimed) {
+    await Booking.deleteOne({ _id: booking._id })
+    return { success: false, error: "This invite isn't valid any more", status: 409 }
+  }
+
+  await createNotification({
+    userId: refId(group.organiser),
+    type: "booking",
+    title: "Friend joined your group booking",
+    message: `${user.name || member.email} joined ${group.groupNumber} at ${property?.title || "the property"} and can now pay their share.`,
+    link: "/profile?tab=group-bookings",
+    priority: "medium",
+    metadata: { groupId: group._id.toString() },
+  })
+
+  return { success: true, group: claimed, booking }
+}
+
+/**
+ * Turn an invite down; the bed stays with the group for the organiser to re-offer
+ */
+export async function declineBookingGroupInvite(
+  groupId: string,
+  user: { id: string; email?: string | null; name?: string | null },
+  token?: unknown,
+  now = new Date(),
+): Promise<{ success: true; group: IBookingGroup } | GroupFailure> {
+  const group: IBookingGroup | null = await BookingGroup.findById(groupId)
+  if (!group || group.status !== "forming") {
+    return { success: false, error: "This group booking is no longer open", status: 400 }
+  }
+
+  const member = findMember(group, user, token)
+  if (!member || member.status !== "invited") {
+    return { success: false, error: "This invite isn't valid any more", status: 404 }
+  }
+
+  const updated: IBookingGroup | null = await BookingGroup.findOneAndUpdate(
+    { _id: group._id, status: "forming", members: { $elemMatch: { _id: member._id, status: "invited" } } },
+    {
+      $set: { "members.$.status": "declined", "members.$.respondedAt": now, updatedAt: now },
+      $unset: { "members.$.inviteToken": 1 },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This invite isn't valid any more", status: 409 }
+  }
+
+  await createNotification({
+    userId: refId(group.organiser),
+    type: "booking",
+    title: "Group booking invite declined",
+    message: `${member.email} can't join ${group.groupNumber}. Invite someone else for the ${member.roomType} bed before ${group.deadline.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}, or cancel the group.`,
+    link: "/profile?tab=group-bookings",
+    priority: "high",
+    metadata: { groupId: group._id.toString() },
+  })
+
+  return { success: true, group: updated }
+}
+
+/**
+ * Offer a bed that hasn't been taken up to someone (else), or resend the invite
+ */
+export async function inviteToBookingGroup(
+  group: IBookingGroup,
+  organiser: { id: string; name?: string | null },
+  memberId: unknown,
+  emailInput: unknown,
+  now = new Date(),
+): Promise<{ success: true; group: IBookingGroup } | GroupFailure> {
+  if (refId(group.organiser) !== organiser.id) {
+    return { success: false, error: "Only the organiser can invite people", status: 403 }
+  }
+  if (group.status !== "forming" || group.deadline <= now) {
+    return { success: false, error: "This group booking is no longer open", status: 400 }
+  }
+
+  const member = group.members.find((entry) => String(entry._id) === memberId)
+  if (!member || member.status === "joined") {
+    return { success: false, error: "That bed has already been taken", status: 400 }
+  }
+
+  const email = normalizeEmail(String(emailInput || member.email))
+  if (!EMAIL_PATTERN.test(email)) {
+    return { success: false, error: "Enter a valid email address", status: 400 }
+  }
+  if (group.members.some((entry) => entry._id.toString() !== member._id.toString() && entry.email === email)) {
+    return { success: false, error: `${email} is already in the group`, status: 400 }
+  }
+
+  const updated: IBookingGroup | null = await BookingGroup.findOneAndUpdate(
+    { _id: group._id, status: "forming", members: { $elemMatch: { _id: member._id, status: { $ne: "joined" } } } },
+    {
+      $set: {
+        "members.$.email": email,
+        "members.$.status": "invited",
+        "members.$.inviteToken": newInviteToken(),
+        "members.$.invitedAt": now,
+        updatedAt: now,
+      },
+      $unset: { "members.$.respondedAt": 1 },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "That bed has already been taken", status: 409 }
+  }
+
+  const property = await Property.findById(group.property).select("title").lean<{ title?: string }>()
+  const invited = updated.members.find((entry) => entry._id.toString() === member._id.toString())!
+  await sendInvite(updated, invited, organiser.name || "A friend", property?.title || "the property")
+
+  return { success: true, group: updated }
+}
+
+/**
+ * Confirm the group, and every booking in it, once each share is paid.
+ * Runs whenever a group booking is paid; does nothing until the last one is.
+ */
+export async function completeBookingGroup(groupId: unknown, now = new Date()) {
+  const group: IBookingGroup | null = await BookingGroup.findById(groupId)
+  if (!group || group.status !== "forming") return null
+  if (group.members.some((member) => !member.booking)) return null
+
+  const bookings: IBooking[] = await Booking.find({ group: group._id, status: "pending" })
+  if (bookings.length !== group.members.length || bookings.some((booking) => booking.paymentStatus !== "paid")) {
+    return null
+  }
+
+  const confirmed: IBookingGroup | null = await BookingGroup.findOneAndUpdate(
+    { _id: group._id, status: "forming" },
+    { $set: { status: "confirmed", confirmedAt: now, updatedAt: now } },
+    { new: true },
+  )
+  if (!confirmed) return null
+
+  for (const booking of bookings) {
+    const result = await transitionBooking(
+      booking,
+      { status: "confirmed" },
+      { actor: SYSTEM_ACTOR, reason: `Every share of group booking ${group.groupNumber} has been paid.` },
+    )
+    if (!result.success) {
+      console.error(`Could not confirm booking ${booking._id} in group ${group.groupNumber}:`, result.error)
+    }
+  }
+
+  return confirmed
+}
+
+/**
+ * Cancel a group that is still forming: unclaimed beds go straight back, and
+ * each member's booking is cancelled (releasing its bed) with a full refund.
+ * Returns null if the group had already confirmed or been cancelled.
+ */
+export async function rollBackBookingGroup(
+  groupId: unknown,
+  reason: NonNullable<IBookingGroup["cancelReason"]>,
+  now = new Date(),
+) {
+  const group: IBookingGroup | null = await BookingGroup.findOneAndUpdate(
+    { _id: groupId, status: "forming" },
+    { $set: { status: "cancelled", cancelledAt: now, cancelReason: reason, updatedAt: now } },
+    { new: true },
+  )
+  if (!group) return null
+
+  const unclaimed = countBeds(group.members.filter((member) => !member.booking))
+  await releaseRooms(refId(group.property), unclaimed)
+  for (const roomType of Object.keys(unclaimed)) {
+    await offerWaitlistedBeds(refId(group.property), roomType, now)
+  }
+
+  const bookings: IBooking[] = await Booking.find({ group: group._id, status: "pending" })
+  for (const booking of bookings) {
+    const result = await cancelBooking(booking, SYSTEM_ACTOR, ROLLBACK_REASONS[reason], { fullRefund: true })
+    if (!result.success) {
+      console.error(`Could not cancel booking ${booking._id} in group ${group.groupNumber}:`, result.error)
+    }
+  }
+
+  // Invitees who never joined have no booking to hear about it through
+  const User = await getUserModel()
+  const invited = group.members.filter((member) => member.status === "invited").map((member) => member.email)
+  const invitees = invited.length
+    ? await User.find({ email: { $in: invited } }).select("_id").lean<Array<{ _id: mongoose.Types.ObjectId }>>()
+    : []
+  for (const invitee of invitees) {
+    await createNotification({
+      userId: invitee._id.toString(),
+      type: "booking",
+      title: "Group booking cancelled",
+      message: `${group.groupNumber} was cancelled. ${ROLLBACK_REASONS[reason]}`,
+      link: "/profile?tab=group-bookings",
+      priority: "medium",
+      metadata: { groupId: group._id.toString() },
+    })
+  }
+
+  return group
+}
+
+/**
+ * Settle groups past their deadline: confirm any whose shares are all paid,
+ * roll back the rest. Pass a propertyId to only sweep one property.
+ */
+export async function expireBookingGroups(options: { propertyId?: string } = {}, now = new Date()) {
+  const query: Record<string, unknown> = { status: "forming", deadline: { $lte: now } }
+  if (options.propertyId) query.property = options.propertyId
+
+  const due: IBookingGroup[] = await BookingGroup.find(query).select("_id")
+  let confirmed = 0
+  let cancelled = 0
+
+  for (const group of due) {
+    if (await completeBookingGroup(group._id, now)) confirmed++
+    else if (await rollBackBookingGroup(group._id, "expired", now)) cancelled++
+  }
+
+  return { checked: due.length, confirmed, cancelled }
+}
+
+/**
+ * Groups the user organises, belongs to, or is invited to by email
+ */
+export async function listBookingGroups(user: { id: string; email?: string | null }) {
+  const or: Record<string, unknown>[] = [{ "members.user": user.id }]
+  if (user.email) {
+    or.push({ status: "forming", members: { $elemMatch: { email: normalizeEmail(user.email), status: "invited" } } })
+  }
+
+  const groups: IBookingGroup[] = await BookingGroup.find({ $or: or }).sort({ createdAt: -1 }).limit(50)
+  return Promise.all(groups.map((group) => toBookingGroupView(group, user)))
+}
+
+/**
+ * What a member (or invitee) sees of a group: who is in, who has paid, and
+ * their own booking. Invite tokens are never included.
+ */
+export async function toBookingGroupView(group: IBookingGroup, user: { id: string; email?: string | null }, token?: string) {
+  const bookings = await Booking.find({ group: group._id })
+    .select("user status paymentStatus totalAmount roomType")
+    .lean<Array<Pick<IBooking, "status" | "paymentStatus" | "totalAmount" | "roomType"> & { _id: mongoose.Types.ObjectId; user: mongoose.Types.ObjectId }>>()
+  const User = await getUserModel()
+  const users = await User.find({ _id: { $in: group.members.filter((member) => member.user).map((member) => member.user) } })
+    .select("name")
+    .lean<Array<{ _id: mongoose.Types.ObjectId; name?: string }>>()
+  const property = await Property.findById(group.property)
+    .select("title location owner")
+    .lean<{ _id: mongoose.Types.ObjectId; title?: string; location?: string; owner?: mongoose.Types.ObjectId }>()
+
+  const isOrganiser = refId(group.organiser) === user.id
+  const me = findMember(group, user, token)
+  const isMe = (member: IBookingGroupMember) => !!me && String(member._id) === String(me._id)
+  const myBooking = me?.booking ? bookings.find((booking) => String(booking._id) === String(me.booking)) : undefined
+
+  return {
+    _id: String(group._id),
+    groupNumber: group.groupNumber,
+    status: group.status,
+    deadline: group.deadline,
+    checkInDate: group.checkInDate,
+    checkOutDate: group.checkOutDate,
+    cancelReason: group.cancelReason,
+    property: property
+      ? { _id: String(property._id), title: property.title, location: property.location, owner: property.owner ? String(property.owner) : undefined }
+      : null,
+    isOrganiser,
+    members: group.members.map((member) => {
+      const booking = member.booking ? bookings.find((entry) => String(entry._id) === String(member.booking)) : undefined
+      return {
+        _id: String(member._id),
+        name: member.user ? users.find((entry) => String(entry._id) === refId(member.user))?.name : undefined,
+        // Emails are the organiser's own list; other members only see names
+        email: isOrganiser || isMe(member) ? member.email : undefined,
+        roomType: member.roomType,
+        price: member.price,
+        isOrganiser: member.isOrganiser,
+        isMe: isMe(member),
+        status: member.status,
+        paid: booking?.paymentStatus === "paid" || booking?.paymentStatus === "partially_refunded",
+      }
+    }),
+    me: me
+      ? {
+          memberId: String(me._id),
+          status: me.status,
+          booking: myBooking
+            ? {
+                _id: String(myBooking._id),
+                status: myBooking.status,
+                paymentStatus: myBooking.paymentStatus,
+                totalAmount: myBooking.totalAmount,
+              }
+            : null,
+        }
+      : null,
+  }
+}
@@ -0,0 +1,175 @@
+import { Booking } from "@/models/booking"
+import { Payment } from "@/models/payment"
+import { Property } from "@/models/property"
+import { SYSTEM_ACTOR, transitionBooking } from "@/lib/booking-state-machine"
+import { UPI_VERIFICATION_HOLD_HOURS } from "@/lib/upi-verification"
+import { offerWaitlistedBeds } from "@/lib/waitlist"
+import { refId } from "@/lib/utils"
+
+/**
+ * Room inventory reservations for bookings
+ *
+ * A booking takes one bed off `roomTypes[].available` at creation time with a
+ * conditional decrement, so two requests can never both get the last bed.
+ * Unpaid bookings only hold that bed for HOLD_DURATION_MINUTES; once the hold
+ * expires the booking is cancelled and the bed goes back into inventory.
+ */
+
+export const HOLD_DURATION_MINUTES = Number(process.env.BOOKING_HOLD_MINUTES) || 30
+
+export function getHoldExpiry(from: Date = new Date()) {
+  return new Date(from.getTime() + HOLD_DURATION_MINUTES * 60 * 1000)
+}
+
+/**
+ * Atomically take one bed of `roomType` off the property's inventory.
+ * Returns false when the room type has no availability left.
+ */
+export async function reserveRoom(propertyId: string, roomType: string): Promise<boolean> {
+  const updated = await Property.findOneAndUpdate(
+    {
+      _id: propertyId,
+      roomTypes: { $elemMatch: { type: roomType, available: { $gt: 0 } } },
+    },
+    { $inc: { "roomTypes.$.available": -1 } },
+    { new: true },
+  )
+
+  return !!updated
+}
+
+/**
+ * Put one bed of `roomType` back into the property's inventory.
+ */
+export async function releaseRoom(propertyId: string, roomType: string) {
+  await Property.findByIdAndUpdate(
+    propertyId,
+    { $inc: { "roomTypes.$[elem].available": 1 } },
+    { arrayFilters: [{ "elem.type": roomType }] },
+  )
+}
+
+/**
+ * Atomically take several beds, possibly of different room types, off the
+ * property's inventory in one update: either every count is available and all
+ * are taken, or nothing changes. `counts` maps room type to beds wanted.
+ */
+export async function reserveRooms(propertyId: string, counts: Record<string, number>): Promise<boolean> {
+  const types = Object.keys(counts)
+  if (types.length === 0) return false
+
+  const updated = await Property.findOneAndUpdate(
+    {
+      _id: propertyId,
+      $and: types.map((type) => ({ roomTypes: { $elemMatch: { type, available: { $gte: counts[type] } } } })),
+    },
+    { $inc: Object.fromEntries(types.map((type, index) => [`roomTypes.$[t${index}].available`, -counts[type]])) },
+    { arrayFilters: types.map((type, index) => ({ [`t${index}.type`]: type })), new: true },
+  )
+
+  return !!updated
+}
+
+/**
+ * Put several beds back into the property's inventory (see reserveRooms).
+ */
+export async function releaseRooms(propertyId: string, counts: Record<string, number>) {
+  const types = Object.keys(counts).filter((type) => counts[type] > 0)
+  if (types.length === 0) return
+
+  await Property.findByIdAndUpdate(
+    propertyId,
+    { $inc: Object.fromEntries(types.map((type, index) => [`roomTypes.$[t${index}].available`, counts[type]])) },
+    { arrayFilters: types.map((type, index) => ({ [`t${index}.type`]: type })) },
+  )
+}
+
+/**
+ * Give a booking's bed back exactly once.
+ *
+ * The reservation is flipped from "held" to "released" with a conditional
+ * update first, so concurrent cancel/expiry calls can't double-increment.
+ * Bookings created before reservations existed only held inventory once
+ * confirmed, which is what the old cancellation handler assumed. A bed given
+ * back goes to the room type's waitlist first, if anyone is waiting.
+ */
+export async function releaseBookingHold(
+  booking: { _id: unknown; property: unknown; roomType: string; status: string; reservation?: { status?: string } },
+  reason: "expired" | "cancelled",
+): Promise<boolean> {
+  const now = new Date()
+  const propertyId = refId(booking.property)
+
+  if (!booking.reservation?.status) {
+    if (booking.status !== "confirmed") return false
+    await releaseRoom(propertyId, booking.roomType)
+    await offerWaitlistedBeds(propertyId, booking.roomType)
+    return true
+  }
+
+  const released = await Booking.findOneAndUpdate(
+    { _id: booking._id, "reservation.status": "held" },
+    {
+      $set: {
+        "reservation.status": "released",
+        "reservation.releasedAt": now,
+        "reservation.releaseReason": reason,
+        updatedAt: now,
+      },
+    },
+    { new: true },
+  )
+
+  if (!released) return false
+
+  await releaseRoom(propertyId, booking.roomType)
+  await offerWaitlistedBeds(propertyId, booking.roomType)
+  return true
+}
+
+/**
+ * Cancel unpaid bookings whose hold has run out and return their beds.
+ * Pass a propertyId to only sweep one property (used before reserving).
+ * Group bookings are left to the group's own deadline (expireBookingGroups).
+ */
+export async function releaseExpiredHolds(propertyId?: string) {
+  const query: Record<string, unknown> = {
+    "reservation.status": "held",
+    "reservation.expiresAt": { $lte: new Date() },
+    paymentStatus: "pending",
+    status: "pending",
+    group: { $exists: false },
+  }
+  if (propertyId) query.property = propertyId
+
+  const expired = await Booking.find(query)
+  let released = 0
+
+  // A submitted UTR stretches the hold while the owner checks it (lib/upi-verification)
+  const awaitingVerification: unknown[] = expired.length
+    ? await Payment.distinct("booking", {
+        booking: { $in: expired.map((booking) => booking._id) },
+        status: "pending_verification",
+      })
+    : []
+
+  for (const booking of expired) {
+    const reason = awaitingVerification.some((id) => String(id) === String(booking._id))
+      ? `Your UPI payment couldn't be verified within ${UPI_VERIFICATION_HOLD_HOURS} hours, so the room hold expired.`
+      : `Payment wasn't completed within ${HOLD_DURATION_MINUTES} minutes, so the room hold expired.`
+    // The transition only applies while the booking is still pending/unpaid,
+    // so a payment landing mid-sweep keeps its bed
+    const result = await transitionBooking(
+      booking,
+      { status: "cancelled" },
+      {
+        actor: SYSTEM_ACTOR,
+        reason,
+        releaseReason: "expired",
+      },
+    )
+    if (result.success) released++
+  }
+
+  return { checked: expired.length, released }
+}
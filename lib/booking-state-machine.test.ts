@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { canTransitionPaymentStatus, canTransitionStatus, getBookingActor } from "@/lib/booking-state-machine"
+
+describe("canTransitionStatus", () => {
+  it("lets tenants cancel but not confirm or complete", () => {
+    expect(canTransitionStatus("pending", "cancelled", "tenant")).toBe(true)
+    expect(canTransitionStatus("confirmed", "cancelled", "tenant")).toBe(true)
+    expect(canTransitionStatus("pending", "confirmed", "tenant")).toBe(false)
+    expect(canTransitionStatus("confirmed", "completed", "tenant")).toBe(false)
+  })
+
+  it("lets owners confirm and complete", () => {
+    expect(canTransitionStatus("pending", "confirmed", "owner")).toBe(true)
+    expect(canTransitionStatus("confirmed", "completed", "owner")).toBe(true)
+  })
+
+  it("never leaves a final state", () => {
+    for (const to of ["pending", "confirmed", "completed", "cancelled"] as const) {
+      expect(canTransitionStatus("cancelled", to, "admin")).toBe(false)
+      expect(canTransitionStatus("completed", to, "admin")).toBe(false)
+    }
+  })
+
+  it("doesn't skip confirmation", () => {
+    expect(canTransitionStatus("pending", "completed", "admin")).toBe(false)
+  })
+})
+
+describe("canTransitionPaymentStatus", () => {
+  it("only lets admins and the system move money states", () => {
+    expect(canTransitionPaymentStatus("pending", "paid", "system")).toBe(true)
+    expect(canTransitionPaymentStatus("pending", "paid", "admin")).toBe(true)
+    expect(canTransitionPaymentStatus("pending", "paid", "tenant")).toBe(false)
+    expect(canTransitionPaymentStatus("pending", "paid", "owner")).toBe(false)
+  })
+
+  it("refunds paid bookings fully or in part", () => {
+    expect(canTransitionPaymentStatus("paid", "refunded", "system")).toBe(true)
+    expect(canTransitionPaymentStatus("paid", "partially_refunded", "system")).toBe(true)
+    expect(canTransitionPaymentStatus("partially_refunded", "refunded", "system")).toBe(true)
+    expect(canTransitionPaymentStatus("refunded", "paid", "admin")).toBe(false)
+    expect(canTransitionPaymentStatus("partially_refunded", "paid", "admin")).toBe(false)
+  })
+
+  it("never marks a cancelled booking paid", () => {
+    expect(canTransitionPaymentStatus("pending", "paid", "system", "cancelled")).toBe(false)
+    expect(canTransitionPaymentStatus("pending", "paid", "system", "pending")).toBe(true)
+  })
+
+  it("only refunds an unpaid booking's late payment once it is cancelled", () => {
+    expect(canTransitionPaymentStatus("pending", "refunded", "system", "cancelled")).toBe(true)
+    expect(canTransitionPaymentStatus("pending", "refunded", "system", "pending")).toBe(false)
+    expect(canTransitionPaymentStatus("pending", "refunded", "system", "confirmed")).toBe(false)
+  })
+})
+
+describe("getBookingActor", () => {
+  const booking = { user: "tenant-1" }
+
+  it("puts admin before owner and tenant", () => {
+    expect(getBookingActor(booking, "admin-1", { id: "admin-1", role: "admin" })).toEqual({
+      role: "admin",
+      userId: "admin-1",
+    })
+  })
+
+  it("recognises the property owner and the tenant", () => {
+    expect(getBookingActor(booking, "owner-1", { id: "owner-1", role: "owner" })?.role).toBe("owner")
+    expect(getBookingActor(booking, "owner-1", { id: "tenant-1", role: "user" })?.role).toBe("tenant")
+  })
+
+  it("rejects anyone else", () => {
+    expect(getBookingActor(booking, "owner-1", { id: "someone", role: "user" })).toBeNull()
+  })
+})
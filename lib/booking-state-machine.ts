@@ -0,0 +1,366 @@
+import type mongoose from "mongoose"
+import { Booking, type IBooking, type IBookingTransition } from "@/models/booking"
+import { Property } from "@/models/property"
+import { createNotification } from "@/lib/notification-helper"
+import { releaseBookingHold } from "@/lib/booking-reservations"
+import { emailTaxInvoice, issueBookingInvoice } from "@/lib/tax-invoices"
+import { cancelMoveIn, startMoveIn } from "@/lib/move-ins"
+import { revokeBookingDocumentShares } from "@/lib/document-vault"
+import { voidRentInvoices } from "@/lib/rent-ledger"
+import { completeBookingGroup, rollBackBookingGroup } from "@/lib/booking-groups"
+import { refId } from "@/lib/utils"
+
+/**
+ * Booking state machine
+ *
+ * Every change to `status` or `paymentStatus` goes through transitionBooking():
+ * the transition tables below decide what is allowed and by whom, the change is
+ * written with a conditional update (so two concurrent transitions can't both
+ * win) and appended to `statusHistory`, and side effects such as releasing the
+ * room or notifying people run off the transition rather than route code.
+ */
+
+export type BookingStatus = IBooking["status"]
+export type BookingPaymentStatus = IBooking["paymentStatus"]
+export type TransitionActorRole = IBookingTransition["actorRole"]
+
+export interface TransitionActor {
+  role: TransitionActorRole
+  userId?: string
+}
+
+export const SYSTEM_ACTOR: TransitionActor = { role: "system" }
+
+// from -> to -> roles allowed to make that move
+const STATUS_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, TransitionActorRole[]>>> = {
+  pending: {
+    confirmed: ["owner", "admin", "system"],
+    cancelled: ["tenant", "owner", "admin", "system"],
+  },
+  confirmed: {
+    completed: ["owner", "admin", "system"],
+    cancelled: ["tenant", "owner", "admin", "system"],
+  },
+  completed: {},
+  cancelled: {},
+}
+
+const PAYMENT_STATUS_TRANSITIONS: Record<
+  BookingPaymentStatus,
+  Partial<Record<BookingPaymentStatus, TransitionActorRole[]>>
+> = {
+  pending: {
+    paid: ["admin", "system"],
+    // A payment captured after the booking was cancelled, given straight back
+    refunded: ["admin", "system"],
+  },
+  paid: {
+    partially_refunded: ["admin", "system"],
+    refunded: ["admin", "system"],
+  },
+  partially_refunded: {
+    refunded: ["admin", "system"],
+  },
+  refunded: {},
+}
+
+// A cancelled booking holds no bed, so it can't become paid; money that arrives
+// late is refunded instead (see refundLateBookingPayment)
+function paymentStatusAllowedFor(status: BookingStatus, from: BookingPaymentStatus, to: BookingPaymentStatus) {
+  if (from !== "pending") return true
+  return to === "refunded" ? status === "cancelled" : status !== "cancelled"
+}
+
+export interface BookingTransitionChanges {
+  status?: BookingStatus
+  paymentStatus?: BookingPaymentStatus
+}
+
+export interface BookingTransitionContext {
+  actor: TransitionActor
+  reason?: string
+  // Extra fields written in the same update as the transition (paymentId, ...)
+  set?: Record<string, unknown>
+  // Why the room is being released when the booking is cancelled
+  releaseReason?: "expired" | "cancelled"
+}
+
+export type BookingTransitionResult =
+  | { success: true; booking: IBooking }
+  | { success: false; error: string; status: number }
+
+export function canTransitionStatus(from: BookingStatus, to: BookingStatus, role: TransitionActorRole) {
+  return STATUS_TRANSITIONS[from]?.[to]?.includes(role) ?? false
+}
+
+export function canTransitionPaymentStatus(
+  from: BookingPaymentStatus,
+  to: BookingPaymentStatus,
+  role: TransitionActorRole,
+  bookingStatus?: BookingStatus,
+) {
+  if (bookingStatus && !paymentStatusAllowedFor(bookingStatus, from, to)) return false
+  return PAYMENT_STATUS_TRANSITIONS[from]?.[to]?.includes(role) ?? false
+}
+
+/**
+ * Work out how the session user relates to a booking
+ */
+export function getBookingActor(
+  booking: { user: unknown },
+  propertyOwnerId: string | null | undefined,
+  sessionUser: { id: string; role?: string },
+): TransitionActor | null {
+  if (sessionUser.role === "admin") return { role: "admin", userId: sessionUser.id }
+  if (propertyOwnerId && propertyOwnerId === sessionUser.id) return { role: "owner", userId: sessionUser.id }
+  if (refId(booking.user) === sessionUser.id) return { role: "tenant", userId: sessionUser.id }
+  return null
+}
+
+/**
+ * Apply a status and/or paymentStatus change to a booking.
+ *
+ * The update only matches if the booking is still in the state that was
+ * validated, so a stale read fails with 409 instead of clobbering a newer state.
+ */
+export async function transitionBooking(
+  booking: IBooking,
+  changes: BookingTransitionChanges,
+  context: BookingTransitionContext,
+): Promise<BookingTransitionResult> {
+  const { actor } = context
+  const now = new Date()
+  const history: Partial<IBookingTransition>[] = []
+  const set: Record<string, unknown> = { ...context.set, updatedAt: now }
+
+  const statusChanged = !!changes.status && changes.status !== booking.status
+  const paymentStatusChanged = !!changes.paymentStatus && changes.paymentStatus !== booking.paymentStatus
+
+  if (!statusChanged && !paymentStatusChanged) {
+    return { success: false, error: "Booking is already in the requested state", status: 400 }
+  }
+
+  if (statusChanged) {
+    if (!STATUS_TRANSITIONS[booking.status]?.[changes.status!]) {
+      return {
+        success: false,
+        error: `Cannot change booking status from ${booking.status} to ${changes.status}`,
+        status: 400,
+      }
+    }
+    if (!canTransitionStatus(booking.status, changes.status!, actor.role)) {
+      return { success: false, error: `You don't have permission to mark this booking ${changes.status}`, status: 403 }
+    }
+    if (booking.group && changes.status === "confirmed" && actor.role !== "system") {
+      return { success: false, error: "Group bookings are confirmed once every member has paid", status: 400 }
+    }
+    set.status = changes.status
+    history.push({ field: "status", from: booking.status, to: changes.status! })
+  }
+
+  if (paymentStatusChanged) {
+    const nextStatus = statusChanged ? changes.status! : booking.status
+    if (
+      !PAYMENT_STATUS_TRANSITIONS[booking.paymentStatus]?.[changes.paymentStatus!] ||
+      !paymentStatusAllowedFor(nextStatus, booking.paymentStatus, changes.paymentStatus!)
+    ) {
+      return {
+        success: false,
+        error: `Cannot change payment status from ${booking.paymentStatus} to ${changes.paymentStatus}`,
+        status: 400,
+      }
+    }
+    if (!canTransitionPaymentStatus(booking.paymentStatus, changes.paymentStatus!, actor.role, nextStatus)) {
+      return {
+        success: false,
+        error: `You don't have permission to mark this booking ${changes.paymentStatus}`,
+        status: 403,
+      }
+    }
+    set.paymentStatus = changes.paymentStatus
+    history.push({ field: "paymentStatus", from: booking.paymentStatus, to: changes.paymentStatus! })
+  }
+
+  const entries = history.map((entry) => ({
+    ...entry,
+    actor: actor.userId,
+    actorRole: actor.role,
+    reason: context.reason,
+    at: now,
+  }))
+
+  const updated: IBooking | null = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: booking.status, paymentStatus: booking.paymentStatus },
+    { $set: set, $push: { statusHistory: { $each: entries } } },
+    { new: true },
+  )
+
+  if (!updated) {
+    return { success: false, error: "Booking was updated by someone else, please retry", status: 409 }
+  }
+
+  await runTransitionEffects(booking, updated, context)
+
+  return { success: true, booking: updated }
+}
+
+/**
+ * Record a successful payment: pending bookings are confirmed at the same time,
+ * except group bookings, which wait for the rest of the group.
+ * Calling this for an already-paid booking is a no-op. Cancelled bookings are
+ * refused; the caller refunds the payment (refundLateBookingPayment).
+ */
+export async function markBookingPaid(
+  booking: IBooking,
+  payment: {
+    paymentId: string
+    paymentMethod: NonNullable<IBooking["paymentMethod"]>
+    payment?: mongoose.Types.ObjectId
+  },
+  context: { actor?: TransitionActor; reason: string },
+): Promise<BookingTransitionResult> {
+  if (booking.paymentStatus === "paid") {
+    return { success: true, booking }
+  }
+  if (booking.status === "cancelled") {
+    return { success: false, error: "This booking was cancelled before the payment came through", status: 409 }
+  }
+
+  return transitionBooking(
+    booking,
+    {
+      paymentStatus: "paid",
+      ...(booking.status === "pending" && !booking.group ? { status: "confirmed" as const } : {}),
+    },
+    {
+      actor: context.actor ?? SYSTEM_ACTOR,
+      reason: context.reason,
+      set: {
+        paymentId: payment.paymentId,
+        paymentMethod: payment.paymentMethod,
+        ...(payment.payment ? { payment: payment.payment } : {}),
+      },
+    },
+  )
+}
+
+async function runTransitionEffects(before: IBooking, after: IBooking, context: BookingTransitionContext) {
+  try {
+    const property = await Property.findById(after.property).select("title owner").lean<{
+      title?: string
+      owner?: unknown
+    }>()
+    const propertyTitle = property?.title || "your property"
+    const tenantId = refId(after.user)
+    const ownerId = property?.owner ? refId(property.owner) : null
+    const metadata = { bookingId: after._id.toString(), propertyId: refId(after.property) }
+    const reasonSuffix = context.reason ? ` Reason: ${context.reason}` : ""
+
+    if (before.status !== after.status) {
+      if (after.status === "cancelled") {
+        await releaseBookingHold(before, context.releaseReason ?? "cancelled")
+        await cancelMoveIn(after._id)
+        await revokeBookingDocumentShares(after._id)
+        await voidRentInvoices(after._id)
+        // One member dropping out of a forming group cancels the rest of it
+        if (after.group) await rollBackBookingGroup(after.group, "member_cancelled")
+
+        await createNotification({
+          userId: tenantId,
+          type: "booking",
+          title: "Booking cancelled",
+          message: `Your booking at ${propertyTitle} (${after.roomType}) has been cancelled.${reasonSuffix}`,
+          link: "/profile?tab=bookings",
+          priority: "high",
+          metadata,
+        })
+        if (ownerId && context.actor.role !== "owner") {
+          await createNotification({
+            userId: ownerId,
+            type: "booking",
+            title: "Booking cancelled",
+            message: `A booking for ${propertyTitle} (${after.roomType}) has been cancelled and the room released.${reasonSuffix}`,
+            link: "/profile?tab=properties",
+            priority: "medium",
+            metadata,
+          })
+        }
+      }
+
+      if (after.status === "confirmed") {
+        await createNotification({
+          userId: tenantId,
+          type: "booking",
+          title: "Booking confirmed",
+          message: `Your booking at ${propertyTitle} (${after.roomType}) is confirmed.`,
+          link: "/profile?tab=bookings",
+          priority: "high",
+          metadata,
+        })
+        await startMoveIn(after)
+      }
+
+      if (after.status === "completed") {
+        await revokeBookingDocumentShares(after._id)
+        // Rent for months that haven't started is no longer owed
+        await voidRentInvoices(after._id, { from: new Date() })
+
+        await createNotification({
+          userId: tenantId,
+          type: "booking",
+          title: "Stay completed",
+          message: `Your stay at ${propertyTitle} has been marked as completed. We'd love a review!`,
+          link: `/listings/${metadata.propertyId}`,
+          priority: "low",
+          metadata,
+        })
+      }
+    }
+
+    if (before.paymentStatus !== after.paymentStatus) {
+      if (after.paymentStatus === "paid") {
+        await createNotification({
+          userId: tenantId,
+          type: "payment",
+          title: "Payment received",
+          message: `We received ₹${after.totalAmount.toLocaleString("en-IN")} for your booking at ${propertyTitle}.`,
+          link: "/profile?tab=bookings",
+          priority: "high",
+          metadata: { ...metadata, amount: after.totalAmount },
+        })
+        if (ownerId) {
+          await createNotification({
+            userId: ownerId,
+            type: "payment",
+            title: "New paid booking",
+            message: `A ${after.roomType} booking for ${propertyTitle} has been paid.`,
+            link: "/profile?tab=properties",
+            priority: "high",
+            metadata: { ...metadata, amount: after.totalAmount },
+          })
+        }
+
+        await emailTaxInvoice(await issueBookingInvoice(after))
+
+        if (after.group) await completeBookingGroup(after.group)
+      }
+
+      if (after.paymentStatus === "refunded" || after.paymentStatus === "partially_refunded") {
+        const refundTotal = after.cancellation?.refund?.total
+        const amountText = refundTotal ? ` ₹${refundTotal.toLocaleString("en-IN")}` : ""
+        await createNotification({
+          userId: tenantId,
+          type: "payment",
+          title: after.paymentStatus === "refunded" ? "Payment refunded" : "Partial refund issued",
+          message: `A refund of${amountText || " your payment"} for ${propertyTitle} has been issued.${reasonSuffix}`,
+          link: "/profile?tab=bookings",
+          priority: "high",
+          metadata,
+        })
+      }
+    }
+  } catch (error) {
+    // The transition itself is already persisted; don't fail the caller over a side effect
+    console.error("Error running booking transition side effects:", error)
+  }
+}
@@ -0,0 +1,101 @@
+import mongoose from "mongoose"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { Booking } from "@/models/booking"
+import { MessSubscription } from "@/models/mess-subscription"
+import { ScheduleVisit } from "@/models/schedule-visit"
+import { buildCalendarFeed } from "@/lib/calendar-feed"
+
+const now = new Date("2026-10-19T06:30:00.000Z")
+const student = { _id: new mongoose.Types.ObjectId(), role: "user" as const }
+
+const property = {
+  _id: new mongoose.Types.ObjectId(),
+  title: "Sunrise PG, Koramangala; near \\ the metro",
+  address: "12 तीसरा क्रॉस रोड, कोरमंगला चौथा ब्लॉक, बेंगलुरु 560034 🏠 landmark: opposite the park",
+}
+
+const visit = {
+  _id: new mongoose.Types.ObjectId(),
+  property,
+  slot: { durationMinutes: 45 },
+  visitType: "in_person",
+  status: "confirmed",
+  scheduledDate: new Date("2026-10-21T05:30:00.000Z"),
+  notes: "Bring ID.\nAsk about parking",
+  createdAt: new Date("2026-10-18T10:00:00.000Z"),
+}
+
+const booking = {
+  _id: new mongoose.Types.ObjectId(),
+  property,
+  roomType: "Double",
+  status: "confirmed",
+  checkInDate: new Date("2026-11-01T06:30:00.000Z"),
+  createdAt: new Date("2026-10-18T10:00:00.000Z"),
+}
+
+// Stands in for the populate/sort/limit queries the feed runs
+function returns(records: unknown[]) {
+  const query = { populate: () => query, sort: () => query, limit: () => Promise.resolve(records) }
+  return query as never
+}
+
+async function feed(records: { visits?: unknown[]; bookings?: unknown[] }) {
+  vi.spyOn(ScheduleVisit, "find").mockReturnValue(returns(records.visits ?? []))
+  vi.spyOn(Booking, "find").mockReturnValue(returns(records.bookings ?? []))
+  vi.spyOn(MessSubscription, "find").mockReturnValue(returns([]))
+  return buildCalendarFeed(student, "https://secondhome.app", now)
+}
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, "")
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("buildCalendarFeed", () => {
+  it("ends every line with CRLF", async () => {
+    const ics = await feed({ visits: [visit] })
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true)
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true)
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/)
+  })
+
+  it("folds long lines at 75 octets without splitting multi-byte characters", async () => {
+    const ics = await feed({ visits: [visit] })
+    const lines = ics.split("\r\n")
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+      expect(line).not.toContain("�")
+    }
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true)
+    expect(unfold(ics)).toContain(`LOCATION:${property.address.replace(/,/g, "\\,")}`)
+  })
+
+  it("escapes commas, semicolons, backslashes and newlines in text", async () => {
+    const ics = unfold(await feed({ visits: [visit] }))
+    expect(ics).toContain("SUMMARY:Visit: Sunrise PG\\, Koramangala\\; near \\\\ the metro\r\n")
+    expect(ics).toContain("DESCRIPTION:Notes: Bring ID.\\nAsk about parking\r\n")
+  })
+
+  it("keeps UIDs stable across edits and bumps SEQUENCE instead", async () => {
+    const before = unfold(await feed({ bookings: [booking] }))
+    vi.restoreAllMocks()
+    const after = unfold(
+      await feed({ bookings: [{ ...booking, status: "cancelled", updatedAt: new Date("2026-10-19T05:00:00.000Z") }] }),
+    )
+
+    const uids = (ics: string) => ics.match(/^UID:.*$/gm)
+    const sequences = (ics: string) => ics.match(/^SEQUENCE:.*$/gm)
+    expect(uids(before)).toEqual([`UID:booking-${booking._id}-checkin@secondhome.app`])
+    expect(uids(after)).toEqual(uids(before))
+    expect(sequences(after)).not.toEqual(sequences(before))
+    expect(after).toContain("STATUS:CANCELLED")
+  })
+
+  it("gives check-in days as all-day events on the India date", async () => {
+    const ics = await feed({ bookings: [{ ...booking, checkInDate: new Date("2026-10-31T20:00:00.000Z") }] })
+    expect(ics).toContain("DTSTART;VALUE=DATE:20261101\r\nDTEND;VALUE=DATE:20261102\r\n")
+  })
+})
@@ -0,0 +1,326 @@
+import { randomBytes } from "crypto"
+import mongoose from "mongoose"
+import { addDays } from "date-fns"
+import { Booking, type IBooking } from "@/models/booking"
+import { Mess } from "@/models/mess"
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription"
+import { Property } from "@/models/property"
+import { ScheduleVisit, type IScheduleVisit } from "@/models/schedule-visit"
+import { getUserModel } from "@/models/user"
+import { VisitSlot } from "@/models/visit-slot"
+import { toDayKey } from "@/lib/meal-attendance"
+
+/**
+ * Per-user iCalendar feeds.
+ *
+ * Each user can have a secret feed token; the feed at /api/calendar/<token>.ics
+ * needs no login so calendar apps can poll it. Students see their visits,
+ * booking check-in/check-out days and mess subscription renewal dates; owners
+ * additionally see every visit and move-in across their properties.
+ *
+ * Every event keeps the same UID for the life of the record and carries a
+ * SEQUENCE taken from when the record was last updated, so calendar apps
+ * replace edited events in place. Cancelled records stay in the feed with
+ * STATUS:CANCELLED (for a while) so subscribers drop them instead of keeping
+ * a stale copy.
+ */
+
+const PRODUCT_ID = "-//SecondHome//Calendar Feed//EN"
+const UID_DOMAIN = "secondhome.app"
+
+// Events that ended longer ago than this are left out of the feed
+export const CALENDAR_FEED_HISTORY_DAYS = 60
+
+const MAX_EVENTS_PER_KIND = 500
+
+type EventStatus = "TENTATIVE" | "CONFIRMED" | "CANCELLED"
+
+interface CalendarEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  status: EventStatus
+  updatedAt: Date
+  // Timed events have an end; all-day events cover the (India) day of `start`
+  start: Date
+  end?: Date
+}
+
+interface FeedUser {
+  _id: mongoose.Types.ObjectId
+  role: "user" | "owner" | "admin"
+}
+
+interface PopulatedPlace {
+  _id: mongoose.Types.ObjectId
+  title?: string
+  name?: string
+  address?: string
+  location?: string
+}
+
+export function generateCalendarFeedToken() {
+  return randomBytes(24).toString("base64url")
+}
+
+/**
+ * The user's feed token, created on first use
+ */
+export async function getCalendarFeedToken(userId: string) {
+  const User = await getUserModel()
+  const user = await User.findById(userId).select("calendarFeedToken").lean()
+  if (!user) return null
+  if (user.calendarFeedToken) return user.calendarFeedToken
+
+  // Conditional so two tabs asking at once end up with the same token
+  const token = generateCalendarFeedToken()
+  const updated = await User.findOneAndUpdate(
+    { _id: userId, calendarFeedToken: { $exists: false } },
+    { $set: { calendarFeedToken: token } },
+    { new: true },
+  )
+    .select("calendarFeedToken")
+    .lean()
+  if (updated?.calendarFeedToken) return updated.calendarFeedToken
+
+  const current = await User.findById(userId).select("calendarFeedToken").lean()
+  return current?.calendarFeedToken ?? null
+}
+
+/**
+ * Replace the user's feed token, cutting off every app subscribed to the old one
+ */
+export async function rotateCalendarFeedToken(userId: string) {
+  const User = await getUserModel()
+  const token = generateCalendarFeedToken()
+  const updated = await User.findByIdAndUpdate(userId, { $set: { calendarFeedToken: token } }, { new: true })
+    .select("calendarFeedToken")
+    .lean()
+  return updated?.calendarFeedToken ?? null
+}
+
+export async function findUserByCalendarFeedToken(token: string): Promise<FeedUser | null> {
+  const User = await getUserModel()
+  return User.findOne({ calendarFeedToken: token }).select("role").lean<FeedUser>()
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function formatDay(date: Date) {
+  return toDayKey(date).replace(/-/g, "")
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string) {
+  const chunks: string[] = []
+  let current = ""
+  let size = 0
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char)
+    if (size + charSize > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ""
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  chunks.push(current)
+  return chunks.join("\r\n ")
+}
+
+function renderEvent(event: CalendarEvent, now: Date) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `LAST-MODIFIED:${formatUtc(event.updatedAt)}`,
+    `SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`,
+  ]
+  if (event.end) {
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`)
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDay(event.start)}`, `DTEND;VALUE=DATE:${formatDay(addDays(event.start, 1))}`)
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`, `STATUS:${event.status}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  lines.push("END:VEVENT")
+  return lines.map(foldLine)
+}
+
+function renderCalendar(name: string, events: CalendarEvent[], now: Date) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    foldLine(`X-WR-CALNAME:${escapeText(name)}`),
+    "X-WR-TIMEZONE:Asia/Kolkata",
+    ...events.flatMap((event) => renderEvent(event, now)),
+    "END:VCALENDAR",
+  ]
+  return `${lines.join("\r\n")}\r\n`
+}
+
+const placeName = (place: unknown, fallback: string) => {
+  const populated = place as PopulatedPlace | undefined
+  return populated?.title || populated?.name || fallback
+}
+
+const placeAddress = (place: unknown) => {
+  const populated = place as PopulatedPlace | undefined
+  return [populated?.address, populated?.location].filter(Boolean).join(", ") || undefined
+}
+
+const placeId = (place: unknown) => String((place as PopulatedPlace | undefined)?._id ?? place)
+
+const updatedAt = (record: { updatedAt?: Date; createdAt: Date }) => record.updatedAt ?? record.createdAt
+
+function visitEvent(visit: IScheduleVisit, side: "visitor" | "owner", baseUrl: string): CalendarEvent {
+  const property = placeName(visit.property, "a property")
+  const virtual = visit.visitType === "virtual"
+  const slot = visit.slot as unknown as { durationMinutes?: number } | undefined
+  const minutes = slot?.durationMinutes ?? 30
+  const who = visit.visitorName || "a student"
+  return {
+    uid: `visit-${visit._id}@${UID_DOMAIN}`,
+    summary:
+      side === "visitor"
+        ? `${virtual ? "Virtual tour" : "Visit"}: ${property}`
+        : `${virtual ? "Virtual tour" : "Visit"} with ${who}: ${property}`,
+    description: [
+      visit.status === "pending" ? "Awaiting the owner's confirmation." : undefined,
+      side === "owner" ? [visit.visitorPhone, visit.visitorEmail].filter(Boolean).join(" · ") || undefined : undefined,
+      visit.notes ? `Notes: ${visit.notes}` : undefined,
+      visit.cancellationReason ? `Cancelled: ${visit.cancellationReason}` : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    location: virtual ? "Video call" : placeAddress(visit.property),
+    url: virtual ? `${baseUrl}/visits/${visit._id}/room` : `${baseUrl}/listings/${placeId(visit.property)}`,
+    status: visit.status === "cancelled" ? "CANCELLED" : visit.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+    updatedAt: updatedAt(visit),
+    start: visit.scheduledDate,
+    end: new Date(visit.scheduledDate.getTime() + minutes * 60 * 1000),
+  }
+}
+
+function bookingEvents(booking: IBooking, side: "tenant" | "owner", baseUrl: string): CalendarEvent[] {
+  const property = placeName(booking.property, "your stay")
+  const status: EventStatus =
+    booking.status === "cancelled" ? "CANCELLED" : booking.status === "pending" ? "TENTATIVE" : "CONFIRMED"
+  const tenant = placeName(booking.user, "A tenant")
+  const shared = {
+    location: placeAddress(booking.property),
+    url: side === "tenant" ? `${baseUrl}/profile?tab=bookings` : `${baseUrl}/profile?tab=properties`,
+    status,
+    updatedAt: updatedAt(booking),
+  }
+
+  const events: CalendarEvent[] = [
+    {
+      ...shared,
+      uid: `booking-${booking._id}-checkin@${UID_DOMAIN}`,
+      summary: side === "tenant" ? `Check-in: ${property}` : `Move-in: ${tenant} at ${property}`,
+      description: `${booking.roomType} room${booking.status === "pending" ? " (booking not confirmed yet)" : ""}`,
+      start: booking.checkInDate,
+    },
+  ]
+  if (booking.checkOutDate) {
+    events.push({
+      ...shared,
+      uid: `booking-${booking._id}-checkout@${UID_DOMAIN}`,
+      summary: side === "tenant" ? `Check-out: ${property}` : `Move-out: ${tenant} at ${property}`,
+      start: booking.checkOutDate,
+    })
+  }
+  return events
+}
+
+function subscriptionEvent(subscription: IMessSubscription, baseUrl: string): CalendarEvent {
+  const mess = placeName(subscription.mess, "your mess")
+  return {
+    uid: `mess-subscription-${subscription._id}-renewal@${UID_DOMAIN}`,
+    summary: `Mess subscription ends: ${mess}`,
+    description: "Renew before this day to keep your meals going.",
+    location: placeAddress(subscription.mess),
+    url: `${baseUrl}/messes/${placeId(subscription.mess)}`,
+    status: subscription.status === "cancelled" ? "CANCELLED" : subscription.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+    updatedAt: updatedAt(subscription),
+    start: subscription.endDate,
+  }
+}
+
+/**
+ * Render a user's feed. `baseUrl` is the site origin used for event links.
+ */
+export async function buildCalendarFeed(user: FeedUser, baseUrl: string, now = new Date()) {
+  const since = addDays(now, -CALENDAR_FEED_HISTORY_DAYS)
+  const placeFields = "title name address location"
+
+  const [visits, bookings, subscriptions] = await Promise.all([
+    ScheduleVisit.find({ user: user._id, scheduledDate: { $gte: since } })
+      .populate("property", placeFields)
+      .populate("slot", "durationMinutes", VisitSlot)
+      .sort({ scheduledDate: -1 })
+      .limit(MAX_EVENTS_PER_KIND),
+    Booking.find({
+      user: user._id,
+      $or: [{ checkInDate: { $gte: since } }, { checkOutDate: { $gte: since } }],
+    })
+      .populate("property", placeFields)
+      .sort({ checkInDate: -1 })
+      .limit(MAX_EVENTS_PER_KIND),
+    MessSubscription.find({ user: user._id, status: { $ne: "expired" }, endDate: { $gte: since } })
+      .populate("mess", placeFields, Mess)
+      .sort({ endDate: -1 })
+      .limit(MAX_EVENTS_PER_KIND),
+  ])
+
+  // Keyed by UID so an owner who is also a visitor somewhere never gets the same event twice
+  const events = new Map<string, CalendarEvent>()
+  const add = (event: CalendarEvent) => events.set(event.uid, event)
+
+  visits.forEach((visit: IScheduleVisit) => add(visitEvent(visit, "visitor", baseUrl)))
+  bookings.forEach((booking: IBooking) => bookingEvents(booking, "tenant", baseUrl).forEach(add))
+  subscriptions.forEach((subscription: IMessSubscription) => add(subscriptionEvent(subscription, baseUrl)))
+
+  if (user.role === "owner" || user.role === "admin") {
+    const properties = await Property.find({ owner: user._id }).select("_id").lean()
+    const propertyIds = properties.map((property: { _id: mongoose.Types.ObjectId }) => property._id)
+
+    const [ownerVisits, moveIns] = await Promise.all([
+      ScheduleVisit.find({ owner: user._id, scheduledDate: { $gte: since } })
+        .populate("property", placeFields)
+        .populate("slot", "durationMinutes", VisitSlot)
+        .sort({ scheduledDate: -1 })
+        .limit(MAX_EVENTS_PER_KIND),
+      propertyIds.length === 0
+        ? []
+        : Booking.find({
+            property: { $in: propertyIds },
+            $or: [{ checkInDate: { $gte: since } }, { checkOutDate: { $gte: since } }],
+          })
+            .populate("property", placeFields)
+            .populate("user", "name")
+            .sort({ checkInDate: -1 })
+            .limit(MAX_EVENTS_PER_KIND),
+    ])
+
+    ownerVisits.forEach((visit: IScheduleVisit) => add(visitEvent(visit, "owner", baseUrl)))
+    moveIns.forEach((booking: IBooking) => bookingEvents(booking, "owner", baseUrl).forEach(add))
+  }
+
+  return renderCalendar("SecondHome", [...events.values()], now)
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+import {
+  computeRefund,
+  DEFAULT_CANCELLATION_POLICY,
+  parseCancellationPolicy,
+  resolveCancellationPolicy,
+} from "@/lib/cancellation-policy"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date("2026-03-01T10:00:00.000Z")
+
+function paidBooking(daysBeforeCheckIn: number) {
+  return {
+    paymentStatus: "paid",
+    checkInDate: new Date(now.getTime() + daysBeforeCheckIn * DAY_MS),
+    price: 10000,
+    firstMonthRent: 10000,
+    commissionAmount: 750,
+    settlingInKit: { price: 1500 },
+  }
+}
+
+describe("computeRefund", () => {
+  it("refunds nothing on an unpaid booking", () => {
+    const refund = computeRefund({ ...paidBooking(30), paymentStatus: "pending" }, DEFAULT_CANCELLATION_POLICY, {
+      cancelledBy: "tenant",
+      at: now,
+    })
+    expect(refund.total).toBe(0)
+    expect(refund.daysBeforeCheckIn).toBe(30)
+  })
+
+  it("applies the tier the cancellation falls in", () => {
+    const early = computeRefund(paidBooking(20), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "tenant", at: now })
+    expect(early).toMatchObject({ rentPercent: 100, rent: 10000, commission: 0, settlingInKit: 1500, total: 11500 })
+
+    const middle = computeRefund(paidBooking(10), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "tenant", at: now })
+    expect(middle).toMatchObject({ rentPercent: 50, rent: 5000, total: 6500 })
+
+    const late = computeRefund(paidBooking(3), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "tenant", at: now })
+    expect(late).toMatchObject({ rentPercent: 0, rent: 0, total: 1500 })
+  })
+
+  it("counts a tier's boundary day as inside it", () => {
+    expect(computeRefund(paidBooking(15), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "tenant", at: now }).rentPercent).toBe(100)
+    expect(computeRefund(paidBooking(7), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "tenant", at: now }).rentPercent).toBe(50)
+  })
+
+  it("refunds commission with the rent only when the policy says so", () => {
+    const policy = { ...DEFAULT_CANCELLATION_POLICY, commissionRefundable: true, settlingInKitRefundable: false }
+    const refund = computeRefund(paidBooking(10), policy, { cancelledBy: "tenant", at: now })
+    expect(refund).toMatchObject({ rent: 5000, commission: 375, settlingInKit: 0, total: 5375 })
+  })
+
+  it("refunds everything when the owner cancels or a full refund is forced", () => {
+    const full = { rentPercent: 100, rent: 10000, commission: 750, settlingInKit: 1500, total: 12250 }
+    expect(computeRefund(paidBooking(1), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "owner", at: now })).toMatchObject(full)
+    expect(
+      computeRefund(paidBooking(1), DEFAULT_CANCELLATION_POLICY, { cancelledBy: "system", at: now, fullRefund: true }),
+    ).toMatchObject(full)
+  })
+
+  it("falls back to the price when the first month's rent wasn't recorded", () => {
+    const refund = computeRefund(
+      { paymentStatus: "paid", checkInDate: new Date(now.getTime() + 30 * DAY_MS), price: 8000 },
+      DEFAULT_CANCELLATION_POLICY,
+      { cancelledBy: "tenant", at: now },
+    )
+    expect(refund).toMatchObject({ rent: 8000, commission: 0, settlingInKit: 0, total: 8000 })
+  })
+})
+
+describe("resolveCancellationPolicy", () => {
+  it("uses the default when a property has no tiers", () => {
+    expect(resolveCancellationPolicy(null)).toBe(DEFAULT_CANCELLATION_POLICY)
+    expect(resolveCancellationPolicy({ cancellationPolicy: { tiers: [] } })).toBe(DEFAULT_CANCELLATION_POLICY)
+  })
+
+  it("sorts tiers longest notice first and fills in missing flags", () => {
+    const policy = resolveCancellationPolicy({
+      cancellationPolicy: {
+        tiers: [
+          { daysBeforeCheckIn: 3, refundPercent: 25 },
+          { daysBeforeCheckIn: 30, refundPercent: 100 },
+        ],
+      },
+    })
+    expect(policy.tiers.map((tier) => tier.daysBeforeCheckIn)).toEqual([30, 3])
+    expect(policy.commissionRefundable).toBe(false)
+    expect(policy.settlingInKitRefundable).toBe(true)
+  })
+})
+
+describe("parseCancellationPolicy", () => {
+  it("accepts and sorts a valid policy", () => {
+    const parsed = parseCancellationPolicy({
+      tiers: [
+        { daysBeforeCheckIn: 0, refundPercent: 10 },
+        { daysBeforeCheckIn: 10, refundPercent: 80 },
+      ],
+      commissionRefundable: true,
+    })
+    expect(parsed).toEqual({
+      policy: {
+        tiers: [
+          { daysBeforeCheckIn: 10, refundPercent: 80 },
+          { daysBeforeCheckIn: 0, refundPercent: 10 },
+        ],
+        commissionRefundable: true,
+        settlingInKitRefundable: true,
+      },
+    })
+  })
+
+  it("rejects missing, out of range and duplicate tiers", () => {
+    expect(parseCancellationPolicy({ tiers: [] })).toHaveProperty("error")
+    expect(parseCancellationPolicy({ tiers: [{ daysBeforeCheckIn: -1, refundPercent: 50 }] })).toHaveProperty("error")
+    expect(parseCancellationPolicy({ tiers: [{ daysBeforeCheckIn: 2.5, refundPercent: 50 }] })).toHaveProperty("error")
+    expect(parseCancellationPolicy({ tiers: [{ daysBeforeCheckIn: 5, refundPercent: 120 }] })).toHaveProperty("error")
+    expect(
+      parseCancellationPolicy({
+        tiers: [
+          { daysBeforeCheckIn: 5, refundPercent: 50 },
+          { daysBeforeCheckIn: 5, refundPercent: 20 },
+        ],
+      }),
+    ).toHaveProperty("error")
+  })
+})
@@ -0,0 +1,132 @@
+import type { ICancellationPolicy } from "@/models/property"
+
+/**
+ * Per-property cancellation policies and refund computation
+ *
+ * Tiers refund a share of the first month's rent depending on how many days
+ * before check-in the booking is cancelled. The platform commission and the
+ * settling-in kit are handled on their own flags, since neither is rent.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_CANCELLATION_POLICY: ICancellationPolicy = {
+  tiers: [
+    { daysBeforeCheckIn: 15, refundPercent: 100 },
+    { daysBeforeCheckIn: 7, refundPercent: 50 },
+  ],
+  commissionRefundable: false,
+  settlingInKitRefundable: true,
+}
+
+export interface RefundBreakdown {
+  daysBeforeCheckIn: number
+  rentPercent: number
+  rent: number
+  commission: number
+  settlingInKit: number
+  total: number
+}
+
+export function resolveCancellationPolicy(property?: { cancellationPolicy?: Partial<ICancellationPolicy> } | null) {
+  const policy = property?.cancellationPolicy
+  if (!policy?.tiers?.length) return DEFAULT_CANCELLATION_POLICY
+
+  return {
+    tiers: [...policy.tiers]
+      .map((tier) => ({ daysBeforeCheckIn: tier.daysBeforeCheckIn, refundPercent: tier.refundPercent }))
+      .sort((a, b) => b.daysBeforeCheckIn - a.daysBeforeCheckIn),
+    commissionRefundable: policy.commissionRefundable ?? DEFAULT_CANCELLATION_POLICY.commissionRefundable,
+    settlingInKitRefundable: policy.settlingInKitRefundable ?? DEFAULT_CANCELLATION_POLICY.settlingInKitRefundable,
+  }
+}
+
+/**
+ * Validate a policy submitted by an owner
+ */
+export function parseCancellationPolicy(input: unknown): { policy: ICancellationPolicy } | { error: string } {
+  const body = input as Partial<ICancellationPolicy> | null
+  if (!body || !Array.isArray(body.tiers) || body.tiers.length === 0) {
+    return { error: "At least one cancellation tier is required" }
+  }
+  if (body.tiers.length > 10) {
+    return { error: "A policy can have at most 10 tiers" }
+  }
+
+  const tiers = []
+  for (const tier of body.tiers) {
+    const days = Number(tier?.daysBeforeCheckIn)
+    const percent = Number(tier?.refundPercent)
+    if (!Number.isInteger(days) || days < 0) {
+      return { error: "daysBeforeCheckIn must be a whole number of days (0 or more)" }
+    }
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      return { error: "refundPercent must be between 0 and 100" }
+    }
+    tiers.push({ daysBeforeCheckIn: days, refundPercent: percent })
+  }
+
+  if (new Set(tiers.map((tier) => tier.daysBeforeCheckIn)).size !== tiers.length) {
+    return { error: "Each tier needs a different daysBeforeCheckIn" }
+  }
+
+  return {
+    policy: {
+      tiers: tiers.sort((a, b) => b.daysBeforeCheckIn - a.daysBeforeCheckIn),
+      commissionRefundable: body.commissionRefundable === true,
+      settlingInKitRefundable: body.settlingInKitRefundable !== false,
+    },
+  }
+}
+
+/**
+ * Work out what a cancellation refunds.
+ *
+ * Nothing is refunded on unpaid bookings. When the owner cancels, or
+ * `fullRefund` is set (a group booking that fell through), the tenant is not
+ * at fault and gets everything back regardless of the policy.
+ */
+export function computeRefund(
+  booking: {
+    paymentStatus: string
+    checkInDate: Date
+    price: number
+    firstMonthRent?: number
+    commissionAmount?: number
+    settlingInKit?: { price?: number }
+  },
+  policy: ICancellationPolicy,
+  options: { cancelledBy: "tenant" | "owner" | "admin" | "system"; at?: Date; fullRefund?: boolean },
+): RefundBreakdown {
+  const at = options.at ?? new Date()
+  const daysBeforeCheckIn = Math.floor((new Date(booking.checkInDate).getTime() - at.getTime()) / DAY_MS)
+
+  const rentPaid = booking.firstMonthRent ?? booking.price ?? 0
+  const commissionPaid = booking.commissionAmount ?? 0
+  const kitPaid = booking.settlingInKit?.price ?? 0
+
+  if (booking.paymentStatus !== "paid") {
+    return { daysBeforeCheckIn, rentPercent: 0, rent: 0, commission: 0, settlingInKit: 0, total: 0 }
+  }
+
+  if (options.cancelledBy === "owner" || options.fullRefund) {
+    const total = rentPaid + commissionPaid + kitPaid
+    return { daysBeforeCheckIn, rentPercent: 100, rent: rentPaid, commission: commissionPaid, settlingInKit: kitPaid, total }
+  }
+
+  const tier = policy.tiers.find((candidate) => daysBeforeCheckIn >= candidate.daysBeforeCheckIn)
+  const rentPercent = tier?.refundPercent ?? 0
+
+  const rent = Math.round((rentPaid * rentPercent) / 100)
+  const commission = policy.commissionRefundable ? Math.round((commissionPaid * rentPercent) / 100) : 0
+  const settlingInKit = policy.settlingInKitRefundable ? kitPaid : 0
+
+  return {
+    daysBeforeCheckIn,
+    rentPercent,
+    rent,
+    commission,
+    settlingInKit,
+    total: rent + commission + settlingInKit,
+  }
+}
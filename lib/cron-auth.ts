@@ -0,0 +1,10 @@
+/**
+ * Scheduled jobs (hold expiry, reminders, ...) are plain API routes hit by an
+ * external scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export function isAuthorizedCronRequest(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  return req.headers.get("authorization") === `Bearer ${secret}`
+}
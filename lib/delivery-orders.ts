@@ -0,0 +1,311 @@
+import mongoose from "mongoose"
+import { format } from "date-fns"
+import { Mess, type IMess } from "@/models/mess"
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription"
+import { MealAttendance } from "@/models/meal-attendance"
+import { DeliveryOrder, type IDeliveryOrder, type IDeliveryOrderTransition } from "@/models/delivery-order"
+import { createNotification } from "@/lib/notification-helper"
+import { getMealCutoff, getMessMeals, parseDayKey } from "@/lib/meal-attendance"
+import { refId } from "@/lib/utils"
+
+/**
+ * Home delivery of subscribers' meals
+ *
+ * A subscriber of a mess with `homeDeliveryAvailable` can have a meal their
+ * subscription covers delivered, as long as their address is within the
+ * mess's `deliveryRadius` of `IMess.coordinates` (measured with $geoNear on the
+ * mess's 2dsphere index) and the meal isn't skipped. Orders close at the same
+ * cutoff as skips, since that is when the mess plans its plates. Delivery and
+ * packaging charges come on top and are collected on delivery. The owner moves
+ * the order along placed -> preparing -> out_for_delivery -> delivered; every
+ * move is a conditional update recorded in `statusHistory`.
+ */
+
+export type DeliveryOrderStatus = IDeliveryOrder["status"]
+export type DeliveryActorRole = IDeliveryOrderTransition["actorRole"]
+
+export interface DeliveryActor {
+  role: DeliveryActorRole
+  userId: string
+}
+
+type DeliveryFailure = { success: false; error: string; status: number }
+
+export type DeliveryOrderResult = { success: true; order: IDeliveryOrder } | DeliveryFailure
+
+// from -> to -> roles allowed to make that move
+const STATUS_TRANSITIONS: Record<DeliveryOrderStatus, Partial<Record<DeliveryOrderStatus, DeliveryActorRole[]>>> = {
+  placed: {
+    preparing: ["owner", "admin"],
+    cancelled: ["subscriber", "owner", "admin"],
+  },
+  preparing: {
+    out_for_delivery: ["owner", "admin"],
+    cancelled: ["owner", "admin"],
+  },
+  out_for_delivery: {
+    delivered: ["owner", "admin"],
+  },
+  delivered: {},
+  cancelled: {},
+}
+
+const STATUS_LABELS: Record<DeliveryOrderStatus, string> = {
+  placed: "placed",
+  preparing: "being prepared",
+  out_for_delivery: "out for delivery",
+  delivered: "delivered",
+  cancelled: "cancelled",
+}
+
+export function canTransitionDeliveryOrder(from: DeliveryOrderStatus, to: DeliveryOrderStatus, role: DeliveryActorRole) {
+  return STATUS_TRANSITIONS[from]?.[to]?.includes(role) ?? false
+}
+
+function roundRupees(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+function isValidLocation(coordinates: unknown): coordinates is [number, number] {
+  if (!Array.isArray(coordinates) || coordinates.length !== 2) return false
+  const [lng, lat] = coordinates
+  return (
+    typeof lng === "number" &&
+    typeof lat === "number" &&
+    Number.isFinite(lng) &&
+    Number.isFinite(lat) &&
+    Math.abs(lng) <= 180 &&
+    Math.abs(lat) <= 90
+  )
+}
+
+/**
+ * Straight-line distance in km from a mess to a point, using the mess's 2dsphere index
+ */
+export async function measureDeliveryDistanceKm(messId: mongoose.Types.ObjectId, coordinates: [number, number]) {
+  const [result] = await Mess.aggregate<{ distance: number }>([
+    {
+      $geoNear: {
+        near: { type: "Point", coordinates },
+        distanceField: "distance",
+        key: "coordinates",
+        spherical: true,
+        query: { _id: messId },
+      },
+    },
+    { $project: { distance: 1 } },
+  ])
+  // Metres to km, to two decimals
+  return result ? Math.round(result.distance / 10) / 100 : null
+}
+
+/**
+ * Whether a mess delivers to a point and what it charges
+ */
+export async function getDeliveryQuote(
+  mess: IMess,
+  coordinates: unknown,
+): Promise<
+  | { success: true; distanceKm: number; deliveryCharge: number; packagingCharge: number; total: number }
+  | DeliveryFailure
+> {
+  if (!mess.homeDeliveryAvailable || !(mess.deliveryRadius > 0)) {
+    return { success: false, error: "This mess doesn't deliver", status: 400 }
+  }
+  if (!isValidLocation(coordinates)) {
+    return { success: false, error: "A valid delivery location is required", status: 400 }
+  }
+
+  const distanceKm = await measureDeliveryDistanceKm(mess._id as mongoose.Types.ObjectId, coordinates)
+  if (distanceKm === null) {
+    return { success: false, error: "Couldn't measure the distance to this mess", status: 400 }
+  }
+  if (distanceKm > mess.deliveryRadius) {
+    return {
+      success: false,
+      error: `This address is ${distanceKm} km away; the mess delivers within ${mess.deliveryRadius} km`,
+      status: 400,
+    }
+  }
+
+  const deliveryCharge = Math.max(0, Number(mess.deliveryCharges) || 0)
+  const packagingCharge = mess.packagingAvailable ? Math.max(0, Number(mess.packagingPrice) || 0) : 0
+  return {
+    success: true,
+    distanceKm,
+    deliveryCharge,
+    packagingCharge,
+    total: roundRupees(deliveryCharge + packagingCharge),
+  }
+}
+
+/**
+ * Place a delivery order for a meal the subscriber's active subscription covers
+ */
+export async function placeDeliveryOrder(
+  userId: string,
+  input: {
+    subscriptionId: string
+    date: string
+    meal: string
+    address: string
+    coordinates: unknown
+    phone?: string
+    notes?: string
+  },
+  now = new Date(),
+): Promise<DeliveryOrderResult> {
+  if (!mongoose.Types.ObjectId.isValid(input.subscriptionId)) {
+    return { success: false, error: "Invalid subscription ID", status: 400 }
+  }
+  const day = parseDayKey(input.date)
+  if (!day) {
+    return { success: false, error: "Invalid date", status: 400 }
+  }
+  const address = input.address.trim()
+  if (!address) {
+    return { success: false, error: "A delivery address is required", status: 400 }
+  }
+  const meal = input.meal.trim().toLowerCase()
+
+  const subscription: IMessSubscription | null = await MessSubscription.findById(input.subscriptionId)
+  if (!subscription || subscription.user.toString() !== userId) {
+    return { success: false, error: "Subscription not found", status: 404 }
+  }
+  if (subscription.status !== "active" || day < subscription.startDate || day >= subscription.endDate) {
+    return { success: false, error: "Your subscription doesn't cover that day", status: 400 }
+  }
+
+  const mess: IMess | null = await Mess.findById(subscription.mess)
+  if (!mess) {
+    return { success: false, error: "Mess not found", status: 404 }
+  }
+  if (!getMessMeals(mess).includes(meal)) {
+    return { success: false, error: "This mess doesn't serve that meal", status: 400 }
+  }
+  if (now >= getMealCutoff(mess, day, meal)) {
+    return { success: false, error: "It's too late to order this meal for delivery", status: 400 }
+  }
+
+  const skipped = await MealAttendance.exists({ subscription: subscription._id, date: day, meal, status: "skipped" })
+  if (skipped) {
+    return { success: false, error: "You've skipped this meal; undo the skip to have it delivered", status: 400 }
+  }
+  const existing = await DeliveryOrder.exists({
+    subscription: subscription._id,
+    date: day,
+    meal,
+    status: { $ne: "cancelled" },
+  })
+  if (existing) {
+    return { success: false, error: "This meal is already being delivered", status: 409 }
+  }
+
+  const quote = await getDeliveryQuote(mess, input.coordinates)
+  if (!quote.success) return quote
+
+  const order: IDeliveryOrder = await DeliveryOrder.create({
+    user: userId,
+    mess: mess._id,
+    owner: mess.owner,
+    subscription: subscription._id,
+    date: day,
+    meal,
+    address,
+    phone: input.phone?.trim() || subscription.subscriberPhone,
+    notes: input.notes?.trim() || undefined,
+    location: { type: "Point", coordinates: input.coordinates },
+    distanceKm: quote.distanceKm,
+    deliveryCharge: quote.deliveryCharge,
+    packagingCharge: quote.packagingCharge,
+    total: quote.total,
+    status: "placed",
+    statusHistory: [],
+    createdAt: now,
+  })
+
+  await createNotification({
+    userId: mess.owner.toString(),
+    type: "booking",
+    title: "New delivery order",
+    message: `${meal.charAt(0).toUpperCase() + meal.slice(1)} on ${format(day, "d MMM")} to ${address} (${quote.distanceKm} km).`,
+    link: "/profile?tab=mess-deliveries",
+    priority: "high",
+    metadata: { orderId: String(order._id), messId: String(mess._id) },
+  })
+
+  return { success: true, order }
+}
+
+/**
+ * Work out how the session user relates to an order
+ */
+export function getDeliveryActor(
+  order: IDeliveryOrder,
+  sessionUser: { id: string; role?: string },
+): DeliveryActor | null {
+  if (sessionUser.role === "admin") return { role: "admin", userId: sessionUser.id }
+  if (refId(order.owner) === sessionUser.id) return { role: "owner", userId: sessionUser.id }
+  if (refId(order.user) === sessionUser.id) return { role: "subscriber", userId: sessionUser.id }
+  return null
+}
+
+/**
+ * Move an order to its next status. Fails with 409 if someone else moved it first.
+ */
+export async function updateDeliveryOrderStatus(
+  order: IDeliveryOrder,
+  to: DeliveryOrderStatus,
+  actor: DeliveryActor,
+  reason?: string,
+): Promise<DeliveryOrderResult> {
+  const from = order.status
+  if (!canTransitionDeliveryOrder(from, to, actor.role)) {
+    return { success: false, error: `An order that is ${STATUS_LABELS[from]} can't be marked ${STATUS_LABELS[to]}`, status: 400 }
+  }
+
+  const now = new Date()
+  const set: Record<string, unknown> = { status: to, updatedAt: now }
+  if (to === "delivered") set.deliveredAt = now
+  if (to === "cancelled" && reason) set.cancellationReason = reason
+
+  const updated: IDeliveryOrder | null = await DeliveryOrder.findOneAndUpdate(
+    { _id: order._id, status: from },
+    {
+      $set: set,
+      $push: { statusHistory: { from, to, actor: actor.userId, actorRole: actor.role, reason, at: now } },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This order was updated by someone else. Refresh and try again.", status: 409 }
+  }
+
+  const mealLabel = `${updated.meal} on ${format(updated.date, "d MMM")}`
+  if (actor.role === "subscriber") {
+    await createNotification({
+      userId: updated.owner.toString(),
+      type: "booking",
+      title: "Delivery order cancelled",
+      message: `The subscriber cancelled delivery of ${mealLabel}.`,
+      link: "/profile?tab=mess-deliveries",
+      priority: "medium",
+      metadata: { orderId: String(updated._id) },
+    })
+  } else {
+    await createNotification({
+      userId: updated.user.toString(),
+      type: "booking",
+      title: `Your ${updated.meal} is ${STATUS_LABELS[to]}`,
+      message:
+        to === "cancelled"
+          ? `The mess cancelled delivery of ${mealLabel}${reason ? `: ${reason}` : ""}.`
+          : `Delivery of ${mealLabel} is ${STATUS_LABELS[to]}.`,
+      link: "/profile?tab=bookings",
+      priority: to === "out_for_delivery" || to === "cancelled" ? "high" : "low",
+      metadata: { orderId: String(updated._id), status: to },
+    })
+  }
+
+  return { success: true, order: updated }
+}
@@ -0,0 +1,152 @@
+import mongoose from "mongoose"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { Booking, type IBooking, type IBookingDeposit } from "@/models/booking"
+import { Property } from "@/models/property"
+import type { TransitionActor } from "@/lib/booking-state-machine"
+import {
+  acceptDepositDeductions,
+  disputeDepositDeductions,
+  refundDeposit,
+  resolveDepositDispute,
+  submitMoveOutInspection,
+} from "@/lib/deposits"
+
+vi.mock("@/lib/notification-helper", () => ({ createNotification: vi.fn() }))
+
+const tenant: TransitionActor = { userId: new mongoose.Types.ObjectId().toString(), role: "tenant" }
+const owner: TransitionActor = { userId: new mongoose.Types.ObjectId().toString(), role: "owner" }
+const admin: TransitionActor = { userId: new mongoose.Types.ObjectId().toString(), role: "admin" }
+
+function booking(deposit: Partial<IBookingDeposit>) {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    user: new mongoose.Types.ObjectId(),
+    property: new mongoose.Types.ObjectId(),
+    deposit: { amount: 10000, status: "held", deductions: [], history: [], ...deposit },
+  } as unknown as IBooking
+}
+
+// Captures the conditional deposit updates instead of writing them
+function captureUpdates() {
+  const update = vi.spyOn(Booking, "findOneAndUpdate").mockImplementation(
+    (_filter, change) => Promise.resolve({ change }) as never,
+  )
+  vi.spyOn(Property, "findById").mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve(null) }),
+  } as never)
+  return () => (update.mock.calls.at(-1)?.[1] as { $set: Record<string, unknown> }).$set
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("deductions", () => {
+  it("can't add up to more than the held deposit", async () => {
+    const update = vi.spyOn(Booking, "findOneAndUpdate")
+    const result = await submitMoveOutInspection(booking({}), owner, {
+      deductions: [
+        { reason: "Broken window", amount: 6000 },
+        { reason: "Repainting", amount: 4500 },
+      ],
+    })
+
+    expect(result).toEqual({ success: false, error: "Deductions can't exceed the ₹10000 deposit", status: 400 })
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it("can take the whole deposit", async () => {
+    const lastSet = captureUpdates()
+    const result = await submitMoveOutInspection(booking({}), owner, {
+      deductions: [{ reason: "Broken window", amount: 10000 }],
+    })
+
+    expect(result.success).toBe(true)
+    expect(lastSet()["deposit.deductions"]).toEqual([{ reason: "Broken window", amount: 10000 }])
+  })
+
+  it("are capped when an admin resolves a dispute too", async () => {
+    const result = await resolveDepositDispute(booking({ status: "disputed" }), admin, {
+      deductions: [{ reason: "Deep cleaning", amount: 12000 }],
+      resolution: "Owner's photos",
+    })
+
+    expect(result).toMatchObject({ success: false, status: 400 })
+  })
+
+  it("each need a reason and a positive amount", async () => {
+    const result = await submitMoveOutInspection(booking({}), owner, { deductions: [{ reason: " ", amount: 500 }] })
+    expect(result).toMatchObject({ success: false, status: 400 })
+
+    const negative = await submitMoveOutInspection(booking({}), owner, { deductions: [{ reason: "Keys", amount: -500 }] })
+    expect(negative).toMatchObject({ success: false, status: 400 })
+  })
+})
+
+describe("disputeDepositDeductions", () => {
+  it("is rejected once the dispute window has closed", async () => {
+    const update = vi.spyOn(Booking, "findOneAndUpdate")
+    const result = await disputeDepositDeductions(
+      booking({ status: "inspected", disputeWindowEndsAt: new Date(Date.now() - 60 * 1000) }),
+      tenant,
+      "The window was already cracked",
+    )
+
+    expect(result).toEqual({ success: false, error: "The dispute window for this deposit has closed", status: 400 })
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it("is accepted while the window is open", async () => {
+    const lastSet = captureUpdates()
+    const result = await disputeDepositDeductions(
+      booking({ status: "inspected", disputeWindowEndsAt: new Date(Date.now() + 60 * 60 * 1000) }),
+      tenant,
+      "  The window was already cracked ",
+    )
+
+    expect(result.success).toBe(true)
+    expect(lastSet()).toMatchObject({
+      "deposit.status": "disputed",
+      "deposit.dispute": { reason: "The window was already cracked" },
+    })
+  })
+})
+
+describe("settling", () => {
+  it("records what is left after deductions as the refund", async () => {
+    const lastSet = captureUpdates()
+    const deductions = [
+      { reason: "Broken window", amount: 2500.5 },
+      { reason: "Lost keys", amount: 500 },
+    ]
+    const result = await acceptDepositDeductions(booking({ status: "inspected", heldBy: "owner", deductions }), tenant)
+
+    expect(result.success).toBe(true)
+    expect(lastSet()).toMatchObject({
+      "deposit.status": "settled",
+      "deposit.deductions": deductions,
+      "deposit.refund": { amount: 6999.5, status: "pending" },
+    })
+  })
+
+  it("records no refund when the deductions take everything", async () => {
+    const lastSet = captureUpdates()
+    await acceptDepositDeductions(
+      booking({ status: "inspected", heldBy: "owner", deductions: [{ reason: "Damage", amount: 10000 }] }),
+      tenant,
+    )
+
+    expect(lastSet()["deposit.refund"]).toEqual({ amount: 0, status: "none" })
+  })
+
+  it("records the transfer reference of a refund made outside the platform", async () => {
+    const lastSet = captureUpdates()
+    const result = await refundDeposit(
+      booking({ status: "settled", heldBy: "owner", refund: { amount: 7000, status: "pending" } }),
+      { actor: owner, reference: "NEFT-123" },
+    )
+
+    expect(result.success).toBe(true)
+    expect(lastSet()).toMatchObject({ "deposit.refund.status": "processed", "deposit.refund.reference": "NEFT-123" })
+  })
+})
@@ -0,0 +1,504 @@
+import { addDays } from "date-fns"
+import { Booking, type IBooking, type IBookingDeposit, type IDepositDeduction, type IDepositEvent } from "@/models/booking"
+import { Payment, type IPayment } from "@/models/payment"
+import { Property } from "@/models/property"
+import { createNotification } from "@/lib/notification-helper"
+import { refundPayment } from "@/lib/payments"
+import { SYSTEM_ACTOR, type TransitionActor } from "@/lib/booking-state-machine"
+import { refId } from "@/lib/utils"
+
+/**
+ * Security deposits
+ *
+ * A booking at a property with a `deposit` gets one, due separately from the
+ * booking amount. The tenant pays it online once the booking is paid (the
+ * platform then holds it in escrow), or hands it to the owner at move-in and
+ * the owner records it. At move-out the owner files an inspection with
+ * itemized deductions, which opens a dispute window for the tenant. The
+ * deposit settles when the tenant accepts, the window passes, or an admin
+ * resolves the dispute; whatever isn't deducted is refunded and recorded on
+ * the booking. Every step is a conditional update on `deposit.status` plus an
+ * entry in `deposit.history`.
+ */
+
+export const DEPOSIT_DISPUTE_DAYS = Number(process.env.DEPOSIT_DISPUTE_DAYS) || 7
+
+type DepositFailure = { success: false; error: string; status: number }
+
+export type DepositResult = { success: true; booking: IBooking } | DepositFailure
+
+type DepositStatus = IBookingDeposit["status"]
+
+/**
+ * The deposit a new booking starts with, if its property asks for one
+ */
+export function newBookingDeposit(amount?: number): Partial<IBookingDeposit> | undefined {
+  if (!amount || !(amount > 0)) return undefined
+  return { amount, status: "due", deductions: [], history: [] }
+}
+
+export function getDeductionsTotal(deductions: IDepositDeduction[]) {
+  return deductions.reduce((sum, deduction) => sum + deduction.amount, 0)
+}
+
+function depositEvent(
+  action: IDepositEvent["action"],
+  actor: TransitionActor,
+  extra: { amount?: number; note?: string } = {},
+) {
+  return { action, actor: actor.userId, actorRole: actor.role, ...extra, at: new Date() }
+}
+
+async function updateDeposit(
+  booking: IBooking,
+  from: DepositStatus[],
+  set: Record<string, unknown>,
+  event: ReturnType<typeof depositEvent>,
+): Promise<DepositResult> {
+  const updated: IBooking | null = await Booking.findOneAndUpdate(
+    { _id: booking._id, "deposit.status": { $in: from } },
+    { $set: { ...set, updatedAt: new Date() }, $push: { "deposit.history": event } },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "The deposit has changed since it was loaded. Refresh and try again.", status: 409 }
+  }
+  return { success: true, booking: updated }
+}
+
+async function getPropertyOwner(booking: IBooking) {
+  const property = await Property.findById(booking.property).select("owner title").lean<{ owner?: unknown; title?: string }>()
+  return { ownerId: property?.owner ? refId(property.owner) : undefined, title: property?.title || "your property" }
+}
+
+function validateDeductions(deductions: unknown, amount: number): IDepositDeduction[] | { error: string } {
+  if (!Array.isArray(deductions)) {
+    return { error: "Deductions must be a list" }
+  }
+
+  const cleaned: IDepositDeduction[] = []
+  for (const deduction of deductions) {
+    const reason = typeof deduction?.reason === "string" ? deduction.reason.trim() : ""
+    const value = Number(deduction?.amount)
+    if (!reason || !(value > 0)) {
+      return { error: "Each deduction needs a reason and a positive amount" }
+    }
+    cleaned.push({ reason, amount: Math.round(value * 100) / 100 })
+  }
+
+  if (getDeductionsTotal(cleaned) > amount + 0.01) {
+    return { error: `Deductions can't exceed the ₹${amount} deposit` }
+  }
+  return cleaned
+}
+
+/**
+ * Load a booking whose deposit its tenant can pay online
+ */
+export async function getPayableDeposit(
+  bookingId: string,
+  userId: string,
+): Promise<{ booking: IBooking } | { error: string; status: number }> {
+  const booking: IBooking | null = await Booking.findById(bookingId)
+  if (!booking) {
+    return { error: "Booking not found", status: 404 }
+  }
+  if (booking.user.toString() !== userId) {
+    return { error: "You don't have permission to pay for this booking", status: 403 }
+  }
+  if (!booking.deposit || booking.deposit.status !== "due") {
+    return { error: "There is no deposit due on this booking", status: 400 }
+  }
+  if (booking.status === "cancelled" || booking.paymentStatus !== "paid") {
+    return { error: "The deposit can be paid once the booking itself is paid", status: 400 }
+  }
+
+  return { booking }
+}
+
+/**
+ * Record a captured online deposit payment. Replays of the same payment are no-ops.
+ */
+export async function recordDepositPayment(
+  bookingId: string,
+  payment: { payment: IPayment["_id"]; reference: string; paidAt?: Date },
+): Promise<DepositResult> {
+  const booking: IBooking | null = await Booking.findById(bookingId)
+  if (!booking?.deposit) {
+    return { success: false, error: "Booking not found", status: 404 }
+  }
+  if (booking.deposit.reference === payment.reference) {
+    return { success: true, booking }
+  }
+
+  const result = await updateDeposit(
+    booking,
+    ["due"],
+    {
+      "deposit.status": "held",
+      "deposit.heldBy": "platform",
+      "deposit.payment": payment.payment,
+      "deposit.reference": payment.reference,
+      "deposit.collectedAt": payment.paidAt ?? new Date(),
+    },
+    depositEvent("paid", SYSTEM_ACTOR, { amount: booking.deposit.amount, note: payment.reference }),
+  )
+  if (!result.success) {
+    console.error("Deposit payment captured for a deposit that is no longer due:", {
+      bookingId,
+      status: booking.deposit.status,
+      reference: payment.reference,
+    })
+    return result
+  }
+
+  const { ownerId, title } = await getPropertyOwner(booking)
+  if (ownerId) {
+    await createNotification({
+      userId: ownerId,
+      type: "payment",
+      title: "Deposit received",
+      message: `The ₹${booking.deposit.amount} deposit for ${title} was paid and is held by SecondHome until move-out.`,
+      link: "/profile?tab=deposits",
+      priority: "medium",
+      metadata: { bookingId: booking._id.toString() },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Owner records a deposit handed over in person at move-in
+ */
+export async function recordDepositCollected(
+  booking: IBooking,
+  actor: TransitionActor,
+  reference?: string,
+): Promise<DepositResult> {
+  if (!booking.deposit || booking.deposit.status !== "due") {
+    return { success: false, error: "There is no deposit due on this booking", status: 400 }
+  }
+  if (booking.status === "cancelled") {
+    return { success: false, error: "This booking has been cancelled", status: 400 }
+  }
+
+  const result = await updateDeposit(
+    booking,
+    ["due"],
+    {
+      "deposit.status": "held",
+      "deposit.heldBy": "owner",
+      "deposit.reference": reference,
+      "deposit.collectedAt": new Date(),
+    },
+    depositEvent("collected", actor, { amount: booking.deposit.amount, note: reference }),
+  )
+  if (!result.success) return result
+
+  await createNotification({
+    userId: booking.user.toString(),
+    type: "payment",
+    title: "Deposit recorded",
+    message: `Your owner recorded receiving your ₹${booking.deposit.amount} deposit.`,
+    link: "/profile?tab=bookings",
+    priority: "medium",
+    metadata: { bookingId: booking._id.toString() },
+  })
+
+  return result
+}
+
+/**
+ * Owner files the move-out inspection, which opens the tenant's dispute window
+ */
+export async function submitMoveOutInspection(
+  booking: IBooking,
+  actor: TransitionActor,
+  input: { deductions: unknown; notes?: string },
+): Promise<DepositResult> {
+  if (!booking.deposit || booking.deposit.status !== "held") {
+    return { success: false, error: "Only a held deposit can be inspected", status: 400 }
+  }
+
+  const deductions = validateDeductions(input.deductions, booking.deposit.amount)
+  if ("error" in deductions) {
+    return { success: false, error: deductions.error, status: 400 }
+  }
+
+  const now = new Date()
+  const total = getDeductionsTotal(deductions)
+  const result = await updateDeposit(
+    booking,
+    ["held"],
+    {
+      "deposit.status": "inspected",
+      "deposit.inspection": { inspectedAt: now, inspectedBy: actor.userId, notes: input.notes, deductions },
+      "deposit.deductions": deductions,
+      "deposit.disputeWindowEndsAt": addDays(now, DEPOSIT_DISPUTE_DAYS),
+    },
+    depositEvent("inspected", actor, { amount: total, note: input.notes }),
+  )
+  if (!result.success) return result
+
+  await createNotification({
+    userId: booking.user.toString(),
+    type: "payment",
+    title: "Move-out inspection done",
+    message:
+      total > 0
+        ? `Your owner listed ₹${total} of deductions from your ₹${booking.deposit.amount} deposit. You have ${DEPOSIT_DISPUTE_DAYS} days to accept or dispute them.`
+        : `Your owner listed no deductions; your ₹${booking.deposit.amount} deposit will be refunded in full.`,
+    link: "/profile?tab=bookings",
+    priority: "high",
+    metadata: { bookingId: booking._id.toString() },
+  })
+
+  return result
+}
+
+/**
+ * Tenant accepts the inspection before the window closes
+ */
+export async function acceptDepositDeductions(booking: IBooking, actor: TransitionActor): Promise<DepositResult> {
+  if (booking.deposit?.status !== "inspected") {
+    return { success: false, error: "There is no inspection waiting for you", status: 400 }
+  }
+  return settleDeposit(booking, ["inspected"], booking.deposit.deductions, depositEvent("accepted", actor))
+}
+
+/**
+ * Tenant disputes the inspection within the window; an admin then resolves it
+ */
+export async function disputeDepositDeductions(
+  booking: IBooking,
+  actor: TransitionActor,
+  reason: string,
+): Promise<DepositResult> {
+  const deposit = booking.deposit
+  if (deposit?.status !== "inspected") {
+    return { success: false, error: "There is no inspection to dispute", status: 400 }
+  }
+  if (deposit.disputeWindowEndsAt && deposit.disputeWindowEndsAt < new Date()) {
+    return { success: false, error: "The dispute window for this deposit has closed", status: 400 }
+  }
+  if (!reason.trim()) {
+    return { success: false, error: "Tell us what you disagree with", status: 400 }
+  }
+
+  const result = await updateDeposit(
+    booking,
+    ["inspected"],
+    { "deposit.status": "disputed", "deposit.dispute": { raisedAt: new Date(), reason: reason.trim() } },
+    depositEvent("disputed", actor, { note: reason.trim() }),
+  )
+  if (!result.success) return result
+
+  const { ownerId, title } = await getPropertyOwner(booking)
+  if (ownerId) {
+    await createNotification({
+      userId: ownerId,
+      type: "payment",
+      title: "Deposit deductions disputed",
+      message: `Your tenant at ${title} disputed the deposit deductions. SecondHome will review and settle it.`,
+      link: "/profile?tab=deposits",
+      priority: "high",
+      metadata: { bookingId: booking._id.toString() },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Admin settles a disputed deposit with the deductions that stand
+ */
+export async function resolveDepositDispute(
+  booking: IBooking,
+  actor: TransitionActor,
+  input: { deductions: unknown; resolution: string },
+): Promise<DepositResult> {
+  if (booking.deposit?.status !== "disputed") {
+    return { success: false, error: "This deposit is not under dispute", status: 400 }
+  }
+  if (!input.resolution.trim()) {
+    return { success: false, error: "A resolution note is required", status: 400 }
+  }
+
+  const deductions = validateDeductions(input.deductions, booking.deposit.amount)
+  if ("error" in deductions) {
+    return { success: false, error: deductions.error, status: 400 }
+  }
+
+  return settleDeposit(
+    booking,
+    ["disputed"],
+    deductions,
+    depositEvent("resolved", actor, { amount: getDeductionsTotal(deductions), note: input.resolution.trim() }),
+    {
+      "deposit.dispute.resolvedAt": new Date(),
+      "deposit.dispute.resolvedBy": actor.userId,
+      "deposit.dispute.resolution": input.resolution.trim(),
+    },
+  )
+}
+
+/**
+ * Fix the deductions and what is owed back, then refund it straight away if
+ * the platform holds the money
+ */
+async function settleDeposit(
+  booking: IBooking,
+  from: DepositStatus[],
+  deductions: IDepositDeduction[],
+  event: ReturnType<typeof depositEvent>,
+  extra: Record<string, unknown> = {},
+): Promise<DepositResult> {
+  const deposit = booking.deposit
+  if (!deposit) {
+    return { success: false, error: "This booking has no deposit", status: 400 }
+  }
+
+  const refundAmount = Math.max(0, Math.round((deposit.amount - getDeductionsTotal(deductions)) * 100) / 100)
+  const settled = await updateDeposit(
+    booking,
+    from,
+    {
+      ...extra,
+      "deposit.status": "settled",
+      "deposit.deductions": deductions,
+      "deposit.settledAt": new Date(),
+      "deposit.refund": { amount: refundAmount, status: refundAmount > 0 ? "pending" : "none" },
+    },
+    event,
+  )
+  if (!settled.success) return settled
+
+  await createNotification({
+    userId: booking.user.toString(),
+    type: "payment",
+    title: "Deposit settled",
+    message:
+      refundAmount > 0
+        ? `₹${refundAmount} of your ₹${deposit.amount} deposit is being refunded.`
+        : `Your ₹${deposit.amount} deposit was settled with no refund due.`,
+    link: "/profile?tab=bookings",
+    priority: "high",
+    metadata: { bookingId: booking._id.toString() },
+  })
+
+  if (refundAmount > 0 && deposit.heldBy === "platform") {
+    const refunded = await refundDeposit(settled.booking, { actor: SYSTEM_ACTOR })
+    return refunded.success ? refunded : settled
+  }
+
+  if (refundAmount > 0 && deposit.heldBy === "owner") {
+    const { ownerId } = await getPropertyOwner(booking)
+    if (ownerId) {
+      await createNotification({
+        userId: ownerId,
+        type: "payment",
+        title: "Deposit refund due",
+        message: `Please refund ₹${refundAmount} of the deposit you hold to your tenant and record the transfer reference.`,
+        link: "/profile?tab=deposits",
+        priority: "high",
+        metadata: { bookingId: booking._id.toString() },
+      })
+    }
+  }
+
+  return settled
+}
+
+/**
+ * Pay back what a settled deposit owes the tenant. Platform-held deposits
+ * are refunded through their gateway; otherwise `reference` records a
+ * transfer made outside the platform.
+ */
+export async function refundDeposit(
+  booking: IBooking,
+  options: { actor: TransitionActor; reference?: string },
+): Promise<DepositResult> {
+  const deposit = booking.deposit
+  const refund = deposit?.refund
+  if (!deposit || deposit.status !== "settled" || !refund || (refund.status !== "pending" && refund.status !== "failed")) {
+    return { success: false, error: "There is no outstanding deposit refund on this booking", status: 400 }
+  }
+
+  let reference = options.reference
+  if (!reference) {
+    const payment: IPayment | null = deposit.heldBy === "platform" && deposit.payment ? await Payment.findById(deposit.payment) : null
+    if (!payment || payment.provider === "upi") {
+      return { success: false, error: "A refund reference is required for deposits paid outside a gateway", status: 400 }
+    }
+
+    const refunded = await refundPayment(payment, refund.amount, { bookingId: booking._id.toString(), purpose: "deposit" })
+    if (!refunded.success) {
+      await Booking.updateOne(
+        { _id: booking._id },
+        { $set: { "deposit.refund.status": "failed", "deposit.refund.error": refunded.error, updatedAt: new Date() } },
+      )
+      return refunded
+    }
+    reference = refunded.refundId
+  }
+
+  const updated: IBooking | null = await Booking.findOneAndUpdate(
+    { _id: booking._id, "deposit.refund.status": { $in: ["pending", "failed"] } },
+    {
+      $set: {
+        "deposit.refund.status": "processed",
+        "deposit.refund.reference": reference,
+        "deposit.refund.refundedAt": new Date(),
+        updatedAt: new Date(),
+      },
+      $unset: { "deposit.refund.error": "" },
+      $push: { "deposit.history": depositEvent("refunded", options.actor, { amount: refund.amount, note: reference }) },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This deposit refund was already recorded", status: 409 }
+  }
+
+  return { success: true, booking: updated }
+}
+
+/**
+ * A cancelled booking gives its deposit back in full, or drops it if it was never paid
+ */
+export async function releaseDepositOnCancellation(booking: IBooking, actor: TransitionActor): Promise<DepositResult | null> {
+  const status = booking.deposit?.status
+  if (status === "due") {
+    return updateDeposit(booking, ["due"], { "deposit.status": "cancelled" }, depositEvent("cancelled", actor))
+  }
+  if (status === "held") {
+    return settleDeposit(booking, ["held"], [], depositEvent("settled", actor, { note: "Booking cancelled" }))
+  }
+  return null
+}
+
+/**
+ * Settle inspected deposits whose dispute window has passed (scheduled job)
+ */
+export async function settleUndisputedDeposits(now = new Date()) {
+  const bookings: IBooking[] = await Booking.find({
+    "deposit.status": "inspected",
+    "deposit.disputeWindowEndsAt": { $lte: now },
+  }).limit(200)
+
+  let settled = 0
+  let failed = 0
+  for (const booking of bookings) {
+    const result = await settleDeposit(
+      booking,
+      ["inspected"],
+      booking.deposit?.deductions ?? [],
+      depositEvent("settled", SYSTEM_ACTOR, { note: "Dispute window closed" }),
+    )
+    if (result.success) settled++
+    else failed++
+  }
+
+  return { settled, failed }
+}
@@ -0,0 +1,702 @@
+import mongoose from "mongoose"
+import { v2 as cloudinary } from "cloudinary"
+import { Booking, type IBooking } from "@/models/booking"
+import { Property } from "@/models/property"
+import {
+  UserDocument,
+  type IUserDocument,
+  type IUserDocumentFile,
+  type IUserDocumentShare,
+  type UserDocumentType,
+} from "@/models/user-document"
+import { DocumentAccessLog, type DocumentAccessAction, type IDocumentAccessLog } from "@/models/document-access-log"
+import { createNotification } from "@/lib/notification-helper"
+import { refId } from "@/lib/utils"
+
+/**
+ * Tenant document vault (KYC)
+ *
+ * Tenants keep ID documents and a guardian contact here instead of sending
+ * them over WhatsApp. Files are uploaded through /api/upload as private
+ * Cloudinary assets and only handed out as signed links that expire after a
+ * few minutes.
+ *
+ * A tenant shares individual documents with the owner of a property they have
+ * booked. The share lives as long as the booking: it is revoked when the
+ * booking is cancelled or completed (booking state machine), when its
+ * check-out date passes or the document expires (revokeEndedShares /
+ * expireDocuments, run on a schedule), and is re-checked on every access.
+ * Admins verify documents. Every view, download, share and change is written
+ * to DocumentAccessLog, which the tenant can read.
+ */
+
+type VaultFailure = { success: false; error: string; status: number }
+
+export type VaultResult = { success: true; document: IUserDocument } | VaultFailure
+
+export type VaultActor = { role: "self" | "owner" | "admin"; userId: string }
+
+// Request details stored with each log entry
+export interface AccessContext {
+  ip?: string
+  userAgent?: string
+}
+
+export const DOCUMENT_TYPES: Array<{
+  type: UserDocumentType
+  label: string
+  hasFiles: boolean
+  hasNumber: boolean
+}> = [
+  { type: "college_id", label: "College ID", hasFiles: true, hasNumber: false },
+  { type: "aadhaar", label: "Aadhaar", hasFiles: true, hasNumber: true },
+  { type: "pan", label: "PAN card", hasFiles: true, hasNumber: true },
+  { type: "passport", label: "Passport", hasFiles: true, hasNumber: true },
+  { type: "driving_licence", label: "Driving licence", hasFiles: true, hasNumber: true },
+  { type: "guardian_contact", label: "Guardian contact", hasFiles: false, hasNumber: false },
+  { type: "other", label: "Other", hasFiles: true, hasNumber: false },
+]
+
+export const MAX_DOCUMENT_FILES = 4
+
+// Lifetime of a signed file link
+const FILE_LINK_TTL_SECONDS = 5 * 60
+
+// Bookings whose owner may still see shared documents
+const SHAREABLE_BOOKING_STATUSES = ["pending", "confirmed"]
+
+export function documentTypeLabel(type: UserDocumentType) {
+  return DOCUMENT_TYPES.find((entry) => entry.type === type)?.label ?? "Document"
+}
+
+function configureCloudinary() {
+  // The SDK reads CLOUDINARY_URL by itself; the split variables need setting up (as in /api/upload)
+  if (process.env.CLOUDINARY_URL) return
+  cloudinary.config({
+    cloud_name: process.env.CLOUDINARY_CLOUD_NAME?.trim(),
+    api_key: process.env.CLOUDINARY_API_KEY?.trim(),
+    api_secret: process.env.CLOUDINARY_API_SECRET?.trim(),
+  })
+}
+
+export async function logDocumentAccess(
+  document: IUserDocument,
+  actor: { role: IDocumentAccessLog["actorRole"]; userId?: string },
+  action: DocumentAccessAction,
+  details: { booking?: mongoose.Types.ObjectId | string; fileIndex?: number; note?: string } = {},
+  context: AccessContext = {},
+) {
+  await DocumentAccessLog.create({
+    document: document._id,
+    documentOwner: document.user,
+    ...(actor.userId ? { actor: actor.userId } : {}),
+    actorRole: actor.role,
+    action,
+    ...(details.booking ? { booking: details.booking } : {}),
+    ...(details.fileIndex !== undefined ? { fileIndex: details.fileIndex } : {}),
+    ...(details.note ? { note: details.note } : {}),
+    ...(context.ip ? { ip: context.ip } : {}),
+    ...(context.userAgent ? { userAgent: context.userAgent.slice(0, 300) } : {}),
+  })
+}
+
+function parseFiles(input: unknown, userId: string): { files: IUserDocumentFile[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: "Upload at least one file" }
+  }
+  if (input.length > MAX_DOCUMENT_FILES) {
+    return { error: `Upload at most ${MAX_DOCUMENT_FILES} files` }
+  }
+
+  const now = new Date()
+  const files: IUserDocumentFile[] = []
+  for (const entry of input) {
+    const { publicId, format, resourceType, name } = (entry ?? {}) as Record<string, unknown>
+    // Only the user's own private uploads (see the "kyc" type in /api/upload)
+    if (typeof publicId !== "string" || !publicId.startsWith(`secondhome/kyc/${userId}/`)) {
+      return { error: "Upload files through the document vault" }
+    }
+    if (resourceType !== "image" && resourceType !== "raw" && resourceType !== "video") {
+      return { error: "Unsupported file type" }
+    }
+    files.push({
+      publicId,
+      ...(typeof format === "string" && format ? { format } : {}),
+      resourceType,
+      ...(typeof name === "string" && name.trim() ? { name: name.trim().slice(0, 120) } : {}),
+      uploadedAt: now,
+    })
+  }
+  return { files }
+}
+
+/**
+ * Validate a new vault document from request JSON
+ */
+export function parseDocumentInput(
+  input: Record<string, unknown>,
+  userId: string,
+  now = new Date(),
+): { fields: Partial<IUserDocument> } | { error: string } {
+  const definition = DOCUMENT_TYPES.find((entry) => entry.type === input.type)
+  if (!definition) {
+    return { error: "Choose a document type" }
+  }
+
+  const fields: Partial<IUserDocument> = { type: definition.type }
+
+  if (typeof input.label === "string" && input.label.trim()) {
+    fields.label = input.label.trim().slice(0, 80)
+  }
+
+  if (definition.hasFiles) {
+    const parsed = parseFiles(input.files, userId)
+    if ("error" in parsed) return parsed
+    fields.files = parsed.files
+  } else {
+    const guardian = (input.guardian ?? {}) as Record<string, unknown>
+    const name = typeof guardian.name === "string" ? guardian.name.trim() : ""
+    const phone = typeof guardian.phone === "string" ? guardian.phone.replace(/[\s-]/g, "") : ""
+    if (name.length < 2) {
+      return { error: "Enter the guardian's name" }
+    }
+    if (!/^\+?\d{10,13}$/.test(phone)) {
+      return { error: "Enter a valid phone number for the guardian" }
+    }
+    fields.guardian = {
+      name: name.slice(0, 80),
+      phone,
+      ...(typeof guardian.relation === "string" && guardian.relation.trim()
+        ? { relation: guardian.relation.trim().slice(0, 40) }
+        : {}),
+      ...(typeof guardian.email === "string" && guardian.email.trim()
+        ? { email: guardian.email.trim().toLowerCase().slice(0, 120) }
+        : {}),
+    }
+  }
+
+  if (definition.hasNumber && input.number !== undefined && input.number !== "") {
+    const digits = typeof input.number === "string" ? input.number.replace(/\s/g, "") : ""
+    if (!/^[A-Za-z0-9]{4,20}$/.test(digits)) {
+      return { error: "Enter a valid document number" }
+    }
+    // Keep only the last four characters, enough to tell documents apart
+    fields.numberLast4 = digits.slice(-4).toUpperCase()
+  }
+
+  if (input.expiresAt !== undefined && input.expiresAt !== null && input.expiresAt !== "") {
+    const expiresAt = new Date(String(input.expiresAt))
+    if (Number.isNaN(expiresAt.getTime())) {
+      return { error: "Invalid expiry date" }
+    }
+    if (expiresAt <= now) {
+      return { error: "This document has already expired" }
+    }
+    fields.expiresAt = expiresAt
+  }
+
+  return { fields }
+}
+
+/**
+ * Add a document to the user's vault; it starts pending verification
+ */
+export async function createDocument(
+  userId: string,
+  input: Record<string, unknown>,
+  context: AccessContext = {},
+  now = new Date(),
+): Promise<VaultResult> {
+  const parsed = parseDocumentInput(input, userId, now)
+  if ("error" in parsed) {
+    return { success: false, error: parsed.error, status: 400 }
+  }
+
+  const document: IUserDocument = await UserDocument.create({
+    ...parsed.fields,
+    user: userId,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  })
+  await logDocumentAccess(document, { role: "self", userId }, "uploaded", {}, context)
+
+  return { success: true, document }
+}
+
+function activeShares(document: IUserDocument) {
+  return document.shares.filter((share) => !share.revokedAt)
+}
+
+function isExpired(document: IUserDocument, now: Date) {
+  return document.status === "expired" || (!!document.expiresAt && document.expiresAt <= now)
+}
+
+function isBookingLive(booking: Pick<IBooking, "status" | "checkOutDate"> | null, now: Date) {
+  if (!booking || !SHAREABLE_BOOKING_STATUSES.includes(booking.status)) return false
+  return !booking.checkOutDate || booking.checkOutDate > now
+}
+
+async function revokeShares(
+  filter: Record<string, unknown>,
+  shareFilter: Record<string, unknown>,
+  reason: NonNullable<IUserDocumentShare["revokedReason"]>,
+  now: Date,
+) {
+  await UserDocument.updateOne(
+    filter,
+    { $set: { "shares.$[share].revokedAt": now, "shares.$[share].revokedReason": reason, updatedAt: now } },
+    { arrayFilters: [{ ...shareFilter, "share.revokedAt": { $exists: false } }] },
+  )
+}
+
+/**
+ * Load a document for whoever is asking: its owner, an admin, or the owner of
+ * a property it is shared with for a booking that is still running. Refusals
+ * of existing documents are logged too.
+ */
+export async function getAccessibleDocument(
+  documentId: string,
+  sessionUser: { id: string; role?: string },
+  context: AccessContext = {},
+  now = new Date(),
+): Promise<{ success: true; document: IUserDocument; actor: VaultActor; share?: IUserDocumentShare } | VaultFailure> {
+  if (!mongoose.Types.ObjectId.isValid(documentId)) {
+    return { success: false, error: "Invalid document ID", status: 400 }
+  }
+
+  const document: IUserDocument | null = await UserDocument.findById(documentId)
+  if (!document) {
+    return { success: false, error: "Document not found", status: 404 }
+  }
+
+  if (refId(document.user) === sessionUser.id) {
+    return { success: true, document, actor: { role: "self", userId: sessionUser.id } }
+  }
+  if (sessionUser.role === "admin") {
+    return { success: true, document, actor: { role: "admin", userId: sessionUser.id } }
+  }
+
+  const share = activeShares(document).find((entry) => refId(entry.owner) === sessionUser.id)
+  if (share) {
+    const booking = await Booking.findById(share.booking).select("status checkOutDate").lean<IBooking>()
+    if (!isBookingLive(booking, now)) {
+      await revokeShares({ _id: document._id }, { "share._id": share._id }, "booking_ended", now)
+      await logDocumentAccess(document, { role: "system" }, "revoked", { booking: share.booking, note: "booking_ended" })
+    } else if (!isExpired(document, now)) {
+      return { success: true, document, actor: { role: "owner", userId: sessionUser.id }, share }
+    }
+  }
+
+  await logDocumentAccess(
+    document,
+    { role: share ? "owner" : "other", userId: sessionUser.id },
+    "denied",
+    { ...(share ? { booking: share.booking } : {}) },
+    context,
+  )
+  return { success: false, error: "You don't have access to this document", status: 403 }
+}
+
+/**
+ * What a viewer gets to see. Asset ids never leave the server; owners don't
+ * see who else a document is shared with.
+ */
+export function toDocumentView(document: IUserDocument, actor: VaultActor, now = new Date()) {
+  return {
+    _id: String(document._id),
+    type: document.type,
+    typeLabel: documentTypeLabel(document.type),
+    label: document.label,
+    numberLast4: document.numberLast4,
+    guardian: document.guardian,
+    files: document.files.map((file, index) => ({ index, name: file.name, uploadedAt: file.uploadedAt })),
+    expiresAt: document.expiresAt,
+    status: document.status !== "expired" && isExpired(document, now) ? "expired" : document.status,
+    verifiedAt: document.verifiedAt,
+    rejectionReason: document.rejectionReason,
+    createdAt: document.createdAt,
+    ...(actor.role === "owner"
+      ? {}
+      : {
+          shares: document.shares.map((share) => ({
+            _id: String(share._id),
+            booking: share.booking,
+            property: share.property,
+            grantedAt: share.grantedAt,
+            revokedAt: share.revokedAt,
+            revokedReason: share.revokedReason,
+          })),
+        }),
+  }
+}
+
+/**
+ * Short-lived signed link to one of a document's files
+ */
+export function getDocumentFileUrl(document: IUserDocument, index: number, now = new Date()): string | null {
+  const file = document.files[index]
+  if (!file) return null
+
+  configureCloudinary()
+  return cloudinary.utils.private_download_url(file.publicId, file.format || "", {
+    resource_type: file.resourceType,
+    type: "authenticated",
+    expires_at: Math.floor(now.getTime() / 1000) + FILE_LINK_TTL_SECONDS,
+  })
+}
+
+/**
+ * Share a document with the owner of a property the user has booked
+ */
+export async function shareDocument(
+  document: IUserDocument,
+  userId: string,
+  bookingId: unknown,
+  context: AccessContext = {},
+  now = new Date(),
+): Promise<VaultResult> {
+  if (refId(document.user) !== userId) {
+    return { success: false, error: "Only the document's owner can share it", status: 403 }
+  }
+  if (typeof bookingId !== "string" || !mongoose.Types.ObjectId.isValid(bookingId)) {
+    return { success: false, error: "Choose a booking to share with", status: 400 }
+  }
+  if (isExpired(document, now)) {
+    return { success: false, error: "This document has expired. Upload a current one.", status: 400 }
+  }
+  if (document.status === "rejected") {
+    return { success: false, error: "This document was rejected. Upload a new one.", status: 400 }
+  }
+
+  const booking: IBooking | null = await Booking.findById(bookingId)
+  if (!booking || refId(booking.user) !== userId) {
+    return { success: false, error: "Booking not found", status: 404 }
+  }
+  if (!isBookingLive(booking, now)) {
+    return { success: false, error: "Documents can only be shared for an upcoming or current booking", status: 400 }
+  }
+
+  const property = await Property.findById(booking.property).select("title owner").lean<{
+    title?: string
+    owner?: unknown
+  }>()
+  if (!property?.owner) {
+    return { success: false, error: "Property not found", status: 404 }
+  }
+
+  const updated: IUserDocument | null = await UserDocument.findOneAndUpdate(
+    {
+      _id: document._id,
+      shares: { $not: { $elemMatch: { booking: booking._id, revokedAt: { $exists: false } } } },
+    },
+    {
+      $push: { shares: { booking: booking._id, property: booking.property, owner: property.owner, grantedAt: now } },
+      $set: { updatedAt: now },
+    },
+    { new: true },
+  )
+  // Already shared for this booking
+  if (!updated) {
+    return { success: true, document }
+  }
+
+  await logDocumentAccess(updated, { role: "self", userId }, "shared", { booking: booking._id }, context)
+  await createNotification({
+    userId: refId(property.owner),
+    type: "booking",
+    title: "Tenant document shared",
+    message: `Your tenant shared their ${documentTypeLabel(updated.type)} for the booking at ${property.title || "your property"}.`,
+    link: "/profile?tab=move-ins",
+    priority: "low",
+    metadata: { documentId: String(updated._id), bookingId: String(booking._id) },
+  })
+
+  return { success: true, document: updated }
+}
+
+/**
+ * Withdraw a share before the booking ends
+ */
+export async function revokeDocumentShare(
+  document: IUserDocument,
+  userId: string,
+  bookingId: unknown,
+  context: AccessContext = {},
+  now = new Date(),
+): Promise<VaultResult> {
+  if (refId(document.user) !== userId) {
+    return { success: false, error: "Only the document's owner can revoke access", status: 403 }
+  }
+  const share = activeShares(document).find((entry) => refId(entry.booking) === bookingId)
+  if (!share) {
+    return { success: false, error: "This document isn't shared for that booking", status: 404 }
+  }
+
+  await revokeShares({ _id: document._id }, { "share._id": share._id }, "tenant", now)
+  await logDocumentAccess(document, { role: "self", userId }, "revoked", { booking: share.booking }, context)
+
+  const updated: IUserDocument | null = await UserDocument.findById(document._id)
+  return { success: true, document: updated ?? document }
+}
+
+/**
+ * Revoke every share made for a booking (called when it is cancelled or completed)
+ */
+export async function revokeBookingDocumentShares(bookingId: mongoose.Types.ObjectId | string, now = new Date()) {
+  const documents: IUserDocument[] = await UserDocument.find({
+    shares: { $elemMatch: { booking: bookingId, revokedAt: { $exists: false } } },
+  })
+
+  for (const document of documents) {
+    await revokeShares(
+      { _id: document._id },
+      { "share.booking": new mongoose.Types.ObjectId(String(bookingId)) },
+      "booking_ended",
+      now,
+    )
+    await logDocumentAccess(document, { role: "system" }, "revoked", { booking: bookingId, note: "booking_ended" })
+  }
+
+  return documents.length
+}
+
+/**
+ * Revoke shares whose booking has ended without a status change, i.e. the
+ * check-out date passed (scheduled job)
+ */
+export async function revokeEndedShares(now = new Date()) {
+  const documents = await UserDocument.find({ shares: { $elemMatch: { revokedAt: { $exists: false } } } })
+    .select("shares")
+    .lean<Array<{ shares: IUserDocumentShare[] }>>()
+
+  const bookingIds = new Set<string>()
+  for (const document of documents) {
+    for (const share of document.shares) {
+      if (!share.revokedAt) bookingIds.add(refId(share.booking))
+    }
+  }
+  if (bookingIds.size === 0) return { revoked: 0 }
+
+  const live = await Booking.find({ _id: { $in: Array.from(bookingIds) } })
+    .select("status checkOutDate")
+    .lean<IBooking[]>()
+
+  let revoked = 0
+  for (const bookingId of bookingIds) {
+    // Deleted bookings end their shares too
+    const booking = live.find((entry) => String(entry._id) === bookingId)
+    if (!isBookingLive(booking ?? null, now)) revoked += await revokeBookingDocumentShares(bookingId, now)
+  }
+
+  return { revoked }
+}
+
+/**
+ * Mark documents past their expiry date as expired and withdraw their shares (scheduled job)
+ */
+export async function expireDocuments(now = new Date()) {
+  const documents: IUserDocument[] = await UserDocument.find({
+    status: { $in: ["pending", "verified"] },
+    expiresAt: { $lte: now },
+  })
+
+  let expired = 0
+  for (const document of documents) {
+    const updated: IUserDocument | null = await UserDocument.findOneAndUpdate(
+      { _id: document._id, status: { $in: ["pending", "verified"] } },
+      {
+        $set: {
+          status: "expired",
+          "shares.$[share].revokedAt": now,
+          "shares.$[share].revokedReason": "document_expired",
+          updatedAt: now,
+        },
+      },
+      { new: true, arrayFilters: [{ "share.revokedAt": { $exists: false } }] },
+    )
+    if (!updated) continue
+    expired += 1
+
+    await logDocumentAccess(updated, { role: "system" }, "expired")
+    await createNotification({
+      userId: refId(updated.user),
+      type: "system",
+      title: "Document expired",
+      message: `Your ${documentTypeLabel(updated.type)} has expired and is no longer shared. Upload a current one.`,
+      link: "/profile?tab=documents",
+      priority: "medium",
+      metadata: { documentId: String(updated._id) },
+    })
+  }
+
+  return { expired }
+}
+
+/**
+ * Admin decision on a pending document
+ */
+export async function reviewDocument(
+  document: IUserDocument,
+  adminId: string,
+  decision: unknown,
+  reason: unknown,
+  context: AccessContext = {},
+  now = new Date(),
+): Promise<VaultResult> {
+  if (decision !== "verified" && decision !== "rejected") {
+    return { success: false, error: "Decision must be verified or rejected", status: 400 }
+  }
+  const rejectionReason = typeof reason === "string" ? reason.trim().slice(0, 300) : ""
+  if (decision === "rejected" && !rejectionReason) {
+    return { success: false, error: "Say why the document is rejected", status: 400 }
+  }
+  if (isExpired(document, now)) {
+    return { success: false, error: "This document has expired", status: 400 }
+  }
+
+  const updated: IUserDocument | null = await UserDocument.findOneAndUpdate(
+    { _id: document._id, status: "pending" },
+    decision === "verified"
+      ? {
+          $set: { status: "verified", verifiedAt: now, verifiedBy: adminId, updatedAt: now },
+          $unset: { rejectionReason: 1 },
+        }
+      : {
+          $set: { status: "rejected", rejectionReason, verifiedBy: adminId, updatedAt: now },
+          $unset: { verifiedAt: 1 },
+        },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This document has already been reviewed", status: 409 }
+  }
+
+  await logDocumentAccess(updated, { role: "admin", userId: adminId }, decision, { note: rejectionReason }, context)
+  await createNotification({
+    userId: refId(updated.user),
+    type: "system",
+    title: decision === "verified" ? "Document verified" : "Document rejected",
+    message:
+      decision === "verified"
+        ? `Your ${documentTypeLabel(updated.type)} has been verified.`
+        : `Your ${documentTypeLabel(updated.type)} was rejected: ${rejectionReason}`,
+    link: "/profile?tab=documents",
+    priority: decision === "verified" ? "low" : "medium",
+    metadata: { documentId: String(updated._id) },
+  })
+
+  return { success: true, document: updated }
+}
+
+/**
+ * Remove a document and its files. The access log is kept.
+ */
+export async function deleteDocument(
+  document: IUserDocument,
+  userId: string,
+  context: AccessContext = {},
+): Promise<{ success: true } | VaultFailure> {
+  if (refId(document.user) !== userId) {
+    return { success: false, error: "Only the document's owner can delete it", status: 403 }
+  }
+
+  await logDocumentAccess(document, { role: "self", userId }, "deleted", {}, context)
+  await UserDocument.deleteOne({ _id: document._id })
+
+  configureCloudinary()
+  for (const file of document.files) {
+    try {
+      await cloudinary.uploader.destroy(file.publicId, { type: "authenticated", resource_type: file.resourceType })
+    } catch (error) {
+      console.error("Error deleting vault file from Cloudinary:", error)
+    }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Documents shared with an owner, grouped by booking. Only what's needed to
+ * list them; opening one goes through getAccessibleDocument() and is logged.
+ */
+export async function listDocumentsSharedWith(ownerId: string, now = new Date()) {
+  const documents: IUserDocument[] = await UserDocument.find({
+    shares: { $elemMatch: { owner: ownerId, revokedAt: { $exists: false } } },
+    status: { $ne: "expired" },
+  })
+    .populate("user", "name email")
+    .sort({ createdAt: -1 })
+
+  const bookingIds = new Set<string>()
+  for (const document of documents) {
+    for (const share of activeShares(document)) {
+      if (refId(share.owner) === ownerId) bookingIds.add(refId(share.booking))
+    }
+  }
+  const bookings = await Booking.find({ _id: { $in: Array.from(bookingIds) } })
+    .select("status checkInDate checkOutDate roomType property")
+    .populate("property", "title")
+    .lean<Array<IBooking & { property?: { title?: string } }>>()
+
+  const groups = new Map<
+    string,
+    {
+      booking: { _id: string; roomType?: string; checkInDate?: Date; property?: { title?: string } }
+      tenant?: { name?: string; email?: string }
+      documents: Array<{ _id: string; type: UserDocumentType; typeLabel: string; label?: string; status: string }>
+    }
+  >()
+  for (const document of documents) {
+    if (isExpired(document, now)) continue
+    for (const share of activeShares(document)) {
+      if (refId(share.owner) !== ownerId) continue
+      const booking = bookings.find((entry) => String(entry._id) === refId(share.booking))
+      if (!isBookingLive(booking ?? null, now)) continue
+
+      const key = refId(share.booking)
+      const group = groups.get(key) ?? {
+        booking: {
+          _id: key,
+          roomType: booking?.roomType,
+          checkInDate: booking?.checkInDate,
+          property: booking?.property,
+        },
+        tenant: document.user as unknown as { name?: string; email?: string },
+        documents: [],
+      }
+      group.documents.push({
+        _id: String(document._id),
+        type: document.type,
+        typeLabel: documentTypeLabel(document.type),
+        label: document.label,
+        status: document.status,
+      })
+      groups.set(key, group)
+    }
+  }
+
+  return Array.from(groups.values())
+}
+
+/**
+ * The access history of a document, newest first
+ */
+export async function getDocumentAccessLog(document: IUserDocument, limit = 100) {
+  return DocumentAccessLog.find({ document: document._id })
+    .populate("actor", "name role")
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean()
+}
+
+/**
+ * Who is asking, for the access log
+ */
+export function getAccessContext(req: Request): AccessContext {
+  const forwarded = req.headers.get("x-forwarded-for")
+  return {
+    ip: forwarded?.split(",")[0]?.trim() || req.headers.get("x-real-ip") || undefined,
+    userAgent: req.headers.get("user-agent") || undefined,
+  }
+}
@@ -1,3 +1,5 @@
+import nodemailer from "nodemailer"
+
 export function normalizeEmail(email: string): string {
   return email.toLowerCase().trim()
 }
@@ -50,3 +52,20 @@ export async function findUserByEmailLoose<T extends { email: string }>(
 
   return { normalizedEmail, user: null, multiple: false }
 }
+
+/**
+ * Gmail transporter for outgoing mail, or null when no mailbox is configured
+ */
+export function getEmailTransporter() {
+  const emailUser = process.env.EMAIL_USER || process.env.HOST_EMAIL
+  const emailPassword = process.env.EMAIL_PASSWORD || process.env.HOST_EMAIL_PASSWORD
+  if (!emailUser || !emailPassword) return null
+
+  return nodemailer.createTransport({
+    service: "gmail",
+    auth: {
+      user: emailUser,
+      pass: emailPassword.replace(/\s/g, ""),
+    },
+  })
+}
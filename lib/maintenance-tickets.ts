@@ -0,0 +1,611 @@
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import { Property } from "@/models/property"
+import { getUserModel } from "@/models/user"
+import { nextSequence } from "@/models/counter"
+import {
+  MaintenanceTicket,
+  type IMaintenanceEvent,
+  type IMaintenanceTicket,
+  type MaintenanceCategory,
+  type MaintenancePriority,
+  type MaintenanceStatus,
+} from "@/models/maintenance-ticket"
+import { createNotification } from "@/lib/notification-helper"
+import { refId } from "@/lib/utils"
+
+/**
+ * Maintenance and complaint tickets for residents
+ *
+ * A resident with a confirmed booking raises a ticket against it; the
+ * property's owner handles it, optionally handing it to a caretaker or
+ * technician. The priority sets two deadlines: a response (acknowledge,
+ * start, assign or resolve) and a resolution. escalateOverdueTickets(), run on
+ * a schedule, flags the first missed deadline as an escalation for admins.
+ *
+ * The resident closes a resolved ticket with a rating of the fix, or reopens
+ * it; resolved tickets they don't come back to close on their own after
+ * AUTO_CLOSE_DAYS. Closed tickets feed the property's maintenance score
+ * (refreshPropertyMaintenanceStats), shown next to its review rating.
+ */
+
+type TicketFailure = { success: false; error: string; status: number }
+
+export type TicketResult = { success: true; ticket: IMaintenanceTicket } | TicketFailure
+
+export type TicketActor = { role: "tenant" | "owner" | "admin"; userId: string }
+
+export const MAINTENANCE_CATEGORIES: Array<{ category: MaintenanceCategory; label: string }> = [
+  { category: "plumbing", label: "Plumbing / water" },
+  { category: "electrical", label: "Electrical" },
+  { category: "appliance", label: "Appliance (geyser, AC, fridge)" },
+  { category: "internet", label: "WiFi / internet" },
+  { category: "furniture", label: "Furniture" },
+  { category: "cleaning", label: "Cleaning / housekeeping" },
+  { category: "pest_control", label: "Pest control" },
+  { category: "security", label: "Security / locks" },
+  { category: "noise", label: "Noise / neighbours" },
+  { category: "other", label: "Other" },
+]
+
+// Hours to first response and to resolution, by priority
+export const SLA_HOURS: Record<MaintenancePriority, { response: number; resolution: number }> = {
+  urgent: { response: 2, resolution: 24 },
+  high: { response: 6, resolution: 48 },
+  medium: { response: 24, resolution: 72 },
+  low: { response: 48, resolution: 168 },
+}
+
+export const AUTO_CLOSE_DAYS = 7
+
+export const MAX_TICKET_PHOTOS = 6
+
+// Tickets a resident can have open on one booking at a time
+const MAX_OPEN_TICKETS = 10
+
+const ACTIVE_STATUSES: MaintenanceStatus[] = ["open", "acknowledged", "in_progress"]
+
+// Closed tickets older than this no longer count towards a property's score
+const STATS_WINDOW_DAYS = 365
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function categoryLabel(category: MaintenanceCategory) {
+  return MAINTENANCE_CATEGORIES.find((entry) => entry.category === category)?.label ?? "Other"
+}
+
+function addHours(date: Date, hours: number) {
+  return new Date(date.getTime() + hours * HOUR_MS)
+}
+
+function event(actor: TicketActor | { role: "system" }, action: IMaintenanceEvent["action"], now: Date, note?: string) {
+  return {
+    action,
+    ...("userId" in actor ? { actor: actor.userId } : {}),
+    actorRole: actor.role,
+    ...(note ? { note } : {}),
+    at: now,
+  }
+}
+
+async function notify(
+  ticket: IMaintenanceTicket,
+  to: "tenant" | "owner",
+  title: string,
+  message: string,
+  priority: "low" | "medium" | "high" = "medium",
+) {
+  await createNotification({
+    userId: refId(to === "tenant" ? ticket.tenant : ticket.owner),
+    type: "property",
+    title,
+    message,
+    link: "/profile?tab=maintenance",
+    priority,
+    metadata: { ticketId: String(ticket._id), bookingId: refId(ticket.booking) },
+  })
+}
+
+async function notifyAdmins(ticket: IMaintenanceTicket, title: string, message: string) {
+  const User = await getUserModel()
+  const admins = await User.find({ role: "admin" }).select("_id").lean<Array<{ _id: mongoose.Types.ObjectId }>>()
+  for (const admin of admins) {
+    await createNotification({
+      userId: String(admin._id),
+      type: "system",
+      title,
+      message,
+      link: "/profile?tab=maintenance",
+      priority: "high",
+      metadata: { ticketId: String(ticket._id), propertyId: refId(ticket.property) },
+    })
+  }
+}
+
+function parsePhotos(input: unknown): { photos: Array<{ url: string; uploadedAt: Date }> } | { error: string } {
+  if (input === undefined) return { photos: [] }
+  if (!Array.isArray(input)) {
+    return { error: "Photos must be a list of URLs" }
+  }
+  if (input.length > MAX_TICKET_PHOTOS) {
+    return { error: `Attach at most ${MAX_TICKET_PHOTOS} photos` }
+  }
+  const now = new Date()
+  const photos = []
+  for (const url of input) {
+    if (typeof url !== "string" || !url.startsWith("https://")) {
+      return { error: "Upload photos before attaching them" }
+    }
+    photos.push({ url, uploadedAt: now })
+  }
+  return { photos }
+}
+
+/**
+ * Raise a ticket on one of the resident's confirmed bookings
+ */
+export async function createTicket(
+  userId: string,
+  input: Record<string, unknown>,
+  now = new Date(),
+): Promise<TicketResult> {
+  const { bookingId, category, title, description, priority } = input
+
+  if (typeof bookingId !== "string" || !mongoose.Types.ObjectId.isValid(bookingId)) {
+    return { success: false, error: "Choose the booking this is about", status: 400 }
+  }
+  if (!MAINTENANCE_CATEGORIES.some((entry) => entry.category === category)) {
+    return { success: false, error: "Choose a category", status: 400 }
+  }
+  const cleanTitle = typeof title === "string" ? title.trim() : ""
+  if (cleanTitle.length < 3 || cleanTitle.length > 120) {
+    return { success: false, error: "Give the issue a short title (3-120 characters)", status: 400 }
+  }
+  const cleanDescription = typeof description === "string" ? description.trim() : ""
+  if (cleanDescription.length < 10 || cleanDescription.length > 2000) {
+    return { success: false, error: "Describe the issue in 10-2000 characters", status: 400 }
+  }
+  const ticketPriority = (priority ?? "medium") as MaintenancePriority
+  if (!Object.keys(SLA_HOURS).includes(ticketPriority)) {
+    return { success: false, error: "Invalid priority", status: 400 }
+  }
+  const parsedPhotos = parsePhotos(input.photos)
+  if ("error" in parsedPhotos) {
+    return { success: false, error: parsedPhotos.error, status: 400 }
+  }
+
+  const booking: IBooking | null = await Booking.findById(bookingId)
+  if (!booking || refId(booking.user) !== userId) {
+    return { success: false, error: "Booking not found", status: 404 }
+  }
+  if (booking.status !== "confirmed") {
+    return { success: false, error: "Tickets can be raised for confirmed bookings only", status: 400 }
+  }
+
+  const property = await Property.findById(booking.property).select("title owner").lean<{
+    title?: string
+    owner?: unknown
+  }>()
+  if (!property?.owner) {
+    return { success: false, error: "Property not found", status: 404 }
+  }
+
+  const openTickets = await MaintenanceTicket.countDocuments({ booking: booking._id, status: { $in: ACTIVE_STATUSES } })
+  if (openTickets >= MAX_OPEN_TICKETS) {
+    return { success: false, error: "You have too many open tickets for this booking", status: 429 }
+  }
+
+  const sla = SLA_HOURS[ticketPriority]
+  const seq = await nextSequence("maintenance-ticket")
+  const ticket: IMaintenanceTicket = await MaintenanceTicket.create({
+    ticketNumber: `MT-${String(seq).padStart(6, "0")}`,
+    booking: booking._id,
+    property: booking.property,
+    tenant: booking.user,
+    owner: property.owner,
+    category,
+    title: cleanTitle,
+    description: cleanDescription,
+    photos: parsedPhotos.photos,
+    priority: ticketPriority,
+    status: "open",
+    sla: { responseDueAt: addHours(now, sla.response), resolutionDueAt: addHours(now, sla.resolution) },
+    reopenCount: 0,
+    events: [event({ role: "tenant", userId }, "created", now)],
+    createdAt: now,
+    updatedAt: now,
+  })
+
+  await notify(
+    ticket,
+    "owner",
+    ticketPriority === "urgent" ? "Urgent maintenance request" : "New maintenance request",
+    `${ticket.ticketNumber} at ${property.title || "your property"}: ${cleanTitle} (${categoryLabel(ticket.category)}). Please respond within ${sla.response} hours.`,
+    ticketPriority === "urgent" || ticketPriority === "high" ? "high" : "medium",
+  )
+
+  return { success: true, ticket }
+}
+
+/**
+ * Load a ticket for its resident, the property's owner or an admin
+ */
+export async function getTicketForUser(
+  ticketId: string,
+  sessionUser: { id: string; role?: string },
+): Promise<{ success: true; ticket: IMaintenanceTicket; actor: TicketActor } | TicketFailure> {
+  if (!mongoose.Types.ObjectId.isValid(ticketId)) {
+    return { success: false, error: "Invalid ticket ID", status: 400 }
+  }
+
+  const ticket: IMaintenanceTicket | null = await MaintenanceTicket.findById(ticketId)
+  if (!ticket) {
+    return { success: false, error: "Ticket not found", status: 404 }
+  }
+
+  let actor: TicketActor | null = null
+  if (refId(ticket.tenant) === sessionUser.id) actor = { role: "tenant", userId: sessionUser.id }
+  else if (refId(ticket.owner) === sessionUser.id) actor = { role: "owner", userId: sessionUser.id }
+  else if (sessionUser.role === "admin") actor = { role: "admin", userId: sessionUser.id }
+  if (!actor) {
+    return { success: false, error: "You don't have access to this ticket", status: 403 }
+  }
+
+  return { success: true, ticket, actor }
+}
+
+/**
+ * Move a ticket from one of `from` with `update`, recording the event.
+ * Fails with 409 if someone else moved it first.
+ */
+async function transition(
+  ticket: IMaintenanceTicket,
+  from: MaintenanceStatus[],
+  update: { $set?: Record<string, unknown>; $unset?: Record<string, 1>; $inc?: Record<string, number> },
+  entry: ReturnType<typeof event>,
+): Promise<TicketResult> {
+  const updated: IMaintenanceTicket | null = await MaintenanceTicket.findOneAndUpdate(
+    { _id: ticket._id, status: { $in: from } },
+    { ...update, $set: { ...update.$set, updatedAt: entry.at }, $push: { events: entry } },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This ticket has changed, refresh and try again", status: 409 }
+  }
+  return { success: true, ticket: updated }
+}
+
+function requireNote(note: unknown, message: string): string | { error: string } {
+  const text = typeof note === "string" ? note.trim() : ""
+  if (!text) return { error: message }
+  return text.slice(0, 1000)
+}
+
+const staffOnly = (actor: TicketActor) => actor.role === "owner" || actor.role === "admin"
+
+/**
+ * Apply `{ action, ... }` from the resident or the owner's side
+ */
+export async function applyTicketAction(
+  ticket: IMaintenanceTicket,
+  actor: TicketActor,
+  input: Record<string, unknown>,
+  now = new Date(),
+): Promise<TicketResult> {
+  const { action } = input
+  const firstResponse = ticket.sla.respondedAt ? {} : { "sla.respondedAt": now }
+
+  switch (action) {
+    case "acknowledge": {
+      if (!staffOnly(actor)) break
+      const result = await transition(
+        ticket,
+        ["open"],
+        { $set: { status: "acknowledged", ...firstResponse } },
+        event(actor, "acknowledged", now),
+      )
+      if (result.success) {
+        await notify(result.ticket, "tenant", "Ticket acknowledged", `${ticket.ticketNumber}: the owner has seen "${ticket.title}".`, "low")
+      }
+      return result
+    }
+
+    case "start": {
+      if (!staffOnly(actor)) break
+      const result = await transition(
+        ticket,
+        ["open", "acknowledged"],
+        { $set: { status: "in_progress", ...firstResponse } },
+        event(actor, "started", now),
+      )
+      if (result.success) {
+        await notify(result.ticket, "tenant", "Work started", `${ticket.ticketNumber}: work on "${ticket.title}" has started.`, "low")
+      }
+      return result
+    }
+
+    case "assign": {
+      if (!staffOnly(actor)) break
+      const name = typeof input.name === "string" ? input.name.trim().slice(0, 80) : ""
+      const phone = typeof input.phone === "string" ? input.phone.replace(/[\s-]/g, "").slice(0, 15) : ""
+      if (name.length < 2) {
+        return { success: false, error: "Enter who is handling this", status: 400 }
+      }
+      const result = await transition(
+        ticket,
+        ACTIVE_STATUSES,
+        {
+          $set: {
+            assignee: { name, ...(phone ? { phone } : {}), assignedAt: now },
+            ...(ticket.status === "open" ? { status: "acknowledged" } : {}),
+            ...firstResponse,
+          },
+        },
+        event(actor, "assigned", now, name),
+      )
+      if (result.success) {
+        await notify(
+          result.ticket,
+          "tenant",
+          "Ticket assigned",
+          `${ticket.ticketNumber}: ${name}${phone ? ` (${phone})` : ""} will look into "${ticket.title}".`,
+          "low",
+        )
+      }
+      return result
+    }
+
+    case "resolve": {
+      if (!staffOnly(actor)) break
+      const note = requireNote(input.note, "Say what was done")
+      if (typeof note !== "string") return { success: false, error: note.error, status: 400 }
+      const result = await transition(
+        ticket,
+        ACTIVE_STATUSES,
+        { $set: { status: "resolved", resolvedAt: now, resolutionNote: note, ...firstResponse } },
+        event(actor, "resolved", now, note),
+      )
+      if (result.success) {
+        await notify(
+          result.ticket,
+          "tenant",
+          "Issue resolved",
+          `${ticket.ticketNumber}: "${ticket.title}" is marked fixed. Close it with a rating, or reopen it if it isn't.`,
+          "medium",
+        )
+      }
+      return result
+    }
+
+    case "reopen": {
+      if (actor.role !== "tenant") break
+      const note = requireNote(input.note, "Say what is still wrong")
+      if (typeof note !== "string") return { success: false, error: note.error, status: 400 }
+      const result = await transition(
+        ticket,
+        ["resolved"],
+        {
+          $set: {
+            status: "in_progress",
+            "sla.resolutionDueAt": addHours(now, SLA_HOURS[ticket.priority].resolution),
+          },
+          $unset: { resolvedAt: 1, resolutionNote: 1 },
+          $inc: { reopenCount: 1 },
+        },
+        event(actor, "reopened", now, note),
+      )
+      if (result.success) {
+        await notify(result.ticket, "owner", "Ticket reopened", `${ticket.ticketNumber}: "${ticket.title}" isn't fixed yet. ${note}`, "high")
+      }
+      return result
+    }
+
+    case "close": {
+      if (actor.role !== "tenant") break
+      const rating = Number(input.rating)
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return { success: false, error: "Rate the fix from 1 to 5", status: 400 }
+      }
+      const comment = typeof input.comment === "string" ? input.comment.trim().slice(0, 500) : ""
+      const result = await transition(
+        ticket,
+        ["resolved"],
+        {
+          $set: {
+            status: "closed",
+            closedAt: now,
+            satisfaction: { rating, ...(comment ? { comment } : {}), at: now },
+          },
+        },
+        event(actor, "closed", now, comment || undefined),
+      )
+      if (result.success) {
+        await refreshPropertyMaintenanceStats(result.ticket.property, now)
+        await notify(
+          result.ticket,
+          "owner",
+          "Ticket closed",
+          `${ticket.ticketNumber}: the resident closed "${ticket.title}" and rated the fix ${rating}/5.`,
+          "low",
+        )
+      }
+      return result
+    }
+
+    case "cancel": {
+      if (actor.role !== "tenant") break
+      const note = typeof input.note === "string" ? input.note.trim().slice(0, 500) : ""
+      const result = await transition(
+        ticket,
+        ["open", "acknowledged"],
+        { $set: { status: "cancelled" } },
+        event(actor, "cancelled", now, note || undefined),
+      )
+      if (result.success) {
+        await notify(result.ticket, "owner", "Ticket withdrawn", `${ticket.ticketNumber}: the resident withdrew "${ticket.title}".`, "low")
+      }
+      return result
+    }
+
+    case "comment": {
+      const note = requireNote(input.note, "Write a comment")
+      if (typeof note !== "string") return { success: false, error: note.error, status: 400 }
+      const result = await transition(
+        ticket,
+        [...ACTIVE_STATUSES, "resolved"],
+        {},
+        event(actor, "commented", now, note),
+      )
+      if (result.success) {
+        await notify(
+          result.ticket,
+          actor.role === "tenant" ? "owner" : "tenant",
+          `New comment on ${ticket.ticketNumber}`,
+          note.length > 140 ? `${note.slice(0, 137)}...` : note,
+          "low",
+        )
+      }
+      return result
+    }
+
+    default:
+      return { success: false, error: "Unknown action", status: 400 }
+  }
+
+  return { success: false, error: "You can't do that on this ticket", status: 403 }
+}
+
+/**
+ * Flag tickets that missed their response or resolution deadline, escalating
+ * them to admins, and close resolved tickets the resident never came back to
+ * (scheduled job)
+ */
+export async function escalateOverdueTickets(now = new Date()) {
+  let responseBreaches = 0
+  let resolutionBreaches = 0
+  let autoClosed = 0
+
+  const overdue: IMaintenanceTicket[] = await MaintenanceTicket.find({
+    $or: [
+      { status: "open", "sla.responseDueAt": { $lte: now }, "sla.responseBreachedAt": { $exists: false } },
+      {
+        status: { $in: ACTIVE_STATUSES },
+        "sla.resolutionDueAt": { $lte: now },
+        "sla.resolutionBreachedAt": { $exists: false },
+      },
+    ],
+  })
+    .populate("property", "title")
+    .limit(500)
+
+  for (const ticket of overdue) {
+    const missedResponse = ticket.status === "open" && ticket.sla.responseDueAt <= now && !ticket.sla.responseBreachedAt
+    const missedResolution = ticket.sla.resolutionDueAt <= now && !ticket.sla.resolutionBreachedAt
+    const field = missedResolution ? "sla.resolutionBreachedAt" : "sla.responseBreachedAt"
+    const what = missedResolution ? "resolution" : "response"
+
+    const updated: IMaintenanceTicket | null = await MaintenanceTicket.findOneAndUpdate(
+      { _id: ticket._id, status: { $in: ACTIVE_STATUSES }, [field]: { $exists: false } },
+      {
+        $set: {
+          [field]: now,
+          // A ticket that misses its resolution without a response missed both
+          ...(missedResolution && missedResponse ? { "sla.responseBreachedAt": now } : {}),
+          ...(ticket.escalatedAt ? {} : { escalatedAt: now }),
+          updatedAt: now,
+        },
+        $push: { events: event({ role: "system" }, "escalated", now, `Missed the ${what} deadline`) },
+      },
+      { new: true },
+    )
+    if (!updated) continue
+    if (missedResolution) resolutionBreaches += 1
+    else responseBreaches += 1
+
+    const propertyTitle = (ticket.property as unknown as { title?: string })?.title || "a property"
+    await notify(
+      updated,
+      "owner",
+      "Maintenance ticket overdue",
+      `${ticket.ticketNumber} at ${propertyTitle} ("${ticket.title}") missed its ${what} deadline and has been escalated.`,
+      "high",
+    )
+    await notify(
+      updated,
+      "tenant",
+      "Your ticket has been escalated",
+      `${ticket.ticketNumber} ("${ticket.title}") missed its ${what} deadline. SecondHome has been alerted.`,
+      "medium",
+    )
+    await notifyAdmins(
+      updated,
+      "Maintenance SLA breached",
+      `${ticket.ticketNumber} (${ticket.priority}) at ${propertyTitle} missed its ${what} deadline.`,
+    )
+  }
+
+  const stale: IMaintenanceTicket[] = await MaintenanceTicket.find({
+    status: "resolved",
+    resolvedAt: { $lte: new Date(now.getTime() - AUTO_CLOSE_DAYS * 24 * HOUR_MS) },
+  }).limit(500)
+
+  const touched = new Set<string>()
+  for (const ticket of stale) {
+    const updated: IMaintenanceTicket | null = await MaintenanceTicket.findOneAndUpdate(
+      { _id: ticket._id, status: "resolved" },
+      {
+        $set: { status: "closed", closedAt: now, autoClosed: true, updatedAt: now },
+        $push: { events: event({ role: "system" }, "closed", now, `No response in ${AUTO_CLOSE_DAYS} days`) },
+      },
+      { new: true },
+    )
+    if (!updated) continue
+    autoClosed += 1
+    touched.add(refId(updated.property))
+  }
+  for (const propertyId of touched) {
+    await refreshPropertyMaintenanceStats(propertyId, now)
+  }
+
+  return { responseBreaches, resolutionBreaches, autoClosed }
+}
+
+/**
+ * Recompute a property's maintenance score from its tickets closed in the
+ * last year: residents' ratings of the fixes (70%) and the share fixed within
+ * the SLA (30%); without any ratings, the SLA share alone.
+ */
+export async function refreshPropertyMaintenanceStats(propertyId: mongoose.Types.ObjectId | string, now = new Date()) {
+  const tickets = await MaintenanceTicket.find({
+    property: propertyId,
+    status: "closed",
+    resolvedAt: { $gte: new Date(now.getTime() - STATS_WINDOW_DAYS * 24 * HOUR_MS) },
+  })
+    .select("createdAt resolvedAt sla.resolutionBreachedAt satisfaction.rating")
+    .lean<Array<Pick<IMaintenanceTicket, "createdAt" | "resolvedAt" | "sla" | "satisfaction">>>()
+
+  if (tickets.length === 0) {
+    await Property.updateOne({ _id: propertyId }, { $unset: { maintenance: 1 } })
+    return null
+  }
+
+  const slaMetRate = tickets.filter((ticket) => !ticket.sla?.resolutionBreachedAt).length / tickets.length
+  const averageResolutionHours =
+    tickets.reduce((sum, ticket) => sum + ((ticket.resolvedAt?.getTime() ?? 0) - ticket.createdAt.getTime()), 0) /
+    tickets.length /
+    HOUR_MS
+  const ratings = tickets.map((ticket) => ticket.satisfaction?.rating).filter((rating): rating is number => !!rating)
+  const satisfaction = ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : undefined
+  const score = satisfaction !== undefined ? 0.7 * satisfaction + 0.3 * 5 * slaMetRate : 5 * slaMetRate
+
+  const maintenance = {
+    score: Math.round(score * 10) / 10,
+    resolvedTickets: tickets.length,
+    slaMetRate: Math.round(slaMetRate * 100) / 100,
+    averageResolutionHours: Math.round(averageResolutionHours),
+    ...(satisfaction !== undefined ? { satisfaction: Math.round(satisfaction * 10) / 10 } : {}),
+    updatedAt: now,
+  }
+  await Property.updateOne({ _id: propertyId }, { $set: { maintenance } })
+  return maintenance
+}
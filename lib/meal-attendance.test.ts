@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { getMealCutoff, parseStartMinutes } from "@/lib/meal-attendance"
+
+describe("parseStartMinutes", () => {
+  it("reads the start of a range with its own AM/PM", () => {
+    expect(parseStartMinutes("7:30 AM - 9:00 AM")).toBe(450)
+    expect(parseStartMinutes("12:30 pm to 2:30 pm")).toBe(750)
+  })
+
+  it("gives a bare start the range's trailing AM/PM", () => {
+    expect(parseStartMinutes("7 - 9 PM")).toBe(1140)
+    expect(parseStartMinutes("7.30–9.30 am")).toBe(450)
+  })
+
+  it("puts a bare start on the other side of noon when the range crosses it", () => {
+    expect(parseStartMinutes("11 - 1 PM")).toBe(660)
+    expect(parseStartMinutes("12 - 2 PM")).toBe(720)
+  })
+
+  it("reads 24-hour times", () => {
+    expect(parseStartMinutes("19:00 - 21:00")).toBe(1140)
+    expect(parseStartMinutes("08:15")).toBe(495)
+  })
+
+  it("gives up on missing or impossible times", () => {
+    expect(parseStartMinutes(undefined)).toBeNull()
+    expect(parseStartMinutes("Closed")).toBeNull()
+    expect(parseStartMinutes("25:00")).toBeNull()
+  })
+})
+
+describe("getMealCutoff", () => {
+  const day = new Date("2026-10-19T00:00:00.000Z")
+
+  it("is cutoffHours before the meal starts, India time", () => {
+    const mess = { mealTypes: ["Dinner"], openingHours: { dinner: "7 - 9 PM" }, skipPolicy: { cutoffHours: 2 } }
+    expect(getMealCutoff(mess as never, day, "dinner")).toEqual(new Date("2026-10-19T17:00:00+05:30"))
+  })
+
+  it("falls back to the usual start when the hours can't be read", () => {
+    expect(getMealCutoff({ mealTypes: ["Lunch"] } as never, day, "lunch")).toEqual(new Date("2026-10-19T10:30:00+05:30"))
+  })
+})
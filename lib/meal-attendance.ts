@@ -0,0 +1,375 @@
+import { differenceInCalendarDays } from "date-fns"
+import type { IMess, IMealSkipPolicy } from "@/models/mess"
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription"
+import { MealAttendance, type IMealAttendance } from "@/models/meal-attendance"
+import { MessPass } from "@/models/mess-pass"
+import { Payment, type IPayment } from "@/models/payment"
+import { createNotification } from "@/lib/notification-helper"
+import { refundPayment } from "@/lib/payments"
+
+/**
+ * Daily meal attendance for mess subscribers
+ *
+ * Every meal of an active subscription counts as attending unless the
+ * subscriber skips it before its cutoff: `cutoffHours` before the meal starts
+ * according to the mess's `openingHours`. A skip records what it earned under
+ * the mess's skip policy at the time. "credit" skips add up to a balance that
+ * is taken off the subscriber's next renewal at that mess; "refund" skips are
+ * refunded against the subscription payment once its period ends. Owners get
+ * a per-meal headcount from the same records.
+ */
+
+// Days are calendar days in India, stored as UTC midnight of that date like subscription dates
+const IST_OFFSET_MS = 330 * 60 * 1000
+
+const MEAL_ORDER = ["breakfast", "lunch", "snacks", "dinner"]
+
+// Used when a meal has no (parsable) opening hours
+const DEFAULT_MEAL_START_MINUTES: Record<string, number> = {
+  breakfast: 8 * 60,
+  lunch: 12 * 60 + 30,
+  snacks: 16 * 60 + 30,
+  dinner: 20 * 60,
+}
+
+export const DEFAULT_MEAL_SKIP_POLICY: IMealSkipPolicy = {
+  compensation: "credit",
+  compensationPercent: 50,
+  cutoffHours: 2,
+  maxCompensatedSkips: 15,
+}
+
+type AttendanceFailure = { success: false; error: string; status: number }
+
+type MessForAttendance = Pick<IMess, "mealTypes" | "openingHours" | "skipPolicy">
+
+export function resolveMealSkipPolicy(mess?: { skipPolicy?: Partial<IMealSkipPolicy> } | null): IMealSkipPolicy {
+  const policy = mess?.skipPolicy
+  return {
+    compensation: policy?.compensation ?? DEFAULT_MEAL_SKIP_POLICY.compensation,
+    compensationPercent: policy?.compensationPercent ?? DEFAULT_MEAL_SKIP_POLICY.compensationPercent,
+    cutoffHours: policy?.cutoffHours ?? DEFAULT_MEAL_SKIP_POLICY.cutoffHours,
+    maxCompensatedSkips: policy?.maxCompensatedSkips ?? DEFAULT_MEAL_SKIP_POLICY.maxCompensatedSkips,
+  }
+}
+
+/**
+ * Validate a skip policy submitted by a mess owner
+ */
+export function parseMealSkipPolicy(input: unknown): { policy: IMealSkipPolicy } | { error: string } {
+  const body = input as Partial<IMealSkipPolicy> | null
+  if (!body || typeof body !== "object") {
+    return { error: "A skip policy is required" }
+  }
+
+  const compensation = body.compensation
+  if (compensation !== "none" && compensation !== "credit" && compensation !== "refund") {
+    return { error: "compensation must be none, credit or refund" }
+  }
+
+  const percent = Number(body.compensationPercent ?? DEFAULT_MEAL_SKIP_POLICY.compensationPercent)
+  const cutoffHours = Number(body.cutoffHours ?? DEFAULT_MEAL_SKIP_POLICY.cutoffHours)
+  const maxSkips = Number(body.maxCompensatedSkips ?? DEFAULT_MEAL_SKIP_POLICY.maxCompensatedSkips)
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    return { error: "compensationPercent must be between 0 and 100" }
+  }
+  if (!Number.isFinite(cutoffHours) || cutoffHours < 0 || cutoffHours > 48) {
+    return { error: "cutoffHours must be between 0 and 48" }
+  }
+  if (!Number.isInteger(maxSkips) || maxSkips < 0) {
+    return { error: "maxCompensatedSkips must be a whole number (0 or more)" }
+  }
+
+  return { policy: { compensation, compensationPercent: percent, cutoffHours, maxCompensatedSkips: maxSkips } }
+}
+
+/**
+ * The meals a mess serves, in serving order (lowercased `mealTypes`)
+ */
+export function getMessMeals(mess: Pick<IMess, "mealTypes">) {
+  const meals = new Set((mess.mealTypes || []).map((meal) => meal.trim().toLowerCase()))
+  return MEAL_ORDER.filter((meal) => meals.has(meal))
+}
+
+/**
+ * The day (YYYY-MM-DD, India time) an instant falls on
+ */
+export function toDayKey(date: Date) {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10)
+}
+
+export function parseDayKey(value: unknown): Date | null {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// "7:30 AM - 9:00 AM" -> 450; the first time in the string is the start.
+// A start without its own AM/PM takes the range's: "7 - 9 PM" -> 1140, "11 - 1 PM" -> 660
+export function parseStartMinutes(hours?: string) {
+  const match = hours?.match(
+    /(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?(?:\s*(?:-|–|—|to)\s*(\d{1,2})(?:[:.]\d{2})?\s*(am|pm))?/i,
+  )
+  if (!match) return null
+
+  let hour = Number(match[1])
+  const minute = Number(match[2] || 0)
+  let meridiem = match[3]?.toLowerCase()
+  if (!meridiem && match[5]) {
+    const endMeridiem = match[5].toLowerCase()
+    // A range that crosses noon (or midnight) starts on the other side of it
+    meridiem = hour % 12 <= Number(match[4]) % 12 ? endMeridiem : endMeridiem === "pm" ? "am" : "pm"
+  }
+  if (meridiem === "pm" && hour < 12) hour += 12
+  if (meridiem === "am" && hour === 12) hour = 0
+  if (hour > 23 || minute > 59) return null
+  return hour * 60 + minute
+}
+
+/**
+ * When a meal on a given day can no longer be skipped
+ */
+export function getMealCutoff(mess: MessForAttendance, day: Date, meal: string) {
+  const hours = (mess.openingHours as Record<string, string | undefined> | undefined)?.[meal]
+  const startMinutes = parseStartMinutes(hours) ?? DEFAULT_MEAL_START_MINUTES[meal] ?? 12 * 60
+  const policy = resolveMealSkipPolicy(mess)
+  return new Date(day.getTime() + startMinutes * 60 * 1000 - IST_OFFSET_MS - policy.cutoffHours * 60 * 60 * 1000)
+}
+
+function roundRupees(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * A subscription's price pro-rated to one meal
+ */
+export function getPerMealPrice(subscription: IMessSubscription, mess: MessForAttendance) {
+  const days = Math.max(1, differenceInCalendarDays(subscription.endDate, subscription.startDate))
+  const meals = Math.max(1, getMessMeals(mess).length)
+  return roundRupees(subscription.monthlyPrice / days / meals)
+}
+
+function coversDay(subscription: IMessSubscription, day: Date) {
+  return subscription.startDate <= day && day < subscription.endDate
+}
+
+/**
+ * Attendance for every meal of a subscription between two days (inclusive,
+ * clamped to the subscription period)
+ */
+export async function getAttendanceCalendar(
+  subscription: IMessSubscription,
+  mess: MessForAttendance,
+  from: Date,
+  to: Date,
+  now = new Date(),
+) {
+  const start = from > subscription.startDate ? from : subscription.startDate
+  const records: IMealAttendance[] = await MealAttendance.find({
+    subscription: subscription._id,
+    date: { $gte: start, $lte: to },
+  }).lean()
+  const byKey = new Map(records.map((record) => [`${record.date.toISOString().slice(0, 10)}:${record.meal}`, record]))
+
+  const meals = getMessMeals(mess)
+  const days = []
+  for (let day = start; day <= to && day < subscription.endDate; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    const dayKey = day.toISOString().slice(0, 10)
+    days.push({
+      date: dayKey,
+      meals: meals.map((meal) => {
+        const record = byKey.get(`${dayKey}:${meal}`)
+        const cutoff = getMealCutoff(mess, day, meal)
+        return {
+          meal,
+          status: record?.status ?? "attending",
+          compensation: record?.status === "skipped" ? record.compensation : 0,
+          cutoff,
+          canChange: subscription.status === "active" && now < cutoff,
+        }
+      }),
+    })
+  }
+
+  return { meals, days }
+}
+
+/**
+ * Skip a meal, or take a skip back, before its cutoff (subscriber)
+ */
+export async function setMealSkip(
+  subscription: IMessSubscription,
+  mess: MessForAttendance,
+  input: { day: Date; meal: string; skip: boolean },
+  now = new Date(),
+): Promise<{ success: true; attendance: IMealAttendance } | AttendanceFailure> {
+  if (subscription.status !== "active") {
+    return { success: false, error: "Only active subscriptions can skip meals", status: 400 }
+  }
+  if (!coversDay(subscription, input.day)) {
+    return { success: false, error: "That day isn't part of this subscription", status: 400 }
+  }
+  if (!getMessMeals(mess).includes(input.meal)) {
+    return { success: false, error: "This mess doesn't serve that meal", status: 400 }
+  }
+  if (now >= getMealCutoff(mess, input.day, input.meal)) {
+    return { success: false, error: "It's too late to change this meal", status: 400 }
+  }
+
+  const key = { subscription: subscription._id, date: input.day, meal: input.meal }
+  if (!input.skip) {
+    const attendance: IMealAttendance | null = await MealAttendance.findOneAndUpdate(
+      key,
+      { $set: { status: "attending", compensation: 0, compensationMode: "none", updatedAt: now } },
+      { new: true },
+    )
+    if (!attendance) {
+      return { success: false, error: "This meal isn't skipped", status: 400 }
+    }
+    return { success: true, attendance }
+  }
+
+  const policy = resolveMealSkipPolicy(mess)
+  let compensation = 0
+  if (policy.compensation !== "none") {
+    const compensated = await MealAttendance.countDocuments({
+      subscription: subscription._id,
+      status: "skipped",
+      compensation: { $gt: 0 },
+      $nor: [{ date: input.day, meal: input.meal }],
+    })
+    if (compensated < policy.maxCompensatedSkips) {
+      compensation = roundRupees((getPerMealPrice(subscription, mess) * policy.compensationPercent) / 100)
+    }
+  }
+
+  const attendance: IMealAttendance = await MealAttendance.findOneAndUpdate(
+    key,
+    {
+      $set: {
+        status: "skipped",
+        compensation,
+        compensationMode: compensation > 0 ? policy.compensation : "none",
+        skippedAt: now,
+        updatedAt: now,
+      },
+      $setOnInsert: { mess: subscription.mess, user: subscription.user, createdAt: now },
+    },
+    { new: true, upsert: true },
+  )
+
+  return { success: true, attendance }
+}
+
+/**
+ * Meal-skip credit a subscriber has left at a mess: everything earned by
+ * "credit" skips minus what renewals have already used
+ */
+export async function getAvailableMealCredit(userId: unknown, messId: unknown) {
+  const [earned] = await MealAttendance.aggregate<{ total: number }>([
+    { $match: { user: userId, mess: messId, status: "skipped", compensationMode: "credit" } },
+    { $group: { _id: null, total: { $sum: "$compensation" } } },
+  ])
+  const [used] = await MessSubscription.aggregate<{ total: number }>([
+    {
+      $match: {
+        user: userId,
+        mess: messId,
+        creditApplied: { $gt: 0 },
+        // Renewals that were declined or lapsed unpaid give their credit back
+        $nor: [{ status: "cancelled" }, { status: "expired", paidAt: { $exists: false } }],
+      },
+    },
+    { $group: { _id: null, total: { $sum: "$creditApplied" } } },
+  ])
+  return Math.max(0, roundRupees((earned?.total ?? 0) - (used?.total ?? 0)))
+}
+
+/**
+ * Refund a finished subscription's "refund" skips against its payment. Runs
+ * once per subscription; a failed refund is kept for an admin to retry.
+ */
+export async function refundSkippedMeals(subscription: IMessSubscription) {
+  const [skipped] = await MealAttendance.aggregate<{ total: number; meals: number }>([
+    { $match: { subscription: subscription._id, status: "skipped", compensationMode: "refund" } },
+    { $group: { _id: null, total: { $sum: "$compensation" }, meals: { $sum: 1 } } },
+  ])
+  const amount = Math.min(roundRupees(skipped?.total ?? 0), subscription.monthlyPrice - (subscription.creditApplied ?? 0))
+  if (!(amount > 0) || !subscription.payment) return null
+
+  const claimed: IMessSubscription | null = await MessSubscription.findOneAndUpdate(
+    { _id: subscription._id, mealRefund: { $exists: false } },
+    { $set: { mealRefund: { amount, status: "pending" }, updatedAt: new Date() } },
+    { new: true },
+  )
+  if (!claimed) return null
+
+  const payment: IPayment | null = await Payment.findById(subscription.payment)
+  const refunded = payment
+    ? await refundPayment(payment, amount, { messSubscriptionId: String(subscription._id), reason: "skipped_meals" })
+    : ({ success: false, error: "Payment not found", status: 404 } as const)
+
+  const now = new Date()
+  if (!refunded.success) {
+    console.error("Error refunding skipped meals:", { subscriptionId: String(subscription._id), error: refunded.error })
+    await MessSubscription.updateOne(
+      { _id: subscription._id },
+      { $set: { "mealRefund.status": "failed", "mealRefund.error": refunded.error, updatedAt: now } },
+    )
+    return { amount, refunded: false }
+  }
+
+  await MessSubscription.updateOne(
+    { _id: subscription._id },
+    {
+      $set: {
+        "mealRefund.status": "processed",
+        "mealRefund.refundId": refunded.refundId,
+        "mealRefund.refundedAt": now,
+        updatedAt: now,
+      },
+      $unset: { "mealRefund.error": "" },
+    },
+  )
+
+  await createNotification({
+    userId: subscription.user.toString(),
+    type: "payment",
+    title: "Skipped meals refunded",
+    message: `₹${amount} for ${skipped?.meals ?? 0} skipped meals is on its way back to you.`,
+    link: "/profile?tab=bookings",
+    priority: "medium",
+    metadata: { subscriptionId: String(subscription._id), refundId: refunded.refundId },
+  })
+
+  return { amount, refunded: true }
+}
+
+/**
+ * How many plates to prepare for each meal on a day: active subscribers
+ * covering the day minus skips, plus pass holders
+ */
+export async function getMealHeadcount(messId: unknown, mess: Pick<IMess, "mealTypes">, day: Date) {
+  const subscribers = await MessSubscription.countDocuments({
+    mess: messId,
+    status: "active",
+    startDate: { $lte: day },
+    endDate: { $gt: day },
+  })
+  const passes = await MessPass.countDocuments({
+    mess: messId,
+    status: "active",
+    startDate: { $lte: day },
+    endDate: { $gt: day },
+  })
+  const skips = await MealAttendance.aggregate<{ _id: string; count: number }>([
+    { $match: { mess: messId, date: day, status: "skipped" } },
+    { $group: { _id: "$meal", count: { $sum: 1 } } },
+  ])
+  const skippedByMeal = new Map(skips.map((skip) => [skip._id, skip.count]))
+
+  return getMessMeals(mess).map((meal) => {
+    const skipped = skippedByMeal.get(meal) ?? 0
+    return { meal, subscribers, passes, skipped, expected: Math.max(0, subscribers - skipped) + passes }
+  })
+}
@@ -0,0 +1,194 @@
+import type { IMess } from "@/models/mess"
+import { MessSubscription } from "@/models/mess-subscription"
+import { getUserModel } from "@/models/user"
+import {
+  MessBroadcast,
+  type BroadcastChannel,
+  type IMessBroadcast,
+  type IMessBroadcastRecipient,
+} from "@/models/mess-broadcast"
+import { createNotification } from "@/lib/notification-helper"
+import { sendWhatsAppMessage } from "@/lib/whatsapp"
+import { getEmailTransporter } from "@/lib/email"
+
+/**
+ * Owner broadcasts to a mess's subscribers
+ *
+ * A broadcast goes to everyone with an `active` subscription to the mess, once
+ * per subscriber. The owner picks the channels; each subscriber's preferences
+ * then decide which of them reach them: in-app notifications always do, email
+ * needs `preferences.emailNotifications` and WhatsApp needs
+ * `preferences.whatsappNotifications` plus a phone number. Every recipient's
+ * per-channel outcome is kept on the broadcast, which doubles as the mess's
+ * message history. Messes have tens of subscribers, so delivery happens in
+ * the request.
+ */
+
+export const BROADCAST_CHANNELS: BroadcastChannel[] = ["in_app", "email", "whatsapp"]
+
+const MAX_TITLE_LENGTH = 100
+const MAX_MESSAGE_LENGTH = 1000
+
+type BroadcastFailure = { success: false; error: string; status: number }
+
+interface BroadcastTarget {
+  recipient: IMessBroadcastRecipient
+  email?: string
+  phone?: string
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/**
+ * Send a message to a mess's active subscribers and record how it was delivered
+ */
+export async function sendMessBroadcast(
+  mess: IMess,
+  senderId: string,
+  input: { title?: unknown; message?: unknown; channels?: unknown },
+): Promise<{ success: true; broadcast: IMessBroadcast } | BroadcastFailure> {
+  const message = typeof input.message === "string" ? input.message.trim() : ""
+  if (!message) {
+    return { success: false, error: "A message is required", status: 400 }
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return { success: false, error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`, status: 400 }
+  }
+  const title =
+    (typeof input.title === "string" ? input.title.trim().slice(0, MAX_TITLE_LENGTH) : "") || `Update from ${mess.name}`
+
+  const channels = Array.isArray(input.channels)
+    ? BROADCAST_CHANNELS.filter((channel) => (input.channels as unknown[]).includes(channel))
+    : BROADCAST_CHANNELS
+  if (channels.length === 0) {
+    return { success: false, error: "Choose at least one channel", status: 400 }
+  }
+
+  const subscriptions = await MessSubscription.find({ mess: mess._id, status: "active" })
+    .select("user subscriberPhone")
+    .lean<Array<{ user: IMessBroadcastRecipient["user"]; subscriberPhone?: string }>>()
+  // A renewal paid ahead can make two periods active at once
+  const subscriberPhones = new Map<string, string | undefined>()
+  for (const subscription of subscriptions) {
+    const userId = subscription.user.toString()
+    if (!subscriberPhones.has(userId) || subscription.subscriberPhone) {
+      subscriberPhones.set(userId, subscription.subscriberPhone)
+    }
+  }
+  if (subscriberPhones.size === 0) {
+    return { success: false, error: "This mess has no active subscribers", status: 400 }
+  }
+
+  const User = await getUserModel()
+  const users = await User.find({ _id: { $in: [...subscriberPhones.keys()] } })
+    .select("name email phone preferences")
+    .lean()
+
+  const targets: BroadcastTarget[] = users.map((user) => {
+    const phone = user.phone || subscriberPhones.get(user._id.toString())
+    const wantsEmail = channels.includes("email") && Boolean(user.preferences?.emailNotifications && user.email)
+    const wantsWhatsApp = channels.includes("whatsapp") && Boolean(user.preferences?.whatsappNotifications && phone)
+    return {
+      recipient: {
+        user: user._id,
+        name: user.name,
+        inApp: channels.includes("in_app") ? "pending" : "skipped",
+        email: wantsEmail ? "pending" : "skipped",
+        whatsapp: wantsWhatsApp ? "pending" : "skipped",
+      },
+      email: wantsEmail ? user.email : undefined,
+      phone: wantsWhatsApp ? phone : undefined,
+    }
+  })
+
+  const broadcast: IMessBroadcast = await MessBroadcast.create({
+    mess: mess._id,
+    sender: senderId,
+    title,
+    message,
+    channels,
+    status: "sending",
+    recipients: targets.map((target) => target.recipient),
+  })
+
+  const transporter = targets.some((target) => target.email) ? getEmailTransporter() : null
+  const link = `/messes/${mess._id}`
+
+  for (const target of targets) {
+    const { recipient } = target
+    const errors: string[] = []
+    const settle = (channel: "inApp" | "email" | "whatsapp", ok: boolean, error?: string) => {
+      recipient[channel] = ok ? "sent" : "failed"
+      if (!ok) errors.push(`${channel}: ${error || "failed"}`)
+    }
+
+    if (recipient.inApp === "pending") {
+      const result = await createNotification({
+        userId: recipient.user.toString(),
+        type: "message",
+        title,
+        message,
+        link,
+        priority: "medium",
+        metadata: { messId: String(mess._id), broadcastId: String(broadcast._id) },
+      })
+      settle("inApp", result.success, result.error)
+    }
+
+    if (recipient.email === "pending") {
+      if (!transporter) {
+        settle("email", false, "email is not configured")
+      } else {
+        try {
+          await transporter.sendMail({
+            from: `"SecondHome" <${process.env.EMAIL_USER || process.env.HOST_EMAIL}>`,
+            to: target.email,
+            subject: `${title} · ${mess.name}`,
+            html: `<p>Hi ${escapeHtml(recipient.name || "there")},</p>
+<p>${escapeHtml(message).replace(/\n/g, "<br>")}</p>
+<p>— ${escapeHtml(mess.name)}, via SecondHome</p>`,
+          })
+          settle("email", true)
+        } catch (error) {
+          console.error(`Error emailing broadcast ${broadcast._id}:`, error)
+          settle("email", false, error instanceof Error ? error.message : undefined)
+        }
+      }
+    }
+
+    if (recipient.whatsapp === "pending" && target.phone) {
+      const result = await sendWhatsAppMessage(target.phone, `*${mess.name}*: ${message}`)
+      settle("whatsapp", result.success, result.success ? undefined : result.error)
+    }
+
+    if (errors.length > 0) recipient.error = errors.join("; ").slice(0, 300)
+  }
+
+  const updated: IMessBroadcast | null = await MessBroadcast.findByIdAndUpdate(
+    broadcast._id,
+    { $set: { recipients: targets.map((target) => target.recipient), status: "sent", sentAt: new Date() } },
+    { new: true },
+  )
+
+  return { success: true, broadcast: updated ?? broadcast }
+}
+
+/**
+ * Sent / failed / skipped counts per channel for a broadcast
+ */
+export function getBroadcastDeliveryCounts(broadcast: Pick<IMessBroadcast, "recipients">) {
+  const counts = {
+    recipients: broadcast.recipients.length,
+    inApp: { sent: 0, failed: 0, skipped: 0, pending: 0 },
+    email: { sent: 0, failed: 0, skipped: 0, pending: 0 },
+    whatsapp: { sent: 0, failed: 0, skipped: 0, pending: 0 },
+  }
+  for (const recipient of broadcast.recipients) {
+    counts.inApp[recipient.inApp] += 1
+    counts.email[recipient.email] += 1
+    counts.whatsapp[recipient.whatsapp] += 1
+  }
+  return counts
+}
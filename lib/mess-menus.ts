@@ -0,0 +1,163 @@
+import type { IMess, IMenuDay, IMenuDish, IMenuMeal, IMenuOverride } from "@/models/mess"
+import { parseDayKey, toDayKey } from "@/lib/meal-attendance"
+
+/**
+ * Structured mess menus
+ *
+ * `weeklyMenu` is the template: dishes per meal per weekday, each tagged with
+ * the diets it suits (the same names as `dietTypes`) and its allergens.
+ * `menuOverrides` replace the template's meals on one date, e.g. for a
+ * festival; meals an override doesn't list keep the template's dishes. The
+ * flat `menu` strings older screens read are summarised from the template on
+ * save, and messes that only have those strings get a template derived from them.
+ */
+
+export const MENU_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
+
+export const MENU_DIET_TAGS = ["Veg", "Non-Veg", "Jain", "Vegan"]
+
+export const MENU_ALLERGENS = ["gluten", "dairy", "nuts", "peanuts", "soy", "egg", "fish", "shellfish", "sesame", "mustard"]
+
+const MENU_MEALS = ["breakfast", "lunch", "snacks", "dinner"]
+
+const MAX_DISHES_PER_MEAL = 30
+
+type MenuMess = Pick<IMess, "menu" | "weeklyMenu" | "menuOverrides">
+
+// "Dal, rice , roti" -> three untagged dishes
+function dishesFromText(text?: string): IMenuDish[] {
+  return (text || "")
+    .split(/[,\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => ({ name, dietTags: [], allergens: [] }))
+}
+
+function parseMeals(input: unknown, path: string): { meals: IMenuMeal[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: `${path} must be a list of meals` }
+
+  const meals: IMenuMeal[] = []
+  for (const rawMeal of input) {
+    const meal = typeof rawMeal?.meal === "string" ? rawMeal.meal.trim().toLowerCase() : ""
+    if (!MENU_MEALS.includes(meal)) return { error: `${path}: unknown meal "${rawMeal?.meal}"` }
+    if (meals.some((existing) => existing.meal === meal)) return { error: `${path}: ${meal} is listed twice` }
+    if (!Array.isArray(rawMeal.dishes) || rawMeal.dishes.length > MAX_DISHES_PER_MEAL) {
+      return { error: `${path}: ${meal} needs a list of up to ${MAX_DISHES_PER_MEAL} dishes` }
+    }
+
+    const dishes: IMenuDish[] = []
+    for (const rawDish of rawMeal.dishes) {
+      const name = typeof rawDish?.name === "string" ? rawDish.name.trim().slice(0, 80) : ""
+      if (!name) continue
+      const dietTags = Array.isArray(rawDish.dietTags) ? rawDish.dietTags : []
+      const allergens = Array.isArray(rawDish.allergens) ? rawDish.allergens : []
+      const unknownDiet = dietTags.find((tag: unknown) => !MENU_DIET_TAGS.includes(tag as string))
+      if (unknownDiet !== undefined) return { error: `${path}: unknown diet tag "${unknownDiet}"` }
+      const unknownAllergen = allergens.find((tag: unknown) => !MENU_ALLERGENS.includes(tag as string))
+      if (unknownAllergen !== undefined) return { error: `${path}: unknown allergen "${unknownAllergen}"` }
+      dishes.push({ name, dietTags: [...new Set<string>(dietTags)], allergens: [...new Set<string>(allergens)] })
+    }
+    meals.push({ meal, dishes })
+  }
+
+  meals.sort((a, b) => MENU_MEALS.indexOf(a.meal) - MENU_MEALS.indexOf(b.meal))
+  return { meals }
+}
+
+/**
+ * Validate a weekly menu from a request body
+ */
+export function parseWeeklyMenu(input: unknown): { weeklyMenu: IMenuDay[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: "weeklyMenu must be a list of days" }
+
+  const weeklyMenu: IMenuDay[] = []
+  for (const rawDay of input) {
+    const day = MENU_DAYS.find((name) => name.toLowerCase() === String(rawDay?.day || "").trim().toLowerCase())
+    if (!day) return { error: `Unknown day "${rawDay?.day}"` }
+    if (weeklyMenu.some((existing) => existing.day === day)) return { error: `${day} is listed twice` }
+
+    const parsed = parseMeals(rawDay.meals, day)
+    if ("error" in parsed) return parsed
+    weeklyMenu.push({ day, meals: parsed.meals })
+  }
+
+  weeklyMenu.sort((a, b) => MENU_DAYS.indexOf(a.day) - MENU_DAYS.indexOf(b.day))
+  return { weeklyMenu }
+}
+
+/**
+ * Validate a dated override from a request body
+ */
+export function parseMenuOverride(input: unknown): { override: IMenuOverride } | { error: string } {
+  const body = (input ?? {}) as { date?: unknown; note?: unknown; meals?: unknown }
+  const date = parseDayKey(body.date)
+  if (!date) return { error: "date must be YYYY-MM-DD" }
+
+  const parsed = parseMeals(body.meals, String(body.date))
+  if ("error" in parsed) return parsed
+
+  const note = typeof body.note === "string" ? body.note.trim().slice(0, 120) : ""
+  return { override: { date, meals: parsed.meals, ...(note ? { note } : {}) } }
+}
+
+/**
+ * The flat `menu` entries older screens show, summarised from a weekly menu
+ */
+export function summarizeWeeklyMenu(weeklyMenu: IMenuDay[]): IMess["menu"] {
+  const dishNames = (day: IMenuDay, meal: string) =>
+    (day.meals.find((entry) => entry.meal === meal)?.dishes || []).map((dish) => dish.name).join(", ")
+
+  return weeklyMenu.map((day) => ({
+    day: day.day,
+    breakfast: dishNames(day, "breakfast"),
+    lunch: dishNames(day, "lunch"),
+    dinner: dishNames(day, "dinner"),
+  }))
+}
+
+/**
+ * A mess's weekly menu, derived from the flat `menu` strings if it has no structured one
+ */
+export function getWeeklyMenu(mess: MenuMess): IMenuDay[] {
+  if (mess.weeklyMenu?.length) return mess.weeklyMenu
+
+  return (mess.menu || [])
+    .filter((entry) => MENU_DAYS.includes(entry.day))
+    .map((entry) => ({
+      day: entry.day,
+      meals: (["breakfast", "lunch", "dinner"] as const)
+        .map((meal) => ({ meal, dishes: dishesFromText(entry[meal]) }))
+        .filter((meal) => meal.dishes.length > 0),
+    }))
+}
+
+/**
+ * What a mess serves on a day: the weekday's template with any override for the date on top
+ */
+export function getMenuForDay(mess: MenuMess, day: Date) {
+  // Days are UTC midnight of the India date, so the UTC weekday is the local one
+  const weekday = MENU_DAYS[(day.getUTCDay() + 6) % 7]
+  const template = getWeeklyMenu(mess).find((entry) => entry.day === weekday)?.meals || []
+  const override = (mess.menuOverrides || []).find((entry) => entry.date.getTime() === day.getTime())
+
+  const meals = MENU_MEALS.map((meal) => {
+    const replaced = override?.meals.find((entry) => entry.meal === meal)
+    return replaced ?? template.find((entry) => entry.meal === meal)
+  }).filter((meal): meal is IMenuMeal => Boolean(meal))
+
+  return { date: toDayKey(day), day: weekday, meals, override: override ? { note: override.note } : null }
+}
+
+/**
+ * Keep only dishes suited to a diet and free of the given allergens
+ */
+export function filterMenuDishes(meals: IMenuMeal[], filter: { diet?: string; excludeAllergens?: string[] }) {
+  return meals.map((meal) => ({
+    meal: meal.meal,
+    dishes: meal.dishes.filter(
+      (dish) =>
+        (!filter.diet || dish.dietTags.includes(filter.diet)) &&
+        !(filter.excludeAllergens || []).some((allergen) => dish.allergens.includes(allergen)),
+    ),
+  }))
+}
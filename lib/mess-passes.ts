@@ -0,0 +1,277 @@
+import crypto from "crypto"
+import mongoose from "mongoose"
+import { addDays, format } from "date-fns"
+import { Mess, type IMess } from "@/models/mess"
+import { MessPass, type IMessPass } from "@/models/mess-pass"
+import { createNotification } from "@/lib/notification-helper"
+import { emailTaxInvoice, issueMessPassInvoice } from "@/lib/tax-invoices"
+import { getMessMeals, parseDayKey, toDayKey } from "@/lib/meal-attendance"
+
+/**
+ * Mess passes: try a mess before subscribing
+ *
+ * A trial pass covers the mess's `trialDays` for free, once per user per mess.
+ * Day and week passes are priced off `dailyPrice` and paid through
+ * lib/payments.ts like subscriptions; recordMessPassPayment() activates them.
+ * Every pass has a short code, shown to the student as a QR, that the mess
+ * redeems once per meal per day while the pass is valid.
+ */
+
+export type MessPassKind = IMessPass["kind"]
+
+export const MESS_PASS_KINDS: MessPassKind[] = ["trial", "day", "week"]
+
+type PassFailure = { success: false; error: string; status: number }
+
+export type PassResult = { success: true; pass: IMessPass } | PassFailure
+
+// No 0/O or 1/I, so codes can be read out or typed
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+function generatePassCode() {
+  const bytes = crypto.randomBytes(8)
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("")
+}
+
+/**
+ * How long a pass of each kind lasts at a mess and what it costs
+ */
+export function getMessPassQuote(
+  mess: Pick<IMess, "trialDays" | "dailyPrice">,
+  kind: MessPassKind,
+): { days: number; price: number } | { error: string } {
+  if (kind === "trial") {
+    const days = Number(mess.trialDays)
+    if (!Number.isInteger(days) || days <= 0) return { error: "This mess doesn't offer a trial" }
+    return { days, price: 0 }
+  }
+
+  const dailyPrice = Number(mess.dailyPrice)
+  if (!Number.isFinite(dailyPrice) || dailyPrice <= 0) {
+    return { error: "This mess doesn't sell day passes" }
+  }
+  const days = kind === "week" ? 7 : 1
+  return { days, price: dailyPrice * days }
+}
+
+async function notifyOwnerOfPass(pass: IMessPass, messName: string) {
+  await createNotification({
+    userId: pass.owner.toString(),
+    type: "booking",
+    title: pass.kind === "trial" ? "New trial at your mess" : "Mess pass sold",
+    message: `A student has a ${pass.kind} pass for ${messName} from ${format(pass.startDate, "d MMM yyyy")}. Scan their code at each meal.`,
+    link: "/profile?tab=mess-subscribers",
+    priority: "medium",
+    metadata: { passId: String(pass._id), messId: String(pass.mess) },
+  })
+}
+
+/**
+ * Create a pass for a student. Trials are free and active straight away;
+ * day and week passes wait for payment.
+ */
+export async function createMessPass(
+  userId: string,
+  input: { messId: string; kind: MessPassKind; startDate: string },
+  now = new Date(),
+): Promise<PassResult> {
+  if (!mongoose.Types.ObjectId.isValid(input.messId)) {
+    return { success: false, error: "Invalid messId", status: 400 }
+  }
+  if (!MESS_PASS_KINDS.includes(input.kind)) {
+    return { success: false, error: "kind must be trial, day or week", status: 400 }
+  }
+  const startDate = parseDayKey(input.startDate)
+  if (!startDate) {
+    return { success: false, error: "Invalid startDate", status: 400 }
+  }
+  if (input.startDate < toDayKey(now)) {
+    return { success: false, error: "startDate can't be in the past", status: 400 }
+  }
+
+  const mess: IMess | null = await Mess.findById(input.messId)
+  if (!mess || !mess.isApproved || mess.isRejected) {
+    return { success: false, error: "Mess is not available", status: 404 }
+  }
+  if (mess.owner.toString() === userId) {
+    return { success: false, error: "You can't buy a pass for your own mess", status: 400 }
+  }
+
+  const quote = getMessPassQuote(mess, input.kind)
+  if ("error" in quote) {
+    return { success: false, error: quote.error, status: 400 }
+  }
+
+  if (input.kind === "trial" && (await MessPass.exists({ user: userId, mess: mess._id, kind: "trial" }))) {
+    return { success: false, error: "You've already had a trial at this mess", status: 409 }
+  }
+
+  const isFree = quote.price === 0
+  let pass: IMessPass
+  try {
+    pass = await MessPass.create({
+      user: userId,
+      mess: mess._id,
+      owner: mess.owner,
+      kind: input.kind,
+      startDate,
+      endDate: addDays(startDate, quote.days),
+      price: quote.price,
+      code: generatePassCode(),
+      status: isFree ? "active" : "pending",
+      redemptions: [],
+      createdAt: now,
+    })
+  } catch (error) {
+    // The unique index settles two trial requests racing each other
+    if ((error as { code?: number })?.code === 11000) {
+      return { success: false, error: "You've already had a trial at this mess", status: 409 }
+    }
+    throw error
+  }
+
+  if (isFree) await notifyOwnerOfPass(pass, mess.name)
+
+  return { success: true, pass }
+}
+
+/**
+ * Load a pass its holder can pay for
+ */
+export async function getPayableMessPass(
+  passId: string,
+  userId: string,
+): Promise<{ pass: IMessPass } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(passId)) {
+    return { error: "Invalid pass ID", status: 400 }
+  }
+
+  const pass: IMessPass | null = await MessPass.findById(passId)
+  if (!pass) {
+    return { error: "Pass not found", status: 404 }
+  }
+  if (pass.user.toString() !== userId) {
+    return { error: "You don't have permission to pay for this pass", status: 403 }
+  }
+  if (pass.paidAt || pass.status === "active") {
+    return { error: "This pass is already paid", status: 400 }
+  }
+  if (pass.status !== "pending") {
+    return { error: `This pass is ${pass.status}`, status: 400 }
+  }
+
+  return { pass }
+}
+
+/**
+ * Record a captured pass payment and activate the pass. Replays of the same
+ * payment are no-ops.
+ */
+export async function recordMessPassPayment(
+  passId: string,
+  payment: { payment: mongoose.Types.ObjectId; reference: string; paidAt?: Date },
+): Promise<PassResult> {
+  const now = new Date()
+  const activated: IMessPass | null = await MessPass.findOneAndUpdate(
+    { _id: passId, paidAt: { $exists: false } },
+    {
+      $set: {
+        status: "active",
+        payment: payment.payment,
+        paymentReference: payment.reference,
+        paidAt: payment.paidAt ?? now,
+        updatedAt: now,
+      },
+    },
+    { new: true },
+  )
+
+  if (!activated) {
+    const existing: IMessPass | null = await MessPass.findById(passId)
+    if (!existing) {
+      return { success: false, error: "Pass not found", status: 404 }
+    }
+    if (existing.paymentReference !== payment.reference) {
+      console.error("Second payment captured for a paid mess pass:", {
+        passId,
+        paidWith: existing.paymentReference,
+        reported: payment.reference,
+      })
+    }
+    return { success: true, pass: existing }
+  }
+
+  const mess = await Mess.findById(activated.mess).select("name").lean<{ name?: string }>()
+  await notifyOwnerOfPass(activated, mess?.name || "your mess")
+
+  try {
+    await emailTaxInvoice(await issueMessPassInvoice(activated))
+  } catch (invoiceError) {
+    // The pass is active; the invoice can still be downloaded later
+    console.error("Error issuing mess pass invoice:", invoiceError)
+  }
+
+  return { success: true, pass: activated }
+}
+
+/**
+ * Redeem one meal on a pass by its code (mess owner or admin). Each meal can
+ * be redeemed once per day while the pass is valid.
+ */
+export async function redeemMessPass(
+  code: string,
+  actor: { userId: string; role?: string },
+  meal: string,
+  now = new Date(),
+): Promise<PassResult> {
+  const pass: IMessPass | null = await MessPass.findOne({ code: code.trim().toUpperCase() })
+  if (!pass) {
+    return { success: false, error: "No pass with this code", status: 404 }
+  }
+  if (pass.owner.toString() !== actor.userId && actor.role !== "admin") {
+    return { success: false, error: "This pass is for a different mess", status: 403 }
+  }
+  if (pass.status !== "active") {
+    return { success: false, error: pass.status === "pending" ? "This pass hasn't been paid for" : `This pass is ${pass.status}`, status: 400 }
+  }
+
+  const day = parseDayKey(toDayKey(now))
+  if (!day || day < pass.startDate || day >= pass.endDate) {
+    return {
+      success: false,
+      error: `This pass is valid ${format(pass.startDate, "d MMM")} to ${format(addDays(pass.endDate, -1), "d MMM")}`,
+      status: 400,
+    }
+  }
+
+  meal = meal.trim().toLowerCase()
+  const mess = await Mess.findById(pass.mess).select("mealTypes").lean<Pick<IMess, "mealTypes">>()
+  if (!mess || !getMessMeals(mess).includes(meal)) {
+    return { success: false, error: "This mess doesn't serve that meal", status: 400 }
+  }
+
+  const redeemed: IMessPass | null = await MessPass.findOneAndUpdate(
+    { _id: pass._id, status: "active", redemptions: { $not: { $elemMatch: { date: day, meal } } } },
+    {
+      $push: { redemptions: { date: day, meal, redeemedAt: now, redeemedBy: actor.userId } },
+      $set: { updatedAt: now },
+    },
+    { new: true },
+  )
+  if (!redeemed) {
+    return { success: false, error: `This pass was already used for ${meal} today`, status: 409 }
+  }
+
+  return { success: true, pass: redeemed }
+}
+
+/**
+ * Expire passes whose validity has ended (scheduled job), paid or not
+ */
+export async function expireMessPasses(now = new Date()) {
+  const result = await MessPass.updateMany(
+    { status: { $in: ["active", "pending"] }, endDate: { $lte: now } },
+    { $set: { status: "expired", updatedAt: now } },
+  )
+  return { expired: result.modifiedCount }
+}
@@ -0,0 +1,391 @@
+import mongoose from "mongoose"
+import { addDays, addMonths, format, startOfDay } from "date-fns"
+import { Mess } from "@/models/mess"
+import { MessSubscription, type IMessSubscription } from "@/models/mess-subscription"
+import { createNotification } from "@/lib/notification-helper"
+import { emailTaxInvoice, issueMessSubscriptionInvoice } from "@/lib/tax-invoices"
+import { getAvailableMealCredit, refundSkippedMeals } from "@/lib/meal-attendance"
+
+/**
+ * Mess subscriptions: acceptance, payment, activation, expiry and renewal
+ *
+ * A subscription starts `pending`. The mess owner accepts or rejects it;
+ * once accepted the subscriber pays through lib/payments.ts like bookings do,
+ * and recordMessSubscriptionPayment() stamps the payment exactly once. A
+ * subscription that is both accepted and paid becomes `active` (and gets its
+ * tax invoice), then `expired` at `endDate`. Renewing creates the next period
+ * as a new, already-accepted subscription linked through `renewalOf`, with
+ * any meal-skip credit (lib/meal-attendance.ts) taken off its price.
+ */
+
+// How long before `endDate` subscribers are reminded to renew
+export const MESS_RENEWAL_REMINDER_DAYS = Number(process.env.MESS_RENEWAL_REMINDER_DAYS) || 3
+
+type SubscriptionFailure = { success: false; error: string; status: number }
+
+export type SubscriptionResult = { success: true; subscription: IMessSubscription } | SubscriptionFailure
+
+/**
+ * What the subscriber still has to pay for a subscription after meal credit
+ */
+export function getMessSubscriptionAmountDue(subscription: IMessSubscription) {
+  return Math.max(0, subscription.monthlyPrice - (subscription.creditApplied ?? 0))
+}
+
+function formatDay(date: Date) {
+  return format(date, "d MMM yyyy")
+}
+
+async function getMessName(subscription: IMessSubscription) {
+  const mess = await Mess.findById(subscription.mess).select("name").lean<{ name?: string }>()
+  return mess?.name || "the mess"
+}
+
+/**
+ * Load a subscription its subscriber can pay for
+ */
+export async function getPayableMessSubscription(
+  subscriptionId: string,
+  userId: string
+): Promise<{ subscription: IMessSubscription } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(subscriptionId)) {
+    return { error: "Invalid subscription ID", status: 400 }
+  }
+
+  const subscription: IMessSubscription | null = await MessSubscription.findById(subscriptionId)
+  if (!subscription) {
+    return { error: "Subscription not found", status: 404 }
+  }
+  if (subscription.user.toString() !== userId) {
+    return { error: "You don't have permission to pay for this subscription", status: 403 }
+  }
+  if (subscription.paidAt) {
+    return { error: "This subscription is already paid", status: 400 }
+  }
+  if (subscription.status === "cancelled" || subscription.status === "expired") {
+    return { error: `This subscription is ${subscription.status}`, status: 400 }
+  }
+  if (!subscription.acceptedAt) {
+    return { error: "The mess owner hasn't accepted this subscription yet", status: 400 }
+  }
+
+  return { subscription }
+}
+
+/**
+ * Activate a pending subscription that is both accepted and paid, then issue
+ * and email its invoice. Calling it again once active is a no-op.
+ */
+async function activateMessSubscription(subscriptionId: unknown): Promise<IMessSubscription | null> {
+  const now = new Date()
+  const activated: IMessSubscription | null = await MessSubscription.findOneAndUpdate(
+    {
+      _id: subscriptionId,
+      status: "pending",
+      acceptedAt: { $exists: true },
+      paidAt: { $exists: true },
+    },
+    { $set: { status: "active", activatedAt: now, updatedAt: now } },
+    { new: true }
+  )
+  if (!activated) return null
+
+  const messName = await getMessName(activated)
+  await createNotification({
+    userId: activated.user.toString(),
+    type: "booking",
+    title: "Mess subscription active",
+    message: `Your subscription to ${messName} is active from ${formatDay(activated.startDate)} to ${formatDay(activated.endDate)}.`,
+    link: "/profile?tab=bookings",
+    priority: "high",
+    metadata: { subscriptionId: String(activated._id), messId: String(activated.mess) },
+  })
+
+  try {
+    await emailTaxInvoice(await issueMessSubscriptionInvoice(activated))
+  } catch (invoiceError) {
+    // The subscription is active; the invoice can still be downloaded later
+    console.error("Error issuing mess subscription invoice:", invoiceError)
+  }
+
+  return activated
+}
+
+/**
+ * Record a captured subscription payment and activate the subscription if
+ * the owner has accepted it. Replays of the same payment are no-ops.
+ */
+export async function recordMessSubscriptionPayment(
+  subscriptionId: string,
+  payment: { payment: mongoose.Types.ObjectId; reference: string; paidAt?: Date }
+): Promise<SubscriptionResult> {
+  const now = new Date()
+  const updated: IMessSubscription | null = await MessSubscription.findOneAndUpdate(
+    { _id: subscriptionId, paidAt: { $exists: false } },
+    {
+      $set: {
+        payment: payment.payment,
+        paymentReference: payment.reference,
+        paidAt: payment.paidAt ?? now,
+        updatedAt: now,
+      },
+    },
+    { new: true }
+  )
+
+  if (!updated) {
+    const existing: IMessSubscription | null = await MessSubscription.findById(subscriptionId)
+    if (!existing) {
+      return { success: false, error: "Subscription not found", status: 404 }
+    }
+    if (existing.paymentReference !== payment.reference) {
+      console.error("Second payment captured for a paid mess subscription:", {
+        subscriptionId,
+        paidWith: existing.paymentReference,
+        reported: payment.reference,
+      })
+    }
+    // A previous delivery may have stopped between recording and activating
+    const activated = await activateMessSubscription(existing._id)
+    return { success: true, subscription: activated ?? existing }
+  }
+
+  await createNotification({
+    userId: updated.owner.toString(),
+    type: "payment",
+    title: "Mess subscription paid",
+    message: `${updated.subscriberName || "A subscriber"} paid ₹${getMessSubscriptionAmountDue(updated)} for their mess subscription.`,
+    link: "/profile?tab=mess-subscribers",
+    priority: "high",
+    metadata: { subscriptionId: String(updated._id), reference: payment.reference },
+  })
+
+  const activated = await activateMessSubscription(updated._id)
+  return { success: true, subscription: activated ?? updated }
+}
+
+/**
+ * Owner accepts a pending subscription request. The subscriber is asked to
+ * pay, or the subscription activates straight away if it is already paid.
+ */
+export async function acceptMessSubscription(subscription: IMessSubscription): Promise<SubscriptionResult> {
+  const now = new Date()
+  const accepted: IMessSubscription | null = await MessSubscription.findOneAndUpdate(
+    { _id: subscription._id, status: "pending", acceptedAt: { $exists: false } },
+    { $set: { acceptedAt: now, updatedAt: now } },
+    { new: true }
+  )
+  if (!accepted) {
+    return { success: false, error: "This subscription is no longer awaiting a decision", status: 409 }
+  }
+
+  const activated = await activateMessSubscription(accepted._id)
+  if (!activated) {
+    const messName = await getMessName(accepted)
+    await createNotification({
+      userId: accepted.user.toString(),
+      type: "booking",
+      title: "Mess subscription accepted",
+      message: `${messName} accepted your subscription starting ${formatDay(accepted.startDate)}. Pay ₹${getMessSubscriptionAmountDue(accepted)} to activate it.`,
+      link: "/profile?tab=bookings",
+      priority: "high",
+      metadata: { subscriptionId: String(accepted._id), messId: String(accepted.mess) },
+    })
+  }
+
+  return { success: true, subscription: activated ?? accepted }
+}
+
+/**
+ * Owner rejects a pending subscription request. Paid subscriptions can't be
+ * rejected here since the subscriber would need a refund.
+ */
+export async function rejectMessSubscription(
+  subscription: IMessSubscription,
+  reason?: string
+): Promise<SubscriptionResult> {
+  const now = new Date()
+  const rejected: IMessSubscription | null = await MessSubscription.findOneAndUpdate(
+    { _id: subscription._id, status: "pending", paidAt: { $exists: false } },
+    {
+      $set: {
+        status: "cancelled",
+        rejectedAt: now,
+        rejectionReason: reason?.trim() || undefined,
+        updatedAt: now,
+      },
+    },
+    { new: true }
+  )
+  if (!rejected) {
+    if (subscription.paidAt) {
+      return { success: false, error: "This subscription is already paid. Contact support to cancel it.", status: 409 }
+    }
+    return { success: false, error: "This subscription is no longer awaiting a decision", status: 409 }
+  }
+
+  const messName = await getMessName(rejected)
+  await createNotification({
+    userId: rejected.user.toString(),
+    type: "booking",
+    title: "Mess subscription declined",
+    message: `${messName} couldn't take your subscription starting ${formatDay(rejected.startDate)}.${
+      rejected.rejectionReason ? ` Reason: ${rejected.rejectionReason}` : ""
+    }`,
+    link: `/messes/${String(rejected.mess)}`,
+    priority: "high",
+    metadata: { subscriptionId: String(rejected._id), messId: String(rejected.mess) },
+  })
+
+  return { success: true, subscription: rejected }
+}
+
+/**
+ * Create the next period of a subscription for its subscriber. The owner has
+ * already accepted this subscriber, so the renewal only needs paying.
+ * Renewing twice returns the renewal already created.
+ */
+export async function renewMessSubscription(
+  subscription: IMessSubscription,
+  now = new Date()
+): Promise<SubscriptionResult & { created?: boolean }> {
+  if (subscription.status !== "active" && subscription.status !== "expired") {
+    return { success: false, error: "Only active or expired subscriptions can be renewed", status: 400 }
+  }
+
+  const existing: IMessSubscription | null = await MessSubscription.findOne({
+    renewalOf: subscription._id,
+    status: { $ne: "cancelled" },
+  })
+  if (existing) {
+    return { success: true, subscription: existing, created: false }
+  }
+
+  const mess = await Mess.findById(subscription.mess).select("name monthlyPrice isApproved isRejected")
+  if (!mess || !mess.isApproved || mess.isRejected) {
+    return { success: false, error: "Mess is not available for subscription", status: 400 }
+  }
+  const monthlyPrice = Number(mess.monthlyPrice)
+  if (!Number.isFinite(monthlyPrice) || monthlyPrice <= 0) {
+    return { success: false, error: "Monthly subscription is not available for this mess", status: 400 }
+  }
+
+  // Continue where the current period ends, or from today once it has lapsed
+  const today = new Date(`${now.toISOString().slice(0, 10)}T00:00:00.000Z`)
+  const startDate = subscription.endDate > today ? subscription.endDate : today
+  const endDate = addMonths(startDate, 1)
+
+  const creditApplied = Math.min(await getAvailableMealCredit(subscription.user, subscription.mess), monthlyPrice)
+  // Credit covering the whole month pays for it
+  const paidByCredit = creditApplied >= monthlyPrice
+
+  const renewal: IMessSubscription = await MessSubscription.create({
+    user: subscription.user,
+    mess: subscription.mess,
+    owner: subscription.owner,
+    subscriberName: subscription.subscriberName,
+    subscriberEmail: subscription.subscriberEmail,
+    subscriberPhone: subscription.subscriberPhone,
+    startDate,
+    endDate,
+    monthlyPrice,
+    status: "pending",
+    acceptedAt: now,
+    renewalOf: subscription._id,
+    creditApplied: creditApplied > 0 ? creditApplied : undefined,
+    ...(paidByCredit ? { paymentReference: "meal-credit", paidAt: now } : {}),
+    createdAt: now,
+  })
+
+  await createNotification({
+    userId: subscription.owner.toString(),
+    type: "booking",
+    title: "Mess subscription renewed",
+    message: `${subscription.subscriberName || "A subscriber"} renewed their ${mess.name} subscription from ${formatDay(startDate)}.${
+      paidByCredit ? " It was paid with meal credit." : " It activates once paid."
+    }`,
+    link: "/profile?tab=mess-subscribers",
+    priority: "medium",
+    metadata: { subscriptionId: String(renewal._id), renewalOf: String(subscription._id) },
+  })
+
+  const activated = paidByCredit ? await activateMessSubscription(renewal._id) : null
+  return { success: true, subscription: activated ?? renewal, created: true }
+}
+
+/**
+ * Expire subscriptions whose period has ended (scheduled job). Pending ones
+ * that were never activated lapse the same way.
+ */
+export async function expireMessSubscriptions(now = new Date()) {
+  const due: IMessSubscription[] = await MessSubscription.find({
+    status: { $in: ["active", "pending"] },
+    endDate: { $lte: now },
+  }).limit(200)
+
+  let expired = 0
+  for (const subscription of due) {
+    const updated: IMessSubscription | null = await MessSubscription.findOneAndUpdate(
+      { _id: subscription._id, status: subscription.status },
+      { $set: { status: "expired", expiredAt: now, updatedAt: now } },
+      { new: true }
+    )
+    if (!updated) continue
+    expired++
+
+    if (subscription.status === "active") {
+      await refundSkippedMeals(updated)
+
+      const messName = await getMessName(updated)
+      await createNotification({
+        userId: updated.user.toString(),
+        type: "booking",
+        title: "Mess subscription ended",
+        message: `Your subscription to ${messName} ended on ${formatDay(updated.endDate)}. Renew it in one click from your bookings.`,
+        link: "/profile?tab=bookings",
+        priority: "medium",
+        metadata: { subscriptionId: String(updated._id), messId: String(updated.mess) },
+      })
+    }
+  }
+
+  return { expired }
+}
+
+/**
+ * Remind subscribers whose active subscription ends soon and hasn't been
+ * renewed yet (scheduled job). Each subscription is reminded once.
+ */
+export async function sendMessRenewalReminders(now = new Date()) {
+  const ending: IMessSubscription[] = await MessSubscription.find({
+    status: "active",
+    endDate: { $gt: now, $lte: addDays(startOfDay(now), MESS_RENEWAL_REMINDER_DAYS + 1) },
+    renewalReminderSentAt: { $exists: false },
+  }).limit(200)
+
+  let reminded = 0
+  for (const subscription of ending) {
+    const renewed = await MessSubscription.exists({ renewalOf: subscription._id, status: { $ne: "cancelled" } })
+    if (renewed) continue
+
+    const claimed = await MessSubscription.updateOne(
+      { _id: subscription._id, renewalReminderSentAt: { $exists: false } },
+      { $set: { renewalReminderSentAt: now } }
+    )
+    if (claimed.modifiedCount === 0) continue
+
+    const messName = await getMessName(subscription)
+    await createNotification({
+      userId: subscription.user.toString(),
+      type: "booking",
+      title: "Renew your mess subscription",
+      message: `Your subscription to ${messName} ends on ${formatDay(subscription.endDate)}. Renew now to keep your meals coming.`,
+      link: "/profile?tab=bookings",
+      priority: "medium",
+      metadata: { subscriptionId: String(subscription._id), messId: String(subscription.mess) },
+    })
+    reminded++
+  }
+
+  return { reminded }
+}
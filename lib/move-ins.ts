@@ -0,0 +1,678 @@
+import { createHash } from "crypto"
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import {
+  MoveIn,
+  type IAgreementSignature,
+  type IMoveIn,
+  type IMoveInFile,
+  type MoveInChecklistKey,
+} from "@/models/move-in"
+import { Property } from "@/models/property"
+import { getUserModel } from "@/models/user"
+import { createNotification } from "@/lib/notification-helper"
+import type { TransitionActor } from "@/lib/booking-state-machine"
+import { createPdf, PAGE_HEIGHT, PAGE_WIDTH, wrapText } from "@/lib/pdf"
+import { refId } from "@/lib/utils"
+
+/**
+ * Move-in onboarding for confirmed bookings
+ *
+ * When a booking is confirmed a MoveIn is opened with a rental agreement
+ * generated from the property's template (or DEFAULT_AGREEMENT_TEMPLATE),
+ * filled in from the property and booking. Tenant and owner each sign by
+ * typing their name; the signature records when, from which IP, and the hash
+ * of the exact text signed. Until the first signature the agreement follows
+ * edits to the property and template; after that it is frozen.
+ *
+ * Alongside the agreement the tenant works through a checklist (ID, police
+ * verification form, room condition photos) that the owner approves or sends
+ * back. The move-in is complete once the agreement is signed by both sides and
+ * every checklist item is approved; cancelling the booking cancels it.
+ */
+
+type MoveInFailure = { success: false; error: string; status: number }
+
+export type MoveInResult = { success: true; moveIn: IMoveIn } | MoveInFailure
+
+export const MOVE_IN_CHECKLIST: Array<{ key: MoveInChecklistKey; label: string; maxFiles: number }> = [
+  { key: "id_document", label: "Government ID", maxFiles: 4 },
+  { key: "police_verification", label: "Police verification form", maxFiles: 4 },
+  { key: "room_photos", label: "Room condition photos", maxFiles: 20 },
+]
+
+export const MAX_AGREEMENT_TEMPLATE_LENGTH = 20000
+
+export const AGREEMENT_PLACEHOLDERS = [
+  "agreementDate",
+  "ownerName",
+  "tenantName",
+  "propertyTitle",
+  "propertyAddress",
+  "roomType",
+  "checkInDate",
+  "checkOutDate",
+  "monthlyRent",
+  "deposit",
+  "feeStructure",
+  "rules",
+] as const
+
+type AgreementPlaceholder = (typeof AGREEMENT_PLACEHOLDERS)[number]
+
+// Clauses are separated by blank lines
+export const DEFAULT_AGREEMENT_TEMPLATE = `This rental agreement is made on {{agreementDate}} between {{ownerName}} ("Owner") and {{tenantName}} ("Tenant") for a {{roomType}} room at {{propertyTitle}}, {{propertyAddress}} ("Premises").
+
+1. Term. The tenancy starts on {{checkInDate}} and runs until {{checkOutDate}}. Either party may end it earlier with 30 days' written notice.
+
+2. Rent. The monthly rent is {{monthlyRent}}, payable in advance by the 5th of each month through SecondHome or as the Owner directs in writing.
+
+3. Other charges. {{feeStructure}}
+
+4. Security deposit. The Tenant pays a refundable security deposit of {{deposit}}. It is returned after move-out, less deductions for damage beyond normal wear and tear or unpaid dues, as recorded in the move-out inspection on SecondHome.
+
+5. House rules. The Tenant agrees to follow the house rules of the Premises:
+{{rules}}
+
+6. Use of the Premises. The Premises are for the Tenant's own residential use. The Tenant will not sublet, make structural changes, or carry on any unlawful activity there.
+
+7. Maintenance. The Owner keeps the Premises and its fittings in working order. The Tenant keeps the room clean and reports damage promptly, and pays for damage they cause.
+
+8. Verification. Before moving in the Tenant provides a government-issued ID and completes police verification as local law requires.
+
+9. Electronic signature. Both parties agree to sign this agreement electronically. The typed name, time and IP address recorded by SecondHome for each party form their signature.`
+
+const IST_TIME_ZONE = "Asia/Kolkata"
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-IN", { timeZone: IST_TIME_ZONE, day: "numeric", month: "long", year: "numeric" })
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-IN", { timeZone: IST_TIME_ZONE, dateStyle: "medium", timeStyle: "short" }) + " IST"
+
+// The PDF fonts have no rupee sign
+const formatRupees = (amount: number) => `Rs. ${amount.toLocaleString("en-IN")}`
+
+/**
+ * Validate an owner's agreement template: plain text with known {{placeholders}}
+ */
+export function parseAgreementTemplate(input: unknown): { template: string } | { error: string } {
+  if (typeof input !== "string" || !input.trim()) {
+    return { error: "Template text is required" }
+  }
+  const template = input.replace(/\r\n/g, "\n").trim()
+  if (template.length > MAX_AGREEMENT_TEMPLATE_LENGTH) {
+    return { error: `Templates can be at most ${MAX_AGREEMENT_TEMPLATE_LENGTH} characters` }
+  }
+  const unknown = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+    .map((match) => match[1])
+    .filter((name) => !AGREEMENT_PLACEHOLDERS.includes(name as AgreementPlaceholder))
+  if (unknown.length > 0) {
+    return { error: `Unknown placeholder ${unknown.map((name) => `{{${name}}}`).join(", ")}` }
+  }
+  return { template }
+}
+
+interface AgreementParty {
+  _id: mongoose.Types.ObjectId
+  name?: string
+  email?: string
+  phone?: string
+  address?: string
+  city?: string
+  state?: string
+  pincode?: string
+}
+
+interface AgreementProperty {
+  _id: mongoose.Types.ObjectId
+  title: string
+  address?: string
+  location?: string
+  rules?: string[]
+  deposit?: number
+  feeStructure?: string
+  agreementTemplate?: string
+  owner: mongoose.Types.ObjectId
+}
+
+async function loadAgreementParties(booking: IBooking) {
+  const User = await getUserModel()
+  const property = await Property.findById(booking.property)
+    .select("title address location rules deposit feeStructure agreementTemplate owner")
+    .lean<AgreementProperty>()
+  if (!property) return null
+
+  const fields = "name email phone address city state pincode"
+  const [tenant, owner] = await Promise.all([
+    User.findById(booking.user).select(fields).lean<AgreementParty>(),
+    User.findById(property.owner).select(fields).lean<AgreementParty>(),
+  ])
+  if (!tenant || !owner) return null
+
+  return { property, tenant, owner }
+}
+
+/**
+ * Fill a template in from the property and booking
+ */
+export function renderAgreement(
+  template: string,
+  booking: Pick<IBooking, "roomType" | "checkInDate" | "checkOutDate" | "firstMonthRent" | "price" | "deposit">,
+  parties: { property: AgreementProperty; tenant: AgreementParty; owner: AgreementParty },
+  now = new Date(),
+) {
+  const { property, tenant, owner } = parties
+  const rules = (property.rules || []).map((rule) => rule.trim()).filter(Boolean)
+  const deposit = booking.deposit?.amount ?? property.deposit ?? 0
+
+  const values: Record<AgreementPlaceholder, string> = {
+    agreementDate: formatDate(now),
+    ownerName: owner.name || "the Owner",
+    tenantName: tenant.name || "the Tenant",
+    propertyTitle: property.title,
+    propertyAddress: [property.address, property.location].filter(Boolean).join(", ") || "the listed address",
+    roomType: booking.roomType || "Standard",
+    checkInDate: formatDate(booking.checkInDate),
+    checkOutDate: booking.checkOutDate ? formatDate(booking.checkOutDate) : "either party ends it",
+    monthlyRent: formatRupees(booking.firstMonthRent || booking.price || 0),
+    deposit: deposit > 0 ? formatRupees(deposit) : "nil",
+    feeStructure: property.feeStructure?.trim() || "There are no charges beyond the rent and security deposit.",
+    rules: rules.length > 0 ? rules.map((rule, index) => `(${index + 1}) ${rule}`).join("\n") : "(none listed)",
+  }
+
+  const filled = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in values ? values[name as AgreementPlaceholder] : match,
+  )
+
+  return {
+    title: `Rental Agreement - ${property.title}`,
+    clauses: filled
+      .split(/\n\s*\n/)
+      .map((clause) => clause.trim())
+      .filter(Boolean),
+  }
+}
+
+function hashAgreement(agreement: { title: string; clauses: string[] }) {
+  return createHash("sha256").update(JSON.stringify([agreement.title, agreement.clauses])).digest("hex")
+}
+
+async function notify(
+  moveIn: IMoveIn,
+  to: "tenant" | "owner",
+  title: string,
+  message: string,
+  priority: "low" | "medium" | "high" = "medium",
+) {
+  await createNotification({
+    userId: refId(to === "tenant" ? moveIn.tenant : moveIn.owner),
+    type: "booking",
+    title,
+    message,
+    link: to === "tenant" ? "/profile?tab=bookings" : "/profile?tab=move-ins",
+    priority,
+    metadata: { moveInId: String(moveIn._id), bookingId: refId(moveIn.booking) },
+  })
+}
+
+/**
+ * Open the move-in for a confirmed booking, once
+ */
+export async function startMoveIn(booking: IBooking, now = new Date()): Promise<IMoveIn | null> {
+  if (booking.status !== "confirmed") return null
+
+  const existing: IMoveIn | null = await MoveIn.findOne({ booking: booking._id })
+  if (existing) return existing
+
+  const parties = await loadAgreementParties(booking)
+  if (!parties) return null
+
+  const agreement = renderAgreement(parties.property.agreementTemplate || DEFAULT_AGREEMENT_TEMPLATE, booking, parties, now)
+
+  let moveIn: IMoveIn
+  try {
+    moveIn = await MoveIn.create({
+      booking: booking._id,
+      property: parties.property._id,
+      tenant: booking.user,
+      owner: parties.property.owner,
+      agreement: { ...agreement, contentHash: hashAgreement(agreement), generatedAt: now },
+      checklist: MOVE_IN_CHECKLIST.map((item) => ({ key: item.key, status: "pending", files: [] })),
+      createdAt: now,
+    })
+  } catch (error) {
+    // Another request opened it first
+    if ((error as { code?: number }).code === 11000) return MoveIn.findOne({ booking: booking._id })
+    throw error
+  }
+
+  await notify(
+    moveIn,
+    "tenant",
+    "Get ready to move in",
+    `Sign your rental agreement for ${parties.property.title} and finish the move-in checklist.`,
+    "high",
+  )
+  await notify(moveIn, "owner", "Rental agreement ready", `Review and sign the rental agreement for ${parties.property.title}.`)
+
+  return moveIn
+}
+
+/**
+ * Close the move-in of a cancelled booking
+ */
+export async function cancelMoveIn(bookingId: mongoose.Types.ObjectId, now = new Date()) {
+  await MoveIn.updateOne({ booking: bookingId, status: "in_progress" }, { $set: { status: "cancelled", updatedAt: now } })
+}
+
+// Before anyone has signed, keep the agreement in step with the property and template
+async function refreshUnsignedAgreement(moveIn: IMoveIn, booking: IBooking, now: Date) {
+  const { agreement } = moveIn
+  if (agreement.tenantSignature || agreement.ownerSignature || moveIn.status !== "in_progress") return moveIn
+
+  const parties = await loadAgreementParties(booking)
+  if (!parties) return moveIn
+
+  const next = renderAgreement(parties.property.agreementTemplate || DEFAULT_AGREEMENT_TEMPLATE, booking, parties, agreement.generatedAt)
+  const contentHash = hashAgreement(next)
+  if (contentHash === agreement.contentHash) return moveIn
+
+  const updated: IMoveIn | null = await MoveIn.findOneAndUpdate(
+    {
+      _id: moveIn._id,
+      "agreement.contentHash": agreement.contentHash,
+      "agreement.tenantSignature": { $exists: false },
+      "agreement.ownerSignature": { $exists: false },
+    },
+    { $set: { "agreement.title": next.title, "agreement.clauses": next.clauses, "agreement.contentHash": contentHash, updatedAt: now } },
+    { new: true },
+  )
+  return updated ?? moveIn
+}
+
+/**
+ * Load a booking's move-in for the tenant, property owner or an admin,
+ * opening it if the booking was confirmed before move-ins existed
+ */
+export async function getMoveInForUser(
+  bookingId: string,
+  sessionUser: { id: string; role?: string },
+  now = new Date(),
+): Promise<{ success: true; moveIn: IMoveIn; booking: IBooking; actor: TransitionActor } | MoveInFailure> {
+  if (!mongoose.Types.ObjectId.isValid(bookingId)) {
+    return { success: false, error: "Invalid booking ID", status: 400 }
+  }
+
+  const booking: IBooking | null = await Booking.findById(bookingId)
+  if (!booking) {
+    return { success: false, error: "Booking not found", status: 404 }
+  }
+
+  // As getBookingActor() in lib/booking-state-machine.ts, which imports this module
+  const property = await Property.findById(booking.property).select("owner").lean<{ owner?: unknown }>()
+  let actor: TransitionActor | null = null
+  if (sessionUser.role === "admin") actor = { role: "admin", userId: sessionUser.id }
+  else if (property?.owner && refId(property.owner) === sessionUser.id) actor = { role: "owner", userId: sessionUser.id }
+  else if (refId(booking.user) === sessionUser.id) actor = { role: "tenant", userId: sessionUser.id }
+  if (!actor) {
+    return { success: false, error: "You don't have access to this booking", status: 403 }
+  }
+
+  let moveIn: IMoveIn | null = await MoveIn.findOne({ booking: booking._id })
+  if (!moveIn) moveIn = await startMoveIn(booking, now)
+  if (!moveIn) {
+    return { success: false, error: "Move-in opens once the booking is confirmed", status: 400 }
+  }
+
+  return { success: true, moveIn: await refreshUnsignedAgreement(moveIn, booking, now), booking, actor }
+}
+
+// Complete the move-in once the agreement is signed and every checklist item approved
+async function completeIfDone(moveIn: IMoveIn, now: Date): Promise<IMoveIn> {
+  const done =
+    moveIn.status === "in_progress" &&
+    !!moveIn.agreement.signedAt &&
+    moveIn.checklist.every((item) => item.status === "approved")
+  if (!done) return moveIn
+
+  const completed: IMoveIn | null = await MoveIn.findOneAndUpdate(
+    { _id: moveIn._id, status: "in_progress" },
+    { $set: { status: "complete", completedAt: now, updatedAt: now } },
+    { new: true },
+  )
+  if (!completed) return moveIn
+
+  await notify(completed, "tenant", "You're all set to move in", "Your agreement is signed and your move-in checklist is approved.", "high")
+  await notify(completed, "owner", "Move-in paperwork complete", "The agreement is signed by both sides and the checklist is approved.")
+  return completed
+}
+
+/**
+ * Sign the agreement as the tenant or owner. `contentHash` must match the
+ * text the signer was shown, so nobody signs a version they haven't seen.
+ */
+export async function signAgreement(
+  moveIn: IMoveIn,
+  actor: TransitionActor,
+  input: { name?: unknown; contentHash?: unknown; ip?: string; userAgent?: string },
+  now = new Date(),
+): Promise<MoveInResult> {
+  if (actor.role !== "tenant" && actor.role !== "owner") {
+    return { success: false, error: "Only the tenant and the owner can sign the agreement", status: 403 }
+  }
+  if (moveIn.status === "cancelled") {
+    return { success: false, error: "This booking was cancelled", status: 400 }
+  }
+
+  const name = typeof input.name === "string" ? input.name.trim().replace(/\s+/g, " ") : ""
+  if (name.length < 2 || name.length > 100) {
+    return { success: false, error: "Type your full name to sign", status: 400 }
+  }
+  if (input.contentHash !== moveIn.agreement.contentHash) {
+    return { success: false, error: "The agreement has changed since you opened it. Please review it again.", status: 409 }
+  }
+
+  const field = actor.role === "tenant" ? "tenantSignature" : "ownerSignature"
+  if (moveIn.agreement[field]) {
+    return { success: false, error: "You've already signed this agreement", status: 400 }
+  }
+
+  const signature: IAgreementSignature = {
+    user: new mongoose.Types.ObjectId(actor.userId),
+    name,
+    signedAt: now,
+    ip: input.ip?.slice(0, 64),
+    userAgent: input.userAgent?.slice(0, 300),
+  }
+  let updated: IMoveIn | null = await MoveIn.findOneAndUpdate(
+    { _id: moveIn._id, "agreement.contentHash": moveIn.agreement.contentHash, [`agreement.${field}`]: { $exists: false } },
+    { $set: { [`agreement.${field}`]: signature, updatedAt: now } },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "The agreement was updated by someone else, please retry", status: 409 }
+  }
+
+  if (updated.agreement.tenantSignature && updated.agreement.ownerSignature) {
+    updated =
+      (await MoveIn.findOneAndUpdate(
+        { _id: updated._id, "agreement.signedAt": { $exists: false } },
+        { $set: { "agreement.signedAt": now } },
+        { new: true },
+      )) ?? updated
+    await notify(updated, "tenant", "Rental agreement signed", "Both sides have signed. You can download the signed agreement.")
+    await notify(updated, "owner", "Rental agreement signed", "Both sides have signed. You can download the signed agreement.")
+    return { success: true, moveIn: await completeIfDone(updated, now) }
+  }
+
+  await notify(
+    updated,
+    actor.role === "tenant" ? "owner" : "tenant",
+    "Your signature is needed",
+    `${name} has signed the rental agreement. Add your signature to finish it.`,
+    "high",
+  )
+  return { success: true, moveIn: updated }
+}
+
+function parseFiles(input: unknown, maxFiles: number): { files: IMoveInFile[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: "Upload at least one file" }
+  }
+  if (input.length > maxFiles) {
+    return { error: `Upload at most ${maxFiles} files` }
+  }
+
+  const now = new Date()
+  const files: IMoveInFile[] = []
+  for (const entry of input) {
+    const url = typeof entry?.url === "string" ? entry.url.trim() : ""
+    if (!/^https:\/\/\S+$/.test(url)) {
+      return { error: "Each file needs an https URL" }
+    }
+    const name = typeof entry?.name === "string" ? entry.name.trim().slice(0, 200) || undefined : undefined
+    files.push({ url, name, uploadedAt: now })
+  }
+  return { files }
+}
+
+/**
+ * Submit (or resubmit) a checklist item's files as the tenant
+ */
+export async function submitChecklistItem(
+  moveIn: IMoveIn,
+  actor: TransitionActor,
+  key: unknown,
+  filesInput: unknown,
+  now = new Date(),
+): Promise<MoveInResult> {
+  if (actor.role !== "tenant") {
+    return { success: false, error: "Only the tenant can submit move-in documents", status: 403 }
+  }
+  if (moveIn.status !== "in_progress") {
+    return { success: false, error: `This move-in is ${moveIn.status === "complete" ? "already complete" : "cancelled"}`, status: 400 }
+  }
+
+  const definition = MOVE_IN_CHECKLIST.find((item) => item.key === key)
+  const item = moveIn.checklist.find((entry) => entry.key === key)
+  if (!definition || !item) {
+    return { success: false, error: "Unknown checklist item", status: 400 }
+  }
+  if (item.status === "approved") {
+    return { success: false, error: `${definition.label} is already approved`, status: 400 }
+  }
+
+  const parsed = parseFiles(filesInput, definition.maxFiles)
+  if ("error" in parsed) {
+    return { success: false, error: parsed.error, status: 400 }
+  }
+
+  const updated: IMoveIn | null = await MoveIn.findOneAndUpdate(
+    { _id: moveIn._id, status: "in_progress", checklist: { $elemMatch: { key: definition.key, status: { $ne: "approved" } } } },
+    {
+      $set: {
+        "checklist.$.status": "submitted",
+        "checklist.$.files": parsed.files,
+        "checklist.$.submittedAt": now,
+        updatedAt: now,
+      },
+      $unset: { "checklist.$.reviewedAt": "", "checklist.$.reviewedBy": "", "checklist.$.reviewNote": "" },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "The checklist was updated by someone else, please retry", status: 409 }
+  }
+
+  await notify(updated, "owner", "Move-in document to review", `The tenant submitted their ${definition.label.toLowerCase()}.`)
+  return { success: true, moveIn: updated }
+}
+
+/**
+ * Approve a submitted checklist item, or send it back with a note (owner or admin)
+ */
+export async function reviewChecklistItem(
+  moveIn: IMoveIn,
+  actor: TransitionActor,
+  key: unknown,
+  decision: unknown,
+  note: unknown,
+  now = new Date(),
+): Promise<MoveInResult> {
+  if (actor.role !== "owner" && actor.role !== "admin") {
+    return { success: false, error: "Only the owner can review move-in documents", status: 403 }
+  }
+  if (decision !== "approved" && decision !== "rejected") {
+    return { success: false, error: "Decision must be approved or rejected", status: 400 }
+  }
+
+  const definition = MOVE_IN_CHECKLIST.find((item) => item.key === key)
+  const item = moveIn.checklist.find((entry) => entry.key === key)
+  if (!definition || !item) {
+    return { success: false, error: "Unknown checklist item", status: 400 }
+  }
+  if (item.status !== "submitted") {
+    return { success: false, error: `${definition.label} isn't waiting for review`, status: 400 }
+  }
+
+  const reviewNote = typeof note === "string" ? note.trim().slice(0, 500) : ""
+  if (decision === "rejected" && !reviewNote) {
+    return { success: false, error: "Tell the tenant what to fix", status: 400 }
+  }
+
+  const updated: IMoveIn | null = await MoveIn.findOneAndUpdate(
+    { _id: moveIn._id, status: "in_progress", checklist: { $elemMatch: { key: definition.key, status: "submitted" } } },
+    {
+      $set: {
+        "checklist.$.status": decision,
+        "checklist.$.reviewedAt": now,
+        "checklist.$.reviewedBy": new mongoose.Types.ObjectId(actor.userId),
+        ...(reviewNote ? { "checklist.$.reviewNote": reviewNote } : {}),
+        updatedAt: now,
+      },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "The checklist was updated by someone else, please retry", status: 409 }
+  }
+
+  if (decision === "rejected") {
+    await notify(
+      updated,
+      "tenant",
+      `${definition.label} needs another look`,
+      `The owner sent back your ${definition.label.toLowerCase()}: ${reviewNote}`,
+      "high",
+    )
+    return { success: true, moveIn: updated }
+  }
+  return { success: true, moveIn: await completeIfDone(updated, now) }
+}
+
+/**
+ * The agreement as an A4 PDF, with each side's signature record
+ */
+export function renderAgreementPdf(moveIn: IMoveIn): Buffer {
+  const pdf = createPdf()
+  const left = 50
+  const right = PAGE_WIDTH - 50
+  const width = right - left
+  const bottom = PAGE_HEIGHT - 60
+  let y = 60
+
+  const write = (text: string, options: { size?: number; bold?: boolean; gray?: number; gap?: number } = {}) => {
+    const size = options.size ?? 10
+    for (const line of wrapText(text, size, width, options.bold)) {
+      if (y > bottom) {
+        pdf.addPage()
+        y = 60
+      }
+      pdf.text(left, y, line, { size, bold: options.bold, gray: options.gray })
+      y += size + 4
+    }
+    y += options.gap ?? 6
+  }
+
+  const { agreement } = moveIn
+  if (!agreement.signedAt) {
+    write("DRAFT - not yet signed by both parties", { size: 9, bold: true, gray: 0.4 })
+  }
+  write(agreement.title, { size: 16, bold: true, gap: 10 })
+  for (const clause of agreement.clauses) write(clause)
+
+  y += 10
+  write("Signatures", { size: 12, bold: true })
+  const signatures: Array<[string, IAgreementSignature | undefined]> = [
+    ["Owner", agreement.ownerSignature],
+    ["Tenant", agreement.tenantSignature],
+  ]
+  for (const [role, signature] of signatures) {
+    if (!signature) {
+      write(`${role}: not signed yet`, { gray: 0.4 })
+      continue
+    }
+    write(`${role}: ${signature.name}`, { bold: true, gap: 0 })
+    write(
+      `Signed electronically on ${formatDateTime(signature.signedAt)}${signature.ip ? ` from IP ${signature.ip}` : ""}`,
+      { size: 9, gray: 0.3 },
+    )
+  }
+
+  y += 6
+  write(`Document fingerprint (SHA-256): ${agreement.contentHash}`, { size: 7.5, gray: 0.4, gap: 0 })
+  write(`Generated by SecondHome for booking ${refId(moveIn.booking)}`, { size: 7.5, gray: 0.4 })
+
+  return pdf.toBuffer()
+}
+
+/**
+ * A tenant verification form pre-filled with the tenant, owner and property
+ * details, for the tenant to complete, sign and submit to the local police
+ */
+export async function renderPoliceVerificationPdf(booking: IBooking): Promise<Buffer | null> {
+  const parties = await loadAgreementParties(booking)
+  if (!parties) return null
+  const { property, tenant, owner } = parties
+
+  const pdf = createPdf()
+  const left = 50
+  const right = PAGE_WIDTH - 50
+  const valueX = 230
+  let y = 60
+
+  pdf.text(left, y, "Tenant Verification Form", { size: 16, bold: true })
+  y += 16
+  pdf.text(left, y, "To be submitted to the police station with jurisdiction over the premises", { size: 9, gray: 0.4 })
+  y += 24
+
+  const section = (title: string, rows: Array<[string, string | undefined]>) => {
+    pdf.text(left, y, title, { size: 11, bold: true })
+    y += 6
+    pdf.line(left, y, right, y)
+    for (const [label, value] of rows) {
+      y += 20
+      pdf.text(left, y, label, { size: 9, gray: 0.3 })
+      if (value) {
+        pdf.text(valueX, y, value.substring(0, 70), { size: 10 })
+      } else {
+        pdf.line(valueX, y + 2, right, y + 2, 0.3)
+      }
+    }
+    y += 30
+  }
+
+  section("Owner / landlord", [
+    ["Name", owner.name],
+    ["Phone", owner.phone],
+    ["Email", owner.email],
+  ])
+  section("Premises let out", [
+    ["Property", property.title],
+    ["Address", [property.address, property.location].filter(Boolean).join(", ")],
+    ["Room", booking.roomType],
+    ["Tenancy from", formatDate(booking.checkInDate)],
+  ])
+  section("Tenant", [
+    ["Name", tenant.name],
+    ["Father's / mother's name", undefined],
+    ["Date of birth", undefined],
+    ["Phone", tenant.phone],
+    ["Email", tenant.email],
+    ["Permanent address", [tenant.address, tenant.city, tenant.state, tenant.pincode].filter(Boolean).join(", ") || undefined],
+    ["ID type and number", undefined],
+    ["Occupation / college", undefined],
+  ])
+
+  y += 10
+  pdf.text(left, y, "I declare that the information above is true to the best of my knowledge.", { size: 9 })
+  y += 50
+  pdf.line(left, y, left + 180, y, 0.3)
+  pdf.line(right - 180, y, right, y, 0.3)
+  y += 12
+  pdf.text(left, y, "Tenant signature and date", { size: 8, gray: 0.4 })
+  pdf.text(right, y, "Owner signature and date", { size: 8, gray: 0.4, align: "right" })
+
+  return pdf.toBuffer()
+}
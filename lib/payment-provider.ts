@@ -0,0 +1,92 @@
+/**
+ * Contract every payment gateway implements
+ *
+ * Providers only talk to their gateway and translate its responses into the
+ * shapes below. They never touch bookings or invoices: lib/payments.ts records
+ * each attempt in the Payment collection and applies captured payments to the
+ * booking or rent invoice they were for. Adding a gateway means writing one of
+ * these and registering it there.
+ */
+
+export type PaymentProviderId = "razorpay" | "paypal" | "upi"
+
+export type PaymentFlow = "order" | "payment_link" | "manual"
+
+/** What is being paid for, in INR */
+export interface PaymentRequest {
+  reference: string // our id for the thing being paid (booking or invoice id)
+  userId: string
+  amountInr: number
+  description: string
+  customer?: { name?: string | null; email?: string | null }
+  notes?: Record<string, string>
+  flow?: PaymentFlow
+}
+
+/** A checkout created at the gateway */
+export interface ProviderCheckout {
+  providerOrderId: string
+  flow: PaymentFlow
+  amount: number // in `currency` units
+  currency: string
+  exchangeRate?: number // INR per unit of `currency`
+  // Whatever the client needs to finish paying (checkout key, short URL, QR code...)
+  clientData: Record<string, unknown>
+}
+
+/** A payment as reported by the gateway */
+export interface ProviderPayment {
+  providerPaymentId: string
+  providerOrderId?: string
+  status: "captured" | "pending" | "failed"
+  amount: number // in `currency` units
+  currency: string
+  method?: string
+  paidAt?: Date
+  failureReason?: string
+}
+
+export interface ProviderRefund {
+  providerRefundId: string
+  status: "pending" | "processed" | "failed"
+}
+
+/** A refund as reported by a webhook */
+export interface ProviderRefundEvent extends ProviderRefund {
+  providerPaymentId: string
+  amount: number // in the payment's currency
+}
+
+export interface ProviderWebhookEvent {
+  eventId: string // stable across redeliveries of the same event
+  event: string
+  payment?: ProviderPayment
+  refund?: ProviderRefundEvent
+  notes?: Record<string, string>
+}
+
+export interface VerifyPaymentInput {
+  providerOrderId: string
+  providerPaymentId?: string
+  signature?: string
+  // Amount the payer reports, for providers with no gateway to ask
+  amount?: number
+}
+
+export interface PaymentProvider {
+  readonly id: PaymentProviderId
+  isConfigured(): boolean
+  /** Open a checkout at the gateway */
+  create(request: PaymentRequest): Promise<ProviderCheckout>
+  /**
+   * Look up payments made against a checkout. With a signature (client
+   * callback) it is checked first and only that payment is returned.
+   */
+  verify(input: VerifyPaymentInput): Promise<ProviderPayment[]>
+  /** Capture an approved payment, for gateways that need an explicit capture */
+  capture(providerOrderId: string): Promise<ProviderPayment>
+  /** Refund (part of) a captured payment. Amount is in the payment's currency. */
+  refund(providerPaymentId: string, amount: number, notes?: Record<string, string>): Promise<ProviderRefund>
+  /** Authenticate and parse a webhook delivery; throws on a bad signature */
+  parseWebhook(body: string, headers: Headers): Promise<ProviderWebhookEvent>
+}
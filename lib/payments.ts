@@ -0,0 +1,760 @@
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import { Payment, type IPayment } from "@/models/payment"
+import type { IRentInvoice, IRentPayment } from "@/models/rent-invoice"
+import type { IMessSubscription } from "@/models/mess-subscription"
+import type { IMessPass } from "@/models/mess-pass"
+import type { IProperty } from "@/models/property"
+import { WebhookEvent, type IWebhookEvent } from "@/models/webhook-event"
+import { markBookingPaid, type TransitionActor } from "@/lib/booking-state-machine"
+import { recordRentPayment } from "@/lib/rent-ledger"
+import { getMessSubscriptionAmountDue, recordMessSubscriptionPayment } from "@/lib/mess-subscriptions"
+import { recordMessPassPayment } from "@/lib/mess-passes"
+import { recordVerificationFee } from "@/lib/property-verification"
+import { recordDepositPayment } from "@/lib/deposits"
+import { refundLateBookingPayment } from "@/lib/booking-cancellation"
+import type {
+  PaymentFlow,
+  PaymentProvider,
+  PaymentProviderId,
+  ProviderCheckout,
+  ProviderPayment,
+  ProviderRefundEvent,
+  ProviderWebhookEvent,
+  VerifyPaymentInput,
+} from "@/lib/payment-provider"
+import { razorpayProvider } from "@/lib/razorpay"
+import { paypalProvider } from "@/lib/paypal"
+import { upiProvider } from "@/lib/upi"
+
+/**
+ * Payments: the one path from a gateway to booking/rent state
+ *
+ * Every attempt is a Payment document created by startPayment(). Whatever
+ * reports the outcome - client callback, status polling, webhook - ends up in
+ * settlePayment(), which captures the Payment at most once and then applies it
+ * to what it paid for: a booking (markBookingPaid), its deposit
+ * (recordDepositPayment), rent invoice (recordRentPayment), mess subscription
+ * (recordMessSubscriptionPayment), mess pass (recordMessPassPayment) or
+ * verification fee (recordVerificationFee). A booking that was cancelled
+ * before its payment arrived gets the payment back (refundLateBookingPayment).
+ * All of those are idempotent, so
+ * replays are harmless. Bookings and the rest never store gateway order ids;
+ * the Payment's providerOrderId is the one stable link to a checkout.
+ *
+ * Webhook deliveries are stored in WebhookEvent before they are processed, so
+ * redeliveries of a processed event are skipped and failed ones can be replayed.
+ */
+
+const PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  razorpay: razorpayProvider,
+  paypal: paypalProvider,
+  upi: upiProvider,
+}
+
+export function getPaymentProvider(id: PaymentProviderId) {
+  return PROVIDERS[id]
+}
+
+export type PaymentTarget =
+  | { purpose: "booking"; booking: IBooking }
+  | { purpose: "rent"; invoice: IRentInvoice; amountInr: number }
+  | { purpose: "mess_subscription"; subscription: IMessSubscription }
+  | { purpose: "mess_pass"; pass: IMessPass }
+  | { purpose: "verification_fee"; property: IProperty; amountInr: number }
+  | { purpose: "deposit"; booking: IBooking }
+
+type PaymentFailure = { success: false; error: string; status: number }
+
+export type SettlePaymentResult =
+  | {
+      success: true
+      payment: IPayment
+      captured: boolean
+      booking?: IBooking
+      invoice?: IRentInvoice
+      subscription?: IMessSubscription
+      pass?: IMessPass
+      property?: IProperty
+    }
+  | PaymentFailure
+
+function errorMessage(error: unknown, fallback: string) {
+  const gatewayError = error as { error?: { description?: string }; message?: string }
+  return gatewayError?.error?.description || gatewayError?.message || fallback
+}
+
+// What each kind of target looks like to a gateway, and which Payment fields point back at it
+function describeTarget(target: PaymentTarget): {
+  reference: string
+  amountInr: number
+  description: string
+  notes: Record<string, string>
+  links: Partial<Pick<IPayment, "booking" | "rentInvoice" | "messSubscription" | "messPass" | "property">>
+} {
+  switch (target.purpose) {
+    case "booking": {
+      const reference = target.booking._id.toString()
+      return {
+        reference,
+        amountInr: target.booking.totalAmount,
+        description: `Payment for booking ${reference}`,
+        notes: { bookingId: reference, propertyId: target.booking.property.toString() },
+        links: { booking: target.booking._id },
+      }
+    }
+    case "deposit": {
+      const reference = target.booking._id.toString()
+      return {
+        reference,
+        amountInr: target.booking.deposit?.amount ?? 0,
+        description: `Security deposit for booking ${reference}`,
+        notes: { bookingId: reference, deposit: "true" },
+        links: { booking: target.booking._id },
+      }
+    }
+    case "rent":
+      return {
+        reference: target.invoice._id.toString(),
+        amountInr: target.amountInr,
+        description: `Rent invoice ${target.invoice.invoiceNumber}`,
+        notes: { rentInvoiceId: target.invoice._id.toString(), bookingId: target.invoice.booking.toString() },
+        links: { booking: target.invoice.booking, rentInvoice: target.invoice._id },
+      }
+    case "mess_subscription": {
+      const reference = String(target.subscription._id)
+      return {
+        reference,
+        amountInr: getMessSubscriptionAmountDue(target.subscription),
+        description: `Mess subscription ${reference}`,
+        notes: { messSubscriptionId: reference, messId: target.subscription.mess.toString() },
+        links: { messSubscription: target.subscription._id },
+      }
+    }
+    case "mess_pass": {
+      const reference = String(target.pass._id)
+      return {
+        reference,
+        amountInr: target.pass.price,
+        description: `Mess ${target.pass.kind} pass ${reference}`,
+        notes: { messPassId: reference, messId: target.pass.mess.toString() },
+        links: { messPass: target.pass._id },
+      }
+    }
+    case "verification_fee": {
+      const reference = String(target.property._id)
+      return {
+        reference,
+        amountInr: target.amountInr,
+        description: `Verification fee for ${target.property.title}`,
+        notes: { propertyId: reference },
+        links: { property: target.property._id },
+      }
+    }
+  }
+}
+
+/**
+ * Open a checkout with a provider and record the attempt.
+ * Gateway errors are thrown so routes can report them as they see fit.
+ */
+export async function startPayment(
+  providerId: PaymentProviderId,
+  target: PaymentTarget,
+  options: { userId: string; customer?: { name?: string | null; email?: string | null }; flow?: PaymentFlow },
+): Promise<{ success: true; payment: IPayment; checkout: ProviderCheckout } | PaymentFailure> {
+  const provider = getPaymentProvider(providerId)
+  if (!provider.isConfigured()) {
+    return { success: false, error: "Payment gateway is not configured. Please contact support.", status: 500 }
+  }
+
+  // The id goes out in the gateway notes so webhooks can find the attempt
+  const paymentId = new mongoose.Types.ObjectId()
+  const { reference, amountInr, description, notes, links } = describeTarget(target)
+
+  const checkout = await provider.create({
+    reference,
+    userId: options.userId,
+    amountInr,
+    description,
+    customer: options.customer,
+    flow: options.flow,
+    notes: { paymentId: paymentId.toString(), ...notes },
+  })
+
+  const payment: IPayment = await Payment.create({
+    _id: paymentId,
+    user: options.userId,
+    purpose: target.purpose,
+    ...links,
+    provider: providerId,
+    flow: checkout.flow,
+    amount: checkout.amount,
+    currency: checkout.currency,
+    amountInr,
+    exchangeRate: checkout.exchangeRate,
+    status: "created",
+    providerOrderId: checkout.providerOrderId,
+  })
+
+  return { success: true, payment, checkout }
+}
+
+function bookingPaymentMethod(payment: IPayment): NonNullable<IBooking["paymentMethod"]> {
+  if (payment.provider === "paypal") return "paypal"
+  if (payment.method === "card") return "card"
+  return "upi"
+}
+
+function rentPaymentMethod(payment: IPayment): IRentPayment["method"] {
+  if (payment.provider === "upi") return "upi"
+  if (payment.provider === "paypal") return "paypal"
+  return "razorpay"
+}
+
+/**
+ * Apply what a gateway reported about a payment attempt
+ */
+export async function settlePayment(
+  payment: IPayment,
+  reported: ProviderPayment,
+  context: { actor?: TransitionActor; reason: string },
+): Promise<SettlePaymentResult> {
+  const now = new Date()
+
+  if (reported.status === "pending") {
+    return { success: true, payment, captured: false }
+  }
+
+  if (reported.status === "failed") {
+    // Razorpay lets the payer retry the same order, so a failure never overrides a capture
+    await Payment.updateOne(
+      { _id: payment._id, status: { $in: ["created", "failed"] } },
+      { $set: { status: "failed", failureReason: reported.failureReason || "Payment failed", updatedAt: now } },
+    )
+    return { success: true, payment, captured: false }
+  }
+
+  if (reported.currency !== payment.currency || Math.abs(reported.amount - payment.amount) > 0.01) {
+    console.error("Payment amount mismatch:", {
+      paymentId: payment._id.toString(),
+      expected: `${payment.amount} ${payment.currency}`,
+      reported: `${reported.amount} ${reported.currency}`,
+    })
+    return { success: false, error: "Payment amount doesn't match the amount due", status: 400 }
+  }
+
+  let captured: IPayment | null = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: { $in: ["created", "pending_verification", "failed"] } },
+    {
+      $set: {
+        status: "captured",
+        providerPaymentId: reported.providerPaymentId,
+        method: reported.method,
+        capturedAt: reported.paidAt ?? now,
+        updatedAt: now,
+      },
+      $unset: { failureReason: "" },
+    },
+    { new: true },
+  )
+
+  if (!captured) {
+    captured = await Payment.findById(payment._id)
+    if (!captured) {
+      return { success: false, error: "Payment not found", status: 404 }
+    }
+    if (captured.providerPaymentId !== reported.providerPaymentId) {
+      console.error("Second capture reported for a settled payment:", {
+        paymentId: captured._id.toString(),
+        settledWith: captured.providerPaymentId,
+        reported: reported.providerPaymentId,
+      })
+      return { success: false, error: "This payment has already been settled", status: 409 }
+    }
+    // Same capture reported again: fall through and re-apply, which is a no-op
+  }
+
+  return applyPayment(captured, context)
+}
+
+async function applyPayment(
+  payment: IPayment,
+  context: { actor?: TransitionActor; reason: string },
+): Promise<SettlePaymentResult> {
+  const reference = payment.providerPaymentId
+  if (!reference) {
+    return { success: false, error: "Payment has not been captured", status: 400 }
+  }
+
+  if (payment.purpose === "rent") {
+    const recorded = await recordRentPayment(String(payment.rentInvoice), {
+      amount: payment.amountInr,
+      method: rentPaymentMethod(payment),
+      reference,
+      paidAt: payment.capturedAt,
+    })
+    if (!recorded.success) return recorded
+    return { success: true, payment, captured: true, invoice: recorded.invoice }
+  }
+
+  if (payment.purpose === "deposit") {
+    const recorded = await recordDepositPayment(String(payment.booking), {
+      payment: payment._id,
+      reference,
+      paidAt: payment.capturedAt,
+    })
+    if (!recorded.success) return recorded
+    return { success: true, payment, captured: true, booking: recorded.booking }
+  }
+
+  if (payment.purpose === "mess_subscription") {
+    const recorded = await recordMessSubscriptionPayment(String(payment.messSubscription), {
+      payment: payment._id,
+      reference,
+      paidAt: payment.capturedAt,
+    })
+    if (!recorded.success) return recorded
+    return { success: true, payment, captured: true, subscription: recorded.subscription }
+  }
+
+  if (payment.purpose === "mess_pass") {
+    const recorded = await recordMessPassPayment(String(payment.messPass), {
+      payment: payment._id,
+      reference,
+      paidAt: payment.capturedAt,
+    })
+    if (!recorded.success) return recorded
+    return { success: true, payment, captured: true, pass: recorded.pass }
+  }
+
+  if (payment.purpose === "verification_fee") {
+    const recorded = await recordVerificationFee(String(payment.property), {
+      amount: payment.amountInr,
+      reference,
+      paidAt: payment.capturedAt,
+    })
+    if (!recorded.success) return recorded
+    return { success: true, payment, captured: true, property: recorded.property }
+  }
+
+  let booking: IBooking | null = await Booking.findById(payment.booking)
+  if (!booking) {
+    return { success: false, error: "Booking not found", status: 404 }
+  }
+
+  if (booking.status !== "cancelled") {
+    const paid = await markBookingPaid(
+      booking,
+      { paymentId: reference, paymentMethod: bookingPaymentMethod(payment), payment: payment._id },
+      context,
+    )
+    if (paid.success) {
+      return { success: true, payment, captured: true, booking: paid.booking }
+    }
+
+    // Lost a race with the hold expiring or the group rolling back
+    booking = await Booking.findById(payment.booking)
+    if (booking?.status !== "cancelled") return paid
+  }
+
+  // The money came in after the booking was cancelled: there is no bed to pay for
+  const refunded = await refundLateBookingPayment(booking, payment)
+  if (!refunded.success) return refunded
+  return {
+    success: false,
+    error:
+      refunded.booking.paymentStatus === "refunded"
+        ? "This booking was cancelled before your payment came through, so it has been refunded"
+        : "This booking was cancelled before your payment came through. Your payment will be refunded",
+    status: 409,
+  }
+}
+
+/**
+ * Ask the provider what happened to a checkout and settle the result
+ */
+export async function syncPayment(
+  payment: IPayment,
+  input: Omit<VerifyPaymentInput, "providerOrderId">,
+  context: { actor?: TransitionActor; reason: string },
+): Promise<SettlePaymentResult> {
+  let reported: ProviderPayment[]
+  try {
+    reported = await getPaymentProvider(payment.provider).verify({ providerOrderId: payment.providerOrderId, ...input })
+  } catch (error) {
+    const message = errorMessage(error, "Could not verify payment")
+    console.error("Payment verification failed:", { paymentId: payment._id.toString(), message })
+    return { success: false, error: message, status: input.signature ? 400 : 502 }
+  }
+
+  // A captured payment wins over earlier failed attempts on the same checkout
+  const outcome =
+    reported.find((candidate) => candidate.status === "captured") ??
+    reported.find((candidate) => candidate.status === "pending") ??
+    reported[reported.length - 1]
+
+  if (!outcome) {
+    return { success: true, payment, captured: payment.status === "captured" }
+  }
+
+  return settlePayment(payment, outcome, context)
+}
+
+/**
+ * Capture an approved checkout (PayPal) and settle it
+ */
+export async function capturePayment(
+  payment: IPayment,
+  context: { actor?: TransitionActor; reason: string },
+): Promise<SettlePaymentResult> {
+  let reported: ProviderPayment
+  try {
+    reported = await getPaymentProvider(payment.provider).capture(payment.providerOrderId)
+  } catch (error) {
+    const message = errorMessage(error, "Payment capture failed")
+    console.error("Payment capture failed:", { paymentId: payment._id.toString(), message })
+    return { success: false, error: message, status: 502 }
+  }
+
+  return settlePayment(payment, reported, context)
+}
+
+/**
+ * Latest captured payment on a booking, if it can be refunded through its gateway
+ */
+export async function findRefundablePayment(bookingId: mongoose.Types.ObjectId | string) {
+  const payment: IPayment | null = await Payment.findOne({
+    booking: bookingId,
+    purpose: "booking",
+    status: { $in: ["captured", "partially_refunded"] },
+  }).sort({ capturedAt: -1 })
+
+  return payment && payment.provider !== "upi" ? payment : null
+}
+
+/**
+ * Refund part or all of a captured payment. Amount is in INR.
+ */
+export async function refundPayment(
+  payment: IPayment,
+  amountInr: number,
+  notes?: Record<string, string>,
+): Promise<{ success: true; payment: IPayment; refundId: string } | PaymentFailure> {
+  if (!payment.providerPaymentId || (payment.status !== "captured" && payment.status !== "partially_refunded")) {
+    return { success: false, error: "Only captured payments can be refunded", status: 400 }
+  }
+
+  const refundedInr = refundedAmountInr(payment)
+  if (amountInr <= 0 || refundedInr + amountInr > payment.amountInr + 0.01) {
+    return { success: false, error: "Refund exceeds the amount paid", status: 400 }
+  }
+
+  // Convert back at the rate the payment was taken at
+  const amount = Number((amountInr / (payment.exchangeRate || 1)).toFixed(2))
+
+  let refund
+  try {
+    refund = await getPaymentProvider(payment.provider).refund(payment.providerPaymentId, amount, notes)
+  } catch (error) {
+    const message = errorMessage(error, "Refund failed")
+    console.error("Refund failed:", { paymentId: payment._id.toString(), message })
+    return { success: false, error: message, status: 502 }
+  }
+
+  const fullyRefunded = refundedInr + amountInr >= payment.amountInr - 0.01
+  const updated: IPayment | null = await Payment.findByIdAndUpdate(
+    payment._id,
+    {
+      $push: {
+        refunds: {
+          amount,
+          amountInr,
+          providerRefundId: refund.providerRefundId,
+          status: refund.status,
+          at: new Date(),
+        },
+      },
+      $set: { status: fullyRefunded ? "refunded" : "partially_refunded", updatedAt: new Date() },
+    },
+    { new: true },
+  )
+
+  return { success: true, payment: updated ?? payment, refundId: refund.providerRefundId }
+}
+
+function refundedAmountInr(payment: IPayment) {
+  return payment.refunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amountInr, 0)
+}
+
+/**
+ * Apply a refund the gateway reported: settle the status of one we started,
+ * or record one issued from the gateway's dashboard
+ */
+async function recordRefundEvent(providerId: PaymentProviderId, reported: ProviderRefundEvent) {
+  const payment: IPayment | null = await Payment.findOne({
+    provider: providerId,
+    providerPaymentId: reported.providerPaymentId,
+  })
+  if (!payment) return null
+
+  const now = new Date()
+  let updated: IPayment | null = await Payment.findOneAndUpdate(
+    { _id: payment._id, "refunds.providerRefundId": reported.providerRefundId },
+    { $set: { "refunds.$.status": reported.status, updatedAt: now } },
+    { new: true },
+  )
+
+  if (!updated && reported.status !== "failed") {
+    updated = await Payment.findOneAndUpdate(
+      { _id: payment._id, "refunds.providerRefundId": { $ne: reported.providerRefundId } },
+      {
+        $push: {
+          refunds: {
+            amount: reported.amount,
+            amountInr: Number((reported.amount * (payment.exchangeRate || 1)).toFixed(2)),
+            providerRefundId: reported.providerRefundId,
+            status: reported.status,
+            at: now,
+          },
+        },
+        $set: { updatedAt: now },
+      },
+      { new: true },
+    )
+  }
+
+  if (!updated) return payment
+
+  // A failed refund gives the money back to the payment
+  const refundedInr = refundedAmountInr(updated)
+  const status =
+    refundedInr <= 0 ? "captured" : refundedInr >= updated.amountInr - 0.01 ? "refunded" : "partially_refunded"
+  if (status !== updated.status && updated.status !== "failed") {
+    updated.status = status
+    await Payment.updateOne({ _id: updated._id }, { $set: { status, updatedAt: now } })
+  }
+
+  // Cancellation refunds are marked processed when they are requested; this is the gateway's final word
+  if (updated.booking && reported.status !== "pending") {
+    await Booking.updateOne(
+      { _id: updated.booking, "cancellation.refundId": reported.providerRefundId },
+      reported.status === "processed"
+        ? { $set: { "cancellation.refundStatus": "processed", updatedAt: now } }
+        : {
+            $set: {
+              "cancellation.refundStatus": "failed",
+              "cancellation.refundError": "Refund failed at the payment gateway",
+              updatedAt: now,
+            },
+          },
+    )
+  }
+
+  return updated
+}
+
+// A delivery left "processing" this long is assumed to have died mid-way
+const WEBHOOK_LOCK_MS = 5 * 60 * 1000
+
+export type WebhookResult = { event: string; handled: boolean; duplicate: boolean }
+
+// Headers the provider needs to authenticate the delivery again on replay
+function webhookHeaders(headers: Headers) {
+  const kept: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    if (name.startsWith("x-")) kept[name] = value
+  })
+  return kept
+}
+
+/**
+ * Take the processing lock on a stored event: failed or abandoned events can
+ * always be retried, processed ones only when `force`d (admin replay)
+ */
+async function claimWebhookEvent(id: mongoose.Types.ObjectId, force: boolean): Promise<IWebhookEvent | null> {
+  const now = new Date()
+  const claimable: Record<string, unknown>[] = [
+    { status: "failed" },
+    { status: "processing", lockedAt: { $lt: new Date(now.getTime() - WEBHOOK_LOCK_MS) } },
+  ]
+  if (force) claimable.push({ status: { $in: ["processed", "ignored"] } })
+
+  return WebhookEvent.findOneAndUpdate(
+    { _id: id, $or: claimable },
+    { $set: { status: "processing", lockedAt: now }, $inc: { attempts: 1 } },
+    { new: true },
+  )
+}
+
+async function processWebhookEvent(
+  providerId: PaymentProviderId,
+  event: ProviderWebhookEvent,
+): Promise<{ payment?: IPayment; error?: string }> {
+  if (event.refund) {
+    const payment = await recordRefundEvent(providerId, event.refund)
+    return { payment: payment ?? undefined }
+  }
+
+  if (!event.payment) {
+    return {}
+  }
+
+  const payment: IPayment | null = event.notes?.paymentId && mongoose.Types.ObjectId.isValid(event.notes.paymentId)
+    ? await Payment.findOne({ _id: event.notes.paymentId, provider: providerId })
+    : await Payment.findOne({ provider: providerId, providerOrderId: event.payment.providerOrderId })
+
+  if (!payment) {
+    return {}
+  }
+
+  const result = await settlePayment(payment, event.payment, { reason: `${providerId} webhook: ${event.event}` })
+  if (!result.success) {
+    console.error(`Could not settle payment ${payment._id} from webhook:`, result.error)
+    return { payment, error: result.error }
+  }
+
+  return { payment }
+}
+
+async function runWebhookEvent(stored: IWebhookEvent, event: ProviderWebhookEvent): Promise<WebhookResult> {
+  let outcome: { payment?: IPayment; error?: string }
+  try {
+    outcome = await processWebhookEvent(stored.provider, event)
+  } catch (error) {
+    // Unexpected (database) errors are rethrown so the gateway redelivers
+    await WebhookEvent.updateOne(
+      { _id: stored._id },
+      { $set: { status: "failed", lastError: errorMessage(error, "Webhook processing failed") }, $unset: { lockedAt: "" } },
+    )
+    throw error
+  }
+
+  const status = outcome.error ? "failed" : outcome.payment ? "processed" : "ignored"
+  await WebhookEvent.updateOne(
+    { _id: stored._id },
+    {
+      $set: {
+        status,
+        processedAt: new Date(),
+        ...(outcome.payment ? { payment: outcome.payment._id } : {}),
+        ...(outcome.error ? { lastError: outcome.error } : {}),
+      },
+      $unset: { lockedAt: "", ...(outcome.error ? {} : { lastError: "" }) },
+    },
+  )
+
+  return { event: event.event, handled: status === "processed", duplicate: false }
+}
+
+/**
+ * Authenticate a webhook delivery, store it, and settle what it reports on.
+ * Redeliveries of an event that was already processed are skipped. Only a
+ * delivery that fails authentication is refused; processing errors are thrown
+ * so the gateway redelivers.
+ */
+export async function handlePaymentWebhook(
+  providerId: PaymentProviderId,
+  body: string,
+  headers: Headers,
+): Promise<{ success: true; result: WebhookResult } | PaymentFailure> {
+  let event: ProviderWebhookEvent
+  try {
+    event = await getPaymentProvider(providerId).parseWebhook(body, headers)
+  } catch (error) {
+    return { success: false, error: errorMessage(error, "Invalid webhook signature"), status: 400 }
+  }
+
+  let stored: IWebhookEvent
+  try {
+    stored = await WebhookEvent.create({
+      provider: providerId,
+      eventId: event.eventId,
+      event: event.event,
+      body,
+      headers: webhookHeaders(headers),
+      status: "processing",
+      attempts: 1,
+      lockedAt: new Date(),
+    })
+  } catch (error) {
+    if ((error as { code?: number })?.code !== 11000) throw error
+
+    const existing: IWebhookEvent | null = await WebhookEvent.findOne({ provider: providerId, eventId: event.eventId })
+    const claimed = existing && (await claimWebhookEvent(existing._id, false))
+    if (!claimed) {
+      return { success: true, result: { event: event.event, handled: false, duplicate: true } }
+    }
+    stored = claimed
+  }
+
+  return { success: true, result: await runWebhookEvent(stored, event) }
+}
+
+/**
+ * Process a stored webhook event again (admin). The stored delivery is
+ * authenticated again, so only what the gateway actually sent can be replayed.
+ */
+export async function replayWebhookEvent(
+  webhookEventId: string,
+): Promise<{ success: true; result: WebhookResult; webhookEvent: IWebhookEvent | null } | PaymentFailure> {
+  if (!mongoose.Types.ObjectId.isValid(webhookEventId)) {
+    return { success: false, error: "Invalid webhook event ID", status: 400 }
+  }
+
+  const existing: IWebhookEvent | null = await WebhookEvent.findById(webhookEventId)
+  if (!existing) {
+    return { success: false, error: "Webhook event not found", status: 404 }
+  }
+
+  const claimed = await claimWebhookEvent(existing._id, true)
+  if (!claimed) {
+    return { success: false, error: "This event is being processed right now", status: 409 }
+  }
+
+  let event: ProviderWebhookEvent
+  try {
+    event = await getPaymentProvider(claimed.provider).parseWebhook(claimed.body, new Headers(claimed.headers))
+  } catch (error) {
+    const message = errorMessage(error, "Could not authenticate the stored delivery")
+    await WebhookEvent.updateOne(
+      { _id: claimed._id },
+      { $set: { status: "failed", lastError: message }, $unset: { lockedAt: "" } },
+    )
+    return { success: false, error: message, status: 400 }
+  }
+
+  const result = await runWebhookEvent(claimed, event)
+  return { success: true, result, webhookEvent: await WebhookEvent.findById(claimed._id) }
+}
+
+/**
+ * Find the attempt a client is reporting on, making sure it is theirs
+ */
+export async function findUserPayment(
+  providerId: PaymentProviderId,
+  providerOrderId: string,
+  userId: string,
+): Promise<IPayment | null> {
+  const payment: IPayment | null = await Payment.findOne({ provider: providerId, providerOrderId })
+  return payment && payment.user.toString() === userId ? payment : null
+}
+
+/**
+ * Open gateway checkouts for a rent invoice, mess subscription, mess pass,
+ * verification fee or deposit, latest first (for status polling)
+ */
+export async function findOpenPayments(
+  target:
+    | { rentInvoice: string }
+    | { messSubscription: string }
+    | { messPass: string }
+    | { property: string; purpose: "verification_fee" }
+    | { booking: string; purpose: "deposit" },
+): Promise<IPayment[]> {
+  return Payment.find({ ...target, provider: { $ne: "upi" }, status: { $in: ["created", "failed"] } })
+    .sort({ createdAt: -1 })
+    .limit(5)
+}
@@ -0,0 +1,78 @@
+import mongoose from "mongoose"
+import { describe, expect, it } from "vitest"
+import type { IPayoutItem, IPayoutRun } from "@/models/payout-run"
+import { buildBankTransferFile, buildPayoutCsv, netFor } from "@/lib/payouts"
+
+describe("netFor", () => {
+  it("owes the owner what the platform collected, minus commission and kit", () => {
+    expect(netFor("platform", 12250, 750, 1500)).toBe(10000)
+  })
+
+  it("puts our share on the owner's account when they collected the money", () => {
+    expect(netFor("owner", 12250, 750, 1500)).toBe(-2250)
+  })
+
+  it("nets a full refund against its booking to nothing", () => {
+    for (const collectedBy of ["platform", "owner"] as const) {
+      expect(netFor(collectedBy, 12250, 750, 1500) + netFor(collectedBy, -12250, -750, -1500)).toBe(0)
+    }
+  })
+
+  it("passes rent straight through", () => {
+    expect(netFor("platform", 9000, 0, 0)).toBe(9000)
+    expect(netFor("owner", 9000, 0, 0)).toBe(0)
+  })
+
+  it("rounds to the paisa", () => {
+    expect(netFor("platform", 100.005, 0.001, 0)).toBe(100)
+  })
+})
+
+function payoutItem(overrides: Partial<IPayoutItem>): IPayoutItem {
+  return {
+    owner: new mongoose.Types.ObjectId("64b000000000000000abc123"),
+    amount: 1000,
+    entryCount: 1,
+    beneficiary: { name: "Owner", accountNumber: "1234567890", ifscCode: "HDFC0001234" },
+    status: "pending",
+    ...overrides,
+  }
+}
+
+function payoutRun(items: IPayoutItem[]) {
+  return { reference: "PO-20260301-AB12", items } as unknown as IPayoutRun
+}
+
+describe("buildBankTransferFile", () => {
+  it("sends large amounts as RTGS and only includes pending items", () => {
+    const file = buildBankTransferFile(
+      payoutRun([
+        payoutItem({ amount: 199999.99 }),
+        payoutItem({ amount: 200000 }),
+        payoutItem({ amount: 5000, status: "paid" }),
+      ]),
+      new Date(2026, 2, 5),
+    )
+    const rows = file.trim().split("\n").slice(1)
+
+    expect(rows).toHaveLength(2)
+    expect(rows[0].startsWith("NEFT,")).toBe(true)
+    expect(rows[1].startsWith("RTGS,")).toBe(true)
+    expect(rows[0]).toContain("199999.99,05/03/2026,PO-20260301-AB12-ABC123")
+  })
+
+  it("prefers the account holder's name, cut to the bank's limit", () => {
+    const file = buildBankTransferFile(
+      payoutRun([payoutItem({ beneficiary: { name: "Owner", accountHolderName: "A".repeat(40) } })]),
+    )
+    expect(file.split("\n")[1].split(",")[1]).toBe("A".repeat(35))
+  })
+})
+
+describe("buildPayoutCsv", () => {
+  it("quotes cells with commas or quotes", () => {
+    const csv = buildPayoutCsv(payoutRun([payoutItem({ beneficiary: { name: 'Rao, "Sunny"' } })]))
+    expect(csv.split("\n")[1]).toContain('"Rao, ""Sunny"""')
+    expect(csv.split("\n")[1]).toContain(",1000.00,pending,")
+  })
+})
@@ -0,0 +1,566 @@
+import crypto from "crypto"
+import { format } from "date-fns"
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import { OwnerLedgerEntry, type IOwnerLedgerEntry } from "@/models/owner-ledger-entry"
+import { Payment } from "@/models/payment"
+import { PayoutRun, type IPayoutItem, type IPayoutRun } from "@/models/payout-run"
+import { Property } from "@/models/property"
+import { RentInvoice, type IRentInvoice, type IRentPayment } from "@/models/rent-invoice"
+import { getUserModel } from "@/models/user"
+import { createNotification } from "@/lib/notification-helper"
+import { refId } from "@/lib/utils"
+import { getDeductionsTotal } from "@/lib/deposits"
+
+/**
+ * Owner payouts
+ *
+ * The owner ledger records every rupee that moved for an owner's properties:
+ * paid bookings (first month's rent + our commission + any settling-in kit),
+ * refunds of those, rent payments, and deductions kept from deposits we held.
+ * Money the platform collected is owed to the owner minus commission and kit
+ * revenue; money the owner collected directly (UPI to their own VPA, cash)
+ * puts our share on their account instead. Entries are synced from bookings
+ * and rent invoices rather than written from every payment path, and keyed by
+ * source, so syncing is idempotent.
+ *
+ * Payout runs batch each owner's unsettled balance up to a cutoff into one
+ * item, exported as CSV or a bank bulk-transfer file. Items are then marked
+ * paid (with the bank UTR) or failed, which puts their entries back into the
+ * next run.
+ */
+
+// Balances below this are carried over to the next run rather than paid out
+export const MIN_PAYOUT_AMOUNT = Number(process.env.MIN_PAYOUT_AMOUNT) || 100
+
+// NEFT above this has to go as RTGS
+const RTGS_THRESHOLD = 200000
+
+// Rent collected through our gateways; everything else went to the owner directly
+const PLATFORM_RENT_METHODS: IRentPayment["method"][] = ["razorpay", "paypal"]
+
+type PayoutFailure = { success: false; error: string; status: number }
+
+function round(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+export function netFor(collectedBy: IOwnerLedgerEntry["collectedBy"], gross: number, commission: number, settlingInKit: number) {
+  return round(collectedBy === "platform" ? gross - commission - settlingInKit : 0 - commission - settlingInKit)
+}
+
+type LedgerInsert = Omit<
+  Pick<
+    IOwnerLedgerEntry,
+    | "owner"
+    | "property"
+    | "booking"
+    | "rentInvoice"
+    | "sourceKey"
+    | "type"
+    | "collectedBy"
+    | "gross"
+    | "commission"
+    | "settlingInKit"
+    | "description"
+    | "occurredAt"
+  >,
+  "net"
+>
+
+function ledgerUpsert(entry: LedgerInsert) {
+  return {
+    updateOne: {
+      filter: { sourceKey: entry.sourceKey },
+      update: {
+        $setOnInsert: {
+          ...entry,
+          net: netFor(entry.collectedBy, entry.gross, entry.commission, entry.settlingInKit),
+          createdAt: new Date(),
+        },
+      },
+      upsert: true,
+    },
+  }
+}
+
+/**
+ * Bring the ledger up to date with bookings and rent payments, for one owner
+ * or everyone. Returns how many entries were added.
+ */
+export async function syncOwnerLedger(ownerId?: string) {
+  const properties = await Property.find(ownerId ? { owner: ownerId } : {})
+    .select("owner title")
+    .lean<Array<{ _id: mongoose.Types.ObjectId; owner?: mongoose.Types.ObjectId; title?: string }>>()
+  const propertyById = new Map(properties.filter((property) => property.owner).map((property) => [property._id.toString(), property]))
+  if (propertyById.size === 0) return 0
+
+  const propertyIds = [...propertyById.keys()]
+  const operations: ReturnType<typeof ledgerUpsert>[] = []
+
+  const bookings: IBooking[] = await Booking.find({
+    property: { $in: propertyIds },
+    paymentStatus: { $in: ["paid", "partially_refunded", "refunded"] },
+  })
+  const payments = await Payment.find({ _id: { $in: bookings.map((booking) => booking.payment).filter(Boolean) } })
+    .select("provider capturedAt")
+    .lean<Array<{ _id: mongoose.Types.ObjectId; provider: string; capturedAt?: Date }>>()
+  const paymentById = new Map(payments.map((payment) => [payment._id.toString(), payment]))
+
+  for (const booking of bookings) {
+    const property = propertyById.get(booking.property.toString())
+    if (!property?.owner) continue
+
+    const payment = booking.payment ? paymentById.get(booking.payment.toString()) : undefined
+    // Direct UPI goes to the owner's own VPA; gateways pay into the platform account
+    const collectedBy = payment?.provider === "upi" ? "owner" : "platform"
+    const base = { owner: property.owner, property: property._id, booking: booking._id, collectedBy } as const
+
+    operations.push(
+      ledgerUpsert({
+        ...base,
+        sourceKey: `booking:${booking._id}`,
+        type: "booking",
+        gross: booking.totalAmount,
+        commission: booking.commissionAmount || 0,
+        settlingInKit: booking.settlingInKit?.price || 0,
+        description: `Booking at ${property.title || "your property"} (${booking.roomType})`,
+        occurredAt: payment?.capturedAt ?? booking.createdAt,
+      }),
+    )
+
+    const cancellation = booking.cancellation
+    if (cancellation?.refundStatus === "processed" && cancellation.refund.total > 0) {
+      operations.push(
+        ledgerUpsert({
+          ...base,
+          sourceKey: `refund:${booking._id}`,
+          type: "refund",
+          gross: -cancellation.refund.total,
+          commission: -cancellation.refund.commission,
+          settlingInKit: -cancellation.refund.settlingInKit,
+          description: `Refund for cancelled booking at ${property.title || "your property"}`,
+          occurredAt: cancellation.refundedAt ?? cancellation.cancelledAt,
+        }),
+      )
+    }
+
+    // Deposits paid to the platform are the tenant's money, except what the inspection kept for the owner
+    const deposit = booking.deposit
+    const kept = deposit?.status === "settled" && deposit.heldBy === "platform" ? getDeductionsTotal(deposit.deductions) : 0
+    if (deposit && kept > 0) {
+      operations.push(
+        ledgerUpsert({
+          ...base,
+          collectedBy: "platform",
+          sourceKey: `deposit:${booking._id}`,
+          type: "deposit",
+          gross: kept,
+          commission: 0,
+          settlingInKit: 0,
+          description: `Deposit deductions at ${property.title || "your property"}`,
+          occurredAt: deposit.settledAt ?? booking.createdAt,
+        }),
+      )
+    }
+  }
+
+  const invoices: IRentInvoice[] = await RentInvoice.find({
+    property: { $in: propertyIds },
+    "payments.0": { $exists: true },
+  })
+  for (const invoice of invoices) {
+    const property = propertyById.get(invoice.property.toString())
+    if (!property?.owner) continue
+
+    for (const rentPayment of invoice.payments) {
+      operations.push(
+        ledgerUpsert({
+          owner: property.owner,
+          property: property._id,
+          booking: invoice.booking,
+          rentInvoice: invoice._id,
+          sourceKey: `rent:${invoice._id}:${rentPayment.reference}`,
+          type: "rent",
+          collectedBy: PLATFORM_RENT_METHODS.includes(rentPayment.method) ? "platform" : "owner",
+          gross: rentPayment.amount,
+          commission: 0,
+          settlingInKit: 0,
+          description: `Rent ${invoice.invoiceNumber} (${rentPayment.method.replace("_", " ")})`,
+          occurredAt: rentPayment.paidAt,
+        }),
+      )
+    }
+  }
+
+  if (operations.length === 0) return 0
+  const result = await OwnerLedgerEntry.bulkWrite(operations, { ordered: false })
+  return result.upsertedCount
+}
+
+export interface OwnerEarningsSummary {
+  gross: number
+  commission: number
+  settlingInKit: number
+  net: number
+  paidOut: number
+  inPayout: number
+  available: number
+}
+
+/**
+ * Totals for an owner's earnings page. `available` is what the next payout run would pick up.
+ */
+export async function getOwnerEarningsSummary(ownerId: string): Promise<OwnerEarningsSummary> {
+  const owner = new mongoose.Types.ObjectId(ownerId)
+  const [totals] = await OwnerLedgerEntry.aggregate([
+    { $match: { owner } },
+    {
+      $group: {
+        _id: null,
+        gross: { $sum: "$gross" },
+        commission: { $sum: "$commission" },
+        settlingInKit: { $sum: "$settlingInKit" },
+        net: { $sum: "$net" },
+        available: { $sum: { $cond: [{ $ifNull: ["$payoutRun", false] }, 0, "$net"] } },
+      },
+    },
+  ])
+
+  const runs: IPayoutRun[] = await PayoutRun.find({ "items.owner": owner, status: { $ne: "cancelled" } })
+  let paidOut = 0
+  let inPayout = 0
+  for (const run of runs) {
+    for (const item of run.items) {
+      if (item.owner.toString() !== ownerId) continue
+      if (item.status === "paid") paidOut += item.amount
+      if (item.status === "pending") inPayout += item.amount
+    }
+  }
+
+  return {
+    gross: round(totals?.gross || 0),
+    commission: round(totals?.commission || 0),
+    settlingInKit: round(totals?.settlingInKit || 0),
+    net: round(totals?.net || 0),
+    paidOut: round(paidOut),
+    inPayout: round(inPayout),
+    available: round(totals?.available || 0),
+  }
+}
+
+function buildRunReference(now: Date) {
+  return `PAYOUT-${format(now, "yyyyMMdd")}-${crypto.randomBytes(2).toString("hex").toUpperCase()}`
+}
+
+/**
+ * Batch every owner's unsettled balance up to `cutoff` into a new draft run.
+ * Owners without bank details are skipped (and told to add them).
+ */
+export async function createPayoutRun(
+  createdBy: string,
+  cutoff: Date,
+): Promise<
+  | { success: true; run: IPayoutRun; skipped: Array<{ owner: string; amount: number; reason: string }> }
+  | PayoutFailure
+> {
+  await syncOwnerLedger()
+
+  const balances: Array<{ _id: mongoose.Types.ObjectId; amount: number }> = await OwnerLedgerEntry.aggregate([
+    { $match: { payoutRun: { $exists: false }, occurredAt: { $lte: cutoff } } },
+    { $group: { _id: "$owner", amount: { $sum: "$net" } } },
+    { $match: { amount: { $gte: MIN_PAYOUT_AMOUNT } } },
+  ])
+  if (balances.length === 0) {
+    return { success: false, error: "No owner balances are due for payout", status: 400 }
+  }
+
+  const User = await getUserModel()
+  const owners = await User.find({ _id: { $in: balances.map((balance) => balance._id) } })
+    .select("name email bankAccount")
+    .lean()
+  const ownerById = new Map(owners.map((owner) => [owner._id.toString(), owner]))
+
+  const runId = new mongoose.Types.ObjectId()
+  const skipped: Array<{ owner: string; amount: number; reason: string }> = []
+  const payable: string[] = []
+
+  for (const balance of balances) {
+    const ownerId = balance._id.toString()
+    const bankAccount = ownerById.get(ownerId)?.bankAccount
+    if (!bankAccount?.accountNumber || !bankAccount.ifscCode) {
+      skipped.push({ owner: ownerId, amount: round(balance.amount), reason: "No bank account on file" })
+      await createNotification({
+        userId: ownerId,
+        type: "payment",
+        title: "Add bank details to get paid",
+        message: `₹${round(balance.amount).toLocaleString("en-IN")} is ready to be paid out, but we don't have your bank account. Add it in your settings to be included in the next payout.`,
+        link: "/profile?tab=settings",
+        priority: "high",
+        metadata: { amount: round(balance.amount) },
+      })
+      continue
+    }
+    payable.push(ownerId)
+  }
+
+  // Claim the entries first: whatever another run got to first is simply not ours
+  await OwnerLedgerEntry.updateMany(
+    { owner: { $in: payable }, payoutRun: { $exists: false }, occurredAt: { $lte: cutoff } },
+    { $set: { payoutRun: runId } },
+  )
+  const claimed: Array<{ _id: mongoose.Types.ObjectId; amount: number; entryCount: number }> =
+    await OwnerLedgerEntry.aggregate([
+      { $match: { payoutRun: runId } },
+      { $group: { _id: "$owner", amount: { $sum: "$net" }, entryCount: { $sum: 1 } } },
+    ])
+
+  const items: Omit<IPayoutItem, "status">[] = []
+  for (const balance of claimed) {
+    const ownerId = balance._id.toString()
+    if (balance.amount < MIN_PAYOUT_AMOUNT) {
+      await OwnerLedgerEntry.updateMany({ payoutRun: runId, owner: balance._id }, { $unset: { payoutRun: "" } })
+      continue
+    }
+
+    const owner = ownerById.get(ownerId)
+    items.push({
+      owner: balance._id,
+      amount: round(balance.amount),
+      entryCount: balance.entryCount,
+      beneficiary: {
+        name: owner?.name || "Owner",
+        email: owner?.email,
+        accountHolderName: owner?.bankAccount?.accountHolderName,
+        accountNumber: owner?.bankAccount?.accountNumber,
+        ifscCode: owner?.bankAccount?.ifscCode,
+        bankName: owner?.bankAccount?.bankName,
+        upiId: owner?.bankAccount?.upiId,
+      },
+    })
+  }
+
+  if (items.length === 0) {
+    return { success: false, error: "No owner balances are due for payout", status: 400 }
+  }
+
+  const now = new Date()
+  const run: IPayoutRun = await PayoutRun.create({
+    _id: runId,
+    reference: buildRunReference(now),
+    cutoff,
+    status: "draft",
+    items: items.map((item) => ({ ...item, status: "pending" })),
+    totalAmount: round(items.reduce((sum, item) => sum + item.amount, 0)),
+    createdBy,
+    createdAt: now,
+  })
+
+  return { success: true, run, skipped }
+}
+
+/**
+ * Mark a draft run as sent to the bank. Exporting again is allowed.
+ */
+export async function markPayoutRunExported(run: IPayoutRun) {
+  if (run.status !== "draft") return run
+
+  const updated: IPayoutRun | null = await PayoutRun.findOneAndUpdate(
+    { _id: run._id, status: "draft" },
+    { $set: { status: "processing", exportedAt: new Date(), updatedAt: new Date() } },
+    { new: true },
+  )
+  return updated ?? run
+}
+
+function csvCell(value: string | number | undefined) {
+  const text = value === undefined ? "" : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(rows: Array<Array<string | number | undefined>>) {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n"
+}
+
+/**
+ * Settlement report: one row per owner with everything needed to reconcile the run
+ */
+export function buildPayoutCsv(run: IPayoutRun) {
+  return toCsv([
+    [
+      "Run",
+      "Owner ID",
+      "Owner",
+      "Email",
+      "Account holder",
+      "Account number",
+      "IFSC",
+      "Bank",
+      "UPI ID",
+      "Entries",
+      "Amount (INR)",
+      "Status",
+      "Reference",
+    ],
+    ...run.items.map((item) => [
+      run.reference,
+      item.owner.toString(),
+      item.beneficiary.name,
+      item.beneficiary.email,
+      item.beneficiary.accountHolderName,
+      item.beneficiary.accountNumber,
+      item.beneficiary.ifscCode,
+      item.beneficiary.bankName,
+      item.beneficiary.upiId,
+      item.entryCount,
+      item.amount.toFixed(2),
+      item.status,
+      item.reference,
+    ]),
+  ])
+}
+
+/**
+ * Bulk transfer upload for net banking: pending items only, NEFT or RTGS by amount
+ */
+export function buildBankTransferFile(run: IPayoutRun, valueDate: Date = new Date()) {
+  return toCsv([
+    ["Transaction Type", "Beneficiary Name", "Beneficiary Account Number", "IFSC", "Amount", "Value Date", "Customer Reference", "Remarks"],
+    ...run.items
+      .filter((item) => item.status === "pending")
+      .map((item) => [
+        item.amount >= RTGS_THRESHOLD ? "RTGS" : "NEFT",
+        (item.beneficiary.accountHolderName || item.beneficiary.name).substring(0, 35),
+        item.beneficiary.accountNumber,
+        item.beneficiary.ifscCode,
+        item.amount.toFixed(2),
+        format(valueDate, "dd/MM/yyyy"),
+        // Customer reference comes back on the bank's response file
+        `${run.reference}-${item.owner.toString().slice(-6)}`.toUpperCase(),
+        `SecondHome payout ${run.reference}`.substring(0, 30),
+      ]),
+  ])
+}
+
+export interface PayoutItemUpdate {
+  owner: string
+  status: "paid" | "failed"
+  reference?: string
+  failureReason?: string
+}
+
+/**
+ * Record the bank's outcome for items in a run. Failed items release their
+ * entries so the balance rolls into the next run.
+ */
+export async function settlePayoutItems(
+  runId: string,
+  updates: PayoutItemUpdate[],
+): Promise<{ success: true; run: IPayoutRun; updated: number } | PayoutFailure> {
+  const run: IPayoutRun | null = await PayoutRun.findById(runId)
+  if (!run) return { success: false, error: "Payout run not found", status: 404 }
+  if (run.status !== "draft" && run.status !== "processing") {
+    return { success: false, error: `This payout run is already ${run.status}`, status: 400 }
+  }
+
+  for (const update of updates) {
+    if (update.status === "paid" && !update.reference?.trim()) {
+      return { success: false, error: "A bank reference is required for paid items", status: 400 }
+    }
+    if (update.status === "failed" && !update.failureReason?.trim()) {
+      return { success: false, error: "A reason is required for failed items", status: 400 }
+    }
+  }
+
+  const now = new Date()
+  let updated = 0
+
+  for (const update of updates) {
+    if (!mongoose.Types.ObjectId.isValid(update.owner)) continue
+
+    const set =
+      update.status === "paid"
+        ? { "items.$.status": "paid", "items.$.reference": update.reference?.trim(), "items.$.paidAt": now }
+        : { "items.$.status": "failed", "items.$.failureReason": update.failureReason?.trim() }
+    const result = await PayoutRun.updateOne(
+      { _id: run._id, items: { $elemMatch: { owner: update.owner, status: "pending" } } },
+      { $set: { ...set, status: "processing", updatedAt: now } },
+    )
+    if (result.modifiedCount === 0) continue
+    updated++
+
+    const item = run.items.find((candidate) => candidate.owner.toString() === update.owner)
+    const amount = item?.amount ?? 0
+    if (update.status === "failed") {
+      await OwnerLedgerEntry.updateMany({ payoutRun: run._id, owner: update.owner }, { $unset: { payoutRun: "" } })
+    }
+
+    await createNotification({
+      userId: update.owner,
+      type: "payment",
+      title: update.status === "paid" ? "Payout sent" : "Payout failed",
+      message:
+        update.status === "paid"
+          ? `₹${amount.toLocaleString("en-IN")} has been transferred to your bank account (ref ${update.reference?.trim()}).`
+          : `Your payout of ₹${amount.toLocaleString("en-IN")} could not be completed: ${update.failureReason?.trim()}. It will be retried in the next payout.`,
+      link: "/profile?tab=earnings",
+      priority: update.status === "paid" ? "medium" : "high",
+      metadata: { payoutRunId: run._id.toString(), amount },
+    })
+  }
+
+  // Done once nothing is left pending
+  await PayoutRun.updateOne(
+    { _id: run._id, status: "processing", "items.status": { $ne: "pending" } },
+    { $set: { status: "completed", completedAt: now, updatedAt: now } },
+  )
+
+  const latest: IPayoutRun | null = await PayoutRun.findById(run._id)
+  return { success: true, run: latest ?? run, updated }
+}
+
+/**
+ * Cancel a run nothing has been paid from yet, releasing all its entries
+ */
+export async function cancelPayoutRun(runId: string): Promise<{ success: true; run: IPayoutRun } | PayoutFailure> {
+  const now = new Date()
+  const cancelled: IPayoutRun | null = await PayoutRun.findOneAndUpdate(
+    { _id: runId, status: { $in: ["draft", "processing"] }, "items.status": { $ne: "paid" } },
+    { $set: { status: "cancelled", cancelledAt: now, updatedAt: now } },
+    { new: true },
+  )
+  if (!cancelled) {
+    const existing: IPayoutRun | null = await PayoutRun.findById(runId)
+    if (!existing) return { success: false, error: "Payout run not found", status: 404 }
+    return { success: false, error: "Only runs with no completed payouts can be cancelled", status: 400 }
+  }
+
+  await OwnerLedgerEntry.updateMany({ payoutRun: cancelled._id }, { $unset: { payoutRun: "" } })
+  return { success: true, run: cancelled }
+}
+
+/**
+ * The owner's own slice of each run they were part of, newest first
+ */
+export async function getOwnerPayouts(ownerId: string) {
+  const runs: IPayoutRun[] = await PayoutRun.find({ "items.owner": ownerId, status: { $ne: "cancelled" } })
+    .sort({ createdAt: -1 })
+    .limit(24)
+
+  return runs.flatMap((run) =>
+    run.items
+      .filter((item) => refId(item.owner) === ownerId)
+      .map((item) => ({
+        runId: run._id.toString(),
+        reference: run.reference,
+        cutoff: run.cutoff,
+        createdAt: run.createdAt,
+        amount: item.amount,
+        status: item.status,
+        bankReference: item.reference,
+        failureReason: item.failureReason,
+        paidAt: item.paidAt,
+        accountNumber: item.beneficiary.accountNumber ? `****${item.beneficiary.accountNumber.slice(-4)}` : undefined,
+      })),
+  )
+}
@@ -0,0 +1,175 @@
+import type { PaymentProvider, ProviderPayment } from "@/lib/payment-provider"
+
+/**
+ * PayPal PaymentProvider (direct REST API calls - no SDK)
+ *
+ * Prices are in INR but PayPal charges in PAYPAL_CURRENCY (USD by default).
+ * The conversion uses PAYPAL_INR_EXCHANGE_RATE (INR per unit of that
+ * currency); the rate used is stored on each Payment so refunds convert back
+ * at the same rate.
+ */
+
+const PAYPAL_API_URL = process.env.PAYPAL_MODE === "live"
+  ? "https://api-m.paypal.com"
+  : "https://api-m.sandbox.paypal.com"
+
+interface PayPalAmount {
+  currency_code: string
+  value: string
+}
+
+interface PayPalCapture {
+  id: string
+  status: string
+  amount?: PayPalAmount
+  custom_id?: string
+  create_time?: string
+  status_details?: { reason?: string }
+}
+
+export function getPayPalCurrency() {
+  return process.env.PAYPAL_CURRENCY || "USD"
+}
+
+/** INR per unit of the PayPal currency, or null if it isn't configured */
+export function getPayPalExchangeRate() {
+  if (getPayPalCurrency() === "INR") return 1
+  const rate = Number(process.env.PAYPAL_INR_EXCHANGE_RATE)
+  return rate > 0 ? rate : null
+}
+
+function hasCredentials() {
+  return !!process.env.PAYPAL_CLIENT_ID && !!process.env.PAYPAL_CLIENT_SECRET
+}
+
+async function getPayPalAccessToken() {
+  if (!hasCredentials()) {
+    throw new Error("Missing PayPal credentials")
+  }
+
+  const auth = Buffer.from(`${process.env.PAYPAL_CLIENT_ID}:${process.env.PAYPAL_CLIENT_SECRET}`).toString("base64")
+
+  const response = await fetch(`${PAYPAL_API_URL}/v1/oauth2/token`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Basic ${auth}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: "grant_type=client_credentials",
+  })
+
+  const data = await response.json()
+  if (!data.access_token) {
+    throw new Error("Failed to obtain PayPal access token")
+  }
+  return data.access_token as string
+}
+
+async function paypalRequest<T>(path: string, body?: unknown): Promise<T> {
+  const accessToken = await getPayPalAccessToken()
+  const response = await fetch(`${PAYPAL_API_URL}${path}`, {
+    method: body === undefined ? "GET" : "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${accessToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    console.error("PayPal request failed:", { path, status: response.status, body: data })
+    throw new Error(data.message || data.error_description || data.error || `PayPal request failed (${response.status})`)
+  }
+  return data as T
+}
+
+function toProviderPayment(orderId: string, capture: PayPalCapture): ProviderPayment {
+  return {
+    providerPaymentId: capture.id,
+    providerOrderId: orderId,
+    status: capture.status === "COMPLETED" ? "captured" : capture.status === "DECLINED" || capture.status === "FAILED" ? "failed" : "pending",
+    amount: Number(capture.amount?.value || 0),
+    currency: capture.amount?.currency_code || getPayPalCurrency(),
+    method: "paypal",
+    paidAt: capture.create_time ? new Date(capture.create_time) : undefined,
+    failureReason: capture.status_details?.reason,
+  }
+}
+
+function capturesOf(order: { purchase_units?: { payments?: { captures?: PayPalCapture[] } }[] }) {
+  return order.purchase_units?.flatMap((unit) => unit.payments?.captures || []) || []
+}
+
+export const paypalProvider: PaymentProvider = {
+  id: "paypal",
+
+  isConfigured() {
+    return hasCredentials() && getPayPalExchangeRate() !== null
+  },
+
+  async create(request) {
+    const exchangeRate = getPayPalExchangeRate()
+    if (!exchangeRate) {
+      throw new Error("PayPal exchange rate is not configured")
+    }
+
+    const currency = getPayPalCurrency()
+    const amount = Number((request.amountInr / exchangeRate).toFixed(2))
+    const order = await paypalRequest<{ id: string }>("/v2/checkout/orders", {
+      intent: "CAPTURE",
+      purchase_units: [
+        {
+          amount: { currency_code: currency, value: amount.toFixed(2) },
+          description: request.description,
+          custom_id: request.reference,
+        },
+      ],
+    })
+
+    return {
+      providerOrderId: order.id,
+      flow: "order",
+      amount,
+      currency,
+      exchangeRate,
+      clientData: { orderId: order.id },
+    }
+  },
+
+  async verify({ providerOrderId }) {
+    const order = await paypalRequest<Parameters<typeof capturesOf>[0]>(`/v2/checkout/orders/${providerOrderId}`)
+    return capturesOf(order).map((capture) => toProviderPayment(providerOrderId, capture))
+  },
+
+  async capture(providerOrderId) {
+    const order = await paypalRequest<Parameters<typeof capturesOf>[0] & { status: string }>(
+      `/v2/checkout/orders/${providerOrderId}/capture`,
+      {},
+    )
+    const [capture] = capturesOf(order)
+    if (!capture) {
+      throw new Error(`PayPal order ${providerOrderId} has no capture (status ${order.status})`)
+    }
+    return toProviderPayment(providerOrderId, capture)
+  },
+
+  async refund(providerPaymentId, amount, notes) {
+    const refund = await paypalRequest<{ id: string; status: string }>(
+      `/v2/payments/captures/${providerPaymentId}/refund`,
+      {
+        amount: { currency_code: getPayPalCurrency(), value: amount.toFixed(2) },
+        note_to_payer: notes?.reason,
+      },
+    )
+    return {
+      providerRefundId: refund.id,
+      status: refund.status === "COMPLETED" ? "processed" : refund.status === "FAILED" ? "failed" : "pending",
+    }
+  },
+
+  async parseWebhook() {
+    // PayPal checkouts are captured synchronously from the client, so no webhook is registered
+    throw new Error("PayPal webhooks are not supported")
+  },
+}
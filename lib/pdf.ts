@@ -0,0 +1,128 @@
+/**
+ * Minimal PDF writer for generated documents (tax invoices, rental agreements)
+ *
+ * Only what documents made of text and rules need: A4 pages, the built-in
+ * Helvetica faces, left/right aligned text and lines. Coordinates are in
+ * points from the top-left corner. Text is WinAnsi-encoded, so characters
+ * outside Latin-1 (such as ₹) have to be spelled out by the caller.
+ */
+
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  align?: "left" | "right"
+  gray?: number // 0 = black, 1 = white
+}
+
+// Helvetica advance widths (per 1000 units) for the characters invoices use most
+const NARROW = new Set([..." ,.:;/!|'", "i", "j", "l"])
+const MEDIUM = new Set([..."()-[]ftr*\"", "I"])
+const WIDE = new Set([..."mwMW%@"])
+
+function charWidth(char: string, bold: boolean) {
+  if (NARROW.has(char)) return bold ? 278 : 240
+  if (MEDIUM.has(char)) return 333
+  if (WIDE.has(char)) return 889
+  if (char >= "A" && char <= "Z") return bold ? 722 : 667
+  return 556
+}
+
+export function textWidth(text: string, size: number, bold = false) {
+  let units = 0
+  for (const char of text) units += charWidth(char, bold)
+  return (units * size) / 1000
+}
+
+/**
+ * Break text into lines no wider than `maxWidth` points, keeping existing line breaks
+ */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false) {
+  const lines: string[] = []
+  for (const paragraph of text.split("\n")) {
+    let line = ""
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)")
+}
+
+function num(value: number) {
+  return Number(value.toFixed(2)).toString()
+}
+
+export function createPdf() {
+  const pages: string[][] = [[]]
+  const current = () => pages[pages.length - 1]
+
+  return {
+    text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+      const size = options.size ?? 10
+      const bold = options.bold ?? false
+      const left = options.align === "right" ? x - textWidth(text, size, bold) : x
+      current().push(
+        `${num(options.gray ?? 0)} g BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(left)} ${num(PAGE_HEIGHT - y)} Td (${escapeText(text)}) Tj ET`,
+      )
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+      current().push(`${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`)
+    },
+
+    addPage() {
+      pages.push([])
+    },
+
+    toBuffer() {
+      const objects: string[] = []
+      const pageIds = pages.map((_, index) => 5 + index * 2)
+
+      objects[1] = "<< /Type /Catalog /Pages 2 0 R >>"
+      objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+      objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+      objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+      pages.forEach((operations, index) => {
+        const pageId = pageIds[index]
+        const content = operations.join("\n")
+        objects[pageId] =
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+        objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+      })
+
+      let output = "%PDF-1.4\n"
+      const offsets: number[] = []
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = Buffer.byteLength(output, "latin1")
+        output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+      }
+
+      const xrefOffset = Buffer.byteLength(output, "latin1")
+      output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+      for (let id = 1; id < objects.length; id++) {
+        output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`
+      }
+      output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+      return Buffer.from(output, "latin1")
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import mongoose from "mongoose"
+import { Property, type IProperty } from "@/models/property"
+import { createNotification } from "@/lib/notification-helper"
+import { emailTaxInvoice, issueVerificationFeeInvoice } from "@/lib/tax-invoices"
+
+/**
+ * Property verification fee (Business Model - Revenue Stream 1)
+ *
+ * The owner pays through lib/payments.ts; recordVerificationFee() then moves
+ * the property to "pending" (awaiting the executive visit) exactly once.
+ */
+
+// ₹500 one-time
+export const VERIFICATION_FEE = 500
+
+type VerificationFailure = { success: false; error: string; status: number }
+
+/**
+ * Load a property its owner can pay the verification fee for
+ */
+export async function getPayableVerification(
+  propertyId: string,
+  userId: string,
+): Promise<{ property: IProperty } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(propertyId)) {
+    return { error: "Invalid property ID", status: 400 }
+  }
+
+  const property: IProperty | null = await Property.findById(propertyId)
+  if (!property) {
+    return { error: "Property not found", status: 404 }
+  }
+  if (property.owner.toString() !== userId) {
+    return { error: "You don't own this property", status: 403 }
+  }
+  if (property.verificationStatus === "verified") {
+    return { error: "Property is already verified", status: 400 }
+  }
+  if (property.verificationStatus === "pending" || property.verificationPaidAt) {
+    return { error: "Verification is already pending. Executive visit scheduled.", status: 400 }
+  }
+  if (!property.isApproved) {
+    return { error: "Property must be approved before verification", status: 400 }
+  }
+
+  return { property }
+}
+
+/**
+ * Record a captured verification fee. Replays of the same payment are no-ops.
+ */
+export async function recordVerificationFee(
+  propertyId: string,
+  payment: { amount: number; reference: string; paidAt?: Date },
+): Promise<{ success: true; property: IProperty } | VerificationFailure> {
+  const now = new Date()
+  const updated: IProperty | null = await Property.findOneAndUpdate(
+    { _id: propertyId, verificationPaidAt: { $exists: false } },
+    {
+      $set: {
+        verificationStatus: "pending",
+        verificationFee: payment.amount,
+        verificationPaymentId: payment.reference,
+        verificationPaidAt: payment.paidAt ?? now,
+        updatedAt: now,
+      },
+    },
+    { new: true },
+  )
+
+  if (!updated) {
+    const existing: IProperty | null = await Property.findById(propertyId)
+    if (!existing) {
+      return { success: false, error: "Property not found", status: 404 }
+    }
+    return { success: true, property: existing }
+  }
+
+  await createNotification({
+    userId: updated.owner.toString(),
+    type: "property",
+    title: "Verification fee received",
+    message: `We received ₹${payment.amount} for verifying ${updated.title}. Our executive will visit soon.`,
+    link: "/profile?tab=properties",
+    priority: "high",
+    metadata: { propertyId: String(updated._id), reference: payment.reference },
+  })
+
+  try {
+    await emailTaxInvoice(await issueVerificationFeeInvoice(updated))
+  } catch (invoiceError) {
+    // The fee is recorded; the invoice can still be downloaded later
+    console.error("Error issuing verification fee invoice:", invoiceError)
+  }
+
+  return { success: true, property: updated }
+}
@@ -0,0 +1,336 @@
+import crypto from "crypto"
+import type { PaymentProvider, ProviderPayment } from "@/lib/payment-provider"
+// Use require for Razorpay (CommonJS module)
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const Razorpay = require("razorpay")
+
+/**
+ * Razorpay client and PaymentProvider
+ *
+ * Set RAZORPAY_STUB=true to run without Razorpay keys: orders, payment links
+ * and refunds are answered locally with Razorpay-shaped responses, and every
+ * checkout reports as paid the first time it is checked, so payment and
+ * refund flows can be exercised end to end in development.
+ */
+
+export interface RazorpayRefund {
+  id: string
+  payment_id: string
+  amount: number // paise
+  currency: string
+  status: "pending" | "processed" | "failed"
+  created_at: number
+  notes?: Record<string, string>
+}
+
+interface RazorpayPaymentEntity {
+  id: string
+  order_id?: string
+  amount: number // paise
+  currency?: string
+  status: string
+  method?: string
+  created_at?: number
+  error_description?: string
+  notes?: Record<string, string>
+}
+
+// Entries in a payment link's `payments` array
+interface RazorpayLinkPayment {
+  payment_id: string
+  amount: number // paise
+  status: string
+  method?: string
+  created_at?: number
+}
+
+export function isRazorpayStubEnabled() {
+  return process.env.RAZORPAY_STUB === "true"
+}
+
+export function isRazorpayConfigured() {
+  return isRazorpayStubEnabled() || (!!process.env.RAZORPAY_KEY_ID && !!process.env.RAZORPAY_KEY_SECRET)
+}
+
+function createStubClient() {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  // Checkouts created by this process, keyed by order/link id
+  const checkouts = new Map<string, { amount: number; currency: string; notes?: Record<string, string> }>()
+  const stubId = (prefix: string) => `${prefix}_stub_${crypto.randomBytes(7).toString("hex")}`
+  const stubPayment = (checkoutId: string): RazorpayPaymentEntity | null => {
+    const checkout = checkouts.get(checkoutId)
+    if (!checkout) return null
+    return {
+      id: `pay_stub_${checkoutId.split("_stub_")[1]}`,
+      order_id: checkoutId,
+      amount: checkout.amount,
+      currency: checkout.currency,
+      status: "captured",
+      method: "upi",
+      created_at: Math.floor(Date.now() / 1000),
+      notes: checkout.notes,
+    }
+  }
+
+  return {
+    orders: {
+      async create(options: { amount: number; currency: string; notes?: Record<string, string> }) {
+        const id = stubId("order")
+        checkouts.set(id, options)
+        return { id, amount: options.amount, currency: options.currency, status: "created" }
+      },
+      async fetchPayments(orderId: string) {
+        const payment = stubPayment(orderId)
+        return { items: payment ? [payment] : [] }
+      },
+    },
+    paymentLink: {
+      async create(options: { amount: number; currency: string; notes?: Record<string, string> }) {
+        const id = stubId("plink")
+        checkouts.set(id, options)
+        return {
+          id,
+          amount: options.amount,
+          currency: options.currency,
+          status: "created",
+          short_url: `${appUrl}/payment/callback?razorpay_payment_link_id=${id}`,
+        }
+      },
+      async fetch(linkId: string) {
+        const payment = stubPayment(linkId)
+        return {
+          id: linkId,
+          status: payment ? "paid" : "created",
+          payments: payment ? [{ ...payment, payment_id: payment.id }] : [],
+        }
+      },
+    },
+    payments: {
+      async fetch(paymentId: string) {
+        const checkoutId = [...checkouts.keys()].find((id) => paymentId === `pay_stub_${id.split("_stub_")[1]}`)
+        const payment = checkoutId ? stubPayment(checkoutId) : null
+        if (!payment) throw new Error(`Unknown stub payment ${paymentId}`)
+        return payment
+      },
+      async refund(
+        paymentId: string,
+        options: { amount: number; notes?: Record<string, string> },
+      ): Promise<RazorpayRefund> {
+        console.log(`[razorpay-stub] Refunding ${options.amount} paise for ${paymentId}`)
+        return {
+          id: stubId("rfnd"),
+          payment_id: paymentId,
+          amount: options.amount,
+          currency: "INR",
+          status: "processed",
+          created_at: Math.floor(Date.now() / 1000),
+          notes: options.notes,
+        }
+      },
+    },
+  }
+}
+
+let stubClient: ReturnType<typeof createStubClient> | null = null
+
+/**
+ * Returns a Razorpay client built from the current env, or the local stub
+ */
+export function getRazorpayClient() {
+  if (isRazorpayStubEnabled()) {
+    stubClient ??= createStubClient()
+    return stubClient
+  }
+
+  return new Razorpay({
+    key_id: process.env.RAZORPAY_KEY_ID || "",
+    key_secret: process.env.RAZORPAY_KEY_SECRET || "",
+  })
+}
+
+/**
+ * Refund (part of) a captured Razorpay payment. Amount is in rupees.
+ */
+export async function refundRazorpayPayment(
+  paymentId: string,
+  amount: number,
+  notes?: Record<string, string>,
+): Promise<RazorpayRefund> {
+  const client = getRazorpayClient()
+  return client.payments.refund(paymentId, {
+    amount: Math.round(amount * 100), // Convert to paise
+    speed: "normal",
+    notes,
+  })
+}
+
+function signaturesMatch(expected: string, received: string) {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(received)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+function hmacSha256(secret: string, payload: string) {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex")
+}
+
+function toProviderPayment(payment: RazorpayPaymentEntity): ProviderPayment {
+  return {
+    providerPaymentId: payment.id,
+    providerOrderId: payment.order_id,
+    // With payment_capture: 1, "authorized" only lasts until Razorpay auto-captures
+    status: payment.status === "captured" ? "captured" : payment.status === "failed" ? "failed" : "pending",
+    amount: payment.amount / 100, // paise to rupees
+    currency: payment.currency || "INR",
+    method: payment.method,
+    paidAt: payment.created_at ? new Date(payment.created_at * 1000) : undefined,
+    failureReason: payment.error_description,
+  }
+}
+
+export const razorpayProvider: PaymentProvider = {
+  id: "razorpay",
+
+  isConfigured: isRazorpayConfigured,
+
+  async create(request) {
+    const client = getRazorpayClient()
+    const amount = Math.round(request.amountInr * 100) // Convert to paise
+    const notes = { ...request.notes, userId: request.userId }
+
+    if (request.flow === "payment_link") {
+      // Payment links come with a QR code Razorpay can track
+      const paymentLink = await client.paymentLink.create({
+        amount,
+        currency: "INR",
+        description: request.description,
+        customer: {
+          name: request.customer?.name || "Customer",
+          email: request.customer?.email || "",
+        },
+        notify: { sms: false, email: false },
+        reminder_enable: false,
+        notes,
+        callback_url: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/payment/callback`,
+        callback_method: "get",
+      })
+
+      const qrCode =
+        paymentLink.qr_code ||
+        paymentLink.qr_code_url ||
+        paymentLink.qr_code_image ||
+        `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(paymentLink.short_url)}`
+
+      return {
+        providerOrderId: paymentLink.id,
+        flow: "payment_link",
+        amount: request.amountInr,
+        currency: "INR",
+        clientData: {
+          paymentLinkId: paymentLink.id,
+          shortUrl: paymentLink.short_url,
+          qrCode,
+          amount: paymentLink.amount,
+          currency: paymentLink.currency,
+        },
+      }
+    }
+
+    // Receipt must be max 40 characters
+    const receipt = `${request.reference.substring(0, 16)}_${Date.now().toString().slice(-8)}`
+    const order = await client.orders.create({
+      amount,
+      currency: "INR",
+      receipt,
+      notes,
+      payment_capture: 1, // Auto capture
+    })
+
+    return {
+      providerOrderId: order.id,
+      flow: "order",
+      amount: request.amountInr,
+      currency: "INR",
+      clientData: {
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        key: process.env.RAZORPAY_KEY_ID,
+      },
+    }
+  },
+
+  async verify({ providerOrderId, providerPaymentId, signature }) {
+    const client = getRazorpayClient()
+
+    if (signature) {
+      const expected = hmacSha256(process.env.RAZORPAY_KEY_SECRET || "", `${providerOrderId}|${providerPaymentId}`)
+      if (!providerPaymentId || (!isRazorpayStubEnabled() && !signaturesMatch(expected, signature))) {
+        throw new Error("Invalid payment signature")
+      }
+      const payment: RazorpayPaymentEntity = await client.payments.fetch(providerPaymentId)
+      if (payment.order_id && payment.order_id !== providerOrderId) {
+        throw new Error("Payment does not belong to this order")
+      }
+      return [toProviderPayment(payment)]
+    }
+
+    if (providerOrderId.startsWith("plink_")) {
+      const paymentLink = await client.paymentLink.fetch(providerOrderId)
+      const linkPayments: RazorpayLinkPayment[] = paymentLink.payments || []
+      return linkPayments.map((payment) =>
+        toProviderPayment({ ...payment, id: payment.payment_id, order_id: providerOrderId }),
+      )
+    }
+
+    const payments: { items?: RazorpayPaymentEntity[] } = await client.orders.fetchPayments(providerOrderId)
+    return (payments.items || []).map(toProviderPayment)
+  },
+
+  async capture(providerOrderId) {
+    // Orders are created with payment_capture: 1, so Razorpay captures on its own
+    const payments = await razorpayProvider.verify({ providerOrderId })
+    const captured = payments.find((payment) => payment.status === "captured")
+    if (!captured) {
+      throw new Error("No captured payment for this order yet")
+    }
+    return captured
+  },
+
+  async refund(providerPaymentId, amount, notes) {
+    const refund = await refundRazorpayPayment(providerPaymentId, amount, notes)
+    return { providerRefundId: refund.id, status: refund.status }
+  },
+
+  async parseWebhook(body, headers) {
+    const signature = headers.get("x-razorpay-signature")
+    const expected = hmacSha256(process.env.RAZORPAY_WEBHOOK_SECRET || "", body)
+    if (!signature || !signaturesMatch(expected, signature)) {
+      throw new Error("Invalid webhook signature")
+    }
+
+    const event = JSON.parse(body)
+    const entity: RazorpayPaymentEntity | undefined = event.payload?.payment?.entity
+    const refund: RazorpayRefund | undefined = event.payload?.refund?.entity
+    // payment_link.* events carry the link, which is what the checkout was recorded under
+    const paymentLinkId: string | undefined = event.payload?.payment_link?.entity?.id
+
+    return {
+      // Redeliveries keep the event id; older webhook configs don't send it, so fall back to the payload
+      eventId: headers.get("x-razorpay-event-id") || crypto.createHash("sha256").update(body).digest("hex"),
+      event: event.event,
+      // A refund event's payment is the refunded one, not a new outcome to settle
+      payment:
+        entity && !refund ? { ...toProviderPayment(entity), providerOrderId: paymentLinkId ?? entity.order_id } : undefined,
+      refund: refund
+        ? {
+            providerRefundId: refund.id,
+            providerPaymentId: refund.payment_id,
+            amount: refund.amount / 100, // paise to rupees
+            status: refund.status,
+          }
+        : undefined,
+      notes: entity?.notes ?? refund?.notes,
+    }
+  },
+}
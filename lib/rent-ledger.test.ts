@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { getInvoiceBalance, getLateFee, getRentPeriods, isInvoiceOverdue } from "@/lib/rent-ledger"
+
+const checkInDate = new Date(2026, 0, 10)
+
+describe("getRentPeriods", () => {
+  it("starts the month after check-in, since the booking paid the first month", () => {
+    const periods = getRentPeriods({ checkInDate, price: 9000 }, new Date(2026, 3, 1))
+    expect(periods.map((period) => period.start)).toEqual([new Date(2026, 1, 10), new Date(2026, 2, 10)])
+    expect(periods.every((period) => period.amount === 9000)).toBe(true)
+    expect(periods[0].end).toEqual(new Date(2026, 2, 10))
+  })
+
+  it("pro-rates a final partial month by days", () => {
+    const periods = getRentPeriods(
+      { checkInDate, checkOutDate: new Date(2026, 2, 24), price: 9000 },
+      new Date(2026, 11, 31),
+    )
+    expect(periods).toHaveLength(2)
+    expect(periods[1]).toEqual({ start: new Date(2026, 2, 10), end: new Date(2026, 2, 24), amount: 4065 })
+  })
+
+  it("stops at check-out", () => {
+    const periods = getRentPeriods(
+      { checkInDate, checkOutDate: new Date(2026, 1, 10), price: 9000 },
+      new Date(2026, 11, 31),
+    )
+    expect(periods).toEqual([])
+  })
+})
+
+describe("getInvoiceBalance", () => {
+  it("adds the late fee and takes off payments", () => {
+    expect(getInvoiceBalance({ rentAmount: 9000, lateFee: 450, amountPaid: 4000 })).toBe(5450)
+  })
+
+  it("never goes below zero", () => {
+    expect(getInvoiceBalance({ rentAmount: 9000, lateFee: 0, amountPaid: 9500 })).toBe(0)
+  })
+})
+
+describe("getLateFee", () => {
+  it("charges the late fee percentage of the rent, rounded to the rupee", () => {
+    expect(getLateFee({ rentAmount: 9000 })).toBe(450)
+    expect(getLateFee({ rentAmount: 4065 })).toBe(203)
+  })
+})
+
+describe("isInvoiceOverdue", () => {
+  const now = new Date(2026, 1, 20)
+
+  it("flags unpaid invoices past their due date", () => {
+    expect(isInvoiceOverdue({ status: "open", dueDate: new Date(2026, 1, 15) }, now)).toBe(true)
+    expect(isInvoiceOverdue({ status: "partially_paid", dueDate: new Date(2026, 1, 15) }, now)).toBe(true)
+  })
+
+  it("ignores invoices not yet due, paid or voided", () => {
+    expect(isInvoiceOverdue({ status: "open", dueDate: new Date(2026, 1, 25) }, now)).toBe(false)
+    expect(isInvoiceOverdue({ status: "paid", dueDate: new Date(2026, 1, 15) }, now)).toBe(false)
+    expect(isInvoiceOverdue({ status: "void", dueDate: new Date(2026, 1, 15) }, now)).toBe(false)
+  })
+})
@@ -0,0 +1,307 @@
+import { addDays, addMonths, differenceInCalendarDays, format } from "date-fns"
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import { Property } from "@/models/property"
+import { RentInvoice, type IRentInvoice, type IRentPayment } from "@/models/rent-invoice"
+import { createNotification } from "@/lib/notification-helper"
+import { refId } from "@/lib/utils"
+
+/**
+ * Rent ledger for confirmed bookings
+ *
+ * The booking itself collects the first month's rent. Every month after that
+ * gets a RentInvoice generated from `booking.price` a few days before the
+ * period starts, due RENT_DUE_GRACE_DAYS into the period. Unpaid invoices
+ * pick up a one-off late fee once the due date passes. Payments can be partial
+ * and are keyed by reference, so a gateway retry never books the same money twice.
+ * Unpaid invoices a booking no longer owes (cancelled, ended, shortened) are voided.
+ */
+
+export const RENT_DUE_GRACE_DAYS = Number(process.env.RENT_DUE_GRACE_DAYS) || 5
+export const RENT_LATE_FEE_PERCENT = Number(process.env.RENT_LATE_FEE_PERCENT) || 5
+export const RENT_INVOICE_LEAD_DAYS = 7
+
+// Safety cap on how many months a single booking can generate
+const MAX_RENT_PERIODS = 60
+
+export interface RentPeriod {
+  start: Date
+  end: Date
+  amount: number
+}
+
+/**
+ * Monthly periods after the first month, up to `until` (and never past check-out).
+ * A final partial month is pro-rated by days.
+ */
+export function getRentPeriods(
+  booking: { checkInDate: Date; checkOutDate?: Date | null; price: number },
+  until: Date,
+): RentPeriod[] {
+  const checkIn = new Date(booking.checkInDate)
+  const checkOut = booking.checkOutDate ? new Date(booking.checkOutDate) : null
+  const periods: RentPeriod[] = []
+
+  for (let month = 1; month <= MAX_RENT_PERIODS; month++) {
+    const start = addMonths(checkIn, month)
+    if (start > until) break
+    if (checkOut && start >= checkOut) break
+
+    const fullEnd = addMonths(checkIn, month + 1)
+    const end = checkOut && checkOut < fullEnd ? checkOut : fullEnd
+    const fullDays = differenceInCalendarDays(fullEnd, start)
+    const days = differenceInCalendarDays(end, start)
+    const amount = days >= fullDays ? booking.price : Math.round((booking.price * days) / fullDays)
+
+    periods.push({ start, end, amount })
+  }
+
+  return periods
+}
+
+export function getInvoiceBalance(invoice: Pick<IRentInvoice, "rentAmount" | "lateFee" | "amountPaid">) {
+  return Math.max(0, invoice.rentAmount + (invoice.lateFee || 0) - (invoice.amountPaid || 0))
+}
+
+export function getLateFee(invoice: Pick<IRentInvoice, "rentAmount">) {
+  return Math.round((invoice.rentAmount * RENT_LATE_FEE_PERCENT) / 100)
+}
+
+export function isInvoiceOverdue(invoice: Pick<IRentInvoice, "status" | "dueDate">, now: Date = new Date()) {
+  return (invoice.status === "open" || invoice.status === "partially_paid") && new Date(invoice.dueDate) < now
+}
+
+function buildInvoiceNumber(bookingId: string, periodStart: Date) {
+  return `RENT-${format(periodStart, "yyyyMM")}-${bookingId.slice(-8).toUpperCase()}`
+}
+
+/**
+ * Create any missing invoices for a booking. Returns how many were created.
+ */
+export async function generateInvoicesForBooking(booking: IBooking, now: Date = new Date()) {
+  const property = await Property.findById(booking.property).select("owner title").lean<{
+    owner: mongoose.Types.ObjectId
+    title?: string
+  }>()
+  if (!property) return 0
+
+  const bookingId = booking._id.toString()
+  const periods = getRentPeriods(booking, addDays(now, RENT_INVOICE_LEAD_DAYS))
+  let created = 0
+
+  for (const period of periods) {
+    const dueDate = addDays(period.start, RENT_DUE_GRACE_DAYS)
+    const result = await RentInvoice.updateOne(
+      { booking: booking._id, periodStart: period.start },
+      {
+        $setOnInsert: {
+          booking: booking._id,
+          tenant: booking.user,
+          owner: property.owner,
+          property: booking.property,
+          invoiceNumber: buildInvoiceNumber(bookingId, period.start),
+          periodStart: period.start,
+          periodEnd: period.end,
+          dueDate,
+          rentAmount: period.amount,
+          lateFee: 0,
+          amountPaid: 0,
+          status: "open",
+          createdAt: now,
+        },
+      },
+      { upsert: true },
+    )
+
+    if (result.upsertedCount > 0) {
+      created++
+      await createNotification({
+        userId: refId(booking.user),
+        type: "payment",
+        title: "Rent invoice generated",
+        message: `Rent of ₹${period.amount.toLocaleString("en-IN")} for ${property.title || "your stay"} (${format(period.start, "d MMM")} – ${format(period.end, "d MMM yyyy")}) is due by ${format(dueDate, "d MMM yyyy")}.`,
+        link: "/profile?tab=bookings",
+        priority: "medium",
+        metadata: { bookingId, rentInvoiceId: String(result.upsertedId), amount: period.amount },
+      })
+    }
+  }
+
+  return created
+}
+
+/**
+ * Generate upcoming invoices for every active paid booking (scheduled job)
+ */
+export async function generateDueRentInvoices(now: Date = new Date()) {
+  const bookings = await Booking.find({ status: "confirmed", paymentStatus: "paid" })
+  let created = 0
+
+  for (const booking of bookings) {
+    try {
+      created += await generateInvoicesForBooking(booking, now)
+    } catch (error) {
+      console.error(`Error generating rent invoices for booking ${booking._id}:`, error)
+    }
+  }
+
+  return { bookings: bookings.length, created }
+}
+
+/**
+ * Void the unpaid invoices of a booking: all of them when it is cancelled, or
+ * those for periods starting on or after `from` when the stay ends early.
+ * Invoices with money on them are left for the owner to settle.
+ */
+export async function voidRentInvoices(
+  bookingId: mongoose.Types.ObjectId | string,
+  options: { from?: Date } = {},
+  now: Date = new Date(),
+) {
+  const query: Record<string, unknown> = { booking: bookingId, status: "open", amountPaid: { $lte: 0 } }
+  if (options.from) query.periodStart = { $gte: options.from }
+
+  const result = await RentInvoice.updateMany(query, { $set: { status: "void", updatedAt: now } })
+  return result.modifiedCount
+}
+
+/**
+ * Add the late fee to invoices that went past their due date unpaid (scheduled job).
+ * Only bookings still running are charged.
+ */
+export async function applyLateFees(now: Date = new Date()) {
+  const overdue: IRentInvoice[] = await RentInvoice.find({
+    status: { $in: ["open", "partially_paid"] },
+    dueDate: { $lt: now },
+    lateFeeAppliedAt: { $exists: false },
+  })
+  const activeBookingIds = new Set(
+    (
+      await Booking.find({ _id: { $in: overdue.map((invoice) => invoice.booking) }, status: "confirmed" })
+        .select("_id")
+        .lean<Array<{ _id: mongoose.Types.ObjectId }>>()
+    ).map((booking) => booking._id.toString()),
+  )
+  let applied = 0
+
+  for (const invoice of overdue) {
+    if (!activeBookingIds.has(invoice.booking.toString())) continue
+
+    const lateFee = getLateFee(invoice)
+    const result = await RentInvoice.updateOne(
+      { _id: invoice._id, lateFeeAppliedAt: { $exists: false } },
+      { $set: { lateFee, lateFeeAppliedAt: now, updatedAt: now } },
+    )
+    if (result.modifiedCount === 0) continue
+
+    applied++
+    await createNotification({
+      userId: refId(invoice.tenant),
+      type: "payment",
+      title: "Rent overdue",
+      message: `Invoice ${invoice.invoiceNumber} is past its due date. A late fee of ₹${lateFee.toLocaleString("en-IN")} has been added.`,
+      link: "/profile?tab=bookings",
+      priority: "high",
+      metadata: { rentInvoiceId: invoice._id.toString(), amount: lateFee },
+    })
+  }
+
+  return { checked: overdue.length, applied }
+}
+
+export type RentPaymentResult =
+  | { success: true; invoice: IRentInvoice; duplicate: boolean }
+  | { success: false; error: string; status: number }
+
+/**
+ * Record money received against an invoice. Recording the same reference
+ * twice is a no-op, so gateway callbacks can be replayed safely.
+ */
+export async function recordRentPayment(
+  invoiceId: string,
+  payment: Omit<IRentPayment, "paidAt" | "recordedBy"> & { paidAt?: Date; recordedBy?: string },
+): Promise<RentPaymentResult> {
+  if (!(payment.amount > 0)) {
+    return { success: false, error: "Payment amount must be positive", status: 400 }
+  }
+
+  const now = new Date()
+  const updated: IRentInvoice | null = await RentInvoice.findOneAndUpdate(
+    { _id: invoiceId, status: { $ne: "void" }, "payments.reference": { $ne: payment.reference } },
+    {
+      $push: {
+        payments: {
+          amount: payment.amount,
+          method: payment.method,
+          reference: payment.reference,
+          recordedBy: payment.recordedBy,
+          paidAt: payment.paidAt ?? now,
+        },
+      },
+      $inc: { amountPaid: payment.amount },
+      $set: { updatedAt: now },
+    },
+    { new: true },
+  )
+
+  if (!updated) {
+    const existing: IRentInvoice | null = await RentInvoice.findById(invoiceId)
+    if (!existing) return { success: false, error: "Rent invoice not found", status: 404 }
+    if (existing.status === "void") return { success: false, error: "This invoice has been voided", status: 400 }
+    return { success: true, invoice: existing, duplicate: true }
+  }
+
+  const fullyPaid = getInvoiceBalance(updated) <= 0
+  updated.status = fullyPaid ? "paid" : "partially_paid"
+  if (fullyPaid) updated.paidAt = now
+  await RentInvoice.updateOne({ _id: updated._id }, { $set: { status: updated.status, paidAt: updated.paidAt } })
+
+  const metadata = { rentInvoiceId: updated._id.toString(), bookingId: refId(updated.booking), amount: payment.amount }
+  await createNotification({
+    userId: refId(updated.tenant),
+    type: "payment",
+    title: fullyPaid ? "Rent paid" : "Partial rent payment received",
+    message: fullyPaid
+      ? `Invoice ${updated.invoiceNumber} is fully paid. Thank you!`
+      : `₹${payment.amount.toLocaleString("en-IN")} received for invoice ${updated.invoiceNumber}. ₹${getInvoiceBalance(updated).toLocaleString("en-IN")} remaining.`,
+    link: "/profile?tab=bookings",
+    priority: "medium",
+    metadata,
+  })
+  await createNotification({
+    userId: refId(updated.owner),
+    type: "payment",
+    title: "Rent payment received",
+    message: `₹${payment.amount.toLocaleString("en-IN")} received for invoice ${updated.invoiceNumber}.`,
+    link: "/profile?tab=rent",
+    priority: "medium",
+    metadata,
+  })
+
+  return { success: true, invoice: updated, duplicate: false }
+}
+
+/**
+ * Load an invoice the tenant is about to pay, checking it is theirs and open
+ */
+export async function getPayableInvoice(
+  invoiceId: string,
+  userId: string,
+): Promise<{ invoice: IRentInvoice; balance: number } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(invoiceId)) {
+    return { error: "Invalid rent invoice ID", status: 400 }
+  }
+
+  const invoice: IRentInvoice | null = await RentInvoice.findById(invoiceId)
+  if (!invoice) {
+    return { error: "Rent invoice not found", status: 404 }
+  }
+  if (invoice.tenant.toString() !== userId) {
+    return { error: "You don't have permission to pay this invoice", status: 403 }
+  }
+  if (invoice.status === "paid" || invoice.status === "void") {
+    return { error: `This invoice is already ${invoice.status}`, status: 400 }
+  }
+
+  return { invoice, balance: getInvoiceBalance(invoice) }
+}
@@ -0,0 +1,24 @@
+/**
+ * Room type helpers shared by the server and the listing pages
+ *
+ * Room types are free text set by owners ("single", "double", "Triple
+ * Sharing", "4 sharing", ...), so the bed count is read from the name.
+ */
+
+/**
+ * Beds in a room of this type
+ */
+export function bedsPerRoom(roomType: string): number {
+  const type = roomType.toLowerCase()
+  const digits = type.match(/\d+/)
+  if (digits) return Math.max(1, Number(digits[0]))
+  if (type.includes("single")) return 1
+  if (type.includes("double") || type.includes("twin")) return 2
+  if (type.includes("triple")) return 3
+  if (type.includes("four") || type.includes("quad")) return 4
+  return type.includes("shar") || type.includes("dorm") ? 2 : 1
+}
+
+export function isSharedRoomType(roomType: string) {
+  return bedsPerRoom(roomType) > 1
+}
@@ -0,0 +1,574 @@
+import mongoose from "mongoose"
+import { Booking } from "@/models/booking"
+import { Property } from "@/models/property"
+import { getUserModel } from "@/models/user"
+import {
+  RoommateProfile,
+  type DietPreference,
+  type IRoommateProfile,
+  type SleepSchedule,
+  type SmokingHabit,
+  type StudyHabit,
+} from "@/models/roommate-profile"
+import { RoommateConnection, type IRoommateConnection } from "@/models/roommate-connection"
+import { createNotification } from "@/lib/notification-helper"
+import { isSharedRoomType } from "@/lib/room-types"
+import { refId } from "@/lib/utils"
+
+/**
+ * Roommate matching for shared rooms
+ *
+ * Students opt in with a short profile (sleep schedule, diet, study habits,
+ * smoking; college comes from their account) and the properties or areas
+ * they are looking at. Suggestions are other opted-in students interested in
+ * the same property or area, or holding a shared-room booking there, ranked by
+ * scoreCompatibility(). Only a first name, college and the profile answers are
+ * shown until both sides agree: a connection request accepted by the other
+ * student unlocks phone and email. Connected students can then book beds
+ * together: a listing's group booking dialog offers them as invitees, and a
+ * connection made for a property links straight to it with the roommate
+ * already invited (see lib/booking-groups).
+ */
+
+type RoommateFailure = { success: false; error: string; status: number }
+
+type ProfileAnswers = Pick<IRoommateProfile, "sleepSchedule" | "diet" | "studyHabits" | "smoking">
+
+export const ROOMMATE_OPTIONS = {
+  sleepSchedule: [
+    { value: "early_bird", label: "Early bird" },
+    { value: "night_owl", label: "Night owl" },
+    { value: "flexible", label: "Flexible" },
+  ],
+  diet: [
+    { value: "veg", label: "Vegetarian" },
+    { value: "jain", label: "Jain" },
+    { value: "vegan", label: "Vegan" },
+    { value: "eggetarian", label: "Eggetarian" },
+    { value: "non_veg", label: "Non-vegetarian" },
+  ],
+  studyHabits: [
+    { value: "quiet", label: "Needs quiet" },
+    { value: "music", label: "Studies with music" },
+    { value: "group", label: "Group study" },
+    { value: "flexible", label: "Flexible" },
+  ],
+  smoking: [
+    { value: "never", label: "Non-smoker" },
+    { value: "outside", label: "Smokes outside only" },
+    { value: "yes", label: "Smoker" },
+  ],
+} as const
+
+// Points per answer; they add up to 100
+const WEIGHTS = { sleepSchedule: 25, diet: 20, studyHabits: 20, smoking: 25, college: 10 }
+
+// Suggestions below this score aren't shown
+const MIN_SUGGESTION_SCORE = 40
+const MAX_SUGGESTIONS = 20
+const MAX_INTERESTS = 10
+const MAX_PENDING_REQUESTS = 20
+
+const VEG_DIETS: DietPreference[] = ["veg", "jain", "vegan", "eggetarian"]
+
+function normalizeCollege(college?: string) {
+  return (college || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()
+}
+
+function pairKey(a: string, b: string) {
+  return [a, b].sort().join(":")
+}
+
+function firstName(name?: string) {
+  return (name || "Student").trim().split(/\s+/)[0]
+}
+
+function pickOption<T extends string>(value: unknown, options: ReadonlyArray<{ value: T }>): T | null {
+  return options.find((option) => option.value === value)?.value ?? null
+}
+
+/**
+ * How well two students would share a room, 0-100, with the reasons
+ */
+export function scoreCompatibility(
+  a: ProfileAnswers & { college?: string },
+  b: ProfileAnswers & { college?: string },
+): { score: number; matches: string[]; conflicts: string[] } {
+  const matches: string[] = []
+  const conflicts: string[] = []
+
+  let sleep = 0
+  if (a.sleepSchedule === b.sleepSchedule) {
+    sleep = 1
+    if (a.sleepSchedule !== "flexible") matches.push(a.sleepSchedule === "early_bird" ? "Both early birds" : "Both night owls")
+  } else if (a.sleepSchedule === "flexible" || b.sleepSchedule === "flexible") {
+    sleep = 0.7
+  } else {
+    conflicts.push("Different sleep schedules")
+  }
+
+  let diet = 0
+  if (a.diet === b.diet) {
+    diet = 1
+    matches.push("Same diet")
+  } else if (VEG_DIETS.includes(a.diet as DietPreference) && VEG_DIETS.includes(b.diet as DietPreference)) {
+    diet = 0.7
+  } else {
+    diet = 0.3
+    conflicts.push("Veg and non-veg")
+  }
+
+  let study = 0
+  if (a.studyHabits === b.studyHabits) {
+    study = 1
+    if (a.studyHabits !== "flexible") matches.push("Similar study habits")
+  } else if (a.studyHabits === "flexible" || b.studyHabits === "flexible") {
+    study = 0.7
+  } else if (a.studyHabits === "quiet" || b.studyHabits === "quiet") {
+    study = 0.2
+    conflicts.push("One needs quiet to study")
+  } else {
+    study = 0.5
+  }
+
+  let smoking = 0
+  if (a.smoking === "never" && b.smoking === "never") {
+    smoking = 1
+    matches.push("Both non-smokers")
+  } else if (a.smoking === "never" || b.smoking === "never") {
+    smoking = a.smoking === "yes" || b.smoking === "yes" ? 0 : 0.5
+    conflicts.push("Smoking")
+  } else {
+    smoking = 1
+  }
+
+  let college = 0.5
+  const collegeA = normalizeCollege(a.college)
+  const collegeB = normalizeCollege(b.college)
+  if (collegeA && collegeB) {
+    college = collegeA === collegeB ? 1 : 0
+    if (college === 1) matches.push("Same college")
+  }
+
+  const score =
+    WEIGHTS.sleepSchedule * sleep +
+    WEIGHTS.diet * diet +
+    WEIGHTS.studyHabits * study +
+    WEIGHTS.smoking * smoking +
+    WEIGHTS.college * college
+
+  return { score: Math.round(score), matches, conflicts }
+}
+
+/**
+ * Create or update the user's roommate profile from request JSON
+ */
+export async function saveRoommateProfile(
+  userId: string,
+  input: Record<string, unknown>,
+  now = new Date(),
+): Promise<{ success: true; profile: IRoommateProfile } | RoommateFailure> {
+  const sleepSchedule = pickOption<SleepSchedule>(input.sleepSchedule, ROOMMATE_OPTIONS.sleepSchedule)
+  const diet = pickOption<DietPreference>(input.diet, ROOMMATE_OPTIONS.diet)
+  const studyHabits = pickOption<StudyHabit>(input.studyHabits, ROOMMATE_OPTIONS.studyHabits)
+  const smoking = pickOption<SmokingHabit>(input.smoking, ROOMMATE_OPTIONS.smoking)
+  if (!sleepSchedule || !diet || !studyHabits || !smoking) {
+    return { success: false, error: "Answer every question", status: 400 }
+  }
+
+  const bio = typeof input.bio === "string" ? input.bio.trim().slice(0, 300) : ""
+  const moveInMonth = typeof input.moveInMonth === "string" ? input.moveInMonth.trim() : ""
+  if (moveInMonth && !/^\d{4}-(0[1-9]|1[0-2])$/.test(moveInMonth)) {
+    return { success: false, error: "Invalid move-in month", status: 400 }
+  }
+
+  const areas = Array.isArray(input.areas)
+    ? Array.from(
+        new Set(
+          input.areas
+            .filter((area): area is string => typeof area === "string")
+            .map((area) => area.trim().toLowerCase())
+            .filter((area) => area.length >= 2),
+        ),
+      ).slice(0, MAX_INTERESTS)
+    : undefined
+
+  const profile: IRoommateProfile = await RoommateProfile.findOneAndUpdate(
+    { user: userId },
+    {
+      $set: {
+        active: input.active !== false,
+        sleepSchedule,
+        diet,
+        studyHabits,
+        smoking,
+        bio,
+        moveInMonth,
+        ...(areas ? { areas } : {}),
+        updatedAt: now,
+      },
+      $setOnInsert: { user: userId, properties: [], createdAt: now },
+    },
+    { upsert: true, new: true },
+  )
+
+  return { success: true, profile }
+}
+
+/**
+ * Follow a property with shared rooms for roommate suggestions
+ */
+export async function addPropertyInterest(
+  userId: string,
+  propertyId: unknown,
+  now = new Date(),
+): Promise<{ success: true; profile: IRoommateProfile } | RoommateFailure> {
+  if (typeof propertyId !== "string" || !mongoose.Types.ObjectId.isValid(propertyId)) {
+    return { success: false, error: "Invalid property ID", status: 400 }
+  }
+
+  const property = await Property.findById(propertyId).select("roomTypes").lean<{ roomTypes?: Array<{ type: string }> }>()
+  if (!property) {
+    return { success: false, error: "Property not found", status: 404 }
+  }
+  if (!property.roomTypes?.some((room) => isSharedRoomType(room.type))) {
+    return { success: false, error: "This property has no shared rooms", status: 400 }
+  }
+
+  const existing: IRoommateProfile | null = await RoommateProfile.findOne({ user: userId })
+  if (existing && existing.properties.length >= MAX_INTERESTS && !existing.properties.some((id) => String(id) === propertyId)) {
+    return { success: false, error: `You can follow up to ${MAX_INTERESTS} properties`, status: 400 }
+  }
+
+  // A first interest creates an inactive profile; matching starts once it is filled in
+  const profile: IRoommateProfile = await RoommateProfile.findOneAndUpdate(
+    { user: userId },
+    { $addToSet: { properties: propertyId }, $set: { updatedAt: now }, $setOnInsert: { user: userId, createdAt: now } },
+    { upsert: true, new: true },
+  )
+
+  return { success: true, profile }
+}
+
+export async function removePropertyInterest(userId: string, propertyId: string, now = new Date()) {
+  if (!mongoose.Types.ObjectId.isValid(propertyId)) return null
+  return RoommateProfile.findOneAndUpdate(
+    { user: userId },
+    { $pull: { properties: propertyId }, $set: { updatedAt: now } },
+    { new: true },
+  )
+}
+
+// Properties where the user holds a shared-room booking
+async function bookedSharedProperties(userIds: string[]) {
+  const bookings = await Booking.find({ user: { $in: userIds }, status: { $in: ["pending", "confirmed"] } })
+    .select("user property roomType")
+    .lean<Array<{ user: mongoose.Types.ObjectId; property: mongoose.Types.ObjectId; roomType: string }>>()
+  return bookings.filter((booking) => isSharedRoomType(booking.roomType))
+}
+
+type SuggestionUser = { _id: mongoose.Types.ObjectId; name?: string; college?: string; gender?: string }
+
+/**
+ * Compatible students interested in the same property or area, best first.
+ * `propertyId` narrows them to one property.
+ */
+export async function getRoommateSuggestions(userId: string, options: { propertyId?: string } = {}) {
+  const profile: IRoommateProfile | null = await RoommateProfile.findOne({ user: userId })
+  if (!profile?.active) {
+    return { success: false as const, error: "Turn on roommate matching first", status: 400 }
+  }
+
+  const myBookings = await bookedSharedProperties([userId])
+  let propertyIds = Array.from(
+    new Set([...profile.properties.map(String), ...myBookings.map((booking) => String(booking.property))]),
+  )
+  let areas = [...profile.areas]
+  if (options.propertyId) {
+    if (!mongoose.Types.ObjectId.isValid(options.propertyId)) {
+      return { success: false as const, error: "Invalid property ID", status: 400 }
+    }
+    propertyIds = [options.propertyId]
+    areas = []
+  }
+
+  const properties = await Property.find({ _id: { $in: propertyIds } })
+    .select("title location")
+    .lean<Array<{ _id: mongoose.Types.ObjectId; title?: string; location?: string }>>()
+  if (!options.propertyId) {
+    for (const property of properties) {
+      if (property.location) areas.push(property.location.trim().toLowerCase())
+    }
+  }
+  areas = Array.from(new Set(areas))
+  if (propertyIds.length === 0 && areas.length === 0) {
+    return { success: true as const, suggestions: [] }
+  }
+
+  // Students booked into those properties' shared rooms, whatever they follow
+  const bookedThere = await Booking.find({
+    property: { $in: propertyIds },
+    status: { $in: ["pending", "confirmed"] },
+    user: { $ne: userId },
+  })
+    .select("user property roomType")
+    .lean<Array<{ user: mongoose.Types.ObjectId; property: mongoose.Types.ObjectId; roomType: string }>>()
+  const bookedShared = bookedThere.filter((booking) => isSharedRoomType(booking.roomType))
+
+  const candidates: IRoommateProfile[] = await RoommateProfile.find({
+    active: true,
+    user: { $ne: userId },
+    $or: [
+      { properties: { $in: propertyIds } },
+      ...(areas.length > 0 ? [{ areas: { $in: areas } }] : []),
+      { user: { $in: bookedShared.map((booking) => booking.user) } },
+    ],
+  }).limit(500)
+  if (candidates.length === 0) {
+    return { success: true as const, suggestions: [] }
+  }
+
+  const User = await getUserModel()
+  const users = await User.find({ _id: { $in: [userId, ...candidates.map((candidate) => candidate.user)] } })
+    .select("name college gender")
+    .lean<SuggestionUser[]>()
+  const me = users.find((user) => String(user._id) === userId)
+  const connections: IRoommateConnection[] = await RoommateConnection.find({
+    $or: [{ requester: userId }, { recipient: userId }],
+  })
+
+  const propertiesById = new Map(properties.map((property) => [String(property._id), property]))
+  const suggestions = []
+  for (const candidate of candidates) {
+    const candidateId = refId(candidate.user)
+    const user = users.find((entry) => String(entry._id) === candidateId)
+    if (!user) continue
+    // Shared rooms in PGs are single-gender
+    if (me?.gender && user.gender && me.gender.toLowerCase() !== user.gender.toLowerCase()) continue
+
+    const connection = connections.find((entry) => entry.pairKey === pairKey(userId, candidateId))
+    // Don't suggest someone who declined, or whom the user declined
+    if (connection?.status === "declined") continue
+
+    const { score, matches, conflicts } = scoreCompatibility(
+      { ...profile.toObject(), college: me?.college },
+      { ...candidate.toObject(), college: user.college },
+    )
+    if (score < MIN_SUGGESTION_SCORE && connection?.status !== "accepted") continue
+
+    const sharedPropertyIds = new Set([
+      ...candidate.properties.map(String).filter((id) => propertyIds.includes(id)),
+      ...bookedShared.filter((booking) => String(booking.user) === candidateId).map((booking) => String(booking.property)),
+    ])
+
+    suggestions.push({
+      userId: candidateId,
+      name: firstName(user.name),
+      college: user.college,
+      sleepSchedule: candidate.sleepSchedule,
+      diet: candidate.diet,
+      studyHabits: candidate.studyHabits,
+      smoking: candidate.smoking,
+      bio: candidate.bio,
+      moveInMonth: candidate.moveInMonth,
+      score,
+      matches,
+      conflicts,
+      sharedProperties: Array.from(sharedPropertyIds).map((id) => ({
+        _id: id,
+        title: propertiesById.get(id)?.title,
+      })),
+      sharedAreas: candidate.areas.filter((area) => areas.includes(area)),
+      bookedHere: bookedShared.some((booking) => String(booking.user) === candidateId),
+      connection: connection
+        ? {
+            _id: String(connection._id),
+            status: connection.status,
+            direction: refId(connection.requester) === userId ? "outgoing" : "incoming",
+          }
+        : null,
+    })
+  }
+
+  suggestions.sort((a, b) => Number(b.bookedHere) - Number(a.bookedHere) || b.score - a.score)
+  return { success: true as const, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) }
+}
+
+/**
+ * Ask another opted-in student to connect. If they had already asked, this accepts.
+ */
+export async function requestConnection(
+  userId: string,
+  input: { userId?: unknown; propertyId?: unknown; message?: unknown },
+  now = new Date(),
+): Promise<{ success: true; connection: IRoommateConnection } | RoommateFailure> {
+  const targetId = input.userId
+  if (typeof targetId !== "string" || !mongoose.Types.ObjectId.isValid(targetId) || targetId === userId) {
+    return { success: false, error: "Invalid student", status: 400 }
+  }
+
+  const [mine, theirs]: Array<IRoommateProfile | null> = await Promise.all([
+    RoommateProfile.findOne({ user: userId }),
+    RoommateProfile.findOne({ user: targetId }),
+  ])
+  if (!mine?.active) {
+    return { success: false, error: "Turn on roommate matching first", status: 400 }
+  }
+  if (!theirs?.active) {
+    return { success: false, error: "This student isn't looking for roommates", status: 404 }
+  }
+
+  const propertyId =
+    typeof input.propertyId === "string" && mongoose.Types.ObjectId.isValid(input.propertyId) ? input.propertyId : undefined
+  const message = typeof input.message === "string" ? input.message.trim().slice(0, 300) : ""
+  const key = pairKey(userId, targetId)
+
+  const existing: IRoommateConnection | null = await RoommateConnection.findOne({ pairKey: key })
+  if (existing) {
+    if (existing.status === "accepted") return { success: true, connection: existing }
+    if (existing.status === "pending") {
+      if (refId(existing.recipient) === userId) return respondToConnection(existing, userId, "accept", now)
+      return { success: false, error: "You've already asked", status: 409 }
+    }
+    // Only the student who declined can restart a declined pair
+    if (existing.status === "declined" && refId(existing.recipient) !== userId) {
+      return { success: false, error: "This student isn't available to connect", status: 403 }
+    }
+  }
+
+  const pending = await RoommateConnection.countDocuments({ requester: userId, status: "pending" })
+  if (pending >= MAX_PENDING_REQUESTS) {
+    return { success: false, error: "You have too many requests waiting for a reply", status: 429 }
+  }
+
+  const { score } = scoreCompatibility(mine.toObject(), theirs.toObject())
+  const connection: IRoommateConnection = await RoommateConnection.findOneAndUpdate(
+    { pairKey: key },
+    {
+      $set: {
+        requester: userId,
+        recipient: targetId,
+        status: "pending",
+        message,
+        score,
+        updatedAt: now,
+        ...(propertyId ? { property: propertyId } : {}),
+      },
+      $unset: { respondedAt: 1, ...(propertyId ? {} : { property: 1 }) },
+      $setOnInsert: { createdAt: now },
+    },
+    { upsert: true, new: true },
+  )
+
+  const User = await getUserModel()
+  const requester = await User.findById(userId).select("name college").lean<{ name?: string; college?: string }>()
+  await createNotification({
+    userId: targetId,
+    type: "message",
+    title: "Roommate request",
+    message: `${firstName(requester?.name)}${requester?.college ? ` from ${requester.college}` : ""} would like to be roommates (${score}% match).`,
+    link: "/profile?tab=roommates",
+    priority: "medium",
+    metadata: { connectionId: String(connection._id) },
+  })
+
+  return { success: true, connection }
+}
+
+/**
+ * Accept or decline (the recipient), or withdraw (the requester) a pending request
+ */
+export async function respondToConnection(
+  connection: IRoommateConnection,
+  userId: string,
+  action: unknown,
+  now = new Date(),
+): Promise<{ success: true; connection: IRoommateConnection } | RoommateFailure> {
+  const isRecipient = refId(connection.recipient) === userId
+  const isRequester = refId(connection.requester) === userId
+  if (!isRecipient && !isRequester) {
+    return { success: false, error: "Connection not found", status: 404 }
+  }
+
+  let status: IRoommateConnection["status"]
+  if ((action === "accept" || action === "decline") && isRecipient) {
+    status = action === "accept" ? "accepted" : "declined"
+  } else if (action === "withdraw" && isRequester) {
+    status = "withdrawn"
+  } else {
+    return { success: false, error: "You can't do that on this request", status: 403 }
+  }
+
+  const updated: IRoommateConnection | null = await RoommateConnection.findOneAndUpdate(
+    { _id: connection._id, status: "pending" },
+    { $set: { status, respondedAt: now, updatedAt: now } },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This request has already been answered", status: 409 }
+  }
+
+  if (status === "accepted") {
+    const User = await getUserModel()
+    const recipient = await User.findById(userId).select("name").lean<{ name?: string }>()
+    await createNotification({
+      userId: refId(updated.requester),
+      type: "message",
+      title: "Roommate request accepted",
+      message: `${firstName(recipient?.name)} accepted your roommate request. You can now see each other's contact details.`,
+      link: "/profile?tab=roommates",
+      priority: "medium",
+      metadata: { connectionId: String(updated._id) },
+    })
+  }
+
+  return { success: true, connection: updated }
+}
+
+/**
+ * The user's roommate connections; contact details only for accepted ones
+ */
+export async function listConnections(userId: string) {
+  const connections: IRoommateConnection[] = await RoommateConnection.find({
+    $or: [{ requester: userId }, { recipient: userId }],
+    status: { $in: ["pending", "accepted"] },
+  })
+    .populate("property", "title")
+    .sort({ updatedAt: -1, createdAt: -1 })
+
+  const otherIds = connections.map((connection) =>
+    refId(connection.requester) === userId ? refId(connection.recipient) : refId(connection.requester),
+  )
+  const User = await getUserModel()
+  const users = await User.find({ _id: { $in: otherIds } })
+    .select("name college email phone")
+    .lean<Array<SuggestionUser & { email?: string; phone?: string }>>()
+
+  return connections.map((connection, index) => {
+    const other = users.find((user) => String(user._id) === otherIds[index])
+    const accepted = connection.status === "accepted"
+    return {
+      _id: String(connection._id),
+      status: connection.status,
+      direction: refId(connection.requester) === userId ? "outgoing" : "incoming",
+      message: connection.message,
+      score: connection.score,
+      property: connection.property,
+      createdAt: connection.createdAt,
+      student: {
+        userId: otherIds[index],
+        name: accepted ? other?.name : firstName(other?.name),
+        college: other?.college,
+        ...(accepted ? { email: other?.email, phone: other?.phone } : {}),
+      },
+    }
+  })
+}
+
+/**
+ * Whether two users have accepted each other as roommates
+ */
+export async function areConnectedRoommates(userId: string, otherId: string) {
+  const connection = await RoommateConnection.exists({ pairKey: pairKey(userId, otherId), status: "accepted" })
+  return !!connection
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { buildLine, financialYear, isInterState } from "@/lib/tax-invoices"
+
+describe("buildLine", () => {
+  it("takes GST out of an inclusive amount and splits it into CGST and SGST", () => {
+    const line = buildLine({ description: "Commission", amount: 1180, taxable: true }, false)
+    expect(line).toMatchObject({ amount: 1180, taxableValue: 1000, gstRate: 18, cgst: 90, sgst: 90, igst: 0 })
+  })
+
+  it("charges IGST instead across states", () => {
+    const line = buildLine({ description: "Commission", amount: 1180, taxable: true }, true)
+    expect(line).toMatchObject({ taxableValue: 1000, cgst: 0, sgst: 0, igst: 180 })
+  })
+
+  it("rounds CGST half up and gives SGST the rest so the halves add back up to the tax", () => {
+    const line = buildLine({ description: "Settling-in kit", amount: 749, taxable: true }, false)
+    expect(line.taxableValue).toBe(634.75)
+    expect(line.cgst).toBe(57.13)
+    expect(line.sgst).toBe(57.12)
+    expect(line.taxableValue + line.cgst + line.sgst).toBeCloseTo(749, 2)
+  })
+
+  it("leaves money collected for the owner untaxed", () => {
+    const line = buildLine(
+      { description: "First month's rent", amount: 9000, taxable: false, collectedOnBehalfOf: "Owner" },
+      false,
+    )
+    expect(line).toMatchObject({ amount: 9000, taxableValue: 9000, gstRate: 0, cgst: 0, sgst: 0, igst: 0 })
+    expect(line.collectedOnBehalfOf).toBe("Owner")
+  })
+})
+
+describe("isInterState", () => {
+  it("compares GSTIN state codes when both sides have one", () => {
+    expect(isInterState({ name: "Us", gstin: "29ABCDE1234F1Z5" }, { name: "Them", gstin: "29XYZAB9876C1Z1" })).toBe(false)
+    expect(isInterState({ name: "Us", gstin: "29ABCDE1234F1Z5" }, { name: "Them", gstin: "27XYZAB9876C1Z1" })).toBe(true)
+  })
+
+  it("falls back to state names, ignoring case and spacing", () => {
+    expect(isInterState({ name: "Us", state: "Karnataka" }, { name: "Them", state: " karnataka " })).toBe(false)
+    expect(isInterState({ name: "Us", state: "Karnataka" }, { name: "Them", state: "Maharashtra" })).toBe(true)
+  })
+
+  it("treats an unknown recipient location as intra-state", () => {
+    expect(isInterState({ name: "Us", state: "Karnataka" }, { name: "Them" })).toBe(false)
+  })
+})
+
+describe("financialYear", () => {
+  it("runs from April to March", () => {
+    expect(financialYear(new Date("2026-03-31T12:00:00+05:30"))).toBe("2025-26")
+    expect(financialYear(new Date("2026-04-01T12:00:00+05:30"))).toBe("2026-27")
+    expect(financialYear(new Date("2099-12-31T12:00:00+05:30"))).toBe("2099-00")
+  })
+
+  it("turns over at midnight on 1 April in India", () => {
+    expect(financialYear(new Date("2026-03-31T23:59:00+05:30"))).toBe("2025-26")
+    // Still 31 March in UTC
+    expect(financialYear(new Date("2026-04-01T00:01:00+05:30"))).toBe("2026-27")
+  })
+})
@@ -0,0 +1,423 @@
+import { format } from "date-fns"
+import mongoose from "mongoose"
+import type { IBooking } from "@/models/booking"
+import { nextSequence } from "@/models/counter"
+import { Mess } from "@/models/mess"
+import type { IMessSubscription } from "@/models/mess-subscription"
+import type { IMessPass } from "@/models/mess-pass"
+import { Property, type IProperty } from "@/models/property"
+import {
+  TaxInvoice,
+  type ITaxInvoice,
+  type ITaxInvoiceLine,
+  type ITaxInvoiceParty,
+} from "@/models/tax-invoice"
+import { getUserModel } from "@/models/user"
+import { createPdf, PAGE_WIDTH } from "@/lib/pdf"
+import { refId } from "@/lib/utils"
+import { getEmailTransporter } from "@/lib/email"
+
+/**
+ * GST tax invoices for payments taken by the platform
+ *
+ * One invoice per paid booking, mess subscription, mess pass and property
+ * verification fee, numbered in a single series per financial year (INVOICE_PREFIX/2026-27/000001).
+ * Platform charges (commission, settling-in kits, verification) are GST
+ * inclusive at GST_RATE and split into CGST+SGST or IGST by place of supply.
+ * Rent and mess fees are collected on the owner's behalf, so they appear as
+ * untaxed lines. Supplier details come from GST_LEGAL_NAME, GSTIN,
+ * GST_ADDRESS and GST_STATE.
+ */
+
+export const GST_RATE = Number(process.env.GST_RATE) || 18
+
+// "Other support services" - commission and verification are both platform services
+const PLATFORM_SERVICE_SAC = "998599"
+
+// Financial years turn over at midnight on 1 April in India, whatever the server's time zone
+const IST_OFFSET_MS = 330 * 60 * 1000
+
+type InvoiceKind = ITaxInvoice["kind"]
+
+interface DraftLine {
+  description: string
+  amount: number
+  taxable: boolean
+  sacCode?: string
+  collectedOnBehalfOf?: string
+}
+
+function round(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+function getSupplier(): ITaxInvoiceParty {
+  return {
+    name: process.env.GST_LEGAL_NAME || "SecondHome",
+    gstin: process.env.GSTIN || undefined,
+    address: process.env.GST_ADDRESS || undefined,
+    state: process.env.GST_STATE || undefined,
+    email: process.env.EMAIL_USER || process.env.HOST_EMAIL || undefined,
+  }
+}
+
+// GSTINs start with the two-digit state code
+export function isInterState(supplier: ITaxInvoiceParty, billTo: ITaxInvoiceParty) {
+  if (supplier.gstin && billTo.gstin) return supplier.gstin.slice(0, 2) !== billTo.gstin.slice(0, 2)
+  if (supplier.state && billTo.state) return supplier.state.trim().toLowerCase() !== billTo.state.trim().toLowerCase()
+  // Recipient's location unknown: place of supply is the supplier's
+  return false
+}
+
+export function buildLine(line: DraftLine, interState: boolean): ITaxInvoiceLine {
+  const amount = round(line.amount)
+  const gstRate = line.taxable ? GST_RATE : 0
+  const taxableValue = round((amount * 100) / (100 + gstRate))
+  const tax = round(amount - taxableValue)
+  const cgst = interState ? 0 : round(tax / 2)
+
+  return {
+    description: line.description,
+    sacCode: line.sacCode,
+    amount,
+    taxableValue,
+    gstRate,
+    cgst,
+    sgst: interState ? 0 : round(tax - cgst),
+    igst: interState ? tax : 0,
+    collectedOnBehalfOf: line.collectedOnBehalfOf,
+  }
+}
+
+export function financialYear(date: Date) {
+  const india = new Date(date.getTime() + IST_OFFSET_MS)
+  const year = india.getUTCMonth() >= 3 ? india.getUTCFullYear() : india.getUTCFullYear() - 1
+  return `${year}-${String((year + 1) % 100).padStart(2, "0")}`
+}
+
+async function getBillTo(userId: string, fallback?: { name?: string; email?: string; phone?: string }) {
+  const User = await getUserModel()
+  const user = await User.findById(userId).select("name email phone address city state pincode gstin").lean()
+
+  return {
+    name: user?.name || fallback?.name || "Customer",
+    email: user?.email || fallback?.email,
+    phone: user?.phone || fallback?.phone,
+    address: [user?.address, user?.city, user?.pincode].filter(Boolean).join(", ") || undefined,
+    state: user?.state || undefined,
+    gstin: user?.gstin || undefined,
+  }
+}
+
+/**
+ * Create the invoice for a source once and give it the next number in the series
+ */
+async function issueInvoice(
+  kind: InvoiceKind,
+  source: mongoose.Types.ObjectId,
+  build: () => Promise<{ customer: string; billTo: ITaxInvoiceParty; lines: DraftLine[]; paymentReference?: string; issuedAt: Date }>,
+): Promise<ITaxInvoice> {
+  const existing: ITaxInvoice | null = await TaxInvoice.findOne({ kind, source })
+  if (existing?.invoiceNumber) return existing
+
+  let invoice = existing
+  if (!invoice) {
+    const draft = await build()
+    const supplier = getSupplier()
+    const interState = isInterState(supplier, draft.billTo)
+    const lines = draft.lines.filter((line) => line.amount > 0).map((line) => buildLine(line, interState))
+    const sum = (field: "taxableValue" | "cgst" | "sgst" | "igst" | "amount") =>
+      round(lines.reduce((total, line) => total + line[field], 0))
+
+    invoice = await TaxInvoice.findOneAndUpdate(
+      { kind, source },
+      {
+        $setOnInsert: {
+          kind,
+          source,
+          customer: draft.customer,
+          billTo: draft.billTo,
+          supplier,
+          placeOfSupply: draft.billTo.state || supplier.state,
+          interState,
+          lines,
+          taxableValue: sum("taxableValue"),
+          cgst: sum("cgst"),
+          sgst: sum("sgst"),
+          igst: sum("igst"),
+          total: sum("amount"),
+          paymentReference: draft.paymentReference,
+          issuedAt: draft.issuedAt,
+          createdAt: new Date(),
+        },
+      },
+      { upsert: true, new: true },
+    )
+  }
+  if (!invoice) throw new Error(`Could not create ${kind} invoice for ${source}`)
+  if (invoice.invoiceNumber) return invoice
+
+  const fy = financialYear(invoice.issuedAt)
+  const seq = await nextSequence(`tax-invoice:${fy}`)
+  const invoiceNumber = `${process.env.INVOICE_PREFIX || "SH"}/${fy}/${String(seq).padStart(6, "0")}`
+  const numbered: ITaxInvoice | null = await TaxInvoice.findOneAndUpdate(
+    { _id: invoice._id, invoiceNumber: { $exists: false } },
+    { $set: { invoiceNumber } },
+    { new: true },
+  )
+
+  return numbered ?? ((await TaxInvoice.findById(invoice._id)) as ITaxInvoice)
+}
+
+export async function issueBookingInvoice(booking: IBooking) {
+  return issueInvoice("booking", booking._id, async () => {
+    const property = await Property.findById(booking.property)
+      .select("title owner")
+      .populate("owner", "name")
+      .lean<{ title?: string; owner?: { name?: string } }>()
+    const propertyTitle = property?.title || "Property"
+    const commission = booking.commissionAmount || 0
+    const kit = booking.settlingInKit?.price || 0
+    // Older bookings have no firstMonthRent; the rest of the total is rent
+    const rent = booking.firstMonthRent ?? booking.totalAmount - commission - kit
+
+    return {
+      customer: refId(booking.user),
+      billTo: await getBillTo(refId(booking.user)),
+      paymentReference: booking.paymentId,
+      issuedAt: new Date(),
+      lines: [
+        {
+          description: `First month rent - ${propertyTitle} (${booking.roomType})`,
+          amount: rent,
+          taxable: false,
+          collectedOnBehalfOf: property?.owner?.name || "Property owner",
+        },
+        {
+          description: `Booking commission (${booking.commissionRate ?? 7.5}%)`,
+          amount: commission,
+          taxable: true,
+          sacCode: PLATFORM_SERVICE_SAC,
+        },
+        {
+          description: `Settling-in kit - ${booking.settlingInKit?.packageName || "package"}`,
+          amount: kit,
+          taxable: true,
+        },
+      ],
+    }
+  })
+}
+
+export async function issueMessSubscriptionInvoice(subscription: IMessSubscription) {
+  return issueInvoice("mess_subscription", subscription._id, async () => {
+    const mess = await Mess.findById(subscription.mess).select("name").lean<{ name?: string }>()
+    const period = `${format(subscription.startDate, "d MMM yyyy")} - ${format(subscription.endDate, "d MMM yyyy")}`
+
+    return {
+      customer: refId(subscription.user),
+      billTo: await getBillTo(refId(subscription.user), {
+        name: subscription.subscriberName,
+        email: subscription.subscriberEmail,
+        phone: subscription.subscriberPhone,
+      }),
+      paymentReference: subscription.paymentReference,
+      issuedAt: new Date(),
+      lines: [
+        {
+          description: `Mess subscription - ${mess?.name || "Mess"} (${period})${
+            subscription.creditApplied ? `, after ₹${subscription.creditApplied} meal credit` : ""
+          }`,
+          amount: subscription.monthlyPrice - (subscription.creditApplied ?? 0),
+          taxable: false,
+          collectedOnBehalfOf: mess?.name || "Mess owner",
+        },
+      ],
+    }
+  })
+}
+
+export async function issueMessPassInvoice(pass: IMessPass) {
+  return issueInvoice("mess_pass", pass._id as mongoose.Types.ObjectId, async () => {
+    const mess = await Mess.findById(pass.mess).select("name").lean<{ name?: string }>()
+    const days = Math.round((pass.endDate.getTime() - pass.startDate.getTime()) / (24 * 60 * 60 * 1000))
+
+    return {
+      customer: refId(pass.user),
+      billTo: await getBillTo(refId(pass.user)),
+      paymentReference: pass.paymentReference,
+      issuedAt: pass.paidAt ?? new Date(),
+      lines: [
+        {
+          description: `Mess ${pass.kind} pass - ${mess?.name || "Mess"} (${days} day${days === 1 ? "" : "s"} from ${format(pass.startDate, "d MMM yyyy")})`,
+          amount: pass.price,
+          taxable: false,
+          collectedOnBehalfOf: mess?.name || "Mess owner",
+        },
+      ],
+    }
+  })
+}
+
+export async function issueVerificationFeeInvoice(property: IProperty) {
+  return issueInvoice("verification_fee", property._id as mongoose.Types.ObjectId, async () => ({
+    customer: refId(property.owner),
+    billTo: await getBillTo(refId(property.owner)),
+    paymentReference: property.verificationPaymentId,
+    issuedAt: property.verificationPaidAt ?? new Date(),
+    lines: [
+      {
+        description: `Property verification - ${property.title}`,
+        amount: property.verificationFee || 0,
+        taxable: true,
+        sacCode: PLATFORM_SERVICE_SAC,
+      },
+    ],
+  }))
+}
+
+// The PDF fonts have no rupee sign
+function formatInr(amount: number) {
+  return `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Render an invoice as an A4 PDF
+ */
+export function renderTaxInvoicePdf(invoice: ITaxInvoice): Buffer {
+  const pdf = createPdf()
+  const left = 40
+  const right = PAGE_WIDTH - 40
+  let y = 50
+
+  pdf.text(left, y, invoice.supplier.name, { size: 18, bold: true })
+  pdf.text(right, y, "TAX INVOICE", { size: 14, bold: true, align: "right" })
+  y += 16
+  for (const detail of [invoice.supplier.address, invoice.supplier.gstin && `GSTIN: ${invoice.supplier.gstin}`]) {
+    if (!detail) continue
+    pdf.text(left, y, detail, { size: 9, gray: 0.3 })
+    y += 12
+  }
+  y = Math.max(y, 82)
+  pdf.text(right, 66, `Invoice no: ${invoice.invoiceNumber ?? "-"}`, { size: 9, align: "right" })
+  pdf.text(right, 78, `Date: ${format(invoice.issuedAt, "d MMM yyyy")}`, { size: 9, align: "right" })
+  if (invoice.paymentReference) {
+    pdf.text(right, 90, `Payment ref: ${invoice.paymentReference}`, { size: 9, align: "right" })
+  }
+
+  y += 16
+  pdf.line(left, y, right, y)
+  y += 20
+  pdf.text(left, y, "Bill to", { size: 9, bold: true, gray: 0.3 })
+  y += 14
+  pdf.text(left, y, invoice.billTo.name, { size: 11, bold: true })
+  for (const detail of [
+    invoice.billTo.address,
+    invoice.billTo.email,
+    invoice.billTo.phone,
+    invoice.billTo.gstin && `GSTIN: ${invoice.billTo.gstin}`,
+  ]) {
+    if (!detail) continue
+    y += 12
+    pdf.text(left, y, detail, { size: 9 })
+  }
+  y += 18
+  pdf.text(left, y, `Place of supply: ${invoice.placeOfSupply || "-"}`, { size: 9, gray: 0.3 })
+
+  // Line items
+  const columns = { sac: 300, taxable: 390, tax: 470, amount: right }
+  y += 24
+  pdf.line(left, y - 12, right, y - 12)
+  pdf.text(left, y, "Description", { size: 9, bold: true })
+  pdf.text(columns.sac, y, "SAC", { size: 9, bold: true })
+  pdf.text(columns.taxable, y, "Taxable value", { size: 9, bold: true, align: "right" })
+  pdf.text(columns.tax, y, "GST", { size: 9, bold: true, align: "right" })
+  pdf.text(columns.amount, y, "Amount", { size: 9, bold: true, align: "right" })
+  y += 8
+  pdf.line(left, y, right, y)
+
+  for (const line of invoice.lines) {
+    y += 16
+    pdf.text(left, y, line.description.substring(0, 48), { size: 9 })
+    pdf.text(columns.sac, y, line.sacCode || "-", { size: 9 })
+    pdf.text(columns.taxable, y, formatInr(line.taxableValue), { size: 9, align: "right" })
+    pdf.text(columns.tax, y, line.gstRate ? `${line.gstRate}%` : "-", { size: 9, align: "right" })
+    pdf.text(columns.amount, y, formatInr(line.amount), { size: 9, align: "right" })
+    if (line.collectedOnBehalfOf) {
+      y += 11
+      pdf.text(left + 8, y, `Collected on behalf of ${line.collectedOnBehalfOf}; not a supply by ${invoice.supplier.name}`, {
+        size: 7.5,
+        gray: 0.4,
+      })
+    }
+  }
+
+  y += 10
+  pdf.line(left, y, right, y)
+
+  const totals: Array<[string, number]> = [["Taxable value", invoice.taxableValue]]
+  if (invoice.interState) {
+    totals.push([`IGST`, invoice.igst])
+  } else {
+    totals.push(["CGST", invoice.cgst], ["SGST", invoice.sgst])
+  }
+  for (const [label, amount] of totals) {
+    y += 16
+    pdf.text(columns.tax, y, label, { size: 9, align: "right" })
+    pdf.text(columns.amount, y, formatInr(amount), { size: 9, align: "right" })
+  }
+  y += 20
+  pdf.text(columns.tax, y, "Total paid", { size: 11, bold: true, align: "right" })
+  pdf.text(columns.amount, y, formatInr(invoice.total), { size: 11, bold: true, align: "right" })
+
+  y += 40
+  pdf.text(left, y, "Amounts include GST where applicable. This is a computer generated invoice and needs no signature.", {
+    size: 8,
+    gray: 0.4,
+  })
+
+  return pdf.toBuffer()
+}
+
+export function getInvoiceFileName(invoice: ITaxInvoice) {
+  return `${(invoice.invoiceNumber || invoice._id.toString()).replace(/\//g, "-")}.pdf`
+}
+
+const INVOICE_SUBJECTS: Record<InvoiceKind, string> = {
+  booking: "Your booking invoice",
+  mess_subscription: "Your mess subscription invoice",
+  mess_pass: "Your mess pass invoice",
+  verification_fee: "Your property verification invoice",
+}
+
+/**
+ * Email the invoice PDF to the customer, once
+ */
+export async function emailTaxInvoice(invoice: ITaxInvoice) {
+  const transporter = getEmailTransporter()
+  if (!transporter || !invoice.billTo.email) return false
+
+  // Claim the send so concurrent callers don't email twice
+  const claimed = await TaxInvoice.updateOne(
+    { _id: invoice._id, emailedAt: { $exists: false } },
+    { $set: { emailedAt: new Date() } },
+  )
+  if (claimed.modifiedCount === 0) return false
+
+  try {
+    await transporter.sendMail({
+      from: `"SecondHome" <${process.env.EMAIL_USER || process.env.HOST_EMAIL}>`,
+      to: invoice.billTo.email,
+      subject: `${INVOICE_SUBJECTS[invoice.kind]} ${invoice.invoiceNumber}`,
+      html: `<p>Hi ${invoice.billTo.name},</p>
+<p>Thank you for your payment of <strong>₹${invoice.total.toLocaleString("en-IN")}</strong>. Your invoice ${invoice.invoiceNumber} is attached.</p>
+<p>You can also download it any time from your SecondHome profile.</p>`,
+      attachments: [{ filename: getInvoiceFileName(invoice), content: renderTaxInvoicePdf(invoice) }],
+    })
+    return true
+  } catch (error) {
+    await TaxInvoice.updateOne({ _id: invoice._id }, { $unset: { emailedAt: "" } })
+    console.error(`Error emailing invoice ${invoice.invoiceNumber}:`, error)
+    return false
+  }
+}
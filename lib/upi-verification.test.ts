@@ -0,0 +1,140 @@
+import mongoose from "mongoose"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { Booking } from "@/models/booking"
+import { Payment } from "@/models/payment"
+import { settlePayment } from "@/lib/payments"
+import { isValidUtr, normalizeUtr, parseStatementCsv, reconcileUpiStatement } from "@/lib/upi-verification"
+
+vi.mock("@/lib/payments", () => ({ settlePayment: vi.fn() }))
+
+describe("normalizeUtr", () => {
+  it("strips whitespace and uppercases", () => {
+    expect(normalizeUtr(" 4123 5678 9012 ")).toBe("412356789012")
+    expect(normalizeUtr("axisn12345678901")).toBe("AXISN12345678901")
+  })
+
+  it("turns missing values into an invalid empty reference", () => {
+    expect(normalizeUtr(undefined)).toBe("")
+    expect(isValidUtr(normalizeUtr(null))).toBe(false)
+  })
+
+  it("accepts 12-digit UTRs and longer bank references only", () => {
+    expect(isValidUtr("412356789012")).toBe(true)
+    expect(isValidUtr("41235678")).toBe(false)
+    expect(isValidUtr("4123-5678-9012")).toBe(false)
+  })
+})
+
+describe("parseStatementCsv", () => {
+  it("takes the amount from the credit column and UTRs from the narration", () => {
+    const rows = parseStatementCsv(
+      [
+        "Date,Narration,Withdrawal Amt,Deposit Amt,Balance",
+        "19/10/26,UPI/412356789012/Rahul/okaxis,,12250.00,50000.00",
+      ].join("\n"),
+    )
+    expect(rows).toEqual([{ line: 2, amount: 12250, references: ["412356789012"] }])
+  })
+
+  it("falls back to an amount column", () => {
+    const rows = parseStatementCsv("txn date,description,amount (inr)\n2026-10-19,UPI-412356789012,₹ 9000 Cr\n")
+    expect(rows[0].amount).toBe(9000)
+  })
+
+  it("reads quoted fields with commas and escaped quotes", () => {
+    const rows = parseStatementCsv(
+      ['"Date","Particulars","Credit"', '"19 Oct 2026","UPI ""412356789012"", RENT, PG","1,22,500.50"'].join("\r\n"),
+    )
+    expect(rows).toEqual([{ line: 2, amount: 122500.5, references: ["412356789012"] }])
+  })
+
+  it("lists a reference repeated in a row once", () => {
+    const rows = parseStatementCsv("Narration,Credit\nUPI/412356789012/REF 412356789012,500")
+    expect(rows[0].references).toEqual(["412356789012"])
+  })
+
+  it("ignores words that only look like references", () => {
+    const rows = parseStatementCsv("Narration,Credit\nNEFTTRANSFERFROMACCOUNT,500")
+    expect(rows[0].references).toEqual([])
+  })
+
+  it("leaves the amount empty when it can't be read", () => {
+    expect(parseStatementCsv("Narration,Credit\nUPI/412356789012,n/a")[0].amount).toBeNull()
+    expect(parseStatementCsv("Narration,Balance\nUPI/412356789012,500")[0].amount).toBeNull()
+  })
+
+  it("needs a header and at least one row", () => {
+    expect(parseStatementCsv("")).toEqual([])
+    expect(parseStatementCsv("Narration,Credit\n")).toEqual([])
+  })
+})
+
+describe("reconcileUpiStatement", () => {
+  const admin = { userId: new mongoose.Types.ObjectId().toString(), role: "admin" as const }
+
+  // One UPI payment of ₹12250 waiting with the given UTR
+  function pendingPayment(utr: string) {
+    const payment = {
+      _id: new mongoose.Types.ObjectId(),
+      booking: new mongoose.Types.ObjectId(),
+      provider: "upi",
+      status: "pending_verification",
+      amount: 1225000,
+      amountInr: 12250,
+      currency: "INR",
+      utr,
+    }
+    const chain = { sort: () => chain, populate: () => chain, lean: () => Promise.resolve([payment]) }
+    vi.spyOn(Payment, "find").mockReturnValue(chain as never)
+    vi.spyOn(Payment, "findById").mockResolvedValue(payment as never)
+    vi.spyOn(Payment, "updateOne").mockResolvedValue({} as never)
+    vi.spyOn(Booking, "findById").mockResolvedValue({ _id: payment.booking } as never)
+    vi.mocked(settlePayment).mockResolvedValue({ success: true } as never)
+    return payment
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.mocked(settlePayment).mockReset()
+  })
+
+  it("confirms a payment whose UTR and amount are on the statement", async () => {
+    const payment = pendingPayment("412356789012")
+    const result = await reconcileUpiStatement("Narration,Credit\nUPI/412356789012,12250.00", admin)
+
+    expect(result.matched).toEqual([{ paymentId: payment._id.toString(), utr: "412356789012", amount: 12250, line: 2 }])
+    expect(result.stillPending).toBe(0)
+    expect(settlePayment).toHaveBeenCalledTimes(1)
+  })
+
+  it("leaves an amount mismatch for a manual check", async () => {
+    const payment = pendingPayment("412356789012")
+    const result = await reconcileUpiStatement("Narration,Credit\nUPI/412356789012,1225.00", admin)
+
+    expect(result.matched).toEqual([])
+    expect(result.mismatched).toEqual([
+      { paymentId: payment._id.toString(), utr: "412356789012", expected: 12250, found: 1225, line: 2 },
+    ])
+    expect(result.stillPending).toBe(1)
+    expect(settlePayment).not.toHaveBeenCalled()
+  })
+
+  it("uses a UTR that appears on several rows only once", async () => {
+    pendingPayment("412356789012")
+    const result = await reconcileUpiStatement(
+      "Narration,Credit\nUPI/412356789012,12250\nUPI/412356789012,12250",
+      admin,
+    )
+
+    expect(result.matched).toHaveLength(1)
+    expect(result.matched[0].line).toBe(2)
+    expect(settlePayment).toHaveBeenCalledTimes(1)
+  })
+
+  it("ignores UTRs nobody is waiting on", async () => {
+    pendingPayment("412356789012")
+    const result = await reconcileUpiStatement("Narration,Credit\nUPI/999988887777,12250", admin)
+
+    expect(result).toMatchObject({ rows: 1, matched: [], mismatched: [], failed: [], stillPending: 1 })
+  })
+})
@@ -0,0 +1,384 @@
+import mongoose from "mongoose"
+import { Booking, type IBooking } from "@/models/booking"
+import { Payment, type IPayment, type IPaymentEvent } from "@/models/payment"
+import { Property } from "@/models/property"
+import { SYSTEM_ACTOR, type TransitionActor } from "@/lib/booking-state-machine"
+import { getHoldExpiry } from "@/lib/booking-reservations"
+import { settlePayment, startPayment, type SettlePaymentResult } from "@/lib/payments"
+import { createNotification } from "@/lib/notification-helper"
+import { refId } from "@/lib/utils"
+
+/**
+ * Direct UPI payment verification
+ *
+ * A direct UPI transfer never reports back to us, so the payer submits the
+ * UTR their UPI app shows and the Payment waits in `pending_verification`.
+ * The property owner (who the money went to) or an admin then confirms or
+ * rejects it against their statement, either by hand or by importing the
+ * statement as CSV. Only a confirmation settles the payment and marks the
+ * booking paid; every step is appended to `payment.history`.
+ */
+
+// How long the bed stays held while a submitted reference waits to be checked
+export const UPI_VERIFICATION_HOLD_HOURS = Number(process.env.UPI_VERIFICATION_HOLD_HOURS) || 48
+
+// UPI UTRs are 12 digits; some banks show longer alphanumeric references
+const UTR_PATTERN = /^[A-Z0-9]{10,22}$/
+
+export interface PaymentVerifier {
+  userId: string
+  role: "owner" | "admin"
+}
+
+type VerificationFailure = { success: false; error: string; status: number }
+
+export function normalizeUtr(value: unknown) {
+  return String(value ?? "").replace(/\s+/g, "").toUpperCase()
+}
+
+export function isValidUtr(utr: string) {
+  return UTR_PATTERN.test(utr)
+}
+
+function historyEntry(
+  action: IPaymentEvent["action"],
+  actor: { userId?: string; role: IPaymentEvent["actorRole"] },
+  note?: string,
+) {
+  return { action, actor: actor.userId, actorRole: actor.role, note, at: new Date() }
+}
+
+async function getBookingOwnerId(booking: Pick<IBooking, "property">) {
+  const property = await Property.findById(booking.property).select("owner").lean<{ owner?: unknown }>()
+  return property?.owner ? refId(property.owner) : null
+}
+
+/**
+ * Record the UTR a tenant submitted for a booking and queue it for checking
+ */
+export async function submitUpiReference(
+  booking: IBooking,
+  userId: string,
+  utrInput: unknown,
+): Promise<{ success: true; payment: IPayment } | VerificationFailure> {
+  const utr = normalizeUtr(utrInput)
+  if (!isValidUtr(utr)) {
+    return { success: false, error: "Enter the 12-digit UTR / transaction reference shown in your UPI app", status: 400 }
+  }
+
+  const existing: IPayment | null = await Payment.findOne({ provider: "upi", utr })
+  if (existing) {
+    // Resubmitting the same reference for the same booking is harmless
+    if (existing.booking?.toString() === booking._id.toString() && existing.status === "pending_verification") {
+      return { success: true, payment: existing }
+    }
+    return { success: false, error: "This transaction reference has already been submitted", status: 409 }
+  }
+
+  const pending = await Payment.findOne({ booking: booking._id, provider: "upi", status: "pending_verification" })
+  if (pending) {
+    return { success: false, error: "A payment for this booking is already awaiting verification", status: 409 }
+  }
+
+  const started = await startPayment("upi", { purpose: "booking", booking }, { userId })
+  if (!started.success) return started
+
+  const now = new Date()
+  let payment: IPayment | null
+  try {
+    payment = await Payment.findOneAndUpdate(
+      { _id: started.payment._id, status: "created" },
+      {
+        $set: { status: "pending_verification", utr, utrSubmittedAt: now, updatedAt: now },
+        $push: { history: historyEntry("reference_submitted", { userId, role: "tenant" }, `UTR ${utr}`) },
+      },
+      { new: true },
+    )
+  } catch (error) {
+    // Lost a race with another submission of the same UTR
+    if ((error as { code?: number }).code === 11000) {
+      await Payment.updateOne({ _id: started.payment._id }, { $set: { status: "failed", failureReason: "Duplicate UTR" } })
+      return { success: false, error: "This transaction reference has already been submitted", status: 409 }
+    }
+    throw error
+  }
+  if (!payment) {
+    return { success: false, error: "Payment not found", status: 404 }
+  }
+
+  // Keep the bed while the reference is checked
+  await Booking.updateOne(
+    { _id: booking._id, status: "pending", paymentStatus: "pending", "reservation.status": "held" },
+    { $set: { "reservation.expiresAt": new Date(now.getTime() + UPI_VERIFICATION_HOLD_HOURS * 60 * 60 * 1000) } },
+  )
+
+  const ownerId = await getBookingOwnerId(booking)
+  if (ownerId) {
+    await createNotification({
+      userId: ownerId,
+      type: "payment",
+      title: "UPI payment awaiting verification",
+      message: `A tenant reported a UPI payment of ₹${payment.amountInr.toLocaleString("en-IN")} (UTR ${utr}). Check it against your statement to confirm the booking.`,
+      link: "/profile?tab=payments",
+      priority: "high",
+      metadata: { bookingId: booking._id.toString(), paymentId: payment._id.toString(), utr },
+    })
+  }
+
+  return { success: true, payment }
+}
+
+/**
+ * Load a UPI payment awaiting verification that this verifier is allowed to check
+ */
+export async function getVerifiablePayment(
+  paymentId: string,
+  verifier: PaymentVerifier,
+): Promise<{ payment: IPayment; booking: IBooking } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(paymentId)) {
+    return { error: "Invalid payment ID", status: 400 }
+  }
+
+  const payment: IPayment | null = await Payment.findById(paymentId)
+  if (!payment || payment.provider !== "upi" || !payment.booking) {
+    return { error: "Payment not found", status: 404 }
+  }
+
+  const booking: IBooking | null = await Booking.findById(payment.booking)
+  if (!booking) {
+    return { error: "Booking not found", status: 404 }
+  }
+
+  if (verifier.role !== "admin" && (await getBookingOwnerId(booking)) !== verifier.userId) {
+    return { error: "You don't have permission to verify this payment", status: 403 }
+  }
+
+  if (payment.status !== "pending_verification") {
+    return { error: `This payment is already ${payment.status.replace(/_/g, " ")}`, status: 400 }
+  }
+
+  return { payment, booking }
+}
+
+/**
+ * Confirm the UTR was found on the receiving account's statement: capture the
+ * payment and mark the booking paid
+ */
+export async function confirmUpiPayment(
+  payment: IPayment,
+  verifier: PaymentVerifier,
+  options: { source: "manual" | "statement"; note?: string },
+): Promise<SettlePaymentResult> {
+  const { utr } = payment
+  if (!utr) {
+    return { success: false, error: "No transaction reference has been submitted", status: 400 }
+  }
+
+  const note = [options.source === "statement" ? "Matched on imported statement" : "Checked by hand", options.note]
+    .filter(Boolean)
+    .join(": ")
+  await Payment.updateOne(
+    { _id: payment._id, status: "pending_verification" },
+    { $push: { history: historyEntry("verified", verifier, note) } },
+  )
+
+  // Owners can't move paymentStatus themselves, so their check is applied as the system
+  const actor: TransitionActor = verifier.role === "admin" ? { role: "admin", userId: verifier.userId } : SYSTEM_ACTOR
+  return settlePayment(
+    payment,
+    {
+      providerPaymentId: utr,
+      providerOrderId: payment.providerOrderId,
+      status: "captured",
+      amount: payment.amount,
+      currency: payment.currency,
+      method: "upi",
+      paidAt: payment.utrSubmittedAt,
+    },
+    { actor, reason: `UPI payment (UTR ${utr}) verified by ${verifier.role} ${verifier.userId}` },
+  )
+}
+
+/**
+ * Turn down a submitted reference, e.g. when it isn't on the statement. The
+ * tenant gets the normal hold window to pay again.
+ */
+export async function rejectUpiPayment(
+  payment: IPayment,
+  verifier: PaymentVerifier,
+  reason: string,
+): Promise<{ success: true; payment: IPayment } | VerificationFailure> {
+  const now = new Date()
+  const updated: IPayment | null = await Payment.findOneAndUpdate(
+    { _id: payment._id, status: "pending_verification" },
+    {
+      $set: { status: "failed", failureReason: reason, updatedAt: now },
+      $push: { history: historyEntry("rejected", verifier, reason) },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This payment is no longer awaiting verification", status: 409 }
+  }
+
+  await Booking.updateOne(
+    { _id: updated.booking, status: "pending", paymentStatus: "pending", "reservation.status": "held" },
+    { $set: { "reservation.expiresAt": getHoldExpiry(now) } },
+  )
+
+  await createNotification({
+    userId: refId(updated.user),
+    type: "payment",
+    title: "UPI payment could not be verified",
+    message: `We couldn't verify your UPI payment (UTR ${updated.utr}): ${reason}. Please pay again or contact support.`,
+    link: "/profile?tab=bookings",
+    priority: "high",
+    metadata: { bookingId: refId(updated.booking), paymentId: updated._id.toString() },
+  })
+
+  return { success: true, payment: updated }
+}
+
+/**
+ * UPI payments awaiting verification that the verifier can act on, oldest first
+ */
+export async function listPendingUpiPayments(verifier: PaymentVerifier) {
+  const payments = await Payment.find({ provider: "upi", status: "pending_verification" })
+    .sort({ utrSubmittedAt: 1 })
+    .populate("user", "name email")
+    .populate({
+      path: "booking",
+      select: "property roomType checkInDate totalAmount status",
+      populate: { path: "property", select: "title owner" },
+    })
+    .lean<
+      Array<{
+        _id: mongoose.Types.ObjectId
+        utr?: string
+        booking?: { property?: { owner?: unknown } } | null
+      }>
+    >()
+
+  if (verifier.role === "admin") return payments
+  return payments.filter((payment) => {
+    const owner = payment.booking?.property?.owner
+    return owner ? refId(owner) === verifier.userId : false
+  })
+}
+
+export interface StatementRow {
+  line: number
+  amount: number | null
+  references: string[]
+}
+
+// Splits one CSV line, honouring quoted fields
+function splitCsvLine(line: string) {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(cell)
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell)
+  return cells.map((value) => value.trim())
+}
+
+/**
+ * Read a bank statement export. Banks disagree on layout, so the amount comes
+ * from the credit/deposit (or amount) column and every reference-looking token
+ * anywhere in the row - UTRs usually sit inside the narration - is a candidate.
+ */
+export function parseStatementCsv(csv: string): StatementRow[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim())
+  if (lines.length < 2) return []
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase())
+  let amountColumn = header.findIndex((cell) => /credit|deposit/.test(cell))
+  if (amountColumn === -1) amountColumn = header.findIndex((cell) => /amount/.test(cell))
+
+  return lines.slice(1).map((line, index) => {
+    const cells = splitCsvLine(line)
+    const rawAmount = amountColumn === -1 ? "" : (cells[amountColumn] || "").replace(/[₹,\s]|INR|Cr/gi, "")
+    const amount = rawAmount ? Number(rawAmount) : NaN
+    const references = new Set<string>()
+    for (const cell of cells) {
+      for (const token of cell.toUpperCase().split(/[^A-Z0-9]+/)) {
+        if (isValidUtr(token) && /\d/.test(token)) references.add(token)
+      }
+    }
+
+    return { line: index + 2, amount: Number.isFinite(amount) ? amount : null, references: [...references] }
+  })
+}
+
+export interface StatementReconciliation {
+  rows: number
+  matched: Array<{ paymentId: string; utr: string; amount: number; line: number }>
+  mismatched: Array<{ paymentId: string; utr: string; expected: number; found: number | null; line: number }>
+  failed: Array<{ paymentId: string; utr: string; error: string }>
+  stillPending: number
+}
+
+/**
+ * Match a statement export against pending UPI payments by UTR. Matches with
+ * the right amount are confirmed; everything else is left for a manual check.
+ */
+export async function reconcileUpiStatement(csv: string, verifier: PaymentVerifier): Promise<StatementReconciliation> {
+  const rows = parseStatementCsv(csv)
+  const pending = await listPendingUpiPayments(verifier)
+  const pendingByUtr = new Map<string, string>()
+  for (const payment of pending) {
+    if (payment.utr) pendingByUtr.set(payment.utr, payment._id.toString())
+  }
+
+  const result: StatementReconciliation = { rows: rows.length, matched: [], mismatched: [], failed: [], stillPending: 0 }
+
+  for (const row of rows) {
+    for (const utr of row.references) {
+      const paymentId = pendingByUtr.get(utr)
+      if (!paymentId) continue
+      pendingByUtr.delete(utr)
+
+      const loaded = await getVerifiablePayment(paymentId, verifier)
+      if ("error" in loaded) {
+        result.failed.push({ paymentId, utr, error: loaded.error })
+        continue
+      }
+
+      const { payment } = loaded
+      if (row.amount === null || Math.abs(row.amount - payment.amountInr) > 0.01) {
+        result.mismatched.push({ paymentId, utr, expected: payment.amountInr, found: row.amount, line: row.line })
+        continue
+      }
+
+      const confirmed = await confirmUpiPayment(payment, verifier, { source: "statement", note: `line ${row.line}` })
+      if (confirmed.success) {
+        result.matched.push({ paymentId, utr, amount: payment.amountInr, line: row.line })
+      } else {
+        result.failed.push({ paymentId, utr, error: confirmed.error })
+      }
+    }
+  }
+
+  result.stillPending = pendingByUtr.size + result.mismatched.length
+  return result
+}
@@ -0,0 +1,76 @@
+import crypto from "crypto"
+import type { PaymentProvider } from "@/lib/payment-provider"
+
+/**
+ * Direct UPI PaymentProvider
+ *
+ * Money goes straight to the platform's VPA (UPI_VPA) from the payer's UPI
+ * app, so there is no gateway to ask whether it arrived: the payer's
+ * transaction reference (UTR) is all we get back, and someone has to find it
+ * on the receiving account's statement before the payment is captured.
+ */
+
+export function buildUpiUri(params: { amount: number; reference: string; note: string }) {
+  const vpa = process.env.UPI_VPA
+  if (!vpa) return null
+
+  const query = new URLSearchParams({
+    pa: vpa,
+    pn: process.env.UPI_PAYEE_NAME || "SecondHome",
+    am: params.amount.toFixed(2),
+    cu: "INR",
+    tr: params.reference,
+    tn: params.note.substring(0, 80),
+  })
+  return `upi://pay?${query}`
+}
+
+export const upiProvider: PaymentProvider = {
+  id: "upi",
+
+  isConfigured() {
+    return true
+  },
+
+  async create(request) {
+    const providerOrderId = `upi_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`
+
+    return {
+      providerOrderId,
+      flow: "manual",
+      amount: request.amountInr,
+      currency: "INR",
+      clientData: {
+        orderId: providerOrderId,
+        upiUri: buildUpiUri({ amount: request.amountInr, reference: providerOrderId, note: request.description }),
+      },
+    }
+  },
+
+  async verify({ providerOrderId, providerPaymentId, amount }) {
+    // Nothing to ask: the transfer only counts once its UTR has been checked
+    // against a bank statement (see lib/upi-verification.ts)
+    return [
+      {
+        providerPaymentId: providerPaymentId || providerOrderId,
+        providerOrderId,
+        status: "pending",
+        amount: amount ?? 0,
+        currency: "INR",
+        method: "upi",
+      },
+    ]
+  },
+
+  async capture() {
+    throw new Error("UPI payments cannot be captured")
+  },
+
+  async refund() {
+    throw new Error("UPI payments must be refunded manually")
+  },
+
+  async parseWebhook() {
+    throw new Error("UPI payments have no webhook")
+  },
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/** String id of a Mongoose ref, whether or not it has been populated */
+export function refId(ref: unknown): string {
+  return String((ref as { _id?: unknown } | null)?._id ?? ref)
+}
@@ -0,0 +1,630 @@
+import mongoose from "mongoose"
+import { randomBytes } from "crypto"
+import { Property, type IProperty } from "@/models/property"
+import { ScheduleVisit, type IScheduleVisit } from "@/models/schedule-visit"
+import { VisitSlot, type IVisitSlot } from "@/models/visit-slot"
+import { createNotification } from "@/lib/notification-helper"
+import { parseDayKey } from "@/lib/meal-attendance"
+import { sendWhatsAppMessage } from "@/lib/whatsapp"
+import { refId } from "@/lib/utils"
+
+/**
+ * Property visits
+ *
+ * Owners publish `VisitSlot`s for a property; a student books one and gets a
+ * `pending` ScheduleVisit. Booking claims the slot with a conditional
+ * open -> booked update, so two students can't hold the same time. The owner
+ * confirms (pending -> confirmed), reschedules onto another open slot of the
+ * property, or cancels; either side can cancel before the visit, which frees
+ * the slot again. Visitors and owners are reminded the day before.
+ *
+ * Virtual visits get a video room instead of an address: on the self-hosted
+ * video server at `VIDEO_ROOM_BASE_URL` (e.g. a Jitsi install) if configured,
+ * otherwise the app's own stand-in room page. The room only lets people in
+ * from shortly before the slot until shortly after it ends, and joining
+ * records who attended. After the visit the owner marks whether the visitor
+ * came and can leave follow-up notes; the visitor can then book the property
+ * straight from the visit, which links the booking back to it.
+ */
+
+export type VisitStatus = IScheduleVisit["status"]
+export type VisitActorRole = "visitor" | "owner" | "admin"
+
+export interface VisitActor {
+  role: VisitActorRole
+  userId: string
+}
+
+type VisitFailure = { success: false; error: string; status: number }
+
+export type VisitResult = { success: true; visit: IScheduleVisit } | VisitFailure
+
+export const VISIT_SLOT_DURATIONS = [15, 30, 45, 60]
+
+export const VISIT_REMINDER_HOURS = 24
+
+const MAX_SLOTS_PER_DAY = 24
+
+// The room opens this long before the slot and closes this long after it ends
+const ROOM_EARLY_MINUTES = 10
+const ROOM_GRACE_MINUTES = 30
+
+// Slots are entered and shown in India time
+const IST_OFFSET_MS = 330 * 60 * 1000
+const IST_TIME_ZONE = "Asia/Kolkata"
+
+// from -> to -> roles allowed to make that move
+const STATUS_TRANSITIONS: Record<VisitStatus, Partial<Record<VisitStatus, VisitActorRole[]>>> = {
+  pending: {
+    confirmed: ["owner", "admin"],
+    cancelled: ["visitor", "owner", "admin"],
+  },
+  confirmed: {
+    completed: ["owner", "admin"],
+    cancelled: ["visitor", "owner", "admin"],
+  },
+  cancelled: {},
+  completed: {},
+}
+
+export function canTransitionVisit(from: VisitStatus, to: VisitStatus, role: VisitActorRole) {
+  return STATUS_TRANSITIONS[from]?.[to]?.includes(role) ?? false
+}
+
+/**
+ * "2026-10-21" + "16:30" (IST) -> the instant it starts
+ */
+export function parseSlotStart(date: unknown, time: unknown): Date | null {
+  const day = parseDayKey(date)
+  const match = typeof time === "string" ? time.match(/^([01]\d|2[0-3]):([0-5]\d)$/) : null
+  if (!day || !match) return null
+  return new Date(day.getTime() + (Number(match[1]) * 60 + Number(match[2])) * 60 * 1000 - IST_OFFSET_MS)
+}
+
+export function formatVisitTime(date: Date) {
+  return date.toLocaleTimeString("en-IN", { timeZone: IST_TIME_ZONE, hour: "2-digit", minute: "2-digit", hour12: true })
+}
+
+function formatVisitDay(date: Date) {
+  return date.toLocaleDateString("en-IN", { timeZone: IST_TIME_ZONE, weekday: "short", day: "numeric", month: "short" })
+}
+
+function describeVisit(visit: Pick<IScheduleVisit, "scheduledDate" | "scheduledTime">) {
+  return `${formatVisitDay(visit.scheduledDate)} at ${visit.scheduledTime}`
+}
+
+async function getPropertyTitle(propertyId: mongoose.Types.ObjectId) {
+  const property = await Property.findById(propertyId).select("title").lean<{ title?: string }>()
+  return property?.title || "the property"
+}
+
+function buildVirtualRoom(
+  visitId: mongoose.Types.ObjectId,
+  slot: Pick<IVisitSlot, "start" | "durationMinutes">,
+  roomName = `secondhome-${randomBytes(9).toString("base64url")}`,
+): NonNullable<IScheduleVisit["virtualRoom"]> {
+  const baseUrl = process.env.VIDEO_ROOM_BASE_URL?.replace(/\/+$/, "")
+  return {
+    provider: baseUrl ? "self_hosted" : "local",
+    roomName,
+    url: baseUrl ? `${baseUrl}/${roomName}` : `/visits/${visitId}/room`,
+    opensAt: new Date(slot.start.getTime() - ROOM_EARLY_MINUTES * 60 * 1000),
+    closesAt: new Date(slot.start.getTime() + (slot.durationMinutes + ROOM_GRACE_MINUTES) * 60 * 1000),
+  }
+}
+
+/**
+ * Publish visit slots on one day. Times already published are skipped.
+ */
+export async function publishVisitSlots(
+  property: IProperty,
+  input: { date?: unknown; times?: unknown; durationMinutes?: unknown },
+  now = new Date(),
+): Promise<{ success: true; slots: IVisitSlot[] } | VisitFailure> {
+  const durationMinutes = Number(input.durationMinutes ?? 30)
+  if (!VISIT_SLOT_DURATIONS.includes(durationMinutes)) {
+    return { success: false, error: `Slots can be ${VISIT_SLOT_DURATIONS.join(", ")} minutes long`, status: 400 }
+  }
+  if (!Array.isArray(input.times) || input.times.length === 0 || input.times.length > MAX_SLOTS_PER_DAY) {
+    return { success: false, error: `Choose between 1 and ${MAX_SLOTS_PER_DAY} times`, status: 400 }
+  }
+
+  const starts = new Map<number, Date>()
+  for (const time of input.times) {
+    const start = parseSlotStart(input.date, time)
+    if (!start) {
+      return { success: false, error: "Slots need a date (YYYY-MM-DD) and times (HH:mm)", status: 400 }
+    }
+    if (start <= now) {
+      return { success: false, error: `${time} on ${input.date} has already passed`, status: 400 }
+    }
+    starts.set(start.getTime(), start)
+  }
+
+  const existing = await VisitSlot.find({ property: property._id, start: { $in: [...starts.values()] } })
+    .select("start")
+    .lean<Array<{ start: Date }>>()
+  for (const slot of existing) starts.delete(slot.start.getTime())
+
+  try {
+    const slots: IVisitSlot[] = await VisitSlot.insertMany(
+      [...starts.values()].map((start) => ({
+        property: property._id,
+        owner: property.owner,
+        start,
+        durationMinutes,
+        status: "open",
+      })),
+    )
+    return { success: true, slots }
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return { success: false, error: "Some of these times were just published. Refresh and try again.", status: 409 }
+    }
+    throw error
+  }
+}
+
+/**
+ * Withdraw an open slot. Booked slots are freed by cancelling or rescheduling the visit.
+ */
+export async function removeVisitSlot(propertyId: string, slotId: string): Promise<{ success: true } | VisitFailure> {
+  if (!mongoose.Types.ObjectId.isValid(slotId)) {
+    return { success: false, error: "Invalid slot ID", status: 400 }
+  }
+
+  const removed = await VisitSlot.deleteOne({ _id: slotId, property: propertyId, status: "open" })
+  if (removed.deletedCount === 0) {
+    const booked = await VisitSlot.exists({ _id: slotId, property: propertyId })
+    return booked
+      ? { success: false, error: "This slot is booked; cancel or reschedule the visit instead", status: 409 }
+      : { success: false, error: "Slot not found", status: 404 }
+  }
+  return { success: true }
+}
+
+// open -> booked, or null if someone else got there first
+async function claimSlot(slotId: string, propertyId: mongoose.Types.ObjectId | null, now: Date) {
+  const filter: Record<string, unknown> = { _id: slotId, status: "open", start: { $gt: now } }
+  if (propertyId) filter.property = propertyId
+  const slot: IVisitSlot | null = await VisitSlot.findOneAndUpdate(
+    filter,
+    { $set: { status: "booked", updatedAt: now } },
+    { new: true },
+  )
+  return slot
+}
+
+async function releaseSlot(slotId: mongoose.Types.ObjectId | undefined, visitId?: mongoose.Types.ObjectId) {
+  if (!slotId) return
+  const filter: Record<string, unknown> = { _id: slotId, status: "booked" }
+  if (visitId) filter.visit = visitId
+  await VisitSlot.updateOne(filter, { $set: { status: "open", updatedAt: new Date() }, $unset: { visit: "" } })
+}
+
+/**
+ * Book an open slot for the session user
+ */
+export async function bookVisit(
+  userId: string,
+  input: {
+    slotId?: unknown
+    name?: unknown
+    phone?: unknown
+    email?: unknown
+    notes?: unknown
+    contactMethod?: unknown
+    visitType?: unknown
+  },
+  now = new Date(),
+): Promise<VisitResult> {
+  const slotId = typeof input.slotId === "string" ? input.slotId : ""
+  if (!mongoose.Types.ObjectId.isValid(slotId)) {
+    return { success: false, error: "Pick a visit slot", status: 400 }
+  }
+  const name = typeof input.name === "string" ? input.name.trim() : ""
+  const phone = typeof input.phone === "string" ? input.phone.replace(/\D/g, "") : ""
+  if (!name || !/^[6-9]\d{9}$/.test(phone.slice(-10))) {
+    return { success: false, error: "Your name and a valid 10-digit phone number are required", status: 400 }
+  }
+  const contactMethod = ["whatsapp", "email", "phone"].includes(input.contactMethod as string)
+    ? (input.contactMethod as IScheduleVisit["contactMethod"])
+    : "whatsapp"
+  const visitType: IScheduleVisit["visitType"] = input.visitType === "virtual" ? "virtual" : "in_person"
+
+  const slot: IVisitSlot | null = await VisitSlot.findById(slotId)
+  if (!slot) {
+    return { success: false, error: "Slot not found", status: 404 }
+  }
+  if (slot.owner.toString() === userId) {
+    return { success: false, error: "You can't book a visit to your own property", status: 400 }
+  }
+
+  const alreadyBooked = await ScheduleVisit.exists({
+    user: userId,
+    property: slot.property,
+    status: { $in: ["pending", "confirmed"] },
+    scheduledDate: { $gt: now },
+  })
+  if (alreadyBooked) {
+    return { success: false, error: "You already have a visit booked for this property", status: 409 }
+  }
+
+  const claimed = await claimSlot(slotId, null, now)
+  if (!claimed) {
+    return { success: false, error: "This time was just booked or has passed. Pick another slot.", status: 409 }
+  }
+
+  let visit: IScheduleVisit
+  try {
+    const visitId = new mongoose.Types.ObjectId()
+    visit = await ScheduleVisit.create({
+      _id: visitId,
+      property: claimed.property,
+      user: userId,
+      owner: claimed.owner,
+      slot: claimed._id,
+      scheduledDate: claimed.start,
+      scheduledTime: formatVisitTime(claimed.start),
+      status: "pending",
+      notes: typeof input.notes === "string" ? input.notes.trim().slice(0, 500) || undefined : undefined,
+      contactMethod,
+      visitType,
+      virtualRoom: visitType === "virtual" ? buildVirtualRoom(visitId, claimed) : undefined,
+      visitorName: name,
+      visitorPhone: phone,
+      visitorEmail: typeof input.email === "string" ? input.email.trim() || undefined : undefined,
+      createdAt: now,
+    })
+  } catch (error) {
+    await releaseSlot(claimed._id as mongoose.Types.ObjectId)
+    throw error
+  }
+  await VisitSlot.updateOne({ _id: claimed._id }, { $set: { visit: visit._id } })
+
+  const title = await getPropertyTitle(visit.property)
+  await createNotification({
+    userId: visit.owner.toString(),
+    type: "booking",
+    title: visitType === "virtual" ? "New virtual tour request" : "New visit request",
+    message: `${name} wants to ${visitType === "virtual" ? "tour" : "visit"} ${title} ${
+      visitType === "virtual" ? "over video " : ""
+    }on ${describeVisit(visit)}. Confirm or reschedule it.`,
+    link: "/profile?tab=visits",
+    priority: "high",
+    metadata: { visitId: String(visit._id), propertyId: String(visit.property) },
+  })
+
+  return { success: true, visit }
+}
+
+/**
+ * Work out how the session user relates to a visit
+ */
+export function getVisitActor(visit: IScheduleVisit, sessionUser: { id: string; role?: string }): VisitActor | null {
+  if (sessionUser.role === "admin") return { role: "admin", userId: sessionUser.id }
+  if (refId(visit.owner) === sessionUser.id) return { role: "owner", userId: sessionUser.id }
+  if (refId(visit.user) === sessionUser.id) return { role: "visitor", userId: sessionUser.id }
+  return null
+}
+
+/**
+ * Confirm, complete or cancel a visit. Completing records whether the visitor
+ * came; for virtual visits that defaults to whether they joined the room.
+ * Fails with 409 if someone else changed it first.
+ */
+export async function updateVisitStatus(
+  visit: IScheduleVisit,
+  to: VisitStatus,
+  actor: VisitActor,
+  details: { reason?: string; attended?: boolean } = {},
+  now = new Date(),
+): Promise<VisitResult> {
+  const { reason } = details
+  const from = visit.status
+  if (!canTransitionVisit(from, to, actor.role)) {
+    return { success: false, error: `A ${from} visit can't be marked ${to}`, status: 400 }
+  }
+  if (to === "cancelled" && visit.scheduledDate <= now && actor.role === "visitor") {
+    return { success: false, error: "This visit has already started", status: 400 }
+  }
+  if (to === "completed" && visit.scheduledDate > now) {
+    return { success: false, error: "This visit hasn't happened yet", status: 400 }
+  }
+
+  const set: Record<string, unknown> = { status: to, updatedAt: now }
+  if (to === "confirmed") set.confirmedAt = now
+  if (to === "completed") {
+    set.completedAt = now
+    const attended = details.attended ?? (visit.visitType === "virtual" ? Boolean(visit.attendance?.visitorJoinedAt) : undefined)
+    if (attended !== undefined) set.attended = attended
+  }
+  if (to === "cancelled") {
+    set.cancelledAt = now
+    set.cancelledBy = actor.role
+    if (reason) set.cancellationReason = reason
+  }
+
+  const updated: IScheduleVisit | null = await ScheduleVisit.findOneAndUpdate(
+    { _id: visit._id, status: from },
+    { $set: set },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "This visit was updated by someone else. Refresh and try again.", status: 409 }
+  }
+
+  if (to === "cancelled" && updated.scheduledDate > now) {
+    await releaseSlot(updated.slot, updated._id as mongoose.Types.ObjectId)
+  }
+  if (to === "completed") return { success: true, visit: updated }
+
+  const title = await getPropertyTitle(updated.property)
+  const when = describeVisit(updated)
+  if (actor.role === "visitor") {
+    await createNotification({
+      userId: updated.owner.toString(),
+      type: "booking",
+      title: "Visit cancelled",
+      message: `${updated.visitorName || "The visitor"} cancelled their visit to ${title} on ${when}${reason ? `: ${reason}` : ""}.`,
+      link: "/profile?tab=visits",
+      priority: "medium",
+      metadata: { visitId: String(updated._id) },
+    })
+  } else {
+    await createNotification({
+      userId: updated.user.toString(),
+      type: "booking",
+      title: to === "confirmed" ? "Visit confirmed" : "Visit cancelled",
+      message:
+        to === "confirmed"
+          ? `Your visit to ${title} on ${when} is confirmed.`
+          : `The owner cancelled your visit to ${title} on ${when}${reason ? `: ${reason}` : ""}.`,
+      link: "/profile?tab=bookings",
+      priority: "high",
+      metadata: { visitId: String(updated._id), status: to },
+    })
+  }
+
+  return { success: true, visit: updated }
+}
+
+/**
+ * Move a visit onto another open slot of the same property (owner or admin). The
+ * new time counts as confirmed, since the owner chose it.
+ */
+export async function rescheduleVisit(
+  visit: IScheduleVisit,
+  slotId: unknown,
+  actor: VisitActor,
+  now = new Date(),
+): Promise<VisitResult> {
+  if (actor.role === "visitor") {
+    return { success: false, error: "Only the owner can reschedule a visit; cancel and book another slot instead", status: 403 }
+  }
+  if (visit.status !== "pending" && visit.status !== "confirmed") {
+    return { success: false, error: `A ${visit.status} visit can't be rescheduled`, status: 400 }
+  }
+  if (typeof slotId !== "string" || !mongoose.Types.ObjectId.isValid(slotId)) {
+    return { success: false, error: "Pick a new slot", status: 400 }
+  }
+
+  const slot = await claimSlot(slotId, visit.property, now)
+  if (!slot) {
+    return { success: false, error: "That slot is no longer available. Pick another.", status: 409 }
+  }
+
+  const room =
+    visit.visitType === "virtual"
+      ? { virtualRoom: buildVirtualRoom(visit._id as mongoose.Types.ObjectId, slot, visit.virtualRoom?.roomName) }
+      : {}
+  const updated: IScheduleVisit | null = await ScheduleVisit.findOneAndUpdate(
+    { _id: visit._id, status: visit.status, slot: visit.slot },
+    {
+      $set: {
+        ...room,
+        slot: slot._id,
+        scheduledDate: slot.start,
+        scheduledTime: formatVisitTime(slot.start),
+        status: "confirmed",
+        confirmedAt: now,
+        rescheduledAt: now,
+        updatedAt: now,
+      },
+      $unset: { reminderSentAt: "" },
+    },
+    { new: true },
+  )
+  if (!updated) {
+    await releaseSlot(slot._id as mongoose.Types.ObjectId)
+    return { success: false, error: "This visit was updated by someone else. Refresh and try again.", status: 409 }
+  }
+
+  await VisitSlot.updateOne({ _id: slot._id }, { $set: { visit: updated._id } })
+  await releaseSlot(visit.slot, visit._id as mongoose.Types.ObjectId)
+
+  const title = await getPropertyTitle(updated.property)
+  await createNotification({
+    userId: updated.user.toString(),
+    type: "booking",
+    title: "Visit rescheduled",
+    message: `The owner moved your visit to ${title} to ${describeVisit(updated)}. Cancel it if that doesn't suit you.`,
+    link: "/profile?tab=bookings",
+    priority: "high",
+    metadata: { visitId: String(updated._id) },
+  })
+
+  return { success: true, visit: updated }
+}
+
+/**
+ * Remind visitors and owners of visits in the next day (scheduled job)
+ */
+export async function sendVisitReminders(now = new Date()) {
+  const upcoming: IScheduleVisit[] = await ScheduleVisit.find({
+    status: { $in: ["pending", "confirmed"] },
+    scheduledDate: { $gt: now, $lte: new Date(now.getTime() + VISIT_REMINDER_HOURS * 60 * 60 * 1000) },
+    reminderSentAt: { $exists: false },
+  }).limit(200)
+
+  let reminded = 0
+  for (const visit of upcoming) {
+    const claimed = await ScheduleVisit.updateOne(
+      { _id: visit._id, reminderSentAt: { $exists: false } },
+      { $set: { reminderSentAt: now } },
+    )
+    if (claimed.modifiedCount === 0) continue
+
+    const title = await getPropertyTitle(visit.property)
+    const when = describeVisit(visit)
+    await createNotification({
+      userId: visit.user.toString(),
+      type: "booking",
+      title: "Upcoming property visit",
+      message: `Your ${visit.visitType === "virtual" ? "virtual tour of" : "visit to"} ${title} is on ${when}${
+        visit.status === "pending" ? " (awaiting the owner's confirmation)" : ""
+      }.${visit.visitType === "virtual" ? " Join the video room from My Bookings." : ""}`,
+      link: "/profile?tab=bookings",
+      priority: "medium",
+      metadata: { visitId: String(visit._id) },
+    })
+    if (visit.contactMethod === "whatsapp" && visit.visitorPhone) {
+      await sendWhatsAppMessage(
+        visit.visitorPhone,
+        `Reminder from SecondHome: your ${visit.visitType === "virtual" ? "virtual tour of" : "visit to"} ${title} is on ${when}.`,
+      )
+    }
+    await createNotification({
+      userId: visit.owner.toString(),
+      type: "booking",
+      title: visit.status === "pending" ? "Unconfirmed visit tomorrow" : "Upcoming property visit",
+      message: `${visit.visitorName || "A visitor"} is visiting ${title} on ${when}.`,
+      link: "/profile?tab=visits",
+      priority: visit.status === "pending" ? "high" : "medium",
+      metadata: { visitId: String(visit._id) },
+    })
+    reminded++
+  }
+
+  return { reminded }
+}
+
+/**
+ * Let a participant into a virtual visit's room while it is open, recording
+ * when each side first joined
+ */
+export async function joinVirtualRoom(
+  visit: IScheduleVisit,
+  actor: VisitActor,
+  now = new Date(),
+): Promise<VisitResult> {
+  if (visit.visitType !== "virtual" || !visit.virtualRoom) {
+    return { success: false, error: "This is an in-person visit", status: 400 }
+  }
+  if (visit.status !== "confirmed") {
+    return {
+      success: false,
+      error: visit.status === "pending" ? "The owner hasn't confirmed this tour yet" : `This tour is ${visit.status}`,
+      status: 400,
+    }
+  }
+  if (now < visit.virtualRoom.opensAt) {
+    return { success: false, error: `The room opens at ${formatVisitTime(visit.virtualRoom.opensAt)}`, status: 403 }
+  }
+  if (now > visit.virtualRoom.closesAt) {
+    return { success: false, error: "This tour's room has closed", status: 403 }
+  }
+
+  // Admins can look in without counting as either side
+  if (actor.role === "admin") return { success: true, visit }
+
+  const field = actor.role === "owner" ? "attendance.ownerJoinedAt" : "attendance.visitorJoinedAt"
+  const updated: IScheduleVisit | null = await ScheduleVisit.findOneAndUpdate(
+    { _id: visit._id, [field]: { $exists: false } },
+    { $set: { [field]: now } },
+    { new: true },
+  )
+  return { success: true, visit: updated ?? visit }
+}
+
+/**
+ * Save the owner's notes after a visit and let the visitor know
+ */
+export async function recordVisitFollowUp(
+  visit: IScheduleVisit,
+  actor: VisitActor,
+  notes: string,
+  now = new Date(),
+): Promise<VisitResult> {
+  if (actor.role === "visitor") {
+    return { success: false, error: "Only the owner can add follow-up notes", status: 403 }
+  }
+  if (visit.status === "cancelled" || visit.status === "pending" || visit.scheduledDate > now) {
+    return { success: false, error: "Follow-up notes can be added once the visit has happened", status: 400 }
+  }
+
+  const updated: IScheduleVisit | null = await ScheduleVisit.findByIdAndUpdate(
+    visit._id,
+    { $set: { followUpNotes: notes, followUpAt: now, updatedAt: now } },
+    { new: true },
+  )
+  if (!updated) {
+    return { success: false, error: "Visit not found", status: 404 }
+  }
+
+  const title = await getPropertyTitle(updated.property)
+  await createNotification({
+    userId: updated.user.toString(),
+    type: "booking",
+    title: "A note from the owner",
+    message: `After your visit to ${title}: ${notes}`,
+    link: "/profile?tab=bookings",
+    priority: "medium",
+    metadata: { visitId: String(updated._id), propertyId: String(updated.property) },
+  })
+
+  return { success: true, visit: updated }
+}
+
+/**
+ * The visitor's visit a new booking of the property is being made from, if it can be
+ */
+export async function getBookableVisit(visitId: unknown, userId: string, propertyId: string): Promise<VisitResult> {
+  if (typeof visitId !== "string" || !mongoose.Types.ObjectId.isValid(visitId)) {
+    return { success: false, error: "Invalid visit ID", status: 400 }
+  }
+
+  const visit: IScheduleVisit | null = await ScheduleVisit.findById(visitId)
+  if (!visit || visit.user.toString() !== userId || visit.property.toString() !== propertyId) {
+    return { success: false, error: "Visit not found", status: 404 }
+  }
+  if (visit.status !== "confirmed" && visit.status !== "completed") {
+    return { success: false, error: `A ${visit.status} visit can't be turned into a booking`, status: 400 }
+  }
+  if (visit.booking) {
+    return { success: false, error: "You've already booked from this visit", status: 409 }
+  }
+  return { success: true, visit }
+}
+
+/**
+ * Record the booking made from a visit and tell the owner
+ */
+export async function linkVisitBooking(visit: IScheduleVisit, bookingId: mongoose.Types.ObjectId) {
+  const linked = await ScheduleVisit.updateOne(
+    { _id: visit._id, booking: { $exists: false } },
+    { $set: { booking: bookingId, updatedAt: new Date() } },
+  )
+  if (linked.modifiedCount === 0) return
+
+  const title = await getPropertyTitle(visit.property)
+  await createNotification({
+    userId: visit.owner.toString(),
+    type: "booking",
+    title: "Visit turned into a booking",
+    message: `${visit.visitorName || "A visitor"} booked ${title} after their ${visit.visitType === "virtual" ? "virtual tour" : "visit"}.`,
+    link: "/profile?tab=properties",
+    priority: "high",
+    metadata: { visitId: String(visit._id), bookingId: String(bookingId) },
+  })
+}
@@ -0,0 +1,207 @@
+import mongoose from "mongoose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { Property } from "@/models/property"
+import { WaitlistEntry } from "@/models/waitlist-entry"
+import { releaseBookingHold } from "@/lib/booking-reservations"
+import {
+  WAITLIST_OFFER_HOURS,
+  claimWaitlistOffer,
+  expireWaitlistOffers,
+  leaveWaitlist,
+  offerWaitlistedBeds,
+  restoreWaitlistOffer,
+} from "@/lib/waitlist"
+
+vi.mock("@/lib/notification-helper", () => ({ createNotification: vi.fn() }))
+
+interface Entry {
+  _id: mongoose.Types.ObjectId
+  user: string
+  property: string
+  roomType: string
+  status: string
+  createdAt: Date
+  offer?: { offeredAt: Date; expiresAt: Date }
+}
+
+const propertyId = new mongoose.Types.ObjectId().toString()
+const now = new Date("2026-10-19T10:00:00.000Z")
+const hours = (count: number) => new Date(now.getTime() + count * 60 * 60 * 1000)
+
+// In-memory stand-ins for the waitlist collection and the property's free beds
+let entries: Entry[]
+let available: Record<string, number>
+
+function matches(entry: Entry, filter: unknown) {
+  return Object.entries(filter as Record<string, unknown>).every(([key, condition]) => {
+    const value = key === "offer.expiresAt" ? entry.offer?.expiresAt : entry[key as keyof Entry]
+    const operators = condition as { $in?: unknown[]; $gt?: Date; $lte?: Date }
+    if (operators?.$in) return operators.$in.includes(value)
+    if (operators?.$gt) return value instanceof Date && value > operators.$gt
+    if (operators?.$lte) return value instanceof Date && value <= operators.$lte
+    return String(value) === String(condition)
+  })
+}
+
+function update(filter: unknown, change: unknown) {
+  const entry = entries.find((candidate) => matches(candidate, filter))
+  if (entry) Object.assign(entry, (change as { $set: Partial<Entry> }).$set)
+  return entry ? { ...entry } : null
+}
+
+function waiting(user: string, createdAt: Date, roomType = "Double"): Entry {
+  return { _id: new mongoose.Types.ObjectId(), user, property: propertyId, roomType, status: "waiting", createdAt }
+}
+
+function offered(user: string, expiresAt: Date): Entry {
+  return { ...waiting(user, hours(-48)), status: "offered", offer: { offeredAt: hours(-12), expiresAt } }
+}
+
+const statusOf = (user: string) => entries.find((entry) => entry.user === user)?.status
+
+beforeEach(() => {
+  entries = []
+  available = { Double: 0, Single: 0 }
+
+  vi.spyOn(WaitlistEntry, "findOne").mockImplementation(
+    (filter) =>
+      ({
+        sort: () =>
+          Promise.resolve(
+            entries
+              .filter((entry) => matches(entry, filter))
+              .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] ?? null,
+          ),
+      }) as never,
+  )
+  vi.spyOn(WaitlistEntry, "find").mockImplementation(
+    (filter) => Promise.resolve(entries.filter((entry) => matches(entry, filter))) as never,
+  )
+  vi.spyOn(WaitlistEntry, "findOneAndUpdate").mockImplementation(
+    (filter, change) => Promise.resolve(update(filter, change)) as never,
+  )
+  vi.spyOn(WaitlistEntry, "updateOne").mockImplementation((filter, change) => {
+    update(filter, change)
+    return Promise.resolve({}) as never
+  })
+
+  // reserveRoom takes a bed if one is free; releaseRoom gives one back
+  vi.spyOn(Property, "findOneAndUpdate").mockImplementation((filter) => {
+    const roomType = (filter as unknown as { roomTypes: { $elemMatch: { type: string } } }).roomTypes.$elemMatch.type
+    if (available[roomType] <= 0) return Promise.resolve(null) as never
+    available[roomType]--
+    return Promise.resolve({}) as never
+  })
+  vi.spyOn(Property, "findByIdAndUpdate").mockImplementation((_id, _change, options) => {
+    const roomType = (options as { arrayFilters: Array<{ "elem.type": string }> }).arrayFilters[0]["elem.type"]
+    available[roomType]++
+    return Promise.resolve({}) as never
+  })
+  vi.spyOn(Property, "findById").mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve({ title: "Sunrise PG" }) }),
+  } as never)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("offerWaitlistedBeds", () => {
+  it("offers free beds to the students who joined first", async () => {
+    entries = [waiting("third", hours(-1)), waiting("first", hours(-3)), waiting("second", hours(-2))]
+    available.Double = 2
+
+    expect(await offerWaitlistedBeds(propertyId, "Double", now)).toBe(2)
+    expect([statusOf("first"), statusOf("second"), statusOf("third")]).toEqual(["offered", "offered", "waiting"])
+  })
+
+  it("holds each offered bed off inventory until the offer lapses", async () => {
+    entries = [waiting("first", hours(-3))]
+    available.Double = 1
+
+    await offerWaitlistedBeds(propertyId, "Double", now)
+    expect(available.Double).toBe(0)
+    expect(entries[0].offer).toEqual({ offeredAt: now, expiresAt: hours(WAITLIST_OFFER_HOURS) })
+  })
+
+  it("leaves beds nobody is waiting for in general inventory", async () => {
+    entries = [waiting("single", hours(-3), "Single")]
+    available.Double = 1
+
+    expect(await offerWaitlistedBeds(propertyId, "Double", now)).toBe(0)
+    expect(available.Double).toBe(1)
+    expect(statusOf("single")).toBe("waiting")
+  })
+})
+
+describe("releaseBookingHold", () => {
+  it("gives a freed bed to the waitlist before anyone else can book it", async () => {
+    entries = [waiting("first", hours(-3))]
+
+    const booking = { _id: new mongoose.Types.ObjectId(), property: propertyId, roomType: "Double", status: "confirmed" }
+    expect(await releaseBookingHold(booking, "cancelled")).toBe(true)
+    expect(statusOf("first")).toBe("offered")
+    expect(available.Double).toBe(0)
+  })
+})
+
+describe("expireWaitlistOffers", () => {
+  it("passes a lapsed offer's bed to the next in line", async () => {
+    entries = [offered("slow", hours(-1)), waiting("next", hours(-2))]
+
+    expect(await expireWaitlistOffers({}, now)).toEqual({ checked: 1, expired: 1 })
+    expect(statusOf("slow")).toBe("expired")
+    expect(statusOf("next")).toBe("offered")
+    expect(available.Double).toBe(0)
+  })
+
+  it("returns the bed to inventory when nobody else is waiting", async () => {
+    entries = [offered("slow", hours(-1))]
+
+    await expireWaitlistOffers({}, now)
+    expect(available.Double).toBe(1)
+  })
+
+  it("leaves offers that are still open", async () => {
+    entries = [offered("deciding", hours(1)), waiting("next", hours(-2))]
+
+    expect(await expireWaitlistOffers({}, now)).toEqual({ checked: 0, expired: 0 })
+    expect(statusOf("deciding")).toBe("offered")
+    expect(statusOf("next")).toBe("waiting")
+  })
+})
+
+describe("claimWaitlistOffer", () => {
+  it("books the bed held for the student", async () => {
+    entries = [offered("first", hours(1))]
+
+    const claimed = await claimWaitlistOffer("first", propertyId, "Double", now)
+    expect(claimed?.status).toBe("booked")
+  })
+
+  it("can't use an offer that has lapsed", async () => {
+    entries = [offered("first", now)]
+
+    expect(await claimWaitlistOffer("first", propertyId, "Double", now)).toBeNull()
+    expect(statusOf("first")).toBe("offered")
+  })
+
+  it("is undone with the bed still held when the booking fails", async () => {
+    entries = [offered("first", hours(1))]
+
+    const claimed = await claimWaitlistOffer("first", propertyId, "Double", now)
+    await restoreWaitlistOffer(claimed as never)
+    expect(statusOf("first")).toBe("offered")
+    expect(available.Double).toBe(0)
+  })
+})
+
+describe("leaveWaitlist", () => {
+  it("passes a held bed on to the next in line", async () => {
+    entries = [offered("leaving", hours(1)), waiting("next", hours(-2))]
+
+    expect((await leaveWaitlist({ ...entries[0] } as never, now)).success).toBe(true)
+    expect(statusOf("leaving")).toBe("left")
+    expect(statusOf("next")).toBe("offered")
+  })
+})
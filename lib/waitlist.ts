@@ -0,0 +1,276 @@
+import mongoose from "mongoose"
+import { Property } from "@/models/property"
+import { WaitlistEntry, type IWaitlistEntry } from "@/models/waitlist-entry"
+import { releaseRoom, reserveRoom } from "@/lib/booking-reservations"
+import { createNotification } from "@/lib/notification-helper"
+import { refId } from "@/lib/utils"
+
+/**
+ * Waitlists for full room types
+ *
+ * When a room type has no beds left, students can queue for it. Whenever a
+ * bed of that type comes back - a cancelled or expired booking, a group that
+ * fell through, an owner adding beds - offerWaitlistedBeds() takes it straight
+ * back off inventory for the next student in line and gives them
+ * WAITLIST_OFFER_HOURS to book it. Booking with an open offer uses the held
+ * bed (claimWaitlistOffer); if the window lapses, or the student leaves the
+ * line, the bed moves on to the next student, and once the line is empty it
+ * is open to everyone again.
+ */
+
+type WaitlistFailure = { success: false; error: string; status: number }
+
+export const WAITLIST_OFFER_HOURS = Number(process.env.WAITLIST_OFFER_HOURS) || 12
+
+const MAX_ACTIVE_ENTRIES = 10
+
+/**
+ * Join the line for a room type that is currently full
+ */
+export async function joinWaitlist(
+  userId: string,
+  input: { propertyId?: unknown; roomType?: unknown },
+  now = new Date(),
+): Promise<{ success: true; entry: IWaitlistEntry } | WaitlistFailure> {
+  const { propertyId, roomType } = input
+  if (typeof propertyId !== "string" || !mongoose.Types.ObjectId.isValid(propertyId)) {
+    return { success: false, error: "Invalid property ID", status: 400 }
+  }
+
+  const property = await Property.findById(propertyId)
+    .select("roomTypes")
+    .lean<{ roomTypes?: Array<{ type: string; available: number }> }>()
+  if (!property) {
+    return { success: false, error: "Property not found", status: 404 }
+  }
+  const room = property.roomTypes?.find((entry) => entry.type === roomType)
+  if (!room) {
+    return { success: false, error: "Room type not found", status: 404 }
+  }
+
+  const existing: IWaitlistEntry | null = await WaitlistEntry.findOne({
+    user: userId,
+    property: propertyId,
+    roomType: room.type,
+    status: { $in: ["waiting", "offered"] },
+  })
+  if (existing) {
+    return { success: false, error: "You're already on the waitlist for this room", status: 409 }
+  }
+  if (room.available > 0) {
+    return { success: false, error: "This room has beds available, you can book it now", status: 400 }
+  }
+
+  const active = await WaitlistEntry.countDocuments({ user: userId, status: { $in: ["waiting", "offered"] } })
+  if (active >= MAX_ACTIVE_ENTRIES) {
+    return { success: false, error: `You can be on up to ${MAX_ACTIVE_ENTRIES} waitlists at a time`, status: 400 }
+  }
+
+  try {
+    const entry: IWaitlistEntry = await WaitlistEntry.create({
+      user: userId,
+      property: propertyId,
+      roomType: room.type,
+      status: "waiting",
+      createdAt: now,
+    })
+    return { success: true, entry }
+  } catch (error) {
+    // Lost a race with a double submit; the unique index kept one entry
+    if ((error as { code?: number }).code === 11000) {
+      return { success: false, error: "You're already on the waitlist for this room", status: 409 }
+    }
+    throw error
+  }
+}
+
+/**
+ * Leave the line. A bed held for this student moves on to the next in line.
+ */
+export async function leaveWaitlist(
+  entry: IWaitlistEntry,
+  now = new Date(),
+): Promise<{ success: true; entry: IWaitlistEntry } | WaitlistFailure> {
+  const left: IWaitlistEntry | null = await WaitlistEntry.findOneAndUpdate(
+    { _id: entry._id, status: { $in: ["waiting", "offered"] } },
+    { $set: { status: "left", updatedAt: now } },
+    { new: true },
+  )
+  if (!left) {
+    return { success: false, error: "You're no longer on this waitlist", status: 409 }
+  }
+
+  if (entry.status === "offered") {
+    await passOfferOn(left, now)
+  }
+
+  return { success: true, entry: left }
+}
+
+// Give a held bed back and offer it to whoever is next
+async function passOfferOn(entry: IWaitlistEntry, now: Date) {
+  const propertyId = refId(entry.property)
+  await releaseRoom(propertyId, entry.roomType)
+  await offerWaitlistedBeds(propertyId, entry.roomType, now)
+}
+
+/**
+ * Hand any free beds of `roomType` to the students waiting for them, in order.
+ * Each offered bed is taken off inventory so nobody else can book it meanwhile.
+ * Returns how many offers were made.
+ */
+export async function offerWaitlistedBeds(propertyId: string, roomType: string, now = new Date()) {
+  let offered = 0
+
+  for (;;) {
+    const next: IWaitlistEntry | null = await WaitlistEntry.findOne({
+      property: propertyId,
+      roomType,
+      status: "waiting",
+    }).sort({ createdAt: 1 })
+    if (!next) break
+
+    if (!(await reserveRoom(propertyId, roomType))) break
+
+    const expiresAt = new Date(now.getTime() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000)
+    const claimed: IWaitlistEntry | null = await WaitlistEntry.findOneAndUpdate(
+      { _id: next._id, status: "waiting" },
+      { $set: { status: "offered", offer: { offeredAt: now, expiresAt }, updatedAt: now } },
+      { new: true },
+    )
+    if (!claimed) {
+      // They left the line in the meantime; put the bed back and try the next one
+      await releaseRoom(propertyId, roomType)
+      continue
+    }
+
+    const property = await Property.findById(propertyId).select("title").lean<{ title?: string }>()
+    await createNotification({
+      userId: refId(claimed.user),
+      type: "booking",
+      title: "A bed is free for you",
+      message: `A ${roomType} bed at ${property?.title || "a property you're waiting for"} opened up. It's held for you until ${expiresAt.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}; after that it goes to the next person in line.`,
+      link: `/listings/${propertyId}`,
+      priority: "high",
+      metadata: { waitlistEntryId: claimed._id.toString(), propertyId, roomType },
+    })
+    offered++
+  }
+
+  return offered
+}
+
+/**
+ * Use the student's open offer for this room type, if they have one.
+ * The returned entry's bed is already off inventory, so the booking must not
+ * reserve another; pass it to linkWaitlistBooking once the booking is saved.
+ */
+export async function claimWaitlistOffer(userId: string, propertyId: string, roomType: string, now = new Date()) {
+  const entry: IWaitlistEntry | null = await WaitlistEntry.findOneAndUpdate(
+    {
+      user: userId,
+      property: propertyId,
+      roomType,
+      status: "offered",
+      "offer.expiresAt": { $gt: now },
+    },
+    { $set: { status: "booked", updatedAt: now } },
+    { new: true },
+  )
+  return entry
+}
+
+export async function linkWaitlistBooking(entry: IWaitlistEntry, bookingId: mongoose.Types.ObjectId) {
+  await WaitlistEntry.updateOne({ _id: entry._id }, { $set: { booking: bookingId } })
+}
+
+/**
+ * Undo claimWaitlistOffer when the booking couldn't be created; the bed stays held
+ */
+export async function restoreWaitlistOffer(entry: IWaitlistEntry) {
+  await WaitlistEntry.updateOne({ _id: entry._id, status: "booked" }, { $set: { status: "offered" } })
+}
+
+/**
+ * Move lapsed offers on to the next in line. Pass a propertyId to only sweep
+ * one property (used before booking).
+ */
+export async function expireWaitlistOffers(options: { propertyId?: string } = {}, now = new Date()) {
+  const query: Record<string, unknown> = { status: "offered", "offer.expiresAt": { $lte: now } }
+  if (options.propertyId) query.property = options.propertyId
+
+  const lapsed: IWaitlistEntry[] = await WaitlistEntry.find(query)
+  let expired = 0
+
+  for (const entry of lapsed) {
+    const updated: IWaitlistEntry | null = await WaitlistEntry.findOneAndUpdate(
+      { _id: entry._id, status: "offered" },
+      { $set: { status: "expired", updatedAt: now } },
+      { new: true },
+    )
+    if (!updated) continue
+
+    await passOfferOn(updated, now)
+    await createNotification({
+      userId: refId(updated.user),
+      type: "booking",
+      title: "Your held bed was released",
+      message: `The ${updated.roomType} bed held for you wasn't booked in time and has gone to the next person. Join the waitlist again if you're still interested.`,
+      link: `/listings/${refId(updated.property)}`,
+      priority: "low",
+      metadata: { waitlistEntryId: updated._id.toString() },
+    })
+    expired++
+  }
+
+  return { checked: lapsed.length, expired }
+}
+
+/**
+ * The student's waitlist entries (all, or one property's) with their place in line
+ */
+export async function listWaitlist(userId: string, propertyId?: string) {
+  const query: Record<string, unknown> = { user: userId, status: { $in: ["waiting", "offered"] } }
+  if (propertyId) query.property = propertyId
+
+  const entries: IWaitlistEntry[] = await WaitlistEntry.find(query)
+    .populate("property", "title location")
+    .sort({ createdAt: -1 })
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      _id: String(entry._id),
+      property: entry.property,
+      roomType: entry.roomType,
+      status: entry.status,
+      offer: entry.offer,
+      createdAt: entry.createdAt,
+      position:
+        entry.status === "waiting"
+          ? (await WaitlistEntry.countDocuments({
+              property: refId(entry.property),
+              roomType: entry.roomType,
+              status: "waiting",
+              createdAt: { $lt: entry.createdAt },
+            })) + 1
+          : 0,
+    })),
+  )
+}
+
+/**
+ * How many students are waiting for, or hold an offer on, each room type
+ */
+export async function getWaitlistCounts(propertyId: string) {
+  const rows = await WaitlistEntry.aggregate<{ _id: { roomType: string; status: string }; count: number }>([
+    { $match: { property: new mongoose.Types.ObjectId(propertyId), status: { $in: ["waiting", "offered"] } } },
+    { $group: { _id: { roomType: "$roomType", status: "$status" }, count: { $sum: 1 } } },
+  ])
+
+  const counts: Record<string, { waiting: number; offered: number }> = {}
+  for (const row of rows) {
+    counts[row._id.roomType] ??= { waiting: 0, offered: 0 }
+    counts[row._id.roomType][row._id.status as "waiting" | "offered"] = row.count
+  }
+  return counts
+}
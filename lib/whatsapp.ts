@@ -0,0 +1,92 @@
+const BOTKIDA_API_KEY = process.env.BOTKIDA_API_KEY
+const BOTKIDA_API_URL = process.env.BOTKIDA_API_URL || "https://app.botkida.com/api/v1/whatsapp/send"
+// WhatsApp Business AI Number from configured provider
+const WHATSAPP_AI_NUMBER = process.env.WHATSAPP_AI_NUMBER || process.env.NEXT_PUBLIC_WHATSAPP_NUMBER || "917384662005" // This is the AI bot number that will handle messages
+
+export type WhatsAppSendResult = { success: true; data: unknown } | { success: false; error: string; status: number }
+
+/**
+ * Format an Indian phone number for the WhatsApp provider (country code, digits only)
+ */
+export function formatWhatsAppNumber(phoneNumber: string) {
+  let formattedPhone = phoneNumber.replace(/\D/g, "") // Remove non-digits
+  if (!formattedPhone.startsWith("91") && formattedPhone.length === 10) {
+    formattedPhone = "91" + formattedPhone // Add India country code
+  }
+  return formattedPhone
+}
+
+/**
+ * Send a WhatsApp message from the AI number through the provider API
+ */
+export async function sendWhatsAppMessage(
+  phoneNumber: string,
+  message: string,
+  propertyId?: string | null,
+): Promise<WhatsAppSendResult> {
+  if (!BOTKIDA_API_KEY) {
+    return { success: false, error: "BOTKIDA_API_KEY not configured", status: 500 }
+  }
+
+  try {
+    const response = await fetch(BOTKIDA_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${BOTKIDA_API_KEY}`,
+      },
+      body: JSON.stringify({
+        to: formatWhatsAppNumber(phoneNumber),
+        message: message,
+        propertyId: propertyId || null,
+        from: WHATSAPP_AI_NUMBER, // Send from AI number
+      }),
+    })
+
+    // Check response status
+    const contentType = response.headers.get("content-type")
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "")
+      if (contentType?.includes("application/json")) {
+        try {
+          const errorData = JSON.parse(errorText)
+          console.error("WhatsApp provider API error:", errorData)
+          return {
+            success: false,
+            error: errorData.error || errorData.message || `Failed to send WhatsApp message: ${response.status}`,
+            status: 500,
+          }
+        } catch {
+          // Fall through to the generic error below
+        }
+      }
+      // If it's HTML or other non-JSON response
+      console.error("WhatsApp provider API returned non-JSON error:", errorText.substring(0, 200))
+      return { success: false, error: `Failed to send WhatsApp message: HTTP ${response.status}`, status: 500 }
+    }
+
+    // Parse response only if it's JSON
+    const responseText = await response.text()
+    if (contentType?.includes("application/json")) {
+      try {
+        return { success: true, data: JSON.parse(responseText) }
+      } catch {
+        console.error("Failed to parse JSON response:", responseText.substring(0, 200))
+        // If JSON parsing fails, still return success but log the issue
+        return { success: true, data: { rawResponse: responseText.substring(0, 200) } }
+      }
+    }
+
+    // If response is not JSON (might be HTML or plain text)
+    console.warn("WhatsApp provider API returned non-JSON response:", responseText.substring(0, 200))
+    return { success: true, data: { message: "Message sent (non-JSON response received)" } }
+  } catch (error) {
+    console.error("WhatsApp send error:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send WhatsApp message",
+      status: 500,
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// One bed in the group; the organiser's is the first
+export interface IBookingGroupMember {
+  _id: mongoose.Types.ObjectId
+  email: string // lower-cased; who the bed is for
+  user?: mongoose.Types.ObjectId // set once they join
+  roomType: string
+  price: number // monthly rent for this bed
+  isOrganiser: boolean
+  // invited -> joined, or declined (the organiser can then invite someone else)
+  status: "invited" | "joined" | "declined"
+  inviteToken?: string // emailed link; cleared once used
+  booking?: mongoose.Types.ObjectId // the member's own booking, created when they join
+  invitedAt: Date
+  respondedAt?: Date
+}
+
+// Friends booking beds together (see lib/booking-groups.ts)
+export interface IBookingGroup extends Document {
+  groupNumber: string // e.g. GB-000123
+  organiser: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  checkInDate: Date
+  checkOutDate?: Date
+  // forming -> confirmed once every share is paid, or cancelled (beds released, payments refunded)
+  status: "forming" | "confirmed" | "cancelled"
+  deadline: Date // every share must be paid by then
+  members: IBookingGroupMember[]
+  confirmedAt?: Date
+  cancelledAt?: Date
+  cancelReason?: "expired" | "organiser" | "member_cancelled"
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const BookingGroupSchema = new Schema<IBookingGroup>({
+  groupNumber: { type: String, required: true, unique: true },
+  organiser: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  checkInDate: { type: Date, required: true },
+  checkOutDate: { type: Date },
+  status: { type: String, enum: ["forming", "confirmed", "cancelled"], default: "forming" },
+  deadline: { type: Date, required: true },
+  members: [
+    {
+      email: { type: String, required: true, lowercase: true, trim: true },
+      user: { type: Schema.Types.ObjectId, ref: "User" },
+      roomType: { type: String, required: true },
+      price: { type: Number, required: true },
+      isOrganiser: { type: Boolean, default: false },
+      status: { type: String, enum: ["invited", "joined", "declined"], default: "invited" },
+      inviteToken: { type: String },
+      booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+      invitedAt: { type: Date, default: Date.now },
+      respondedAt: { type: Date },
+    },
+  ],
+  confirmedAt: { type: Date },
+  cancelledAt: { type: Date },
+  cancelReason: { type: String, enum: ["expired", "organiser", "member_cancelled"] },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+// Used by the deadline sweep
+BookingGroupSchema.index({ status: 1, deadline: 1 })
+BookingGroupSchema.index({ "members.user": 1 })
+BookingGroupSchema.index({ "members.email": 1, status: 1 })
+BookingGroupSchema.index({ "members.inviteToken": 1 }, { sparse: true })
+
+export const BookingGroup =
+  mongoose.models.BookingGroup || mongoose.model<IBookingGroup>("BookingGroup", BookingGroupSchema)
@@ -1,5 +1,66 @@
 import mongoose, { Schema, type Document } from "mongoose"
 
+export interface IBookingTransition {
+  field: "status" | "paymentStatus"
+  from: string
+  to: string
+  actor?: mongoose.Types.ObjectId
+  actorRole: "tenant" | "owner" | "admin" | "system"
+  reason?: string
+  at: Date
+}
+
+export interface IDepositDeduction {
+  reason: string
+  amount: number
+}
+
+// Audit trail of the deposit (see lib/deposits.ts)
+export interface IDepositEvent {
+  action: "paid" | "collected" | "inspected" | "accepted" | "disputed" | "resolved" | "settled" | "refunded" | "cancelled"
+  actor?: mongoose.Types.ObjectId
+  actorRole: "tenant" | "owner" | "admin" | "system"
+  amount?: number
+  note?: string
+  at: Date
+}
+
+export interface IBookingDeposit {
+  amount: number
+  // due -> held -> inspected (-> disputed) -> settled; cancelled if the booking ends before it is paid
+  status: "due" | "held" | "inspected" | "disputed" | "settled" | "cancelled"
+  // Paid online it sits with the platform until settled; cash at move-in sits with the owner
+  heldBy?: "platform" | "owner"
+  payment?: mongoose.Types.ObjectId
+  reference?: string
+  collectedAt?: Date
+  inspection?: {
+    inspectedAt: Date
+    inspectedBy?: mongoose.Types.ObjectId
+    notes?: string
+    deductions: IDepositDeduction[]
+  }
+  disputeWindowEndsAt?: Date
+  dispute?: {
+    raisedAt: Date
+    reason: string
+    resolvedAt?: Date
+    resolvedBy?: mongoose.Types.ObjectId
+    resolution?: string
+  }
+  // Final deductions kept once settled (the inspection's, or the dispute resolution's)
+  deductions: IDepositDeduction[]
+  settledAt?: Date
+  refund?: {
+    amount: number
+    status: "none" | "pending" | "processed" | "failed"
+    reference?: string
+    refundedAt?: Date
+    error?: string
+  }
+  history: IDepositEvent[]
+}
+
 export interface IBooking extends Document {
   user: mongoose.Types.ObjectId
   property: mongoose.Types.ObjectId
@@ -10,9 +71,11 @@ export interface IBooking extends Document {
   checkInDate: Date
   checkOutDate?: Date
   status: "pending" | "confirmed" | "cancelled" | "completed"
-  paymentStatus: "pending" | "paid" | "refunded"
+  paymentStatus: "pending" | "paid" | "partially_refunded" | "refunded"
   paymentMethod?: "paypal" | "card" | "upi" | "fintech"
   paymentId?: string
+  // The Payment attempt that paid for this booking (see lib/payments.ts)
+  payment?: mongoose.Types.ObjectId
   // Business Model - Revenue Stream 2: Booking Commission
   firstMonthRent: number
   commissionRate: number // 5-10%
@@ -24,6 +87,40 @@ export interface IBooking extends Document {
     price: number
     items: string[]
   }
+  // Inventory hold: a bed is taken off roomTypes[].available when the booking is
+  // created and given back exactly once, on expiry or cancellation
+  reservation?: {
+    status: "held" | "released"
+    heldAt: Date
+    expiresAt: Date
+    releasedAt?: Date
+    releaseReason?: "expired" | "cancelled"
+  }
+  // Set when the booking is cancelled; the record is kept for refunds and audit
+  cancellation?: {
+    cancelledAt: Date
+    cancelledBy?: mongoose.Types.ObjectId
+    actorRole: "tenant" | "owner" | "admin" | "system"
+    reason?: string
+    daysBeforeCheckIn: number
+    refund: {
+      rent: number
+      commission: number
+      settlingInKit: number
+      total: number
+      rentPercent: number
+    }
+    refundStatus: "none" | "pending" | "processed" | "failed"
+    refundId?: string
+    refundedAt?: Date
+    refundError?: string
+  }
+  // Security deposit, paid separately from totalAmount (see lib/deposits.ts)
+  deposit?: IBookingDeposit
+  // Set for a bed in a group booking; it confirms with the group (see lib/booking-groups.ts)
+  group?: mongoose.Types.ObjectId
+  // Audit trail of status/paymentStatus changes (see lib/booking-state-machine.ts)
+  statusHistory: IBookingTransition[]
   createdAt: Date
   updatedAt?: Date
 }
@@ -44,7 +141,7 @@ const BookingSchema = new Schema<IBooking>({
   },
   paymentStatus: {
     type: String,
-    enum: ["pending", "paid", "refunded"],
+    enum: ["pending", "paid", "partially_refunded", "refunded"],
     default: "pending",
   },
   paymentMethod: {
@@ -52,6 +149,7 @@ const BookingSchema = new Schema<IBooking>({
     enum: ["paypal", "card", "upi", "fintech"],
   },
   paymentId: { type: String },
+  payment: { type: Schema.Types.ObjectId, ref: "Payment" },
   // Business Model - Revenue Stream 2: Booking Commission
   firstMonthRent: { type: Number },
   commissionRate: { type: Number, default: 7.5 }, // Default 7.5% (middle of 5-10%)
@@ -63,8 +161,95 @@ const BookingSchema = new Schema<IBooking>({
     price: { type: Number },
     items: [{ type: String }],
   },
+  reservation: {
+    status: { type: String, enum: ["held", "released"] },
+    heldAt: { type: Date },
+    expiresAt: { type: Date },
+    releasedAt: { type: Date },
+    releaseReason: { type: String, enum: ["expired", "cancelled"] },
+  },
+  cancellation: {
+    cancelledAt: { type: Date },
+    cancelledBy: { type: Schema.Types.ObjectId, ref: "User" },
+    actorRole: { type: String, enum: ["tenant", "owner", "admin", "system"] },
+    reason: { type: String },
+    daysBeforeCheckIn: { type: Number },
+    refund: {
+      rent: { type: Number, default: 0 },
+      commission: { type: Number, default: 0 },
+      settlingInKit: { type: Number, default: 0 },
+      total: { type: Number, default: 0 },
+      rentPercent: { type: Number, default: 0 },
+    },
+    refundStatus: { type: String, enum: ["none", "pending", "processed", "failed"] },
+    refundId: { type: String },
+    refundedAt: { type: Date },
+    refundError: { type: String },
+  },
+  deposit: {
+    amount: { type: Number },
+    status: { type: String, enum: ["due", "held", "inspected", "disputed", "settled", "cancelled"] },
+    heldBy: { type: String, enum: ["platform", "owner"] },
+    payment: { type: Schema.Types.ObjectId, ref: "Payment" },
+    reference: { type: String },
+    collectedAt: { type: Date },
+    inspection: {
+      inspectedAt: { type: Date },
+      inspectedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      notes: { type: String },
+      deductions: [{ reason: { type: String, required: true }, amount: { type: Number, required: true } }],
+    },
+    disputeWindowEndsAt: { type: Date },
+    dispute: {
+      raisedAt: { type: Date },
+      reason: { type: String },
+      resolvedAt: { type: Date },
+      resolvedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      resolution: { type: String },
+    },
+    deductions: [{ reason: { type: String, required: true }, amount: { type: Number, required: true } }],
+    settledAt: { type: Date },
+    refund: {
+      amount: { type: Number },
+      status: { type: String, enum: ["none", "pending", "processed", "failed"] },
+      reference: { type: String },
+      refundedAt: { type: Date },
+      error: { type: String },
+    },
+    history: [
+      {
+        action: {
+          type: String,
+          enum: ["paid", "collected", "inspected", "accepted", "disputed", "resolved", "settled", "refunded", "cancelled"],
+          required: true,
+        },
+        actor: { type: Schema.Types.ObjectId, ref: "User" },
+        actorRole: { type: String, enum: ["tenant", "owner", "admin", "system"], required: true },
+        amount: { type: Number },
+        note: { type: String },
+        at: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  group: { type: Schema.Types.ObjectId, ref: "BookingGroup" },
+  statusHistory: [
+    {
+      field: { type: String, enum: ["status", "paymentStatus"], required: true },
+      from: { type: String, required: true },
+      to: { type: String, required: true },
+      actor: { type: Schema.Types.ObjectId, ref: "User" },
+      actorRole: { type: String, enum: ["tenant", "owner", "admin", "system"], required: true },
+      reason: { type: String },
+      at: { type: Date, default: Date.now },
+    },
+  ],
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date },
 })
 
+// Used by the hold-expiry sweep
+BookingSchema.index({ "reservation.status": 1, paymentStatus: 1, "reservation.expiresAt": 1 })
+// Used by the deposit settlement sweep
+BookingSchema.index({ "deposit.status": 1, "deposit.disputeWindowEndsAt": 1 })
+
 export const Booking = mongoose.models.Booking || mongoose.model<IBooking>("Booking", BookingSchema)
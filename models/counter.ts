@@ -0,0 +1,22 @@
+import mongoose, { Schema } from "mongoose"
+
+// Named sequences, e.g. tax invoice numbers per financial year
+export interface ICounter {
+  _id: string
+  seq: number
+}
+
+const CounterSchema = new Schema<ICounter>({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 },
+})
+
+export const Counter = mongoose.models.Counter || mongoose.model<ICounter>("Counter", CounterSchema)
+
+/**
+ * Atomically take the next number in a sequence (starting at 1)
+ */
+export async function nextSequence(name: string): Promise<number> {
+  const counter = await Counter.findOneAndUpdate({ _id: name }, { $inc: { seq: 1 } }, { upsert: true, new: true })
+  return counter.seq
+}
@@ -0,0 +1,84 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export interface IDeliveryOrderTransition {
+  from: string
+  to: string
+  actor?: mongoose.Types.ObjectId
+  actorRole: "subscriber" | "owner" | "admin"
+  reason?: string
+  at: Date
+}
+
+// A subscriber's meal delivered to their address (see lib/delivery-orders.ts)
+export interface IDeliveryOrder extends Document {
+  user: mongoose.Types.ObjectId
+  mess: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  subscription: mongoose.Types.ObjectId // covers the meal itself
+  date: Date // UTC midnight of the (IST) day, like meal attendance
+  meal: string
+  address: string
+  phone?: string
+  notes?: string
+  location: {
+    type: string
+    coordinates: [number, number] // [lng, lat]
+  }
+  distanceKm: number // from the mess, measured when the order was placed
+  // Charges on top of the subscription, collected on delivery
+  deliveryCharge: number
+  packagingCharge: number
+  total: number
+  status: "placed" | "preparing" | "out_for_delivery" | "delivered" | "cancelled"
+  cancellationReason?: string
+  statusHistory: IDeliveryOrderTransition[]
+  deliveredAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const DeliveryOrderSchema = new Schema<IDeliveryOrder>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  mess: { type: Schema.Types.ObjectId, ref: "Mess", required: true },
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  subscription: { type: Schema.Types.ObjectId, ref: "MessSubscription", required: true },
+  date: { type: Date, required: true },
+  meal: { type: String, required: true },
+  address: { type: String, required: true },
+  phone: { type: String },
+  notes: { type: String },
+  location: {
+    type: { type: String, enum: ["Point"], default: "Point" },
+    coordinates: { type: [Number], required: true },
+  },
+  distanceKm: { type: Number, required: true },
+  deliveryCharge: { type: Number, default: 0 },
+  packagingCharge: { type: Number, default: 0 },
+  total: { type: Number, required: true },
+  status: {
+    type: String,
+    enum: ["placed", "preparing", "out_for_delivery", "delivered", "cancelled"],
+    default: "placed",
+  },
+  cancellationReason: { type: String },
+  statusHistory: [
+    {
+      from: { type: String, required: true },
+      to: { type: String, required: true },
+      actor: { type: Schema.Types.ObjectId, ref: "User" },
+      actorRole: { type: String, enum: ["subscriber", "owner", "admin"], required: true },
+      reason: { type: String },
+      at: { type: Date, required: true },
+    },
+  ],
+  deliveredAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+DeliveryOrderSchema.index({ user: 1, createdAt: -1 })
+DeliveryOrderSchema.index({ owner: 1, date: -1, status: 1 })
+DeliveryOrderSchema.index({ subscription: 1, date: 1, meal: 1 })
+
+export const DeliveryOrder =
+  mongoose.models.DeliveryOrder || mongoose.model<IDeliveryOrder>("DeliveryOrder", DeliveryOrderSchema)
@@ -0,0 +1,53 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export type DocumentAccessAction =
+  | "uploaded"
+  | "viewed"
+  | "downloaded"
+  | "shared"
+  | "revoked"
+  | "verified"
+  | "rejected"
+  | "expired"
+  | "deleted"
+  | "denied"
+
+// Append-only: one row per access to, or change of, a vault document
+export interface IDocumentAccessLog extends Document {
+  document: mongoose.Types.ObjectId
+  documentOwner: mongoose.Types.ObjectId // the user the document belongs to
+  actor?: mongoose.Types.ObjectId // unset for scheduled jobs
+  actorRole: "self" | "owner" | "admin" | "system" | "other"
+  action: DocumentAccessAction
+  booking?: mongoose.Types.ObjectId
+  fileIndex?: number
+  note?: string
+  ip?: string
+  userAgent?: string
+  createdAt: Date
+}
+
+const DocumentAccessLogSchema = new Schema<IDocumentAccessLog>({
+  document: { type: Schema.Types.ObjectId, ref: "UserDocument", required: true },
+  documentOwner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  actor: { type: Schema.Types.ObjectId, ref: "User" },
+  actorRole: { type: String, enum: ["self", "owner", "admin", "system", "other"], required: true },
+  action: {
+    type: String,
+    enum: ["uploaded", "viewed", "downloaded", "shared", "revoked", "verified", "rejected", "expired", "deleted", "denied"],
+    required: true,
+  },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  fileIndex: { type: Number },
+  note: { type: String },
+  ip: { type: String },
+  userAgent: { type: String },
+  createdAt: { type: Date, default: Date.now },
+})
+
+DocumentAccessLogSchema.index({ document: 1, createdAt: -1 })
+DocumentAccessLogSchema.index({ documentOwner: 1, createdAt: -1 })
+
+export const DocumentAccessLog =
+  mongoose.models.DocumentAccessLog ||
+  mongoose.model<IDocumentAccessLog>("DocumentAccessLog", DocumentAccessLogSchema)
@@ -0,0 +1,183 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export type MaintenanceCategory =
+  | "plumbing"
+  | "electrical"
+  | "appliance"
+  | "internet"
+  | "furniture"
+  | "cleaning"
+  | "pest_control"
+  | "security"
+  | "noise"
+  | "other"
+
+export type MaintenancePriority = "low" | "medium" | "high" | "urgent"
+
+// open -> acknowledged -> in_progress -> resolved -> closed
+// resolved -> in_progress when the resident reopens; open/acknowledged -> cancelled by the resident
+export type MaintenanceStatus = "open" | "acknowledged" | "in_progress" | "resolved" | "closed" | "cancelled"
+
+export interface IMaintenanceEvent {
+  action:
+    | "created"
+    | "acknowledged"
+    | "started"
+    | "assigned"
+    | "commented"
+    | "resolved"
+    | "reopened"
+    | "closed"
+    | "cancelled"
+    | "escalated"
+  actor?: mongoose.Types.ObjectId
+  actorRole: "tenant" | "owner" | "admin" | "system"
+  note?: string
+  at: Date
+}
+
+export interface IMaintenanceTicket extends Document {
+  ticketNumber: string // MT-000123
+  booking: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  tenant: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  category: MaintenanceCategory
+  title: string
+  description: string
+  photos: Array<{ url: string; uploadedAt: Date }>
+  priority: MaintenancePriority
+  status: MaintenanceStatus
+  // Who is fixing it; the owner until they hand it to a caretaker or technician
+  assignee?: {
+    name: string
+    phone?: string
+    assignedAt: Date
+  }
+  // Deadlines from the priority (see SLA_HOURS in lib/maintenance-tickets.ts)
+  sla: {
+    responseDueAt: Date
+    resolutionDueAt: Date
+    respondedAt?: Date
+    responseBreachedAt?: Date
+    resolutionBreachedAt?: Date
+  }
+  escalatedAt?: Date // first SLA breach, surfaced to admins
+  resolvedAt?: Date
+  resolutionNote?: string
+  closedAt?: Date
+  autoClosed?: boolean
+  reopenCount: number
+  satisfaction?: {
+    rating: number // 1-5, the resident's view of the fix
+    comment?: string
+    at: Date
+  }
+  events: IMaintenanceEvent[]
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const MaintenanceTicketSchema = new Schema<IMaintenanceTicket>({
+  ticketNumber: { type: String, required: true, unique: true },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  tenant: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  category: {
+    type: String,
+    enum: [
+      "plumbing",
+      "electrical",
+      "appliance",
+      "internet",
+      "furniture",
+      "cleaning",
+      "pest_control",
+      "security",
+      "noise",
+      "other",
+    ],
+    required: true,
+  },
+  title: { type: String, required: true, trim: true },
+  description: { type: String, required: true },
+  photos: [
+    {
+      url: { type: String, required: true },
+      uploadedAt: { type: Date, required: true },
+    },
+  ],
+  priority: { type: String, enum: ["low", "medium", "high", "urgent"], default: "medium" },
+  status: {
+    type: String,
+    enum: ["open", "acknowledged", "in_progress", "resolved", "closed", "cancelled"],
+    default: "open",
+  },
+  assignee: {
+    type: {
+      name: { type: String, required: true },
+      phone: { type: String },
+      assignedAt: { type: Date, required: true },
+    },
+    default: undefined,
+  },
+  sla: {
+    responseDueAt: { type: Date, required: true },
+    resolutionDueAt: { type: Date, required: true },
+    respondedAt: { type: Date },
+    responseBreachedAt: { type: Date },
+    resolutionBreachedAt: { type: Date },
+  },
+  escalatedAt: { type: Date },
+  resolvedAt: { type: Date },
+  resolutionNote: { type: String },
+  closedAt: { type: Date },
+  autoClosed: { type: Boolean },
+  reopenCount: { type: Number, default: 0 },
+  satisfaction: {
+    type: {
+      rating: { type: Number, min: 1, max: 5, required: true },
+      comment: { type: String },
+      at: { type: Date, required: true },
+    },
+    default: undefined,
+  },
+  events: [
+    {
+      action: {
+        type: String,
+        enum: [
+          "created",
+          "acknowledged",
+          "started",
+          "assigned",
+          "commented",
+          "resolved",
+          "reopened",
+          "closed",
+          "cancelled",
+          "escalated",
+        ],
+        required: true,
+      },
+      actor: { type: Schema.Types.ObjectId, ref: "User" },
+      actorRole: { type: String, enum: ["tenant", "owner", "admin", "system"], required: true },
+      note: { type: String },
+      at: { type: Date, required: true },
+    },
+  ],
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+MaintenanceTicketSchema.index({ tenant: 1, createdAt: -1 })
+MaintenanceTicketSchema.index({ owner: 1, status: 1, createdAt: -1 })
+MaintenanceTicketSchema.index({ property: 1, status: 1 })
+MaintenanceTicketSchema.index({ status: 1, "sla.responseDueAt": 1 })
+MaintenanceTicketSchema.index({ status: 1, "sla.resolutionDueAt": 1 })
+MaintenanceTicketSchema.index({ escalatedAt: 1 })
+
+export const MaintenanceTicket =
+  mongoose.models.MaintenanceTicket ||
+  mongoose.model<IMaintenanceTicket>("MaintenanceTicket", MaintenanceTicketSchema)
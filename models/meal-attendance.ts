@@ -0,0 +1,39 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// One subscriber's attendance for one meal on one day (see lib/meal-attendance.ts).
+// Meals without a record count as attending.
+export interface IMealAttendance extends Document {
+  subscription: mongoose.Types.ObjectId
+  mess: mongoose.Types.ObjectId
+  user: mongoose.Types.ObjectId
+  date: Date // UTC midnight of the (IST) day
+  meal: string // lowercased entry of IMess.mealTypes, e.g. "lunch"
+  status: "skipped" | "attending"
+  // What the skip earned under the mess's skip policy at the time
+  compensation: number
+  compensationMode: "none" | "credit" | "refund"
+  skippedAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const MealAttendanceSchema = new Schema<IMealAttendance>({
+  subscription: { type: Schema.Types.ObjectId, ref: "MessSubscription", required: true },
+  mess: { type: Schema.Types.ObjectId, ref: "Mess", required: true },
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  date: { type: Date, required: true },
+  meal: { type: String, required: true },
+  status: { type: String, enum: ["skipped", "attending"], default: "skipped" },
+  compensation: { type: Number, default: 0 },
+  compensationMode: { type: String, enum: ["none", "credit", "refund"], default: "none" },
+  skippedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+MealAttendanceSchema.index({ subscription: 1, date: 1, meal: 1 }, { unique: true })
+MealAttendanceSchema.index({ mess: 1, date: 1, status: 1 })
+MealAttendanceSchema.index({ user: 1, mess: 1, compensationMode: 1 })
+
+export const MealAttendance =
+  mongoose.models.MealAttendance || mongoose.model<IMealAttendance>("MealAttendance", MealAttendanceSchema)
@@ -0,0 +1,56 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export type BroadcastChannel = "in_app" | "email" | "whatsapp"
+
+// "skipped" when the subscriber opted out of the channel or has no address for it
+export type BroadcastDeliveryStatus = "pending" | "sent" | "failed" | "skipped"
+
+export interface IMessBroadcastRecipient {
+  user: mongoose.Types.ObjectId
+  name?: string
+  inApp: BroadcastDeliveryStatus
+  email: BroadcastDeliveryStatus
+  whatsapp: BroadcastDeliveryStatus
+  error?: string
+}
+
+// An owner's message to a mess's active subscribers (see lib/mess-broadcasts.ts)
+export interface IMessBroadcast extends Document {
+  mess: mongoose.Types.ObjectId
+  sender: mongoose.Types.ObjectId
+  title: string
+  message: string
+  channels: BroadcastChannel[] // the channels the owner chose; subscribers' preferences narrow them
+  status: "sending" | "sent"
+  recipients: IMessBroadcastRecipient[]
+  sentAt?: Date
+  createdAt: Date
+}
+
+const DELIVERY_STATUSES = ["pending", "sent", "failed", "skipped"]
+
+const MessBroadcastSchema = new Schema<IMessBroadcast>({
+  mess: { type: Schema.Types.ObjectId, ref: "Mess", required: true },
+  sender: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  title: { type: String, required: true },
+  message: { type: String, required: true },
+  channels: [{ type: String, enum: ["in_app", "email", "whatsapp"] }],
+  status: { type: String, enum: ["sending", "sent"], default: "sending" },
+  recipients: [
+    {
+      user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+      name: { type: String },
+      inApp: { type: String, enum: DELIVERY_STATUSES, default: "pending" },
+      email: { type: String, enum: DELIVERY_STATUSES, default: "pending" },
+      whatsapp: { type: String, enum: DELIVERY_STATUSES, default: "pending" },
+      error: { type: String },
+    },
+  ],
+  sentAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+})
+
+MessBroadcastSchema.index({ mess: 1, createdAt: -1 })
+
+export const MessBroadcast =
+  mongoose.models.MessBroadcast || mongoose.model<IMessBroadcast>("MessBroadcast", MessBroadcastSchema)
@@ -0,0 +1,62 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export interface IMessPassRedemption {
+  date: Date // UTC midnight of the (IST) day, like meal attendance
+  meal: string
+  redeemedAt: Date
+  redeemedBy: mongoose.Types.ObjectId
+}
+
+// A short-term pass to eat at a mess: free trial, day or week (see lib/mess-passes.ts)
+export interface IMessPass extends Document {
+  user: mongoose.Types.ObjectId
+  mess: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  kind: "trial" | "day" | "week"
+  // Valid for every meal from startDate up to (not including) endDate
+  startDate: Date
+  endDate: Date
+  price: number
+  // Shown as a QR code; the mess redeems one meal at a time with it
+  code: string
+  status: "pending" | "active" | "expired" | "cancelled"
+  payment?: mongoose.Types.ObjectId
+  paymentReference?: string
+  paidAt?: Date
+  redemptions: IMessPassRedemption[]
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const MessPassSchema = new Schema<IMessPass>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  mess: { type: Schema.Types.ObjectId, ref: "Mess", required: true },
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  kind: { type: String, enum: ["trial", "day", "week"], required: true },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  price: { type: Number, required: true },
+  code: { type: String, required: true },
+  status: { type: String, enum: ["pending", "active", "expired", "cancelled"], default: "pending" },
+  payment: { type: Schema.Types.ObjectId, ref: "Payment" },
+  paymentReference: { type: String },
+  paidAt: { type: Date },
+  redemptions: [
+    {
+      date: { type: Date, required: true },
+      meal: { type: String, required: true },
+      redeemedAt: { type: Date, required: true },
+      redeemedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    },
+  ],
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+MessPassSchema.index({ code: 1 }, { unique: true })
+MessPassSchema.index({ user: 1, createdAt: -1 })
+MessPassSchema.index({ mess: 1, status: 1, startDate: 1 })
+// One trial per user per mess
+MessPassSchema.index({ user: 1, mess: 1 }, { unique: true, partialFilterExpression: { kind: "trial" } })
+
+export const MessPass = mongoose.models.MessPass || mongoose.model<IMessPass>("MessPass", MessPassSchema)
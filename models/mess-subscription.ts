@@ -11,6 +11,29 @@ export interface IMessSubscription extends Document {
   endDate: Date;
   monthlyPrice: number;
   status: "pending" | "active" | "cancelled" | "expired";
+  // A pending subscription activates once the owner has accepted it and it is paid
+  acceptedAt?: Date;
+  rejectedAt?: Date;
+  rejectionReason?: string;
+  // Set once the subscription fee is captured (see lib/mess-subscriptions.ts)
+  payment?: mongoose.Types.ObjectId;
+  paymentReference?: string;
+  paidAt?: Date;
+  activatedAt?: Date;
+  expiredAt?: Date;
+  // The subscription this one continues (one-click renewal)
+  renewalOf?: mongoose.Types.ObjectId;
+  renewalReminderSentAt?: Date;
+  // Meal-skip credit from earlier periods taken off this period's price
+  creditApplied?: number;
+  // Refund of skipped meals once the period ends, under a "refund" skip policy
+  mealRefund?: {
+    amount: number;
+    status: "pending" | "processed" | "failed";
+    refundId?: string;
+    error?: string;
+    refundedAt?: Date;
+  };
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -30,12 +53,32 @@ const MessSubscriptionSchema = new Schema<IMessSubscription>({
     enum: ["pending", "active", "cancelled", "expired"],
     default: "pending",
   },
+  acceptedAt: { type: Date },
+  rejectedAt: { type: Date },
+  rejectionReason: { type: String },
+  payment: { type: Schema.Types.ObjectId, ref: "Payment" },
+  paymentReference: { type: String },
+  paidAt: { type: Date },
+  activatedAt: { type: Date },
+  expiredAt: { type: Date },
+  renewalOf: { type: Schema.Types.ObjectId, ref: "MessSubscription" },
+  renewalReminderSentAt: { type: Date },
+  creditApplied: { type: Number },
+  mealRefund: {
+    amount: { type: Number },
+    status: { type: String, enum: ["pending", "processed", "failed"] },
+    refundId: { type: String },
+    error: { type: String },
+    refundedAt: { type: Date },
+  },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date },
 });
 
 MessSubscriptionSchema.index({ user: 1, mess: 1, status: 1 });
 MessSubscriptionSchema.index({ owner: 1, createdAt: -1 });
+MessSubscriptionSchema.index({ status: 1, endDate: 1 });
+MessSubscriptionSchema.index({ renewalOf: 1 });
 
 export const MessSubscription =
   mongoose.models.MessSubscription ||
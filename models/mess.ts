@@ -1,5 +1,37 @@
 import mongoose, { Schema, type Document } from "mongoose"
 
+// What a subscriber gets for skipping a meal before its cutoff (see lib/meal-attendance.ts)
+export interface IMealSkipPolicy {
+  compensation: "none" | "credit" | "refund"
+  compensationPercent: number // share of the pro-rated per-meal price
+  cutoffHours: number // how long before the meal starts it can still be skipped
+  maxCompensatedSkips: number // per subscription period
+}
+
+// Structured menus (see lib/mess-menus.ts)
+export interface IMenuDish {
+  name: string
+  dietTags: string[] // Veg, Non-Veg, Jain, Vegan - as in dietTypes
+  allergens: string[] // e.g. gluten, dairy, nuts
+}
+
+export interface IMenuMeal {
+  meal: string // lowercased entry of mealTypes, e.g. "lunch"
+  dishes: IMenuDish[]
+}
+
+export interface IMenuDay {
+  day: string // Monday..Sunday
+  meals: IMenuMeal[]
+}
+
+// Replaces the weekly menu's meals on one date (festivals, holidays)
+export interface IMenuOverride {
+  date: Date // UTC midnight of the (IST) day
+  note?: string
+  meals: IMenuMeal[]
+}
+
 export interface IMess extends Document {
   name: string
   description: string
@@ -30,6 +62,9 @@ export interface IMess extends Document {
     lunch: string
     dinner: string
   }[]
+  // Weekly template the flat `menu` above is summarised from
+  weeklyMenu?: IMenuDay[]
+  menuOverrides?: IMenuOverride[]
   openingHours: {
     breakfast: string
     lunch: string
@@ -37,6 +72,7 @@ export interface IMess extends Document {
   }
   amenities: string[] // AC, WiFi, Sitting Area, etc.
   capacity: number // max students
+  skipPolicy?: IMealSkipPolicy
   contactName: string
   contactPhone: string
   contactEmail: string
@@ -65,6 +101,18 @@ export interface IMess extends Document {
   updatedAt?: Date
 }
 
+// Shared by the weekly menu and date overrides
+const menuMealDefinition = {
+  meal: { type: String, required: true },
+  dishes: [
+    {
+      name: { type: String, required: true },
+      dietTags: { type: [String], default: [] },
+      allergens: { type: [String], default: [] },
+    },
+  ],
+}
+
 const MessSchema = new Schema<IMess>({
   name: { type: String, required: true },
   description: { type: String, required: true },
@@ -97,6 +145,19 @@ const MessSchema = new Schema<IMess>({
       dinner: { type: String },
     },
   ],
+  weeklyMenu: [
+    {
+      day: { type: String, required: true },
+      meals: [menuMealDefinition],
+    },
+  ],
+  menuOverrides: [
+    {
+      date: { type: Date, required: true },
+      note: { type: String },
+      meals: [menuMealDefinition],
+    },
+  ],
   openingHours: {
     breakfast: { type: String },
     lunch: { type: String },
@@ -104,6 +165,12 @@ const MessSchema = new Schema<IMess>({
   },
   amenities: { type: [String] },
   capacity: { type: Number },
+  skipPolicy: {
+    compensation: { type: String, enum: ["none", "credit", "refund"] },
+    compensationPercent: { type: Number, min: 0, max: 100 },
+    cutoffHours: { type: Number, min: 0 },
+    maxCompensatedSkips: { type: Number, min: 0 },
+  },
   contactName: { type: String, required: true },
   contactPhone: { type: String, required: true },
   contactEmail: { type: String, required: true },
@@ -0,0 +1,101 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export type MoveInChecklistKey = "id_document" | "police_verification" | "room_photos"
+
+// A typed e-signature; signing binds it to the agreement's contentHash
+export interface IAgreementSignature {
+  user: mongoose.Types.ObjectId
+  name: string // as typed by the signer
+  signedAt: Date
+  ip?: string
+  userAgent?: string
+}
+
+export interface IMoveInFile {
+  url: string
+  name?: string
+  uploadedAt: Date
+}
+
+export interface IMoveInChecklistItem {
+  key: MoveInChecklistKey
+  // pending -> submitted -> approved, or rejected -> submitted again
+  status: "pending" | "submitted" | "approved" | "rejected"
+  files: IMoveInFile[]
+  submittedAt?: Date
+  reviewedAt?: Date
+  reviewedBy?: mongoose.Types.ObjectId
+  reviewNote?: string
+}
+
+export interface IMoveIn extends Document {
+  booking: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  tenant: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  // Rental agreement generated from the property's template (see lib/move-ins.ts)
+  agreement: {
+    title: string
+    clauses: string[]
+    contentHash: string // sha256 of title and clauses, what the signatures cover
+    generatedAt: Date
+    tenantSignature?: IAgreementSignature
+    ownerSignature?: IAgreementSignature
+    signedAt?: Date // once both sides have signed
+  }
+  checklist: IMoveInChecklistItem[]
+  status: "in_progress" | "complete" | "cancelled"
+  completedAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const signatureFields = {
+  user: { type: Schema.Types.ObjectId, ref: "User" },
+  name: { type: String },
+  signedAt: { type: Date },
+  ip: { type: String },
+  userAgent: { type: String },
+}
+
+const MoveInSchema = new Schema<IMoveIn>({
+  booking: { type: Schema.Types.ObjectId, ref: "Booking", required: true, unique: true },
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  tenant: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  agreement: {
+    title: { type: String, required: true },
+    clauses: { type: [String], default: [] },
+    contentHash: { type: String, required: true },
+    generatedAt: { type: Date, required: true },
+    tenantSignature: { type: signatureFields, default: undefined },
+    ownerSignature: { type: signatureFields, default: undefined },
+    signedAt: { type: Date },
+  },
+  checklist: [
+    {
+      key: { type: String, enum: ["id_document", "police_verification", "room_photos"], required: true },
+      status: { type: String, enum: ["pending", "submitted", "approved", "rejected"], default: "pending" },
+      files: [
+        {
+          url: { type: String, required: true },
+          name: { type: String },
+          uploadedAt: { type: Date, required: true },
+        },
+      ],
+      submittedAt: { type: Date },
+      reviewedAt: { type: Date },
+      reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      reviewNote: { type: String },
+    },
+  ],
+  status: { type: String, enum: ["in_progress", "complete", "cancelled"], default: "in_progress" },
+  completedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+MoveInSchema.index({ owner: 1, status: 1, createdAt: -1 })
+MoveInSchema.index({ tenant: 1, createdAt: -1 })
+
+export const MoveIn = mongoose.models.MoveIn || mongoose.model<IMoveIn>("MoveIn", MoveInSchema)
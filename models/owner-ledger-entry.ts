@@ -0,0 +1,47 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// One line of what the platform owes an owner (see lib/payouts.ts)
+export interface IOwnerLedgerEntry extends Document {
+  owner: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  booking?: mongoose.Types.ObjectId
+  rentInvoice?: mongoose.Types.ObjectId
+  // Stable key of the money movement this entry records, so syncing never doubles it
+  sourceKey: string
+  type: "booking" | "rent" | "refund" | "deposit" // deposit = deductions kept from a deposit the platform held
+  // Who the tenant's money went to: the platform's gateway account or the owner directly
+  collectedBy: "platform" | "owner"
+  gross: number
+  commission: number
+  settlingInKit: number
+  // gross - commission - settlingInKit if the platform collected, minus our share if the owner did
+  net: number
+  description: string
+  occurredAt: Date
+  payoutRun?: mongoose.Types.ObjectId
+  createdAt: Date
+}
+
+const OwnerLedgerEntrySchema = new Schema<IOwnerLedgerEntry>({
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  rentInvoice: { type: Schema.Types.ObjectId, ref: "RentInvoice" },
+  sourceKey: { type: String, required: true, unique: true },
+  type: { type: String, enum: ["booking", "rent", "refund", "deposit"], required: true },
+  collectedBy: { type: String, enum: ["platform", "owner"], required: true },
+  gross: { type: Number, required: true },
+  commission: { type: Number, default: 0 },
+  settlingInKit: { type: Number, default: 0 },
+  net: { type: Number, required: true },
+  description: { type: String, required: true },
+  occurredAt: { type: Date, required: true },
+  payoutRun: { type: Schema.Types.ObjectId, ref: "PayoutRun" },
+  createdAt: { type: Date, default: Date.now },
+})
+
+OwnerLedgerEntrySchema.index({ owner: 1, occurredAt: -1 })
+OwnerLedgerEntrySchema.index({ payoutRun: 1, owner: 1 })
+
+export const OwnerLedgerEntry =
+  mongoose.models.OwnerLedgerEntry || mongoose.model<IOwnerLedgerEntry>("OwnerLedgerEntry", OwnerLedgerEntrySchema)
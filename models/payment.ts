@@ -0,0 +1,114 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export interface IPaymentRefund {
+  amount: number // in the payment's currency
+  amountInr: number
+  providerRefundId: string
+  status: "pending" | "processed" | "failed"
+  at: Date
+}
+
+// Audit trail for steps taken by people rather than gateways (UPI reference checks)
+export interface IPaymentEvent {
+  action: "reference_submitted" | "verified" | "rejected"
+  actor?: mongoose.Types.ObjectId
+  actorRole: "tenant" | "owner" | "admin" | "system"
+  note?: string
+  at: Date
+}
+
+// One document per payment attempt, whichever gateway it went through
+export interface IPayment extends Document {
+  user: mongoose.Types.ObjectId
+  purpose: "booking" | "rent" | "mess_subscription" | "mess_pass" | "verification_fee" | "deposit"
+  booking?: mongoose.Types.ObjectId
+  rentInvoice?: mongoose.Types.ObjectId
+  messSubscription?: mongoose.Types.ObjectId
+  messPass?: mongoose.Types.ObjectId
+  property?: mongoose.Types.ObjectId // whose verification fee this pays
+  provider: "razorpay" | "paypal" | "upi"
+  flow?: "order" | "payment_link" | "manual"
+  // What the gateway was asked to collect, and its INR value
+  amount: number
+  currency: string
+  amountInr: number
+  exchangeRate?: number
+  status: "created" | "pending_verification" | "captured" | "failed" | "partially_refunded" | "refunded"
+  providerOrderId: string
+  providerPaymentId?: string
+  method?: string // upi, card, netbanking... as reported by the gateway
+  failureReason?: string
+  // Direct UPI: the UTR the payer says the transfer went out under
+  utr?: string
+  utrSubmittedAt?: Date
+  refunds: IPaymentRefund[]
+  history: IPaymentEvent[]
+  capturedAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const PaymentSchema = new Schema<IPayment>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  purpose: { type: String, enum: ["booking", "rent", "mess_subscription", "mess_pass", "verification_fee", "deposit"], required: true },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  rentInvoice: { type: Schema.Types.ObjectId, ref: "RentInvoice" },
+  messSubscription: { type: Schema.Types.ObjectId, ref: "MessSubscription" },
+  messPass: { type: Schema.Types.ObjectId, ref: "MessPass" },
+  property: { type: Schema.Types.ObjectId, ref: "Property" },
+  provider: { type: String, enum: ["razorpay", "paypal", "upi"], required: true },
+  flow: { type: String, enum: ["order", "payment_link", "manual"] },
+  amount: { type: Number, required: true },
+  currency: { type: String, required: true, default: "INR" },
+  amountInr: { type: Number, required: true },
+  exchangeRate: { type: Number },
+  status: {
+    type: String,
+    enum: ["created", "pending_verification", "captured", "failed", "partially_refunded", "refunded"],
+    default: "created",
+  },
+  providerOrderId: { type: String, required: true },
+  providerPaymentId: { type: String },
+  method: { type: String },
+  failureReason: { type: String },
+  utr: { type: String },
+  utrSubmittedAt: { type: Date },
+  refunds: [
+    {
+      amount: { type: Number, required: true },
+      amountInr: { type: Number, required: true },
+      providerRefundId: { type: String, required: true },
+      status: { type: String, enum: ["pending", "processed", "failed"], default: "processed" },
+      at: { type: Date, default: Date.now },
+    },
+  ],
+  history: [
+    {
+      action: { type: String, enum: ["reference_submitted", "verified", "rejected"], required: true },
+      actor: { type: Schema.Types.ObjectId, ref: "User" },
+      actorRole: { type: String, enum: ["tenant", "owner", "admin", "system"], required: true },
+      note: { type: String },
+      at: { type: Date, default: Date.now },
+    },
+  ],
+  capturedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+PaymentSchema.index({ provider: 1, providerOrderId: 1 }, { unique: true })
+PaymentSchema.index(
+  { provider: 1, providerPaymentId: 1 },
+  { unique: true, partialFilterExpression: { providerPaymentId: { $type: "string" } } },
+)
+// A UTR can only ever pay for one thing
+PaymentSchema.index({ provider: 1, utr: 1 }, { unique: true, partialFilterExpression: { utr: { $type: "string" } } })
+PaymentSchema.index({ provider: 1, status: 1, utrSubmittedAt: 1 })
+PaymentSchema.index({ booking: 1, createdAt: -1 })
+PaymentSchema.index({ rentInvoice: 1, createdAt: -1 })
+PaymentSchema.index({ messSubscription: 1, createdAt: -1 })
+PaymentSchema.index({ messPass: 1, createdAt: -1 })
+PaymentSchema.index({ property: 1, purpose: 1, createdAt: -1 })
+PaymentSchema.index({ user: 1, createdAt: -1 })
+
+export const Payment = mongoose.models.Payment || mongoose.model<IPayment>("Payment", PaymentSchema)
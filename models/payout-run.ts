@@ -0,0 +1,74 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export interface IPayoutItem {
+  owner: mongoose.Types.ObjectId
+  amount: number
+  entryCount: number
+  // Bank details as they were when the run was created
+  beneficiary: {
+    name: string
+    email?: string
+    accountHolderName?: string
+    accountNumber?: string
+    ifscCode?: string
+    bankName?: string
+    upiId?: string
+  }
+  status: "pending" | "paid" | "failed"
+  reference?: string // bank UTR once paid
+  failureReason?: string
+  paidAt?: Date
+}
+
+// A batch of owner payouts covering ledger entries up to `cutoff`
+export interface IPayoutRun extends Document {
+  reference: string
+  cutoff: Date
+  status: "draft" | "processing" | "completed" | "cancelled"
+  items: IPayoutItem[]
+  totalAmount: number
+  createdBy: mongoose.Types.ObjectId
+  exportedAt?: Date
+  completedAt?: Date
+  cancelledAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const PayoutRunSchema = new Schema<IPayoutRun>({
+  reference: { type: String, required: true, unique: true },
+  cutoff: { type: Date, required: true },
+  status: { type: String, enum: ["draft", "processing", "completed", "cancelled"], default: "draft" },
+  items: [
+    {
+      owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+      amount: { type: Number, required: true },
+      entryCount: { type: Number, required: true },
+      beneficiary: {
+        name: { type: String, required: true },
+        email: { type: String },
+        accountHolderName: { type: String },
+        accountNumber: { type: String },
+        ifscCode: { type: String },
+        bankName: { type: String },
+        upiId: { type: String },
+      },
+      status: { type: String, enum: ["pending", "paid", "failed"], default: "pending" },
+      reference: { type: String },
+      failureReason: { type: String },
+      paidAt: { type: Date },
+    },
+  ],
+  totalAmount: { type: Number, required: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  exportedAt: { type: Date },
+  completedAt: { type: Date },
+  cancelledAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+PayoutRunSchema.index({ status: 1, createdAt: -1 })
+PayoutRunSchema.index({ "items.owner": 1, createdAt: -1 })
+
+export const PayoutRun = mongoose.models.PayoutRun || mongoose.model<IPayoutRun>("PayoutRun", PayoutRunSchema)
@@ -6,6 +6,17 @@ interface IRoomType {
   available: number
 }
 
+interface ICancellationTier {
+  daysBeforeCheckIn: number // tier applies when cancelling at least this many days before check-in
+  refundPercent: number // share of the first month's rent refunded
+}
+
+export interface ICancellationPolicy {
+  tiers: ICancellationTier[]
+  commissionRefundable: boolean
+  settlingInKitRefundable: boolean
+}
+
 interface IDistance {
   college: number
   hospital: number
@@ -43,6 +54,9 @@ export interface IProperty extends Document {
   amenities: string[]
   rules: string[]
   roomTypes: IRoomType[]
+  cancellationPolicy?: ICancellationPolicy
+  // Rental agreement text with {{placeholders}}; the default in lib/move-ins.ts when unset
+  agreementTemplate?: string
   distance: IDistance
   nearbyPlaces: {
     messes: INearbyPlace[]
@@ -54,6 +68,15 @@ export interface IProperty extends Document {
   owner: mongoose.Types.ObjectId
   rating: number
   reviews: number
+  // How well resident issues get fixed, from closed maintenance tickets (lib/maintenance-tickets.ts)
+  maintenance?: {
+    score: number // 0-5
+    resolvedTickets: number
+    slaMetRate: number // share of tickets fixed within their SLA, 0-1
+    averageResolutionHours: number
+    satisfaction?: number // residents' average rating of the fixes
+    updatedAt: Date
+  }
   isApproved: boolean
   isRejected?: boolean
   approvedAt?: Date
@@ -124,6 +147,17 @@ const PropertySchema = new Schema<IProperty>({
       available: { type: Number, required: true },
     },
   ],
+  agreementTemplate: { type: String },
+  cancellationPolicy: {
+    tiers: [
+      {
+        daysBeforeCheckIn: { type: Number, required: true },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 },
+      },
+    ],
+    commissionRefundable: { type: Boolean },
+    settlingInKitRefundable: { type: Boolean },
+  },
   distance: {
     college: { type: Number },
     hospital: { type: Number },
@@ -172,6 +206,17 @@ const PropertySchema = new Schema<IProperty>({
   owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
   rating: { type: Number, default: 0 },
   reviews: { type: Number, default: 0 },
+  maintenance: {
+    type: {
+      score: { type: Number },
+      resolvedTickets: { type: Number },
+      slaMetRate: { type: Number },
+      averageResolutionHours: { type: Number },
+      satisfaction: { type: Number },
+      updatedAt: { type: Date },
+    },
+    default: undefined,
+  },
   isApproved: { type: Boolean, default: false },
   isRejected: { type: Boolean, default: false },
   approvedAt: { type: Date },
@@ -0,0 +1,69 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export interface IRentPayment {
+  amount: number
+  method: "razorpay" | "paypal" | "upi" | "cash" | "bank_transfer"
+  reference: string // gateway payment id or the receipt/UTR an owner recorded
+  recordedBy?: mongoose.Types.ObjectId
+  paidAt: Date
+}
+
+export interface IRentInvoice extends Document {
+  booking: mongoose.Types.ObjectId
+  tenant: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  invoiceNumber: string
+  periodStart: Date
+  periodEnd: Date
+  dueDate: Date
+  rentAmount: number
+  lateFee: number
+  lateFeeAppliedAt?: Date
+  amountPaid: number
+  status: "open" | "partially_paid" | "paid" | "void"
+  payments: IRentPayment[]
+  paidAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const RentInvoiceSchema = new Schema<IRentInvoice>({
+  booking: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+  tenant: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  invoiceNumber: { type: String, required: true, unique: true },
+  periodStart: { type: Date, required: true },
+  periodEnd: { type: Date, required: true },
+  dueDate: { type: Date, required: true },
+  rentAmount: { type: Number, required: true },
+  lateFee: { type: Number, default: 0 },
+  lateFeeAppliedAt: { type: Date },
+  amountPaid: { type: Number, default: 0 },
+  status: {
+    type: String,
+    enum: ["open", "partially_paid", "paid", "void"],
+    default: "open",
+  },
+  payments: [
+    {
+      amount: { type: Number, required: true },
+      method: { type: String, enum: ["razorpay", "paypal", "upi", "cash", "bank_transfer"], required: true },
+      reference: { type: String, required: true },
+      recordedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      paidAt: { type: Date, default: Date.now },
+    },
+  ],
+  paidAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+// One invoice per booking per month
+RentInvoiceSchema.index({ booking: 1, periodStart: 1 }, { unique: true })
+RentInvoiceSchema.index({ tenant: 1, dueDate: -1 })
+RentInvoiceSchema.index({ owner: 1, status: 1, dueDate: -1 })
+
+export const RentInvoice =
+  mongoose.models.RentInvoice || mongoose.model<IRentInvoice>("RentInvoice", RentInvoiceSchema)
@@ -0,0 +1,36 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// A request between two students; contact details unlock once it is accepted
+export interface IRoommateConnection extends Document {
+  pairKey: string // the two user ids, sorted and joined, so a pair has one connection
+  requester: mongoose.Types.ObjectId
+  recipient: mongoose.Types.ObjectId
+  // pending -> accepted | declined, or withdrawn by the requester while pending
+  status: "pending" | "accepted" | "declined" | "withdrawn"
+  property?: mongoose.Types.ObjectId // where they'd like to live together
+  message?: string
+  score?: number // compatibility when requested
+  respondedAt?: Date
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const RoommateConnectionSchema = new Schema<IRoommateConnection>({
+  pairKey: { type: String, required: true, unique: true },
+  requester: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  recipient: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  status: { type: String, enum: ["pending", "accepted", "declined", "withdrawn"], default: "pending" },
+  property: { type: Schema.Types.ObjectId, ref: "Property" },
+  message: { type: String, trim: true },
+  score: { type: Number },
+  respondedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+RoommateConnectionSchema.index({ requester: 1, status: 1 })
+RoommateConnectionSchema.index({ recipient: 1, status: 1 })
+
+export const RoommateConnection =
+  mongoose.models.RoommateConnection ||
+  mongoose.model<IRoommateConnection>("RoommateConnection", RoommateConnectionSchema)
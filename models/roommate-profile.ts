@@ -0,0 +1,44 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export type SleepSchedule = "early_bird" | "night_owl" | "flexible"
+export type DietPreference = "veg" | "jain" | "vegan" | "eggetarian" | "non_veg"
+export type StudyHabit = "quiet" | "music" | "group" | "flexible"
+export type SmokingHabit = "never" | "outside" | "yes"
+
+// Opt-in answers used to match students for shared rooms (see lib/roommates.ts)
+export interface IRoommateProfile extends Document {
+  user: mongoose.Types.ObjectId
+  active: boolean // shown to, and matched with, other students only while true
+  sleepSchedule: SleepSchedule
+  diet: DietPreference
+  studyHabits: StudyHabit
+  smoking: SmokingHabit
+  bio?: string
+  moveInMonth?: string // YYYY-MM
+  // What the student is looking at; bookings of shared rooms count too
+  properties: mongoose.Types.ObjectId[]
+  areas: string[] // lower-cased localities, e.g. "koramangala"
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const RoommateProfileSchema = new Schema<IRoommateProfile>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true, unique: true },
+  active: { type: Boolean, default: false },
+  sleepSchedule: { type: String, enum: ["early_bird", "night_owl", "flexible"], default: "flexible" },
+  diet: { type: String, enum: ["veg", "jain", "vegan", "eggetarian", "non_veg"], default: "veg" },
+  studyHabits: { type: String, enum: ["quiet", "music", "group", "flexible"], default: "flexible" },
+  smoking: { type: String, enum: ["never", "outside", "yes"], default: "never" },
+  bio: { type: String, trim: true },
+  moveInMonth: { type: String },
+  properties: [{ type: Schema.Types.ObjectId, ref: "Property" }],
+  areas: [{ type: String, lowercase: true, trim: true }],
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+RoommateProfileSchema.index({ active: 1, properties: 1 })
+RoommateProfileSchema.index({ active: 1, areas: 1 })
+
+export const RoommateProfile =
+  mongoose.models.RoommateProfile || mongoose.model<IRoommateProfile>("RoommateProfile", RoommateProfileSchema)
@@ -4,11 +4,39 @@ export interface IScheduleVisit extends Document {
   property: mongoose.Types.ObjectId
   user: mongoose.Types.ObjectId
   owner: mongoose.Types.ObjectId
-  scheduledDate: Date
-  scheduledTime: string
+  slot?: mongoose.Types.ObjectId // the VisitSlot this visit holds
+  scheduledDate: Date // the slot's start
+  scheduledTime: string // e.g. "10:30 AM" (IST), for display
   status: "pending" | "confirmed" | "cancelled" | "completed"
   notes?: string
   contactMethod: "whatsapp" | "email" | "phone"
+  visitType: "in_person" | "virtual"
+  // Video room for virtual visits, usable only around the slot (see lib/visits.ts)
+  virtualRoom?: {
+    provider: "self_hosted" | "local"
+    roomName: string
+    url: string
+    opensAt: Date
+    closesAt: Date
+  }
+  attendance?: {
+    visitorJoinedAt?: Date
+    ownerJoinedAt?: Date
+  }
+  attended?: boolean // whether the visitor turned up, set when the owner completes the visit
+  followUpNotes?: string // the owner's notes after the visit, shared with the visitor
+  followUpAt?: Date
+  booking?: mongoose.Types.ObjectId // the booking the visitor made from this visit
+  visitorName?: string
+  visitorPhone?: string
+  visitorEmail?: string
+  confirmedAt?: Date
+  rescheduledAt?: Date
+  completedAt?: Date
+  cancelledAt?: Date
+  cancelledBy?: "visitor" | "owner" | "admin"
+  cancellationReason?: string
+  reminderSentAt?: Date
   createdAt: Date
   updatedAt?: Date
 }
@@ -17,6 +45,7 @@ const ScheduleVisitSchema = new Schema<IScheduleVisit>({
   property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
   user: { type: Schema.Types.ObjectId, ref: "User", required: true },
   owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  slot: { type: Schema.Types.ObjectId, ref: "VisitSlot" },
   scheduledDate: { type: Date, required: true },
   scheduledTime: { type: String, required: true },
   status: {
@@ -30,10 +59,40 @@ const ScheduleVisitSchema = new Schema<IScheduleVisit>({
     enum: ["whatsapp", "email", "phone"],
     default: "whatsapp",
   },
+  visitType: { type: String, enum: ["in_person", "virtual"], default: "in_person" },
+  virtualRoom: {
+    provider: { type: String, enum: ["self_hosted", "local"] },
+    roomName: { type: String },
+    url: { type: String },
+    opensAt: { type: Date },
+    closesAt: { type: Date },
+  },
+  attendance: {
+    visitorJoinedAt: { type: Date },
+    ownerJoinedAt: { type: Date },
+  },
+  attended: { type: Boolean },
+  followUpNotes: { type: String },
+  followUpAt: { type: Date },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  visitorName: { type: String },
+  visitorPhone: { type: String },
+  visitorEmail: { type: String },
+  confirmedAt: { type: Date },
+  rescheduledAt: { type: Date },
+  completedAt: { type: Date },
+  cancelledAt: { type: Date },
+  cancelledBy: { type: String, enum: ["visitor", "owner", "admin"] },
+  cancellationReason: { type: String },
+  reminderSentAt: { type: Date },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date },
 })
 
+ScheduleVisitSchema.index({ user: 1, scheduledDate: -1 })
+ScheduleVisitSchema.index({ owner: 1, scheduledDate: -1 })
+ScheduleVisitSchema.index({ status: 1, scheduledDate: 1 })
+
 export const ScheduleVisit = mongoose.models.ScheduleVisit || mongoose.model<IScheduleVisit>("ScheduleVisit", ScheduleVisitSchema)
 
 
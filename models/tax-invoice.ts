@@ -0,0 +1,97 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export interface ITaxInvoiceLine {
+  description: string
+  sacCode?: string
+  // Amount charged for the line, tax included
+  amount: number
+  taxableValue: number
+  gstRate: number
+  cgst: number
+  sgst: number
+  igst: number
+  // Set when the platform only collected this on someone else's behalf (rent, mess fees)
+  collectedOnBehalfOf?: string
+}
+
+export interface ITaxInvoiceParty {
+  name: string
+  email?: string
+  phone?: string
+  address?: string
+  state?: string
+  gstin?: string
+}
+
+// GST invoice / receipt issued for a payment (see lib/tax-invoices.ts)
+export interface ITaxInvoice extends Document {
+  invoiceNumber?: string // assigned once the invoice is claimed, so numbers have no gaps
+  kind: "booking" | "mess_subscription" | "mess_pass" | "verification_fee"
+  source: mongoose.Types.ObjectId
+  customer: mongoose.Types.ObjectId
+  billTo: ITaxInvoiceParty
+  supplier: ITaxInvoiceParty
+  placeOfSupply?: string
+  interState: boolean
+  lines: ITaxInvoiceLine[]
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  total: number
+  paymentReference?: string
+  issuedAt: Date
+  emailedAt?: Date
+  createdAt: Date
+}
+
+const PartySchema = {
+  name: { type: String, required: true },
+  email: { type: String },
+  phone: { type: String },
+  address: { type: String },
+  state: { type: String },
+  gstin: { type: String },
+}
+
+const TaxInvoiceSchema = new Schema<ITaxInvoice>({
+  invoiceNumber: { type: String },
+  kind: { type: String, enum: ["booking", "mess_subscription", "mess_pass", "verification_fee"], required: true },
+  source: { type: Schema.Types.ObjectId, required: true },
+  customer: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  billTo: PartySchema,
+  supplier: PartySchema,
+  placeOfSupply: { type: String },
+  interState: { type: Boolean, default: false },
+  lines: [
+    {
+      description: { type: String, required: true },
+      sacCode: { type: String },
+      amount: { type: Number, required: true },
+      taxableValue: { type: Number, required: true },
+      gstRate: { type: Number, default: 0 },
+      cgst: { type: Number, default: 0 },
+      sgst: { type: Number, default: 0 },
+      igst: { type: Number, default: 0 },
+      collectedOnBehalfOf: { type: String },
+    },
+  ],
+  taxableValue: { type: Number, required: true },
+  cgst: { type: Number, default: 0 },
+  sgst: { type: Number, default: 0 },
+  igst: { type: Number, default: 0 },
+  total: { type: Number, required: true },
+  paymentReference: { type: String },
+  issuedAt: { type: Date, required: true },
+  emailedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+})
+
+TaxInvoiceSchema.index({ kind: 1, source: 1 }, { unique: true })
+TaxInvoiceSchema.index(
+  { invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: "string" } } },
+)
+TaxInvoiceSchema.index({ customer: 1, issuedAt: -1 })
+
+export const TaxInvoice = mongoose.models.TaxInvoice || mongoose.model<ITaxInvoice>("TaxInvoice", TaxInvoiceSchema)
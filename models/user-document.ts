@@ -0,0 +1,108 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+export type UserDocumentType =
+  | "college_id"
+  | "aadhaar"
+  | "pan"
+  | "passport"
+  | "driving_licence"
+  | "guardian_contact"
+  | "other"
+
+// Stored as a private ("authenticated") Cloudinary asset; only served through
+// short-lived signed links (see lib/document-vault.ts)
+export interface IUserDocumentFile {
+  publicId: string
+  format?: string
+  resourceType: "image" | "raw" | "video"
+  name?: string
+  uploadedAt: Date
+}
+
+// Access for the owner of a booked property; revoked by the tenant or when the booking ends
+export interface IUserDocumentShare {
+  _id: mongoose.Types.ObjectId
+  booking: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  grantedAt: Date
+  revokedAt?: Date
+  revokedReason?: "tenant" | "booking_ended" | "document_expired"
+}
+
+export interface IUserDocument extends Document {
+  user: mongoose.Types.ObjectId
+  type: UserDocumentType
+  label?: string
+  files: IUserDocumentFile[]
+  numberLast4?: string // never the full ID number
+  guardian?: {
+    name: string
+    relation?: string
+    phone: string
+    email?: string
+  }
+  expiresAt?: Date
+  // pending -> verified | rejected; expired once expiresAt passes
+  status: "pending" | "verified" | "rejected" | "expired"
+  verifiedAt?: Date
+  verifiedBy?: mongoose.Types.ObjectId
+  rejectionReason?: string
+  shares: IUserDocumentShare[]
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const UserDocumentSchema = new Schema<IUserDocument>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  type: {
+    type: String,
+    enum: ["college_id", "aadhaar", "pan", "passport", "driving_licence", "guardian_contact", "other"],
+    required: true,
+  },
+  label: { type: String, trim: true },
+  files: [
+    {
+      publicId: { type: String, required: true },
+      format: { type: String },
+      resourceType: { type: String, enum: ["image", "raw", "video"], default: "image" },
+      name: { type: String },
+      uploadedAt: { type: Date, required: true },
+    },
+  ],
+  numberLast4: { type: String },
+  guardian: {
+    type: {
+      name: { type: String, required: true },
+      relation: { type: String },
+      phone: { type: String, required: true },
+      email: { type: String },
+    },
+    default: undefined,
+  },
+  expiresAt: { type: Date },
+  status: { type: String, enum: ["pending", "verified", "rejected", "expired"], default: "pending" },
+  verifiedAt: { type: Date },
+  verifiedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  rejectionReason: { type: String },
+  shares: [
+    {
+      booking: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+      property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+      owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+      grantedAt: { type: Date, required: true },
+      revokedAt: { type: Date },
+      revokedReason: { type: String, enum: ["tenant", "booking_ended", "document_expired"] },
+    },
+  ],
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+UserDocumentSchema.index({ user: 1, createdAt: -1 })
+UserDocumentSchema.index({ "shares.owner": 1, "shares.revokedAt": 1 })
+UserDocumentSchema.index({ "shares.booking": 1 })
+UserDocumentSchema.index({ status: 1, expiresAt: 1 })
+
+export const UserDocument =
+  mongoose.models.UserDocument || mongoose.model<IUserDocument>("UserDocument", UserDocumentSchema)
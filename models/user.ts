@@ -18,11 +18,22 @@ export interface IUser {
   city?: string
   state?: string
   pincode?: string
+  gstin?: string // printed on tax invoices for business customers
   preferences?: {
     emailNotifications?: boolean
     smsNotifications?: boolean
+    whatsappNotifications?: boolean // messages from messes the user subscribes to
     showProfile?: boolean
   }
+  // Where owners receive UPI payments and payouts
+  bankAccount?: {
+    accountNumber: string
+    ifscCode: string
+    accountHolderName: string
+    bankName: string
+    upiId?: string
+  }
+  calendarFeedToken?: string // secret for the user's iCalendar feed (see lib/calendar-feed.ts)
   createdAt: Date
   updatedAt?: Date
 }
@@ -44,11 +55,21 @@ const UserSchema = new Schema<IUser>({
   city: { type: String },
   state: { type: String },
   pincode: { type: String },
+  gstin: { type: String, uppercase: true, trim: true },
   preferences: {
     emailNotifications: { type: Boolean, default: false },
     smsNotifications: { type: Boolean, default: false },
+    whatsappNotifications: { type: Boolean, default: false },
     showProfile: { type: Boolean, default: true },
   },
+  bankAccount: {
+    accountNumber: { type: String },
+    ifscCode: { type: String },
+    accountHolderName: { type: String },
+    bankName: { type: String },
+    upiId: { type: String },
+  },
+  calendarFeedToken: { type: String, unique: true, sparse: true },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date },
 })
@@ -0,0 +1,29 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// A time an owner is available to show a property (see lib/visits.ts)
+export interface IVisitSlot extends Document {
+  property: mongoose.Types.ObjectId
+  owner: mongoose.Types.ObjectId
+  start: Date
+  durationMinutes: number
+  status: "open" | "booked"
+  visit?: mongoose.Types.ObjectId // the ScheduleVisit holding a booked slot
+  createdAt: Date
+  updatedAt?: Date
+}
+
+const VisitSlotSchema = new Schema<IVisitSlot>({
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  start: { type: Date, required: true },
+  durationMinutes: { type: Number, default: 30 },
+  status: { type: String, enum: ["open", "booked"], default: "open" },
+  visit: { type: Schema.Types.ObjectId, ref: "ScheduleVisit" },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+VisitSlotSchema.index({ property: 1, start: 1 }, { unique: true })
+VisitSlotSchema.index({ owner: 1, start: 1 })
+
+export const VisitSlot = mongoose.models.VisitSlot || mongoose.model<IVisitSlot>("VisitSlot", VisitSlotSchema)
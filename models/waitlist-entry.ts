@@ -0,0 +1,48 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// A student waiting for a bed of a room type at a full property (see lib/waitlist.ts)
+export interface IWaitlistEntry extends Document {
+  user: mongoose.Types.ObjectId
+  property: mongoose.Types.ObjectId
+  roomType: string
+  // waiting -> offered -> booked | expired; left if the student drops out first
+  status: "waiting" | "offered" | "booked" | "expired" | "left"
+  // While offered, one bed is held off inventory for this student until expiresAt
+  offer?: {
+    offeredAt: Date
+    expiresAt: Date
+  }
+  booking?: mongoose.Types.ObjectId
+  createdAt: Date // place in line
+  updatedAt?: Date
+}
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  property: { type: Schema.Types.ObjectId, ref: "Property", required: true },
+  roomType: { type: String, required: true },
+  status: { type: String, enum: ["waiting", "offered", "booked", "expired", "left"], default: "waiting" },
+  offer: {
+    type: {
+      offeredAt: { type: Date, required: true },
+      expiresAt: { type: Date, required: true },
+    },
+    default: undefined,
+  },
+  booking: { type: Schema.Types.ObjectId, ref: "Booking" },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date },
+})
+
+// One place in line per student, property and room type
+WaitlistEntrySchema.index(
+  { user: 1, property: 1, roomType: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ["waiting", "offered"] } } },
+)
+// Next in line
+WaitlistEntrySchema.index({ property: 1, roomType: 1, status: 1, createdAt: 1 })
+// Used by the offer-expiry sweep
+WaitlistEntrySchema.index({ status: 1, "offer.expiresAt": 1 })
+
+export const WaitlistEntry =
+  mongoose.models.WaitlistEntry || mongoose.model<IWaitlistEntry>("WaitlistEntry", WaitlistEntrySchema)
@@ -0,0 +1,44 @@
+import mongoose, { Schema, type Document } from "mongoose"
+
+// Every gateway webhook delivery we accepted, kept so redeliveries are
+// recognised and failed deliveries can be replayed (see lib/payments.ts)
+export interface IWebhookEvent extends Document {
+  provider: "razorpay" | "paypal" | "upi"
+  eventId: string // the gateway's event id, the same on every redelivery
+  event: string // e.g. payment.captured
+  // Raw delivery and its signature headers, so a replay is authenticated like the original
+  body: string
+  headers: Record<string, string>
+  status: "processing" | "processed" | "ignored" | "failed"
+  attempts: number
+  lastError?: string
+  payment?: mongoose.Types.ObjectId
+  lockedAt?: Date
+  receivedAt: Date
+  processedAt?: Date
+}
+
+const WebhookEventSchema = new Schema<IWebhookEvent>({
+  provider: { type: String, enum: ["razorpay", "paypal", "upi"], required: true },
+  eventId: { type: String, required: true },
+  event: { type: String, required: true },
+  body: { type: String, required: true },
+  headers: { type: Schema.Types.Mixed, default: {} },
+  status: {
+    type: String,
+    enum: ["processing", "processed", "ignored", "failed"],
+    default: "processing",
+  },
+  attempts: { type: Number, default: 0 },
+  lastError: { type: String },
+  payment: { type: Schema.Types.ObjectId, ref: "Payment" },
+  lockedAt: { type: Date },
+  receivedAt: { type: Date, default: Date.now },
+  processedAt: { type: Date },
+})
+
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true })
+WebhookEventSchema.index({ status: 1, receivedAt: -1 })
+
+export const WebhookEvent =
+  mongoose.models.WebhookEvent || mongoose.model<IWebhookEvent>("WebhookEvent", WebhookEventSchema)
@@ -350,9 +350,21 @@ const translations: Record<LangCode, Record<string, string>> = {
     "mess.detail.contact.owner": "Mess owner",
     "mess.detail.action.subscribeMonthly": "Subscribe monthly",
     "mess.detail.toast.loginToBookMeal": "Please login to book a meal",
-    "mess.detail.toast.mealBooked.title": "Meal booked",
-    "mess.detail.toast.mealBooked.desc": "Your daily meal has been booked successfully.",
-    "mess.detail.action.bookDailyMeal": "Book daily meal",
+    "mess.detail.action.startTrial": "Start free trial",
+    "mess.detail.action.buyPass": "Buy a day or week pass",
+    "mess.detail.toast.passCreated.title": "Pass ready",
+    "mess.detail.toast.passCreated.desc": "Show its QR code at the mess. You'll find it under Bookings in your profile.",
+    "mess.detail.toast.passPayment.desc": "Pay for your pass under Bookings in your profile to activate it.",
+    "mess.detail.toast.passFailed.title": "Could not get pass",
+    "mess.detail.passDialog.title": "Get a mess pass",
+    "mess.detail.passDialog.desc": "Pick a pass and the day it starts. Show the pass QR code at each meal.",
+    "mess.detail.passDialog.type": "Pass",
+    "mess.detail.passDialog.trial": "Free trial",
+    "mess.detail.passDialog.day": "Day pass",
+    "mess.detail.passDialog.week": "Week pass",
+    "mess.detail.passDialog.days": "days",
+    "mess.detail.passDialog.startDate": "Start date",
+    "mess.detail.passDialog.confirm": "Get pass",
     "mess.detail.subscribeDialog.title": "Start subscription",
     "mess.detail.subscribeDialog.desc": "Enter your start date and phone number.",
     "mess.detail.subscribeDialog.startDate": "Start date",
@@ -399,10 +411,15 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.verifiedBy": "Verified by SecondHome",
     "listing.detail.wifiTested": "WiFi Tested:",
     "listing.detail.rawVideoChecked": "Raw video checked",
+    "listing.detail.maintenance": "Maintenance",
+    "listing.detail.maintenanceFixed": "issues fixed",
+    "listing.detail.maintenanceOnTime": "within SLA",
     "listing.detail.about": "About this property",
     "listing.detail.amenities": "Amenities",
     "listing.detail.noAmenities": "No amenities listed",
     "listing.detail.roomOptions": "Room options",
+    "listing.detail.findRoommates": "Find roommates",
+    "listing.detail.findRoommatesHint": "Share a room? Meet students looking at this PG before you book.",
     "listing.detail.roomsAvailable": "rooms available",
     "listing.detail.houseRules": "House rules",
     "listing.detail.location": "Location",
@@ -412,6 +429,7 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.securityDeposit": "security deposit",
     "listing.detail.creatingBooking": "Creating booking...",
     "listing.detail.bookNow": "Book now",
+    "listing.detail.bookWithFriends": "Book with friends",
     "listing.detail.scheduleVisitWhatsapp": "Schedule visit via WhatsApp",
     "listing.detail.contactOwner": "Contact owner",
     "listing.detail.propertyOwner": "Property owner",
@@ -774,9 +792,21 @@ const translations: Record<LangCode, Record<string, string>> = {
     "mess.detail.contact.owner": "मेस मालिक",
     "mess.detail.action.subscribeMonthly": "मासिक सब्सक्राइब करें",
     "mess.detail.toast.loginToBookMeal": "भोजन बुक करने के लिए लॉगिन करें",
-    "mess.detail.toast.mealBooked.title": "भोजन बुक हो गया",
-    "mess.detail.toast.mealBooked.desc": "आपका दैनिक भोजन सफलतापूर्वक बुक हो गया।",
-    "mess.detail.action.bookDailyMeal": "दैनिक भोजन बुक करें",
+    "mess.detail.action.startTrial": "मुफ़्त ट्रायल शुरू करें",
+    "mess.detail.action.buyPass": "दिन या सप्ताह पास खरीदें",
+    "mess.detail.toast.passCreated.title": "पास तैयार है",
+    "mess.detail.toast.passCreated.desc": "मेस में इसका QR कोड दिखाएँ। यह आपकी प्रोफ़ाइल में बुकिंग्स में मिलेगा।",
+    "mess.detail.toast.passPayment.desc": "पास चालू करने के लिए प्रोफ़ाइल में बुकिंग्स से भुगतान करें।",
+    "mess.detail.toast.passFailed.title": "पास नहीं मिल सका",
+    "mess.detail.passDialog.title": "मेस पास लें",
+    "mess.detail.passDialog.desc": "पास और उसकी आरंभ तिथि चुनें। हर भोजन पर पास का QR कोड दिखाएँ।",
+    "mess.detail.passDialog.type": "पास",
+    "mess.detail.passDialog.trial": "मुफ़्त ट्रायल",
+    "mess.detail.passDialog.day": "दिन पास",
+    "mess.detail.passDialog.week": "सप्ताह पास",
+    "mess.detail.passDialog.days": "दिन",
+    "mess.detail.passDialog.startDate": "आरंभ तिथि",
+    "mess.detail.passDialog.confirm": "पास लें",
     "mess.detail.subscribeDialog.title": "सब्सक्रिप्शन शुरू करें",
     "mess.detail.subscribeDialog.desc": "अपनी आरंभ तिथि और फ़ोन नंबर दर्ज करें।",
     "mess.detail.subscribeDialog.startDate": "आरंभ तिथि",
@@ -823,10 +853,15 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.verifiedBy": "SecondHome द्वारा सत्यापित",
     "listing.detail.wifiTested": "WiFi टेस्टेड:",
     "listing.detail.rawVideoChecked": "रॉ वीडियो जाँचा गया",
+    "listing.detail.maintenance": "रखरखाव",
+    "listing.detail.maintenanceFixed": "समस्याएँ ठीक की गईं",
+    "listing.detail.maintenanceOnTime": "समय पर",
     "listing.detail.about": "इस प्रॉपर्टी के बारे में",
     "listing.detail.amenities": "सुविधाएँ",
     "listing.detail.noAmenities": "कोई सुविधा सूचीबद्ध नहीं",
     "listing.detail.roomOptions": "कमरे के विकल्प",
+    "listing.detail.findRoommates": "रूममेट खोजें",
+    "listing.detail.findRoommatesHint": "कमरा शेयर करना है? बुकिंग से पहले इस पीजी को देख रहे छात्रों से मिलें।",
     "listing.detail.roomsAvailable": "कमरे उपलब्ध",
     "listing.detail.houseRules": "घर के नियम",
     "listing.detail.location": "स्थान",
@@ -836,6 +871,7 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.securityDeposit": "सिक्योरिटी डिपॉज़िट",
     "listing.detail.creatingBooking": "बुकिंग बनाई जा रही है...",
     "listing.detail.bookNow": "अभी बुक करें",
+    "listing.detail.bookWithFriends": "दोस्तों के साथ बुक करें",
     "listing.detail.scheduleVisitWhatsapp": "WhatsApp पर विज़िट शेड्यूल करें",
     "listing.detail.contactOwner": "मालिक से संपर्क करें",
     "listing.detail.propertyOwner": "प्रॉपर्टी मालिक",
@@ -1198,9 +1234,21 @@ const translations: Record<LangCode, Record<string, string>> = {
     "mess.detail.contact.owner": "ಮೆಸ್ ಮಾಲೀಕ",
     "mess.detail.action.subscribeMonthly": "ಮಾಸಿಕ ಚಂದಾದಾರಿಕೆ",
     "mess.detail.toast.loginToBookMeal": "ಊಟ ಬುಕ್ ಮಾಡಲು ದಯವಿಟ್ಟು ಲಾಗಿನ್ ಮಾಡಿ",
-    "mess.detail.toast.mealBooked.title": "ಊಟ ಬುಕ್ ಆಯಿತು",
-    "mess.detail.toast.mealBooked.desc": "ನಿಮ್ಮ ದಿನಸಿ ಊಟ ಯಶಸ್ವಿಯಾಗಿ ಬುಕ್ ಮಾಡಲಾಗಿದೆ.",
-    "mess.detail.action.bookDailyMeal": "ದಿನಸಿ ಊಟ ಬುಕ್ ಮಾಡಿ",
+    "mess.detail.action.startTrial": "ಉಚಿತ ಟ್ರಯಲ್ ಆರಂಭಿಸಿ",
+    "mess.detail.action.buyPass": "ದಿನ ಅಥವಾ ವಾರದ ಪಾಸ್ ಖರೀದಿಸಿ",
+    "mess.detail.toast.passCreated.title": "ಪಾಸ್ ಸಿದ್ಧವಾಗಿದೆ",
+    "mess.detail.toast.passCreated.desc": "ಮೆಸ್‌ನಲ್ಲಿ ಇದರ QR ಕೋಡ್ ತೋರಿಸಿ. ನಿಮ್ಮ ಪ್ರೊಫೈಲ್‌ನ ಬುಕಿಂಗ್‌ಗಳಲ್ಲಿ ಇದು ಸಿಗುತ್ತದೆ.",
+    "mess.detail.toast.passPayment.desc": "ಪಾಸ್ ಸಕ್ರಿಯಗೊಳಿಸಲು ಪ್ರೊಫೈಲ್‌ನ ಬುಕಿಂಗ್‌ಗಳಿಂದ ಪಾವತಿಸಿ.",
+    "mess.detail.toast.passFailed.title": "ಪಾಸ್ ಪಡೆಯಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ",
+    "mess.detail.passDialog.title": "ಮೆಸ್ ಪಾಸ್ ಪಡೆಯಿರಿ",
+    "mess.detail.passDialog.desc": "ಪಾಸ್ ಮತ್ತು ಅದರ ಆರಂಭ ದಿನಾಂಕ ಆಯ್ಕೆಮಾಡಿ. ಪ್ರತಿ ಊಟಕ್ಕೆ ಪಾಸ್ QR ಕೋಡ್ ತೋರಿಸಿ.",
+    "mess.detail.passDialog.type": "ಪಾಸ್",
+    "mess.detail.passDialog.trial": "ಉಚಿತ ಟ್ರಯಲ್",
+    "mess.detail.passDialog.day": "ದಿನದ ಪಾಸ್",
+    "mess.detail.passDialog.week": "ವಾರದ ಪಾಸ್",
+    "mess.detail.passDialog.days": "ದಿನಗಳು",
+    "mess.detail.passDialog.startDate": "ಆರಂಭ ದಿನಾಂಕ",
+    "mess.detail.passDialog.confirm": "ಪಾಸ್ ಪಡೆಯಿರಿ",
     "mess.detail.subscribeDialog.title": "ಚಂದಾದಾರಿಕೆ ಆರಂಭಿಸಿ",
     "mess.detail.subscribeDialog.desc": "ಆರಂಭ ದಿನಾಂಕ ಮತ್ತು ಫೋನ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ.",
     "mess.detail.subscribeDialog.startDate": "ಆರಂಭ ದಿನಾಂಕ",
@@ -1247,10 +1295,15 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.verifiedBy": "SecondHome ಮೂಲಕ ದೃಢೀಕರಿಸಲಾಗಿದೆ",
     "listing.detail.wifiTested": "WiFi ಪರೀಕ್ಷಿಸಲಾಗಿದೆ:",
     "listing.detail.rawVideoChecked": "ರಾ ವಿಡಿಯೋ ಪರಿಶೀಲಿಸಲಾಗಿದೆ",
+    "listing.detail.maintenance": "ನಿರ್ವಹಣೆ",
+    "listing.detail.maintenanceFixed": "ಸಮಸ್ಯೆಗಳು ಸರಿಪಡಿಸಲಾಗಿದೆ",
+    "listing.detail.maintenanceOnTime": "ಸಮಯಕ್ಕೆ",
     "listing.detail.about": "ಈ ಪ್ರಾಪರ್ಟಿ ಬಗ್ಗೆ",
     "listing.detail.amenities": "ಸೌಲಭ್ಯಗಳು",
     "listing.detail.noAmenities": "ಯಾವುದೇ ಸೌಲಭ್ಯಗಳನ್ನು ಪಟ್ಟಿ ಮಾಡಿಲ್ಲ",
     "listing.detail.roomOptions": "ಕೊಠಡಿ ಆಯ್ಕೆಗಳು",
+    "listing.detail.findRoommates": "ರೂಮ್‌ಮೇಟ್ ಹುಡುಕಿ",
+    "listing.detail.findRoommatesHint": "ಕೊಠಡಿ ಹಂಚಿಕೊಳ್ಳುವಿರಾ? ಬುಕ್ ಮಾಡುವ ಮೊದಲು ಈ ಪಿಜಿ ನೋಡುತ್ತಿರುವ ವಿದ್ಯಾರ್ಥಿಗಳನ್ನು ಭೇಟಿ ಮಾಡಿ.",
     "listing.detail.roomsAvailable": "ಕೊಠಡಿಗಳು ಲಭ್ಯ",
     "listing.detail.houseRules": "ಮನೆ ನಿಯಮಗಳು",
     "listing.detail.location": "ಸ್ಥಳ",
@@ -1260,6 +1313,7 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.securityDeposit": "ಸಿಕ್ಯುರಿಟಿ ಡೆಪಾಸಿಟ್",
     "listing.detail.creatingBooking": "ಬುಕಿಂಗ್ ಸೃಷ್ಟಿಸಲಾಗುತ್ತಿದೆ...",
     "listing.detail.bookNow": "ಈಗ ಬುಕ್ ಮಾಡಿ",
+    "listing.detail.bookWithFriends": "ಸ್ನೇಹಿತರೊಂದಿಗೆ ಬುಕ್ ಮಾಡಿ",
     "listing.detail.scheduleVisitWhatsapp": "WhatsApp ಮೂಲಕ ಭೇಟಿ ಶೆಡ್ಯೂಲ್ ಮಾಡಿ",
     "listing.detail.contactOwner": "ಮಾಲಿಕರನ್ನು ಸಂಪರ್ಕಿಸಿ",
     "listing.detail.propertyOwner": "ಪ್ರಾಪರ್ಟಿ ಮಾಲೀಕ",
@@ -1622,9 +1676,21 @@ const translations: Record<LangCode, Record<string, string>> = {
     "mess.detail.contact.owner": "মেস মালিক",
     "mess.detail.action.subscribeMonthly": "মাসিক সাবস্ক্রাইব করুন",
     "mess.detail.toast.loginToBookMeal": "খাবার বুক করতে অনুগ্রহ করে লগইন করুন",
-    "mess.detail.toast.mealBooked.title": "খাবার বুক হয়েছে",
-    "mess.detail.toast.mealBooked.desc": "আপনার দৈনিক খাবার সফলভাবে বুক হয়েছে।",
-    "mess.detail.action.bookDailyMeal": "দৈনিক খাবার বুক করুন",
+    "mess.detail.action.startTrial": "ফ্রি ট্রায়াল শুরু করুন",
+    "mess.detail.action.buyPass": "দিন বা সপ্তাহের পাস কিনুন",
+    "mess.detail.toast.passCreated.title": "পাস তৈরি",
+    "mess.detail.toast.passCreated.desc": "মেসে এর QR কোড দেখান। প্রোফাইলের বুকিংস-এ এটি পাবেন।",
+    "mess.detail.toast.passPayment.desc": "পাস চালু করতে প্রোফাইলের বুকিংস থেকে পেমেন্ট করুন।",
+    "mess.detail.toast.passFailed.title": "পাস পাওয়া যায়নি",
+    "mess.detail.passDialog.title": "মেস পাস নিন",
+    "mess.detail.passDialog.desc": "পাস ও তার শুরুর তারিখ বেছে নিন। প্রতিটি খাবারে পাসের QR কোড দেখান।",
+    "mess.detail.passDialog.type": "পাস",
+    "mess.detail.passDialog.trial": "ফ্রি ট্রায়াল",
+    "mess.detail.passDialog.day": "দিনের পাস",
+    "mess.detail.passDialog.week": "সপ্তাহের পাস",
+    "mess.detail.passDialog.days": "দিন",
+    "mess.detail.passDialog.startDate": "শুরুর তারিখ",
+    "mess.detail.passDialog.confirm": "পাস নিন",
     "mess.detail.subscribeDialog.title": "সাবস্ক্রিপশন শুরু করুন",
     "mess.detail.subscribeDialog.desc": "শুরুর তারিখ এবং ফোন নম্বর লিখুন।",
     "mess.detail.subscribeDialog.startDate": "শুরুর তারিখ",
@@ -1671,10 +1737,15 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.verifiedBy": "SecondHome দ্বারা যাচাইকৃত",
     "listing.detail.wifiTested": "WiFi পরীক্ষা করা হয়েছে:",
     "listing.detail.rawVideoChecked": "র’ ভিডিও যাচাই করা হয়েছে",
+    "listing.detail.maintenance": "রক্ষণাবেক্ষণ",
+    "listing.detail.maintenanceFixed": "সমস্যা সমাধান হয়েছে",
+    "listing.detail.maintenanceOnTime": "সময়মতো",
     "listing.detail.about": "এই প্রপার্টি সম্পর্কে",
     "listing.detail.amenities": "সুবিধাসমূহ",
     "listing.detail.noAmenities": "কোনো সুবিধা তালিকাভুক্ত নেই",
     "listing.detail.roomOptions": "রুম অপশন",
+    "listing.detail.findRoommates": "রুমমেট খুঁজুন",
+    "listing.detail.findRoommatesHint": "রুম শেয়ার করবেন? বুক করার আগে এই পিজি দেখছে এমন ছাত্রছাত্রীদের সঙ্গে পরিচিত হন।",
     "listing.detail.roomsAvailable": "রুম উপলব্ধ",
     "listing.detail.houseRules": "বাড়ির নিয়ম",
     "listing.detail.location": "অবস্থান",
@@ -1684,6 +1755,7 @@ const translations: Record<LangCode, Record<string, string>> = {
     "listing.detail.securityDeposit": "সিকিউরিটি ডিপোজিট",
     "listing.detail.creatingBooking": "বুকিং তৈরি হচ্ছে...",
     "listing.detail.bookNow": "এখনই বুক করুন",
+    "listing.detail.bookWithFriends": "বন্ধুদের সঙ্গে বুক করুন",
     "listing.detail.scheduleVisitWhatsapp": "WhatsApp-এ ভিজিট শিডিউল করুন",
     "listing.detail.contactOwner": "মালিকের সাথে যোগাযোগ করুন",
     "listing.detail.propertyOwner": "প্রপার্টি মালিক",